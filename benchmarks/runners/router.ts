@@ -0,0 +1,196 @@
+import { writeFile, mkdir } from 'fs/promises';
+import { join } from 'path';
+import type { Route, RouteParams } from '@ereo/core';
+import {
+  RouteMatcher,
+  parsePathSegments,
+  patternToRegex,
+  calculateRouteScore,
+} from '../../packages/router/src/matcher';
+import { computeStats, type BenchmarkStats } from './utils/stats';
+
+const BENCHMARKS_DIR = join(import.meta.dir, '..');
+const RESULTS_DIR = join(BENCHMARKS_DIR, 'results');
+
+const ROUTE_COUNTS = [50, 200, 800, 2000];
+const ITERATIONS = 5;
+const MATCHES_PER_ITERATION = 20_000;
+
+/**
+ * The previous matcher: every route compiled to a RegExp and tested in score order.
+ * Kept here as the baseline the trie matcher is measured against.
+ */
+class LinearRouteMatcher {
+  private routes: Array<{ route: Route; segments: ReturnType<typeof parsePathSegments>; regex: RegExp; score: number }>;
+
+  constructor(routes: Route[]) {
+    this.routes = routes
+      .map((route) => {
+        const segments = parsePathSegments(route.path);
+        return { route, segments, regex: patternToRegex(segments), score: calculateRouteScore(segments) };
+      })
+      .sort((a, b) => b.score - a.score);
+  }
+
+  match(pathname: string): { route: Route; params: RouteParams } | null {
+    // Same normalization as RouteMatcher.match
+    let normalizedPath = pathname === '' ? '/' : pathname;
+    try {
+      normalizedPath = decodeURI(normalizedPath);
+    } catch {
+      // Malformed URI, use as-is
+    }
+    normalizedPath = normalizedPath.replace(/\/{2,}/g, '/');
+
+    for (const { route, segments, regex } of this.routes) {
+      const match = normalizedPath.match(regex);
+      if (!match) continue;
+
+      const params: RouteParams = {};
+      let paramIndex = 1;
+      for (const segment of segments) {
+        if (segment.paramName) {
+          const value = match[paramIndex];
+          if (segment.type === 'catchAll' && value) {
+            params[segment.paramName] = value.split('/');
+          } else if (value !== undefined) {
+            params[segment.paramName] = value;
+          }
+          paramIndex++;
+        }
+      }
+      return { route, params };
+    }
+    return null;
+  }
+}
+
+/**
+ * Generate an app-shaped route table: static pages, resource CRUD routes,
+ * nested dynamic routes and a few catch-alls.
+ */
+function generateRoutes(count: number): Route[] {
+  const routes: Route[] = [{ id: '/', path: '/', file: 'index.tsx' }];
+  let section = 0;
+
+  while (routes.length < count) {
+    const base = `/section${section}`;
+    const paths = [
+      base,
+      `${base}/new`,
+      `${base}/[id]`,
+      `${base}/[id]/edit`,
+      `${base}/[id]/comments/[commentId]`,
+      `${base}/settings/[[tab]]`,
+      `${base}/docs/[...path]`,
+      `${base}/about`,
+    ];
+    for (const path of paths) {
+      if (routes.length >= count) break;
+      routes.push({ id: path, path, file: `${path}.tsx` });
+    }
+    section++;
+  }
+
+  routes.push({ id: '/[...all]', path: '/[...all]', file: '404.tsx' });
+  return routes;
+}
+
+/**
+ * Request paths spread across the whole table, including misses.
+ */
+function generatePaths(routeCount: number): string[] {
+  const sections = Math.ceil(routeCount / 8);
+  const paths: string[] = [];
+  for (let i = 0; i < 200; i++) {
+    const section = `/section${(i * 7919) % sections}`;
+    const variants = [
+      section,
+      `${section}/new`,
+      `${section}/${i}`,
+      `${section}/${i}/edit`,
+      `${section}/${i}/comments/${i * 3}`,
+      `${section}/settings`,
+      `${section}/docs/guide/intro`,
+      `/missing/${i}`,
+    ];
+    paths.push(variants[i % variants.length]);
+  }
+  return paths;
+}
+
+function measure(matcher: { match(path: string): unknown }, paths: string[]): BenchmarkStats {
+  const samples: number[] = [];
+
+  // Warm up
+  for (let i = 0; i < MATCHES_PER_ITERATION; i++) {
+    matcher.match(paths[i % paths.length]);
+  }
+
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    const start = performance.now();
+    for (let i = 0; i < MATCHES_PER_ITERATION; i++) {
+      matcher.match(paths[i % paths.length]);
+    }
+    const elapsed = performance.now() - start;
+    // Nanoseconds per match
+    samples.push((elapsed * 1e6) / MATCHES_PER_ITERATION);
+  }
+
+  return computeStats(samples);
+}
+
+interface RouterResult {
+  routes: number;
+  linearNsPerMatch: BenchmarkStats;
+  trieNsPerMatch: BenchmarkStats;
+  speedup: number;
+}
+
+export async function runRouterBenchmark(): Promise<RouterResult[]> {
+  await mkdir(RESULTS_DIR, { recursive: true });
+
+  console.log(`\n=== Route Matcher Benchmark ===\n`);
+  console.log('Routes | Linear (ns/match) | Trie (ns/match) | Speedup');
+  console.log('--- | --- | --- | ---');
+
+  const results: RouterResult[] = [];
+
+  for (const count of ROUTE_COUNTS) {
+    const routes = generateRoutes(count);
+    const paths = generatePaths(count);
+    const linear = new LinearRouteMatcher(routes);
+    const trie = new RouteMatcher(routes);
+
+    // Both matchers must agree before timing anything
+    for (const path of paths) {
+      const expected = linear.match(path);
+      const actual = trie.match(path);
+      if (expected?.route.id !== actual?.route.id) {
+        throw new Error(`Matcher mismatch for ${path}: ${expected?.route.id} vs ${actual?.route.id}`);
+      }
+    }
+
+    const linearStats = measure(linear, paths);
+    const trieStats = measure(trie, paths);
+    const speedup = linearStats.mean / trieStats.mean;
+
+    results.push({ routes: routes.length, linearNsPerMatch: linearStats, trieNsPerMatch: trieStats, speedup });
+    console.log(
+      `${routes.length} | ${Math.round(linearStats.mean)} | ${Math.round(trieStats.mean)} | ${speedup.toFixed(1)}x`
+    );
+  }
+
+  const outputFile = join(RESULTS_DIR, `router-${Date.now()}.json`);
+  await writeFile(outputFile, JSON.stringify({ results, timestamp: Date.now() }, null, 2));
+  console.log(`\nResults saved to: ${outputFile}`);
+
+  return results;
+}
+
+if (import.meta.main) {
+  runRouterBenchmark().catch((err) => {
+    console.error('Router benchmark failed:', err);
+    process.exit(1);
+  });
+}
@@ -394,6 +394,8 @@ export default defineConfig({
             { text: 'Loaders', link: '/api/data/loaders' },
             { text: 'Actions', link: '/api/data/actions' },
             { text: 'Pipeline', link: '/api/data/pipeline' },
+            { text: 'Batch Loader', link: '/api/data/batch' },
+            { text: 'Event Streams', link: '/api/data/event-stream' },
             { text: 'Cache', link: '/api/data/cache' },
             { text: 'Revalidation', link: '/api/data/revalidation' }
           ]
@@ -413,7 +415,8 @@ export default defineConfig({
           items: [
             { text: 'Overview', link: '/api/state/' },
             { text: 'Signals', link: '/api/state/signals' },
-            { text: 'Stores', link: '/api/state/stores' }
+            { text: 'Stores', link: '/api/state/stores' },
+            { text: 'Server Rendering & Persistence', link: '/api/state/ssr' }
           ]
         },
         {
@@ -487,6 +490,7 @@ export default defineConfig({
             { text: 'start', link: '/api/cli/start' },
             { text: 'create', link: '/api/cli/create' },
             { text: 'deploy', link: '/api/cli/deploy' },
+            { text: 'openapi', link: '/api/cli/openapi' },
             { text: 'db', link: '/api/cli/db' }
           ]
         },
@@ -503,7 +507,8 @@ export default defineConfig({
           items: [
             { text: 'Overview', link: '/api/db/' },
             { text: 'Drizzle Adapter', link: '/api/db/drizzle' },
-            { text: 'SurrealDB Adapter', link: '/api/db/surrealdb' }
+            { text: 'SurrealDB Adapter', link: '/api/db/surrealdb' },
+            { text: 'SQLite Adapter', link: '/api/db/sqlite' }
           ]
         },
         {
@@ -527,6 +532,13 @@ export default defineConfig({
             { text: 'Configuration', link: '/api/trace/configuration' },
           ]
         },
+        {
+          text: '@ereo/openapi',
+          collapsed: true,
+          items: [
+            { text: 'Overview', link: '/api/openapi/' }
+          ]
+        },
         {
           text: '@ereo/dev-inspector',
           collapsed: true,
@@ -342,6 +342,7 @@ describe('@ereo/bundler - HMR', () => {
       expect(depGraph.exports).toBeInstanceOf(Map);
       expect(depGraph.islands).toBeInstanceOf(Set);
       expect(depGraph.routes).toBeInstanceOf(Set);
+      expect(depGraph.client).toBeInstanceOf(Set);
     });
 
     test('registerModule adds dependencies to graph', () => {
@@ -425,6 +426,98 @@ describe('@ereo/bundler - HMR', () => {
     });
   });
 
+  describe('HMRServer client modules', () => {
+    let hmr: HMRServer;
+    let sentMessages: string[];
+
+    beforeEach(() => {
+      sentMessages = [];
+    });
+
+    function connect(server: HMRServer) {
+      server.handleConnection({ send: (msg: string) => sentMessages.push(msg) } as any);
+      return server;
+    }
+
+    test('registerModule marks client modules', () => {
+      hmr = createHMRServer();
+      hmr.registerModule('/app/components/Button.tsx', { isClient: true });
+
+      expect(hmr.isClientModule('/app/components/Button.tsx')).toBe(true);
+      expect(hmr.isClientModule('/app/routes/index.tsx')).toBe(false);
+    });
+
+    test('component-update marks client modules for Fast Refresh', async () => {
+      hmr = connect(createHMRServer());
+      const testFile = join('/tmp/hmr-test-' + Date.now(), 'Button.tsx');
+      await Bun.write(testFile, `export function Button() { return <button />; }`);
+      hmr.registerModule(testFile, { isClient: true });
+
+      await hmr.jsUpdate(testFile);
+
+      const parsed = JSON.parse(sentMessages[0]);
+      expect(parsed.type).toBe('component-update');
+      expect(parsed.module.isClient).toBe(true);
+    });
+
+    test('component-update of a route with a loader is server-rendered', async () => {
+      hmr = connect(createHMRServer());
+      const testFile = join('/tmp/hmr-test-' + Date.now(), 'routes', 'index.tsx');
+      await Bun.write(testFile, `
+        export async function loader() { return { posts: [] }; }
+        export default function Index() { return <ul />; }
+      `);
+
+      await hmr.jsUpdate(testFile);
+
+      const parsed = JSON.parse(sentMessages[0]);
+      expect(parsed.type).toBe('component-update');
+      expect(parsed.module.isClient).toBe(false);
+    });
+
+    test('PascalCase exports count as components', async () => {
+      hmr = connect(createHMRServer());
+      const testFile = join('/tmp/hmr-test-' + Date.now(), 'Card.tsx');
+      await Bun.write(testFile, `
+        export function Card() { return <div />; }
+        export const CardTitle = () => <h2 />;
+        export default Card;
+      `);
+
+      await hmr.jsUpdate(testFile);
+
+      expect(JSON.parse(sentMessages[0]).type).toBe('component-update');
+    });
+
+    test("'use client' files are islands", async () => {
+      hmr = connect(createHMRServer());
+      const testFile = join('/tmp/hmr-test-' + Date.now(), 'Counter.tsx');
+      await Bun.write(testFile, `'use client';\nexport function Counter() { return <button />; }`);
+
+      await hmr.jsUpdate(testFile);
+
+      const parsed = JSON.parse(sentMessages[0]);
+      expect(parsed.type).toBe('island-update');
+      expect(parsed.module.isClient).toBe(true);
+    });
+
+    test('beforeUpdate runs before the update is sent', async () => {
+      const calls: string[] = [];
+      hmr = connect(createHMRServer({
+        beforeUpdate: async (path) => {
+          calls.push(`before:${path}`);
+        },
+      }));
+      const testFile = join('/tmp/hmr-test-' + Date.now(), 'Badge.tsx');
+      await Bun.write(testFile, `export function Badge() { return <span />; }`);
+
+      await hmr.jsUpdate(testFile);
+
+      expect(calls).toEqual([`before:${testFile}`]);
+      expect(sentMessages).toHaveLength(1);
+    });
+  });
+
   describe('HMRServer canHotUpdate', () => {
     let hmr: HMRServer;
 
@@ -804,6 +897,7 @@ describe('@ereo/bundler - HMR', () => {
     test('contains loader-update handler', () => {
       expect(HMR_CLIENT_CODE).toContain('loader-update');
       expect(HMR_CLIENT_CODE).toContain('refreshLoaderData');
+      expect(HMR_CLIENT_CODE).toContain('data: client.getHydrationData()');
     });
 
     test('contains fetchAndRehydrate function', () => {
@@ -825,6 +919,18 @@ describe('@ereo/bundler - HMR', () => {
       expect(HMR_CLIENT_CODE).toContain('ereo-error-overlay');
       expect(HMR_CLIENT_CODE).toContain('overlay.remove()');
     });
+
+    test('applies client module updates with React Fast Refresh', () => {
+      expect(HMR_CLIENT_CODE).toContain('/__ereo/hmr?module=');
+      expect(HMR_CLIENT_CODE).toContain('isLikelyComponentType');
+      expect(HMR_CLIENT_CODE).toContain('performReactRefresh');
+    });
+
+    test('re-renders server-rendered pages in place, keeping islands', () => {
+      expect(HMR_CLIENT_CODE).toContain('refreshPage');
+      expect(HMR_CLIENT_CODE).toContain('keepIslands');
+      expect(HMR_CLIENT_CODE).toContain('islandRegistry.update');
+    });
   });
 
   describe('HMRWatcher processPendingChanges', () => {
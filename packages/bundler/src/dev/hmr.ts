@@ -2,6 +2,8 @@
  * @ereo/bundler - Hot Module Replacement
  *
  * Sub-100ms HMR for rapid development with granular JS updates.
+ * Client components are hot-swapped with React Fast Refresh; server-rendered
+ * routes and layouts are re-rendered in place.
  */
 
 import type { Server, ServerWebSocket } from 'bun';
@@ -37,6 +39,8 @@ export interface HMRUpdate {
     isLoader?: boolean;
     isAction?: boolean;
     isComponent?: boolean;
+    /** Part of the client bundle, so it can be hot-swapped with Fast Refresh */
+    isClient?: boolean;
   };
   /** Explanation for why this update type was chosen */
   reason?: string;
@@ -56,11 +60,29 @@ export interface ModuleDependencyGraph {
   islands: Set<string>;
   /** Module ID -> whether it's a route module */
   routes: Set<string>;
+  /** Modules included in the client bundle */
+  client: Set<string>;
+}
+
+/**
+ * HMR server options.
+ */
+export interface HMRServerOptions {
+  /**
+   * Called before a JS update is sent, e.g. to rebuild the client bundle
+   * so that a reload picks up the change.
+   */
+  beforeUpdate?: (path: string) => void | Promise<void>;
 }
 
 /**
  * HMR client code injected into the page.
  * Supports granular JS updates for islands and components.
+ *
+ * With the React Refresh runtime installed (`__EREO_HMR__.refresh`), client
+ * modules whose exports are all components are swapped in place. Changes to
+ * server-rendered modules re-render the page on the server and patch the
+ * DOM, keeping hydrated islands mounted.
  */
 export const HMR_CLIENT_CODE = `
 (function() {
@@ -192,6 +214,11 @@ export const HMR_CLIENT_CODE = `
   }
 
   function handleIslandUpdate(update) {
+    // Fast Refresh keeps island state; without it, islands are remounted
+    if (window.__EREO_HMR__.refresh) {
+      return hotUpdate(update);
+    }
+
     const moduleId = update.module?.id || update.path;
     if (!moduleId) return false;
 
@@ -207,41 +234,83 @@ export const HMR_CLIENT_CODE = `
   }
 
   function handleComponentUpdate(update) {
-    // For now, component updates trigger a soft reload
-    // Future: implement React Fast Refresh integration
-    return false;
+    // Client modules (islands and what they import) are swapped with Fast Refresh
+    if (update.module && update.module.isClient) {
+      return hotUpdate(update);
+    }
+
+    // Server-rendered modules (routes, layouts) are re-rendered in place
+    refreshPage();
+    return true;
+  }
+
+  function hotModuleUrl(moduleId) {
+    return '/__ereo/hmr?module=' + encodeURIComponent(moduleId) + '&t=' + Date.now();
+  }
+
+  function hotUpdate(update) {
+    var hmr = window.__EREO_HMR__;
+    var moduleId = update.module?.id || update.path;
+    if (!hmr.refresh || !moduleId) return false;
+
+    import(hotModuleUrl(moduleId))
+      .then(function(module) {
+        hmr.modules.set(moduleId, module);
+
+        // Only modules that export nothing but components can be refreshed
+        if (!isRefreshBoundary(module)) {
+          console.log('[HMR] Full reload: ' + moduleId + ' exports values that are not components');
+          location.reload();
+          return;
+        }
+
+        hmr.acceptedModules.add(moduleId);
+        hmr.refresh.performReactRefresh();
+      })
+      .catch(function(err) {
+        // Build errors are shown in the error overlay; the next save retries
+        console.error('[HMR] Failed to hot-update ' + moduleId + ':', err);
+      });
+
+    return true;
+  }
+
+  function isRefreshBoundary(module) {
+    var names = Object.keys(module);
+    return names.length > 0 && names.every(function(name) {
+      return window.__EREO_HMR__.refresh.isLikelyComponentType(module[name]);
+    });
   }
 
   function fetchAndRehydrate(moduleId, islands) {
-    // Dynamic import with cache busting
-    const importUrl = '/' + moduleId + '?t=' + Date.now();
+    var hmr = window.__EREO_HMR__;
+    var React = hmr.modules.get('react');
+    var ReactDOM = hmr.modules.get('react-dom/client');
+    var client = hmr.modules.get('@ereo/client');
+    if (!React || !ReactDOM) return false;
 
-    import(importUrl)
+    import(hotModuleUrl(moduleId))
       .then(function(module) {
         const Component = module.default;
         if (!Component) return;
 
-        // Re-render each island
+        // Remount each island
         islands.forEach(function(element) {
           const propsJson = element.getAttribute('data-props');
           const props = propsJson ? JSON.parse(propsJson) : {};
 
-          // Use React to re-render
-          if (window.__EREO_REACT__) {
-            const { createRoot } = window.__EREO_REACT_DOM__;
-            const { createElement } = window.__EREO_REACT__;
-
-            // Unmount existing
-            const existingRoot = window.__EREO_HMR__.islands.get(element);
-            if (existingRoot) {
-              existingRoot.unmount();
-            }
-
-            // Create new root and render
-            const root = createRoot(element);
-            root.render(createElement(Component, props));
-            window.__EREO_HMR__.islands.set(element, root);
+          // Unmount existing
+          const existingRoot = hmr.islands.get(element);
+          if (existingRoot) {
+            existingRoot.unmount();
+          } else if (client) {
+            client.islandRegistry.cleanup(element.getAttribute('data-island'));
           }
+
+          // Create new root and render
+          const root = ReactDOM.createRoot(element);
+          root.render(React.createElement(Component, props));
+          hmr.islands.set(element, root);
         });
       })
       .catch(function(err) {
@@ -253,21 +322,72 @@ export const HMR_CLIENT_CODE = `
   }
 
   function refreshLoaderData(path) {
-    // Fetch fresh loader data and update the page
-    const routePath = path.replace(/\\/routes\\//, '/').replace(/\\.[jt]sx?$/, '');
-    fetch('/__ereo/loader-data' + routePath + '?t=' + Date.now())
-      .then(function(res) { return res.json(); })
-      .then(function(data) {
-        // Emit event for components to update
-        window.dispatchEvent(new CustomEvent('ereo:loader-update', {
-          detail: { path: routePath, data: data }
-        }));
+    // Re-running the loaders is a server re-render of the page
+    refreshPage().then(function() {
+      // Listeners get the data as getHydrationData() returns it, with Dates,
+      // Maps and other types revived. Without the client module, reload.
+      var client = window.__EREO_HMR__.modules.get('@ereo/client');
+      if (!client || !client.getHydrationData) {
+        location.reload();
+        return;
+      }
+      window.dispatchEvent(new CustomEvent('ereo:loader-update', {
+        detail: { path: path, data: client.getHydrationData() }
+      }));
+    });
+  }
+
+  function refreshPage() {
+    return fetch(location.href, { headers: { Accept: 'text/html' } })
+      .then(function(res) {
+        if (!res.ok || res.redirected) throw new Error('HTTP ' + res.status);
+        return res.text();
       })
-      .catch(function() {
+      .then(function(html) {
+        var doc = new DOMParser().parseFromString(html, 'text/html');
+        keepIslands(doc);
+        runDataScripts(doc);
+        document.title = doc.title;
+        document.body.replaceChildren.apply(document.body, Array.from(doc.body.childNodes));
+      })
+      .catch(function(err) {
+        console.error('[HMR] Failed to refresh page:', err);
         location.reload();
       });
   }
 
+  // Move the mounted islands into the new page, matching them by component
+  // and position. Islands whose props changed are re-rendered, not remounted.
+  function keepIslands(doc) {
+    var client = window.__EREO_HMR__.modules.get('@ereo/client');
+    var seen = {};
+
+    document.querySelectorAll('[data-island]').forEach(function(element) {
+      var name = element.getAttribute('data-component');
+      var index = seen[name] = (seen[name] || 0) + 1;
+      var next = doc.querySelectorAll('[data-component="' + name + '"]')[index - 1];
+      if (!next) return;
+
+      var props = next.getAttribute('data-props');
+      if (props !== element.getAttribute('data-props')) {
+        element.setAttribute('data-props', props);
+        if (client) {
+          client.islandRegistry.update(element.getAttribute('data-island'), props ? JSON.parse(props) : {});
+        }
+      }
+      next.replaceWith(element);
+    });
+  }
+
+  // Scripts of parsed documents do not run; apply the page data they set
+  function runDataScripts(doc) {
+    doc.querySelectorAll('script:not([src])').forEach(function(script) {
+      if (/^window\\.__EREO_\\w+__=/.test(script.textContent)) {
+        new Function(script.textContent)();
+      }
+    });
+  }
+
   function logHMRReason(update) {
     if (update.reason) {
       console.log('[HMR] ' + update.reason);
@@ -308,13 +428,14 @@ export class HMRServer {
   private depGraph: ModuleDependencyGraph;
   private moduleAnalyzer: ModuleAnalyzer;
 
-  constructor() {
+  constructor(private options: HMRServerOptions = {}) {
     this.depGraph = {
       dependents: new Map(),
       dependencies: new Map(),
       exports: new Map(),
       islands: new Set(),
       routes: new Set(),
+      client: new Set(),
     };
     this.moduleAnalyzer = new ModuleAnalyzer();
   }
@@ -385,6 +506,7 @@ export class HMRServer {
    */
   async jsUpdate(path: string): Promise<void> {
     const analysis = await this.moduleAnalyzer.analyze(path);
+    await this.options.beforeUpdate?.(path);
 
     // Determine update type based on analysis
     if (analysis.isIsland) {
@@ -396,6 +518,7 @@ export class HMRServer {
           id: path,
           exports: analysis.exports,
           isIsland: true,
+          isClient: true,
         },
         reason: `Island component changed: ${path}`,
       });
@@ -426,6 +549,7 @@ export class HMRServer {
           id: path,
           exports: analysis.exports,
           isComponent: true,
+          isClient: this.isClientModule(path),
         },
         reason: `Component changed: ${path}`,
       });
@@ -482,6 +606,7 @@ export class HMRServer {
     exports?: string[];
     isIsland?: boolean;
     isRoute?: boolean;
+    isClient?: boolean;
   }): void {
     if (info.dependencies) {
       this.depGraph.dependencies.set(moduleId, new Set(info.dependencies));
@@ -506,6 +631,18 @@ export class HMRServer {
     if (info.isRoute) {
       this.depGraph.routes.add(moduleId);
     }
+
+    if (info.isClient) {
+      this.depGraph.client.add(moduleId);
+    }
+  }
+
+  /**
+   * Check if a module runs in the browser (an island, or imported by one).
+   * Other modules are server-rendered only.
+   */
+  isClientModule(moduleId: string): boolean {
+    return this.depGraph.client.has(moduleId) || this.depGraph.islands.has(moduleId);
   }
 
   /**
@@ -627,6 +764,7 @@ class ModuleAnalyzer {
 
     // Check for island markers
     isIsland =
+      /^\s*['"]use client['"]/m.test(content) ||
       content.includes('client:load') ||
       content.includes('client:idle') ||
       content.includes('client:visible') ||
@@ -677,9 +815,14 @@ class ModuleAnalyzer {
       }
     }
 
-    // Determine if there are non-component exports
-    const componentExports = new Set(['default', 'loader', 'action', 'meta', 'headers', 'config', 'handle', 'ErrorBoundary']);
-    const hasNonComponentExports = exports.some((e) => !componentExports.has(e));
+    // Determine if there are non-component exports. Components are PascalCase;
+    // route exports are re-evaluated by the server re-render.
+    const isComponentName = (name: string) => /^[A-Z][A-Za-z0-9]*$/.test(name);
+    const componentExports = new Set(['default', 'loader', 'action', 'meta', 'headers', 'links', 'messages', 'config', 'handle', 'ErrorBoundary']);
+    const hasNonComponentExports = exports.some((e) => !componentExports.has(e) && !isComponentName(e));
+
+    // Modules with only named component exports are components too
+    isComponent ||= exports.some(isComponentName);
 
     return {
       exports,
@@ -702,8 +845,8 @@ class ModuleAnalyzer {
 /**
  * Create HMR server.
  */
-export function createHMRServer(): HMRServer {
-  return new HMRServer();
+export function createHMRServer(options?: HMRServerOptions): HMRServer {
+  return new HMRServer(options);
 }
 
 /**
@@ -0,0 +1,127 @@
+import { describe, expect, test, beforeAll, afterAll } from 'bun:test';
+import { join } from 'node:path';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import type { BuildMetafile } from 'bun';
+import {
+  resolveRefreshRuntime,
+  createRefreshPrelude,
+  getClientModuleGraph,
+  createModuleRegistryCode,
+  buildHotModule,
+} from './refresh';
+
+describe('@ereo/bundler - React Fast Refresh', () => {
+  describe('resolveRefreshRuntime', () => {
+    test('resolves the bundled react-refresh runtime', () => {
+      const runtime = resolveRefreshRuntime();
+      expect(runtime).not.toBeNull();
+      expect(runtime).toContain('react-refresh');
+    });
+  });
+
+  describe('createRefreshPrelude', () => {
+    test('installs the runtime and the module registry', () => {
+      const prelude = createRefreshPrelude('/deps/react-refresh/runtime.js');
+
+      expect(prelude).toContain('import RefreshRuntime from "/deps/react-refresh/runtime.js"');
+      expect(prelude).toContain('injectIntoGlobalHook(window)');
+      expect(prelude).toContain('window.$RefreshReg$');
+      expect(prelude).toContain('window.$RefreshSig$');
+      expect(prelude).toContain('window.__EREO_HMR__');
+    });
+  });
+
+  describe('getClientModuleGraph', () => {
+    const metafile = {
+      inputs: {
+        'app/islands/Counter.tsx': {
+          bytes: 100,
+          imports: [
+            { path: 'app/components/Button.tsx', kind: 'import-statement', original: '../components/Button' },
+            { path: 'node_modules/@ereo/state/dist/index.js', kind: 'import-statement', original: '@ereo/state' },
+          ],
+        },
+        'app/components/Button.tsx': { bytes: 50, imports: [] },
+        'node_modules/@ereo/state/dist/index.js': { bytes: 500, imports: [] },
+      },
+      outputs: {},
+    } as unknown as BuildMetafile;
+
+    test('collects app modules with their app imports', () => {
+      const graph = getClientModuleGraph(metafile, '/project/app', '/project');
+
+      expect([...graph.modules.keys()]).toEqual(['/project/app/islands/Counter.tsx', '/project/app/components/Button.tsx']);
+      expect(graph.modules.get('/project/app/islands/Counter.tsx')).toEqual(['/project/app/components/Button.tsx']);
+    });
+
+    test('collects imported packages and always shares React', () => {
+      const graph = getClientModuleGraph(metafile, '/project/app', '/project');
+
+      expect(graph.packages.has('@ereo/state')).toBe(true);
+      expect(graph.packages.has('react')).toBe(true);
+      expect(graph.packages.has('@ereo/client')).toBe(true);
+    });
+  });
+
+  describe('createModuleRegistryCode', () => {
+    test('registers every module and package', () => {
+      const code = createModuleRegistryCode({
+        modules: new Map([['/app/components/Button.tsx', []]]),
+        packages: new Set(['react']),
+      });
+
+      expect(code).toContain('import * as __hmr_module_0 from "react";');
+      expect(code).toContain('import * as __hmr_module_1 from "/app/components/Button.tsx";');
+      expect(code).toContain('window.__EREO_HMR__.modules.set("/app/components/Button.tsx", __hmr_module_1);');
+    });
+  });
+
+  describe('buildHotModule', () => {
+    let dir: string;
+
+    beforeAll(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'ereo-refresh-'));
+      await writeFile(join(dir, 'store.ts'), `export const store = { count: 0 };`);
+      await writeFile(join(dir, 'format.ts'), `export const format = (n: number) => 'n=' + n;`);
+      await writeFile(
+        join(dir, 'Counter.tsx'),
+        `import { store } from './store';
+import { format } from './format';
+export function Counter() { return <span>{format(store.count)}</span>; }`
+      );
+    });
+
+    afterAll(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    test('imports registered modules from the page and bundles the rest', async () => {
+      const code = await buildHotModule(join(dir, 'Counter.tsx'), {
+        registered: new Set(['react/jsx-dev-runtime', join(dir, 'store.ts')]),
+        refreshRuntime: resolveRefreshRuntime(),
+      });
+
+      expect(code).toContain(`window.__EREO_HMR__.modules.get(${JSON.stringify(join(dir, 'store.ts'))})`);
+      expect(code).toContain('var format = ');
+      expect(code).toContain('$RefreshReg$');
+    });
+
+    test('builds without Fast Refresh when the runtime is missing', async () => {
+      const code = await buildHotModule(join(dir, 'Counter.tsx'), {
+        registered: new Set(['react/jsx-dev-runtime']),
+        refreshRuntime: null,
+      });
+
+      expect(code).not.toContain('$RefreshReg$');
+    });
+
+    test('throws on build errors', async () => {
+      await writeFile(join(dir, 'Broken.tsx'), `export function Broken() { return <div>; }`);
+
+      await expect(
+        buildHotModule(join(dir, 'Broken.tsx'), { registered: new Set(), refreshRuntime: null })
+      ).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * @ereo/bundler - React Fast Refresh
+ *
+ * Hot-swaps client modules (islands and the components they import) while
+ * keeping React state. The dev client bundle is built with Bun's Fast Refresh
+ * transform and exposes its modules in a registry; a changed module is then
+ * rebuilt on its own, importing everything else from that registry.
+ */
+
+import { dirname, resolve } from 'node:path';
+import type { BuildMetafile, BunPlugin } from 'bun';
+import { serverCodePlugin } from '../plugins/server-code';
+
+/** Packages every hot module may share with the page */
+const SHARED_PACKAGES = ['react', 'react/jsx-dev-runtime', 'react-dom/client', '@ereo/client'];
+
+/**
+ * Client modules of the dev bundle, from its metafile.
+ */
+export interface ClientModuleGraph {
+  /** App module (absolute path) -> app modules it imports */
+  modules: Map<string, string[]>;
+  /** Packages imported by app modules, e.g. 'react' or '@ereo/state' */
+  packages: Set<string>;
+}
+
+/**
+ * Resolve the React Refresh runtime, or null when it is not installed.
+ */
+export function resolveRefreshRuntime(): string | null {
+  try {
+    return Bun.resolveSync('react-refresh/runtime', import.meta.dir);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve `react-refresh/runtime`, which Bun's Fast Refresh transform
+ * imports, to the runtime of this package. Apps need not install it.
+ */
+export function refreshRuntimePlugin(runtimePath: string): BunPlugin {
+  return {
+    name: 'ereo:react-refresh',
+    setup(build) {
+      build.onResolve({ filter: /^react-refresh\/runtime$/ }, () => ({ path: runtimePath }));
+    },
+  };
+}
+
+/**
+ * Source of the module that installs the React Refresh runtime.
+ * It must be the first import of the client entry, so the runtime hooks
+ * into React before react-dom loads.
+ */
+export function createRefreshPrelude(runtimePath: string): string {
+  return `import RefreshRuntime from ${JSON.stringify(runtimePath)};
+
+RefreshRuntime.injectIntoGlobalHook(window);
+window.$RefreshReg$ = function(type, id) { RefreshRuntime.register(type, id); };
+window.$RefreshSig$ = RefreshRuntime.createSignatureFunctionForTransform;
+
+var hmr = window.__EREO_HMR__ = window.__EREO_HMR__ || {
+  modules: new Map(),
+  islands: new Map(),
+  acceptedModules: new Set(),
+};
+hmr.refresh = RefreshRuntime;
+`;
+}
+
+function isBareSpecifier(specifier: string): boolean {
+  return !/^[./]/.test(specifier) && !specifier.startsWith('~/') && !specifier.startsWith('@/');
+}
+
+/**
+ * Collect the app modules of a client build and the packages they import.
+ *
+ * @param appDir - Absolute path of the app directory; other inputs are ignored
+ * @param cwd - Directory the metafile paths are relative to
+ */
+export function getClientModuleGraph(
+  metafile: BuildMetafile,
+  appDir: string,
+  cwd: string = process.cwd()
+): ClientModuleGraph {
+  const graph: ClientModuleGraph = { modules: new Map(), packages: new Set(SHARED_PACKAGES) };
+  const isAppModule = (path: string) => path.startsWith(appDir + '/') && !path.includes('/node_modules/');
+
+  for (const [input, { imports }] of Object.entries(metafile.inputs)) {
+    const id = resolve(cwd, input);
+    if (!isAppModule(id)) continue;
+
+    const dependencies: string[] = [];
+    for (const imported of imports) {
+      const path = resolve(cwd, imported.path);
+      if (isAppModule(path)) {
+        dependencies.push(path);
+      } else if (imported.original && isBareSpecifier(imported.original)) {
+        graph.packages.add(imported.original);
+      }
+    }
+    graph.modules.set(id, dependencies);
+  }
+
+  return graph;
+}
+
+/**
+ * Source that registers the modules of a client graph in
+ * `window.__EREO_HMR__.modules`, for hot modules to import from.
+ * Append it to the client entry.
+ */
+export function createModuleRegistryCode(graph: ClientModuleGraph): string {
+  const ids = [...graph.packages, ...graph.modules.keys()];
+  const imports = ids.map((id, i) => `import * as __hmr_module_${i} from ${JSON.stringify(id)};`);
+  const registrations = ids.map(
+    (id, i) => `window.__EREO_HMR__.modules.set(${JSON.stringify(id)}, __hmr_module_${i});`
+  );
+
+  return [
+    ...imports,
+    'window.__EREO_HMR__ = window.__EREO_HMR__ || { modules: new Map(), islands: new Map(), acceptedModules: new Set() };',
+    ...registrations,
+  ].join('\n');
+}
+
+/**
+ * Resolves imports of registered modules to the page's instances.
+ */
+function moduleRegistryPlugin(entry: string, registered: Set<string>): BunPlugin {
+  return {
+    name: 'ereo:hmr-module-registry',
+    setup(build) {
+      build.onResolve({ filter: /.*/ }, (args) => {
+        if (!args.importer) return undefined;
+
+        let id = args.path;
+        if (!isBareSpecifier(id)) {
+          try {
+            id = Bun.resolveSync(id, dirname(args.importer));
+          } catch {
+            return undefined;
+          }
+        }
+
+        if (id === entry || !registered.has(id)) return undefined;
+        return { path: id, namespace: 'ereo-hmr' };
+      });
+
+      build.onLoad({ filter: /.*/, namespace: 'ereo-hmr' }, (args) => ({
+        contents: `module.exports = Object.assign({ __esModule: true }, window.__EREO_HMR__.modules.get(${JSON.stringify(args.path)}));`,
+        loader: 'js',
+      }));
+    },
+  };
+}
+
+/**
+ * Options for building a hot module.
+ */
+export interface HotModuleOptions {
+  /** Modules registered on the page (see createModuleRegistryCode) */
+  registered: Set<string>;
+  /** React Refresh runtime (see resolveRefreshRuntime); null builds without Fast Refresh */
+  refreshRuntime: string | null;
+  /** Project root. When set, server-only code is removed as in the client bundle (see serverCodePlugin). */
+  root?: string;
+}
+
+/**
+ * Build a single changed module for the browser. Imports of registered
+ * modules resolve to the instances already on the page, so shared state
+ * (stores, context objects, React itself) survives the update.
+ */
+export async function buildHotModule(filePath: string, options: HotModuleOptions): Promise<string> {
+  const result = await Bun.build({
+    entrypoints: [filePath],
+    target: 'browser',
+    format: 'esm',
+    sourcemap: 'inline',
+    reactFastRefresh: options.refreshRuntime !== null,
+    plugins: [
+      moduleRegistryPlugin(filePath, options.registered),
+      ...(options.refreshRuntime ? [refreshRuntimePlugin(options.refreshRuntime)] : []),
+      ...(options.root ? [serverCodePlugin({ root: options.root, target: 'client' })] : []),
+    ],
+  });
+
+  if (!result.success) {
+    throw new Error(result.logs.map((log) => log.message).join('\n'));
+  }
+
+  const output = result.outputs.find((o) => o.kind === 'entry-point') ?? result.outputs[0];
+  return output.text();
+}
@@ -15,7 +15,19 @@ export {
   HMR_CLIENT_CODE,
 } from './dev/hmr';
 
-export type { HMRUpdate, HMRUpdateType } from './dev/hmr';
+export type { HMRUpdate, HMRUpdateType, HMRServerOptions } from './dev/hmr';
+
+// Dev - React Fast Refresh
+export {
+  resolveRefreshRuntime,
+  refreshRuntimePlugin,
+  createRefreshPrelude,
+  getClientModuleGraph,
+  createModuleRegistryCode,
+  buildHotModule,
+} from './dev/refresh';
+
+export type { ClientModuleGraph, HotModuleOptions } from './dev/refresh';
 
 // Dev - Error Overlay
 export {
@@ -34,9 +46,10 @@ export {
   formatSize,
   printBuildReport,
   analyzeBuild,
+  precompressAssets,
 } from './prod/build';
 
-export type { BuildOptions, BuildResult, BuildOutput } from './prod/build';
+export type { BuildOptions, BuildResult, BuildOutput, PrecompressResult } from './prod/build';
 
 // Plugins - Types
 export {
@@ -75,3 +88,15 @@ export {
 } from './plugins/tailwind';
 
 export type { TailwindPluginOptions } from './plugins/tailwind';
+
+// Plugins - Server Code Elimination
+export {
+  serverCodePlugin,
+  stripServerExports,
+  assignServerFnIds,
+  getModuleId,
+  SERVER_ONLY_EXPORTS,
+  SERVER_MODULE_PATTERN,
+} from './plugins/server-code';
+
+export type { ServerCodePluginOptions } from './plugins/server-code';
@@ -0,0 +1,234 @@
+import { describe, expect, test, beforeAll, afterAll } from 'bun:test';
+import { join } from 'node:path';
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import {
+  stripServerExports,
+  assignServerFnIds,
+  getModuleId,
+  serverCodePlugin,
+  SERVER_MODULE_PATTERN,
+} from './server-code';
+
+describe('@ereo/bundler - Server Code Plugin', () => {
+  describe('stripServerExports', () => {
+    test('returns modules without server exports unchanged', () => {
+      const code = `export default function Page() { return <div />; }`;
+      expect(stripServerExports(code, 'tsx')).toBe(code);
+    });
+
+    test('removes server exports and the imports only they used', () => {
+      const code = `
+import { useState } from 'react';
+import { db } from '~/db.server';
+import { z } from 'zod';
+
+const schema = z.object({ title: z.string() });
+function findPost(id: string) { return db.posts.find(id); }
+
+export async function loader({ params }) { return findPost(params.id); }
+export const action = async ({ request }) => db.posts.create(schema.parse(await request.json()));
+export function GET() { return new Response('ok'); }
+
+export default function Post() {
+  const [open] = useState(false);
+  return <div>{String(open)}</div>;
+}
+`;
+      const result = stripServerExports(code, 'tsx');
+
+      expect(result).not.toContain('loader');
+      expect(result).not.toContain('action');
+      expect(result).not.toContain('GET');
+      expect(result).not.toContain('db.server');
+      expect(result).not.toContain('zod');
+      expect(result).not.toContain('findPost');
+      expect(result).toContain('useState');
+      expect(result).toContain('function Post');
+    });
+
+    test('keeps code that client exports still use', () => {
+      const code = `
+import { format, query } from './lib';
+const title = format('Posts');
+export const loader = () => query(title);
+export const meta = () => [{ title }];
+export default function Posts() { return <h1>{title}</h1>; }
+`;
+      const result = stripServerExports(code, 'tsx');
+
+      expect(result).toContain('import { format } from "./lib"');
+      expect(result).toContain('const title');
+      expect(result).not.toContain('query');
+    });
+
+    test('removes server names from export lists and re-exports', () => {
+      const code = `
+import { handle } from './handlers';
+export { action } from './actions';
+function load() { return handle(); }
+export { load as loader };
+export default function Page() { return null; }
+`;
+      const result = stripServerExports(code, 'tsx');
+
+      expect(result).not.toContain('handlers');
+      expect(result).not.toContain('actions');
+      expect(result).not.toContain('load');
+      expect(result).toContain('Page');
+    });
+
+    test('removes destructuring declarations only server exports used', () => {
+      const code = `
+import { db } from '~/db.server';
+import { theme } from './theme';
+const { query, posts: [first = null, ...rest] } = db;
+const { colors: { primary }, 'font-size': size } = theme;
+export const loader = () => query(first, rest);
+export default function Page() { return <p style={{ color: primary }}>{size}</p>; }
+`;
+      const result = stripServerExports(code, 'tsx');
+
+      expect(result).not.toContain('db.server');
+      expect(result).not.toContain('query');
+      expect(result).toContain('primary');
+      expect(result).toContain('./theme');
+    });
+
+    test('keeps side-effect imports', () => {
+      const code = `
+import './styles.css';
+export const loader = () => ({});
+export default function Page() { return null; }
+`;
+      expect(stripServerExports(code, 'tsx')).toContain('./styles.css');
+    });
+
+    test('ignores identifiers in strings and property names', () => {
+      const code = `
+import { db } from './db.server';
+export const loader = () => db.find();
+export default function Page() { return <p title="db">{props.db}</p>; }
+`;
+      expect(stripServerExports(code, 'tsx')).not.toContain('db.server');
+    });
+  });
+
+  describe('assignServerFnIds', () => {
+    test('adds ids to createServerFn handlers and options', () => {
+      const code = `
+export const getUser = createServerFn(async (id: string) => db.user(id));
+export const createPost = createServerFn({
+  handler: async (input) => db.post(input),
+});
+`;
+      const result = assignServerFnIds(code, 'routes/users');
+
+      expect(result).toContain(`createServerFn("routes/users#getUser", async (id: string)`);
+      expect(result).toContain(`createServerFn({ id: "routes/users#createPost",`);
+    });
+
+    test('leaves explicit ids alone', () => {
+      const code = `export const getUser = createServerFn('getUser', async () => null);`;
+      expect(assignServerFnIds(code, 'routes/users')).toBe(code);
+    });
+
+    test('adds ids to server$ config', () => {
+      const code = `
+const a = server$(async () => 1);
+const b = server$(async () => 2, { cache: { maxAge: 60 } });
+const c = server$(handler, sharedConfig);
+`;
+      const result = assignServerFnIds(code, 'lib/fns');
+
+      expect(result).toContain(`server$(async () => 1, { id: "lib/fns#a" })`);
+      expect(result).toContain(`server$(async () => 2, { id: "lib/fns#b", cache: { maxAge: 60 } })`);
+      expect(result).toContain(`server$(handler, { id: "lib/fns#c", ...(sharedConfig) })`);
+    });
+
+    test('adds a block id to createServerBlock', () => {
+      const code = `export const api = createServerBlock({ auth: { required: true } }, { list: async () => [] });`;
+      expect(assignServerFnIds(code, 'routes/admin')).toContain(
+        `createServerBlock({ id: "routes/admin#api", auth: { required: true } }`
+      );
+    });
+
+    test('handles generics, type annotations and tricky strings', () => {
+      const code = 'const fn: ServerFn<string, string> = createServerFn<string, string>(async (x) => `)${x}(`);';
+      expect(assignServerFnIds(code, 'app')).toBe(
+        'const fn: ServerFn<string, string> = createServerFn<string, string>("app#fn", async (x) => `)${x}(`);'
+      );
+    });
+
+    test('returns code without server functions unchanged', () => {
+      const code = `export const x = 1;`;
+      expect(assignServerFnIds(code, 'app')).toBe(code);
+    });
+  });
+
+  describe('getModuleId', () => {
+    test('uses the path relative to the root without extension', () => {
+      expect(getModuleId('/project/app/routes/posts/[id].tsx', '/project')).toBe('app/routes/posts/[id]');
+    });
+  });
+
+  describe('SERVER_MODULE_PATTERN', () => {
+    test('matches .server modules with and without extension', () => {
+      expect(SERVER_MODULE_PATTERN.test('~/db.server')).toBe(true);
+      expect(SERVER_MODULE_PATTERN.test('./auth.server.ts')).toBe(true);
+      expect(SERVER_MODULE_PATTERN.test('react-dom/server')).toBe(false);
+      expect(SERVER_MODULE_PATTERN.test('./server.ts')).toBe(false);
+    });
+  });
+
+  describe('serverCodePlugin', () => {
+    let root: string;
+
+    beforeAll(async () => {
+      root = await mkdtemp(join(tmpdir(), 'ereo-server-code-'));
+      await mkdir(join(root, 'app/routes'), { recursive: true });
+      await mkdir(join(root, 'app/components'), { recursive: true });
+      await writeFile(join(root, 'app/db.server.ts'), `export const db = { secret: 'SERVER_SECRET' };`);
+      await writeFile(
+        join(root, 'app/routes/index.tsx'),
+        `import { db } from '../db.server';
+export const loader = () => db.secret;
+export default function Home() { return <main>home</main>; }`
+      );
+      await writeFile(
+        join(root, 'app/components/Leak.tsx'),
+        `import { db } from '../db.server';
+export function Leak() { return <p>{db.secret}</p>; }`
+      );
+    });
+
+    afterAll(async () => {
+      await rm(root, { recursive: true, force: true });
+    });
+
+    const bundle = (entry: string, target: 'client' | 'server') =>
+      Bun.build({
+        entrypoints: [join(root, entry)],
+        target: target === 'client' ? 'browser' : 'bun',
+        external: ['react', 'react/jsx-runtime', 'react/jsx-dev-runtime'],
+        plugins: [serverCodePlugin({ root, target })],
+      });
+
+    test('removes loaders and their server-only imports from client bundles', async () => {
+      const result = await bundle('app/routes/index.tsx', 'client');
+      const code = await result.outputs[0].text();
+
+      expect(code).toContain('home');
+      expect(code).not.toContain('SERVER_SECRET');
+    });
+
+    test('fails client builds that import .server modules', async () => {
+      await expect(bundle('app/components/Leak.tsx', 'client')).rejects.toThrow();
+    });
+
+    test('keeps server code in server bundles', async () => {
+      const result = await bundle('app/routes/index.tsx', 'server');
+      expect(await result.outputs[0].text()).toContain('SERVER_SECRET');
+    });
+  });
+});
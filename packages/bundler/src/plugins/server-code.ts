@@ -0,0 +1,658 @@
+/**
+ * @ereo/bundler - Server Code Elimination
+ *
+ * Keeps server code out of client bundles: strips server-only exports
+ * (loaders, actions, method handlers, ...) and the code only they used
+ * from route modules, rejects imports of `*.server.*` modules from client
+ * code, and assigns stable ids to server functions so the client proxy
+ * and the server registry agree without hand-written ids.
+ */
+
+import { relative } from 'node:path';
+import type { BunPlugin } from 'bun';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Route module exports that only run on the server.
+ */
+export const SERVER_ONLY_EXPORTS = [
+  'loader',
+  'action',
+  'beforeLoad',
+  'middleware',
+  'headers',
+  'websocket',
+  'GET',
+  'POST',
+  'PUT',
+  'PATCH',
+  'DELETE',
+  'OPTIONS',
+  'HEAD',
+] as const;
+
+/**
+ * Import specifiers of server-only modules (`db.server`, `auth.server.ts`, ...).
+ */
+export const SERVER_MODULE_PATTERN = /\.server(\.[cm]?[jt]sx?)?$/;
+
+const SERVER_FN_CALL_PATTERN =
+  /\b(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=;]+)?=\s*(createServerFn|server\$|createServerBlock)\s*(?:<[^()]*>)?\s*\(/g;
+
+const REGEX_PREFIX_KEYWORDS = new Set([
+  'return', 'typeof', 'instanceof', 'in', 'of', 'new', 'delete', 'void',
+  'throw', 'case', 'do', 'else', 'yield', 'await',
+]);
+
+// ============================================================================
+// Source Scanning
+// ============================================================================
+
+/**
+ * Blank out strings, template text, comments and regex bodies, keeping the
+ * length of the code, so brackets and identifiers can be found with simple
+ * scans. Template `${...}` expressions stay visible.
+ */
+function maskNonCode(code: string): string {
+  const out = code.split('');
+  const templateDepths: number[] = [];
+  const length = code.length;
+  let braceDepth = 0;
+  let i = 0;
+
+  const blank = (from: number, to: number) => {
+    for (let k = from; k < to && k < length; k++) out[k] = ' ';
+  };
+
+  // Scan template text from `start` to the closing backtick or the next `${`
+  const scanTemplate = (start: number): number => {
+    let j = start;
+    while (j < length) {
+      if (code[j] === '\\') {
+        j += 2;
+      } else if (code[j] === '`') {
+        blank(start, j);
+        return j + 1;
+      } else if (code[j] === '$' && code[j + 1] === '{') {
+        blank(start, j);
+        templateDepths.push(braceDepth);
+        braceDepth++;
+        return j + 2;
+      } else {
+        j++;
+      }
+    }
+    blank(start, length);
+    return length;
+  };
+
+  const regexAllowed = (at: number): boolean => {
+    let k = at - 1;
+    while (k >= 0 && /\s/.test(out[k])) k--;
+    if (k < 0) return true;
+    const prev = out[k];
+    if (/[\w$]/.test(prev)) {
+      let start = k;
+      while (start > 0 && /[\w$]/.test(out[start - 1])) start--;
+      return REGEX_PREFIX_KEYWORDS.has(out.slice(start, k + 1).join(''));
+    }
+    return !/[)\]"'`]/.test(prev);
+  };
+
+  while (i < length) {
+    const ch = code[i];
+
+    if (ch === '/' && code[i + 1] === '/') {
+      const end = code.indexOf('\n', i);
+      const stop = end === -1 ? length : end;
+      blank(i, stop);
+      i = stop;
+    } else if (ch === '/' && code[i + 1] === '*') {
+      const end = code.indexOf('*/', i + 2);
+      const stop = end === -1 ? length : end + 2;
+      blank(i, stop);
+      i = stop;
+    } else if (ch === '"' || ch === "'") {
+      let j = i + 1;
+      while (j < length && code[j] !== ch && code[j] !== '\n') {
+        j += code[j] === '\\' ? 2 : 1;
+      }
+      blank(i + 1, j);
+      i = j + 1;
+    } else if (ch === '`') {
+      i = scanTemplate(i + 1);
+    } else if (ch === '}' && templateDepths.length > 0 && templateDepths[templateDepths.length - 1] === braceDepth - 1) {
+      templateDepths.pop();
+      braceDepth--;
+      i = scanTemplate(i + 1);
+    } else if (ch === '/' && regexAllowed(i)) {
+      let j = i + 1;
+      let inClass = false;
+      while (j < length && code[j] !== '\n' && (inClass || code[j] !== '/')) {
+        if (code[j] === '\\') j++;
+        else if (code[j] === '[') inClass = true;
+        else if (code[j] === ']') inClass = false;
+        j++;
+      }
+      blank(i + 1, j);
+      i = j + 1;
+    } else {
+      if (ch === '{') braceDepth++;
+      else if (ch === '}') braceDepth--;
+      i++;
+    }
+  }
+
+  return out.join('');
+}
+
+/**
+ * Find the argument ranges of a call, given the index of its opening paren
+ * in masked code.
+ */
+function findCallArguments(masked: string, openParen: number): { args: Array<{ start: number; end: number }> } | null {
+  const args: Array<{ start: number; end: number }> = [];
+  let depth = 0;
+  let argStart = openParen + 1;
+
+  for (let i = openParen + 1; i < masked.length; i++) {
+    const ch = masked[i];
+    if (ch === '(' || ch === '[' || ch === '{') {
+      depth++;
+    } else if (ch === ')' || ch === ']' || ch === '}') {
+      if (depth === 0) {
+        if (masked.slice(argStart, i).trim()) args.push({ start: argStart, end: i });
+        return { args };
+      }
+      depth--;
+    } else if (ch === ',' && depth === 0) {
+      args.push({ start: argStart, end: i });
+      argStart = i + 1;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Create a regex that matches references to an identifier, ignoring
+ * property accesses like `obj.name`.
+ */
+function referencePattern(name: string): RegExp {
+  const escaped = name.replace(/\$/g, '\\$');
+  return new RegExp(`(?<![\\w$])(?<!(?<!\\.)\\.)${escaped}(?![\\w$])`);
+}
+
+// ============================================================================
+// Server Function IDs
+// ============================================================================
+
+/**
+ * Get the server function id prefix of a module: its path relative to the
+ * project root, without extension.
+ *
+ * @example
+ * getModuleId('/app/routes/posts/[id].tsx', '/app'); // 'routes/posts/[id]'
+ */
+export function getModuleId(filePath: string, root: string): string {
+  return relative(root, filePath).replace(/\\/g, '/').replace(/\.[^./]+$/, '');
+}
+
+/**
+ * Assign stable ids to server functions declared in a module.
+ *
+ * Each `const name = createServerFn(...)`, `server$(...)` or
+ * `createServerBlock(...)` without an explicit id gets the id
+ * `<moduleId>#<name>` (block functions `<moduleId>#<name>.<key>`), so the
+ * same source produces the same ids in the server and client bundles.
+ *
+ * @example
+ * assignServerFnIds(`export const getUser = createServerFn(async (id) => db.user(id));`, 'routes/users');
+ * // export const getUser = createServerFn("routes/users#getUser", async (id) => db.user(id));
+ */
+export function assignServerFnIds(code: string, moduleId: string): string {
+  if (!/\b(?:createServerFn|server\$|createServerBlock)(?![\w$])/.test(code)) {
+    return code;
+  }
+
+  const masked = maskNonCode(code);
+  const edits: Array<{ start: number; end: number; text: string }> = [];
+  const seen = new Map<string, number>();
+
+  for (const match of masked.matchAll(SERVER_FN_CALL_PATTERN)) {
+    const [, name, callee] = match;
+    const call = findCallArguments(masked, match.index! + match[0].length - 1);
+    if (!call) continue;
+
+    const count = (seen.get(name) ?? 0) + 1;
+    seen.set(name, count);
+    const id = JSON.stringify(`${moduleId}#${count === 1 ? name : `${name}~${count}`}`);
+    const arg = (index: number) => {
+      const range = call.args[index];
+      if (!range) return null;
+      const text = masked.slice(range.start, range.end);
+      const start = range.start + text.length - text.trimStart().length;
+      return { start, end: range.end, first: masked[start] };
+    };
+    const injectConfig = (config: ReturnType<typeof arg>) => {
+      if (!config) return;
+      if (config.first === '{') {
+        edits.push({ start: config.start + 1, end: config.start + 1, text: ` id: ${id},` });
+      } else {
+        const expression = masked.slice(config.start, config.end).trimEnd();
+        const end = config.start + expression.length;
+        edits.push({ start: config.start, end, text: `{ id: ${id}, ...(${code.slice(config.start, end)}) }` });
+      }
+    };
+
+    if (callee === 'createServerFn') {
+      const first = arg(0);
+      if (!first || call.args.length > 1 || first.first === '"' || first.first === "'" || first.first === '`') {
+        continue;
+      }
+      if (first.first === '{') {
+        injectConfig(first);
+      } else {
+        edits.push({ start: first.start, end: first.start, text: `${id}, ` });
+      }
+    } else if (callee === 'server$') {
+      const config = arg(1);
+      if (config) {
+        injectConfig(config);
+      } else if (call.args.length === 1) {
+        const handlerEnd = call.args[0].start + masked.slice(call.args[0].start, call.args[0].end).trimEnd().length;
+        edits.push({ start: handlerEnd, end: handlerEnd, text: `, { id: ${id} }` });
+      }
+    } else {
+      injectConfig(arg(0));
+    }
+  }
+
+  let result = code;
+  for (const edit of edits.sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+  return result;
+}
+
+// ============================================================================
+// Server Export Elimination
+// ============================================================================
+
+interface Statement {
+  text: string;
+  masked: string;
+  kind: 'import' | 'declaration' | 'other';
+  /** Names declared by the statement */
+  names: string[];
+  /** Module specifier of an import */
+  source?: string;
+}
+
+/**
+ * Split transpiled code into top-level statements.
+ * Relies on the transpiler's output format: every top-level statement
+ * starts at the beginning of a line.
+ */
+function splitStatements(code: string): Statement[] {
+  const masked = maskNonCode(code);
+  const statements: Statement[] = [];
+  let depth = 0;
+  let start = 0;
+
+  const push = (end: number) => {
+    const text = code.slice(start, end).trim();
+    if (text) statements.push(parseStatement(text, masked.slice(start, end).trim()));
+    start = end;
+  };
+
+  for (let i = 0; i < masked.length; i++) {
+    const ch = masked[i];
+    if (ch === '(' || ch === '[' || ch === '{') depth++;
+    else if (ch === ')' || ch === ']' || ch === '}') depth--;
+    else if (ch === '\n' && depth === 0 && /[^\s)\]}.]/.test(masked[i + 1] ?? '')) push(i + 1);
+  }
+  push(code.length);
+
+  return statements;
+}
+
+function parseStatement(text: string, masked: string): Statement {
+  const statement: Statement = { text, masked, kind: 'other', names: [] };
+
+  const importMatch = /^import\s*(?:([^'"]*?)\s*from\s*)?(["'])/.exec(masked);
+  if (importMatch) {
+    const sourceStart = importMatch[0].length;
+    statement.kind = 'import';
+    statement.source = text.slice(sourceStart, masked.indexOf(importMatch[2], sourceStart));
+    statement.names = importMatch[1] ? parseImportClause(importMatch[1]).map((specifier) => specifier.local) : [];
+    return statement;
+  }
+
+  const functionMatch = /^(?:async\s+)?function\s*\*?\s*([\w$]+)/.exec(masked) ?? /^class\s+([\w$]+)/.exec(masked);
+  if (functionMatch) {
+    statement.kind = 'declaration';
+    statement.names = [functionMatch[1]];
+    return statement;
+  }
+
+  const variableMatch = /^(?:const|let|var)\s+/.exec(masked);
+  if (variableMatch) {
+    const names: string[] = [];
+    let depth = 0;
+    let declaratorStart = variableMatch[0].length;
+    const body = masked.replace(/;\s*$/, '');
+
+    for (let i = declaratorStart; i <= body.length; i++) {
+      const ch = body[i];
+      if (ch === '(' || ch === '[' || ch === '{') depth++;
+      else if (ch === ')' || ch === ']' || ch === '}') depth--;
+      else if (i === body.length || (ch === ',' && depth === 0)) {
+        const declarator = body.slice(declaratorStart, i);
+        const target = parseBindingTarget(declarator);
+        if (!target || !/^\s*(=|$)/.test(declarator.slice(target.length))) return statement;
+        names.push(...target.names);
+        declaratorStart = i + 1;
+      }
+    }
+
+    statement.kind = 'declaration';
+    statement.names = names;
+  }
+
+  return statement;
+}
+
+/**
+ * Find the bracket that closes the one at `open` in masked code, or -1.
+ */
+function findClosingBracket(masked: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < masked.length; i++) {
+    const ch = masked[i];
+    if (ch === '(' || ch === '[' || ch === '{') depth++;
+    else if ((ch === ')' || ch === ']' || ch === '}') && --depth === 0) return i;
+  }
+  return -1;
+}
+
+/**
+ * Parse the target of a variable declarator in masked code: an identifier
+ * or an object or array pattern like `{ a, b: [c = 1], ...d }`. Returns the
+ * names it binds and its length, or null when it isn't a binding target.
+ */
+function parseBindingTarget(masked: string): { names: string[]; length: number } | null {
+  const offset = masked.length - masked.trimStart().length;
+  const target = masked.slice(offset);
+
+  const identifier = /^[\w$]+/.exec(target);
+  if (identifier) return { names: [identifier[0]], length: offset + identifier[0].length };
+  if (target[0] !== '{' && target[0] !== '[') return null;
+
+  const close = findClosingBracket(target, 0);
+  const elements = findCallArguments(target, 0);
+  if (close === -1 || !elements) return null;
+  const names: string[] = [];
+
+  for (const { start, end } of elements.args) {
+    let element = target.slice(start, end).trim();
+    if (!element) continue;
+
+    if (element.startsWith('...')) {
+      element = element.slice(3);
+    } else if (target[0] === '{') {
+      // Shorthand properties bind their key; others bind the value after the colon
+      const keyEnd = element[0] === '[' ? findClosingBracket(element, 0) + 1 : 0;
+      const key = /^([\w$]+|(["'])\s*\2|\d[\w.]*)?\s*(:)?/.exec(element.slice(keyEnd))!;
+      if (!key[3]) {
+        if (keyEnd > 0 || !key[1] || key[2]) return null;
+        names.push(key[1]);
+        continue;
+      }
+      element = element.slice(keyEnd + key[0].length);
+    }
+
+    const nested = parseBindingTarget(element);
+    if (!nested) return null;
+    names.push(...nested.names);
+  }
+
+  return { names, length: offset + close + 1 };
+}
+
+function parseImportClause(clause: string): Array<{ text: string; local: string }> {
+  const specifiers: Array<{ text: string; local: string }> = [];
+  const named = /\{([^}]*)\}/.exec(clause);
+  const rest = clause.replace(/\{[^}]*\}/, '');
+
+  const namespace = /\*\s*as\s+([\w$]+)/.exec(rest);
+  if (namespace) {
+    specifiers.push({ text: `* as ${namespace[1]}`, local: namespace[1] });
+  }
+
+  const defaultImport = /^\s*([\w$]+)\s*(,|$)/.exec(rest);
+  if (defaultImport) {
+    specifiers.unshift({ text: defaultImport[1], local: defaultImport[1] });
+  }
+
+  if (named) {
+    for (const part of named[1].split(',')) {
+      const specifier = part.trim();
+      if (!specifier) continue;
+      const alias = /\bas\s+([\w$]+)$/.exec(specifier);
+      specifiers.push({ text: `{${specifier}}`, local: alias ? alias[1] : specifier });
+    }
+  }
+
+  return specifiers;
+}
+
+/**
+ * Rebuild an import statement with only some of its specifiers.
+ */
+function rebuildImport(statement: Statement, keep: Set<string>): string {
+  const match = /^import\s*([^'"]*?)\s*from\s*/.exec(statement.masked)!;
+  const source = statement.text.slice(match[0].length);
+  const specifiers = parseImportClause(match[1]).filter((specifier) => keep.has(specifier.local));
+
+  const parts = specifiers.filter((s) => !s.text.startsWith('{')).map((s) => s.text);
+  const named = specifiers.filter((s) => s.text.startsWith('{')).map((s) => s.text.slice(1, -1));
+  if (named.length > 0) parts.push(`{ ${named.join(', ')} }`);
+
+  return `import ${parts.join(', ')} from ${source}`;
+}
+
+/**
+ * Remove specifiers from an `export { ... }` list. Returns null when none are left.
+ */
+function removeExportSpecifiers(statement: Statement, names: string[]): Statement | null {
+  const match = /^export\s*\{([^}]*)\}/.exec(statement.masked);
+  if (!match) return statement;
+
+  const specifiers = match[1]
+    .split(',')
+    .map((specifier) => specifier.trim())
+    .filter((specifier) => specifier && !names.includes(specifier.split(/\s+as\s+/).pop()!));
+  if (specifiers.length === 0) return null;
+
+  const text = `export { ${specifiers.join(', ')} }${statement.text.slice(match[0].length)}`;
+  return parseStatement(text, maskNonCode(text));
+}
+
+/**
+ * Names referenced outside of the statement that declares them.
+ */
+function collectUsedNames(statements: Statement[]): Set<string> {
+  const used = new Set<string>();
+  statements.forEach((statement, index) => {
+    if (statement.names.length === 0) return;
+    const others = statements.filter((_, i) => i !== index).map((s) => s.masked).join('\n');
+    for (const name of statement.names) {
+      if (referencePattern(name).test(others)) used.add(name);
+    }
+  });
+  return used;
+}
+
+function createTranspiler(loader: 'ts' | 'tsx' | 'js' | 'jsx', eliminate: string[]) {
+  return new Bun.Transpiler({
+    loader,
+    target: 'browser',
+    autoImportJSX: true,
+    tsconfig: JSON.stringify({ compilerOptions: { jsx: 'react-jsx', jsxImportSource: 'react' } }),
+    exports: { eliminate },
+  });
+}
+
+/**
+ * Remove server-only exports from a route module, along with the
+ * declarations and imports that only they used.
+ *
+ * Returns the module transpiled to JavaScript, or the source unchanged when
+ * it has no server-only exports. Code that was already unused before the
+ * exports were removed is left for the bundler to tree-shake.
+ *
+ * @example
+ * stripServerExports(`
+ *   import { db } from '~/db.server';
+ *   export const loader = () => db.posts.findMany();
+ *   export default function Posts() { ... }
+ * `, 'tsx');
+ * // Keeps only `Posts` and its imports
+ */
+export function stripServerExports(code: string, loader: 'ts' | 'tsx' | 'js' | 'jsx' = 'tsx'): string {
+  const { exports } = new Bun.Transpiler({ loader }).scan(code);
+  const serverExports = exports.filter((name) => (SERVER_ONLY_EXPORTS as readonly string[]).includes(name));
+  if (serverExports.length === 0) {
+    return code;
+  }
+
+  const original = splitStatements(createTranspiler(loader, []).transformSync(code));
+  const originallyUsed = collectUsedNames(original);
+  const sideEffectImports = new Set(
+    original.filter((s) => s.kind === 'import' && s.names.length === 0).map((s) => s.source)
+  );
+
+  // The transpiler only removes exported declarations: drop server-only names
+  // from export lists, the `export {} from` it leaves for removed re-exports,
+  // and the side-effect imports it leaves for imports whose bindings it removed
+  let statements = splitStatements(createTranspiler(loader, serverExports).transformSync(code))
+    .map((statement) => removeExportSpecifiers(statement, serverExports))
+    .filter(
+      (statement): statement is Statement =>
+        statement !== null &&
+        !(statement.kind === 'import' && statement.names.length === 0 && !sideEffectImports.has(statement.source))
+    );
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+
+    for (let index = 0; index < statements.length; index++) {
+      const statement = statements[index];
+      if (statement.kind === 'other' || statement.names.length === 0) continue;
+
+      const others = statements.filter((_, i) => i !== index).map((s) => s.masked).join('\n');
+      const dead = statement.names.filter((name) => originallyUsed.has(name) && !referencePattern(name).test(others));
+      if (dead.length === 0) continue;
+
+      if (statement.kind === 'declaration') {
+        if (dead.length < statement.names.length) continue;
+        statements = statements.filter((_, i) => i !== index);
+      } else if (dead.length === statement.names.length) {
+        statements = statements.filter((_, i) => i !== index);
+      } else {
+        const keep = new Set(statement.names.filter((name) => !dead.includes(name)));
+        const text = rebuildImport(statement, keep);
+        statements[index] = parseStatement(text, maskNonCode(text));
+      }
+
+      changed = true;
+      break;
+    }
+  }
+
+  return statements.map((statement) => statement.text).join('\n') + '\n';
+}
+
+// ============================================================================
+// Bun Plugin
+// ============================================================================
+
+/**
+ * Options for the server code plugin.
+ */
+export interface ServerCodePluginOptions {
+  /** Project root directory */
+  root: string;
+  /** Bundle being built. Only client bundles have server code removed. */
+  target: 'client' | 'server';
+  /** Routes directory (default: `<root>/app/routes`) */
+  routesDir?: string;
+  /** Application directory whose modules get server function ids (default: `<root>/app`) */
+  appDir?: string;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Bun plugin that keeps server code out of client bundles.
+ *
+ * In client builds it:
+ * - strips server-only exports (`loader`, `action`, method handlers, ...)
+ *   and the imports only they used from route modules
+ * - fails the build when client code imports a `*.server.*` module
+ *
+ * In both builds it assigns stable ids to server functions declared in the
+ * app directory, so `createServerFn` and `server$` need no explicit `id`.
+ *
+ * @example
+ * await Bun.build({
+ *   entrypoints: ['app/entry.client.tsx'],
+ *   target: 'browser',
+ *   plugins: [serverCodePlugin({ root: process.cwd(), target: 'client' })],
+ * });
+ */
+export function serverCodePlugin(options: ServerCodePluginOptions): BunPlugin {
+  const { root, target } = options;
+  const appDir = (options.appDir ?? `${root}/app`).replace(/\\/g, '/').replace(/\/$/, '');
+  const routesDir = (options.routesDir ?? `${appDir}/routes`).replace(/\\/g, '/').replace(/\/$/, '');
+
+  return {
+    name: 'ereo:server-code',
+    setup(build) {
+      if (target === 'client') {
+        build.onResolve({ filter: SERVER_MODULE_PATTERN }, (args) => {
+          if (args.importer.includes('/node_modules/')) {
+            return undefined;
+          }
+          throw new Error(
+            `Server-only module "${args.path}" is imported by client code in ` +
+              `${relative(root, args.importer) || args.importer}. ` +
+              'Import it only from loaders, actions and other server-only exports.'
+          );
+        });
+      }
+
+      build.onLoad({ filter: new RegExp(`^${escapeRegExp(appDir)}/.*\\.[cm]?[jt]sx?$`) }, async (args) => {
+        const loader = (args.path.match(/\.[cm]?([jt]sx?)$/)?.[1] ?? 'js') as 'ts' | 'tsx' | 'js' | 'jsx';
+        const source = await Bun.file(args.path).text();
+        const code = assignServerFnIds(source, getModuleId(args.path, root));
+
+        if (target === 'client' && args.path.startsWith(`${routesDir}/`)) {
+          const stripped = stripServerExports(code, loader);
+          if (stripped !== code) {
+            return { contents: stripped, loader: 'js' };
+          }
+        }
+
+        return { contents: code, loader };
+      });
+    },
+  };
+}
@@ -542,6 +542,69 @@ describe('@ereo/bundler - Types Plugin', () => {
     });
   });
 
+  describe('generateRouteTypes with API routes', () => {
+    const handler = async () => ({ ok: true });
+    const routes: Route[] = [
+      {
+        id: 'user',
+        path: '/api/users/[id]',
+        file: '/routes/api/users/[id].ts',
+        module: { GET: handler, PATCH: handler, DELETE: handler } as any,
+      },
+      { id: 'about', path: '/about', file: '/routes/about.tsx', module: { loader: handler } },
+    ];
+
+    test('emits the ApiRoutes augmentation with the handled methods', () => {
+      const types = generateRouteTypes(routes, { routesDir: '/routes' });
+
+      expect(types).toContain("declare module '@ereo/client-sdk'");
+      expect(types).toContain("    '/api/users/[id]': {");
+      expect(types).toContain('      GET: {');
+      expect(types).toContain('      PATCH: {');
+      expect(types).toContain('      DELETE: {');
+      expect(types).not.toContain('      POST: {');
+
+      const apiRoutes = types.slice(types.indexOf("declare module '@ereo/client-sdk'"));
+      expect(apiRoutes.slice(0, apiRoutes.indexOf('\n}\n'))).not.toContain("'/about'");
+    });
+
+    test('infers responses from handlers and query and body from openapi schemas', () => {
+      const types = generateRouteTypes(routes, { routesDir: '/routes' });
+
+      expect(types).toContain("response: LazyEval<ApiResponseData<typeof _routes_api_users__id_, 'GET'>>;");
+      expect(types).toContain("query: LazyEval<ApiQuery<typeof _routes_api_users__id_, 'GET'>>;");
+      expect(types).toContain("body: LazyEval<ApiBody<typeof _routes_api_users__id_, 'PATCH'>>;");
+      expect(types).toContain('type ApiSchemaInput<S>');
+    });
+
+    test('only methods with a body get a body type', () => {
+      const types = generateRouteTypes(routes, { routesDir: '/routes' });
+
+      expect(types).not.toContain("ApiBody<typeof _routes_api_users__id_, 'GET'>");
+      expect(types).not.toContain("ApiBody<typeof _routes_api_users__id_, 'DELETE'>");
+    });
+
+    test('emits untyped entries without type inference', () => {
+      const types = generateRouteTypes(routes, { routesDir: '/routes', inferTypes: false });
+
+      expect(types).toContain("declare module '@ereo/client-sdk'");
+      expect(types).toContain('response: unknown;');
+      expect(types).not.toContain('ApiResponseData');
+    });
+
+    test('can be disabled', () => {
+      const types = generateRouteTypes(routes, { generateApiTypes: false });
+
+      expect(types).not.toContain("declare module '@ereo/client-sdk'");
+    });
+
+    test('omits the augmentation without API routes', () => {
+      const types = generateRouteTypes([routes[1]]);
+
+      expect(types).not.toContain("declare module '@ereo/client-sdk'");
+    });
+  });
+
   describe('generateRouteTypes helper function buildPath', () => {
     test('includes buildPath function in output', () => {
       const routes: Route[] = [
@@ -8,6 +8,9 @@
  * - Context inheritance chain types
  * - Performance optimizations for large route trees
  *
+ * API routes (modules exporting GET/POST/... handlers) also get an
+ * `ApiRoutes` augmentation for @ereo/client-sdk.
+ *
  * Performance optimizations:
  * - Object maps instead of tuples
  * - Lazy type evaluation with LazyEval<T>
@@ -41,6 +44,8 @@ export interface RouteTypeInfo {
   hashParamsTypeRef?: string;
   contextTypeRef?: string;
   parentPath?: string;
+  /** HTTP methods handled by an API route */
+  apiMethods?: ApiMethod[];
   config?: {
     renderMode?: string;
     auth?: boolean;
@@ -55,6 +60,16 @@ export interface ParamType {
   optional?: boolean;
 }
 
+/**
+ * HTTP methods of API route handlers that get client types.
+ */
+export type ApiMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+const API_METHODS: ApiMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+/** Methods whose requests carry a body */
+const BODY_METHODS = new Set<ApiMethod>(['POST', 'PUT', 'PATCH']);
+
 /**
  * Generation options.
  */
@@ -66,6 +81,8 @@ export interface TypeGenerationOptions {
   generateSearchParams?: boolean;
   generateHashParams?: boolean;
   generateContext?: boolean;
+  /** Emit the @ereo/client-sdk `ApiRoutes` augmentation for API routes */
+  generateApiTypes?: boolean;
   lazyEvaluation?: boolean;
 }
 
@@ -143,6 +160,10 @@ function collectRouteInfos(
     if (!route.layout) {
       const importPath = generateImportPath(route.file, routesDir);
 
+      const apiMethods = API_METHODS.filter(
+        (method) => typeof (route.module as Record<string, unknown> | undefined)?.[method] === 'function'
+      );
+
       const info: RouteTypeInfo = {
         path: route.path,
         file: route.file,
@@ -154,6 +175,7 @@ function collectRouteInfos(
         hasSearchParams: !!route.module?.searchParams,
         hasHashParams: false, // Will be populated from module exports
         parentPath,
+        apiMethods: apiMethods.length > 0 ? apiMethods : undefined,
         config: {
           renderMode: route.config?.render?.mode,
           auth: route.config?.auth?.required,
@@ -230,10 +252,12 @@ export function generateRouteTypes(
     generateSearchParams = true,
     generateHashParams = true,
     generateContext = true,
+    generateApiTypes = true,
     lazyEvaluation = true,
   } = options;
 
   const routeInfos = collectRouteInfos(routes, routesDir, inferTypes);
+  const apiRouteInfos = generateApiTypes ? routeInfos.filter((info) => info.apiMethods) : [];
 
   const lines: string[] = [
     '// Auto-generated by @ereo/bundler',
@@ -326,6 +350,12 @@ export function generateRouteTypes(
   lines.push('}');
   lines.push('');
 
+  // Module augmentation for the client SDK's ApiRoutes
+  if (apiRouteInfos.length > 0) {
+    lines.push(generateApiRouteTypes(apiRouteInfos, routesDir, inferTypes, lazyEvaluation));
+    lines.push('');
+  }
+
   // Generate route path type using object map (performance optimization)
   lines.push('// All available route paths (using object map for performance)');
   lines.push('type RoutePathMap = {');
@@ -352,6 +382,68 @@ export function generateRouteTypes(
   return lines.join('\n');
 }
 
+/**
+ * Generate the @ereo/client-sdk `ApiRoutes` augmentation for API routes.
+ *
+ * Responses are inferred from the handlers' return types (`Response`
+ * returns fall back to the `openapi` 200 response schema). Query and body
+ * types come from the schemas attached in the route's `openapi` export.
+ */
+function generateApiRouteTypes(
+  apiRouteInfos: RouteTypeInfo[],
+  routesDir: string,
+  inferTypes: boolean,
+  lazyEvaluation: boolean
+): string {
+  const wrapType = lazyEvaluation ? (t: string) => `LazyEval<${t}>` : (t: string) => t;
+  const untypedQuery = 'Record<string, string | number | boolean | undefined>';
+  const lines: string[] = [];
+
+  if (inferTypes) {
+    lines.push('// API route type helpers');
+    lines.push(`type ApiSchemaInput<S> = S extends { '~standard': { types?: infer T } } ? (NonNullable<T> extends { input: infer I } ? I : unknown) : S extends { _input: infer I } ? I : S extends { parse: (data: any) => infer O } ? O : unknown;`);
+    lines.push(`type ApiSchemaOutput<S> = S extends { '~standard': { types?: infer T } } ? (NonNullable<T> extends { output: infer O } ? O : unknown) : S extends { _output: infer O } ? O : S extends { parse: (data: any) => infer O } ? O : unknown;`);
+    lines.push(`type ApiOperation<M, K extends string> = M extends { openapi: infer O } ? (K extends keyof O ? NonNullable<O[K]> : {}) : {};`);
+    lines.push(`type ApiHandlerData<M, K extends string> = K extends keyof M ? (M[K] extends (...args: any[]) => infer R ? Exclude<Awaited<R>, Response> : never) : never;`);
+    lines.push(`type ApiQuery<M, K extends string> = ApiOperation<M, K> extends { query: infer S } ? ApiSchemaInput<S> : ${untypedQuery};`);
+    lines.push(`type ApiBody<M, K extends string> = ApiOperation<M, K> extends { body: infer S } ? ApiSchemaInput<S> : unknown;`);
+    lines.push(`type ApiResponseData<M, K extends string> = [ApiHandlerData<M, K>] extends [never] ? (ApiOperation<M, K> extends { responses: { 200: infer S } } ? ApiSchemaOutput<S> : unknown) : ApiHandlerData<M, K>;`);
+    lines.push('');
+  }
+
+  lines.push("declare module '@ereo/client-sdk' {");
+  lines.push('  export interface ApiRoutes {');
+
+  for (const info of apiRouteInfos) {
+    const safeName = safeIdentifier(generateImportPath(info.file, routesDir));
+
+    lines.push(`    '${info.path.replace(/'/g, "\\'")}': {`);
+    for (const method of info.apiMethods!) {
+      lines.push(`      ${method}: {`);
+      if (inferTypes) {
+        lines.push(`        response: ${wrapType(`ApiResponseData<typeof ${safeName}, '${method}'>`)};`);
+        lines.push(`        query: ${wrapType(`ApiQuery<typeof ${safeName}, '${method}'>`)};`);
+        if (BODY_METHODS.has(method)) {
+          lines.push(`        body: ${wrapType(`ApiBody<typeof ${safeName}, '${method}'>`)};`);
+        }
+      } else {
+        lines.push('        response: unknown;');
+        lines.push(`        query: ${untypedQuery};`);
+        if (BODY_METHODS.has(method)) {
+          lines.push('        body: unknown;');
+        }
+      }
+      lines.push('      };');
+    }
+    lines.push('    };');
+  }
+
+  lines.push('  }');
+  lines.push('}');
+
+  return lines.join('\n');
+}
+
 /**
  * Generate helper types.
  */
@@ -703,6 +795,19 @@ export async function writeSplitRouteTypes(
 // Plugin
 // ============================================================================
 
+/**
+ * The `ApiRoutes` augmentation only type-checks when the app can
+ * resolve @ereo/client-sdk.
+ */
+function isClientSdkInstalled(): boolean {
+  try {
+    Bun.resolveSync('@ereo/client-sdk', process.cwd());
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Create type generation plugin.
  */
@@ -737,6 +842,7 @@ export function createTypesPlugin(options: TypeGenerationOptions & {
         generateSearchParams: true,
         generateHashParams: true,
         generateContext: true,
+        generateApiTypes: isClientSdkInstalled(),
         lazyEvaluation: true,
         maxRoutesPerFile,
       };
@@ -935,6 +1041,7 @@ export async function generateAllTypes(
     generateSearchParams: true,
     generateHashParams: true,
     generateContext: true,
+    generateApiTypes: isClientSdkInstalled(),
     lazyEvaluation: true,
   });
 
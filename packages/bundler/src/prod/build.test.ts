@@ -1,7 +1,9 @@
 import { describe, expect, test, beforeEach, afterEach, mock } from 'bun:test';
-import { formatSize, printBuildReport, build, type BuildResult, type BuildOptions } from './build';
-import { rm, mkdir, writeFile } from 'node:fs/promises';
+import { formatSize, printBuildReport, build, precompressAssets, type BuildResult, type BuildOptions } from './build';
+import { rm, mkdir, writeFile, readFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
 import { join } from 'node:path';
+import { brotliDecompressSync, gunzipSync } from 'node:zlib';
 
 describe('@ereo/bundler - Build', () => {
   describe('formatSize', () => {
@@ -890,4 +892,40 @@ console.log(nonExistent);
       expect(typeof result.success).toBe('boolean');
     });
   });
+
+  describe('precompressAssets', () => {
+    const testDir = '/tmp/ereo-precompress-' + Date.now();
+
+    beforeEach(async () => {
+      await mkdir(join(testDir, 'chunks'), { recursive: true });
+    });
+
+    afterEach(async () => {
+      await rm(testDir, { recursive: true, force: true });
+    });
+
+    test('writes brotli and gzip copies of text assets', async () => {
+      const source = 'export const value = "hello world";\n'.repeat(100);
+      await writeFile(join(testDir, 'chunks', 'app.js'), source);
+
+      const result = await precompressAssets([testDir]);
+
+      expect(result.files).toBe(1);
+      expect(result.originalSize).toBe(source.length);
+      expect(result.brotliSize).toBeLessThan(result.originalSize);
+      expect(brotliDecompressSync(await readFile(join(testDir, 'chunks', 'app.js.br'))).toString()).toBe(source);
+      expect(gunzipSync(await readFile(join(testDir, 'chunks', 'app.js.gz'))).toString()).toBe(source);
+    });
+
+    test('skips small files, binary assets and missing directories', async () => {
+      await writeFile(join(testDir, 'small.css'), 'body{margin:0}');
+      await writeFile(join(testDir, 'image.png'), Buffer.alloc(4096));
+
+      const result = await precompressAssets([testDir, join(testDir, 'missing')]);
+
+      expect(result.files).toBe(0);
+      expect(existsSync(join(testDir, 'small.css.br'))).toBe(false);
+      expect(existsSync(join(testDir, 'image.png.gz'))).toBe(false);
+    });
+  });
 });
@@ -6,7 +6,9 @@
  */
 
 import { join, relative, dirname, basename, extname } from 'node:path';
-import { mkdir, rm, readdir, stat, readFile, copyFile } from 'node:fs/promises';
+import { mkdir, rm, readdir, stat, readFile, copyFile, writeFile } from 'node:fs/promises';
+import { promisify } from 'node:util';
+import { brotliCompress, gzip, constants as zlibConstants } from 'node:zlib';
 import type { BuildConfig, FrameworkConfig, Route, Plugin } from '@ereo/core';
 import { FileRouter, initFileRouter } from '@ereo/router';
 import {
@@ -16,6 +18,7 @@ import {
   hasIslands,
   type IslandMeta,
 } from '../plugins/islands';
+import { serverCodePlugin } from '../plugins/server-code';
 
 /**
  * Build options.
@@ -43,6 +46,8 @@ export interface BuildOptions {
   publicPath?: string;
   /** Asset file extensions to copy */
   assetExtensions?: string[];
+  /** Write Brotli (.br) and gzip (.gz) copies of client assets for the static server (default: true) */
+  precompress?: boolean;
 }
 
 /**
@@ -137,6 +142,30 @@ const DEFAULT_ASSET_EXTENSIONS = [
   '.json', '.xml', '.txt', '.pdf',
 ];
 
+/**
+ * Extensions of text-based assets worth precompressing.
+ */
+const PRECOMPRESS_EXTENSIONS = ['.js', '.mjs', '.css', '.html', '.json', '.svg', '.xml', '.txt', '.wasm'];
+
+/**
+ * Files smaller than this are not precompressed (bytes).
+ */
+const PRECOMPRESS_THRESHOLD = 1024;
+
+/**
+ * Precompression result.
+ */
+export interface PrecompressResult {
+  /** Number of files precompressed */
+  files: number;
+  /** Total size of the original files */
+  originalSize: number;
+  /** Total size of the Brotli copies */
+  brotliSize: number;
+  /** Total size of the gzip copies */
+  gzipSize: number;
+}
+
 /**
  * Build the project for production.
  */
@@ -149,6 +178,7 @@ export async function build(options: BuildOptions = {}): Promise<BuildResult> {
   const splitting = options.splitting ?? true;
   const publicPath = options.publicPath || '/_ereo/';
   const assetExtensions = options.assetExtensions || DEFAULT_ASSET_EXTENSIONS;
+  const precompress = options.precompress ?? true;
 
   const buildId = generateBuildId();
   const allOutputs: BuildOutput[] = [];
@@ -282,6 +312,19 @@ export async function build(options: BuildOptions = {}): Promise<BuildResult> {
       console.log(`  \x1b[32m✓\x1b[0m Copied ${assetResult.outputs.length} static assets`);
     }
 
+    // Precompress client assets, served by the static server when accepted
+    if (precompress) {
+      console.log('\n  Precompressing client assets...');
+      const compressResult = await precompressAssets([join(outDir, 'client'), join(outDir, 'assets')]);
+      if (compressResult.files > 0) {
+        console.log(
+          `  \x1b[32m✓\x1b[0m Precompressed ${compressResult.files} file(s): ` +
+            `${formatSize(compressResult.originalSize)} → ${formatSize(compressResult.brotliSize)} (br), ` +
+            `${formatSize(compressResult.gzipSize)} (gzip)`
+        );
+      }
+    }
+
     // Generate build manifest
     console.log('\n  Generating manifest...');
     await generateManifest({
@@ -546,6 +589,7 @@ async function buildServer(options: {
       sourcemap: sourcemap ? 'external' : 'none',
       splitting,
       external: ['react', 'react-dom', '@ereo/core', '@ereo/router', '@ereo/render', ...external],
+      plugins: [serverCodePlugin({ root, target: 'server' })],
       naming: {
         entry: '[dir]/[name].[ext]',
         chunk: '../chunks/[name]-[hash].[ext]',
@@ -777,6 +821,8 @@ async function buildClient(options: {
       minify,
       sourcemap: sourcemap ? 'external' : 'none',
       splitting,
+      // Strip loaders, actions and other server-only code from route modules
+      plugins: [serverCodePlugin({ root, target: 'client' })],
       naming: {
         entry: 'client.[ext]',
         chunk: 'chunks/[name]-[hash].[ext]',
@@ -909,6 +955,7 @@ async function buildIslands(options: {
       splitting,
       // Mark React as external since it will be shared with the main client bundle
       external: ['react', 'react-dom', 'react/jsx-runtime', 'react/jsx-dev-runtime'],
+      plugins: [serverCodePlugin({ root, target: 'client' })],
       naming: {
         entry: '[name]-[hash].[ext]',
         chunk: 'shared/[name]-[hash].[ext]',
@@ -1155,6 +1202,56 @@ async function copyAssets(options: {
   return { outputs };
 }
 
+/**
+ * Write Brotli (.br) and gzip (.gz) copies of the text-based files in
+ * the given directories, using the highest compression levels.
+ *
+ * Files below 1 KB are skipped, and a copy is only written when it is
+ * smaller than the original. `serveStatic` picks the copies up through
+ * Accept-Encoding negotiation.
+ */
+export async function precompressAssets(dirs: string[]): Promise<PrecompressResult> {
+  const compressBrotli = promisify(brotliCompress);
+  const compressGzip = promisify(gzip);
+  const result: PrecompressResult = { files: 0, originalSize: 0, brotliSize: 0, gzipSize: 0 };
+
+  for (const dir of dirs) {
+    const files = await scanForFiles(dir, PRECOMPRESS_EXTENSIONS);
+
+    for (const file of files) {
+      const content = await readFile(file);
+      if (content.length < PRECOMPRESS_THRESHOLD) {
+        continue;
+      }
+
+      const [brotli, gzipped] = await Promise.all([
+        compressBrotli(content, {
+          params: {
+            [zlibConstants.BROTLI_PARAM_MODE]: zlibConstants.BROTLI_MODE_TEXT,
+            [zlibConstants.BROTLI_PARAM_QUALITY]: zlibConstants.BROTLI_MAX_QUALITY,
+            [zlibConstants.BROTLI_PARAM_SIZE_HINT]: content.length,
+          },
+        }),
+        compressGzip(content, { level: zlibConstants.Z_BEST_COMPRESSION }),
+      ]);
+
+      if (brotli.length < content.length) {
+        await writeFile(`${file}.br`, brotli);
+      }
+      if (gzipped.length < content.length) {
+        await writeFile(`${file}.gz`, gzipped);
+      }
+
+      result.files++;
+      result.originalSize += content.length;
+      result.brotliSize += Math.min(brotli.length, content.length);
+      result.gzipSize += Math.min(gzipped.length, content.length);
+    }
+  }
+
+  return result;
+}
+
 /**
  * Generate build manifest.
  */
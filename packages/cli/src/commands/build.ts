@@ -4,7 +4,7 @@
  * Build the project for production.
  */
 
-import { join } from 'node:path';
+import { resolve, join } from 'node:path';
 import type { BuildOptions } from '@ereo/bundler';
 import type { FrameworkConfig } from '@ereo/core';
 import { loadConfig } from '../config';
@@ -17,6 +17,8 @@ export interface BuildCommandOptions {
   minify?: boolean;
   sourcemap?: boolean;
   production?: boolean;
+  /** Pre-render SSG routes after bundling (default: true) */
+  prerender?: boolean;
 }
 
 /**
@@ -54,6 +56,14 @@ export async function build(options: BuildCommandOptions = {}): Promise<void> {
   // Run build
   const result = await bundlerBuild(buildOptions);
 
+  if (result.success && options.prerender !== false) {
+    const prerendered = await prerenderRoutes(config, resolve(root, buildOptions.outDir!));
+    if (prerendered.errors.length > 0) {
+      result.success = false;
+      result.errors = [...(result.errors || []), ...prerendered.errors];
+    }
+  }
+
   if (result.success) {
     printBuildReport(result);
     console.log('\n  \x1b[32m✓\x1b[0m Build completed successfully\n');
@@ -68,3 +78,41 @@ export async function build(options: BuildCommandOptions = {}): Promise<void> {
     process.exit(1);
   }
 }
+
+/**
+ * Pre-render SSG routes into `<outDir>/prerendered`.
+ * Renders through the production server of `ereo start` (config, plugins,
+ * middleware), so the output matches what it serves.
+ */
+async function prerenderRoutes(config: FrameworkConfig, outDir: string): Promise<{ errors: string[] }> {
+  const { createProductionServer } = await import('./start');
+  const { prerender } = await import('@ereo/server');
+
+  const { server, router } = await createProductionServer(config, outDir, {
+    port: config.server?.port || 3000,
+    hostname: config.server?.hostname || 'localhost',
+    logging: false,
+    // Pages of the previous build are being replaced
+    servePrerendered: false,
+  });
+
+  const ssgRoutes = await router.findRoutesByRenderMode('ssg');
+  if (ssgRoutes.length === 0) {
+    return { errors: [] };
+  }
+
+  console.log('\n  Pre-rendering static routes...');
+
+  const result = await prerender({
+    router,
+    handle: (request) => server.handle(request),
+    outDir: join(outDir, 'prerendered'),
+  });
+
+  console.log(`  \x1b[32m✓\x1b[0m Pre-rendered ${result.pages.length} page(s)`);
+  for (const error of result.errors) {
+    console.log(`  \x1b[33m!\x1b[0m ${error}`);
+  }
+
+  return { errors: result.errors };
+}
@@ -1,25 +1,47 @@
 /**
  * @ereo/cli - Database Commands
  *
- * CLI commands for database management using Drizzle Kit.
- * These commands delegate to drizzle-kit under the hood.
+ * CLI commands for database management. Schema commands delegate to
+ * drizzle-kit. Migrations run through drizzle-kit when the project has a
+ * drizzle config, and through the native SQLite runner of
+ * `@ereo/db-sqlite` otherwise.
  */
 
 import { spawn } from 'child_process';
 import { existsSync } from 'fs';
 import { resolve, join } from 'path';
+import { createSqliteAdapter, createMigrator, type Migrator, type MigrationState } from '@ereo/db-sqlite';
 
 // ============================================================================
 // Types
 // ============================================================================
 
-export interface DbMigrateOptions {
+/** Options shared by the native migration commands */
+export interface NativeMigrationOptions {
+  /** SQLite database path (default: DATABASE_URL) */
+  database?: string;
+  /** Migrations directory (default: ./migrations) */
+  dir?: string;
+}
+
+export interface DbMigrateOptions extends NativeMigrationOptions {
   /** Path to drizzle config file */
   config?: string;
   /** Run in verbose mode */
   verbose?: boolean;
+  /** Stop after this migration version (native runner only) */
+  to?: string;
+}
+
+export interface DbRollbackOptions extends NativeMigrationOptions {
+  /** Roll back every migration after this version ('0' for all) */
+  to?: string;
+  /** Number of migrations to roll back when --to is not given (default: 1) */
+  steps?: number;
 }
 
+export type DbStatusOptions = NativeMigrationOptions;
+
 export interface DbGenerateOptions {
   /** Migration name */
   name: string;
@@ -58,6 +80,16 @@ export interface DbSeedOptions {
 // Utility Functions
 // ============================================================================
 
+/**
+ * Drizzle config file names, in lookup order.
+ */
+const DRIZZLE_CONFIG_NAMES = [
+  'drizzle.config.ts',
+  'drizzle.config.js',
+  'drizzle.config.mjs',
+  'drizzle.config.json',
+];
+
 /**
  * Find the drizzle config file.
  */
@@ -73,14 +105,7 @@ function findDrizzleConfig(customPath?: string): string {
   }
 
   // Look for common config file names
-  const configNames = [
-    'drizzle.config.ts',
-    'drizzle.config.js',
-    'drizzle.config.mjs',
-    'drizzle.config.json',
-  ];
-
-  for (const name of configNames) {
+  for (const name of DRIZZLE_CONFIG_NAMES) {
     const configPath = join(cwd, name);
     if (existsSync(configPath)) {
       return configPath;
@@ -92,6 +117,40 @@ function findDrizzleConfig(customPath?: string): string {
   );
 }
 
+/**
+ * Check whether migrations should run through drizzle-kit.
+ */
+function usesDrizzleKit(customPath?: string): boolean {
+  return !!customPath || DRIZZLE_CONFIG_NAMES.some((name) => existsSync(join(process.cwd(), name)));
+}
+
+/**
+ * Open the SQLite database and run fn with a migrator for it.
+ */
+async function withMigrator<T>(
+  options: NativeMigrationOptions,
+  fn: (migrator: Migrator) => Promise<T>
+): Promise<T> {
+  const database = options.database ?? process.env.DATABASE_URL;
+  if (!database) {
+    throw new Error('Database path is required. Pass --database <path> or set DATABASE_URL.');
+  }
+  if (/^\w+:\/\//.test(database) && !/^(?:file|sqlite):/.test(database)) {
+    throw new Error(
+      `Native migrations support SQLite databases only (got "${database.split(':')[0]}"). Add a drizzle config to use drizzle-kit.`
+    );
+  }
+
+  const dir = resolve(process.cwd(), options.dir ?? 'migrations');
+  const adapter = createSqliteAdapter({ url: database });
+
+  try {
+    return await fn(createMigrator(adapter, { dir }));
+  } finally {
+    await adapter.disconnect();
+  }
+}
+
 /**
  * Run a drizzle-kit command.
  */
@@ -137,6 +196,25 @@ export async function dbMigrate(options: DbMigrateOptions = {}): Promise<void> {
   console.log('\n  \x1b[36m⬡\x1b[0m \x1b[1mRunning database migrations...\x1b[0m');
 
   try {
+    if (!usesDrizzleKit(options.config)) {
+      console.log();
+      const applied = await withMigrator(options, (migrator) => migrator.migrate({ to: options.to }));
+
+      for (const migration of applied) {
+        console.log(`  \x1b[32m↑\x1b[0m ${migration.version}_${migration.name}`);
+      }
+      console.log(
+        applied.length > 0
+          ? `\n  \x1b[32m✓\x1b[0m Applied ${applied.length} migration${applied.length === 1 ? '' : 's'}\n`
+          : '\n  \x1b[32m✓\x1b[0m Database is up to date\n'
+      );
+      return;
+    }
+
+    if (options.to) {
+      throw new Error('--to is only supported by the native migration runner (remove the drizzle config to use it)');
+    }
+
     const configPath = findDrizzleConfig(options.config);
     const args = ['--config', configPath];
 
@@ -158,6 +236,74 @@ export async function dbMigrate(options: DbMigrateOptions = {}): Promise<void> {
   }
 }
 
+/**
+ * Roll back applied migrations with the native runner.
+ *
+ * Usage: ereo db:rollback [--to <version> | --steps <n>]
+ */
+export async function dbRollback(options: DbRollbackOptions = {}): Promise<void> {
+  console.log('\n  \x1b[36m⬡\x1b[0m \x1b[1mRolling back database migrations...\x1b[0m\n');
+
+  try {
+    const rolledBack = await withMigrator(options, (migrator) =>
+      migrator.rollback({ to: options.to, steps: options.steps })
+    );
+
+    for (const migration of rolledBack) {
+      console.log(`  \x1b[33m↓\x1b[0m ${migration.version}_${migration.name}`);
+    }
+    console.log(
+      rolledBack.length > 0
+        ? `\n  \x1b[32m✓\x1b[0m Rolled back ${rolledBack.length} migration${rolledBack.length === 1 ? '' : 's'}\n`
+        : '\n  \x1b[32m✓\x1b[0m Nothing to roll back\n'
+    );
+  } catch (error) {
+    console.error(`\n  \x1b[31m✗\x1b[0m ${error instanceof Error ? error.message : error}\n`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Show the state of every migration with the native runner.
+ * Exits with code 1 when an applied migration was modified or removed.
+ *
+ * Usage: ereo db:status
+ */
+export async function dbStatus(options: DbStatusOptions = {}): Promise<void> {
+  console.log('\n  \x1b[36m⬡\x1b[0m \x1b[1mDatabase migration status\x1b[0m\n');
+
+  try {
+    const status = await withMigrator(options, (migrator) => migrator.status());
+    const icons: Record<MigrationState, string> = {
+      applied: '\x1b[32m✓\x1b[0m',
+      pending: '\x1b[33m○\x1b[0m',
+      modified: '\x1b[31m✗\x1b[0m',
+      missing: '\x1b[31m✗\x1b[0m',
+    };
+
+    if (status.length === 0) {
+      console.log('  No migrations found\n');
+      return;
+    }
+
+    for (const migration of status) {
+      const appliedAt = migration.appliedAt ? `  \x1b[2m${migration.appliedAt}\x1b[0m` : '';
+      console.log(`  ${icons[migration.state]} ${migration.version}_${migration.name}  ${migration.state}${appliedAt}`);
+    }
+
+    const count = (state: MigrationState) => status.filter((migration) => migration.state === state).length;
+    console.log(`\n  ${count('applied')} applied, ${count('pending')} pending\n`);
+
+    if (count('modified') + count('missing') > 0) {
+      console.error('  \x1b[31m✗\x1b[0m Applied migrations were modified or removed; restore their files before migrating\n');
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error(`\n  \x1b[31m✗\x1b[0m ${error instanceof Error ? error.message : error}\n`);
+    process.exit(1);
+  }
+}
+
 /**
  * Generate a new migration from schema changes.
  *
@@ -361,6 +507,8 @@ export function printDbHelp(): void {
 
   \x1b[1mCommands:\x1b[0m
     db:migrate              Run pending database migrations
+    db:rollback             Roll back applied migrations (native runner)
+    db:status               Show migration status (native runner)
     db:generate --name <n>  Generate migration from schema changes
     db:studio               Open Drizzle Studio GUI
     db:push                 Push schema directly (dev only)
@@ -369,6 +517,15 @@ export function printDbHelp(): void {
   \x1b[1mMigrate Options:\x1b[0m
     --config <path>   Path to drizzle config file
     --verbose         Enable verbose output
+    --to <version>    Stop after this version (native runner)
+
+  \x1b[1mNative Runner Options\x1b[0m (db:migrate without a drizzle config, db:rollback, db:status):
+    --database <path> SQLite database path (default: DATABASE_URL)
+    --dir <dir>       Migrations directory (default: ./migrations)
+
+  \x1b[1mRollback Options:\x1b[0m
+    --to <version>    Roll back every migration after this version (0 for all)
+    --steps <n>       Number of migrations to roll back (default: 1)
 
   \x1b[1mGenerate Options:\x1b[0m
     --name <name>     Migration name (required)
@@ -391,6 +548,9 @@ export function printDbHelp(): void {
   \x1b[1mExamples:\x1b[0m
     ereo db:generate --name add_users_table
     ereo db:migrate
+    ereo db:migrate --to 0003 --database ./data/app.db
+    ereo db:rollback --steps 2
+    ereo db:status
     ereo db:studio --port 4000
     ereo db:push --force
     ereo db:seed --reset
@@ -4,7 +4,7 @@
  * Start the development server with HMR.
  */
 
-import { join } from 'node:path';
+import { join, resolve } from 'node:path';
 import { existsSync } from 'node:fs';
 import { mkdir, mkdtemp, rm, readdir, readFile } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
@@ -17,6 +17,7 @@ import {
 } from '@ereo/core';
 import { initFileRouter } from '@ereo/router';
 import { createServer, type ServerOptions } from '@ereo/server';
+import type { ClientModuleGraph } from '@ereo/bundler';
 import { loadConfig } from '../config';
 
 /**
@@ -75,6 +76,7 @@ export async function dev(options: DevOptions = {}): Promise<void> {
   // Note: Bun runtime plugins MUST return a value from onLoad when the filter matches.
   const { plugin } = await import('bun');
   const { createIsland } = await import('@ereo/client');
+  const { assignServerFnIds, getModuleId } = await import('@ereo/bundler');
   const islandModuleCache = new Map<string, Record<string, unknown>>();
   const appDir = join(root, 'app');
 
@@ -86,6 +88,16 @@ export async function dev(options: DevOptions = {}): Promise<void> {
         return { contents: await Bun.file(args.path).text(), loader: 'tsx' };
       });
 
+      // Assign server function ids in app/ .ts/.js modules
+      const appScriptFilter = new RegExp(`^${appDir.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}/.*\\.(ts|js)$`);
+      build.onLoad({ filter: appScriptFilter }, async (args) => {
+        const text = await Bun.file(args.path).text();
+        return {
+          contents: assignServerFnIds(text, getModuleId(args.path, root)),
+          loader: args.path.endsWith('.ts') ? 'ts' : 'js',
+        };
+      });
+
       // Intercept tsx/jsx files — Bun requires onLoad to always return a value when filter matches.
       // Only tsx/jsx because 'use client' components are React files, and matching .js/.ts would
       // break CJS modules in node_modules (e.g., postcss).
@@ -98,11 +110,16 @@ export async function dev(options: DevOptions = {}): Promise<void> {
         const text = await Bun.file(args.path).text();
         const ext = args.path.endsWith('.tsx') ? 'tsx' : 'jsx';
 
-        // Files outside app/ or without 'use client': pass through unchanged
-        if (!args.path.startsWith(appDir) || !/^['"]use client['"]/m.test(text)) {
+        // Files outside app/: pass through unchanged
+        if (!args.path.startsWith(appDir)) {
           return { contents: text, loader: ext };
         }
 
+        // Files without 'use client': only assign server function ids (same ids as the client bundle)
+        if (!/^['"]use client['"]/m.test(text)) {
+          return { contents: assignServerFnIds(text, getModuleId(args.path, root)), loader: ext };
+        }
+
         // Extract named export names
         const namedExports: string[] = [];
         for (const match of text.matchAll(/export\s+(?:function|const|class)\s+(\w+)/g)) {
@@ -168,10 +185,24 @@ export async function dev(options: DevOptions = {}): Promise<void> {
     createHMRWebSocket,
     HMR_CLIENT_CODE,
     ERROR_OVERLAY_SCRIPT,
+    resolveRefreshRuntime,
+    refreshRuntimePlugin,
+    serverCodePlugin,
+    createRefreshPrelude,
+    getClientModuleGraph,
+    createModuleRegistryCode,
+    buildHotModule,
   } = await import('@ereo/bundler');
 
-  // Create HMR server
-  const hmr = createHMRServer();
+  // Create HMR server. Changes to client modules rebuild the client bundle
+  // first, so that a full reload never serves stale code.
+  const hmr = createHMRServer({
+    beforeUpdate: async (path) => {
+      if (hmr.isClientModule(path)) {
+        await serializedBuildDevClient();
+      }
+    },
+  });
   const hmrWatcher = createHMRWatcher(hmr);
 
   // Watch for file changes
@@ -262,6 +293,9 @@ export async function dev(options: DevOptions = {}): Promise<void> {
     websocket: createHMRWebSocket(hmr),
     trace: traceConfig,
     static: staticConfig,
+    i18n: config.i18n,
+    cookies: config.cookies,
+    csrf: config.csrf,
   });
 
   server.setApp(app);
@@ -365,6 +399,12 @@ export async function dev(options: DevOptions = {}): Promise<void> {
   const clientBuildDir = await mkdtemp(join(tmpdir(), 'ereo-dev-client-'));
   const clientBundleCache = new Map<string, string>();
 
+  // React Fast Refresh: hot modules import everything but themselves from the
+  // modules the client bundle registers on the page
+  const refreshRuntime = resolveRefreshRuntime();
+  let clientModules: ClientModuleGraph | null = null;
+  let registeredModules = new Set<string>();
+
   async function buildDevClient(): Promise<void> {
     // Always scan for island components ('use client' files)
     const islands = await scanForIslands(root);
@@ -417,6 +457,24 @@ export async function dev(options: DevOptions = {}): Promise<void> {
       entrySource = islandRegistrationCode + '\n\n' + entrySource;
     }
 
+    // The Fast Refresh runtime must load before react-dom
+    const cacheDir = join(root, 'node_modules', '.cache', 'ereo');
+    await mkdir(cacheDir, { recursive: true });
+    if (refreshRuntime) {
+      const preludePath = join(cacheDir, '_refresh.client.ts');
+      await Bun.write(preludePath, createRefreshPrelude(refreshRuntime));
+      entrySource = `import '${preludePath}';\n` + entrySource;
+    }
+
+    // Register the modules of the previous build for hot modules to import
+    const registering = new Set<string>();
+    if (clientModules) {
+      entrySource += '\n\n' + createModuleRegistryCode(clientModules);
+      for (const id of [...clientModules.packages, ...clientModules.modules.keys()]) {
+        registering.add(id);
+      }
+    }
+
     // Rewrite ~/ and @/ aliases to absolute paths before writing to cache
     // (the cache dir is outside app/, so aliases won't resolve otherwise)
     const appDir = join(root, 'app');
@@ -437,8 +495,7 @@ export async function dev(options: DevOptions = {}): Promise<void> {
     );
 
     // Write combined entry to cache directory (in project root so Bun resolves node_modules)
-    const entryPath = join(root, 'node_modules', '.cache', 'ereo', '_entry.client.tsx');
-    await mkdir(join(root, 'node_modules', '.cache', 'ereo'), { recursive: true });
+    const entryPath = join(cacheDir, '_entry.client.tsx');
     await Bun.write(entryPath, entrySource);
 
     try {
@@ -448,6 +505,12 @@ export async function dev(options: DevOptions = {}): Promise<void> {
         target: 'browser',
         minify: false,
         sourcemap: 'inline',
+        reactFastRefresh: refreshRuntime !== null,
+        plugins: [
+          ...(refreshRuntime ? [refreshRuntimePlugin(refreshRuntime)] : []),
+          serverCodePlugin({ root, target: 'client' }),
+        ],
+        metafile: true,
         naming: {
           entry: 'client.[ext]',
           chunk: 'chunks/[name]-[hash].[ext]',
@@ -467,6 +530,19 @@ export async function dev(options: DevOptions = {}): Promise<void> {
         const relativePath = output.path.replace(clientBuildDir, '').replace(/^\//, '');
         clientBundleCache.set(relativePath, await output.text());
       }
+
+      // Track which modules run in the browser
+      const graph = getClientModuleGraph(result.metafile!, appDir, root);
+      for (const [id, dependencies] of graph.modules) {
+        hmr.registerModule(id, { dependencies, isClient: true });
+      }
+      clientModules = graph;
+      registeredModules = registering;
+
+      // Modules new to this build are registered by the next one
+      if ([...graph.packages, ...graph.modules.keys()].some((id) => !registering.has(id))) {
+        return buildDevClient();
+      }
     } catch (error) {
       console.error('  \x1b[31m✖\x1b[0m Failed to build client entry:', error);
     }
@@ -529,6 +605,29 @@ export async function dev(options: DevOptions = {}): Promise<void> {
       }
     }
 
+    // Serve hot-updated client modules
+    if (url.pathname === '/__ereo/hmr') {
+      const modulePath = resolve(url.searchParams.get('module') ?? '');
+      if (!modulePath.startsWith(appDir + '/')) {
+        return new Response('Not Found', { status: 404 });
+      }
+
+      try {
+        const code = await buildHotModule(modulePath, {
+          registered: registeredModules,
+          refreshRuntime,
+          root,
+        });
+        return new Response(code, {
+          headers: { 'Content-Type': 'text/javascript; charset=utf-8', 'Cache-Control': 'no-store' },
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        hmr.error(message, error instanceof Error ? error.stack : undefined);
+        return new Response(message, { status: 500 });
+      }
+    }
+
     // Inject HMR client
     if (url.pathname === '/__hmr-client.js') {
       return new Response(HMR_CLIENT_CODE, {
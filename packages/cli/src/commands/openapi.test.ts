@@ -0,0 +1,54 @@
+/**
+ * Tests for CLI openapi command
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { join } from 'node:path';
+import { mkdir, rm, writeFile, readFile } from 'node:fs/promises';
+import { openapi } from './openapi';
+
+const TEST_DIR = join(import.meta.dir, '__test_openapi__');
+
+describe('openapi command', () => {
+  const originalCwd = process.cwd();
+
+  let projectDir: string;
+  let projectCount = 0;
+
+  // A fresh directory per test, since config modules are cached by path
+  beforeEach(async () => {
+    projectDir = join(TEST_DIR, `project-${projectCount++}`);
+    await mkdir(projectDir, { recursive: true });
+    process.chdir(projectDir);
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    await rm(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('writes the document generated by the configured plugin', async () => {
+    await writeFile(
+      join(projectDir, 'ereo.config.ts'),
+      `let root = '';
+export default {
+  plugins: [{
+    name: '@ereo/openapi',
+    setup(ctx) { root = ctx.root; },
+    async generateDocument() { return { openapi: '3.1.0', info: { title: root } }; },
+  }],
+};`
+    );
+
+    await openapi({ out: 'openapi.json' });
+
+    const doc = JSON.parse(await readFile(join(projectDir, 'openapi.json'), 'utf-8'));
+    expect(doc).toEqual({ openapi: '3.1.0', info: { title: process.cwd() } });
+  });
+
+  it('fails when the plugin is not configured', async () => {
+    await writeFile(join(projectDir, 'ereo.config.ts'), 'export default { plugins: [] };');
+
+    await expect(openapi()).rejects.toThrow('openapiPlugin()');
+  });
+});
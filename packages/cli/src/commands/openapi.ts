@@ -0,0 +1,51 @@
+/**
+ * @ereo/cli - OpenAPI Command
+ *
+ * Generate the OpenAPI document configured by `openapiPlugin()` in ereo.config.
+ */
+
+import { resolve } from 'node:path';
+import type { Plugin } from '@ereo/core';
+import { loadConfig } from '../config';
+
+/**
+ * OpenAPI command options.
+ */
+export interface OpenAPIOptions {
+  /** Output file (default: print to stdout) */
+  out?: string;
+}
+
+/** The parts of `@ereo/openapi`'s plugin the command uses */
+interface OpenAPIPluginLike extends Plugin {
+  generateDocument(): Promise<unknown>;
+}
+
+function isOpenAPIPlugin(plugin: Plugin): plugin is OpenAPIPluginLike {
+  return plugin.name === '@ereo/openapi' && typeof (plugin as OpenAPIPluginLike).generateDocument === 'function';
+}
+
+/**
+ * Run the openapi command.
+ */
+export async function openapi(options: OpenAPIOptions = {}): Promise<void> {
+  const root = process.cwd();
+  const { config } = await loadConfig(root);
+
+  const plugin = config.plugins?.find(isOpenAPIPlugin);
+  if (!plugin) {
+    throw new Error('openapiPlugin() from @ereo/openapi is not configured in ereo.config');
+  }
+
+  await plugin.setup?.({ config, mode: 'production', root });
+  const json = JSON.stringify(await plugin.generateDocument(), null, 2);
+
+  if (!options.out) {
+    console.log(json);
+    return;
+  }
+
+  const outPath = resolve(root, options.out);
+  await Bun.write(outPath, json + '\n');
+  console.log(`\n  \x1b[32m✓\x1b[0m OpenAPI document written to ${options.out}\n`);
+}
@@ -6,8 +6,8 @@
 
 import { join } from 'node:path';
 import { createApp, type FrameworkConfig } from '@ereo/core';
-import { initFileRouter } from '@ereo/router';
-import { createServer } from '@ereo/server';
+import { initFileRouter, type FileRouter } from '@ereo/router';
+import { createServer, type BunServer } from '@ereo/server';
 import { loadConfig } from '../config';
 
 /**
@@ -35,13 +35,56 @@ export async function start(options: StartOptions = {}): Promise<void> {
     process.exit(1);
   }
 
-  // Load manifest
-  const manifest = await Bun.file(manifestPath).json();
   const config = loadedConfig.config;
 
   const port = options.port || config.server?.port || 3000;
   const hostname = options.host || config.server?.hostname || '0.0.0.0';
 
+  const { server } = await createProductionServer(config, buildDir, { port, hostname, logging: true });
+
+  // Start server
+  await server.start();
+
+  console.log(`  \x1b[32m➜\x1b[0m  Server running at \x1b[36mhttp://${hostname}:${port}/\x1b[0m\n`);
+
+  // Handle process signals
+  process.on('SIGINT', () => {
+    console.log('\n  Shutting down...\n');
+    server.stop();
+    process.exit(0);
+  });
+
+  process.on('SIGTERM', () => {
+    console.log('\n  Shutting down...\n');
+    server.stop();
+    process.exit(0);
+  });
+}
+
+/**
+ * Options of the production server.
+ */
+export interface ProductionServerOptions {
+  port: number;
+  hostname: string;
+  /** Log requests (default: true) */
+  logging?: boolean;
+  /** Serve pages pre-rendered by a previous build (default: true) */
+  servePrerendered?: boolean;
+}
+
+/**
+ * Set up the production server of a build: built routes and assets, the
+ * config, plugins and their middleware. `ereo build` pre-renders pages
+ * through it so they match what `ereo start` serves.
+ */
+export async function createProductionServer(
+  config: FrameworkConfig,
+  buildDir: string,
+  options: ProductionServerOptions
+): Promise<{ server: BunServer; router: FileRouter }> {
+  const { port, hostname } = options;
+
   // Create app
   const app = createApp({
     config: {
@@ -64,11 +107,13 @@ export async function start(options: StartOptions = {}): Promise<void> {
   await router.loadAllModules();
 
   // Create server
+  const manifest = await Bun.file(join(buildDir, 'manifest.json')).json();
+  const prerenderDir = join(buildDir, 'prerendered');
   const server = createServer({
     port,
     hostname,
     development: false,
-    logging: true,
+    logging: options.logging ?? true,
     static: {
       root: join(buildDir, 'client'),
       prefix: '/_ereo',
@@ -76,6 +121,13 @@ export async function start(options: StartOptions = {}): Promise<void> {
       immutable: true,
     },
     clientEntry: manifest.clientEntry ? `/_ereo/${manifest.clientEntry}` : undefined,
+    // Pages pre-rendered by `ereo build` (SSG/ISR)
+    prerender: options.servePrerendered !== false && (await Bun.file(join(prerenderDir, 'manifest.json')).exists())
+      ? { dir: prerenderDir }
+      : undefined,
+    i18n: config.i18n,
+    cookies: config.cookies,
+    csrf: config.csrf,
   });
 
   server.setApp(app);
@@ -126,21 +178,5 @@ export async function start(options: StartOptions = {}): Promise<void> {
     });
   }
 
-  // Start server
-  await server.start();
-
-  console.log(`  \x1b[32m➜\x1b[0m  Server running at \x1b[36mhttp://${hostname}:${port}/\x1b[0m\n`);
-
-  // Handle process signals
-  process.on('SIGINT', () => {
-    console.log('\n  Shutting down...\n');
-    server.stop();
-    process.exit(0);
-  });
-
-  process.on('SIGTERM', () => {
-    console.log('\n  Shutting down...\n');
-    server.stop();
-    process.exit(0);
-  });
+  return { server, router };
 }
@@ -10,18 +10,23 @@ import { build, type BuildCommandOptions } from './commands/build';
 import { start, type StartOptions } from './commands/start';
 import { create, type CreateOptions } from './commands/create';
 import { deploy, printDeployHelp, type DeployOptions, type DeployTarget, type DeployResult } from './commands/deploy';
+import { openapi, type OpenAPIOptions } from './commands/openapi';
 import {
   dbMigrate,
   dbGenerate,
   dbStudio,
   dbPush,
   dbSeed,
+  dbRollback,
+  dbStatus,
   printDbHelp,
   type DbMigrateOptions,
   type DbGenerateOptions,
   type DbStudioOptions,
   type DbPushOptions,
   type DbSeedOptions,
+  type DbRollbackOptions,
+  type DbStatusOptions,
 } from './commands/db';
 import { join, dirname } from 'node:path';
 
@@ -47,7 +52,8 @@ function printHelp(): void {
     start       Start production server
     create      Create new project
     deploy      Deploy to production
-    db:*        Database commands (db:migrate, db:generate, db:studio, db:push, db:seed)
+    openapi     Generate the OpenAPI document
+    db:*        Database commands (db:migrate, db:rollback, db:status, db:generate, db:studio, db:push, db:seed)
 
   \x1b[1mDev Options:\x1b[0m
     --port, -p  Port number (default: 3000)
@@ -59,6 +65,7 @@ function printHelp(): void {
     --outDir    Output directory (default: .ereo)
     --minify    Enable minification (default: true)
     --sourcemap Generate sourcemaps (default: true)
+    --prerender Pre-render SSG routes (default: true)
 
   \x1b[1mStart Options:\x1b[0m
     --port, -p  Port number (default: 3000)
@@ -73,8 +80,13 @@ function printHelp(): void {
     --dry-run   Preview deployment
     --name      Project name
 
+  \x1b[1mOpenAPI Options:\x1b[0m
+    --out, -o   Output file (default: stdout)
+
   \x1b[1mDatabase Commands:\x1b[0m
     ereo db:migrate           Run pending migrations
+    ereo db:rollback          Roll back the last migration
+    ereo db:status            Show migration status
     ereo db:generate --name   Generate migration from schema
     ereo db:studio            Open Drizzle Studio
     ereo db:push              Push schema (dev only)
@@ -86,6 +98,7 @@ function printHelp(): void {
     ereo start --port 3001
     ereo create my-app --template tailwind
     ereo deploy vercel --prod
+    ereo openapi --out openapi.json
     ereo db:generate --name add_users
 
   Version: ${VERSION}
@@ -194,6 +207,7 @@ async function main(): Promise<void> {
           outDir: options.outDir as string | undefined,
           minify: parseOptionalBoolean(options.minify),
           sourcemap: parseOptionalBoolean(options.sourcemap),
+          prerender: parseOptionalBoolean(options.prerender),
         };
         await build(buildOptions);
         break;
@@ -249,16 +263,51 @@ async function main(): Promise<void> {
         break;
       }
 
+      case 'openapi': {
+        const openapiOptions: OpenAPIOptions = {
+          out: (options.out || options.o) as string | undefined,
+        };
+        await openapi(openapiOptions);
+        break;
+      }
+
       // Database commands
       case 'db:migrate': {
         const migrateOptions: DbMigrateOptions = {
           config: options.config as string | undefined,
           verbose: !!(options.verbose || options.v),
+          to: options.to !== undefined ? String(options.to) : undefined,
+          database: options.database as string | undefined,
+          dir: options.dir as string | undefined,
         };
         await dbMigrate(migrateOptions);
         break;
       }
 
+      case 'db:rollback': {
+        const steps = options.steps !== undefined ? parseInt(String(options.steps), 10) : undefined;
+        if (steps !== undefined && !(steps >= 1)) {
+          throw new Error(`Invalid --steps: "${options.steps}". Must be a positive integer.`);
+        }
+        const rollbackOptions: DbRollbackOptions = {
+          to: options.to !== undefined ? String(options.to) : undefined,
+          steps,
+          database: options.database as string | undefined,
+          dir: options.dir as string | undefined,
+        };
+        await dbRollback(rollbackOptions);
+        break;
+      }
+
+      case 'db:status': {
+        const statusOptions: DbStatusOptions = {
+          database: options.database as string | undefined,
+          dir: options.dir as string | undefined,
+        };
+        await dbStatus(statusOptions);
+        break;
+      }
+
       case 'db:generate': {
         const generateOptions: DbGenerateOptions = {
           name: (options.name || positional[0]) as string,
@@ -322,10 +371,10 @@ async function main(): Promise<void> {
 }
 
 // Export commands for programmatic use
-export { dev, build, start, create, deploy };
-export { dbMigrate, dbGenerate, dbStudio, dbPush, dbSeed };
-export type { DevOptions, BuildCommandOptions, StartOptions, CreateOptions, DeployOptions, DeployTarget, DeployResult };
-export type { DbMigrateOptions, DbGenerateOptions, DbStudioOptions, DbPushOptions, DbSeedOptions };
+export { dev, build, start, create, deploy, openapi };
+export { dbMigrate, dbRollback, dbStatus, dbGenerate, dbStudio, dbPush, dbSeed };
+export type { DevOptions, BuildCommandOptions, StartOptions, CreateOptions, DeployOptions, DeployTarget, DeployResult, OpenAPIOptions };
+export type { DbMigrateOptions, DbRollbackOptions, DbStatusOptions, DbGenerateOptions, DbStudioOptions, DbPushOptions, DbSeedOptions };
 
 // Run CLI
 main().catch(console.error);
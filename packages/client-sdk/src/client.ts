@@ -16,6 +16,7 @@ import type {
   QueryParams,
   PathParams,
 } from './types';
+import { getTraceHeaders } from '@ereo/core';
 
 /** Default client configuration */
 const defaultConfig: ClientConfig = {
@@ -55,7 +56,7 @@ export class ApiClient {
   ): Promise<ApiResponse<ResponseType<Path, Method>>> {
     const mergedConfig = this.config.onRequest
       ? await this.config.onRequest(config as ApiRequestConfig)
-      : config;
+      : (config as ApiRequestConfig);
 
     const url = this.buildUrl(mergedConfig);
     const init = this.buildInit(mergedConfig);
@@ -214,6 +215,7 @@ export class ApiClient {
   private buildInit(config: ApiRequestConfig): RequestInit {
     const headers: Record<string, string> = {
       'Accept': 'application/json',
+      ...getTraceHeaders(),
       ...this.config.headers,
       ...config.headers,
     };
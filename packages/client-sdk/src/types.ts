@@ -87,12 +87,17 @@ export type QueryParams<
     : never
   : Record<string, string | number | boolean | undefined>;
 
+/** Names of the `[param]` segments of a path */
+type PathParamNames<Path extends string> = Path extends `${string}[${infer Param}]${infer Rest}`
+  ? Param | PathParamNames<Rest>
+  : never;
+
 /** Get path parameters type for a path */
-export type PathParams<Path extends string> = Path extends `${infer _}/[${infer Param}]${infer Rest}`
-  ? { [K in Param]: string } & PathParams<Rest>
-  : Path extends `[${infer Param}]${infer Rest}`
-  ? { [K in Param]: string } & PathParams<Rest>
-  : Record<string, never>;
+export type PathParams<Path extends string> = string extends Path
+  ? Record<string, string>
+  : [PathParamNames<Path>] extends [never]
+  ? Record<string, never>
+  : { [K in PathParamNames<Path>]: string };
 
 // ============================================================================
 // Request/Response Types
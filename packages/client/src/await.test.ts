@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach } from 'bun:test';
 
-import { resolveAwait, type DeferredData } from './await';
+import { Await, resolveAwait, type DeferredData } from './await';
 
 // We test the pure logic functions directly.
 // For the React components (Await, AwaitInner), we test the underlying logic
@@ -339,6 +339,11 @@ describe('@ereo/client - await', () => {
   // Await component rendering logic
   // ==========================================================================
   describe('Await component rendering logic', () => {
+    it('renders values that are not promises without suspending', () => {
+      const element = Await<number>({ resolve: 21, children: (n) => n * 2 });
+      expect(element.props.children).toBe(42);
+    });
+
     it('calls children as function with resolved data', () => {
       const data = { name: 'Test' };
       let renderedData: any = null;
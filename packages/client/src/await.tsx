@@ -29,8 +29,9 @@ export interface AwaitProps<T> {
   /**
    * The deferred data promise to resolve.
    * Usually comes from a loader using `defer()`.
+   * Values that already resolved are rendered directly.
    */
-  resolve: DeferredData<T> | Promise<T>;
+  resolve: DeferredData<T> | Promise<T> | T;
 
   /**
    * Render function called with resolved data.
@@ -186,6 +187,11 @@ export function Await<T>({
   children,
   errorElement,
 }: AwaitProps<T>): ReactElement {
+  // Data that was resolved before it reached the client needs no suspense
+  if (!isDeferredData(resolve) && !(resolve instanceof Promise)) {
+    return <>{typeof children === 'function' ? (children as (data: T) => ReactNode)(resolve as T) : children}</>;
+  }
+
   // Extract promise from DeferredData if needed
   const promise = isDeferredData(resolve) ? resolve.promise : resolve;
 
@@ -199,7 +205,7 @@ export function Await<T>({
 /**
  * Type guard to check if a value is DeferredData.
  */
-function isDeferredData<T>(value: DeferredData<T> | Promise<T>): value is DeferredData<T> {
+function isDeferredData<T>(value: DeferredData<T> | Promise<T> | T): value is DeferredData<T> {
   return (
     typeof value === 'object' &&
     value !== null &&
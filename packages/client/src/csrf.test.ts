@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, mock, test } from 'bun:test';
+import { createElement } from 'react';
+import { renderToString } from 'react-dom/server.browser';
+import { CsrfProvider, getCsrfHeaders, getCsrfToken, isSameOriginUrl, useCsrfToken } from './csrf';
+import { Form } from './form';
+import { submitAction } from './navigation';
+
+describe('@ereo/client - CSRF', () => {
+  let originalDocument: unknown;
+
+  beforeEach(() => {
+    originalDocument = (globalThis as any).document;
+  });
+
+  afterEach(() => {
+    (globalThis as any).document = originalDocument;
+  });
+
+  test('reads the token from the cookie', () => {
+    (globalThis as any).document = { cookie: 'theme=dark; ereo-csrf=abc123' };
+
+    expect(getCsrfToken()).toBe('abc123');
+    expect(getCsrfHeaders()).toEqual({ 'X-CSRF-Token': 'abc123' });
+  });
+
+  test('sends no header without a token', () => {
+    (globalThis as any).document = { cookie: 'theme=dark' };
+
+    expect(getCsrfToken()).toBeUndefined();
+    expect(getCsrfHeaders()).toBeUndefined();
+  });
+
+  test('prefers the provided token', () => {
+    (globalThis as any).document = { cookie: 'ereo-csrf=from-cookie' };
+    function Token() {
+      return createElement('span', null, useCsrfToken());
+    }
+
+    const html = renderToString(createElement(CsrfProvider, { token: 'from-server', children: createElement(Token) }));
+    expect(html).toBe('<span>from-server</span>');
+  });
+
+  test('Form renders the token for posts only', () => {
+    const render = (method: 'get' | 'post' | 'delete') =>
+      renderToString(
+        createElement(CsrfProvider, { token: 'tok', children: createElement(Form, { method, action: '/posts' }) })
+      );
+
+    expect(render('post')).toContain('<input type="hidden" name="_csrf" value="tok"/>');
+    expect(render('delete')).toContain('name="_csrf"');
+    expect(render('get')).not.toContain('_csrf');
+  });
+
+  test('never sends the token to other origins', async () => {
+    (globalThis as any).document = { cookie: 'ereo-csrf=abc123' };
+    const action = 'https://third-party.example/subscribe';
+
+    expect(isSameOriginUrl('/posts')).toBe(true);
+    expect(isSameOriginUrl('?index')).toBe(true);
+    expect(isSameOriginUrl(action)).toBe(false);
+    expect(isSameOriginUrl('//third-party.example/subscribe')).toBe(false);
+    expect(isSameOriginUrl('/\\third-party.example/subscribe')).toBe(false);
+    expect(getCsrfHeaders(action)).toBeUndefined();
+    expect(getCsrfHeaders('/posts')).toEqual({ 'X-CSRF-Token': 'abc123' });
+
+    const html = renderToString(
+      createElement(CsrfProvider, { token: 'tok', children: createElement(Form, { method: 'post', action }) })
+    );
+    expect(html).not.toContain('_csrf');
+
+    const originalFetch = globalThis.fetch;
+    const fetchMock = mock(async () => new Response('null'));
+    globalThis.fetch = fetchMock as any;
+    try {
+      await submitAction(action, new FormData());
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+    expect((fetchMock.mock.calls[0] as any)[1].headers).not.toHaveProperty('X-CSRF-Token');
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * @ereo/client - CSRF Tokens
+ *
+ * The server issues a token cookie with every page (`context.csrfToken()`)
+ * and rejects actions that don't send it back. `<Form>` renders it as a
+ * hidden `_csrf` field; fetch submissions send it in the `X-CSRF-Token`
+ * header.
+ */
+
+import { createContext, createElement, useContext, useEffect, useRef, type Context, type ReactNode } from 'react';
+import { CSRF_COOKIE, CSRF_FIELD, CSRF_HEADER } from '@ereo/core';
+
+/**
+ * Read the token from the page's cookies.
+ */
+export function getCsrfToken(): string | undefined {
+  if (typeof document === 'undefined') {
+    return undefined;
+  }
+
+  for (const pair of document.cookie.split(';')) {
+    const eqIndex = pair.indexOf('=');
+    if (eqIndex !== -1 && pair.slice(0, eqIndex).trim() === CSRF_COOKIE) {
+      return decodeURIComponent(pair.slice(eqIndex + 1).trim());
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check that an action URL is relative or has the page's origin. The token
+ * must never be sent to other sites: with it, they could forge actions.
+ */
+export function isSameOriginUrl(url: string): boolean {
+  // Relative URLs, other than protocol-relative ones, stay on the page's origin
+  if (!/^(?:[a-z][a-z\d+.-]*:|[/\\]{2})/i.test(url.trim())) {
+    return true;
+  }
+  if (typeof window === 'undefined') {
+    return false;
+  }
+  try {
+    return new URL(url, window.location.href).origin === window.location.origin;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Headers that carry the token, for custom fetch submissions to `url`, or
+ * undefined when no token was issued or `url` is on another origin.
+ *
+ * @example
+ * ```ts
+ * await fetch('/posts', { method: 'POST', headers: { ...getCsrfHeaders('/posts') }, body });
+ * ```
+ */
+export function getCsrfHeaders(url?: string): Record<string, string> | undefined {
+  if (url !== undefined && !isSameOriginUrl(url)) {
+    return undefined;
+  }
+  const token = getCsrfToken();
+  return token ? { [CSRF_HEADER]: token } : undefined;
+}
+
+// ============================================================================
+// Provider and Hooks
+// ============================================================================
+
+/**
+ * Context that overrides the cookie token (used for SSR and tests).
+ */
+export const CsrfContext: Context<string | null> = createContext<string | null>(null);
+
+export interface CsrfProviderProps {
+  token: string;
+  children: ReactNode;
+}
+
+/**
+ * Provide the token to the tree. The server renders pages inside it; in
+ * the browser, hooks read the cookie without it.
+ */
+export function CsrfProvider({ token, children }: CsrfProviderProps): ReactNode {
+  return createElement(CsrfContext.Provider, { value: token }, children);
+}
+
+/**
+ * Get the CSRF token, or undefined when none was issued.
+ */
+export function useCsrfToken(): string | undefined {
+  return useContext(CsrfContext) ?? getCsrfToken();
+}
+
+/**
+ * Hidden input carrying the CSRF token, for plain `<form>` elements that
+ * post to route actions of the app. `<Form>` adds it automatically when
+ * its action is on the page's origin.
+ *
+ * @example
+ * ```tsx
+ * <form method="post" action="/logout">
+ *   <CsrfInput />
+ *   <button>Log out</button>
+ * </form>
+ * ```
+ */
+export function CsrfInput(): ReactNode {
+  const provided = useContext(CsrfContext);
+  const ref = useRef<HTMLInputElement>(null);
+
+  // Pages shared by all visitors are rendered without a token:
+  // fill it in from the cookie once hydrated
+  useEffect(() => {
+    const token = getCsrfToken();
+    if (token && ref.current) {
+      ref.current.value = token;
+    }
+  });
+
+  return createElement('input', {
+    ref,
+    type: 'hidden',
+    name: CSRF_FIELD,
+    defaultValue: provided ?? undefined,
+    suppressHydrationWarning: true,
+  });
+}
@@ -0,0 +1,57 @@
+import { describe, expect, test } from 'bun:test';
+import { serializeData } from '@ereo/core';
+import { parseNavigationResponse, readDeferredStream } from './deferred-stream';
+
+function createStream() {
+  const encoder = new TextEncoder();
+  let controller!: ReadableStreamDefaultController<Uint8Array>;
+  const body = new ReadableStream<Uint8Array>({
+    start(c) {
+      controller = c;
+    },
+  });
+  return {
+    body,
+    send: (frame: unknown) => controller.enqueue(encoder.encode(`${serializeData(frame)}\n`)),
+    close: () => controller.close(),
+  };
+}
+
+describe('@ereo/client - deferred data streams', () => {
+  test('resolves the payload before deferred values settle', async () => {
+    const stream = createStream();
+    stream.send({
+      type: 'payload',
+      payload: { data: { title: 'Post', comments: null }, matches: [{ data: { comments: null } }] },
+      deferred: { '/data/comments': 0, '/matches/0/data/comments': 0 },
+    });
+
+    const result = await readDeferredStream<any>(stream.body);
+    expect(result.data.title).toBe('Post');
+    expect(result.data.comments).toBeInstanceOf(Promise);
+    expect(result.matches[0].data.comments).toBe(result.data.comments);
+
+    stream.send({ type: 'resolve', id: 0, value: [{ at: new Date(0) }] });
+    stream.close();
+    expect(await result.data.comments).toEqual([{ at: new Date(0) }]);
+  });
+
+  test('rejects failed and unsettled values', async () => {
+    const stream = createStream();
+    stream.send({ type: 'payload', payload: { a: null, b: null }, deferred: { '/a': 0, '/b': 1 } });
+
+    const result = await readDeferredStream<any>(stream.body);
+    stream.send({ type: 'reject', id: 0, error: new Error('down') });
+    stream.close();
+
+    await expect(result.a).rejects.toThrow('down');
+    await expect(result.b).rejects.toThrow('ended before the value settled');
+  });
+
+  test('parses plain JSON responses', async () => {
+    const response = new Response(serializeData({ data: { at: new Date(0) } }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+    expect(await parseNavigationResponse(response)).toEqual({ data: { at: new Date(0) } });
+  });
+});
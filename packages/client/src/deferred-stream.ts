@@ -0,0 +1,151 @@
+/**
+ * @ereo/client - Deferred Data Streams
+ *
+ * Reads navigation responses streamed by the server. The payload arrives
+ * first with a promise in place of every deferred value; each promise
+ * settles as the server sends its frame.
+ */
+
+import { parseData } from '@ereo/core';
+
+/** Content type of a deferred data stream */
+export const DEFERRED_STREAM_CONTENT_TYPE = 'application/x-ndjson';
+
+/** Accept header for requests that can receive a deferred data stream */
+export const DEFERRED_STREAM_ACCEPT = `${DEFERRED_STREAM_CONTENT_TYPE}, application/json`;
+
+/**
+ * A frame of a deferred data stream, one per line.
+ */
+type DeferredStreamFrame =
+  | { type: 'payload'; payload: unknown; deferred: Record<string, number> }
+  | { type: 'resolve'; id: number; value: unknown }
+  | { type: 'reject'; id: number; error: Error };
+
+interface Settler {
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Read a stream line by line, skipping blank lines.
+ */
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let index: number;
+      while ((index = buffer.indexOf('\n')) >= 0) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 1);
+        if (line.trim()) yield line;
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer.trim()) yield buffer;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Set a value at a JSON pointer path.
+ */
+function setAtPath(target: unknown, path: string, value: unknown): void {
+  const keys = path
+    .split('/')
+    .slice(1)
+    .map((key) => key.replace(/~1/g, '/').replace(/~0/g, '~'));
+  const last = keys.pop();
+  if (last === undefined) return;
+
+  let parent = target as Record<string, unknown> | null;
+  for (const key of keys) {
+    parent = parent?.[key] as Record<string, unknown> | null;
+  }
+  if (parent && typeof parent === 'object') {
+    parent[last] = value;
+  }
+}
+
+/**
+ * Read a deferred data stream. Resolves with the payload as soon as its
+ * frame arrives; deferred values are promises that settle later.
+ */
+export async function readDeferredStream<T = unknown>(body: ReadableStream<Uint8Array>): Promise<T> {
+  const lines = readLines(body);
+  const first = await lines.next();
+  if (first.done) {
+    throw new Error('Deferred data stream ended before its payload');
+  }
+
+  const frame = parseData<DeferredStreamFrame>(first.value);
+  if (frame.type !== 'payload') {
+    throw new Error(`Unexpected deferred data frame: ${frame.type}`);
+  }
+
+  // A value reachable from several paths shares one promise
+  const settlers = new Map<number, Settler>();
+  const promises = new Map<number, Promise<unknown>>();
+  for (const [path, id] of Object.entries(frame.deferred)) {
+    let promise = promises.get(id);
+    if (!promise) {
+      promise = new Promise((resolve, reject) => settlers.set(id, { resolve, reject }));
+      // Rejections surface where the value is awaited
+      promise.catch(() => {});
+      promises.set(id, promise);
+    }
+    setAtPath(frame.payload, path, promise);
+  }
+
+  if (settlers.size > 0) {
+    void (async () => {
+      try {
+        for await (const line of lines) {
+          const next = parseData<DeferredStreamFrame>(line);
+          if (next.type === 'payload') continue;
+          const settler = settlers.get(next.id);
+          if (!settler) continue;
+          settlers.delete(next.id);
+          if (next.type === 'resolve') {
+            settler.resolve(next.value);
+          } else {
+            settler.reject(next.error);
+          }
+          if (settlers.size === 0) break;
+        }
+      } catch (error) {
+        for (const settler of settlers.values()) settler.reject(error);
+        settlers.clear();
+      }
+
+      for (const settler of settlers.values()) {
+        settler.reject(new Error('Deferred data stream ended before the value settled'));
+      }
+    })();
+  } else {
+    // Nothing left to wait for
+    await lines.return(undefined);
+  }
+
+  return frame.payload as T;
+}
+
+/**
+ * Parse a navigation response, streamed or plain JSON.
+ */
+export async function parseNavigationResponse<T = unknown>(response: Response): Promise<T> {
+  const contentType = response.headers.get('Content-Type') ?? '';
+  if (contentType.includes(DEFERRED_STREAM_CONTENT_TYPE) && response.body) {
+    return readDeferredStream<T>(response.body);
+  }
+  return parseData<T>(await response.text());
+}
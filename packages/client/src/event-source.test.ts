@@ -0,0 +1,96 @@
+import { describe, expect, test, mock } from 'bun:test';
+import { createElement } from 'react';
+import { renderToString } from 'react-dom/server.browser';
+import { connectEventSource, useEventSource, type EventSourceMessage, type EventSourceStatus } from './event-source';
+
+type Events = { price: { symbol: string; at: Date }; status: string };
+
+function streamResponse(body: string, init: ResponseInit = {}): Response {
+  return new Response(body, { ...init, headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+/** Connect and collect events until the connection gives up or is closed */
+function run(fetchFn: typeof fetch, reconnect = { delayMs: 1, maxAttempts: 1 }) {
+  const messages: EventSourceMessage<Events>[] = [];
+  const statuses: EventSourceStatus[] = [];
+  const errors: Array<[string, boolean]> = [];
+
+  return new Promise<{ messages: typeof messages; statuses: typeof statuses; errors: typeof errors }>((resolve) => {
+    connectEventSource<Events>(
+      'http://localhost/prices',
+      {
+        onEvent: (message) => messages.push(message),
+        onStatus: (status) => {
+          statuses.push(status);
+          if (status === 'closed' || status === 'error') resolve({ messages, statuses, errors });
+        },
+        onError: (error, final) => errors.push([error.message, final]),
+      },
+      { fetch: fetchFn, reconnect }
+    );
+  });
+}
+
+describe('@ereo/client - Event Sources', () => {
+  test('delivers named events with revived data', async () => {
+    const fetchFn = mock(async () =>
+      streamResponse(
+        'event: status\ndata: "open"\n\n' +
+          'id: p1\nevent: price\ndata: {"json":{"symbol":"ACME","at":"2026-01-01T00:00:00.000Z"},"meta":{"/at":"Date"}}\n\n'
+      )
+    );
+    const { messages } = await run(fetchFn as any, { delayMs: 1, maxAttempts: 0 });
+
+    expect(messages[0]).toEqual({ event: 'status', data: 'open', id: undefined });
+    expect(messages[1].event).toBe('price');
+    expect(messages[1].id).toBe('p1');
+    expect((messages[1].data as Events['price']).at).toBeInstanceOf(Date);
+  });
+
+  test('reconnects with Last-Event-ID after the stream ends', async () => {
+    const seen: Array<string | null> = [];
+    let calls = 0;
+    const fetchFn = mock(async (_url: string, init: RequestInit) => {
+      seen.push(new Headers(init.headers).get('Last-Event-ID'));
+      calls++;
+      return calls === 1
+        ? streamResponse('id: 1\nevent: status\ndata: "first"\n\n')
+        : new Response(null, { status: 204 });
+    });
+    const { messages, statuses } = await run(fetchFn as any);
+
+    expect(messages.map((message) => message.data)).toEqual(['first']);
+    expect(seen).toEqual([null, '1']);
+    expect(statuses.at(-1)).toBe('closed');
+  });
+
+  test('stops on client errors', async () => {
+    const fetchFn = mock(async () => new Response('Forbidden', { status: 403 }));
+    const { errors, statuses } = await run(fetchFn as any, { delayMs: 1, maxAttempts: 5 });
+
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+    expect(errors[0][1]).toBe(true);
+    expect(statuses.at(-1)).toBe('error');
+  });
+
+  test('gives up after the maximum attempts', async () => {
+    const fetchFn = mock(async () => {
+      throw new Error('offline');
+    });
+    const { errors } = await run(fetchFn as any, { delayMs: 1, maxAttempts: 2 });
+
+    expect(fetchFn).toHaveBeenCalledTimes(3);
+    expect(errors).toEqual([['offline', false], ['offline', false], ['offline', true]]);
+  });
+
+  test('useEventSource starts connecting', () => {
+    let status: EventSourceStatus | undefined;
+    function Ticker() {
+      status = useEventSource<Events>('/prices').status;
+      return null;
+    }
+    renderToString(createElement(Ticker));
+
+    expect(status).toBe('connecting');
+  });
+});
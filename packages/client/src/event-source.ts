@@ -0,0 +1,270 @@
+/**
+ * @ereo/client - Event Sources
+ *
+ * Reads Server-Sent Events streams, such as those returned by `eventStream()`
+ * from `@ereo/data`. Unlike the browser's `EventSource`, requests can carry
+ * headers, data is revived like loader data, and reconnects back off.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { parseData, parseServerSentEvents } from '@ereo/core';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * One event received from a stream.
+ */
+export type EventSourceMessage<TEvents extends Record<string, unknown>> = {
+  [K in keyof TEvents & string]: { event: K; data: TEvents[K]; id?: string };
+}[keyof TEvents & string];
+
+/**
+ * Connection state of an event source.
+ */
+export type EventSourceStatus = 'connecting' | 'open' | 'closed' | 'error';
+
+/**
+ * Reconnect behavior after the stream drops.
+ */
+export interface EventSourceReconnectOptions {
+  /** Reconnect when the stream drops (default: true) */
+  enabled?: boolean;
+  /** Attempts in a row before giving up (default: 10) */
+  maxAttempts?: number;
+  /** First delay in milliseconds, unless the server sent `retry` (default: 1000) */
+  delayMs?: number;
+  /** Maximum delay in milliseconds (default: 30000) */
+  maxDelayMs?: number;
+}
+
+/**
+ * Options for connectEventSource.
+ */
+export interface EventSourceOptions {
+  /** Extra request headers */
+  headers?: Record<string, string>;
+  /** Reconnect behavior */
+  reconnect?: EventSourceReconnectOptions;
+  /** Custom fetch function */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Callbacks of connectEventSource.
+ */
+export interface EventSourceHandlers<TEvents extends Record<string, unknown>> {
+  /** Called for every event */
+  onEvent: (message: EventSourceMessage<TEvents>) => void;
+  /** Called when the status changes */
+  onStatus?: (status: EventSourceStatus) => void;
+  /** Called when a connection fails; `final` when no reconnect follows */
+  onError?: (error: Error, final: boolean) => void;
+}
+
+// ============================================================================
+// Connection
+// ============================================================================
+
+/**
+ * Open an event stream and keep it connected until closed.
+ *
+ * Like `EventSource`, the connection is reopened with `Last-Event-ID` when
+ * the stream ends or drops, and a `204 No Content` response stops it.
+ * Returns a function that closes the connection.
+ */
+export function connectEventSource<TEvents extends Record<string, unknown>>(
+  url: string,
+  handlers: EventSourceHandlers<TEvents>,
+  options: EventSourceOptions = {}
+): () => void {
+  const fetchFn = options.fetch ?? fetch;
+  const reconnect = {
+    enabled: true,
+    maxAttempts: 10,
+    delayMs: 1000,
+    maxDelayMs: 30000,
+    ...options.reconnect,
+  };
+  const controller = new AbortController();
+  let lastEventId: string | undefined;
+  let retryDelay = reconnect.delayMs;
+  let attempts = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const finish = (status: EventSourceStatus) => {
+    if (controller.signal.aborted) return;
+    controller.abort();
+    handlers.onStatus?.(status);
+  };
+
+  const connect = async (): Promise<void> => {
+    handlers.onStatus?.('connecting');
+    let failure: Error | undefined;
+
+    try {
+      const headers: Record<string, string> = { Accept: 'text/event-stream', ...options.headers };
+      if (lastEventId !== undefined) headers['Last-Event-ID'] = lastEventId;
+
+      const response = await fetchFn(url, { headers, signal: controller.signal });
+
+      if (response.status === 204) {
+        finish('closed');
+        return;
+      }
+      if (!response.ok || !response.body) {
+        const error = new Error(`Event stream ${url} failed with status ${response.status}`);
+        // Client errors won't go away by retrying
+        if (response.status >= 400 && response.status < 500) {
+          handlers.onError?.(error, true);
+          finish('error');
+          return;
+        }
+        throw error;
+      }
+
+      handlers.onStatus?.('open');
+      for await (const event of parseServerSentEvents(response.body)) {
+        if (event.retry !== undefined) retryDelay = event.retry;
+        if (event.data === undefined) continue;
+
+        attempts = 0;
+        if (event.id !== undefined) lastEventId = event.id || undefined;
+        handlers.onEvent({
+          event: event.event || 'message',
+          data: parseData(event.data),
+          id: event.id,
+        } as EventSourceMessage<TEvents>);
+      }
+    } catch (error) {
+      failure = error instanceof Error ? error : new Error(String(error));
+    }
+
+    if (controller.signal.aborted) return;
+
+    if (!reconnect.enabled || attempts >= reconnect.maxAttempts) {
+      handlers.onError?.(failure ?? new Error(`Event stream ${url} closed`), true);
+      finish('error');
+      return;
+    }
+    if (failure) handlers.onError?.(failure, false);
+
+    const delay = Math.min(retryDelay * Math.pow(2, attempts), reconnect.maxDelayMs);
+    attempts++;
+    timer = setTimeout(connect, delay);
+  };
+
+  connect();
+
+  return () => {
+    if (timer) clearTimeout(timer);
+    finish('closed');
+  };
+}
+
+// ============================================================================
+// Hook
+// ============================================================================
+
+/**
+ * Options for useEventSource.
+ */
+export interface UseEventSourceOptions<TEvents extends Record<string, unknown>> extends EventSourceOptions {
+  /** Connect only while true (default: true) */
+  enabled?: boolean;
+  /** Called for every event */
+  onEvent?: (message: EventSourceMessage<TEvents>) => void;
+  /** Called when a connection fails */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Result of useEventSource.
+ */
+export interface UseEventSourceResult<TEvents extends Record<string, unknown>> {
+  /** Latest data of each event */
+  data: Partial<TEvents>;
+  /** Most recent event */
+  lastEvent: EventSourceMessage<TEvents> | undefined;
+  /** Connection state */
+  status: EventSourceStatus;
+  /** Last connection error */
+  error: Error | undefined;
+  /** Close the connection */
+  close: () => void;
+  /** Reopen a closed connection */
+  reconnect: () => void;
+}
+
+/**
+ * Subscribe to an event stream while the component is mounted.
+ *
+ * @example
+ * import type { InferEvents } from '@ereo/data';
+ * import type { GET } from './api/prices';
+ *
+ * function Ticker() {
+ *   const { data, status } = useEventSource<InferEvents<typeof GET>>('/api/prices');
+ *   if (status === 'connecting') return <Spinner />;
+ *   return <Price quote={data.price} />;
+ * }
+ */
+export function useEventSource<TEvents extends Record<string, unknown> = { message: unknown }>(
+  url: string | null,
+  options: UseEventSourceOptions<TEvents> = {}
+): UseEventSourceResult<TEvents> {
+  const { enabled = true } = options;
+
+  const [data, setData] = useState<Partial<TEvents>>({});
+  const [lastEvent, setLastEvent] = useState<EventSourceMessage<TEvents> | undefined>(undefined);
+  const [status, setStatus] = useState<EventSourceStatus>(enabled && url ? 'connecting' : 'closed');
+  const [error, setError] = useState<Error | undefined>(undefined);
+  const [generation, setGeneration] = useState(0);
+
+  // Callbacks and options change identity on every render
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const closeRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !url) return;
+
+    const { headers, reconnect, fetch } = optionsRef.current;
+    const close = connectEventSource<TEvents>(
+      url,
+      {
+        onEvent: (message) => {
+          setLastEvent(message);
+          setData((previous) => ({ ...previous, [message.event]: message.data }));
+          setError(undefined);
+          optionsRef.current.onEvent?.(message);
+        },
+        onStatus: setStatus,
+        onError: (err) => {
+          setError(err);
+          optionsRef.current.onError?.(err);
+        },
+      },
+      { headers, reconnect, fetch }
+    );
+    closeRef.current = close;
+
+    return () => {
+      close();
+      closeRef.current = null;
+    };
+  }, [url, enabled, generation]);
+
+  const close = useCallback(() => {
+    closeRef.current?.();
+    closeRef.current = null;
+  }, []);
+
+  const reconnect = useCallback(() => {
+    close();
+    setGeneration((value) => value + 1);
+  }, [close]);
+
+  return { data, lastEvent, status, error, close, reconnect };
+}
@@ -1,4 +1,7 @@
-import { describe, expect, test, beforeEach, mock } from 'bun:test';
+import { describe, expect, test, beforeEach, afterEach, mock } from 'bun:test';
+import { createElement } from 'react';
+import { renderToString } from 'react-dom/server.browser';
+import { useFetcher, useOptimisticData, getPendingSubmissions, type Fetcher } from './form';
 
 // Since form components depend on React and browser APIs,
 // we test the logic separately by reimplementing testable parts
@@ -817,3 +820,97 @@ describe('@ereo/client - Form', () => {
     });
   });
 });
+
+describe('@ereo/client - Optimistic submissions', () => {
+  const originalWindow = globalThis.window;
+  const originalFetch = globalThis.fetch;
+  const originalFormElement = (globalThis as any).HTMLFormElement;
+
+  beforeEach(() => {
+    (globalThis as any).window = {
+      location: { pathname: '/todos', origin: 'http://localhost', href: 'http://localhost/todos' },
+    };
+    (globalThis as any).HTMLFormElement = class {};
+  });
+
+  afterEach(() => {
+    (globalThis as any).window = originalWindow;
+    (globalThis as any).HTMLFormElement = originalFormElement;
+    globalThis.fetch = originalFetch;
+  });
+
+  /** Render a fetcher and return it, so its submit can be called outside React */
+  function renderFetcher(): Fetcher {
+    let fetcher!: Fetcher;
+    function Capture() {
+      fetcher = useFetcher('todo');
+      return null;
+    }
+    renderToString(createElement(Capture));
+    return fetcher;
+  }
+
+  /** Render the optimistic todo list */
+  function renderTodos(todos: string[]): string {
+    function Todos() {
+      const items = useOptimisticData(todos, (current, submission) => {
+        const title = submission.formData.get('title');
+        return typeof title === 'string' ? [...current, title] : current;
+      });
+      return createElement('ul', null, items.join(','));
+    }
+    return renderToString(createElement(Todos));
+  }
+
+  /** Mock fetch with a response the test resolves */
+  function deferredFetch() {
+    let respond!: (response: Response) => void;
+    globalThis.fetch = mock(() => new Promise<Response>((resolve) => { respond = resolve; })) as any;
+    return (response: Response) => respond(response);
+  }
+
+  test('merges a pending fetcher submission into the data', async () => {
+    const respond = deferredFetch();
+    const submitting = renderFetcher().submit({ title: 'Write docs' });
+
+    expect(getPendingSubmissions()).toHaveLength(1);
+    expect(getPendingSubmissions()[0]).toMatchObject({ state: 'submitting', formMethod: 'POST', formAction: '/todos' });
+    expect(renderTodos(['Ship it'])).toContain('Ship it,Write docs');
+
+    respond(new Response(JSON.stringify({ ok: true }), { status: 200 }));
+    await submitting;
+
+    expect(getPendingSubmissions()).toHaveLength(0);
+    expect(renderTodos(['Ship it', 'Write docs'])).toContain('Ship it,Write docs<');
+  });
+
+  test('rolls back when the action fails', async () => {
+    const respond = deferredFetch();
+    const submitting = renderFetcher().submit({ title: 'Invalid' });
+
+    expect(renderTodos([])).toContain('Invalid');
+
+    respond(new Response(JSON.stringify({ error: 'Title taken' }), { status: 400 }));
+    await submitting;
+
+    expect(getPendingSubmissions()).toHaveLength(0);
+    expect(renderTodos([])).not.toContain('Invalid');
+  });
+
+  test('rolls back when the request errors', async () => {
+    globalThis.fetch = mock(() => Promise.reject(new Error('offline'))) as any;
+    await renderFetcher().submit({ title: 'Offline' });
+
+    expect(getPendingSubmissions()).toHaveLength(0);
+  });
+
+  test('does not track GET submissions', async () => {
+    const respond = deferredFetch();
+    const loading = renderFetcher().submit({ q: 'search' }, { method: 'get' });
+
+    expect(getPendingSubmissions()).toHaveLength(0);
+
+    respond(new Response('[]', { status: 200 }));
+    await loading;
+  });
+});
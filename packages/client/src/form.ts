@@ -7,8 +7,13 @@
 
 import { createElement, useCallback, useRef, useState, useEffect, useContext, createContext } from 'react';
 import type { FormHTMLAttributes, ReactNode, FormEvent, RefObject } from 'react';
+import { parseData } from '@ereo/core';
 import { router, submitAction } from './navigation';
 import type { NavigationState } from './navigation';
+import { LoaderDataContext, type LoaderDataContextValue } from './hooks';
+import { MatchesContext, type MatchesContextValue } from './matches';
+import { revalidateCurrentRoute } from './revalidation';
+import { CsrfInput, getCsrfHeaders, isSameOriginUrl } from './csrf';
 
 // ============================================================================
 // Types
@@ -37,8 +42,8 @@ export interface FormProps extends Omit<FormHTMLAttributes<HTMLFormElement>, 'me
   method?: 'get' | 'post' | 'put' | 'patch' | 'delete';
   /** Action URL - defaults to current route */
   action?: string;
-  /** Called when submission starts */
-  onSubmitStart?: () => void;
+  /** Called when submission starts, with the submitted form data */
+  onSubmitStart?: (formData: FormData) => void;
   /** Called when submission completes */
   onSubmitEnd?: (result: ActionResult) => void;
   /** Replace history instead of push */
@@ -78,6 +83,7 @@ export interface FetcherState<T = unknown> {
   state: SubmissionState;
   data?: T;
   error?: Error;
+  /** Form data of the submission in flight; undefined once it settled */
   formData?: FormData;
   formMethod?: string;
   formAction?: string;
@@ -193,6 +199,141 @@ function getFetcherRegistrySnapshot(): FetcherState[] {
   return Array.from(fetcherRegistry.values());
 }
 
+// ============================================================================
+// Pending Submissions (for optimistic UI)
+// ============================================================================
+
+/**
+ * A mutation submitted by Form, useSubmit or a fetcher that has not settled yet.
+ * It stays pending while the action runs ('submitting') and while the loader
+ * data revalidates afterwards ('loading'), and is removed when the action fails.
+ */
+export interface PendingSubmission {
+  /** Submission ID */
+  id: string;
+  /** Fetcher key, or undefined for navigation submissions (Form, useSubmit) */
+  fetcherKey?: string;
+  /** 'submitting' while the action runs, 'loading' while loader data revalidates */
+  state: 'submitting' | 'loading';
+  /** Submitted form data */
+  formData: FormData;
+  /** HTTP method (uppercase) */
+  formMethod: string;
+  /** Action URL */
+  formAction: string;
+}
+
+/** Pending submissions in submission order */
+const pendingSubmissions = new Map<string, PendingSubmission>();
+/** Listeners notified when pending submissions change */
+const submissionListeners = new Set<() => void>();
+
+let submissionIdCounter = 0;
+
+function notifySubmissionListeners(): void {
+  for (const listener of submissionListeners) {
+    listener();
+  }
+}
+
+function addPendingSubmission(submission: Omit<PendingSubmission, 'id' | 'state'>): string {
+  const id = `__submission_${++submissionIdCounter}`;
+  pendingSubmissions.set(id, { ...submission, id, state: 'submitting' });
+  notifySubmissionListeners();
+  return id;
+}
+
+function removePendingSubmission(id: string): void {
+  if (pendingSubmissions.delete(id)) {
+    notifySubmissionListeners();
+  }
+}
+
+/**
+ * Revalidate loader data after a successful action. The submission stays
+ * pending (as 'loading') until the fresh data has replaced the optimistic state.
+ */
+async function revalidateAfterSubmission(
+  id: string,
+  loaderCtx: LoaderDataContextValue | null,
+  matchesCtx: MatchesContextValue | null
+): Promise<void> {
+  const submission = pendingSubmissions.get(id);
+  if (!loaderCtx || !submission) {
+    return;
+  }
+
+  pendingSubmissions.set(id, { ...submission, state: 'loading' });
+  notifySubmissionListeners();
+
+  try {
+    await revalidateCurrentRoute(loaderCtx, matchesCtx);
+  } catch (error) {
+    console.error('Revalidation error:', error);
+  }
+}
+
+/**
+ * Get the pending submissions, oldest first.
+ */
+export function getPendingSubmissions(): PendingSubmission[] {
+  return Array.from(pendingSubmissions.values());
+}
+
+/**
+ * Subscribe to changes of the pending submissions.
+ */
+export function subscribePendingSubmissions(listener: () => void): () => void {
+  submissionListeners.add(listener);
+  return () => {
+    submissionListeners.delete(listener);
+  };
+}
+
+/**
+ * Hook that returns the pending submissions, oldest first.
+ */
+export function usePendingSubmissions(): PendingSubmission[] {
+  const [submissions, setSubmissions] = useState<PendingSubmission[]>(() => getPendingSubmissions());
+
+  useEffect(() => {
+    return subscribePendingSubmissions(() => {
+      setSubmissions(getPendingSubmissions());
+    });
+  }, []);
+
+  return submissions;
+}
+
+/**
+ * Merge pending submissions into data, for optimistic UI.
+ *
+ * The reducer runs for every pending submission, oldest first, and returns the
+ * data as it will look once that submission succeeded. A failed action drops its
+ * submission, which rolls the change back; a successful one stays pending until
+ * the revalidated loader data includes it.
+ *
+ * @example
+ * ```tsx
+ * function Todos() {
+ *   const { todos } = useLoaderData<{ todos: Todo[] }>();
+ *   const optimisticTodos = useOptimisticData(todos, (current, submission) => {
+ *     if (submission.formData.get('intent') !== 'toggle') return current;
+ *     const id = submission.formData.get('id');
+ *     return current.map((todo) => (todo.id === id ? { ...todo, done: !todo.done } : todo));
+ *   });
+ *   return <TodoList todos={optimisticTodos} />;
+ * }
+ * ```
+ */
+export function useOptimisticData<T>(
+  data: T,
+  reducer: (data: T, submission: PendingSubmission) => T
+): T {
+  const submissions = usePendingSubmissions();
+  return submissions.reduce(reducer, data);
+}
+
 // ============================================================================
 // Form Component
 // ============================================================================
@@ -217,6 +358,8 @@ export function Form({
 }: FormProps) {
   const formRef = useRef<HTMLFormElement>(null);
   const formContext = useFormContext();
+  const loaderCtx = useContext(LoaderDataContext);
+  const matchesCtx = useContext(MatchesContext);
 
   // Get the action URL, defaulting to current path
   // In SSR context, use empty string which means "submit to current URL" in HTML
@@ -253,9 +396,11 @@ export function Form({
 
       // Call onSubmitStart callback
       if (onSubmitStart) {
-        onSubmitStart();
+        onSubmitStart(formData);
       }
 
+      let submissionId: string | undefined;
+
       try {
         // Convert FormData based on encType
         let body: FormData | URLSearchParams;
@@ -299,12 +444,20 @@ export function Form({
           return;
         }
 
+        submissionId = addPendingSubmission({
+          fetcherKey,
+          formData,
+          formMethod: method.toUpperCase(),
+          formAction: resolvedAction,
+        });
+
         // Submit the action
         const response = await fetch(resolvedAction, {
           method: method.toUpperCase(),
           body,
           headers: {
             Accept: 'application/json',
+            ...getCsrfHeaders(resolvedAction),
             ...(encType === 'application/x-www-form-urlencoded' && {
               'Content-Type': 'application/x-www-form-urlencoded',
             }),
@@ -318,7 +471,7 @@ export function Form({
 
         // Parse response
         try {
-          const data = await response.json();
+          const data = parseData(await response.text());
           result.data = data;
 
           // Update action data in context
@@ -330,16 +483,22 @@ export function Form({
         }
 
         // Handle navigation if needed
+        let redirected = false;
         if (response.ok && !fetcherKey) {
           // Check for redirect
           const redirectUrl = response.headers.get('X-Redirect-Url');
           if (redirectUrl) {
             await router.navigate(redirectUrl, { replace });
+            redirected = true;
           } else if (!preventScrollReset && typeof window !== 'undefined') {
             window.scrollTo(0, 0);
           }
         }
 
+        if (response.ok && !redirected) {
+          await revalidateAfterSubmission(submissionId, loaderCtx, matchesCtx);
+        }
+
         if (formContext) {
           formContext.setState('idle');
         }
@@ -361,9 +520,13 @@ export function Form({
         if (onSubmitEnd) {
           onSubmitEnd(result);
         }
+      } finally {
+        if (submissionId) {
+          removePendingSubmission(submissionId);
+        }
       }
     },
-    [method, resolvedAction, onSubmitStart, onSubmitEnd, replace, preventScrollReset, encType, fetcherKey, formContext, onSubmit]
+    [method, resolvedAction, onSubmitStart, onSubmitEnd, replace, preventScrollReset, encType, fetcherKey, formContext, loaderCtx, matchesCtx, onSubmit]
   );
 
   // Map method to standard form method for progressive enhancement
@@ -389,6 +552,8 @@ export function Form({
           value: method.toUpperCase(),
         })
       : null,
+    // Actions verify the CSRF token of native form posts; other sites never get it
+    formMethod === 'post' && isSameOriginUrl(resolvedAction) ? createElement(CsrfInput) : null,
     children
   );
 }
@@ -406,6 +571,8 @@ export function useSubmit(): (
   options?: SubmitOptions
 ) => Promise<ActionResult> {
   const formContext = useFormContext();
+  const loaderCtx = useContext(LoaderDataContext);
+  const matchesCtx = useContext(MatchesContext);
 
   const submit = useCallback(
     async (
@@ -451,6 +618,8 @@ export function useSubmit(): (
         formContext.setState('submitting');
       }
 
+      let submissionId: string | undefined;
+
       try {
         // Handle GET method
         if (method.toLowerCase() === 'get') {
@@ -472,6 +641,13 @@ export function useSubmit(): (
           return { status: 200, ok: true };
         }
 
+        submissionId = addPendingSubmission({
+          fetcherKey,
+          formData,
+          formMethod: method.toUpperCase(),
+          formAction: resolvedAction,
+        });
+
         // Convert FormData based on encType
         let body: FormData | URLSearchParams;
         if (encType === 'application/x-www-form-urlencoded') {
@@ -491,6 +667,7 @@ export function useSubmit(): (
           body,
           headers: {
             Accept: 'application/json',
+            ...getCsrfHeaders(resolvedAction),
             ...(encType === 'application/x-www-form-urlencoded' && {
               'Content-Type': 'application/x-www-form-urlencoded',
             }),
@@ -503,7 +680,7 @@ export function useSubmit(): (
         };
 
         try {
-          const data = await response.json();
+          const data = parseData(await response.text());
           result.data = data;
 
           if (formContext) {
@@ -514,15 +691,21 @@ export function useSubmit(): (
         }
 
         // Handle navigation
+        let redirected = false;
         if (response.ok && !fetcherKey) {
           const redirectUrl = response.headers.get('X-Redirect-Url');
           if (redirectUrl) {
             await router.navigate(redirectUrl, { replace });
+            redirected = true;
           } else if (!preventScrollReset) {
             window.scrollTo(0, 0);
           }
         }
 
+        if (response.ok && !redirected) {
+          await revalidateAfterSubmission(submissionId, loaderCtx, matchesCtx);
+        }
+
         if (formContext) {
           formContext.setState('idle');
         }
@@ -540,9 +723,13 @@ export function useSubmit(): (
         }
 
         return result;
+      } finally {
+        if (submissionId) {
+          removePendingSubmission(submissionId);
+        }
       }
     },
-    [formContext]
+    [formContext, loaderCtx, matchesCtx]
   );
 
   return submit;
@@ -563,6 +750,8 @@ export function useFetcher<T = unknown>(key?: string): Fetcher<T> {
   const [formData, setFormData] = useState<FormData | undefined>(undefined);
   const [formMethod, setFormMethod] = useState<string | undefined>(undefined);
   const [formAction, setFormAction] = useState<string | undefined>(undefined);
+  const loaderCtx = useContext(LoaderDataContext);
+  const matchesCtx = useContext(MatchesContext);
 
   // Stable fetcher ID for registry
   const fetcherIdRef = useRef<string>(key || generateFetcherId());
@@ -603,6 +792,15 @@ export function useFetcher<T = unknown>(key?: string): Fetcher<T> {
     }
   }, []);
 
+  // Submissions only expose their form data while in flight
+  const clearSubmission = useCallback(() => {
+    if (mountedRef.current) {
+      setFormData(undefined);
+      setFormMethod(undefined);
+      setFormAction(undefined);
+    }
+  }, []);
+
   const submit = useCallback(
     async (
       target: HTMLFormElement | FormData | URLSearchParams | Record<string, string>,
@@ -643,6 +841,8 @@ export function useFetcher<T = unknown>(key?: string): Fetcher<T> {
       setFormAction(resolvedAction);
       safeSetState('submitting');
 
+      let submissionId: string | undefined;
+
       try {
         // Handle GET method
         if (method.toLowerCase() === 'get') {
@@ -662,16 +862,24 @@ export function useFetcher<T = unknown>(key?: string): Fetcher<T> {
 
           if (mountedRef.current) {
             try {
-              const responseData = await response.json();
+              const responseData = parseData(await response.text());
               setData(responseData as T);
             } catch {
               // Response may not be JSON
             }
+            clearSubmission();
             safeSetState('idle');
           }
           return;
         }
 
+        submissionId = addPendingSubmission({
+          fetcherKey: fetcherIdRef.current,
+          formData: newFormData,
+          formMethod: method.toUpperCase(),
+          formAction: resolvedAction,
+        });
+
         // Convert FormData based on encType
         let body: FormData | URLSearchParams;
         if (encType === 'application/x-www-form-urlencoded') {
@@ -690,6 +898,7 @@ export function useFetcher<T = unknown>(key?: string): Fetcher<T> {
           body,
           headers: {
             Accept: 'application/json',
+            ...getCsrfHeaders(resolvedAction),
             ...(encType === 'application/x-www-form-urlencoded' && {
               'Content-Type': 'application/x-www-form-urlencoded',
             }),
@@ -698,21 +907,33 @@ export function useFetcher<T = unknown>(key?: string): Fetcher<T> {
 
         if (mountedRef.current) {
           try {
-            const responseData = await response.json();
+            const responseData = parseData(await response.text());
             setData(responseData as T);
           } catch {
             // Response may not be JSON
           }
-          safeSetState('idle');
         }
+
+        if (response.ok) {
+          safeSetState('loading');
+          await revalidateAfterSubmission(submissionId, loaderCtx, matchesCtx);
+        }
+
+        clearSubmission();
+        safeSetState('idle');
       } catch (err) {
         if (mountedRef.current) {
           setError(err instanceof Error ? err : new Error(String(err)));
+          clearSubmission();
           safeSetState('error');
         }
+      } finally {
+        if (submissionId) {
+          removePendingSubmission(submissionId);
+        }
       }
     },
-    [safeSetState]
+    [safeSetState, clearSubmission, loaderCtx, matchesCtx]
   );
 
   const load = useCallback(
@@ -733,7 +954,7 @@ export function useFetcher<T = unknown>(key?: string): Fetcher<T> {
 
         if (mountedRef.current) {
           try {
-            const responseData = await response.json();
+            const responseData = parseData(await response.text());
             setData(responseData as T);
           } catch {
             // Response may not be JSON
@@ -756,13 +977,19 @@ export function useFetcher<T = unknown>(key?: string): Fetcher<T> {
       return Form({
         ...formProps,
         fetcherKey: key || 'fetcher',
-        onSubmitStart: () => {
+        onSubmitStart: (submittedFormData) => {
+          if (mountedRef.current) {
+            setFormData(submittedFormData);
+            setFormMethod((formProps.method ?? 'post').toUpperCase());
+            setFormAction(formProps.action ?? window.location.pathname);
+          }
           safeSetState('submitting');
           if (formProps.onSubmitStart) {
-            formProps.onSubmitStart();
+            formProps.onSubmitStart(submittedFormData);
           }
         },
         onSubmitEnd: (result) => {
+          clearSubmission();
           if (mountedRef.current) {
             if (result.ok) {
               setData(result.data as T);
@@ -778,7 +1005,7 @@ export function useFetcher<T = unknown>(key?: string): Fetcher<T> {
         },
       });
     },
-    [key, safeSetState]
+    [key, safeSetState, clearSubmission]
   );
 
   return {
@@ -837,6 +1064,7 @@ export function useNavigation(): FormNavigationState {
   });
 
   const formContext = useFormContext();
+  const submissions = usePendingSubmissions();
 
   useEffect(() => {
     return router.subscribe((event) => {
@@ -844,9 +1072,15 @@ export function useNavigation(): FormNavigationState {
     });
   }, []);
 
+  // Latest navigation submission (Form, useSubmit) still in flight
+  const submission = submissions.filter((s) => s.fetcherKey === undefined).pop();
+
   return {
     ...navigationState,
     state: formContext?.state || 'idle',
+    formData: submission?.formData,
+    formMethod: submission?.formMethod,
+    formAction: submission?.formAction,
   };
 }
 
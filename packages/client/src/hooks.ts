@@ -720,11 +720,11 @@ export interface EreoProviderProps {
  * @example
  * ```tsx
  * // In your entry point
- * import { EreoProvider } from '@ereo/client';
+ * import { EreoProvider, getHydrationData } from '@ereo/client';
  *
  * function App() {
  *   return (
- *     <EreoProvider loaderData={window.__EREO_DATA__}>
+ *     <EreoProvider loaderData={getHydrationData()}>
  *       <Router />
  *     </EreoProvider>
  *   );
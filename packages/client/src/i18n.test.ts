@@ -0,0 +1,83 @@
+import { describe, expect, test } from 'bun:test';
+import { createElement } from 'react';
+import { renderToString } from 'react-dom/server.browser';
+import type { I18nConfig } from '@ereo/core';
+import {
+  I18nProvider,
+  localizeHref,
+  getI18nState,
+  setI18nState,
+  useLocale,
+  useTranslation,
+  useLocalizedHref,
+  type I18nState,
+} from './i18n';
+
+const config: I18nConfig = { locales: ['en', 'fr'], defaultLocale: 'en' };
+
+const state: I18nState = {
+  locale: 'fr',
+  messages: { checkout: { title: 'Panier ({count})' }, home: 'Accueil' },
+  config,
+};
+
+function render(Component: () => string, value: I18nState = state): string {
+  return renderToString(createElement(I18nProvider, { ...value, children: createElement(Component) }));
+}
+
+describe('@ereo/client - i18n', () => {
+  describe('localizeHref', () => {
+    test('adds the locale prefix and keeps the query and hash', () => {
+      expect(localizeHref('/about?tab=1#team', undefined, state)).toBe('/fr/about?tab=1#team');
+    });
+
+    test('switches to another locale', () => {
+      expect(localizeHref('/fr/about', 'en', state)).toBe('/about');
+    });
+
+    test('leaves external and relative URLs alone', () => {
+      expect(localizeHref('https://example.com/about', undefined, state)).toBe('https://example.com/about');
+      expect(localizeHref('//cdn.example.com/a.js', undefined, state)).toBe('//cdn.example.com/a.js');
+      expect(localizeHref('#top', undefined, state)).toBe('#top');
+    });
+
+    test('returns the path unchanged without i18n', () => {
+      expect(localizeHref('/about', 'fr', null)).toBe('/about');
+    });
+  });
+
+  describe('setI18nState', () => {
+    test('is ignored until the config is known', () => {
+      setI18nState({ locale: 'fr', messages: {} });
+      expect(getI18nState()).toBeNull();
+    });
+
+    test('keeps the config across updates', () => {
+      setI18nState(state);
+      setI18nState({ locale: 'en', messages: { home: 'Home' } });
+      expect(getI18nState()).toEqual({ locale: 'en', messages: { home: 'Home' }, config });
+    });
+  });
+
+  describe('hooks', () => {
+    test('useLocale returns the provided locale', () => {
+      expect(render(() => useLocale())).toBe('fr');
+    });
+
+    test('useTranslation translates namespaced keys', () => {
+      const html = render(() => {
+        const { t } = useTranslation('checkout');
+        return t('title', { count: 2 });
+      });
+      expect(html).toBe('Panier (2)');
+    });
+
+    test('useTranslation returns the key of missing messages', () => {
+      expect(render(() => useTranslation().t('missing.key'))).toBe('missing.key');
+    });
+
+    test('useLocalizedHref uses the provided locale state', () => {
+      expect(render(() => useLocalizedHref('/cart'))).toBe('/fr/cart');
+    });
+  });
+});
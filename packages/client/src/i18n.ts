@@ -0,0 +1,181 @@
+/**
+ * @ereo/client - Internationalization
+ *
+ * Locale and translation hooks. The server sends the locale, the messages
+ * of the matched route and the i18n config with the page
+ * (`window.__EREO_I18N__`) and with every navigation response.
+ */
+
+import {
+  createContext,
+  createElement,
+  useCallback,
+  useContext,
+  useMemo,
+  useSyncExternalStore,
+  type Context,
+  type ReactNode,
+} from 'react';
+import type { I18nConfig, Messages } from '@ereo/core';
+import { DEFAULT_LOCALE_COOKIE, localizePath, translate, type TranslationValues } from '@ereo/core';
+
+/**
+ * Locale state of the current page.
+ */
+export interface I18nState {
+  locale: string;
+  messages: Messages;
+  config: I18nConfig;
+}
+
+// ============================================================================
+// Store
+// ============================================================================
+
+let i18nState: I18nState | null | undefined;
+const listeners = new Set<() => void>();
+
+/**
+ * Get the locale state of the current page, or null when i18n is not configured.
+ */
+export function getI18nState(): I18nState | null {
+  if (i18nState === undefined) {
+    i18nState =
+      typeof window !== 'undefined'
+        ? ((window as unknown as { __EREO_I18N__?: I18nState }).__EREO_I18N__ ?? null)
+        : null;
+  }
+  return i18nState;
+}
+
+/**
+ * Update the locale and messages, e.g. from a navigation response.
+ * The config is kept when not given.
+ */
+export function setI18nState(update: Pick<I18nState, 'locale' | 'messages'> & { config?: I18nConfig }): void {
+  const config = update.config ?? getI18nState()?.config;
+  if (!config) return;
+
+  i18nState = { locale: update.locale, messages: update.messages, config };
+  for (const listener of listeners) {
+    listener();
+  }
+}
+
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Build the URL of a path in a locale (default: the current locale).
+ * Returns the path unchanged when i18n is not configured or the URL is not
+ * an absolute path (external URLs, hashes, relative paths).
+ */
+export function localizeHref(to: string, locale?: string, state: I18nState | null = getI18nState()): string {
+  if (!state || !to.startsWith('/') || to.startsWith('//')) {
+    return to;
+  }
+
+  const [, path, rest] = to.match(/^([^?#]*)(.*)$/)!;
+  const host = typeof window !== 'undefined' ? window.location.host : undefined;
+  return localizePath(path, locale ?? state.locale, state.config, host) + rest;
+}
+
+/**
+ * Remember a locale chosen by the user in the locale cookie, so that
+ * unprefixed URLs keep using it.
+ */
+export function rememberLocale(locale: string, state: I18nState | null = getI18nState()): void {
+  if (!state || state.config.cookie === false || typeof document === 'undefined') return;
+
+  const name = state.config.cookie ?? DEFAULT_LOCALE_COOKIE;
+  document.cookie = `${encodeURIComponent(name)}=${encodeURIComponent(locale)}; Path=/; Max-Age=31536000; SameSite=Lax`;
+}
+
+// ============================================================================
+// Provider and Hooks
+// ============================================================================
+
+/**
+ * Context that overrides the page's locale state (used for SSR and tests).
+ */
+export const I18nContext: Context<I18nState | null> = createContext<I18nState | null>(null);
+
+export interface I18nProviderProps extends I18nState {
+  children: ReactNode;
+}
+
+/**
+ * Provide the locale and messages to the tree. The server renders pages
+ * inside it; in the browser, hooks read the page state without it.
+ */
+export function I18nProvider({ locale, messages, config, children }: I18nProviderProps): ReactNode {
+  const value = useMemo(() => ({ locale, messages, config }), [locale, messages, config]);
+  return createElement(I18nContext.Provider, { value }, children);
+}
+
+function useI18nState(): I18nState | null {
+  const provided = useContext(I18nContext);
+  const page = useSyncExternalStore(subscribe, getI18nState, getI18nState);
+  return provided ?? page;
+}
+
+function useRequiredI18nState(hook: string): I18nState {
+  const state = useI18nState();
+  if (!state) {
+    throw new Error(`${hook} requires the i18n config (FrameworkConfig.i18n)`);
+  }
+  return state;
+}
+
+/**
+ * Get the current locale.
+ *
+ * @example
+ * ```tsx
+ * const locale = useLocale(); // 'fr'
+ * const price = new Intl.NumberFormat(locale, { style: 'currency', currency: 'EUR' }).format(9.5);
+ * ```
+ */
+export function useLocale(): string {
+  return useRequiredI18nState('useLocale').locale;
+}
+
+/**
+ * Translate messages of the current route.
+ *
+ * @param namespace - Prefix for every key, e.g. 'checkout'
+ *
+ * @example
+ * ```tsx
+ * // app/routes/checkout.tsx
+ * export const messages = ({ locale }) => import(`./locales/${locale}.json`);
+ *
+ * function Checkout() {
+ *   const { t } = useTranslation('checkout');
+ *   return <h1>{t('title', { count: 3 })}</h1>;
+ * }
+ * ```
+ */
+export function useTranslation(namespace?: string): {
+  t: (key: string, values?: TranslationValues) => string;
+  locale: string;
+} {
+  const { locale, messages } = useRequiredI18nState('useTranslation');
+  const t = useCallback(
+    (key: string, values?: TranslationValues) =>
+      translate(messages, namespace ? `${namespace}.${key}` : key, values),
+    [messages, namespace]
+  );
+  return { t, locale };
+}
+
+/**
+ * Localize a link destination with the current (or the given) locale.
+ * Used by `Link` and `NavLink`.
+ */
+export function useLocalizedHref(to: string, locale?: string): string {
+  const state = useI18nState();
+  return localizeHref(to, locale, state);
+}
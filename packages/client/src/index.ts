@@ -98,6 +98,7 @@ export {
   onNavigate,
   getNavigationState,
   fetchLoaderData,
+  getHydrationData,
   submitAction,
   setupScrollRestoration,
 } from './navigation';
@@ -128,6 +129,34 @@ export type {
   PrefetchStrategy,
 } from './link';
 
+// Internationalization
+export {
+  useLocale,
+  useTranslation,
+  useLocalizedHref,
+  I18nProvider,
+  I18nContext,
+  getI18nState,
+  setI18nState,
+  localizeHref,
+  rememberLocale,
+} from './i18n';
+
+export type { I18nState, I18nProviderProps } from './i18n';
+
+// CSRF Tokens
+export {
+  useCsrfToken,
+  CsrfInput,
+  CsrfProvider,
+  CsrfContext,
+  getCsrfToken,
+  getCsrfHeaders,
+  isSameOriginUrl,
+} from './csrf';
+
+export type { CsrfProviderProps } from './csrf';
+
 // Type-Safe Link Components (compile-time route validation)
 export {
   TypedLink,
@@ -172,6 +201,10 @@ export {
   useSubmit,
   useFetcher,
   useFetchers,
+  usePendingSubmissions,
+  useOptimisticData,
+  getPendingSubmissions,
+  subscribePendingSubmissions,
   useActionData as useFormActionData,
   useNavigation as useFormNavigation,
   serializeFormData,
@@ -189,6 +222,7 @@ export type {
   Fetcher,
   FormContextValue,
   FormNavigationState,
+  PendingSubmission,
 } from './form';
 
 // Revalidation
@@ -309,6 +343,27 @@ export { Await, resolveAwait } from './await';
 
 export type { AwaitProps, DeferredData } from './await';
 
+// Deferred Data Streams (client-side navigation)
+export {
+  DEFERRED_STREAM_CONTENT_TYPE,
+  DEFERRED_STREAM_ACCEPT,
+  readDeferredStream,
+  parseNavigationResponse,
+} from './deferred-stream';
+
+// Event Sources (Server-Sent Events)
+export { useEventSource, connectEventSource } from './event-source';
+
+export type {
+  EventSourceMessage,
+  EventSourceStatus,
+  EventSourceOptions,
+  EventSourceHandlers,
+  EventSourceReconnectOptions,
+  UseEventSourceOptions,
+  UseEventSourceResult,
+} from './event-source';
+
 // Scroll Restoration (React component)
 export { ScrollRestoration, clearScrollPositions } from './scroll-restoration';
 
@@ -135,6 +135,20 @@ describe('@ereo/client - Islands', () => {
       expect(islandRegistry.isHydrated('unknown')).toBe(false);
     });
 
+    test('re-renders hydrated islands with new props', () => {
+      const mockComponent = () => null;
+      const mockElement = new MockElement() as unknown as Element;
+      const rendered: unknown[] = [];
+      const root = { render: (element: any) => rendered.push(element.props), unmount: () => {} };
+
+      islandRegistry.register('update-test', mockComponent, { count: 1 }, 'load', mockElement);
+      islandRegistry.markHydrated('update-test', root as any);
+      islandRegistry.update('update-test', { count: 2 });
+
+      expect(islandRegistry.get('update-test')?.props).toEqual({ count: 2 });
+      expect(rendered).toEqual([{ count: 2 }]);
+    });
+
     test('sets and runs cleanup function', () => {
       const mockComponent = () => null;
       const mockElement = new MockElement() as unknown as Element;
@@ -6,6 +6,7 @@
  */
 
 import { createElement, type ComponentType } from 'react';
+import type { Root } from 'react-dom/client';
 import type { HydrationStrategy } from '@ereo/core';
 import {
   parseHydrationDirective,
@@ -26,6 +27,8 @@ export interface IslandRegistration {
   media?: string;
   element: Element;
   hydrated: boolean;
+  /** React root, once hydrated */
+  root?: Root;
 }
 
 /**
@@ -67,13 +70,25 @@ class IslandRegistry {
   /**
    * Mark an island as hydrated.
    */
-  markHydrated(id: string): void {
+  markHydrated(id: string, root?: Root): void {
     const island = this.islands.get(id);
     if (island) {
       island.hydrated = true;
+      island.root = root;
     }
   }
 
+  /**
+   * Re-render a hydrated island with new props, keeping its state.
+   */
+  update(id: string, props: Record<string, unknown>): void {
+    const island = this.islands.get(id);
+    if (!island) return;
+
+    island.props = props;
+    island.root?.render(createElement(island.component, props));
+  }
+
   /**
    * Check if an island is hydrated.
    */
@@ -192,7 +207,7 @@ export async function hydrateIslands(): Promise<void> {
         try {
           // Hydrate the island
           const root = hydrateRoot(element, createElement(component, props));
-          islandRegistry.markHydrated(islandId);
+          islandRegistry.markHydrated(islandId, root);
 
           // Update cleanup to also unmount the React root
           islandRegistry.setCleanup(islandId, () => {
@@ -7,6 +7,7 @@
 import * as React from 'react';
 import { navigate, router, onNavigate, type NavigationState } from './navigation';
 import { prefetch } from './prefetch';
+import { useLocalizedHref } from './i18n';
 import type { ViewTransitionOptions } from './view-transition';
 
 /**
@@ -34,6 +35,8 @@ export interface LinkProps extends Omit<React.AnchorHTMLAttributes<HTMLAnchorEle
   reloadDocument?: boolean;
   /** Use View Transitions API for this navigation. Pass true or options object. */
   viewTransition?: boolean | ViewTransitionOptions;
+  /** Link to the page in this locale (default: the current locale). Requires i18n config. */
+  locale?: string;
   /** Children elements */
   children?: React.ReactNode;
 }
@@ -91,6 +94,7 @@ function shouldNavigate(event: React.MouseEvent<HTMLAnchorElement>): boolean {
  * <Link to="/about">About</Link>
  * <Link to="/dashboard" prefetch="render">Dashboard</Link>
  * <Link to="/external" reloadDocument>External</Link>
+ * <Link to="/about" locale="fr">Français</Link>
  * ```
  */
 export const Link = React.forwardRef<HTMLAnchorElement, LinkProps>(function Link(
@@ -103,6 +107,7 @@ export const Link = React.forwardRef<HTMLAnchorElement, LinkProps>(function Link
     state,
     reloadDocument = false,
     viewTransition,
+    locale,
     onClick,
     onMouseEnter,
     onFocus,
@@ -116,7 +121,8 @@ export const Link = React.forwardRef<HTMLAnchorElement, LinkProps>(function Link
   const hasPrefetched = React.useRef(false);
 
   // Support both 'to' and 'href' props - 'to' takes precedence
-  const destination = to ?? href ?? '/';
+  // Paths are localized when i18n is configured
+  const destination = useLocalizedHref(to ?? href ?? '/', locale);
 
   // Determine if URL is external
   const isExternal = isExternalUrl(destination);
@@ -153,14 +159,14 @@ export const Link = React.forwardRef<HTMLAnchorElement, LinkProps>(function Link
 
       // Prevent default and navigate
       event.preventDefault();
-      navigate(destination, { replace, state, viewTransition });
+      navigate(destination, { replace, state, viewTransition, locale });
 
       // Handle scroll reset
       if (!preventScrollReset && typeof window !== 'undefined') {
         window.scrollTo(0, 0);
       }
     },
-    [onClick, destination, replace, state, isExternal, reloadDocument, preventScrollReset, viewTransition]
+    [onClick, destination, replace, state, isExternal, reloadDocument, preventScrollReset, viewTransition, locale]
   );
 
   // Handle hover for 'intent' prefetch
@@ -283,7 +289,8 @@ export const NavLink = React.forwardRef<HTMLAnchorElement, NavLinkProps>(functio
   ref
 ) {
   // Support both 'to' and 'href' props - 'to' takes precedence
-  const destination = to ?? href ?? '/';
+  // Compare against the localized path, since the location carries the locale prefix
+  const destination = useLocalizedHref(to ?? href ?? '/', rest.locale);
 
   const [navigationState, setNavigationState] = React.useState<NavigationState>(() => {
     if (typeof window !== 'undefined') {
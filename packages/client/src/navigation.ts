@@ -5,11 +5,15 @@
  */
 
 import type { RouteParams } from '@ereo/core';
+import { parseData, reviveData } from '@ereo/core';
 import {
   startViewTransition,
   areViewTransitionsEnabled,
   type ViewTransitionOptions,
 } from './view-transition';
+import { DEFERRED_STREAM_ACCEPT, parseNavigationResponse } from './deferred-stream';
+import { localizeHref, rememberLocale, setI18nState } from './i18n';
+import { getCsrfHeaders } from './csrf';
 
 /**
  * Navigation state.
@@ -305,12 +309,18 @@ export const router = new ClientRouter();
 
 /**
  * Navigate to a new URL.
+ * With i18n configured, paths are localized with the current locale, or with
+ * `options.locale`, which also becomes the remembered locale.
  */
 export function navigate(
   to: string,
-  options?: { replace?: boolean; state?: unknown; viewTransition?: boolean | ViewTransitionOptions }
+  options?: { replace?: boolean; state?: unknown; viewTransition?: boolean | ViewTransitionOptions; locale?: string }
 ): Promise<void> {
-  return router.navigate(to, options);
+  const { locale, ...navigateOptions } = options ?? {};
+  if (locale) {
+    rememberLocale(locale);
+  }
+  return router.navigate(localizeHref(to, locale), navigateOptions);
 }
 
 /**
@@ -362,9 +372,10 @@ export async function fetchLoaderData<T = unknown>(
     }
   }
 
+  // Deferred values stream in after the rest of the data
   const response = await fetch(url.toString(), {
     headers: {
-      Accept: 'application/json',
+      Accept: DEFERRED_STREAM_ACCEPT,
     },
   });
 
@@ -372,8 +383,37 @@ export async function fetchLoaderData<T = unknown>(
     throw new Error(`Failed to fetch loader data: ${response.status}`);
   }
 
-  const result = await response.json();
-  return result.data as T;
+  const result = await parseNavigationResponse<{ data: T; i18n?: Parameters<typeof setI18nState>[0] }>(response);
+
+  // Messages of the new route, possibly in a new locale
+  if (result.i18n) {
+    setI18nState(result.i18n);
+  }
+  return result.data;
+}
+
+/**
+ * Cached result of reviving the server-embedded data.
+ * Reviving is done once because it rebuilds values in place.
+ */
+let hydrationData: { raw: unknown; value: unknown } | null = null;
+
+/**
+ * Read the loader data embedded by the server (`window.__EREO_DATA__`),
+ * reviving Dates, Maps, Sets and other rich types.
+ */
+export function getHydrationData<T = unknown>(): T | undefined {
+  if (typeof window === 'undefined') {
+    return undefined;
+  }
+  const raw = (window as unknown as { __EREO_DATA__?: unknown }).__EREO_DATA__;
+  if (raw === undefined) {
+    return undefined;
+  }
+  if (hydrationData?.raw !== raw) {
+    hydrationData = { raw, value: reviveData(raw) };
+  }
+  return hydrationData.value as T;
 }
 
 /**
@@ -389,6 +429,7 @@ export async function submitAction<T = unknown>(
     body: formData,
     headers: {
       Accept: 'application/json',
+      ...getCsrfHeaders(pathname),
     },
   });
 
@@ -396,7 +437,7 @@ export async function submitAction<T = unknown>(
     throw new Error(`Action failed: ${response.status}`);
   }
 
-  return response.json();
+  return parseData<T>(await response.text());
 }
 
 /**
@@ -4,6 +4,8 @@
  * Intelligent prefetching for faster navigation.
  */
 
+import { parseData } from '@ereo/core';
+
 /**
  * Prefetch state for a URL.
  */
@@ -127,7 +129,7 @@ export async function prefetch(url: string): Promise<void> {
     });
 
     if (response.ok) {
-      entry.data = await response.json();
+      entry.data = parseData(await response.text());
     } else {
       entry.error = new Error(`Prefetch failed: ${response.status}`);
     }
@@ -18,7 +18,8 @@ import type {
   ShouldRevalidateFunction,
 } from '@ereo/core';
 import { LoaderDataContext, type LoaderDataContextValue } from './hooks';
-import { MatchesContext, type MatchesContextValue } from './matches';
+import { MatchesContext, type MatchesContextValue, type RouteMatchData } from './matches';
+import { DEFERRED_STREAM_ACCEPT, parseNavigationResponse } from './deferred-stream';
 
 /**
  * A matched route with its loaded module, used for revalidation decisions.
@@ -145,6 +146,35 @@ export interface RevalidatorState {
   revalidate: () => Promise<void>;
 }
 
+/**
+ * Fetch fresh loader data for the current URL and update the contexts.
+ * Shared by useRevalidator and the revalidation after form submissions.
+ */
+export async function revalidateCurrentRoute(
+  loaderCtx: LoaderDataContextValue | null,
+  matchesCtx: MatchesContextValue | null
+): Promise<void> {
+  const response = await fetch(window.location.href, {
+    headers: { Accept: DEFERRED_STREAM_ACCEPT },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Revalidation failed: ${response.status}`);
+  }
+
+  const result = await parseNavigationResponse<{ data: unknown; matches?: RouteMatchData[] }>(response);
+
+  // Update loader data context
+  if (loaderCtx) {
+    loaderCtx.setData(result.data);
+  }
+
+  // Update matches context if matches data is returned
+  if (matchesCtx && result.matches) {
+    matchesCtx.setMatches(result.matches);
+  }
+}
+
 /**
  * Hook to manually revalidate the current route's loader data.
  * Fetches fresh data from the server and updates contexts.
@@ -174,25 +204,7 @@ export function useRevalidator(): RevalidatorState {
 
     setState('loading');
     try {
-      const response = await fetch(window.location.href, {
-        headers: { Accept: 'application/json' },
-      });
-
-      if (!response.ok) {
-        throw new Error(`Revalidation failed: ${response.status}`);
-      }
-
-      const result = await response.json();
-
-      // Update loader data context
-      if (loaderCtx) {
-        loaderCtx.setData(result.data);
-      }
-
-      // Update matches context if matches data is returned
-      if (matchesCtx && result.matches) {
-        matchesCtx.setMatches(result.matches);
-      }
+      await revalidateCurrentRoute(loaderCtx, matchesCtx);
     } catch (error) {
       console.error('Revalidation error:', error);
     } finally {
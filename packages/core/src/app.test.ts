@@ -256,6 +256,34 @@ describe('@ereo/core - App', () => {
       expect(matchedPath).toBe('/dashboard');
     });
 
+    test('matches routes without the locale prefix', async () => {
+      const appWithI18n = createApp({
+        config: { i18n: { locales: ['en', 'fr'], defaultLocale: 'en' } },
+      });
+
+      let matchedPath = '';
+      appWithI18n.setRouteMatcher((pathname): RouteMatch | null => {
+        matchedPath = pathname;
+        return null;
+      });
+
+      await appWithI18n.handle(new Request('http://localhost:3000/fr/dashboard'));
+
+      expect(matchedPath).toBe('/dashboard');
+    });
+
+    test('gives request contexts the configured cookie secrets', async () => {
+      const appWithSecrets = createApp({ config: { cookies: { secrets: ['s3cret'] } } });
+      appWithSecrets.middleware(async (_request, context, next) => {
+        await context.cookies!.setSigned('theme', 'dark');
+        return next();
+      });
+
+      const response = await appWithSecrets.handle(new Request('http://localhost:3000/'));
+
+      expect(response.headers.get('Set-Cookie')).toStartWith('theme=dark.');
+    });
+
     test('getPluginRegistry returns registry', () => {
       const registry = app.getPluginRegistry();
 
@@ -17,6 +17,7 @@ import type {
 import { NotFoundError } from './types';
 import { createContext, RequestContext } from './context';
 import { PluginRegistry } from './plugin';
+import { resolveLocale } from './i18n';
 
 /**
  * Default configuration values.
@@ -94,6 +95,8 @@ export class EreoApp implements Application {
       plugins: [...(defaults.plugins || []), ...(overrides.plugins || [])],
       basePath: overrides.basePath ?? defaults.basePath,
       routesDir: overrides.routesDir ?? defaults.routesDir,
+      i18n: overrides.i18n ?? defaults.i18n,
+      cookies: overrides.cookies ?? defaults.cookies,
     };
   }
 
@@ -145,7 +148,7 @@ export class EreoApp implements Application {
    * Handle an incoming request.
    */
   async handle(request: Request): Promise<Response> {
-    const context = createContext(request);
+    const context = createContext(request, { cookieSecrets: this.config.cookies?.secrets });
 
     try {
       // Run through middleware chain
@@ -215,6 +218,13 @@ export class EreoApp implements Application {
       }
     }
 
+    // Remove locale prefix; all locales share the same routes
+    if (this.config.i18n) {
+      const resolution = resolveLocale(new URL(pathname, url.origin), this.config.i18n);
+      context.set('locale', resolution.locale);
+      pathname = resolution.pathname;
+    }
+
     // Match route
     if (!this.routeMatcher) {
       return new Response('Router not configured', { status: 500 });
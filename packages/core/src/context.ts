@@ -6,13 +6,25 @@
  */
 
 import type { AppContext, CacheControl, CacheOptions, CookieJar, CookieSetOptions } from './types';
+import { signCookie, unsignCookie, encryptCookie, decryptCookie } from './cookies';
+import { CSRF_COOKIE, generateCsrfToken, isCsrfToken } from './csrf';
+
+/**
+ * Options for a request context.
+ */
+export interface ContextOptions {
+  /** Secrets for signed and encrypted cookies (see `CookieConfig`) */
+  cookieSecrets?: string[];
+  /** Mark the CSRF token cookie `Secure` (default: for HTTPS requests) */
+  csrfSecure?: boolean;
+}
 
 /**
  * Create a new request context for handling a request.
  * Each request gets its own isolated context.
  */
-export function createContext(request: Request): RequestContext {
-  return new RequestContext(request);
+export function createContext(request: Request, options?: ContextOptions): RequestContext {
+  return new RequestContext(request, options);
 }
 
 /**
@@ -31,8 +43,12 @@ export class RequestContext implements AppContext {
   private cacheTags: string[] = [];
   private cookieMap = new Map<string, string>();
   private setCookieHeaders: string[] = [];
+  private cookieSecrets: string[] | undefined;
+  private csrfSecure: boolean | undefined;
 
-  constructor(request: Request) {
+  constructor(request: Request, options: ContextOptions = {}) {
+    this.cookieSecrets = options.cookieSecrets;
+    this.csrfSecure = options.csrfSecure;
     try {
       this.url = new URL(request.url);
     } catch {
@@ -118,8 +134,48 @@ export class RequestContext implements AppContext {
     has: (name: string): boolean => {
       return this.cookieMap.has(name);
     },
+    setSigned: async (name: string, value: string, options?: CookieSetOptions): Promise<void> => {
+      this.cookies.set(name, await signCookie(name, value, this.requireCookieSecrets()), options);
+    },
+    getSigned: async (name: string): Promise<string | undefined> => {
+      const signed = this.cookieMap.get(name);
+      return signed === undefined ? undefined : unsignCookie(name, signed, this.requireCookieSecrets());
+    },
+    setEncrypted: async (name: string, value: string, options?: CookieSetOptions): Promise<void> => {
+      this.cookies.set(name, await encryptCookie(name, value, this.requireCookieSecrets()), options);
+    },
+    getEncrypted: async (name: string): Promise<string | undefined> => {
+      const encrypted = this.cookieMap.get(name);
+      return encrypted === undefined ? undefined : decryptCookie(name, encrypted, this.requireCookieSecrets());
+    },
   };
 
+  private requireCookieSecrets(): string[] {
+    if (!this.cookieSecrets?.length) {
+      throw new Error('Signed and encrypted cookies require secrets. Set `cookies.secrets` in ereo.config.ts.');
+    }
+    return this.cookieSecrets;
+  }
+
+  /**
+   * Get the CSRF token of the visitor. The token cookie is issued on first
+   * use and is readable by page scripts, which send it back with actions.
+   */
+  csrfToken(): string {
+    const existing = this.cookieMap.get(CSRF_COOKIE);
+    if (isCsrfToken(existing)) {
+      return existing;
+    }
+
+    const token = generateCsrfToken();
+    this.cookies.set(CSRF_COOKIE, token, {
+      httpOnly: false,
+      sameSite: 'Lax',
+      secure: this.csrfSecure ?? this.url.protocol === 'https:',
+    });
+    return token;
+  }
+
   /**
    * Get a value from the context store.
    * Useful for sharing data between middleware and loaders.
@@ -0,0 +1,120 @@
+import { describe, expect, test } from 'bun:test';
+import { signCookie, unsignCookie, encryptCookie, decryptCookie } from './cookies';
+import { createContext } from './context';
+
+const secrets = ['new-secret', 'old-secret'];
+
+function cookieValue(setCookie: string): string {
+  return decodeURIComponent(setCookie.slice(setCookie.indexOf('=') + 1, setCookie.indexOf(';')));
+}
+
+describe('@ereo/core - Cookies', () => {
+  describe('signCookie / unsignCookie', () => {
+    test('round-trips a value', async () => {
+      const signed = await signCookie('theme', 'dark', secrets);
+
+      expect(signed.startsWith('dark.')).toBe(true);
+      expect(await unsignCookie('theme', signed, secrets)).toBe('dark');
+    });
+
+    test('rejects tampered values and signatures', async () => {
+      const signed = await signCookie('role', 'user', secrets);
+
+      expect(await unsignCookie('role', signed.replace('user', 'admin'), secrets)).toBeUndefined();
+      expect(await unsignCookie('role', signed.slice(0, -2), secrets)).toBeUndefined();
+      expect(await unsignCookie('role', 'user', secrets)).toBeUndefined();
+    });
+
+    test('binds the signature to the cookie name', async () => {
+      const signed = await signCookie('a', 'value', secrets);
+      expect(await unsignCookie('b', signed, secrets)).toBeUndefined();
+    });
+
+    test('verifies values signed with an older secret', async () => {
+      const signed = await signCookie('theme', 'dark', ['old-secret']);
+
+      expect(await unsignCookie('theme', signed, secrets)).toBe('dark');
+      expect(await unsignCookie('theme', signed, ['new-secret'])).toBeUndefined();
+    });
+
+    test('requires secrets', async () => {
+      await expect(signCookie('theme', 'dark', [])).rejects.toThrow('non-empty');
+    });
+  });
+
+  describe('encryptCookie / decryptCookie', () => {
+    test('round-trips a value without exposing it', async () => {
+      const encrypted = await encryptCookie('data', 'secret value', secrets);
+
+      expect(encrypted).not.toContain('secret value');
+      expect(await decryptCookie('data', encrypted, secrets)).toBe('secret value');
+    });
+
+    test('uses a fresh IV for every value', async () => {
+      const a = await encryptCookie('data', 'same', secrets);
+      const b = await encryptCookie('data', 'same', secrets);
+      expect(a).not.toBe(b);
+    });
+
+    test('rejects tampered values, other names and unknown secrets', async () => {
+      const encrypted = await encryptCookie('data', 'value', secrets);
+      const tampered = encrypted[20] === 'A' ? 'B' : 'A';
+
+      expect(await decryptCookie('data', encrypted.slice(0, 20) + tampered + encrypted.slice(21), secrets)).toBeUndefined();
+      expect(await decryptCookie('other', encrypted, secrets)).toBeUndefined();
+      expect(await decryptCookie('data', encrypted, ['unknown'])).toBeUndefined();
+      expect(await decryptCookie('data', 'not base64!', secrets)).toBeUndefined();
+    });
+
+    test('decrypts values encrypted with an older secret', async () => {
+      const encrypted = await encryptCookie('data', 'value', ['old-secret']);
+      expect(await decryptCookie('data', encrypted, secrets)).toBe('value');
+    });
+  });
+
+  describe('CookieJar', () => {
+    test('setSigned and getSigned', async () => {
+      const context = createContext(new Request('http://localhost/'), { cookieSecrets: secrets });
+      await context.cookies.setSigned('theme', 'dark', { maxAge: 60 });
+
+      const setCookie = context.applyToResponse(new Response()).headers.get('Set-Cookie')!;
+      expect(setCookie).toContain('Max-Age=60');
+
+      const next = createContext(
+        new Request('http://localhost/', { headers: { Cookie: `theme=${encodeURIComponent(cookieValue(setCookie))}` } }),
+        { cookieSecrets: secrets }
+      );
+      expect(await next.cookies.getSigned('theme')).toBe('dark');
+    });
+
+    test('setEncrypted and getEncrypted', async () => {
+      const context = createContext(new Request('http://localhost/'), { cookieSecrets: secrets });
+      await context.cookies.setEncrypted('token', 'abc');
+
+      const setCookie = context.applyToResponse(new Response()).headers.get('Set-Cookie')!;
+      expect(setCookie).not.toContain('abc');
+
+      const next = createContext(
+        new Request('http://localhost/', { headers: { Cookie: `token=${cookieValue(setCookie)}` } }),
+        { cookieSecrets: secrets }
+      );
+      expect(await next.cookies.getEncrypted('token')).toBe('abc');
+    });
+
+    test('returns undefined for unsigned or missing cookies', async () => {
+      const context = createContext(
+        new Request('http://localhost/', { headers: { Cookie: 'theme=dark' } }),
+        { cookieSecrets: secrets }
+      );
+
+      expect(await context.cookies.getSigned('theme')).toBeUndefined();
+      expect(await context.cookies.getEncrypted('theme')).toBeUndefined();
+      expect(await context.cookies.getSigned('missing')).toBeUndefined();
+    });
+
+    test('throws when no secrets are configured', async () => {
+      const context = createContext(new Request('http://localhost/'));
+      await expect(context.cookies.setSigned('theme', 'dark')).rejects.toThrow('cookies.secrets');
+    });
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * @ereo/core - Cookie Signing and Encryption
+ *
+ * WebCrypto helpers behind `cookies.setSigned` and `cookies.setEncrypted`.
+ * Values are signed with HMAC-SHA256 or encrypted with AES-256-GCM, bound
+ * to the cookie name. Secrets are a rotation list: the first secret signs
+ * and encrypts, every secret is tried when reading.
+ */
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/** AES-GCM initialization vector length in bytes */
+const IV_LENGTH = 12;
+
+const hmacKeys = new Map<string, Promise<CryptoKey>>();
+const aesKeys = new Map<string, Promise<CryptoKey>>();
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> | null {
+  try {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  } catch {
+    return null;
+  }
+}
+
+function assertSecrets(secrets: string[]): void {
+  if (secrets.length === 0 || secrets.some((secret) => !secret)) {
+    throw new Error('Cookie secrets must be a non-empty list of non-empty strings');
+  }
+}
+
+function getHmacKey(secret: string): Promise<CryptoKey> {
+  let key = hmacKeys.get(secret);
+  if (!key) {
+    key = crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [
+      'sign',
+      'verify',
+    ]);
+    hmacKeys.set(secret, key);
+  }
+  return key;
+}
+
+function getAesKey(secret: string): Promise<CryptoKey> {
+  let key = aesKeys.get(secret);
+  if (!key) {
+    // Derive a separate key so a secret is never used for both HMAC and AES
+    key = crypto.subtle
+      .importKey('raw', encoder.encode(secret), 'HKDF', false, ['deriveKey'])
+      .then((material) =>
+        crypto.subtle.deriveKey(
+          { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: encoder.encode('ereo-cookie-encryption') },
+          material,
+          { name: 'AES-GCM', length: 256 },
+          false,
+          ['encrypt', 'decrypt']
+        )
+      );
+    aesKeys.set(secret, key);
+  }
+  return key;
+}
+
+/**
+ * Sign a cookie value. Returns `value.signature`.
+ *
+ * @param secrets - Rotation list; the first secret signs
+ */
+export async function signCookie(name: string, value: string, secrets: string[]): Promise<string> {
+  assertSecrets(secrets);
+  const key = await getHmacKey(secrets[0]);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${name}=${value}`));
+  return `${value}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verify a signed cookie value against every secret.
+ * Returns the original value, or undefined if no secret verifies it.
+ */
+export async function unsignCookie(name: string, signed: string, secrets: string[]): Promise<string | undefined> {
+  assertSecrets(secrets);
+  const dot = signed.lastIndexOf('.');
+  if (dot === -1) return undefined;
+
+  const value = signed.slice(0, dot);
+  const signature = fromBase64Url(signed.slice(dot + 1));
+  if (!signature) return undefined;
+
+  const data = encoder.encode(`${name}=${value}`);
+  for (const secret of secrets) {
+    // verify() compares in constant time
+    if (await crypto.subtle.verify('HMAC', await getHmacKey(secret), signature, data)) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Encrypt a cookie value. The result is opaque to the client and
+ * cannot be moved to a cookie with another name.
+ *
+ * @param secrets - Rotation list; the first secret encrypts
+ */
+export async function encryptCookie(name: string, value: string, secrets: string[]): Promise<string> {
+  assertSecrets(secrets);
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(name) },
+    await getAesKey(secrets[0]),
+    encoder.encode(value)
+  );
+
+  const payload = new Uint8Array(IV_LENGTH + ciphertext.byteLength);
+  payload.set(iv);
+  payload.set(new Uint8Array(ciphertext), IV_LENGTH);
+  return toBase64Url(payload);
+}
+
+/**
+ * Decrypt a cookie value with every secret.
+ * Returns the original value, or undefined if it was tampered with or no secret decrypts it.
+ */
+export async function decryptCookie(name: string, encrypted: string, secrets: string[]): Promise<string | undefined> {
+  assertSecrets(secrets);
+  const payload = fromBase64Url(encrypted);
+  if (!payload || payload.length <= IV_LENGTH) return undefined;
+
+  const iv = payload.slice(0, IV_LENGTH);
+  const ciphertext = payload.slice(IV_LENGTH);
+  for (const secret of secrets) {
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv, additionalData: encoder.encode(name) },
+        await getAesKey(secret),
+        ciphertext
+      );
+      return decoder.decode(plaintext);
+    } catch {
+      // Wrong secret or tampered value; try the next secret
+    }
+  }
+  return undefined;
+}
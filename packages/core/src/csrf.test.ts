@@ -0,0 +1,65 @@
+import { describe, expect, test } from 'bun:test';
+import { CSRF_COOKIE, generateCsrfToken, isCsrfToken, verifyCsrfToken } from './csrf';
+import { createContext } from './context';
+
+describe('@ereo/core - CSRF tokens', () => {
+  test('generates distinct url-safe tokens', () => {
+    const first = generateCsrfToken();
+    const second = generateCsrfToken();
+
+    expect(isCsrfToken(first)).toBe(true);
+    expect(first).not.toBe(second);
+  });
+
+  test('verifies matching tokens only', () => {
+    const token = generateCsrfToken();
+
+    expect(verifyCsrfToken(token, token)).toBe(true);
+    expect(verifyCsrfToken(token, generateCsrfToken())).toBe(false);
+    expect(verifyCsrfToken(token, null)).toBe(false);
+    expect(verifyCsrfToken(undefined, token)).toBe(false);
+    expect(verifyCsrfToken('short', 'short')).toBe(false);
+  });
+
+  describe('context.csrfToken', () => {
+    test('issues a script-readable cookie once per request', () => {
+      const context = createContext(new Request('https://example.com/'));
+      const token = context.csrfToken();
+
+      expect(context.csrfToken()).toBe(token);
+      const cookies = context.applyToResponse(new Response()).headers.getSetCookie();
+      expect(cookies).toHaveLength(1);
+      expect(cookies[0]).toBe(`${CSRF_COOKIE}=${token}; Path=/; Secure; SameSite=Lax`);
+    });
+
+    test('marks the cookie Secure as configured', () => {
+      const issue = (url: string, csrfSecure?: boolean) => {
+        const context = createContext(new Request(url), { csrfSecure });
+        context.csrfToken();
+        return context.applyToResponse(new Response()).headers.getSetCookie()[0];
+      };
+
+      expect(issue('http://localhost/')).not.toContain('Secure');
+      expect(issue('http://localhost/', true)).toContain('; Secure');
+      expect(issue('https://example.com/', false)).not.toContain('Secure');
+    });
+
+    test('reuses the token from the request cookie', () => {
+      const token = generateCsrfToken();
+      const context = createContext(
+        new Request('http://localhost/', { headers: { Cookie: `${CSRF_COOKIE}=${token}` } })
+      );
+
+      expect(context.csrfToken()).toBe(token);
+      expect(context.applyToResponse(new Response()).headers.getSetCookie()).toEqual([]);
+    });
+
+    test('replaces malformed tokens', () => {
+      const context = createContext(
+        new Request('http://localhost/', { headers: { Cookie: `${CSRF_COOKIE}=forged` } })
+      );
+
+      expect(isCsrfToken(context.csrfToken())).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * @ereo/core - CSRF Tokens
+ *
+ * Double-submit tokens shared by the server and the client. The token is
+ * kept in a cookie that page scripts can read; forms send it back in a
+ * hidden field or a header, and the server checks that both match.
+ */
+
+/** Cookie holding the visitor's token */
+export const CSRF_COOKIE = 'ereo-csrf';
+
+/** Form field carrying the token in form posts */
+export const CSRF_FIELD = '_csrf';
+
+/** Header carrying the token in fetch submissions */
+export const CSRF_HEADER = 'X-CSRF-Token';
+
+/** 32 random bytes, base64url-encoded */
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+
+/**
+ * Create a new random token.
+ */
+export function generateCsrfToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Check that a value has the shape of a token issued by generateCsrfToken.
+ */
+export function isCsrfToken(value: unknown): value is string {
+  return typeof value === 'string' && TOKEN_PATTERN.test(value);
+}
+
+/**
+ * Compare the cookie token with the submitted one in constant time.
+ */
+export function verifyCsrfToken(expected: string | undefined, actual: string | null | undefined): boolean {
+  if (!isCsrfToken(expected) || typeof actual !== 'string' || actual.length !== expected.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ actual.charCodeAt(i);
+  }
+  return diff === 0;
+}
@@ -0,0 +1,85 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  parseLocalePath,
+  localizePath,
+  parseAcceptLanguage,
+  matchLocale,
+  resolveLocale,
+  getLocaleAlternates,
+  getRequestLocale,
+  translate,
+} from './i18n';
+import { createContext } from './context';
+import type { I18nConfig } from './types';
+
+const config: I18nConfig = { locales: ['en', 'fr', 'pt-BR'], defaultLocale: 'en' };
+
+describe('@ereo/core - Internationalization', () => {
+  test('parses locale prefixes', () => {
+    expect(parseLocalePath('/fr/about', config)).toEqual({ locale: 'fr', pathname: '/about' });
+    expect(parseLocalePath('/pt-br', config)).toEqual({ locale: 'pt-BR', pathname: '/' });
+    expect(parseLocalePath('/french/about', config)).toEqual({ locale: null, pathname: '/french/about' });
+  });
+
+  test('localizes paths with the except-default strategy', () => {
+    expect(localizePath('/about', 'fr', config)).toBe('/fr/about');
+    expect(localizePath('/fr/about', 'en', config)).toBe('/about');
+    expect(localizePath('/', 'fr', config)).toBe('/fr');
+  });
+
+  test('localizes paths with the always strategy', () => {
+    const always: I18nConfig = { ...config, prefix: 'always' };
+    expect(localizePath('/about', 'en', always)).toBe('/en/about');
+    expect(localizePath('/en/about', 'fr', always)).toBe('/fr/about');
+  });
+
+  test('localizes paths to locale domains', () => {
+    const domains: I18nConfig = { ...config, domains: [{ domain: 'example.fr', locale: 'fr' }] };
+    expect(localizePath('/about', 'fr', domains, 'example.com')).toBe('https://example.fr/about');
+    expect(localizePath('/about', 'fr', domains, 'example.fr')).toBe('/about');
+    expect(localizePath('/about', 'en', domains, 'example.fr')).toBe('/en/about');
+  });
+
+  test('parses Accept-Language by quality', () => {
+    expect(parseAcceptLanguage('en;q=0.8, fr-CH, fr;q=0.9, *;q=0.5, de;q=0')).toEqual(['fr-CH', 'fr', 'en']);
+    expect(parseAcceptLanguage(null)).toEqual([]);
+  });
+
+  test('matches locales by tag, then by language', () => {
+    expect(matchLocale(['fr-CA', 'en'], config.locales)).toBe('fr');
+    expect(matchLocale(['pt'], config.locales)).toBe('pt-BR');
+    expect(matchLocale(['de'], config.locales)).toBeNull();
+  });
+
+  test('resolves the locale of a URL', () => {
+    const domains: I18nConfig = { ...config, domains: [{ domain: 'example.fr', locale: 'fr' }] };
+    expect(resolveLocale(new URL('http://example.com/fr/a'), config)).toEqual({ locale: 'fr', pathname: '/a', source: 'path' });
+    expect(resolveLocale(new URL('http://example.fr/a'), domains)).toEqual({ locale: 'fr', pathname: '/a', source: 'domain' });
+    expect(resolveLocale(new URL('http://example.com/a'), config)).toEqual({ locale: 'en', pathname: '/a', source: 'default' });
+  });
+
+  test('builds hreflang alternates', () => {
+    expect(getLocaleAlternates('/fr/about', config, 'https://example.com')).toEqual([
+      { rel: 'alternate', hreflang: 'en', href: 'https://example.com/about' },
+      { rel: 'alternate', hreflang: 'fr', href: 'https://example.com/fr/about' },
+      { rel: 'alternate', hreflang: 'pt-BR', href: 'https://example.com/pt-BR/about' },
+      { rel: 'alternate', hreflang: 'x-default', href: 'https://example.com/about' },
+    ]);
+  });
+
+  test('reads the request locale from context', () => {
+    const context = createContext(new Request('http://localhost/'));
+    expect(getRequestLocale(context)).toBeUndefined();
+    context.set('locale', 'fr');
+    expect(getRequestLocale(context)).toBe('fr');
+  });
+
+  test('translates nested keys with placeholders', () => {
+    const messages = { cart: { items: '{count} items for {name}' }, title: 'Shop' };
+    expect(translate(messages, 'title')).toBe('Shop');
+    expect(translate(messages, 'cart.items', { count: 3, name: 'Ada' })).toBe('3 items for Ada');
+    expect(translate(messages, 'cart.items', { count: 3 })).toBe('3 items for {name}');
+    expect(translate(messages, 'cart.missing')).toBe('cart.missing');
+    expect(translate(messages, 'cart')).toBe('cart');
+  });
+});
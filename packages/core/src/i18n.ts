@@ -0,0 +1,178 @@
+/**
+ * @ereo/core - Internationalization
+ *
+ * Locale resolution and URL helpers shared by the server and the client:
+ * locale prefixes (`/fr/about`), locale domains, `Accept-Language`
+ * negotiation, `hreflang` alternates and message lookup.
+ */
+
+import type { AppContext, I18nConfig, LinkDescriptor, Messages } from './types';
+
+/**
+ * The locale of a URL and its path without the locale prefix.
+ */
+export interface LocaleResolution {
+  locale: string;
+  /** Path without the locale prefix, e.g. `/about` for `/fr/about` */
+  pathname: string;
+  /** Where the locale came from. 'default' means the URL names no locale. */
+  source: 'path' | 'domain' | 'default';
+}
+
+/** Default name of the cookie that remembers the chosen locale */
+export const DEFAULT_LOCALE_COOKIE = 'ereo-locale';
+
+/** Values interpolated into `{name}` placeholders */
+export type TranslationValues = Record<string, string | number>;
+
+/**
+ * Split a locale prefix off a path.
+ *
+ * @example
+ * parseLocalePath('/fr/about', config); // { locale: 'fr', pathname: '/about' }
+ * parseLocalePath('/about', config);    // { locale: null, pathname: '/about' }
+ */
+export function parseLocalePath(
+  pathname: string,
+  config: I18nConfig
+): { locale: string | null; pathname: string } {
+  const segment = pathname.split('/')[1] ?? '';
+  const locale = config.locales.find((l) => l.toLowerCase() === segment.toLowerCase());
+  if (!locale) {
+    return { locale: null, pathname };
+  }
+  return { locale, pathname: pathname.slice(segment.length + 1) || '/' };
+}
+
+/** The locale served without a prefix on a host, if any */
+function unprefixedLocale(config: I18nConfig, host?: string): string | null {
+  const domainLocale = host ? config.domains?.find((d) => d.domain === host)?.locale : undefined;
+  if (domainLocale) return domainLocale;
+  return config.prefix === 'always' ? null : config.defaultLocale;
+}
+
+/**
+ * Build the URL of a path in a locale. An existing locale prefix is replaced.
+ * Returns an absolute URL when the locale is served from another domain.
+ *
+ * @example
+ * localizePath('/about', 'fr', config);    // '/fr/about'
+ * localizePath('/fr/about', 'en', config); // '/about' (default locale, 'except-default')
+ */
+export function localizePath(pathname: string, locale: string, config: I18nConfig, host?: string): string {
+  const path = parseLocalePath(pathname, config).pathname;
+
+  const domain = config.domains?.find((d) => d.locale === locale);
+  if (domain && domain.domain !== host) {
+    return `https://${domain.domain}${path}`;
+  }
+
+  if (locale === unprefixedLocale(config, host)) {
+    return path;
+  }
+  return `/${locale}${path === '/' ? '' : path}`;
+}
+
+/**
+ * Parse an `Accept-Language` header into language tags, most preferred first.
+ *
+ * @example
+ * parseAcceptLanguage('fr-CH, fr;q=0.9, en;q=0.8'); // ['fr-CH', 'fr', 'en']
+ */
+export function parseAcceptLanguage(header: string | null | undefined): string[] {
+  if (!header) return [];
+
+  return header
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(';');
+      const q = params.find((p) => p.trim().startsWith('q='));
+      return { tag: tag.trim(), quality: q ? parseFloat(q.trim().slice(2)) : 1, index };
+    })
+    .filter(({ tag, quality }) => tag && tag !== '*' && quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map(({ tag }) => tag);
+}
+
+/**
+ * Pick the supported locale that best matches the requested ones.
+ * Falls back from a region to its language (`fr-CA` matches `fr`) and
+ * from a language to one of its regions (`pt` matches `pt-BR`).
+ */
+export function matchLocale(requested: string[], locales: string[]): string | null {
+  const language = (tag: string) => tag.split('-')[0].toLowerCase();
+
+  for (const tag of requested) {
+    const exact = locales.find((l) => l.toLowerCase() === tag.toLowerCase());
+    if (exact) return exact;
+
+    const sameLanguage = locales.find((l) => language(l) === language(tag));
+    if (sameLanguage) return sameLanguage;
+  }
+  return null;
+}
+
+/**
+ * Resolve the locale of a request URL from its path prefix or domain.
+ */
+export function resolveLocale(url: URL, config: I18nConfig): LocaleResolution {
+  const { locale, pathname } = parseLocalePath(url.pathname, config);
+  if (locale) {
+    return { locale, pathname, source: 'path' };
+  }
+
+  const domainLocale = config.domains?.find((d) => d.domain === url.host)?.locale;
+  if (domainLocale) {
+    return { locale: domainLocale, pathname, source: 'domain' };
+  }
+
+  return { locale: config.defaultLocale, pathname, source: 'default' };
+}
+
+/**
+ * Build `hreflang` alternate links for a page in every locale,
+ * plus an `x-default` link to the default locale.
+ *
+ * @param pathname - Page path, with or without a locale prefix
+ * @param origin - Origin of the current request, e.g. `https://example.com`
+ */
+export function getLocaleAlternates(pathname: string, config: I18nConfig, origin: string): LinkDescriptor[] {
+  const host = new URL(origin).host;
+  const href = (locale: string) => new URL(localizePath(pathname, locale, config, host), origin).href;
+
+  return [
+    ...config.locales.map((locale) => ({ rel: 'alternate', hreflang: locale, href: href(locale) })),
+    { rel: 'alternate', hreflang: 'x-default', href: href(config.defaultLocale) },
+  ];
+}
+
+/**
+ * Get the locale of the current request, set by the server's locale detection.
+ */
+export function getRequestLocale(context: Pick<AppContext, 'get'>): string | undefined {
+  return context.get<string>('locale');
+}
+
+/**
+ * Look up a message by dot-separated key and fill in `{name}` placeholders.
+ * Missing messages return the key.
+ *
+ * @example
+ * translate({ cart: { items: '{count} items' } }, 'cart.items', { count: 3 }); // '3 items'
+ */
+export function translate(messages: Messages, key: string, values?: TranslationValues): string {
+  let message: string | Messages | undefined = messages;
+  for (const part of key.split('.')) {
+    message = typeof message === 'object' ? message[part] : undefined;
+  }
+
+  if (typeof message !== 'string') {
+    return key;
+  }
+  if (!values) {
+    return message;
+  }
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in values ? String(values[name]) : placeholder
+  );
+}
@@ -17,6 +17,42 @@ export {
   getContext,
 } from './context';
 
+export type { ContextOptions } from './context';
+
+// Signed and Encrypted Cookies
+export { signCookie, unsignCookie, encryptCookie, decryptCookie } from './cookies';
+
+// CSRF Tokens
+export {
+  CSRF_COOKIE,
+  CSRF_FIELD,
+  CSRF_HEADER,
+  generateCsrfToken,
+  isCsrfToken,
+  verifyCsrfToken,
+} from './csrf';
+
+// Sessions
+export {
+  createSessionStorage,
+  createSession,
+  generateSessionId,
+  createCookieSessionBackend,
+  createMemorySessionBackend,
+  createCacheSessionBackend,
+} from './session';
+
+export type {
+  Session,
+  SessionData,
+  SessionStorage,
+  SessionStorageOptions,
+  SessionStorageBackend,
+  SessionCookieOptions,
+  MemorySessionBackendOptions,
+  CacheSessionBackendOptions,
+} from './session';
+
 // Plugin System
 export {
   PluginRegistry,
@@ -69,6 +105,60 @@ export type {
   EnvTypes,
 } from './env';
 
+// Data Serialization
+export {
+  serializeData,
+  serializeDataAsync,
+  parseData,
+  reviveData,
+  encodeData,
+  encodeDataAsync,
+  decodeData,
+  registerSerializer,
+  unregisterSerializer,
+} from './serialize';
+
+export type {
+  Serializer,
+  SerializedPayload,
+  SerializableTypes,
+  Revived,
+} from './serialize';
+
+// Trace Context Propagation
+export {
+  setTraceHeadersProvider,
+  getTraceHeaders,
+  applyTraceHeaders,
+} from './trace-context';
+
+export type { TraceHeadersProvider } from './trace-context';
+
+// Server-Sent Events
+export {
+  EVENT_STREAM_HEADERS,
+  formatServerSentEvent,
+  createEventStream,
+  parseServerSentEvents,
+} from './sse';
+
+export type { ServerSentEvent, EventStreamOptions } from './sse';
+
+// Internationalization
+export {
+  DEFAULT_LOCALE_COOKIE,
+  parseLocalePath,
+  localizePath,
+  parseAcceptLanguage,
+  matchLocale,
+  resolveLocale,
+  getLocaleAlternates,
+  getRequestLocale,
+  translate,
+} from './i18n';
+
+export type { LocaleResolution, TranslationValues } from './i18n';
+
 // Not Found Helper (value export)
 export { notFound, NotFoundError } from './types';
 
@@ -80,6 +170,11 @@ export type {
   BuildConfig,
   FrameworkConfig,
 
+  // Internationalization
+  I18nConfig,
+  Messages,
+  RouteMessagesFunction,
+
   // Route-Level Configuration (NEW)
   MiddlewareReference,
   RenderMode,
@@ -125,6 +220,8 @@ export type {
 
   // Method Handlers (API Routes)
   MethodHandlerFunction,
+  OpenAPIOperationConfig,
+  RouteOpenAPI,
 
   // Route Guards
   BeforeLoadFunction,
@@ -173,6 +270,8 @@ export type {
   // Cookies
   CookieSetOptions,
   CookieJar,
+  CookieConfig,
+  CsrfConfig,
 
   // Context
   AppContext,
@@ -0,0 +1,178 @@
+import { describe, expect, test, afterEach } from 'bun:test';
+import {
+  serializeData,
+  serializeDataAsync,
+  parseData,
+  reviveData,
+  encodeData,
+  registerSerializer,
+  unregisterSerializer,
+  type Revived,
+} from './serialize';
+
+class Money {
+  constructor(
+    public amount: bigint,
+    public currency: string
+  ) {}
+}
+
+describe('@ereo/core - Data Serialization', () => {
+  afterEach(() => {
+    unregisterSerializer('Money');
+  });
+
+  test('round-trips rich built-in types', () => {
+    const value = {
+      createdAt: new Date('2024-01-02T03:04:05.000Z'),
+      tags: new Set(['a', 'b']),
+      byId: new Map<number, { seen: Date }>([[1, { seen: new Date(0) }]]),
+      views: 12345678901234567890n,
+      list: [1, undefined, 3],
+      ratio: NaN,
+      limit: Infinity,
+      zero: -0,
+      pattern: /ab+c/gi,
+      link: new URL('https://example.com/a?b=1'),
+      failure: new TypeError('nope'),
+    };
+
+    const parsed = parseData<typeof value>(serializeData(value));
+
+    expect(parsed.createdAt).toEqual(value.createdAt);
+    expect(parsed.tags).toEqual(value.tags);
+    expect(parsed.byId.get(1)?.seen).toBeInstanceOf(Date);
+    expect(parsed.views).toBe(value.views);
+    expect(parsed.list).toEqual([1, undefined, 3]);
+    expect(parsed.ratio).toBeNaN();
+    expect(parsed.limit).toBe(Infinity);
+    expect(Object.is(parsed.zero, -0)).toBe(true);
+    expect(parsed.pattern).toEqual(/ab+c/gi);
+    expect(parsed.link.href).toBe('https://example.com/a?b=1');
+    expect(parsed.failure).toBeInstanceOf(Error);
+    expect(parsed.failure.name).toBe('TypeError');
+    expect(parsed.failure.message).toBe('nope');
+  });
+
+  test('keeps plain data as plain JSON', () => {
+    const value = { count: 42, nested: { items: ['x'] }, missing: undefined };
+    expect(serializeData(value)).toBe('{"count":42,"nested":{"items":["x"]}}');
+  });
+
+  test('keeps the natural JSON shape for rich values', () => {
+    const { json, meta } = encodeData({ at: new Date(0), ids: new Set([1]) });
+    expect(json).toEqual({ at: '1970-01-01T00:00:00.000Z', ids: [1] });
+    expect(meta).toEqual({ '/at': 'Date', '/ids': 'Set' });
+  });
+
+  test('escapes characters that could close a script tag', () => {
+    const serialized = serializeData({ html: "</script><b>'&'</b> ", at: new Date(0) });
+    expect(serialized).not.toContain('<');
+    expect(serialized).not.toContain('>');
+    expect(serialized).toContain('\\u0026');
+    expect(serialized).toContain('\\u0027');
+    expect(serialized).toContain('\\u2028');
+    expect(parseData<any>(serialized).html).toBe("</script><b>'&'</b> ");
+  });
+
+  test('escapes keys that contain pointer characters', () => {
+    const value = { 'a/b': { '~c': new Date(1) } };
+    expect(parseData<typeof value>(serializeData(value))['a/b']['~c']).toEqual(new Date(1));
+  });
+
+  test('wraps plain values that look like an envelope', () => {
+    const value = { json: 1, meta: {} };
+    expect(parseData(serializeData(value))).toEqual(value);
+  });
+
+  test('does not follow __proto__ paths', () => {
+    const parsed = parseData<any>('{"json":{"__proto__":"1970-01-01T00:00:00.000Z"},"meta":{"/__proto__":"Date"}}');
+    expect(Object.getPrototypeOf(parsed)).toBe(Object.prototype);
+    expect(Object.getOwnPropertyDescriptor(parsed, '__proto__')?.value).toBe('1970-01-01T00:00:00.000Z');
+
+    parseData('{"json":{},"meta":{"/__proto__/polluted":"Date","/constructor/prototype/polluted":"Date"}}');
+    expect(({} as any).polluted).toBeUndefined();
+  });
+
+  test('ignores meta paths to missing properties', () => {
+    const parsed = parseData<any>('{"json":{"a":{}},"meta":{"/a/at":"Date","/b/at":"Date"}}');
+    expect(parsed).toEqual({ a: {} });
+  });
+
+  test('revives embedded script literals', () => {
+    const literal = JSON.parse(serializeData({ at: new Date(0) }));
+    expect(reviveData<{ at: Date }>(literal).at).toBeInstanceOf(Date);
+    expect(reviveData({ plain: true })).toEqual({ plain: true });
+  });
+
+  test('matches JSON for functions and toJSON', () => {
+    const value = {
+      fn: () => 1,
+      list: [() => 1],
+      custom: { toJSON: () => 'custom' },
+    };
+    expect(parseData(serializeData(value))).toEqual({ list: [null], custom: 'custom' });
+  });
+
+  test('rejects circular structures and pending promises', () => {
+    const circular: Record<string, unknown> = {};
+    circular.self = circular;
+    expect(() => serializeData(circular)).toThrow('circular structure at "/self"');
+    expect(() => serializeData({ later: Promise.resolve(1) })).toThrow('pending promise at "/later"');
+  });
+
+  test('serializes shared references more than once', () => {
+    const shared = { at: new Date(0) };
+    const parsed = parseData<any>(serializeData({ a: shared, b: shared }));
+    expect(parsed.a.at).toEqual(new Date(0));
+    expect(parsed.b.at).toEqual(new Date(0));
+  });
+
+  test('settles promises with serializeDataAsync', async () => {
+    const parsed = parseData<{ ok: Promise<Date>; failed: Promise<never> }>(
+      await serializeDataAsync({
+        ok: Promise.resolve(new Date(0)),
+        failed: Promise.reject(new Error('down')),
+      })
+    );
+
+    expect(await parsed.ok).toEqual(new Date(0));
+    await expect(parsed.failed).rejects.toThrow('down');
+  });
+
+  test('uses registered serializers for custom classes', () => {
+    registerSerializer<Money, { amount: bigint; currency: string }>({
+      name: 'Money',
+      test: (value) => value instanceof Money,
+      // Nested values (the bigint) are encoded too
+      serialize: (value) => ({ amount: value.amount, currency: value.currency }),
+      deserialize: (data) => new Money(data.amount, data.currency),
+    });
+
+    const parsed = parseData<{ price: Money }>(serializeData({ price: new Money(1999n, 'USD') }));
+    expect(parsed.price).toBeInstanceOf(Money);
+    expect(parsed.price.amount).toBe(1999n);
+  });
+
+  test('reserves built-in serializer names', () => {
+    expect(() =>
+      registerSerializer({ name: 'Date', test: () => false, serialize: (v) => v, deserialize: (v) => v })
+    ).toThrow('reserved');
+  });
+
+  test('leaves unknown types in JSON form', () => {
+    const warn = console.warn;
+    console.warn = () => {};
+    try {
+      expect(parseData('{"json":{"x":"1"},"meta":{"/x":"Unknown"}}')).toEqual({ x: '1' });
+    } finally {
+      console.warn = warn;
+    }
+  });
+
+  test('Revived maps types to their client shape', () => {
+    type Data = { at: Date; ids: Set<number>; load: () => void; nested: { n: bigint } };
+    const revived: Revived<Data> = { at: new Date(), ids: new Set([1]), nested: { n: 1n } };
+    expect(revived.ids.has(1)).toBe(true);
+  });
+});
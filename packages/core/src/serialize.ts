@@ -0,0 +1,485 @@
+/**
+ * @ereo/core - Data Serialization
+ *
+ * JSON-compatible encoding for values that plain JSON loses: Date, Map, Set,
+ * BigInt, undefined, non-finite numbers, RegExp, URL, Error and settled promises.
+ * Custom classes are supported through a serializer registry.
+ *
+ * Values are encoded superjson-style: the JSON tree keeps its natural shape
+ * (a Date is still an ISO string) and a side table maps JSON pointer paths to
+ * type names. Payloads without special values are emitted as plain JSON, so
+ * consumers that only call `response.json()` keep working.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A serializer for a custom type.
+ * Register the same serializer on the server and in the client bundle.
+ *
+ * @example
+ * registerSerializer<Decimal, string>({
+ *   name: 'Decimal',
+ *   test: (value) => value instanceof Decimal,
+ *   serialize: (value) => value.toString(),
+ *   deserialize: (data) => new Decimal(data),
+ * });
+ */
+export interface Serializer<T = any, S = any> {
+  /** Unique type name stored in the payload metadata */
+  name: string;
+  /** Return true for values this serializer handles */
+  test: (value: unknown) => boolean;
+  /** Convert the value to JSON-compatible data (which may itself contain serializable values) */
+  serialize: (value: T) => S;
+  /** Rebuild the value from its serialized data */
+  deserialize: (data: S) => T;
+}
+
+/**
+ * An encoded value: the JSON tree plus a map of JSON pointer paths to type names.
+ */
+export interface SerializedPayload {
+  json: unknown;
+  meta: Record<string, string>;
+}
+
+/**
+ * Registry of custom serializable types, used by `Revived`.
+ * Augment it so registered classes keep their type after a round trip.
+ *
+ * @example
+ * declare module '@ereo/core' {
+ *   interface SerializableTypes {
+ *     Decimal: Decimal;
+ *   }
+ * }
+ */
+export interface SerializableTypes {}
+
+/** Values that survive serialization unchanged */
+type SerializablePrimitive =
+  | string
+  | number
+  | boolean
+  | bigint
+  | null
+  | undefined
+  | Date
+  | RegExp
+  | URL
+  | Error
+  | SerializableTypes[keyof SerializableTypes];
+
+/**
+ * The type a value has after a serialize/parse round trip.
+ * Functions and symbols are dropped, class instances without a registered
+ * serializer become plain objects, and everything else keeps its type.
+ */
+export type Revived<T> = T extends SerializablePrimitive
+  ? T
+  : T extends (...args: any[]) => any
+    ? never
+    : T extends symbol
+      ? never
+      : T extends Promise<infer U>
+        ? Promise<Revived<U>>
+        : T extends Map<infer K, infer V>
+          ? Map<Revived<K>, Revived<V>>
+          : T extends Set<infer U>
+            ? Set<Revived<U>>
+            : T extends readonly unknown[]
+              ? { [K in keyof T]: Revived<T[K]> }
+              : T extends { toJSON(): infer J }
+                ? Revived<J>
+                : T extends object
+                  ? { [K in keyof T as T[K] extends (...args: any[]) => any ? never : K]: Revived<T[K]> }
+                  : T;
+
+// ============================================================================
+// Built-in Serializers
+// ============================================================================
+
+/**
+ * A promise that has settled, produced by `settlePromises` before encoding.
+ */
+class SettledPromise {
+  constructor(
+    readonly status: 'fulfilled' | 'rejected',
+    readonly value: unknown
+  ) {}
+}
+
+function rejectedPromise(reason: unknown): Promise<never> {
+  const promise = Promise.reject(reason);
+  // Mark as handled; the consumer decides whether to observe the rejection
+  promise.catch(() => {});
+  return promise;
+}
+
+const builtinSerializers: Serializer[] = [
+  {
+    name: 'undefined',
+    test: (value) => value === undefined,
+    serialize: () => null,
+    deserialize: () => undefined,
+  },
+  {
+    name: 'number',
+    test: (value) => typeof value === 'number' && (!Number.isFinite(value) || Object.is(value, -0)),
+    serialize: (value: number) => (Object.is(value, -0) ? '-0' : String(value)),
+    deserialize: (data: string) => Number(data),
+  },
+  {
+    name: 'bigint',
+    test: (value) => typeof value === 'bigint',
+    serialize: (value: bigint) => value.toString(),
+    deserialize: (data: string) => BigInt(data),
+  },
+  {
+    name: 'Date',
+    test: (value) => value instanceof Date,
+    // toJSON() is null for invalid dates
+    serialize: (value: Date) => value.toJSON(),
+    deserialize: (data: string | null) => new Date(data ?? NaN),
+  },
+  {
+    name: 'RegExp',
+    test: (value) => value instanceof RegExp,
+    serialize: (value: RegExp) => [value.source, value.flags],
+    deserialize: ([source, flags]: [string, string]) => new RegExp(source, flags),
+  },
+  {
+    name: 'URL',
+    test: (value) => typeof URL !== 'undefined' && value instanceof URL,
+    serialize: (value: URL) => value.href,
+    deserialize: (data: string) => new URL(data),
+  },
+  {
+    name: 'Map',
+    test: (value) => value instanceof Map,
+    serialize: (value: Map<unknown, unknown>) => [...value.entries()],
+    deserialize: (data: Array<[unknown, unknown]>) => new Map(data),
+  },
+  {
+    name: 'Set',
+    test: (value) => value instanceof Set,
+    serialize: (value: Set<unknown>) => [...value],
+    deserialize: (data: unknown[]) => new Set(data),
+  },
+  {
+    name: 'Error',
+    test: (value) => value instanceof Error,
+    // Stacks are never sent; they may leak server paths
+    serialize: (value: Error) => ({ name: value.name, message: value.message }),
+    deserialize: (data: { name: string; message: string }) => {
+      const error = new Error(data.message);
+      error.name = data.name;
+      return error;
+    },
+  },
+  {
+    name: 'Promise',
+    test: (value) => value instanceof SettledPromise,
+    serialize: (value: SettledPromise) => ({ status: value.status, value: value.value }),
+    deserialize: (data: { status: 'fulfilled' | 'rejected'; value: unknown }) =>
+      data.status === 'fulfilled' ? Promise.resolve(data.value) : rejectedPromise(data.value),
+  },
+];
+
+const builtinNames = new Set(builtinSerializers.map((s) => s.name));
+const customSerializers = new Map<string, Serializer>();
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+/**
+ * Register a serializer for a custom type.
+ * Registering a name again replaces the previous serializer.
+ */
+export function registerSerializer<T, S>(serializer: Serializer<T, S>): void {
+  if (builtinNames.has(serializer.name)) {
+    throw new Error(`Cannot register serializer "${serializer.name}": the name is reserved for a built-in type`);
+  }
+  customSerializers.set(serializer.name, serializer);
+}
+
+/**
+ * Remove a custom serializer.
+ */
+export function unregisterSerializer(name: string): boolean {
+  return customSerializers.delete(name);
+}
+
+function findSerializer(value: unknown): Serializer | undefined {
+  for (const serializer of customSerializers.values()) {
+    if (serializer.test(value)) return serializer;
+  }
+  for (const serializer of builtinSerializers) {
+    if (serializer.test(value)) return serializer;
+  }
+  return undefined;
+}
+
+function getSerializer(name: string): Serializer | undefined {
+  return customSerializers.get(name) ?? builtinSerializers.find((s) => s.name === name);
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object') return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function escapePointer(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function unescapePointer(segment: string): string {
+  return segment.replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+function encodeValue(
+  value: unknown,
+  path: string,
+  meta: Record<string, string>,
+  ancestors: Set<object>
+): unknown {
+  if (value instanceof Promise) {
+    throw new TypeError(
+      `Cannot serialize a pending promise at "${path || '/'}". Use serializeDataAsync() or wrap it in defer().`
+    );
+  }
+
+  const serializer = findSerializer(value);
+  if (serializer) {
+    meta[path] = serializer.name;
+    return encodeChildren(serializer.serialize(value), path, meta, ancestors);
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  // Match JSON.stringify for objects that define their own JSON form
+  if (typeof (value as any).toJSON === 'function') {
+    return encodeChildren((value as any).toJSON(), path, meta, ancestors);
+  }
+
+  return encodeChildren(value, path, meta, ancestors);
+}
+
+function encodeChildren(
+  value: unknown,
+  path: string,
+  meta: Record<string, string>,
+  ancestors: Set<object>
+): unknown {
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  if (ancestors.has(value)) {
+    throw new TypeError(`Cannot serialize a circular structure at "${path || '/'}"`);
+  }
+  ancestors.add(value);
+
+  let result: unknown;
+  if (Array.isArray(value)) {
+    result = value.map((item, index) => {
+      // Functions and symbols become null in arrays, as in JSON
+      if (typeof item === 'function' || typeof item === 'symbol') return null;
+      return encodeValue(item, `${path}/${index}`, meta, ancestors);
+    });
+  } else {
+    const object: Record<string, unknown> = {};
+    for (const key of Object.keys(value)) {
+      const item = (value as Record<string, unknown>)[key];
+      // Functions, symbols and undefined are dropped from objects, as in JSON.
+      // Reading the missing key still gives undefined, and plain payloads stay plain.
+      if (item === undefined || typeof item === 'function' || typeof item === 'symbol') continue;
+      object[key] = encodeValue(item, `${path}/${escapePointer(key)}`, meta, ancestors);
+    }
+    result = object;
+  }
+
+  ancestors.delete(value);
+  return result;
+}
+
+/**
+ * Await every promise in a value, replacing it with its settled state.
+ * Walks arrays, plain objects, Maps and Sets.
+ */
+async function settlePromises(value: unknown): Promise<unknown> {
+  if (value instanceof Promise) {
+    try {
+      return new SettledPromise('fulfilled', await settlePromises(await value));
+    } catch (error) {
+      return new SettledPromise('rejected', error);
+    }
+  }
+  if (Array.isArray(value)) {
+    return Promise.all(value.map(settlePromises));
+  }
+  if (value instanceof Map) {
+    const entries = await Promise.all(
+      [...value.entries()].map(async ([k, v]) => [await settlePromises(k), await settlePromises(v)] as const)
+    );
+    return new Map(entries);
+  }
+  if (value instanceof Set) {
+    return new Set(await Promise.all([...value].map(settlePromises)));
+  }
+  if (isPlainObject(value)) {
+    const entries = await Promise.all(
+      Object.entries(value).map(async ([k, v]) => [k, await settlePromises(v)] as const)
+    );
+    return Object.fromEntries(entries);
+  }
+  return value;
+}
+
+/** Meta path segments that could reach a prototype */
+const UNSAFE_SEGMENTS = new Set(['__proto__', 'constructor', 'prototype']);
+
+/** Containers as produced by JSON.parse */
+function isJsonContainer(value: unknown): value is Record<string, any> {
+  return Array.isArray(value) || isPlainObject(value);
+}
+
+/**
+ * Check whether a parsed value is an encoded payload envelope.
+ */
+function isEnvelope(value: unknown): value is SerializedPayload {
+  if (!isPlainObject(value)) return false;
+  const keys = Object.keys(value);
+  return keys.length === 2 && 'json' in value && isPlainObject(value.meta);
+}
+
+/**
+ * Encode a value into JSON-compatible data and type metadata.
+ * Throws on pending promises and circular structures.
+ */
+export function encodeData(value: unknown): SerializedPayload {
+  const meta: Record<string, string> = {};
+  const json = encodeValue(value, '', meta, new Set());
+  return { json, meta };
+}
+
+/**
+ * Encode a value, awaiting any promises it contains first.
+ * Promises are revived as already-settled promises.
+ */
+export async function encodeDataAsync(value: unknown): Promise<SerializedPayload> {
+  return encodeData(await settlePromises(value));
+}
+
+/**
+ * Revive an encoded payload.
+ * Types without a registered serializer are left in their JSON form.
+ */
+export function decodeData<T = unknown>(payload: SerializedPayload): T {
+  const root = { value: payload.json } as Record<string, any>;
+
+  // Deepest paths first, so containers are rebuilt from revived children
+  const paths = Object.keys(payload.meta).sort(
+    (a, b) => b.split('/').length - a.split('/').length
+  );
+
+  for (const path of paths) {
+    const serializer = getSerializer(payload.meta[path]);
+    if (!serializer) {
+      console.warn(`No serializer registered for type "${payload.meta[path]}" at "${path || '/'}"`);
+      continue;
+    }
+
+    const segments = path === '' ? [] : path.slice(1).split('/').map(unescapePointer);
+    // Meta comes from the client: only follow own properties of JSON containers
+    if (segments.some((segment) => UNSAFE_SEGMENTS.has(segment))) continue;
+    let parent: Record<string, any> | null = root;
+    let key = 'value';
+    for (const segment of segments) {
+      const child: unknown = parent[key];
+      if (!isJsonContainer(child)) {
+        parent = null;
+        break;
+      }
+      parent = child;
+      key = segment;
+    }
+    if (!parent || !Object.hasOwn(parent, key)) continue;
+
+    Object.defineProperty(parent, key, {
+      value: serializer.deserialize(parent[key]),
+      writable: true,
+      enumerable: true,
+      configurable: true,
+    });
+  }
+
+  return root.value as T;
+}
+
+/**
+ * Revive a parsed JSON value, which may be a plain value or an encoded envelope.
+ * Use this for data that was embedded as a script literal (e.g. `window.__EREO_DATA__`).
+ */
+export function reviveData<T = unknown>(value: unknown): T {
+  return isEnvelope(value) ? decodeData<T>(value) : (value as T);
+}
+
+// ============================================================================
+// String Serialization
+// ============================================================================
+
+/**
+ * Escape characters that could break out of a script tag or a JS string.
+ */
+function escapeJson(json: string): string {
+  return json
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e')
+    .replace(/&/g, '\\u0026')
+    .replace(/'/g, '\\u0027')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+}
+
+function stringifyPayload({ json, meta }: SerializedPayload): string {
+  // Plain data stays plain JSON; values that look like an envelope are always wrapped
+  const body = Object.keys(meta).length === 0 && !isEnvelope(json) ? json : { json, meta };
+  return escapeJson(JSON.stringify(body));
+}
+
+/**
+ * Serialize a value to an XSS-safe JSON string.
+ * The output is safe to embed in an inline `<script>` and parses with `parseData`.
+ *
+ * @example
+ * const html = `<script>window.__EREO_DATA__=${serializeData(data)}</script>`;
+ */
+export function serializeData(value: unknown): string {
+  return stringifyPayload(encodeData(value));
+}
+
+/**
+ * Serialize a value, awaiting any promises it contains first.
+ */
+export async function serializeDataAsync(value: unknown): Promise<string> {
+  return stringifyPayload(await encodeDataAsync(value));
+}
+
+/**
+ * Parse a string produced by `serializeData` (or any plain JSON).
+ */
+export function parseData<T = unknown>(text: string): T {
+  return reviveData<T>(JSON.parse(text));
+}
@@ -0,0 +1,203 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  createSessionStorage,
+  createSession,
+  createMemorySessionBackend,
+  createCacheSessionBackend,
+  type SessionStorage,
+} from './session';
+import { createContext, type RequestContext } from './context';
+import { MemoryCacheAdapter } from './cache';
+
+const cookieSecrets = ['s3cret'];
+
+function requestContext(cookie?: string): RequestContext {
+  const headers = cookie ? { Cookie: cookie } : undefined;
+  return createContext(new Request('http://localhost/', { headers }), { cookieSecrets });
+}
+
+/** Cookie header that sends back the cookies set by a context */
+function nextCookie(context: RequestContext): string {
+  const response = context.applyToResponse(new Response());
+  return response.headers
+    .getSetCookie()
+    .map((header) => header.split(';')[0])
+    .join('; ');
+}
+
+async function roundTrip<Data extends Record<string, unknown>>(
+  storage: SessionStorage<Data>,
+  update: (session: Awaited<ReturnType<SessionStorage<Data>['getSession']>>) => void
+) {
+  const first = requestContext();
+  const session = await storage.getSession(first);
+  update(session);
+  await storage.commitSession(first, session);
+
+  const second = requestContext(nextCookie(first));
+  return { context: second, session: await storage.getSession(second) };
+}
+
+describe('@ereo/core - Session', () => {
+  describe('createSession', () => {
+    test('gets, sets and unsets values', () => {
+      const session = createSession<{ userId: string }>();
+
+      session.set('userId', 'u1');
+      expect(session.get('userId')).toBe('u1');
+      expect(session.has('userId')).toBe(true);
+
+      session.unset('userId');
+      expect(session.has('userId')).toBe(false);
+    });
+
+    test('flash values are removed once read', () => {
+      const session = createSession<{ message: string }>();
+
+      session.flash('message', 'Saved');
+      expect(session.has('message')).toBe(true);
+      expect(session.get('message')).toBe('Saved');
+      expect(session.get('message')).toBeUndefined();
+    });
+
+    test('generates unique IDs', () => {
+      expect(createSession().id).not.toBe(createSession().id);
+    });
+  });
+
+  describe('cookie backend', () => {
+    test('stores the data in an encrypted cookie', async () => {
+      const storage = createSessionStorage<{ userId: string }>();
+      const first = requestContext();
+      const session = await storage.getSession(first);
+      session.set('userId', 'user-42');
+      await storage.commitSession(first, session);
+
+      const setCookie = first.applyToResponse(new Response()).headers.get('Set-Cookie')!;
+      expect(setCookie).toStartWith('__session=');
+      expect(setCookie).toContain('HttpOnly');
+      expect(setCookie).toContain('SameSite=Lax');
+      expect(setCookie).not.toContain('user-42');
+
+      const next = await storage.getSession(requestContext(nextCookie(first)));
+      expect(next.id).toBe(session.id);
+      expect(next.get('userId')).toBe('user-42');
+    });
+
+    test('keeps dates and other rich values', async () => {
+      const storage = createSessionStorage<{ since: Date }>();
+      const since = new Date('2026-01-01T00:00:00Z');
+
+      const { session } = await roundTrip(storage, (s) => s.set('since', since));
+      expect(session.get('since')).toEqual(since);
+    });
+
+    test('flash messages survive one redirect', async () => {
+      const storage = createSessionStorage<{ message: string }>();
+
+      const { context, session } = await roundTrip(storage, (s) => s.flash('message', 'Welcome'));
+      expect(session.get('message')).toBe('Welcome');
+      await storage.commitSession(context, session);
+
+      const next = await storage.getSession(requestContext(nextCookie(context)));
+      expect(next.get('message')).toBeUndefined();
+    });
+
+    test('starts a new session when the cookie is tampered with', async () => {
+      const storage = createSessionStorage();
+      const session = await storage.getSession(requestContext('__session=forged'));
+
+      expect(session.data).toEqual({});
+    });
+
+    test('returns the same session within a request', async () => {
+      const storage = createSessionStorage();
+      const context = requestContext();
+
+      expect(await storage.getSession(context)).toBe(await storage.getSession(context));
+    });
+
+    test('uses the configured cookie name and options', async () => {
+      const storage = createSessionStorage({ cookie: { name: 'sid', maxAge: 3600, secure: true } });
+      const context = requestContext();
+      await storage.commitSession(context, await storage.getSession(context));
+
+      const setCookie = context.applyToResponse(new Response()).headers.get('Set-Cookie')!;
+      expect(setCookie).toStartWith('sid=');
+      expect(setCookie).toContain('Max-Age=3600');
+      expect(setCookie).toContain('Secure');
+    });
+  });
+
+  describe('memory backend', () => {
+    test('stores the data on the server behind a signed ID', async () => {
+      const storage = createSessionStorage<{ cart: string[] }>({ backend: createMemorySessionBackend() });
+      const first = requestContext();
+      const session = await storage.getSession(first);
+      session.set('cart', ['a', 'b']);
+      await storage.commitSession(first, session);
+
+      const cookie = nextCookie(first);
+      expect(decodeURIComponent(cookie)).toStartWith(`__session=${session.id}.`);
+
+      const next = await storage.getSession(requestContext(cookie));
+      expect(next.get('cart')).toEqual(['a', 'b']);
+    });
+
+    test('rejects session IDs without a valid signature', async () => {
+      const storage = createSessionStorage({ backend: createMemorySessionBackend() });
+      const { session } = await roundTrip(storage, (s) => s.set('x', 1));
+
+      const forged = await storage.getSession(requestContext(`__session=${session.id}`));
+      expect(forged.data).toEqual({});
+    });
+
+    test('destroySession deletes the data and clears the cookie', async () => {
+      const storage = createSessionStorage({ backend: createMemorySessionBackend() });
+      const first = requestContext();
+      const session = await storage.getSession(first);
+      session.set('x', 1);
+      await storage.commitSession(first, session);
+      const cookie = nextCookie(first);
+
+      const second = requestContext(cookie);
+      await storage.destroySession(second, await storage.getSession(second));
+      expect(second.applyToResponse(new Response()).headers.get('Set-Cookie')).toContain('Max-Age=0');
+
+      // The old cookie no longer finds the data
+      const replayed = await storage.getSession(requestContext(cookie));
+      expect(replayed.data).toEqual({});
+    });
+
+    test('expires sessions after their maxAge', async () => {
+      const storage = createSessionStorage({ cookie: { maxAge: 0 }, backend: createMemorySessionBackend() });
+      const { session } = await roundTrip(storage, (s) => s.set('x', 1));
+
+      expect(session.data).toEqual({});
+    });
+  });
+
+  describe('cache backend', () => {
+    test('stores the data in a CacheAdapter with the session lifetime', async () => {
+      const cache = new MemoryCacheAdapter();
+      const storage = createSessionStorage<{ userId: string }>({
+        cookie: { maxAge: 120 },
+        backend: createCacheSessionBackend({ cache, prefix: 'sess:' }),
+      });
+
+      const { session } = await roundTrip(storage, (s) => s.set('userId', 'u1'));
+
+      expect(session.get('userId')).toBe('u1');
+      expect(await cache.has(`sess:${session.id}`)).toBe(true);
+    });
+
+    test('destroySession removes the cache entry', async () => {
+      const cache = new MemoryCacheAdapter();
+      const storage = createSessionStorage({ backend: createCacheSessionBackend({ cache }) });
+      const { context, session } = await roundTrip(storage, (s) => s.set('x', 1));
+
+      await storage.destroySession(context, session);
+      expect(await cache.has(`ereo:session:${session.id}`)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,322 @@
+/**
+ * @ereo/core - Session Storage
+ *
+ * Cookie-based sessions for loaders, actions and middleware. The cookie
+ * backend keeps the data in an encrypted cookie; the memory and cache
+ * backends keep it on the server behind a signed session ID cookie.
+ * Both need `cookies.secrets` to be configured.
+ */
+
+import type { AppContext, CookieJar, CookieSetOptions } from './types';
+import type { CacheAdapter } from './cache';
+import { serializeData, parseData } from './serialize';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Session values */
+export type SessionData = Record<string, unknown>;
+
+/**
+ * A user session. Changes are saved by `commitSession`.
+ */
+export interface Session<Data extends SessionData = SessionData> {
+  /** Session ID (random, stable for the life of the session) */
+  readonly id: string;
+  /** Current values, including unread flash values */
+  readonly data: Partial<Data>;
+  /** Get a value. Flash values are removed once read. */
+  get<K extends keyof Data & string>(key: K): Data[K] | undefined;
+  /** Set a value */
+  set<K extends keyof Data & string>(key: K, value: Data[K]): void;
+  /** Check if a value (or unread flash value) is set */
+  has(key: keyof Data & string): boolean;
+  /** Remove a value */
+  unset(key: keyof Data & string): void;
+  /** Set a value that is removed after the next read, e.g. a message shown after a redirect */
+  flash<K extends keyof Data & string>(key: K, value: Data[K]): void;
+}
+
+/**
+ * Where session data lives. The storage turns the value returned by
+ * `save` into the session cookie and passes it back to `load`.
+ */
+export interface SessionStorageBackend {
+  /** Encrypt the cookie (it holds the data) instead of signing it (it holds an ID) */
+  readonly encrypted: boolean;
+  /** Load a session from its cookie value, or null if it does not exist */
+  load(cookieValue: string): Promise<{ id: string; data: SessionData } | null>;
+  /** Save a session and return the cookie value */
+  save(id: string, data: SessionData, maxAge: number | undefined): Promise<string>;
+  /** Delete a session */
+  destroy(id: string): Promise<void>;
+}
+
+/**
+ * Session cookie options.
+ */
+export interface SessionCookieOptions extends CookieSetOptions {
+  /** Cookie name (default: '__session') */
+  name?: string;
+}
+
+/**
+ * Options for `createSessionStorage`.
+ */
+export interface SessionStorageOptions {
+  /** Session cookie (default: '__session', HttpOnly, SameSite=Lax, session lifetime) */
+  cookie?: SessionCookieOptions;
+  /** Where session data lives (default: the encrypted cookie itself) */
+  backend?: SessionStorageBackend;
+}
+
+/**
+ * Reads and writes sessions of a request.
+ */
+export interface SessionStorage<Data extends SessionData = SessionData> {
+  /**
+   * Get the session of a request, or a new empty session.
+   * Repeated calls within a request return the same session.
+   */
+  getSession(context: AppContext): Promise<Session<Data>>;
+  /** Save a session and set its cookie */
+  commitSession(context: AppContext, session: Session<Data>, options?: Pick<CookieSetOptions, 'maxAge' | 'expires'>): Promise<void>;
+  /** Delete a session and clear its cookie */
+  destroySession(context: AppContext, session: Session<Data>): Promise<void>;
+}
+
+// ============================================================================
+// Session
+// ============================================================================
+
+const FLASH_PREFIX = '__flash_';
+
+function flashKey(key: string): string {
+  return `${FLASH_PREFIX}${key}__`;
+}
+
+/**
+ * Generate a random session ID (256 bits, base64url).
+ */
+export function generateSessionId(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Create a session object. Sessions usually come from
+ * `SessionStorage.getSession`; this is useful in tests.
+ */
+export function createSession<Data extends SessionData = SessionData>(
+  data: Partial<Data> = {},
+  id: string = generateSessionId()
+): Session<Data> {
+  const values: SessionData = { ...data };
+
+  return {
+    id,
+    get data() {
+      return values as Partial<Data>;
+    },
+    get(key) {
+      const flashed = flashKey(key);
+      if (flashed in values) {
+        const value = values[flashed];
+        delete values[flashed];
+        return value as Data[typeof key];
+      }
+      return values[key] as Data[typeof key] | undefined;
+    },
+    set(key, value) {
+      values[key] = value;
+    },
+    has(key) {
+      return key in values || flashKey(key) in values;
+    },
+    unset(key) {
+      delete values[key];
+    },
+    flash(key, value) {
+      values[flashKey(key)] = value;
+    },
+  };
+}
+
+// ============================================================================
+// Backends
+// ============================================================================
+
+/**
+ * Keep session data in the session cookie, encrypted.
+ * Cookies are limited to about 4KB, so keep the data small.
+ */
+export function createCookieSessionBackend(): SessionStorageBackend {
+  return {
+    encrypted: true,
+    async load(cookieValue) {
+      try {
+        const { id, data } = parseData<{ id: string; data: SessionData }>(cookieValue);
+        return typeof id === 'string' && data && typeof data === 'object' ? { id, data } : null;
+      } catch {
+        return null;
+      }
+    },
+    async save(id, data) {
+      return serializeData({ id, data });
+    },
+    async destroy() {
+      // The data is gone with the cookie
+    },
+  };
+}
+
+/** Options for the in-memory session backend */
+export interface MemorySessionBackendOptions {
+  /** Lifetime of sessions committed without a maxAge, in seconds (default: 1 day) */
+  defaultMaxAge?: number;
+}
+
+/**
+ * Keep session data in memory. Sessions are lost on restart and are not
+ * shared between processes; use it for development and tests.
+ */
+export function createMemorySessionBackend(options: MemorySessionBackendOptions = {}): SessionStorageBackend {
+  const defaultMaxAge = options.defaultMaxAge ?? 60 * 60 * 24;
+  const sessions = new Map<string, { data: SessionData; expiresAt: number }>();
+
+  return {
+    encrypted: false,
+    async load(id) {
+      const entry = sessions.get(id);
+      if (!entry) return null;
+      if (entry.expiresAt <= Date.now()) {
+        sessions.delete(id);
+        return null;
+      }
+      return { id, data: structuredClone(entry.data) };
+    },
+    async save(id, data, maxAge) {
+      // Sweep expired sessions so the map does not grow without bound
+      const now = Date.now();
+      for (const [key, entry] of sessions) {
+        if (entry.expiresAt <= now) sessions.delete(key);
+      }
+      sessions.set(id, { data: structuredClone(data), expiresAt: now + (maxAge ?? defaultMaxAge) * 1000 });
+      return id;
+    },
+    async destroy(id) {
+      sessions.delete(id);
+    },
+  };
+}
+
+/** Options for the cache adapter session backend */
+export interface CacheSessionBackendOptions {
+  /** Any CacheAdapter, e.g. a Redis-backed one */
+  cache: CacheAdapter;
+  /** Key prefix (default: 'ereo:session:') */
+  prefix?: string;
+  /** Lifetime of sessions committed without a maxAge, in seconds (default: 1 day) */
+  defaultMaxAge?: number;
+}
+
+/**
+ * Keep session data in a CacheAdapter.
+ */
+export function createCacheSessionBackend(options: CacheSessionBackendOptions): SessionStorageBackend {
+  const { cache, prefix = 'ereo:session:', defaultMaxAge = 60 * 60 * 24 } = options;
+
+  return {
+    encrypted: false,
+    async load(id) {
+      const stored = await cache.get<string>(`${prefix}${id}`);
+      return stored === undefined ? null : { id, data: parseData<SessionData>(stored) };
+    },
+    async save(id, data, maxAge) {
+      await cache.set(`${prefix}${id}`, serializeData(data), { ttl: maxAge ?? defaultMaxAge });
+      return id;
+    },
+    async destroy(id) {
+      await cache.delete(`${prefix}${id}`);
+    },
+  };
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+function requireCookies(context: AppContext): CookieJar {
+  if (!context.cookies) {
+    throw new Error('Sessions require a request context with cookies');
+  }
+  return context.cookies;
+}
+
+/**
+ * Create a session storage.
+ *
+ * @example
+ * ```typescript
+ * // app/sessions.ts
+ * export const sessions = createSessionStorage<{ userId: string; message: string }>({
+ *   cookie: { name: '__session', maxAge: 60 * 60 * 24 * 7, secure: true },
+ *   backend: createCacheSessionBackend({ cache: redisCache }),
+ * });
+ *
+ * // In an action
+ * const session = await sessions.getSession(context);
+ * session.set('userId', user.id);
+ * session.flash('message', 'Welcome back!');
+ * await sessions.commitSession(context, session);
+ * ```
+ */
+export function createSessionStorage<Data extends SessionData = SessionData>(
+  options: SessionStorageOptions = {}
+): SessionStorage<Data> {
+  const { name = '__session', ...cookieOptions } = options.cookie ?? {};
+  const backend = options.backend ?? createCookieSessionBackend();
+  const contextKey = `ereo:session:${name}`;
+
+  return {
+    async getSession(context) {
+      const cached = context.get<Session<Data>>(contextKey);
+      if (cached) return cached;
+
+      const cookies = requireCookies(context);
+      const cookieValue = backend.encrypted ? await cookies.getEncrypted(name) : await cookies.getSigned(name);
+      const loaded = cookieValue ? await backend.load(cookieValue) : null;
+
+      const session = loaded ? createSession<Data>(loaded.data as Partial<Data>, loaded.id) : createSession<Data>();
+      context.set(contextKey, session);
+      return session;
+    },
+
+    async commitSession(context, session, overrides = {}) {
+      const cookies = requireCookies(context);
+      const setOptions: CookieSetOptions = { sameSite: 'Lax', ...cookieOptions, ...overrides };
+      const maxAge =
+        setOptions.maxAge ??
+        (setOptions.expires ? Math.max(0, Math.round((setOptions.expires.getTime() - Date.now()) / 1000)) : undefined);
+
+      const cookieValue = await backend.save(session.id, session.data, maxAge);
+      if (backend.encrypted) {
+        await cookies.setEncrypted(name, cookieValue, setOptions);
+      } else {
+        await cookies.setSigned(name, cookieValue, setOptions);
+      }
+      context.set(contextKey, session);
+    },
+
+    async destroySession(context, session) {
+      await backend.destroy(session.id);
+      requireCookies(context).delete(name, { path: cookieOptions.path, domain: cookieOptions.domain });
+      context.set(contextKey, undefined);
+    },
+  };
+}
@@ -0,0 +1,128 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  formatServerSentEvent,
+  createEventStream,
+  parseServerSentEvents,
+  type ServerSentEvent,
+} from './sse';
+
+async function collect(body: ReadableStream<Uint8Array>): Promise<ServerSentEvent[]> {
+  const events: ServerSentEvent[] = [];
+  for await (const event of parseServerSentEvents(body)) events.push(event);
+  return events;
+}
+
+function streamOf(...chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+}
+
+describe('@ereo/core - Server-Sent Events', () => {
+  describe('formatServerSentEvent', () => {
+    test('formats id, event and multi-line data', () => {
+      expect(formatServerSentEvent({ id: '7', event: 'update', data: 'a\nb' })).toBe(
+        'id: 7\nevent: update\ndata: a\ndata: b\n\n'
+      );
+    });
+
+    test('formats retry-only events without data', () => {
+      expect(formatServerSentEvent({ retry: 3000 })).toBe('retry: 3000\n\n');
+    });
+
+    test('keeps ids and names on one line', () => {
+      expect(formatServerSentEvent({ id: '1\n2', data: 'x' })).toBe('id: 12\ndata: x\n\n');
+    });
+  });
+
+  describe('parseServerSentEvents', () => {
+    test('parses events split across chunks', async () => {
+      const events = await collect(streamOf('id: 1\nevent: up', 'date\ndata: {"a":1}\r', '\n\r\n: ping\n\ndata: two\n\n'));
+
+      expect(events).toEqual([
+        { id: '1', event: 'update', data: '{"a":1}', retry: undefined },
+        { id: '1', event: undefined, data: 'two', retry: undefined },
+      ]);
+    });
+
+    test('reports retry-only events', async () => {
+      expect(await collect(streamOf('retry: 500\n\n'))).toEqual([{ retry: 500 }]);
+    });
+
+    test('reads what formatServerSentEvent writes', async () => {
+      const event = { id: 'a', event: 'e', data: 'line 1\nline 2' };
+      const [parsed] = await collect(streamOf(formatServerSentEvent(event)));
+      expect(parsed).toMatchObject(event);
+    });
+  });
+
+  describe('createEventStream', () => {
+    test('streams events and closes when the source ends', async () => {
+      async function* source() {
+        yield { id: '1', data: 'first' };
+        yield { event: 'done', data: '' };
+      }
+      const body = createEventStream(source(), { heartbeat: false, retry: 1000 });
+
+      expect(await collect(body)).toEqual([
+        { retry: 1000 },
+        { id: '1', event: undefined, data: 'first', retry: undefined },
+        { id: '1', event: 'done', data: '', retry: undefined },
+      ]);
+    });
+
+    test('only advances the source when the client reads', async () => {
+      let produced = 0;
+      async function* source() {
+        while (true) {
+          produced++;
+          yield { data: String(produced) };
+        }
+      }
+      const reader = createEventStream(source(), { heartbeat: false }).getReader();
+
+      await reader.read();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(produced).toBeLessThanOrEqual(2);
+
+      await reader.cancel();
+    });
+
+    test('closes the source when the signal aborts', async () => {
+      let finished = false;
+      async function* source() {
+        try {
+          yield { data: 'first' };
+          yield { data: 'second' };
+        } finally {
+          finished = true;
+        }
+      }
+      const controller = new AbortController();
+      const reader = createEventStream(source(), { heartbeat: false, signal: controller.signal }).getReader();
+
+      await reader.read();
+      controller.abort();
+      while (!(await reader.read()).done) {
+        // Drain what was queued before the abort
+      }
+      expect(finished).toBe(true);
+    });
+
+    test('sends heartbeats while idle', async () => {
+      async function* source() {
+        await new Promise((resolve) => setTimeout(resolve, 40));
+        yield { data: 'late' };
+      }
+      const reader = createEventStream(source(), { heartbeat: 10 }).getReader();
+      const { value } = await reader.read();
+
+      expect(new TextDecoder().decode(value)).toBe(': ping\n\n');
+      await reader.cancel();
+    });
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * @ereo/core - Server-Sent Events
+ *
+ * The `text/event-stream` wire format shared by route event streams and
+ * RPC subscriptions: formatting events, a pull-based response body with
+ * heartbeats, and a parser for reading streams with fetch.
+ */
+
+/** One event on an event stream */
+export interface ServerSentEvent {
+  /** Event id, sent back as `Last-Event-ID` when the client reconnects */
+  id?: string;
+  /** Event name (default: `message`) */
+  event?: string;
+  /** Event data; a parsed event without data only carried `retry` */
+  data?: string;
+  /** Reconnect delay the client should use, in milliseconds */
+  retry?: number;
+}
+
+/** Options for createEventStream */
+export interface EventStreamOptions {
+  /** Interval of keep-alive comments in milliseconds, or false to disable (default: 15000) */
+  heartbeat?: number | false;
+  /** Reconnect delay sent to the client before the first event */
+  retry?: number;
+  /** Stops the stream, typically `request.signal` */
+  signal?: AbortSignal;
+}
+
+/** Response headers for event streams */
+export const EVENT_STREAM_HEADERS: Readonly<Record<string, string>> = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  // Stops nginx from buffering the stream
+  'X-Accel-Buffering': 'no',
+};
+
+/**
+ * Format one event. Multi-line data is split into several `data:` lines.
+ */
+export function formatServerSentEvent(event: ServerSentEvent): string {
+  let text = '';
+  if (event.id !== undefined) text += `id: ${stripLineBreaks(event.id)}\n`;
+  if (event.event !== undefined) text += `event: ${stripLineBreaks(event.event)}\n`;
+  if (event.retry !== undefined) text += `retry: ${Math.max(0, Math.floor(event.retry))}\n`;
+  if (event.data !== undefined || event.retry === undefined) {
+    for (const line of (event.data ?? '').split(/\r\n|\r|\n/)) {
+      text += `data: ${line}\n`;
+    }
+  }
+  return text + '\n';
+}
+
+function stripLineBreaks(value: string): string {
+  return value.replace(/[\r\n]/g, '');
+}
+
+/**
+ * Create an event stream body from an async iterable of events.
+ *
+ * The iterable is only advanced when the client has read what was sent
+ * before, so a slow client holds back the producer instead of growing a
+ * buffer. Heartbeats are skipped while the client is behind. The iterable
+ * is closed when the client disconnects or `signal` aborts.
+ */
+export function createEventStream(
+  events: AsyncIterable<ServerSentEvent>,
+  options: EventStreamOptions = {}
+): ReadableStream<Uint8Array> {
+  const { heartbeat = 15000, retry, signal } = options;
+  const encoder = new TextEncoder();
+  const iterator = events[Symbol.asyncIterator]();
+  let heartbeatTimer: ReturnType<typeof setInterval> | undefined;
+  let closed = false;
+  let onAbort: (() => void) | undefined;
+
+  const stop = () => {
+    if (closed) return false;
+    closed = true;
+    if (heartbeatTimer) clearInterval(heartbeatTimer);
+    if (onAbort) signal?.removeEventListener('abort', onAbort);
+    return true;
+  };
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (retry !== undefined) {
+        controller.enqueue(encoder.encode(formatServerSentEvent({ retry })));
+      }
+
+      if (heartbeat) {
+        heartbeatTimer = setInterval(() => {
+          if ((controller.desiredSize ?? 0) > 0) {
+            controller.enqueue(encoder.encode(': ping\n\n'));
+          }
+        }, heartbeat);
+      }
+
+      if (signal) {
+        onAbort = () => {
+          if (!stop()) return;
+          iterator.return?.().catch(() => {});
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the reader
+          }
+        };
+        if (signal.aborted) onAbort();
+        else signal.addEventListener('abort', onAbort, { once: true });
+      }
+    },
+
+    async pull(controller) {
+      if (closed) return;
+      try {
+        const result = await iterator.next();
+        if (closed) return;
+        if (result.done) {
+          stop();
+          controller.close();
+          return;
+        }
+        controller.enqueue(encoder.encode(formatServerSentEvent(result.value)));
+      } catch (error) {
+        if (stop()) controller.error(error);
+      }
+    },
+
+    async cancel() {
+      if (stop()) await iterator.return?.();
+    },
+  });
+}
+
+/**
+ * Read events from an event stream body, such as `response.body` of a
+ * fetch with `Accept: text/event-stream`. Comments are skipped; `id` is
+ * carried over to later events as the spec's last event id.
+ */
+export async function* parseServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent, void, unknown> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let lastEventId: string | undefined;
+  let event: string | undefined;
+  let data: string[] = [];
+  let retry: number | undefined;
+
+  const dispatch = (): ServerSentEvent | undefined => {
+    const result: ServerSentEvent | undefined =
+      data.length > 0
+        ? { id: lastEventId, event, data: data.join('\n'), retry }
+        : retry !== undefined
+          ? { retry }
+          : undefined;
+    event = undefined;
+    data = [];
+    retry = undefined;
+    return result;
+  };
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      // A trailing \r may be the first half of \r\n, so wait for more input
+      const lines = buffer.split(/\r\n|\r(?!$)|\n/);
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (line === '') {
+          const dispatched = dispatch();
+          if (dispatched) yield dispatched;
+          continue;
+        }
+        if (line.startsWith(':')) continue;
+
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        let fieldValue = colon === -1 ? '' : line.slice(colon + 1);
+        if (fieldValue.startsWith(' ')) fieldValue = fieldValue.slice(1);
+
+        if (field === 'data') data.push(fieldValue);
+        else if (field === 'event') event = fieldValue;
+        else if (field === 'id' && !fieldValue.includes('\0')) lastEventId = fieldValue;
+        else if (field === 'retry' && /^\d+$/.test(fieldValue)) retry = Number(fieldValue);
+      }
+    }
+  } finally {
+    // Also stops the body when the consumer breaks out early
+    await reader.cancel().catch(() => {});
+  }
+}
@@ -0,0 +1,28 @@
+import { describe, expect, test, afterEach } from 'bun:test';
+import { setTraceHeadersProvider, getTraceHeaders, applyTraceHeaders } from './trace-context';
+
+describe('@ereo/core - Trace Context Propagation', () => {
+  afterEach(() => {
+    setTraceHeadersProvider(null);
+  });
+
+  test('returns nothing without a provider', () => {
+    expect(getTraceHeaders()).toBeUndefined();
+    expect([...applyTraceHeaders(new Headers())]).toEqual([]);
+  });
+
+  test('adds provider headers without overriding existing ones', () => {
+    setTraceHeadersProvider(() => ({ traceparent: '00-a-b-01', tracestate: 'x=1' }));
+
+    const headers = applyTraceHeaders(new Headers({ tracestate: 'mine=1' }));
+    expect(headers.get('traceparent')).toBe('00-a-b-01');
+    expect(headers.get('tracestate')).toBe('mine=1');
+  });
+
+  test('ignores provider errors', () => {
+    setTraceHeadersProvider(() => {
+      throw new Error('broken');
+    });
+    expect(getTraceHeaders()).toBeUndefined();
+  });
+});
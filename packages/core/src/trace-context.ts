@@ -0,0 +1,50 @@
+/**
+ * @ereo/core - Trace Context Propagation
+ *
+ * A registry for the headers that carry the current trace (W3C `traceparent`
+ * and `tracestate`) to outbound requests. A tracer registers a provider;
+ * HTTP clients in the framework merge its headers into every request.
+ * Nothing is added while no provider is registered.
+ */
+
+/**
+ * Returns the trace headers for the current execution context,
+ * or undefined when there is no active trace.
+ */
+export type TraceHeadersProvider = () => Record<string, string> | undefined;
+
+let traceHeadersProvider: TraceHeadersProvider | null = null;
+
+/**
+ * Register the provider of outbound trace headers. Pass null to remove it.
+ */
+export function setTraceHeadersProvider(provider: TraceHeadersProvider | null): void {
+  traceHeadersProvider = provider;
+}
+
+/**
+ * Get the trace headers for the current execution context.
+ */
+export function getTraceHeaders(): Record<string, string> | undefined {
+  if (!traceHeadersProvider) return undefined;
+  try {
+    return traceHeadersProvider();
+  } catch {
+    // Tracing must never break a request
+    return undefined;
+  }
+}
+
+/**
+ * Add the current trace headers to a set of headers.
+ * Headers that are already present are left unchanged.
+ */
+export function applyTraceHeaders(headers: Headers): Headers {
+  const traceHeaders = getTraceHeaders();
+  if (traceHeaders) {
+    for (const [name, value] of Object.entries(traceHeaders)) {
+      if (!headers.has(name)) headers.set(name, value);
+    }
+  }
+  return headers;
+}
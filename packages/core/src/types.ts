@@ -8,6 +8,7 @@
 import type { ReactElement, ComponentType } from 'react';
 import type { EnvConfig } from './env';
 import type { InferParams } from './types/path-parser';
+import type { Revived } from './serialize';
 
 // ============================================================================
 // Configuration Types
@@ -38,8 +39,75 @@ export interface FrameworkConfig {
   routesDir?: string;
   /** Environment variable validation schema */
   env?: EnvConfig;
+  /** Internationalized routing */
+  i18n?: I18nConfig;
+  /** Secrets for signed and encrypted cookies */
+  cookies?: CookieConfig;
+  /** CSRF protection of route actions (default: enabled) */
+  csrf?: boolean | CsrfConfig;
 }
 
+// ============================================================================
+// Internationalization Types
+// ============================================================================
+
+/**
+ * Internationalized routing configuration.
+ *
+ * @example
+ * ```typescript
+ * export default defineConfig({
+ *   i18n: { locales: ['en', 'fr', 'de'], defaultLocale: 'en' },
+ * });
+ * // /about     -> en
+ * // /fr/about  -> fr
+ * ```
+ */
+export interface I18nConfig {
+  /** Supported locales, e.g. ['en', 'fr', 'pt-BR'] */
+  locales: string[];
+  /** Locale used when none is requested */
+  defaultLocale: string;
+  /**
+   * Locale prefix strategy (default: 'except-default').
+   * - 'except-default': `/about` is the default locale, `/fr/about` is French
+   * - 'always': every URL has a prefix; `/about` redirects to the detected locale
+   */
+  prefix?: 'always' | 'except-default';
+  /** Serve locales from their own domains instead of path prefixes */
+  domains?: Array<{ domain: string; locale: string }>;
+  /** Cookie that remembers the chosen locale (default: 'ereo-locale'). Set to false to disable. */
+  cookie?: string | false;
+  /** Redirect unprefixed page requests to the locale from the cookie or Accept-Language (default: true) */
+  detect?: boolean;
+}
+
+/**
+ * Translated messages, nested by namespace.
+ *
+ * @example
+ * ```typescript
+ * { nav: { home: 'Home' }, greeting: 'Hello, {name}!' }
+ * ```
+ */
+export interface Messages {
+  [key: string]: string | Messages;
+}
+
+/**
+ * Function exported from route files to lazily load the route's messages.
+ * Messages of the route and its layouts are merged and delivered with the loader data.
+ *
+ * @example
+ * ```typescript
+ * export const messages: RouteMessagesFunction = ({ locale }) =>
+ *   import(`./locales/${locale}.json`);
+ * ```
+ */
+export type RouteMessagesFunction = (args: {
+  locale: string;
+}) => Messages | { default: Messages } | Promise<Messages | { default: Messages }>;
+
 // ============================================================================
 // Plugin Types
 // ============================================================================
@@ -117,7 +185,11 @@ export interface PrerenderConfig {
   revalidate?: number;
   /** Cache tags for on-demand invalidation */
   tags?: string[] | ((params: RouteParams) => string[]);
-  /** Fallback behavior for non-prerendered paths */
+  /**
+   * Fallback behavior for non-prerendered paths:
+   * 'blocking' renders on demand and stores the page, 'static' renders on
+   * demand without storing, '404' responds with Not Found.
+   */
   fallback?: 'blocking' | 'static' | '404';
 }
 
@@ -256,7 +328,7 @@ export interface AuthConfig {
   required?: boolean;
   /** Required roles */
   roles?: string[];
-  /** Required permissions */
+  /** Required permissions, all of which the user must have (checked with the auth context's `can`) */
   permissions?: string[];
   /** Custom auth check — return boolean for simple allow/deny, or AuthCheckResult for control over the denial response */
   check?: (args: { request: Request; context: AppContext; params: RouteParams }) => boolean | AuthCheckResult | Promise<boolean | AuthCheckResult>;
@@ -336,6 +408,8 @@ export interface RouteConfig {
   route?: RouteCompositionConfig;
   /** Authentication */
   auth?: AuthConfig;
+  /** Verify CSRF tokens on actions (default: true). Set false for actions posted by other sites, e.g. webhooks. */
+  csrf?: boolean;
   /** Development settings */
   dev?: DevConfig;
   /** Error recovery */
@@ -412,6 +486,8 @@ export interface RouteModule {
   headers?: HeadersFunction;
   /** Per-route link descriptors for CSS/assets injected into <head> */
   links?: LinksFunction;
+  /** Lazily loaded translations for the route (requires `i18n` config) */
+  messages?: RouteMessagesFunction;
   handle?: RouteHandle;
   /**
    * Inline middleware exported directly from the route module.
@@ -448,6 +524,8 @@ export interface RouteModule {
   OPTIONS?: MethodHandlerFunction;
   /** HTTP HEAD handler */
   HEAD?: MethodHandlerFunction;
+  /** OpenAPI description of the method handlers */
+  openapi?: RouteOpenAPI;
 
   // --- WebSocket ---
 
@@ -525,6 +603,35 @@ export type MethodHandlerFunction<T = unknown, P = RouteParams> = (
   args: LoaderArgs<P>
 ) => T | Response | Promise<T | Response>;
 
+/**
+ * OpenAPI description of one method handler.
+ * Schemas may be Standard Schema, Zod-like or plain JSON Schema objects.
+ */
+export interface OpenAPIOperationConfig {
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  deprecated?: boolean;
+  /** Stable operation ID (default: derived from method and path) */
+  operationId?: string;
+  /** Query string schema (an object schema; each property is a parameter) */
+  query?: unknown;
+  /** JSON request body schema */
+  body?: unknown;
+  /** Response body schemas by status code (default: an undescribed 200) */
+  responses?: Record<number, unknown>;
+}
+
+/**
+ * `export const openapi` from an API route: per-method descriptions,
+ * plus tags shared by every method of the route.
+ */
+export type RouteOpenAPI = {
+  tags?: string[];
+} & {
+  [M in 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH' | 'OPTIONS' | 'HEAD']?: OpenAPIOperationConfig;
+};
+
 // ============================================================================
 // Route Guard Types
 // ============================================================================
@@ -929,6 +1036,50 @@ export interface CookieSetOptions {
   sameSite?: 'Strict' | 'Lax' | 'None';
 }
 
+/**
+ * Cookie configuration.
+ *
+ * @example
+ * ```typescript
+ * export default defineConfig({
+ *   // Prepend a new secret to rotate; old cookies stay readable
+ *   cookies: { secrets: [process.env.COOKIE_SECRET!, process.env.OLD_COOKIE_SECRET!] },
+ * });
+ * ```
+ */
+export interface CookieConfig {
+  /** Secrets for signed and encrypted cookies. The first signs and encrypts; all are tried when reading. */
+  secrets: string[];
+}
+
+// ============================================================================
+// CSRF Types
+// ============================================================================
+
+/**
+ * CSRF protection of route actions.
+ *
+ * Actions are rejected when the `Origin` (or `Sec-Fetch-Site`) header names
+ * another site, and, for requests carrying cookies, when the submitted
+ * token does not match the token cookie.
+ *
+ * @example
+ * ```typescript
+ * export default defineConfig({
+ *   csrf: { trustedOrigins: ['https://admin.example.com'] },
+ * });
+ * ```
+ */
+export interface CsrfConfig {
+  /** Other origins allowed to submit actions, e.g. 'https://admin.example.com' */
+  trustedOrigins?: string[];
+  /**
+   * Mark the token cookie `Secure`. Defaults to on outside development, and
+   * to HTTPS requests only in development.
+   */
+  secure?: boolean;
+}
+
 export interface CookieJar {
   /** Get a cookie value by name */
   get(name: string): string | undefined;
@@ -940,6 +1091,14 @@ export interface CookieJar {
   delete(name: string, options?: Pick<CookieSetOptions, 'path' | 'domain'>): void;
   /** Check if a cookie exists */
   has(name: string): boolean;
+  /** Set a cookie signed with HMAC-SHA256. The value stays readable by the client. */
+  setSigned(name: string, value: string, options?: CookieSetOptions): Promise<void>;
+  /** Get a signed cookie, or undefined if it is missing or its signature is invalid */
+  getSigned(name: string): Promise<string | undefined>;
+  /** Set a cookie encrypted with AES-256-GCM */
+  setEncrypted(name: string, value: string, options?: CookieSetOptions): Promise<void>;
+  /** Get an encrypted cookie, or undefined if it is missing or cannot be decrypted */
+  getEncrypted(name: string): Promise<string | undefined>;
 }
 
 // ============================================================================
@@ -961,6 +1120,8 @@ export interface AppContext {
   env: Record<string, string | undefined>;
   /** Cookie jar for reading/writing cookies (optional for backward compat) */
   cookies?: CookieJar;
+  /** CSRF token of the visitor, issuing the token cookie on first use (optional for backward compat) */
+  csrfToken?: () => string;
 }
 
 // ============================================================================
@@ -1019,13 +1180,13 @@ export type DeepPartial<T> = {
   [P in keyof T]?: T[P] extends object ? DeepPartial<T[P]> : T[P];
 };
 
-/** Extract loader data type from a route module */
+/** Extract loader data type from a route module, as revived on the client */
 export type InferLoaderData<T extends RouteModule> =
-  T['loader'] extends LoaderFunction<infer D> ? D : never;
+  T['loader'] extends LoaderFunction<infer D> ? Revived<D> : never;
 
-/** Extract action data type from a route module */
+/** Extract action data type from a route module, as revived on the client */
 export type InferActionData<T extends RouteModule> =
-  T['action'] extends ActionFunction<infer D> ? D : never;
+  T['action'] extends ActionFunction<infer D> ? Revived<D> : never;
 
 // ============================================================================
 // Route Type Registry (for type-safe routing)
@@ -584,7 +584,8 @@ export function throwRedirect(url: string, init?: number | ResponseInit): never
 
 /**
  * XSS-safe data response helper.
- * Uses serializeLoaderData to escape dangerous characters.
+ * Uses serializeLoaderData to escape dangerous characters and keep rich
+ * types (Date, Map, Set, ...) intact for the client.
  */
 export function data<T>(value: T, init?: ResponseInit): Response {
   const headers = new Headers(init?.headers);
@@ -0,0 +1,166 @@
+/**
+ * @ereo/data - Batch Loader Tests
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { createContext } from '@ereo/core';
+import { createBatchLoader, getBatchMetrics } from './batch';
+import { createPipeline } from './pipeline';
+
+const createRequestContext = () => createContext(new Request('http://localhost:3000/'));
+
+/** Batch function that records its calls and doubles every key */
+function createDoubler() {
+  const calls: number[][] = [];
+  const batchFn = async (keys: number[]) => {
+    calls.push(keys);
+    return keys.map((key) => key * 2);
+  };
+  return { calls, batchFn };
+}
+
+describe('createBatchLoader', () => {
+  test('batches keys requested in the same tick', async () => {
+    const { calls, batchFn } = createDoubler();
+    const loader = createBatchLoader(batchFn);
+    const context = createRequestContext();
+
+    const values = await Promise.all([loader.load(context, 1), loader.load(context, 2), loader.load(context, 3)]);
+
+    expect(values).toEqual([2, 4, 6]);
+    expect(calls).toEqual([[1, 2, 3]]);
+  });
+
+  test('joins keys from loaders that awaited first', async () => {
+    const { calls, batchFn } = createDoubler();
+    const loader = createBatchLoader(batchFn);
+    const context = createRequestContext();
+
+    const routeLoader = async () => loader.load(context, 1);
+    const layoutLoader = async () => {
+      await Promise.resolve();
+      return loader.load(context, 2);
+    };
+
+    expect(await Promise.all([routeLoader(), layoutLoader()])).toEqual([2, 4]);
+    expect(calls).toEqual([[1, 2]]);
+  });
+
+  test('caches values per key for the request', async () => {
+    const { calls, batchFn } = createDoubler();
+    const loader = createBatchLoader(batchFn);
+    const context = createRequestContext();
+
+    await loader.loadMany(context, [1, 2, 2]);
+    expect(await loader.load(context, 1)).toBe(2);
+    expect(calls).toEqual([[1, 2]]);
+
+    // Another request has its own cache
+    await loader.load(createRequestContext(), 1);
+    expect(calls).toEqual([[1, 2], [1]]);
+  });
+
+  test('supports priming, clearing and disabling the cache', async () => {
+    const { calls, batchFn } = createDoubler();
+    const loader = createBatchLoader(batchFn);
+    const context = createRequestContext();
+
+    loader.prime(context, 5, 100);
+    expect(await loader.load(context, 5)).toBe(100);
+    loader.clear(context, 5);
+    expect(await loader.load(context, 5)).toBe(10);
+
+    const uncached = createBatchLoader(batchFn, { cache: false });
+    await uncached.load(context, 7);
+    await uncached.load(context, 7);
+    expect(calls).toEqual([[5], [7], [7]]);
+  });
+
+  test('uses cacheKey for object keys', async () => {
+    const calls: Array<{ id: number }[]> = [];
+    const loader = createBatchLoader(
+      async (keys: { id: number }[]) => {
+        calls.push(keys);
+        return keys.map((key) => key.id);
+      },
+      { cacheKey: (key) => key.id }
+    );
+    const context = createRequestContext();
+
+    await Promise.all([loader.load(context, { id: 1 }), loader.load(context, { id: 1 })]);
+    expect(calls).toEqual([[{ id: 1 }]]);
+  });
+
+  test('splits batches larger than maxBatchSize', async () => {
+    const { calls, batchFn } = createDoubler();
+    const loader = createBatchLoader(batchFn, { maxBatchSize: 2 });
+
+    await loader.loadMany(createRequestContext(), [1, 2, 3, 4, 5]);
+    expect(calls).toEqual([[1, 2], [3, 4], [5]]);
+    expect(() => createBatchLoader(batchFn, { maxBatchSize: 0 })).toThrow('maxBatchSize');
+  });
+
+  test('rejects keys the batch function returned an Error for', async () => {
+    let attempts = 0;
+    const loader = createBatchLoader(async (keys: number[]) => {
+      attempts++;
+      return keys.map((key) => (key === 2 && attempts === 1 ? new Error('Not found: 2') : key));
+    });
+    const context = createRequestContext();
+
+    const [one, two] = await Promise.allSettled([loader.load(context, 1), loader.load(context, 2)]);
+    expect(one).toEqual({ status: 'fulfilled', value: 1 });
+    expect(two.status).toBe('rejected');
+
+    // Failed keys are not cached
+    expect(await loader.load(context, 2)).toBe(2);
+  });
+
+  test('rejects every key when the batch function fails or returns the wrong length', async () => {
+    const context = createRequestContext();
+    const failing = createBatchLoader(async () => {
+      throw new Error('database down');
+    });
+    const short = createBatchLoader(async () => [1], { name: 'short' });
+
+    await expect(failing.loadMany(context, [1, 2])).rejects.toThrow('database down');
+    await expect(short.loadMany(context, [1, 2])).rejects.toThrow(
+      'Batch loader "short" must return one value per key: got 1 for 2 keys'
+    );
+  });
+});
+
+describe('batch metrics', () => {
+  test('records every batch call on the request', async () => {
+    const { batchFn } = createDoubler();
+    const loader = createBatchLoader(batchFn, { name: 'users' });
+    const context = createRequestContext();
+
+    await loader.loadMany(context, [1, 2, 3]);
+
+    const [batch] = getBatchMetrics(context);
+    expect(batch).toMatchObject({ loader: 'users', size: 3 });
+    expect(batch.duration).toBeGreaterThanOrEqual(0);
+    expect(getBatchMetrics(createRequestContext())).toEqual([]);
+  });
+
+  test('includes batches in pipeline metrics', async () => {
+    const { calls, batchFn } = createDoubler();
+    const users = createBatchLoader(batchFn, { name: 'users' });
+    const context = createRequestContext();
+
+    const pipeline = createPipeline({
+      loaders: {
+        author: { load: ({ context }) => users.load(context, 1) },
+        editor: { load: ({ context }) => users.load(context, 2) },
+      },
+    });
+    const result = await pipeline.execute({ request: new Request('http://localhost:3000/'), params: {}, context });
+
+    expect(result.data).toEqual({ author: 2, editor: 4 });
+    expect(calls).toEqual([[1, 2]]);
+    expect(result.metrics.batches).toHaveLength(1);
+    expect(result.metrics.batches![0]).toMatchObject({ loader: 'users', size: 2 });
+    expect(result.metrics.batches![0].startTime).toBeLessThanOrEqual(result.metrics.total);
+  });
+});
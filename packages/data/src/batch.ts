@@ -0,0 +1,287 @@
+/**
+ * @ereo/data - Batch Loader
+ *
+ * Request-scoped batching (DataLoader-style). Keys requested by parallel
+ * loaders in the same tick are collected and loaded with one call, so
+ * fetching 50 users by id becomes one `IN (...)` query instead of 50.
+ */
+
+import type { AppContext } from '@ereo/core';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Loads values for a batch of keys.
+ * Must return one value (or Error) per key, in the same order as the keys.
+ */
+export type BatchFunction<K, V> = (
+  keys: K[],
+  context: AppContext
+) => ReadonlyArray<V | Error> | Promise<ReadonlyArray<V | Error>>;
+
+/**
+ * Batch loader options.
+ */
+export interface BatchLoaderOptions<K> {
+  /** Name shown in pipeline metrics, traces and DevTools (default: 'batch') */
+  name?: string;
+  /** Maximum number of keys per batch call (default: unlimited) */
+  maxBatchSize?: number;
+  /** Cache loaded values per key for the rest of the request (default: true) */
+  cache?: boolean;
+  /** Map a key to the value it is cached under, for object keys (default: the key itself) */
+  cacheKey?: (key: K) => unknown;
+}
+
+/**
+ * Request-scoped batch loader.
+ */
+export interface BatchLoader<K, V> {
+  /** Loader name */
+  readonly name: string;
+  /** Load a single value. Calls made in the same tick are batched. */
+  load(context: AppContext, key: K): Promise<V>;
+  /** Load several values in one batch. Rejects if any key fails. */
+  loadMany(context: AppContext, keys: readonly K[]): Promise<V[]>;
+  /** Put a value in the request cache, e.g. after loading it some other way */
+  prime(context: AppContext, key: K, value: V): void;
+  /** Drop a key, or every key, from the request cache */
+  clear(context: AppContext, key?: K): void;
+}
+
+/**
+ * A batch call, as recorded for metrics.
+ */
+export interface BatchMetrics {
+  /** Batch loader name */
+  loader: string;
+  /** Number of keys in the batch */
+  size: number;
+  /** Start time (`performance.now()`, or relative to pipeline start in PipelineMetrics) */
+  startTime: number;
+  /** End time */
+  endTime: number;
+  /** Duration in ms */
+  duration: number;
+  /** Error message if the batch call failed */
+  error?: string;
+}
+
+/** Internal queued key */
+interface PendingKey<K, V> {
+  key: K;
+  cacheKey: unknown;
+  resolve: (value: V) => void;
+  reject: (error: Error) => void;
+}
+
+/** Internal per-request loader state */
+interface BatchState<K, V> {
+  cache: Map<unknown, Promise<V>>;
+  queue: PendingKey<K, V>[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Key used to store batch metrics in request context */
+const BATCH_METRICS_KEY = '__ereo_batch_metrics';
+
+/** Counter giving every batch loader its own context key */
+let loaderCount = 0;
+
+// ============================================================================
+// Batch Loader
+// ============================================================================
+
+/**
+ * Run a function once the current tick's promise callbacks have settled,
+ * so keys requested by loaders that awaited something first still join.
+ */
+function scheduleDispatch(fn: () => void): void {
+  Promise.resolve().then(() => {
+    if (typeof setImmediate === 'function') {
+      setImmediate(fn);
+    } else {
+      setTimeout(fn, 0);
+    }
+  });
+}
+
+/**
+ * Create a request-scoped batch loader.
+ *
+ * Define the loader once at module level; every request gets its own queue
+ * and cache through the context passed to `load`.
+ *
+ * @example
+ * const userLoader = createBatchLoader(
+ *   async (ids: number[]) => {
+ *     const rows = await db.select().from(users).where(inArray(users.id, ids));
+ *     return ids.map((id) => rows.find((row) => row.id === id) ?? new Error(`User ${id} not found`));
+ *   },
+ *   { name: 'users' }
+ * );
+ *
+ * // Route and layout loaders running in parallel share one query
+ * export const loader = createLoader(async ({ params, context }) => {
+ *   return { author: await userLoader.load(context, Number(params.id)) };
+ * });
+ */
+export function createBatchLoader<K, V>(
+  batchFn: BatchFunction<K, V>,
+  options: BatchLoaderOptions<K> = {}
+): BatchLoader<K, V> {
+  const {
+    name = 'batch',
+    maxBatchSize = Infinity,
+    cache = true,
+    cacheKey = (key: K) => key,
+  } = options;
+
+  if (!(maxBatchSize >= 1)) {
+    throw new Error(`Batch loader "${name}": maxBatchSize must be at least 1`);
+  }
+
+  const stateKey = `__ereo_batch:${++loaderCount}`;
+
+  const getState = (context: AppContext): BatchState<K, V> => {
+    let state = context.get<BatchState<K, V>>(stateKey);
+    if (!state) {
+      state = { cache: new Map(), queue: [] };
+      context.set(stateKey, state);
+    }
+    return state;
+  };
+
+  const runBatch = async (
+    context: AppContext,
+    state: BatchState<K, V>,
+    batch: PendingKey<K, V>[]
+  ): Promise<void> => {
+    const startTime = performance.now();
+    let error: Error | undefined;
+
+    try {
+      const values = await batchFn(batch.map((pending) => pending.key), context);
+
+      if (!Array.isArray(values) || values.length !== batch.length) {
+        throw new Error(
+          `Batch loader "${name}" must return one value per key: got ${Array.isArray(values) ? values.length : typeof values} for ${batch.length} keys`
+        );
+      }
+
+      batch.forEach((pending, i) => {
+        const value = values[i];
+        if (value instanceof Error) {
+          state.cache.delete(pending.cacheKey);
+          pending.reject(value);
+        } else {
+          pending.resolve(value as V);
+        }
+      });
+    } catch (err) {
+      error = err instanceof Error ? err : new Error(String(err));
+      for (const pending of batch) {
+        state.cache.delete(pending.cacheKey);
+        pending.reject(error);
+      }
+    }
+
+    const endTime = performance.now();
+    recordBatch(context, {
+      loader: name,
+      size: batch.length,
+      startTime,
+      endTime,
+      duration: endTime - startTime,
+      ...(error ? { error: error.message } : {}),
+    });
+  };
+
+  const dispatch = (context: AppContext, state: BatchState<K, V>): void => {
+    const queue = state.queue;
+    state.queue = [];
+
+    for (let i = 0; i < queue.length; i += maxBatchSize) {
+      void runBatch(context, state, queue.slice(i, i + maxBatchSize));
+    }
+  };
+
+  const loader: BatchLoader<K, V> = {
+    name,
+
+    load(context, key) {
+      const state = getState(context);
+      const id = cacheKey(key);
+
+      if (cache) {
+        const cached = state.cache.get(id);
+        if (cached) return cached;
+      }
+
+      const promise = new Promise<V>((resolve, reject) => {
+        if (state.queue.length === 0) {
+          scheduleDispatch(() => dispatch(context, state));
+        }
+        state.queue.push({ key, cacheKey: id, resolve, reject });
+      });
+
+      if (cache) {
+        state.cache.set(id, promise);
+      }
+      return promise;
+    },
+
+    loadMany(context, keys) {
+      return Promise.all(keys.map((key) => loader.load(context, key)));
+    },
+
+    prime(context, key, value) {
+      if (cache) {
+        getState(context).cache.set(cacheKey(key), Promise.resolve(value));
+      }
+    },
+
+    clear(context, key) {
+      const state = getState(context);
+      if (key === undefined) {
+        state.cache.clear();
+      } else {
+        state.cache.delete(cacheKey(key));
+      }
+    },
+  };
+
+  return loader;
+}
+
+// ============================================================================
+// Metrics
+// ============================================================================
+
+/**
+ * Record a finished batch call on the request.
+ */
+function recordBatch(context: AppContext, metrics: BatchMetrics): void {
+  let batches = context.get<BatchMetrics[]>(BATCH_METRICS_KEY);
+  if (!batches) {
+    batches = [];
+    context.set(BATCH_METRICS_KEY, batches);
+  }
+  batches.push(metrics);
+}
+
+/**
+ * Get the batch calls made during a request, in the order they finished.
+ *
+ * @example
+ * const batches = getBatchMetrics(context);
+ * // [{ loader: 'users', size: 12, duration: 4.2, ... }]
+ */
+export function getBatchMetrics(context: AppContext): BatchMetrics[] {
+  return context.get<BatchMetrics[]>(BATCH_METRICS_KEY) ?? [];
+}
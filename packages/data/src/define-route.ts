@@ -47,6 +47,7 @@ import type {
   LinksFunction,
   MethodHandlerFunction,
   BeforeLoadFunction,
+  Revived,
 } from '@ereo/core';
 
 // ============================================================================
@@ -1113,7 +1114,7 @@ function formDataToObject(formData: FormData): Record<string, unknown> {
 // ============================================================================
 
 /**
- * Extract loader data type from a route definition.
+ * Extract loader data type from a route definition, as revived on the client.
  */
 export type InferLoaderData<T> = T extends RouteDefinition<
   infer _Path,
@@ -1122,11 +1123,11 @@ export type InferLoaderData<T> = T extends RouteDefinition<
   infer _ActionData,
   infer _ActionBody
 >
-  ? LoaderData
+  ? Revived<LoaderData>
   : never;
 
 /**
- * Extract action data type from a route definition.
+ * Extract action data type from a route definition, as revived on the client.
  */
 export type InferActionData<T> = T extends RouteDefinition<
   infer _Path,
@@ -1135,7 +1136,7 @@ export type InferActionData<T> = T extends RouteDefinition<
   infer ActionData,
   infer _ActionBody
 >
-  ? ActionData
+  ? Revived<ActionData>
   : never;
 
 /**
@@ -0,0 +1,53 @@
+import { describe, expect, test } from 'bun:test';
+import { parseServerSentEvents, parseData, type ServerSentEvent } from '@ereo/core';
+import { eventStream, type InferEvents } from './event-stream';
+
+async function readEvents(response: Response): Promise<ServerSentEvent[]> {
+  const events: ServerSentEvent[] = [];
+  for await (const event of parseServerSentEvents(response.body!)) events.push(event);
+  return events;
+}
+
+type Events = { price: { symbol: string; at: Date }; status: string };
+
+function GET({ request }: { request: Request }) {
+  return eventStream<Events>(request, async function* ({ lastEventId }) {
+    yield { event: 'status', data: lastEventId ? `resumed after ${lastEventId}` : 'open' };
+    yield { event: 'price', data: { symbol: 'ACME', at: new Date('2026-01-01T00:00:00.000Z') }, id: 'p1' };
+  }, { heartbeat: false });
+}
+
+describe('@ereo/data - eventStream', () => {
+  test('streams named events with serialized data', async () => {
+    const response = GET({ request: new Request('http://localhost/prices') });
+
+    expect(response.headers.get('Content-Type')).toContain('text/event-stream');
+    expect(response.headers.get('Cache-Control')).toContain('no-cache');
+
+    const [status, price] = await readEvents(response);
+    expect(status).toMatchObject({ event: 'status', data: '"open"' });
+    expect(price).toMatchObject({ event: 'price', id: 'p1' });
+    expect(parseData<Events['price']>(price.data!).at).toBeInstanceOf(Date);
+  });
+
+  test('passes Last-Event-ID to the source', async () => {
+    const request = new Request('http://localhost/prices', { headers: { 'Last-Event-ID': 'p1' } });
+    const [status] = await readEvents(GET({ request }));
+
+    expect(status.data).toBe('"resumed after p1"');
+  });
+
+  test('keeps custom headers', () => {
+    const response = eventStream(new Request('http://localhost/'), async function* () {}, {
+      heartbeat: false,
+      headers: { 'X-Stream': 'prices' },
+    });
+
+    expect(response.headers.get('X-Stream')).toBe('prices');
+  });
+
+  test('infers the event map of a handler', () => {
+    const status: InferEvents<typeof GET>['status'] = 'open';
+    expect(status).toBe('open');
+  });
+});
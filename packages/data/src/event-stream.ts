@@ -0,0 +1,115 @@
+/**
+ * @ereo/data - Event Streams
+ *
+ * Server-Sent Events responses for method handlers. Events are typed by
+ * name, serialized like loader data, and read on the client with
+ * `useEventSource` from `@ereo/client`.
+ */
+
+import { serializeData, createEventStream, EVENT_STREAM_HEADERS } from '@ereo/core';
+import type { ServerSentEvent } from '@ereo/core';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Map of event names to the data they carry.
+ */
+export type EventMap = Record<string, unknown>;
+
+/**
+ * One event of a stream: its name, data and optional id.
+ * Clients that reconnect send the last id back as `lastEventId`.
+ */
+export type EventStreamMessage<TEvents extends EventMap> = {
+  [K in keyof TEvents & string]: { event: K; data: TEvents[K]; id?: string };
+}[keyof TEvents & string];
+
+/**
+ * Passed to the event source.
+ */
+export interface EventStreamContext {
+  /** Id of the last event the client received before reconnecting */
+  lastEventId?: string;
+  /** Aborted when the client disconnects */
+  signal: AbortSignal;
+}
+
+/**
+ * Event stream options.
+ */
+export interface EventStreamInit {
+  /** Interval of keep-alive comments in milliseconds, or false to disable (default: 15000) */
+  heartbeat?: number | false;
+  /** Reconnect delay sent to the client in milliseconds */
+  retry?: number;
+  /** Extra response headers */
+  headers?: HeadersInit;
+}
+
+/**
+ * Response carrying typed events. The type parameter only exists for
+ * inference, e.g. `useEventSource<InferEvents<typeof GET>>(...)`.
+ */
+export type EventStreamResponse<TEvents extends EventMap> = Response & {
+  readonly __events?: TEvents;
+};
+
+/**
+ * Infer the event map of a handler returning an event stream.
+ */
+export type InferEvents<T> = T extends (...args: any[]) => infer R
+  ? Awaited<R> extends EventStreamResponse<infer TEvents>
+    ? TEvents
+    : never
+  : never;
+
+// ============================================================================
+// Response
+// ============================================================================
+
+/**
+ * Stream events to the client as Server-Sent Events.
+ *
+ * The source is an async iterable; it is only advanced while the client
+ * keeps up, and is closed when the client disconnects.
+ *
+ * @example
+ * export function GET({ request }: { request: Request }) {
+ *   return eventStream<{ price: Quote; status: string }>(request, async function* ({ lastEventId, signal }) {
+ *     yield { event: 'status', data: 'open' };
+ *     for await (const quote of quotesSince(lastEventId, signal)) {
+ *       yield { event: 'price', data: quote, id: quote.id };
+ *     }
+ *   });
+ * }
+ */
+export function eventStream<TEvents extends EventMap>(
+  request: Request,
+  source: (context: EventStreamContext) => AsyncIterable<EventStreamMessage<TEvents>>,
+  init: EventStreamInit = {}
+): EventStreamResponse<TEvents> {
+  const context: EventStreamContext = {
+    lastEventId: request.headers.get('Last-Event-ID') ?? undefined,
+    signal: request.signal,
+  };
+
+  async function* events(): AsyncGenerator<ServerSentEvent> {
+    for await (const message of source(context)) {
+      yield { id: message.id, event: message.event, data: serializeData(message.data) };
+    }
+  }
+
+  const headers = new Headers(init.headers);
+  for (const [name, value] of Object.entries(EVENT_STREAM_HEADERS)) {
+    if (!headers.has(name)) headers.set(name, value);
+  }
+
+  const body = createEventStream(events(), {
+    heartbeat: init.heartbeat,
+    retry: init.retry,
+    signal: request.signal,
+  });
+  return new Response(body, { headers });
+}
@@ -16,6 +16,7 @@ export {
   fetchData,
   FetchError,
   serializeLoaderData,
+  serializeLoaderDataAsync,
   parseLoaderData,
   combineLoaders,
   clientLoader,
@@ -76,9 +77,10 @@ export {
   createRevalidationHandler,
   tags,
   onDemandRevalidate,
+  onRevalidate,
 } from './revalidate';
 
-export type { RevalidateOptions, RevalidateResult } from './revalidate';
+export type { RevalidateOptions, RevalidateResult, RevalidationEvent, RevalidationListener } from './revalidate';
 
 // Data Pipeline (auto-parallelization)
 export {
@@ -101,6 +103,33 @@ export type {
   WaterfallInfo,
 } from './pipeline';
 
+// Batch Loader (request-scoped batching)
+export {
+  createBatchLoader,
+  getBatchMetrics,
+} from './batch';
+
+export type {
+  BatchLoader,
+  BatchLoaderOptions,
+  BatchFunction,
+  BatchMetrics,
+} from './batch';
+
+// Event Streams (Server-Sent Events)
+export {
+  eventStream,
+} from './event-stream';
+
+export type {
+  EventMap,
+  EventStreamMessage,
+  EventStreamContext,
+  EventStreamInit,
+  EventStreamResponse,
+  InferEvents,
+} from './event-stream';
+
 // Route Definition Builder (stable type inference)
 export {
   defineRoute,
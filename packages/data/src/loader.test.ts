@@ -1,4 +1,5 @@
 import { describe, expect, test, beforeEach } from 'bun:test';
+import { setTraceHeadersProvider } from '@ereo/core';
 import {
   createLoader,
   defer,
@@ -9,6 +10,7 @@ import {
   fetchData,
   FetchError,
   serializeLoaderData,
+  serializeLoaderDataAsync,
   parseLoaderData,
   combineLoaders,
   clientLoader,
@@ -264,6 +266,33 @@ describe('@ereo/data - Loader', () => {
 
       expect(parsed).toEqual(original);
     });
+
+    test('revives rich types from serializeLoaderData', () => {
+      const original = {
+        publishedAt: new Date('2024-05-01T00:00:00.000Z'),
+        tags: new Set(['a']),
+        views: 10n,
+      };
+      const parsed = parseLoaderData<typeof original>(serializeLoaderData(original));
+
+      expect(parsed.publishedAt).toBeInstanceOf(Date);
+      expect(parsed.publishedAt.getTime()).toBe(original.publishedAt.getTime());
+      expect(parsed.tags.has('a')).toBe(true);
+      expect(parsed.views).toBe(10n);
+    });
+  });
+
+  describe('serializeLoaderDataAsync', () => {
+    test('resolves deferred data and settles promises', async () => {
+      const serialized = await serializeLoaderDataAsync({
+        comments: defer(Promise.resolve([new Date(0)])),
+        stats: Promise.resolve(new Map([['views', 3]])),
+      });
+      const parsed = parseLoaderData<{ comments: Date[]; stats: Promise<Map<string, number>> }>(serialized);
+
+      expect(parsed.comments[0]).toBeInstanceOf(Date);
+      expect((await parsed.stats).get('views')).toBe(3);
+    });
   });
 
   describe('combineLoaders', () => {
@@ -648,6 +677,30 @@ describe('@ereo/data - Loader', () => {
         globalThis.fetch = originalFetch;
       }
     });
+
+    test('adds trace context headers when tracing is active', async () => {
+      const originalFetch = globalThis.fetch;
+      let receivedHeaders: Headers | undefined;
+
+      globalThis.fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+        receivedHeaders = new Headers(init?.headers);
+        return new Response('{}', {
+          status: 200,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      };
+      setTraceHeadersProvider(() => ({ traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01' }));
+
+      try {
+        await fetchData('http://test.com/api', { headers: { 'X-Custom': 'value' } });
+
+        expect(receivedHeaders?.get('traceparent')).toBe('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01');
+        expect(receivedHeaders?.get('X-Custom')).toBe('value');
+      } finally {
+        setTraceHeadersProvider(null);
+        globalThis.fetch = originalFetch;
+      }
+    });
   });
 
   describe('hasDeferredData', () => {
@@ -688,6 +741,14 @@ describe('@ereo/data - Loader', () => {
       expect(hasDeferredData({})).toBe(false);
       expect(hasDeferredData([])).toBe(false);
     });
+
+    test('returns true for bare promises', () => {
+      expect(hasDeferredData({ stats: Promise.resolve(1) })).toBe(true);
+    });
+
+    test('returns false for dates and other class instances', () => {
+      expect(hasDeferredData({ at: new Date(), ids: new Map([[1, 'a']]) })).toBe(false);
+    });
   });
 
   describe('resolveAllDeferred', () => {
@@ -745,6 +806,14 @@ describe('@ereo/data - Loader', () => {
       expect(order).toEqual([2, 1]);
     });
 
+    test('keeps dates, maps and other class instances intact', async () => {
+      const at = new Date(0);
+      const ids = new Map([[1, 'a']]);
+      const result = await resolveAllDeferred({ at, ids, extra: defer(Promise.resolve(1)) });
+      expect(result.at).toBe(at);
+      expect(result.ids).toBe(ids);
+    });
+
     test('propagates rejection from deferred data', async () => {
       const deferred = defer(Promise.reject(new Error('failed')));
       await expect(resolveAllDeferred({ data: deferred })).rejects.toThrow('failed');
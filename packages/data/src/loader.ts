@@ -12,6 +12,7 @@ import type {
   RouteParams,
   CacheOptions,
 } from '@ereo/core';
+import { serializeData, serializeDataAsync, parseData, getTraceHeaders, applyTraceHeaders } from '@ereo/core';
 
 /**
  * Options for creating a loader.
@@ -142,14 +143,20 @@ export async function resolveDeferred<T>(deferred: DeferredData<T>): Promise<T>
   return deferred.promise;
 }
 
+function isPlainObject(value: object): boolean {
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
 /**
- * Recursively check if any value in a data structure is DeferredData.
+ * Recursively check if any value in a data structure is DeferredData or a promise.
  * Used as a fast-path guard: skip async resolution when no deferred data exists.
  */
 export function hasDeferredData(data: unknown): boolean {
   if (data == null || typeof data !== 'object') return false;
-  if (isDeferred(data)) return true;
+  if (isDeferred(data) || data instanceof Promise) return true;
   if (Array.isArray(data)) return data.some(hasDeferredData);
+  if (!isPlainObject(data)) return false;
   for (const value of Object.values(data as Record<string, unknown>)) {
     if (hasDeferredData(value)) return true;
   }
@@ -172,6 +179,9 @@ export async function resolveAllDeferred<T>(data: T): Promise<T> {
     return await Promise.all(data.map(resolveAllDeferred)) as T;
   }
 
+  // Dates, Maps, class instances etc. are left intact for serialization
+  if (!isPlainObject(data)) return data;
+
   const entries = Object.entries(data as Record<string, unknown>);
   const resolvedEntries = await Promise.all(
     entries.map(async ([key, value]) => [key, await resolveAllDeferred(value)])
@@ -181,11 +191,17 @@ export async function resolveAllDeferred<T>(data: T): Promise<T> {
 
 /**
  * Helper to extract data from a fetch response.
+ * The current trace context (`traceparent`) is sent along when tracing is enabled.
  */
 export async function fetchData<T>(
   input: RequestInfo | URL,
   init?: RequestInit
 ): Promise<T> {
+  if (getTraceHeaders()) {
+    const headers = new Headers(init?.headers ?? (input instanceof Request ? input.headers : undefined));
+    init = { ...init, headers: applyTraceHeaders(headers) };
+  }
+
   const response = await fetch(input, init);
 
   if (!response.ok) {
@@ -227,26 +243,27 @@ export class FetchError extends Error {
 
 /**
  * Helper to safely serialize loader data.
- * Prevents XSS by escaping dangerous characters.
+ * Prevents XSS by escaping dangerous characters, and preserves Dates, Maps,
+ * Sets, BigInts, undefined and registered custom types (see `registerSerializer`).
  */
 export function serializeLoaderData(data: unknown): string {
-  const json = JSON.stringify(data);
-  // Escape characters that could break out of script tags or cause issues in JS contexts
-  return json
-    .replace(/</g, '\\u003c')
-    .replace(/>/g, '\\u003e')
-    .replace(/&/g, '\\u0026')
-    .replace(/'/g, '\\u0027')
-    .replace(/\u2028/g, '\\u2028')
-    .replace(/\u2029/g, '\\u2029');
+  return serializeData(data);
+}
+
+/**
+ * Resolve deferred data and serialize loader data.
+ * Bare promises are settled and arrive on the client as resolved or rejected promises.
+ */
+export async function serializeLoaderDataAsync(data: unknown): Promise<string> {
+  return serializeDataAsync(await resolveAllDeferred(data));
 }
 
 /**
- * Parse serialized loader data.
+ * Parse serialized loader data, reviving rich types.
  */
 export function parseLoaderData<T>(serialized: string): T {
   try {
-    return JSON.parse(serialized);
+    return parseData<T>(serialized);
   } catch {
     throw new Error(`Failed to parse loader data: invalid JSON`);
   }
@@ -6,6 +6,7 @@
  */
 
 import type { LoaderArgs, RouteParams, AppContext } from '@ereo/core';
+import { getBatchMetrics, type BatchMetrics } from './batch';
 
 // ============================================================================
 // Types
@@ -70,6 +71,8 @@ export interface PipelineMetrics {
   parallelEfficiency: number;
   /** Detected waterfalls */
   waterfalls: WaterfallInfo[];
+  /** Batch loader calls made while the pipeline ran (times relative to pipeline start) */
+  batches?: BatchMetrics[];
 }
 
 /**
@@ -239,6 +242,17 @@ export function createPipeline<
 
       const totalTime = performance.now() - startTime;
 
+      // Batch loader calls made by this pipeline's loaders
+      const batches = args.context
+        ? getBatchMetrics(args.context)
+            .filter((batch) => batch.startTime >= startTime)
+            .map((batch) => ({
+              ...batch,
+              startTime: batch.startTime - startTime,
+              endTime: batch.endTime - startTime,
+            }))
+        : [];
+
       // Calculate metrics
       const waterfalls = detectWaterfalls(loaderMetrics, graph);
       const parallelEfficiency = calculateParallelEfficiency(loaderMetrics, totalTime);
@@ -251,6 +265,7 @@ export function createPipeline<
           executionOrder,
           parallelEfficiency,
           waterfalls,
+          batches,
         },
         errors,
       };
@@ -505,6 +520,16 @@ export function formatMetrics(metrics: PipelineMetrics): string {
     lines.push(`  ${loader.key.padEnd(20)} ${bar} ${loader.duration.toFixed(1)}ms${cacheIndicator}`);
   }
 
+  if (metrics.batches && metrics.batches.length > 0) {
+    lines.push('');
+    lines.push('Batches:');
+    for (const batch of metrics.batches) {
+      const bar = generateTimeBar(batch.startTime, batch.endTime, metrics.total);
+      const keys = `${batch.size} key${batch.size === 1 ? '' : 's'}`;
+      lines.push(`  ${batch.loader.padEnd(20)} ${bar} ${batch.duration.toFixed(1)}ms (${keys})`);
+    }
+  }
+
   if (metrics.waterfalls.length > 0) {
     lines.push('');
     lines.push('⚠️ Detected Waterfalls:');
@@ -551,6 +576,14 @@ export function generateMetricsVisualization(metrics: PipelineMetrics): {
     cacheHit: boolean;
     waitingFor: string[];
   }>;
+  batches: Array<{
+    loader: string;
+    start: number;
+    end: number;
+    duration: number;
+    size: number;
+    error?: string;
+  }>;
   total: number;
   efficiency: number;
   waterfalls: WaterfallInfo[];
@@ -566,8 +599,18 @@ export function generateMetricsVisualization(metrics: PipelineMetrics): {
       waitingFor: m.waitingFor,
     }));
 
+  const batches = (metrics.batches ?? []).map((b) => ({
+    loader: b.loader,
+    start: b.startTime,
+    end: b.endTime,
+    duration: b.duration,
+    size: b.size,
+    ...(b.error ? { error: b.error } : {}),
+  }));
+
   return {
     timeline,
+    batches,
     total: metrics.total,
     efficiency: metrics.parallelEfficiency,
     waterfalls: metrics.waterfalls,
@@ -7,6 +7,8 @@ import {
   tags,
   onDemandRevalidate,
   unstable_cache,
+  onRevalidate,
+  type RevalidationEvent,
 } from './revalidate';
 import { MemoryCache, setCache, getCache } from './cache';
 
@@ -314,4 +316,39 @@ describe('@ereo/data - Revalidate', () => {
       expect(result).toBe(3);
     });
   });
+
+  describe('onRevalidate', () => {
+    test('notifies listeners of revalidated tags and paths', async () => {
+      const events: RevalidationEvent[] = [];
+      const unsubscribe = onRevalidate((event) => {
+        events.push(event);
+      });
+
+      await revalidateTag('posts');
+      await revalidatePath('/blog');
+      await revalidate({ all: true });
+      unsubscribe();
+      await revalidateTag('ignored');
+
+      expect(events).toEqual([
+        { tags: ['posts'], paths: [] },
+        { tags: [], paths: ['/blog'] },
+        { tags: [], paths: [], all: true },
+      ]);
+    });
+
+    test('listener errors do not fail revalidation', async () => {
+      const unsubscribe = onRevalidate(() => {
+        throw new Error('listener failed');
+      });
+      const originalError = console.error;
+      console.error = () => {};
+
+      const result = await revalidateTag('posts');
+
+      console.error = originalError;
+      unsubscribe();
+      expect(result.success).toBe(true);
+    });
+  });
 });
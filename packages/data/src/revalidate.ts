@@ -31,6 +31,46 @@ export interface RevalidateResult {
   timestamp: number;
 }
 
+/**
+ * Revalidation event passed to listeners.
+ */
+export interface RevalidationEvent {
+  tags: string[];
+  paths: string[];
+  /** True when the whole cache was cleared */
+  all?: boolean;
+}
+
+/**
+ * Listener notified whenever tags or paths are revalidated.
+ * Lets caches outside the data cache (prerendered pages, response caches)
+ * follow the same `revalidateTag`/`revalidatePath` calls.
+ */
+export type RevalidationListener = (event: RevalidationEvent) => void | Promise<void>;
+
+const listeners = new Set<RevalidationListener>();
+
+/**
+ * Subscribe to revalidation events.
+ * Returns an unsubscribe function.
+ */
+export function onRevalidate(listener: RevalidationListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+async function notifyRevalidation(event: RevalidationEvent): Promise<void> {
+  for (const listener of [...listeners]) {
+    try {
+      await listener(event);
+    } catch (error) {
+      console.error('Revalidation listener failed:', error);
+    }
+  }
+}
+
 /**
  * Revalidate cache entries by tags.
  */
@@ -43,6 +83,8 @@ export async function revalidateTag(...tags: string[]): Promise<RevalidateResult
     revalidatedTags.push(tag);
   }
 
+  await notifyRevalidation({ tags: revalidatedTags, paths: [] });
+
   return {
     success: true,
     revalidated: {
@@ -88,6 +130,9 @@ export async function revalidatePath(...paths: string[]): Promise<RevalidateResu
     }
   }
 
+  // Listeners get every requested path — their entries may not be in the data cache
+  await notifyRevalidation({ tags: [], paths });
+
   return {
     success: true,
     revalidated: {
@@ -106,6 +151,7 @@ export async function revalidate(options: RevalidateOptions): Promise<Revalidate
 
   if (options.all) {
     await cache.clear();
+    await notifyRevalidation({ tags: [], paths: [], all: true });
     return {
       success: true,
       revalidated: { tags: ['*'], paths: ['*'] },
@@ -0,0 +1,229 @@
+/**
+ * Tests for SQLite adapter.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { RequestContext } from '@ereo/core';
+import { ConnectionError, QueryError, TransactionError, TimeoutError, type DatabaseAdapter } from '@ereo/db';
+import { createSqliteAdapter, type SqliteClient } from './adapter';
+
+function createMockContext(): RequestContext {
+  return new RequestContext(new Request('http://localhost/test'));
+}
+
+describe('createSqliteAdapter', () => {
+  let adapter: DatabaseAdapter<SqliteClient>;
+
+  beforeEach(async () => {
+    adapter = createSqliteAdapter({ url: ':memory:' });
+    await adapter.execute('CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT NOT NULL UNIQUE)');
+  });
+
+  afterEach(async () => {
+    await adapter.disconnect();
+  });
+
+  describe('configuration', () => {
+    it('should require a path', () => {
+      expect(() => createSqliteAdapter({ url: '' })).toThrow(ConnectionError);
+    });
+
+    it('should reject pragmas that could inject SQL', () => {
+      expect(() => createSqliteAdapter({ url: ':memory:', pragmas: { 'a; DROP TABLE users': 1 } })).toThrow(
+        'Invalid pragma name'
+      );
+      expect(() => createSqliteAdapter({ url: ':memory:', pragmas: { synchronous: 'OFF; DROP TABLE users' } })).toThrow(
+        'Invalid value'
+      );
+    });
+
+    it('should apply pragmas and strip the URL scheme', async () => {
+      const configured = createSqliteAdapter({ url: 'file::memory:', pragmas: { cache_size: -2000 } });
+      const { rows } = await configured.query<{ cache_size: number }>('PRAGMA cache_size');
+
+      expect(rows[0].cache_size).toBe(-2000);
+      expect((await configured.healthCheck()).metadata?.path).toBe(':memory:');
+      await configured.disconnect();
+    });
+  });
+
+  describe('query and execute', () => {
+    it('should execute mutations and query rows', async () => {
+      const insert = await adapter.execute('INSERT INTO users (name) VALUES (?)', ['Alice']);
+      expect(insert).toEqual({ rowsAffected: 1, lastInsertId: 1 });
+
+      const result = await adapter.query<{ id: number; name: string }>('SELECT * FROM users WHERE name = ?', ['Alice']);
+      expect(result).toEqual({ rows: [{ id: 1, name: 'Alice' }], rowCount: 1 });
+    });
+
+    it('should wrap failures in QueryError', async () => {
+      const error = await adapter.query('SELECT * FROM missing').catch((e) => e);
+
+      expect(error).toBeInstanceOf(QueryError);
+      expect(error.query).toBe('SELECT * FROM missing');
+    });
+  });
+
+  describe('transaction', () => {
+    it('should commit when the callback resolves', async () => {
+      const id = await adapter.transaction(async (tx) => {
+        return tx.query('INSERT INTO users (name) VALUES (?)').run('Alice').lastInsertRowid;
+      });
+
+      expect(id).toBe(1);
+      expect((await adapter.query('SELECT * FROM users')).rowCount).toBe(1);
+    });
+
+    it('should roll back when the callback rejects', async () => {
+      const error = await adapter
+        .transaction(async (tx) => {
+          tx.run("INSERT INTO users (name) VALUES ('Alice')");
+          throw new Error('boom');
+        })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(TransactionError);
+      expect(error.cause.message).toBe('boom');
+      expect((await adapter.query('SELECT * FROM users')).rowCount).toBe(0);
+    });
+
+    it('should run adapter statements from the callback inside the transaction', async () => {
+      await adapter
+        .transaction(async () => {
+          await adapter.execute("INSERT INTO users (name) VALUES ('Alice')");
+          throw new Error('boom');
+        })
+        .catch(() => {});
+
+      expect((await adapter.query('SELECT * FROM users')).rowCount).toBe(0);
+    });
+
+    it('should keep statements from outside the transaction out of it', async () => {
+      let resume!: () => void;
+      const paused = new Promise<void>((resolve) => (resume = resolve));
+
+      const transaction = adapter
+        .transaction(async (tx) => {
+          tx.run("INSERT INTO users (name) VALUES ('Alice')");
+          await paused;
+          throw new Error('boom');
+        })
+        .catch(() => {});
+
+      const outside = adapter.execute("INSERT INTO users (name) VALUES ('Bob')");
+      resume();
+      await Promise.all([transaction, outside]);
+
+      const { rows } = await adapter.query<{ name: string }>('SELECT name FROM users');
+      expect(rows).toEqual([{ name: 'Bob' }]);
+    });
+
+    it('should run transactions one at a time', async () => {
+      const order: string[] = [];
+      const run = (name: string) =>
+        adapter.transaction(async () => {
+          order.push(`${name}:start`);
+          await Bun.sleep(5);
+          order.push(`${name}:end`);
+        });
+
+      await Promise.all([run('a'), run('b')]);
+      expect(order).toEqual(['a:start', 'a:end', 'b:start', 'b:end']);
+    });
+
+    it('should reject nested transactions', async () => {
+      const error = await adapter.transaction(() => adapter.transaction(async () => 1)).catch((e) => e);
+
+      expect(error).toBeInstanceOf(TransactionError);
+      expect(error.message).toContain('Nested transactions');
+    });
+
+    it('should reject writes in read-only transactions', async () => {
+      const error = await adapter
+        .transaction(async (tx) => tx.run("INSERT INTO users (name) VALUES ('Alice')"), { readOnly: true })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(TransactionError);
+      await adapter.execute("INSERT INTO users (name) VALUES ('Bob')");
+      expect((await adapter.query('SELECT * FROM users')).rowCount).toBe(1);
+    });
+
+    it('should time out and roll back', async () => {
+      const error = await adapter
+        .transaction(
+          async (tx) => {
+            tx.run("INSERT INTO users (name) VALUES ('Alice')");
+            await Bun.sleep(50);
+          },
+          { timeout: 10 }
+        )
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect((await adapter.query('SELECT * FROM users')).rowCount).toBe(0);
+    });
+  });
+
+  describe('beginTransaction', () => {
+    it('should commit and roll back manually', async () => {
+      const tx = await adapter.beginTransaction();
+      tx.client.run("INSERT INTO users (name) VALUES ('Alice')");
+      await tx.commit();
+
+      const rolledBack = await adapter.beginTransaction();
+      rolledBack.client.run("INSERT INTO users (name) VALUES ('Bob')");
+      await rolledBack.rollback();
+
+      const { rows } = await adapter.query<{ name: string }>('SELECT name FROM users');
+      expect(rows).toEqual([{ name: 'Alice' }]);
+    });
+
+    it('should not commit twice', async () => {
+      const tx = await adapter.beginTransaction();
+      await tx.commit();
+
+      expect(tx.isActive).toBe(false);
+      await expect(tx.commit()).rejects.toThrow('Transaction is not active');
+    });
+  });
+
+  describe('getRequestClient', () => {
+    it('should deduplicate identical queries in a request', async () => {
+      const client = adapter.getRequestClient(createMockContext());
+
+      const first = await client.query('SELECT * FROM users WHERE id = ?', [1]);
+      const second = await client.query('SELECT * FROM users WHERE id = ?', [1]);
+
+      expect(first.fromCache).toBe(false);
+      expect(second.fromCache).toBe(true);
+      expect(client.getDedupStats()).toMatchObject({ total: 2, deduplicated: 1 });
+    });
+
+    it('should invalidate cached queries by table', async () => {
+      const client = adapter.getRequestClient(createMockContext());
+
+      await client.query('SELECT * FROM users');
+      await adapter.execute("INSERT INTO users (name) VALUES ('Alice')");
+      client.invalidate(['users']);
+
+      const { result, fromCache } = await client.query('SELECT * FROM users');
+      expect(fromCache).toBe(false);
+      expect(result.rowCount).toBe(1);
+    });
+  });
+
+  describe('healthCheck and disconnect', () => {
+    it('should report a healthy database', async () => {
+      const health = await adapter.healthCheck();
+
+      expect(health.healthy).toBe(true);
+      expect(health.metadata?.journalMode).toBe('memory');
+    });
+
+    it('should reopen after disconnect', async () => {
+      await adapter.disconnect();
+      const { rows } = await adapter.query<{ one: number }>('SELECT 1 AS one');
+      expect(rows).toEqual([{ one: 1 }]);
+    });
+  });
+});
@@ -0,0 +1,462 @@
+/**
+ * @ereo/db-sqlite - SQLite Adapter Implementation
+ *
+ * Implements the DatabaseAdapter interface over bun:sqlite.
+ */
+
+import { Database, type SQLQueryBindings } from 'bun:sqlite';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { AppContext } from '@ereo/core';
+import {
+  type DatabaseAdapter,
+  type RequestScopedClient,
+  type Transaction,
+  type QueryResult,
+  type MutationResult,
+  type TransactionOptions,
+  type HealthCheckResult,
+  type DedupResult,
+  type DedupStats,
+  dedupQuery,
+  clearDedupCache,
+  invalidateTables,
+  getRequestDedupStats,
+  ConnectionError,
+  QueryError,
+  TransactionError,
+  TimeoutError,
+} from '@ereo/db';
+
+import type { SqliteConfig } from './types';
+
+// ============================================================================
+// Transaction Scope
+// ============================================================================
+
+/** The transaction whose callback is running, if any */
+const transactionScope = new AsyncLocalStorage<symbol>();
+
+/** An open transaction */
+interface ActiveTransaction {
+  id: symbol;
+  /** Resolves when the transaction commits or rolls back */
+  done: Promise<void>;
+}
+
+// ============================================================================
+// SQLite Adapter Implementation
+// ============================================================================
+
+/**
+ * SQLite adapter implementing the DatabaseAdapter interface.
+ *
+ * bun:sqlite is synchronous and every statement runs on one connection,
+ * so a transaction owns the connection until it ends. Statements issued
+ * through the adapter by other requests wait for it; statements issued
+ * from inside a `transaction()` callback run in the transaction. With
+ * `beginTransaction()`, run the transaction's statements on `tx.client`.
+ */
+class SqliteAdapter implements DatabaseAdapter<Database> {
+  readonly name = 'sqlite';
+  readonly edgeCompatible = false;
+
+  private db: Database | null = null;
+  private config: SqliteConfig;
+  private active: ActiveTransaction | null = null;
+
+  constructor(config: SqliteConfig) {
+    if (!config.url) {
+      throw new ConnectionError('SQLite database path is required (use ":memory:" for an in-memory database)');
+    }
+    validatePragmas(config.pragmas ?? {});
+    this.config = config;
+  }
+
+  /**
+   * Open the database on first use.
+   */
+  private open(): Database {
+    if (this.db) {
+      return this.db;
+    }
+
+    const path = resolvePath(this.config.url);
+
+    try {
+      const db = this.config.readonly
+        ? new Database(path, { readonly: true })
+        : new Database(path, { create: this.config.create ?? true });
+
+      db.run(`PRAGMA busy_timeout = ${this.config.busyTimeout ?? 5000}`);
+      db.run(`PRAGMA foreign_keys = ${this.config.foreignKeys === false ? 'OFF' : 'ON'}`);
+      if (this.config.wal !== false && !this.config.readonly && path !== ':memory:') {
+        db.run('PRAGMA journal_mode = WAL');
+      }
+      for (const [pragma, value] of Object.entries(this.config.pragmas ?? {})) {
+        db.run(`PRAGMA ${pragma} = ${value}`);
+      }
+
+      if (this.config.debug) {
+        console.log(`[sqlite] Opened ${path}`);
+      }
+
+      this.db = db;
+      return db;
+    } catch (error) {
+      throw new ConnectionError(
+        `Failed to open SQLite database "${path}": ${error instanceof Error ? error.message : error}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Wait until no transaction owns the connection, unless called from
+   * inside the callback of the open transaction.
+   */
+  private async acquire(): Promise<Database> {
+    while (this.active && transactionScope.getStore() !== this.active.id) {
+      await this.active.done;
+    }
+    return this.open();
+  }
+
+  getClient(): Database {
+    return this.open();
+  }
+
+  getRequestClient(context: AppContext): RequestScopedClient<Database> {
+    const adapter = this;
+
+    return {
+      get client() {
+        return adapter.getClient();
+      },
+
+      async query<T>(sql: string, params?: unknown[]): Promise<DedupResult<QueryResult<T>>> {
+        return dedupQuery(
+          context,
+          sql,
+          params,
+          async () => adapter.query<T>(sql, params),
+          { tables: extractTables(sql) }
+        );
+      },
+
+      getDedupStats(): DedupStats {
+        return getRequestDedupStats(context);
+      },
+
+      clearDedup(): void {
+        clearDedupCache(context);
+      },
+
+      invalidate(tables?: string[]): void {
+        if (tables) {
+          invalidateTables(context, tables);
+        } else {
+          clearDedupCache(context);
+        }
+      },
+    };
+  }
+
+  async query<T = unknown>(sql: string, params: unknown[] = []): Promise<QueryResult<T>> {
+    const db = await this.acquire();
+
+    try {
+      if (this.config.debug) {
+        console.log('[sqlite] Query:', sql, params);
+      }
+
+      const rows = db.query<T, SQLQueryBindings[]>(sql).all(...(params as SQLQueryBindings[]));
+
+      return {
+        rows,
+        rowCount: rows.length,
+      };
+    } catch (error) {
+      throw new QueryError(
+        `SQLite query failed: ${error instanceof Error ? error.message : error}`,
+        sql,
+        params,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  async execute(sql: string, params: unknown[] = []): Promise<MutationResult> {
+    const db = await this.acquire();
+
+    try {
+      if (this.config.debug) {
+        console.log('[sqlite] Execute:', sql, params);
+      }
+
+      const result = db.query<unknown, SQLQueryBindings[]>(sql).run(...(params as SQLQueryBindings[]));
+
+      return {
+        rowsAffected: result.changes,
+        lastInsertId: result.lastInsertRowid,
+      };
+    } catch (error) {
+      throw new QueryError(
+        `SQLite execute failed: ${error instanceof Error ? error.message : error}`,
+        sql,
+        params,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  async transaction<T>(
+    fn: (tx: Database) => Promise<T>,
+    options?: TransactionOptions
+  ): Promise<T> {
+    const { transaction, id } = await this.begin(options);
+
+    try {
+      const result = await transactionScope.run(id, () => withTimeout(fn(transaction.client), options?.timeout));
+      await transaction.commit();
+      return result;
+    } catch (error) {
+      if (transaction.isActive) {
+        await transaction.rollback();
+      }
+      if (error instanceof TimeoutError || error instanceof TransactionError) {
+        throw error;
+      }
+      throw new TransactionError(
+        `SQLite transaction failed: ${error instanceof Error ? error.message : error}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  async beginTransaction(options?: TransactionOptions): Promise<Transaction<Database>> {
+    return (await this.begin(options)).transaction;
+  }
+
+  /**
+   * Start a transaction once the connection is free.
+   *
+   * SQLite transactions are always serializable, so `isolationLevel` is
+   * ignored. `readOnly` sets `PRAGMA query_only` for the transaction.
+   */
+  private async begin(options?: TransactionOptions): Promise<{ transaction: Transaction<Database>; id: symbol }> {
+    if (this.active && transactionScope.getStore() === this.active.id) {
+      throw new TransactionError('Nested transactions are not supported');
+    }
+    while (this.active) {
+      await this.active.done;
+    }
+
+    const db = this.open();
+    const readOnly = options?.readOnly ?? false;
+    const id = Symbol('transaction');
+    let release!: () => void;
+    this.active = { id, done: new Promise<void>((resolve) => (release = resolve)) };
+
+    const end = (): void => {
+      if (readOnly) {
+        db.run('PRAGMA query_only = OFF');
+      }
+      this.active = null;
+      release();
+    };
+
+    try {
+      if (readOnly) {
+        db.run('PRAGMA query_only = ON');
+      }
+      // IMMEDIATE takes the write lock up front instead of failing on the first write
+      db.run(readOnly ? 'BEGIN DEFERRED' : 'BEGIN IMMEDIATE');
+    } catch (error) {
+      end();
+      throw new TransactionError(
+        `Failed to begin SQLite transaction: ${error instanceof Error ? error.message : error}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    let isActive = true;
+
+    const finish = (statement: 'COMMIT' | 'ROLLBACK'): void => {
+      if (!isActive) {
+        throw new TransactionError('Transaction is not active');
+      }
+      isActive = false;
+
+      try {
+        db.run(statement);
+      } catch (error) {
+        // A failed COMMIT (e.g. a deferred constraint) leaves the transaction open
+        if (db.inTransaction) {
+          db.run('ROLLBACK');
+        }
+        throw new TransactionError(
+          `SQLite ${statement} failed: ${error instanceof Error ? error.message : error}`,
+          error instanceof Error ? error : undefined
+        );
+      } finally {
+        end();
+      }
+    };
+
+    return {
+      id,
+      transaction: {
+        client: db,
+
+        async commit(): Promise<void> {
+          finish('COMMIT');
+        },
+
+        async rollback(): Promise<void> {
+          finish('ROLLBACK');
+        },
+
+        get isActive(): boolean {
+          return isActive;
+        },
+      },
+    };
+  }
+
+  async healthCheck(): Promise<HealthCheckResult> {
+    const start = Date.now();
+
+    try {
+      const db = await this.acquire();
+      db.query('SELECT 1').get();
+      const journal = db.query<{ journal_mode: string }, []>('PRAGMA journal_mode').get();
+
+      return {
+        healthy: true,
+        latencyMs: Date.now() - start,
+        metadata: {
+          path: resolvePath(this.config.url),
+          journalMode: journal?.journal_mode,
+          readonly: this.config.readonly ?? false,
+        },
+      };
+    } catch (error) {
+      return {
+        healthy: false,
+        latencyMs: Date.now() - start,
+        error: error instanceof Error ? error.message : String(error),
+        metadata: {
+          path: resolvePath(this.config.url),
+        },
+      };
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    if (!this.db) {
+      return;
+    }
+
+    while (this.active) {
+      await this.active.done;
+    }
+
+    try {
+      this.db.close();
+
+      if (this.config.debug) {
+        console.log('[sqlite] Closed');
+      }
+    } catch (error) {
+      if (this.config.debug) {
+        console.error('[sqlite] Error during disconnect:', error);
+      }
+    } finally {
+      this.db = null;
+    }
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Strip the `file:` or `sqlite:` scheme from a database URL.
+ */
+function resolvePath(url: string): string {
+  return url.replace(/^(?:file|sqlite):(?:\/\/)?/, '');
+}
+
+/**
+ * Reject pragma names and values that could inject SQL.
+ */
+function validatePragmas(pragmas: Record<string, string | number>): void {
+  for (const [pragma, value] of Object.entries(pragmas)) {
+    if (!/^\w+$/.test(pragma)) {
+      throw new ConnectionError(`Invalid pragma name: ${pragma}`);
+    }
+    if (typeof value === 'number' ? !Number.isFinite(value) : !/^[\w-]+$/.test(value)) {
+      throw new ConnectionError(`Invalid value for pragma ${pragma}: ${value}`);
+    }
+  }
+}
+
+/**
+ * Tables read by a query, for selective dedup invalidation.
+ */
+function extractTables(sql: string): string[] {
+  const tables = new Set<string>();
+  for (const match of sql.matchAll(/\b(?:FROM|JOIN)\s+["`[]?(\w+)/gi)) {
+    tables.add(match[1].toLowerCase());
+  }
+  return [...tables];
+}
+
+/**
+ * Reject with a TimeoutError if the promise does not settle in time.
+ */
+function withTimeout<T>(promise: Promise<T>, timeoutMs?: number): Promise<T> {
+  if (!timeoutMs) {
+    return promise;
+  }
+
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new TimeoutError(`SQLite transaction timed out after ${timeoutMs}ms`, timeoutMs)),
+      timeoutMs
+    );
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// ============================================================================
+// Factory Function
+// ============================================================================
+
+/**
+ * Create a SQLite database adapter backed by bun:sqlite.
+ *
+ * @param config - SQLite configuration
+ * @returns A configured DatabaseAdapter instance
+ *
+ * @example
+ * import { createSqliteAdapter } from '@ereo/db-sqlite';
+ * import { createDatabasePlugin } from '@ereo/db';
+ *
+ * const adapter = createSqliteAdapter({
+ *   url: './data/app.db',
+ * });
+ *
+ * export default defineConfig({
+ *   plugins: [createDatabasePlugin(adapter)],
+ * });
+ */
+export function createSqliteAdapter(config: SqliteConfig): DatabaseAdapter<Database> {
+  return new SqliteAdapter(config);
+}
+
+// Re-export the bun:sqlite Database type for consumers
+export type { Database as SqliteClient };
@@ -0,0 +1,95 @@
+/**
+ * @ereo/db-sqlite - SQLite Adapter
+ *
+ * Provides bun:sqlite integration for the EreoJS database abstraction layer,
+ * with no ORM or external driver, and a framework-native migration runner.
+ *
+ * @example
+ * // Basic setup
+ * import { createSqliteAdapter } from '@ereo/db-sqlite';
+ * import { createDatabasePlugin } from '@ereo/db';
+ *
+ * const adapter = createSqliteAdapter({ url: './data/app.db' });
+ *
+ * export default defineConfig({
+ *   plugins: [createDatabasePlugin(adapter)],
+ * });
+ *
+ * @example
+ * // Using in routes
+ * import { useDb } from '@ereo/db';
+ *
+ * export const loader = createLoader({
+ *   load: async ({ context }) => {
+ *     const db = useDb(context);
+ *     const { result } = await db.query('SELECT * FROM users WHERE active = ?', [1]);
+ *     return result.rows;
+ *   },
+ * });
+ *
+ * @example
+ * // Migrations (also available as `ereo db:migrate`, `db:rollback` and `db:status`)
+ * import { createMigrator } from '@ereo/db-sqlite';
+ *
+ * await createMigrator(adapter, { dir: './migrations' }).migrate();
+ *
+ * @packageDocumentation
+ */
+
+// ============================================================================
+// Adapter Factory
+// ============================================================================
+
+export {
+  createSqliteAdapter,
+  // Types
+  type SqliteClient,
+} from './adapter';
+
+// ============================================================================
+// Migrations
+// ============================================================================
+
+export {
+  createMigrator,
+  loadMigrations,
+  Migrator,
+  MigrationError,
+} from './migrations';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export {
+  // Configuration types
+  type SqliteConfig,
+  // Migration types
+  type Migration,
+  type MigratorOptions,
+  type MigrateOptions,
+  type RollbackOptions,
+  type MigrationState,
+  type MigrationStatus,
+} from './types';
+
+// ============================================================================
+// Re-exports from @ereo/db for convenience
+// ============================================================================
+
+export {
+  // Core exports users commonly need
+  createDatabasePlugin,
+  useDb,
+  useAdapter,
+  getDb,
+  withTransaction,
+  // Types
+  type DatabaseAdapter,
+  type RequestScopedClient,
+  type QueryResult,
+  type MutationResult,
+  type DedupResult,
+  type DedupStats,
+  type TransactionOptions,
+} from '@ereo/db';
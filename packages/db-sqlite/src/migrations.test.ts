@@ -0,0 +1,163 @@
+/**
+ * Tests for the migration runner.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import { mkdtempSync, rmSync, writeFileSync, unlinkSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createSqliteAdapter } from './adapter';
+import { createMigrator, loadMigrations, MigrationError } from './migrations';
+
+let dir: string;
+let db: Database;
+
+function write(file: string, sql: string): void {
+  writeFileSync(join(dir, file), sql);
+}
+
+function tables(): string[] {
+  return db
+    .query<{ name: string }, []>("SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE '\\_%' ESCAPE '\\' ORDER BY name")
+    .all()
+    .map((row) => row.name);
+}
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'ereo-migrations-'));
+  db = new Database(':memory:');
+
+  write('0001_create_users.up.sql', 'CREATE TABLE users (id INTEGER PRIMARY KEY);');
+  write('0001_create_users.down.sql', 'DROP TABLE users;');
+  write('0002_create_posts.up.sql', 'CREATE TABLE posts (id INTEGER PRIMARY KEY);\nCREATE INDEX posts_id ON posts (id);');
+  write('0002_create_posts.down.sql', 'DROP TABLE posts;');
+  write('0003_create_tags.up.sql', 'CREATE TABLE tags (id INTEGER PRIMARY KEY);');
+});
+
+afterEach(() => {
+  db.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('loadMigrations', () => {
+  it('should pair up and down files in version order', async () => {
+    write('README.md', 'ignored');
+    const migrations = await loadMigrations(dir);
+
+    expect(migrations.map((m) => [m.version, m.name, m.down !== undefined])).toEqual([
+      ['0001', 'create_users', true],
+      ['0002', 'create_posts', true],
+      ['0003', 'create_tags', false],
+    ]);
+    expect(migrations[0].checksum).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should ignore line ending differences in checksums', async () => {
+    write('0001_create_users.up.sql', 'CREATE TABLE users (\n  id INTEGER PRIMARY KEY\n);');
+    const [before] = await loadMigrations(dir);
+    write('0001_create_users.up.sql', 'CREATE TABLE users (\r\n  id INTEGER PRIMARY KEY\r\n);');
+    const [after] = await loadMigrations(dir);
+
+    expect(after.checksum).toBe(before.checksum);
+  });
+
+  it('should reject duplicate versions and down files without an up file', async () => {
+    write('1_other.up.sql', 'SELECT 1;');
+    await expect(loadMigrations(dir)).rejects.toThrow('Duplicate migration version');
+
+    unlinkSync(join(dir, '1_other.up.sql'));
+    write('0004_orphan.down.sql', 'SELECT 1;');
+    await expect(loadMigrations(dir)).rejects.toThrow('has no up file');
+  });
+
+  it('should fail on a missing directory', async () => {
+    await expect(loadMigrations(join(dir, 'missing'))).rejects.toThrow(MigrationError);
+  });
+});
+
+describe('Migrator', () => {
+  it('should apply pending migrations and record them', async () => {
+    const migrator = createMigrator(db, { dir });
+    const applied = await migrator.migrate();
+
+    expect(applied.map((m) => m.version)).toEqual(['0001', '0002', '0003']);
+    expect(tables()).toEqual(['posts', 'tags', 'users']);
+    expect((await migrator.status()).every((m) => m.state === 'applied')).toBe(true);
+    expect(await migrator.migrate()).toEqual([]);
+  });
+
+  it('should migrate up to a version', async () => {
+    const migrator = createMigrator(db, { dir });
+
+    expect((await migrator.migrate({ to: '2' })).map((m) => m.version)).toEqual(['0001', '0002']);
+    expect((await migrator.status()).map((m) => m.state)).toEqual(['applied', 'applied', 'pending']);
+    await expect(migrator.migrate({ to: '9' })).rejects.toThrow('Unknown migration version "9"');
+  });
+
+  it('should roll back one step, to a version, or everything', async () => {
+    const migrator = createMigrator(db, { dir });
+    await migrator.migrate({ to: '0002' });
+
+    expect((await migrator.rollback()).map((m) => m.version)).toEqual(['0002']);
+    expect(tables()).toEqual(['users']);
+
+    await migrator.migrate({ to: '0002' });
+    expect((await migrator.rollback({ to: '0' })).map((m) => m.version)).toEqual(['0002', '0001']);
+    expect(tables()).toEqual([]);
+  });
+
+  it('should refuse to roll back migrations without a down file', async () => {
+    const migrator = createMigrator(db, { dir });
+    await migrator.migrate();
+
+    await expect(migrator.rollback({ to: '0001' })).rejects.toThrow('without a down file: 0003_create_tags');
+    expect(tables()).toEqual(['posts', 'tags', 'users']);
+  });
+
+  it('should refuse to migrate when an applied migration was modified or removed', async () => {
+    const migrator = createMigrator(db, { dir });
+    await migrator.migrate({ to: '0002' });
+
+    write('0001_create_users.up.sql', 'CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);');
+    expect((await migrator.status())[0].state).toBe('modified');
+    await expect(migrator.migrate()).rejects.toThrow('0001_create_users was modified after it was applied');
+
+    write('0001_create_users.up.sql', 'CREATE TABLE users (id INTEGER PRIMARY KEY);');
+    unlinkSync(join(dir, '0002_create_posts.up.sql'));
+    unlinkSync(join(dir, '0002_create_posts.down.sql'));
+    expect((await migrator.status())[1]).toMatchObject({ version: '0002', state: 'missing' });
+    await expect(migrator.migrate()).rejects.toThrow('its files are missing');
+  });
+
+  it('should roll back a failed migration and keep earlier ones', async () => {
+    write('0004_broken.up.sql', 'CREATE TABLE broken (id INTEGER);\nINSERT INTO nowhere VALUES (1);');
+    const migrator = createMigrator(db, { dir });
+
+    await expect(migrator.migrate()).rejects.toThrow('Migration 0004_broken (up) failed');
+    expect(tables()).toEqual(['posts', 'tags', 'users']);
+    expect((await migrator.status()).map((m) => m.state)).toEqual(['applied', 'applied', 'applied', 'pending']);
+  });
+
+  it('should refuse to run while another process holds the lock', async () => {
+    const migrator = createMigrator(db, { dir });
+    await migrator.migrate({ to: '0001' });
+    db.run("INSERT INTO _ereo_migrations_lock (id, locked_at, pid) VALUES (1, '2026-01-01T00:00:00.000Z', 42)");
+
+    await expect(migrator.migrate()).rejects.toThrow('locked by another process (pid 42)');
+
+    await migrator.unlock();
+    expect((await migrator.migrate()).length).toBe(2);
+  });
+
+  it('should use custom table names and accept an adapter', async () => {
+    const adapter = createSqliteAdapter({ url: ':memory:' });
+    const migrator = createMigrator(adapter, { dir, table: 'schema_history', lockTable: 'schema_lock' });
+    await migrator.migrate();
+
+    const { rows } = await adapter.query<{ version: string }>('SELECT version FROM schema_history ORDER BY version');
+    expect(rows.map((row) => row.version)).toEqual(['0001', '0002', '0003']);
+    expect(() => createMigrator(db, { dir, table: 'x; DROP TABLE users' })).toThrow('Invalid table name');
+    await adapter.disconnect();
+  });
+});
@@ -0,0 +1,380 @@
+/**
+ * @ereo/db-sqlite - Migrations
+ *
+ * Framework-native migration runner. Migrations are pairs of SQL files in
+ * one directory (`0001_create_users.up.sql`, `0001_create_users.down.sql`).
+ * Applied migrations are recorded with a checksum of their up file, so a
+ * migration edited after it ran is refused instead of silently skipped,
+ * and a lock table keeps two deploys from migrating at the same time.
+ */
+
+import type { Database } from 'bun:sqlite';
+import { createHash } from 'node:crypto';
+import { readdir, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { DatabaseError, type DatabaseAdapter } from '@ereo/db';
+
+import type {
+  Migration,
+  MigratorOptions,
+  MigrateOptions,
+  RollbackOptions,
+  MigrationStatus,
+} from './types';
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/** Migration errors (invalid files, checksum mismatches, lock conflicts) */
+export class MigrationError extends DatabaseError {
+  constructor(message: string, cause?: Error) {
+    super(message, 'MIGRATION_ERROR', cause);
+    this.name = 'MigrationError';
+  }
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+const MIGRATION_FILE = /^(\d+)_(.+)\.(up|down)\.sql$/;
+
+/**
+ * Compare two versions numerically, so '2' and '0002' are the same version.
+ */
+function compareVersions(a: string, b: string): number {
+  return Number(a) - Number(b);
+}
+
+/**
+ * SHA-256 of a migration, ignoring line ending differences between checkouts.
+ */
+function checksum(sql: string): string {
+  return createHash('sha256').update(sql.replace(/\r\n/g, '\n')).digest('hex');
+}
+
+/**
+ * Read the migrations in a directory, sorted by version.
+ * Files that do not match `<version>_<name>.(up|down).sql` are ignored.
+ */
+export async function loadMigrations(dir: string): Promise<Migration[]> {
+  let files: string[];
+  try {
+    files = await readdir(dir);
+  } catch (error) {
+    throw new MigrationError(
+      `Cannot read migrations directory "${dir}"`,
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  const migrations = new Map<string, Partial<Migration> & { version: string; name: string }>();
+
+  for (const file of files.sort()) {
+    const match = MIGRATION_FILE.exec(file);
+    if (!match) continue;
+
+    const [, version, name, direction] = match;
+    const existing = [...migrations.values()].find((m) => compareVersions(m.version, version) === 0);
+    if (existing && (existing.version !== version || existing.name !== name)) {
+      throw new MigrationError(
+        `Duplicate migration version ${version}: "${existing.version}_${existing.name}" and "${version}_${name}"`
+      );
+    }
+
+    const migration = existing ?? { version, name };
+    const sql = await readFile(join(dir, file), 'utf-8');
+    if (direction === 'up') {
+      migration.up = sql;
+      migration.checksum = checksum(sql);
+    } else {
+      migration.down = sql;
+    }
+    migrations.set(version, migration);
+  }
+
+  return [...migrations.values()]
+    .map((migration) => {
+      if (migration.up === undefined) {
+        throw new MigrationError(`Migration "${migration.version}_${migration.name}" has no up file`);
+      }
+      return migration as Migration;
+    })
+    .sort((a, b) => compareVersions(a.version, b.version));
+}
+
+// ============================================================================
+// Migrator
+// ============================================================================
+
+/** Row of the migrations table */
+interface AppliedRow {
+  version: string;
+  name: string;
+  checksum: string;
+  applied_at: string;
+}
+
+/** Row of the lock table */
+interface LockRow {
+  locked_at: string;
+  pid: number | null;
+}
+
+/**
+ * Applies and rolls back the migrations of one directory.
+ * Every migration runs in its own transaction.
+ */
+export class Migrator {
+  private db: Database;
+  private dir: string;
+  private table: string;
+  private lockTable: string;
+
+  constructor(db: Database, options: MigratorOptions) {
+    this.db = db;
+    this.dir = options.dir;
+    this.table = quoteIdentifier(options.table ?? '_ereo_migrations');
+    this.lockTable = quoteIdentifier(options.lockTable ?? '_ereo_migrations_lock');
+  }
+
+  /**
+   * State of every migration, on disk or applied, sorted by version.
+   */
+  async status(): Promise<MigrationStatus[]> {
+    const migrations = await loadMigrations(this.dir);
+    const applied = this.applied();
+    const status: MigrationStatus[] = [];
+
+    for (const migration of migrations) {
+      const row = applied.get(migration.version);
+      applied.delete(migration.version);
+      status.push({
+        version: migration.version,
+        name: migration.name,
+        state: !row ? 'pending' : row.checksum === migration.checksum ? 'applied' : 'modified',
+        appliedAt: row?.applied_at,
+      });
+    }
+
+    for (const row of applied.values()) {
+      status.push({ version: row.version, name: row.name, state: 'missing', appliedAt: row.applied_at });
+    }
+
+    return status.sort((a, b) => compareVersions(a.version, b.version));
+  }
+
+  /**
+   * Check that every applied migration still matches its up file.
+   *
+   * @throws MigrationError listing the modified and missing migrations
+   */
+  async verify(): Promise<void> {
+    const problems = (await this.status())
+      .filter((migration) => migration.state === 'modified' || migration.state === 'missing')
+      .map((migration) =>
+        migration.state === 'modified'
+          ? `${migration.version}_${migration.name} was modified after it was applied`
+          : `${migration.version}_${migration.name} was applied but its files are missing`
+      );
+
+    if (problems.length > 0) {
+      throw new MigrationError(`Migration verification failed:\n  ${problems.join('\n  ')}`);
+    }
+  }
+
+  /**
+   * Apply pending migrations in version order.
+   *
+   * @returns The migrations that were applied
+   */
+  async migrate(options: MigrateOptions = {}): Promise<Migration[]> {
+    const migrations = await loadMigrations(this.dir);
+    const { to } = options;
+
+    if (to !== undefined && !migrations.some((m) => compareVersions(m.version, to) === 0)) {
+      throw new MigrationError(`Unknown migration version "${to}"`);
+    }
+
+    return this.withLock(async () => {
+      await this.verify();
+
+      const applied = this.applied();
+      const pending = migrations.filter(
+        (m) => !applied.has(m.version) && (to === undefined || compareVersions(m.version, to) <= 0)
+      );
+
+      const insert = this.db.query(
+        `INSERT INTO ${this.table} (version, name, checksum, applied_at) VALUES (?, ?, ?, ?)`
+      );
+
+      for (const migration of pending) {
+        this.run(migration, 'up', () => {
+          this.db.run(migration.up);
+          insert.run(migration.version, migration.name, migration.checksum, new Date().toISOString());
+        });
+      }
+
+      return pending;
+    });
+  }
+
+  /**
+   * Roll back applied migrations, newest first.
+   *
+   * @returns The migrations that were rolled back
+   */
+  async rollback(options: RollbackOptions = {}): Promise<Migration[]> {
+    const migrations = await loadMigrations(this.dir);
+    const { to, steps = 1 } = options;
+
+    return this.withLock(async () => {
+      await this.verify();
+
+      const appliedVersions = this.applied();
+      const applied = migrations.filter((m) => appliedVersions.has(m.version)).reverse();
+
+      if (to !== undefined && compareVersions(to, '0') !== 0 && !applied.some((m) => compareVersions(m.version, to) === 0)) {
+        throw new MigrationError(`Migration version "${to}" is not applied`);
+      }
+
+      const targets = to !== undefined
+        ? applied.filter((m) => compareVersions(m.version, to) > 0)
+        : applied.slice(0, steps);
+
+      const irreversible = targets.filter((m) => m.down === undefined);
+      if (irreversible.length > 0) {
+        throw new MigrationError(
+          `Cannot roll back migrations without a down file: ${irreversible.map((m) => `${m.version}_${m.name}`).join(', ')}`
+        );
+      }
+
+      const remove = this.db.query(`DELETE FROM ${this.table} WHERE version = ?`);
+
+      for (const migration of targets) {
+        this.run(migration, 'down', () => {
+          this.db.run(migration.down!);
+          remove.run(migration.version);
+        });
+      }
+
+      return targets;
+    });
+  }
+
+  /**
+   * Release the migration lock. Use it when a migration process died
+   * while holding the lock.
+   */
+  async unlock(): Promise<void> {
+    if (this.hasTable(this.lockTable)) {
+      this.db.run(`DELETE FROM ${this.lockTable}`);
+    }
+  }
+
+  /**
+   * Applied migrations keyed by version.
+   */
+  private applied(): Map<string, AppliedRow> {
+    const applied = new Map<string, AppliedRow>();
+    if (!this.hasTable(this.table)) {
+      return applied;
+    }
+    for (const row of this.db.query<AppliedRow, []>(`SELECT version, name, checksum, applied_at FROM ${this.table}`).all()) {
+      applied.set(row.version, row);
+    }
+    return applied;
+  }
+
+  private hasTable(quoted: string): boolean {
+    return this.db
+      .query<{ name: string }, [string]>(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?`)
+      .get(quoted.slice(1, -1)) !== null;
+  }
+
+  /**
+   * Run a migration in a transaction, wrapping failures with its name.
+   */
+  private run(migration: Migration, direction: 'up' | 'down', fn: () => void): void {
+    try {
+      this.db.transaction(fn)();
+    } catch (error) {
+      throw new MigrationError(
+        `Migration ${migration.version}_${migration.name} (${direction}) failed: ${error instanceof Error ? error.message : error}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Hold the migration lock while running fn.
+   */
+  private async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS ${this.table} (
+        version TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        checksum TEXT NOT NULL,
+        applied_at TEXT NOT NULL
+      )
+    `);
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS ${this.lockTable} (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        locked_at TEXT NOT NULL,
+        pid INTEGER
+      )
+    `);
+
+    try {
+      this.db.query(`INSERT INTO ${this.lockTable} (id, locked_at, pid) VALUES (1, ?, ?)`).run(
+        new Date().toISOString(),
+        typeof process !== 'undefined' ? process.pid : null
+      );
+    } catch (error) {
+      const lock = this.db.query<LockRow, []>(`SELECT locked_at, pid FROM ${this.lockTable}`).get();
+      if (!lock) throw error;
+      throw new MigrationError(
+        `Migrations are locked by another process (pid ${lock.pid ?? 'unknown'}) since ${lock.locked_at}. ` +
+          `If no migration is running, release the lock with migrator.unlock() or delete the row from ${this.lockTable}.`
+      );
+    }
+
+    try {
+      return await fn();
+    } finally {
+      this.db.run(`DELETE FROM ${this.lockTable}`);
+    }
+  }
+}
+
+/**
+ * Quote a table name, rejecting anything but word characters.
+ */
+function quoteIdentifier(name: string): string {
+  if (!/^\w+$/.test(name)) {
+    throw new MigrationError(`Invalid table name "${name}"`);
+  }
+  return `"${name}"`;
+}
+
+/**
+ * Create a migrator for a bun:sqlite database or a SQLite adapter.
+ *
+ * @example
+ * import { createSqliteAdapter, createMigrator } from '@ereo/db-sqlite';
+ *
+ * const adapter = createSqliteAdapter({ url: './data/app.db' });
+ * const migrator = createMigrator(adapter, { dir: './migrations' });
+ *
+ * await migrator.migrate();
+ * await migrator.rollback({ steps: 1 });
+ */
+export function createMigrator(
+  target: Database | DatabaseAdapter<Database>,
+  options: MigratorOptions
+): Migrator {
+  const db = 'getClient' in target ? target.getClient() : target;
+  return new Migrator(db, options);
+}
@@ -0,0 +1,140 @@
+/**
+ * @ereo/db-sqlite - Type definitions
+ *
+ * SQLite-specific types and configuration.
+ */
+
+import type { AdapterConfig } from '@ereo/db';
+
+// ============================================================================
+// Configuration Types
+// ============================================================================
+
+/**
+ * SQLite adapter configuration.
+ */
+export interface SqliteConfig extends AdapterConfig {
+  /**
+   * Path to the database file, or ':memory:' for an in-memory database.
+   * A `file:` or `sqlite:` prefix is accepted and stripped.
+   */
+  url: string;
+
+  /**
+   * Open the database read-only.
+   * @default false
+   */
+  readonly?: boolean;
+
+  /**
+   * Create the database file if it does not exist.
+   * @default true
+   */
+  create?: boolean;
+
+  /**
+   * Use write-ahead logging, which lets readers run while a write is in progress.
+   * Ignored for in-memory databases.
+   * @default true
+   */
+  wal?: boolean;
+
+  /**
+   * Enforce foreign key constraints.
+   * @default true
+   */
+  foreignKeys?: boolean;
+
+  /**
+   * How long to wait for a lock held by another connection (ms).
+   * @default 5000
+   */
+  busyTimeout?: number;
+
+  /**
+   * Additional PRAGMA statements to run after opening.
+   *
+   * @example
+   * pragmas: { synchronous: 'NORMAL', cache_size: -64000 }
+   */
+  pragmas?: Record<string, string | number>;
+}
+
+// ============================================================================
+// Migration Types
+// ============================================================================
+
+/**
+ * A migration read from the migrations directory.
+ */
+export interface Migration {
+  /** Version prefix of the file name (e.g. '0001') */
+  version: string;
+  /** Name part of the file name (e.g. 'create_users') */
+  name: string;
+  /** SQL applied by `migrate` */
+  up: string;
+  /** SQL applied by `rollback`, if a down file exists */
+  down?: string;
+  /** SHA-256 of the up SQL */
+  checksum: string;
+}
+
+/**
+ * Options for `createMigrator`.
+ */
+export interface MigratorOptions {
+  /** Directory containing `<version>_<name>.up.sql` and `<version>_<name>.down.sql` files */
+  dir: string;
+  /**
+   * Table recording applied migrations.
+   * @default '_ereo_migrations'
+   */
+  table?: string;
+  /**
+   * Table holding the migration lock.
+   * @default '_ereo_migrations_lock'
+   */
+  lockTable?: string;
+}
+
+/**
+ * Options for `Migrator.migrate`.
+ */
+export interface MigrateOptions {
+  /** Stop after applying this version (default: apply all pending migrations) */
+  to?: string;
+}
+
+/**
+ * Options for `Migrator.rollback`.
+ */
+export interface RollbackOptions {
+  /** Roll back every migration after this version; '0' rolls back all of them */
+  to?: string;
+  /**
+   * Number of migrations to roll back when `to` is not given.
+   * @default 1
+   */
+  steps?: number;
+}
+
+/**
+ * State of a migration:
+ * - `applied`: applied and unchanged since
+ * - `pending`: not applied yet
+ * - `modified`: applied, but the up file has changed since
+ * - `missing`: applied, but the files are gone
+ */
+export type MigrationState = 'applied' | 'pending' | 'modified' | 'missing';
+
+/**
+ * A row of `Migrator.status`.
+ */
+export interface MigrationStatus {
+  version: string;
+  name: string;
+  state: MigrationState;
+  /** When the migration was applied (ISO string) */
+  appliedAt?: string;
+}
@@ -144,6 +144,18 @@ describe('Adapter Registry', () => {
 
       expect(getDefaultAdapter()).toBe(adapter);
     });
+
+    it('should prefer the first adapter registered as default', () => {
+      const analytics = new MockAdapter('analytics');
+      const main = new MockAdapter('main');
+      const other = new MockAdapter('other');
+
+      registerAdapter('analytics', analytics);
+      registerAdapter('main', main, { default: true });
+      registerAdapter('other', other, { default: true });
+
+      expect(getDefaultAdapter()).toBe(main);
+    });
   });
 
   describe('clearAdapterRegistry', () => {
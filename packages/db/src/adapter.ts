@@ -187,15 +187,25 @@ export type AdapterFactory<TConfig extends AdapterConfig, TSchema> = (
 /** Registry of available adapters */
 const adapterRegistry = new Map<string, DatabaseAdapter<unknown>>();
 
+/** Name of the adapter registered as the default, if any */
+let defaultAdapterName: string | null = null;
+
 /**
  * Register an adapter instance globally.
  * Useful for accessing the adapter from anywhere in the application.
+ *
+ * @param options.default - Make this the default adapter. The first
+ *   adapter registered with this option wins.
  */
 export function registerAdapter<TSchema>(
   name: string,
-  adapter: DatabaseAdapter<TSchema>
+  adapter: DatabaseAdapter<TSchema>,
+  options: { default?: boolean } = {}
 ): void {
   adapterRegistry.set(name, adapter);
+  if (options.default && defaultAdapterName === null) {
+    defaultAdapterName = name;
+  }
 }
 
 /**
@@ -209,9 +219,14 @@ export function getAdapter<TSchema = unknown>(
 
 /**
  * Get the default registered adapter.
- * Returns the first registered adapter or undefined if none.
+ * Returns the adapter registered as the default, else the first
+ * registered adapter, or undefined if none.
  */
 export function getDefaultAdapter<TSchema = unknown>(): DatabaseAdapter<TSchema> | undefined {
+  const explicit = defaultAdapterName !== null ? adapterRegistry.get(defaultAdapterName) : undefined;
+  if (explicit) {
+    return explicit as DatabaseAdapter<TSchema>;
+  }
   const first = adapterRegistry.values().next();
   return first.done ? undefined : (first.value as DatabaseAdapter<TSchema>);
 }
@@ -222,4 +237,5 @@ export function getDefaultAdapter<TSchema = unknown>(): DatabaseAdapter<TSchema>
  */
 export function clearAdapterRegistry(): void {
   adapterRegistry.clear();
+  defaultAdapterName = null;
 }
@@ -252,6 +252,24 @@ export function getRequestDedupStats(context: AppContext): DedupStats {
   };
 }
 
+/**
+ * Get a view of a request context with its own dedup cache and stats,
+ * so identical queries against different databases are not shared.
+ * Every other key is read from and written to the request context.
+ *
+ * @param context - The request context
+ * @param scope - Name of the database
+ */
+export function scopeDedupContext(context: AppContext, scope: string): AppContext {
+  const scoped = (key: string): string =>
+    key === DEDUP_CACHE_KEY || key === DEDUP_STATS_KEY ? `${key}:${scope}` : key;
+
+  return Object.create(context, {
+    get: { value: <T>(key: string) => context.get<T>(scoped(key)) },
+    set: { value: <T>(key: string, value: T) => context.set(scoped(key), value) },
+  }) as AppContext;
+}
+
 // ============================================================================
 // Debugging Utilities
 // ============================================================================
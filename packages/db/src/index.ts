@@ -5,6 +5,7 @@
  * - Adapter interface for pluggable database backends
  * - Query deduplication for request-scoped caching
  * - Connection pooling primitives
+ * - Read replica routing
  * - Type utilities for end-to-end type safety
  *
  * @example
@@ -86,6 +87,17 @@ export {
   type RetryConfig,
 } from './pool';
 
+// ============================================================================
+// Read Replicas
+// ============================================================================
+
+export {
+  createReplicatedAdapter,
+  type ReplicatedDatabaseAdapter,
+  type ReplicatedAdapterOptions,
+  type ReplicatedRequestClient,
+} from './replicas';
+
 // ============================================================================
 // Plugin Factory & Context Helpers
 // ============================================================================
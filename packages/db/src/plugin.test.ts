@@ -0,0 +1,158 @@
+/**
+ * Tests for the database plugin and context helpers.
+ */
+
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { RequestContext, type DevServer, type MiddlewareHandler, type Plugin } from '@ereo/core';
+import type { DatabaseAdapter, RequestScopedClient, Transaction } from './adapter';
+import { clearAdapterRegistry } from './adapter';
+import { dedupQuery, clearDedupCache, getRequestDedupStats } from './dedup';
+import { createDatabasePlugin, useDb, useAdapter, getDb, withTransaction } from './plugin';
+import type { QueryResult, MutationResult, HealthCheckResult, DedupResult, DedupStats } from './types';
+
+// Mock adapter answering every query with its own name
+class MockAdapter implements DatabaseAdapter<{ label: string }> {
+  readonly edgeCompatible = false;
+  queries = 0;
+
+  constructor(readonly name: string) {}
+
+  getClient(): { label: string } {
+    return { label: this.name };
+  }
+
+  getRequestClient(context: RequestContext): RequestScopedClient<{ label: string }> {
+    const adapter = this;
+    return {
+      client: this.getClient(),
+      query<T>(sql: string, params?: unknown[]): Promise<DedupResult<QueryResult<T>>> {
+        return dedupQuery(context, sql, params, () => adapter.query<T>(sql, params));
+      },
+      getDedupStats(): DedupStats {
+        return getRequestDedupStats(context);
+      },
+      clearDedup(): void {
+        clearDedupCache(context);
+      },
+      invalidate(): void {
+        clearDedupCache(context);
+      },
+    };
+  }
+
+  async query<T>(_sql: string, _params?: unknown[]): Promise<QueryResult<T>> {
+    this.queries++;
+    return { rows: [{ from: this.name } as T], rowCount: 1 };
+  }
+
+  async execute(): Promise<MutationResult> {
+    return { rowsAffected: 1 };
+  }
+
+  async transaction<T>(fn: (tx: { label: string }) => Promise<T>): Promise<T> {
+    return fn(this.getClient());
+  }
+
+  async beginTransaction(): Promise<Transaction<{ label: string }>> {
+    return { client: this.getClient(), commit: async () => {}, rollback: async () => {}, isActive: true };
+  }
+
+  async healthCheck(): Promise<HealthCheckResult> {
+    return { healthy: true, latencyMs: 1 };
+  }
+
+  async disconnect(): Promise<void> {}
+}
+
+/** Run the plugins' setup and middleware for a new request */
+async function runPlugins(plugins: Plugin[]): Promise<RequestContext> {
+  const server = { middlewares: [] as MiddlewareHandler[] };
+  for (const plugin of plugins) {
+    await plugin.setup!({} as never);
+    plugin.configureServer!(server as unknown as DevServer);
+  }
+
+  const request = new Request('http://localhost/test');
+  const context = new RequestContext(request);
+  for (const middleware of server.middlewares) {
+    await middleware(request, context, async () => new Response());
+  }
+  return context;
+}
+
+describe('createDatabasePlugin', () => {
+  let main: MockAdapter;
+  let analytics: MockAdapter;
+
+  beforeEach(() => {
+    clearAdapterRegistry();
+    main = new MockAdapter('main');
+    analytics = new MockAdapter('analytics');
+  });
+
+  it('should attach the default database to the request', async () => {
+    const context = await runPlugins([createDatabasePlugin(main)]);
+
+    expect(useDb(context).client).toEqual({ label: 'main' });
+    expect(useAdapter(context)).toBe(main);
+    expect(getDb()).toBe(main);
+  });
+
+  it('should attach named databases next to the default one', async () => {
+    const context = await runPlugins([
+      createDatabasePlugin(analytics, { registrationName: 'analytics', registerDefault: false }),
+      createDatabasePlugin(main),
+    ]);
+
+    expect(useAdapter(context)).toBe(main);
+    expect(useAdapter(context, 'analytics')).toBe(analytics);
+    expect(useDb(context, 'analytics').client).toEqual({ label: 'analytics' });
+    expect(useDb(context, 'main')).toBe(useDb(context));
+    expect(getDb()).toBe(main);
+    expect(getDb('analytics')).toBe(analytics);
+  });
+
+  it('should keep the first default database', async () => {
+    const context = await runPlugins([createDatabasePlugin(main), createDatabasePlugin(analytics)]);
+
+    expect(useAdapter(context)).toBe(main);
+    expect(getDb()).toBe(main);
+  });
+
+  it('should not share deduplicated results between databases', async () => {
+    const context = await runPlugins([
+      createDatabasePlugin(main),
+      createDatabasePlugin(analytics, { registerDefault: false }),
+    ]);
+
+    const fromMain = await useDb(context).query('SELECT 1');
+    const fromAnalytics = await useDb(context, 'analytics').query('SELECT 1');
+
+    expect(fromAnalytics.fromCache).toBe(false);
+    expect(fromAnalytics.result.rows).toEqual([{ from: 'analytics' }]);
+    expect(fromMain.result.rows).toEqual([{ from: 'main' }]);
+    expect(useDb(context, 'analytics').getDedupStats().total).toBe(1);
+  });
+
+  it('should clear the named database cache after withTransaction', async () => {
+    const context = await runPlugins([
+      createDatabasePlugin(main),
+      createDatabasePlugin(analytics, { registerDefault: false }),
+    ]);
+    await useDb(context, 'analytics').query('SELECT 1');
+
+    const label = await withTransaction(context, async (tx: { label: string }) => tx.label, 'analytics');
+    const after = await useDb(context, 'analytics').query('SELECT 1');
+
+    expect(label).toBe('analytics');
+    expect(after.fromCache).toBe(false);
+  });
+
+  it('should explain how to register a missing database', async () => {
+    const context = await runPlugins([createDatabasePlugin(main)]);
+
+    expect(() => useDb(context, 'reporting')).toThrow(
+      "createDatabasePlugin(adapter, { registrationName: 'reporting' })"
+    );
+  });
+});
@@ -7,7 +7,8 @@
 
 import type { Plugin, AppContext } from '@ereo/core';
 import type { DatabaseAdapter, RequestScopedClient } from './adapter';
-import { registerAdapter, getDefaultAdapter } from './adapter';
+import { registerAdapter, getAdapter, getDefaultAdapter } from './adapter';
+import { scopeDedupContext } from './dedup';
 
 // ============================================================================
 // Context Key Constants
@@ -19,6 +20,15 @@ const DB_CLIENT_KEY = '__ereo_db_client';
 /** Key used to store the adapter reference in context */
 const DB_ADAPTER_KEY = '__ereo_db_adapter';
 
+/** Key used to store the databases of a request by registration name */
+const DB_NAMED_KEY = '__ereo_db_named';
+
+/** A database attached to a request */
+interface RequestDatabase {
+  client: RequestScopedClient<unknown>;
+  adapter: DatabaseAdapter<unknown>;
+}
+
 // ============================================================================
 // Plugin Options
 // ============================================================================
@@ -28,13 +38,14 @@ const DB_ADAPTER_KEY = '__ereo_db_adapter';
  */
 export interface DatabasePluginOptions {
   /**
-   * Register this adapter as the default.
+   * Make this adapter the default, returned by `useDb(context)`.
+   * When several plugins are default, the first one registered wins.
    * @default true
    */
   registerDefault?: boolean;
 
   /**
-   * Name to register the adapter under.
+   * Name to register the adapter under, used by `useDb(context, name)`.
    * @default adapter.name
    */
   registrationName?: string;
@@ -98,10 +109,8 @@ export function createDatabasePlugin<TSchema>(
       log('Initializing database adapter...');
 
       // Register the adapter globally
-      if (registerDefault) {
-        registerAdapter(registrationName, adapter);
-        log(`Registered as "${registrationName}"`);
-      }
+      registerAdapter(registrationName, adapter, { default: registerDefault });
+      log(`Registered as "${registrationName}"${registerDefault ? ' (default)' : ''}`);
 
       // Perform health check
       const health = await adapter.healthCheck();
@@ -118,14 +127,27 @@ export function createDatabasePlugin<TSchema>(
     configureServer(server) {
       // Add middleware that attaches request-scoped client to context
       server.middlewares.push(async (_request, context, next) => {
-        // Create request-scoped client with deduplication
-        const client = adapter.getRequestClient(context);
+        const isDefault = registerDefault && !context.get(DB_CLIENT_KEY);
 
-        // Store in context
-        context.set(DB_CLIENT_KEY, client);
-        context.set(DB_ADAPTER_KEY, adapter);
+        // Create request-scoped client with deduplication. Other databases
+        // get their own dedup cache so identical queries are not shared.
+        const client = adapter.getRequestClient(
+          isDefault ? context : scopeDedupContext(context, registrationName)
+        );
 
-        log('Attached request-scoped client to context');
+        // Store in context
+        if (isDefault) {
+          context.set(DB_CLIENT_KEY, client);
+          context.set(DB_ADAPTER_KEY, adapter);
+        }
+        let named = context.get<Map<string, RequestDatabase>>(DB_NAMED_KEY);
+        if (!named) {
+          named = new Map();
+          context.set(DB_NAMED_KEY, named);
+        }
+        named.set(registrationName, { client, adapter } as RequestDatabase);
+
+        log(`Attached request-scoped client "${registrationName}" to context`);
 
         return next();
       });
@@ -140,11 +162,28 @@ export function createDatabasePlugin<TSchema>(
 // Context Helpers
 // ============================================================================
 
+/**
+ * Get a named database of the request.
+ */
+function getRequestDatabase(context: AppContext, name: string): RequestDatabase {
+  const database = context.get<Map<string, RequestDatabase>>(DB_NAMED_KEY)?.get(name);
+
+  if (!database) {
+    throw new Error(
+      `Database "${name}" not available in context. ` +
+      `Ensure createDatabasePlugin(adapter, { registrationName: '${name}' }) is registered in your config.`
+    );
+  }
+
+  return database;
+}
+
 /**
  * Get the database client from request context.
  * Use this in loaders, actions, and middleware.
  *
  * @param context - The request context from EreoJS
+ * @param name - Registration name of the database (default: the default database)
  * @returns The request-scoped database client with deduplication
  * @throws Error if database plugin is not configured
  *
@@ -152,13 +191,19 @@ export function createDatabasePlugin<TSchema>(
  * export const loader = createLoader({
  *   load: async ({ context }) => {
  *     const db = useDb(context);
+ *     const analytics = useDb(context, 'analytics');
  *     return db.client.select().from(users).where(eq(users.id, 1));
  *   },
  * });
  */
 export function useDb<TSchema = unknown>(
-  context: AppContext
+  context: AppContext,
+  name?: string
 ): RequestScopedClient<TSchema> {
+  if (name !== undefined) {
+    return getRequestDatabase(context, name).client as RequestScopedClient<TSchema>;
+  }
+
   const client = context.get<RequestScopedClient<TSchema>>(DB_CLIENT_KEY);
 
   if (!client) {
@@ -176,12 +221,18 @@ export function useDb<TSchema = unknown>(
  * Use this when you need direct adapter access (e.g., for transactions).
  *
  * @param context - The request context from EreoJS
+ * @param name - Registration name of the database (default: the default database)
  * @returns The database adapter
  * @throws Error if database plugin is not configured
  */
 export function useAdapter<TSchema = unknown>(
-  context: AppContext
+  context: AppContext,
+  name?: string
 ): DatabaseAdapter<TSchema> {
+  if (name !== undefined) {
+    return getRequestDatabase(context, name).adapter as DatabaseAdapter<TSchema>;
+  }
+
   const adapter = context.get<DatabaseAdapter<TSchema>>(DB_ADAPTER_KEY);
 
   if (!adapter) {
@@ -195,10 +246,11 @@ export function useAdapter<TSchema = unknown>(
 }
 
 /**
- * Get the default registered database adapter.
+ * Get a registered database adapter, the default one unless a name is given.
  * Use this outside of request context when you need database access.
  *
- * @returns The default database adapter or undefined
+ * @param name - Registration name of the database
+ * @returns The database adapter or undefined
  *
  * @example
  * // In a script or background job
@@ -207,8 +259,8 @@ export function useAdapter<TSchema = unknown>(
  *   const users = await adapter.getClient().select().from(users);
  * }
  */
-export function getDb<TSchema = unknown>(): DatabaseAdapter<TSchema> | undefined {
-  return getDefaultAdapter<TSchema>();
+export function getDb<TSchema = unknown>(name?: string): DatabaseAdapter<TSchema> | undefined {
+  return name !== undefined ? getAdapter<TSchema>(name) : getDefaultAdapter<TSchema>();
 }
 
 // ============================================================================
@@ -221,6 +273,7 @@ export function getDb<TSchema = unknown>(): DatabaseAdapter<TSchema> | undefined
  *
  * @param context - The request context
  * @param fn - Function to run within the transaction
+ * @param name - Registration name of the database (default: the default database)
  * @returns The result of the function
  *
  * @example
@@ -236,13 +289,16 @@ export function getDb<TSchema = unknown>(): DatabaseAdapter<TSchema> | undefined
  */
 export async function withTransaction<TSchema, TResult>(
   context: AppContext,
-  fn: (tx: TSchema) => Promise<TResult>
+  fn: (tx: TSchema) => Promise<TResult>,
+  name?: string
 ): Promise<TResult> {
-  const adapter = useAdapter<TSchema>(context);
+  const adapter = useAdapter<TSchema>(context, name);
   const result = await adapter.transaction(fn);
 
   // Clear dedup cache after transaction (mutations occurred)
-  const client = context.get<RequestScopedClient<TSchema>>(DB_CLIENT_KEY);
+  const client = name !== undefined
+    ? context.get<Map<string, RequestDatabase>>(DB_NAMED_KEY)?.get(name)?.client
+    : context.get<RequestScopedClient<TSchema>>(DB_CLIENT_KEY);
   if (client) {
     client.clearDedup();
   }
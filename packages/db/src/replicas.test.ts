@@ -0,0 +1,219 @@
+/**
+ * Tests for read replica routing.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import { RequestContext, type DevServer, type MiddlewareHandler } from '@ereo/core';
+import type { DatabaseAdapter, RequestScopedClient, Transaction } from './adapter';
+import { createReplicatedAdapter, type ReplicatedDatabaseAdapter } from './replicas';
+import { createDatabasePlugin, withTransaction } from './plugin';
+import {
+  ConnectionError,
+  QueryError,
+  type QueryResult,
+  type MutationResult,
+  type HealthCheckResult,
+} from './types';
+
+function createMockContext(): RequestContext {
+  return new RequestContext(new Request('http://localhost/test'));
+}
+
+// Mock adapter recording which statements reached it
+class MockAdapter implements DatabaseAdapter<{ label: string }> {
+  readonly edgeCompatible = false;
+  calls: string[] = [];
+  failure: Error | null = null;
+  healthy = true;
+  disconnected = false;
+
+  constructor(readonly name: string) {}
+
+  getClient(): { label: string } {
+    return { label: this.name };
+  }
+
+  getRequestClient(): RequestScopedClient<{ label: string }> {
+    throw new Error('not used');
+  }
+
+  async query<T>(sql: string): Promise<QueryResult<T>> {
+    this.calls.push(sql);
+    if (this.failure) throw this.failure;
+    return { rows: [{ from: this.name } as T], rowCount: 1 };
+  }
+
+  async execute(sql: string): Promise<MutationResult> {
+    this.calls.push(sql);
+    return { rowsAffected: 1 };
+  }
+
+  async transaction<T>(fn: (tx: { label: string }) => Promise<T>): Promise<T> {
+    this.calls.push('transaction');
+    return fn(this.getClient());
+  }
+
+  async beginTransaction(): Promise<Transaction<{ label: string }>> {
+    this.calls.push('begin');
+    return { client: this.getClient(), commit: async () => {}, rollback: async () => {}, isActive: true };
+  }
+
+  async healthCheck(): Promise<HealthCheckResult> {
+    return this.healthy ? { healthy: true, latencyMs: 1 } : { healthy: false, latencyMs: 1, error: 'down' };
+  }
+
+  async disconnect(): Promise<void> {
+    this.disconnected = true;
+  }
+}
+
+describe('createReplicatedAdapter', () => {
+  let primary: MockAdapter;
+  let replicaA: MockAdapter;
+  let replicaB: MockAdapter;
+  let adapter: ReplicatedDatabaseAdapter<{ label: string }>;
+
+  beforeEach(() => {
+    primary = new MockAdapter('primary');
+    replicaA = new MockAdapter('replica-a');
+    replicaB = new MockAdapter('replica-b');
+    adapter = createReplicatedAdapter({ primary, replicas: [replicaA, replicaB], healthCheckInterval: 0 });
+  });
+
+  afterEach(async () => {
+    await adapter.disconnect();
+  });
+
+  describe('routing', () => {
+    it('should send reads to the replicas in turn', async () => {
+      const results = [await adapter.query('SELECT 1'), await adapter.query('SELECT 2'), await adapter.query('SELECT 3')];
+
+      expect(results.map((r) => (r.rows[0] as { from: string }).from)).toEqual(['replica-a', 'replica-b', 'replica-a']);
+      expect(primary.calls).toEqual([]);
+    });
+
+    it('should send writes and transactions to the primary', async () => {
+      await adapter.execute('INSERT INTO users VALUES (1)');
+      const label = await adapter.transaction(async (tx) => tx.label);
+      await adapter.beginTransaction();
+
+      expect(label).toBe('primary');
+      expect(primary.calls).toEqual(['INSERT INTO users VALUES (1)', 'transaction', 'begin']);
+      expect(adapter.getClient()).toEqual({ label: 'primary' });
+      expect(replicaA.calls).toEqual([]);
+    });
+
+    it('should read from the primary without replicas', async () => {
+      const bare = createReplicatedAdapter({ primary, replicas: [] });
+
+      expect(bare.name).toBe('primary');
+      expect(bare.getReadAdapter()).toBe(primary);
+    });
+  });
+
+  describe('read-your-writes', () => {
+    it('should keep a request on the primary after it writes', async () => {
+      const context = createMockContext();
+      const db = adapter.getRequestClient(context);
+
+      await db.query('SELECT * FROM users');
+      await adapter.execute('UPDATE users SET name = ?');
+      db.invalidate(['users']);
+      const { result } = await db.query('SELECT * FROM users');
+
+      expect(adapter.isSticky(context)).toBe(true);
+      expect((result.rows[0] as { from: string }).from).toBe('primary');
+      expect(adapter.isSticky(createMockContext())).toBe(false);
+    });
+
+    it('should stick after withTransaction', async () => {
+      const context = createMockContext();
+      const server = { middlewares: [] as MiddlewareHandler[] };
+      createDatabasePlugin(adapter).configureServer!(server as unknown as DevServer);
+      await server.middlewares[0](new Request('http://localhost/test'), context, async () => new Response());
+
+      await withTransaction(context, async () => {});
+
+      expect(adapter.getReadAdapter(context)).toBe(primary);
+    });
+
+    it('should stick after request-scoped writes', async () => {
+      const writer = createMockContext();
+      const db = adapter.getRequestClient(writer);
+      await db.query('SELECT * FROM users');
+      await db.execute('UPDATE users SET name = ?');
+
+      const { result, fromCache } = await db.query('SELECT * FROM users');
+      expect(fromCache).toBe(false);
+      expect((result.rows[0] as { from: string }).from).toBe('primary');
+
+      const other = createMockContext();
+      const label = await adapter.getRequestClient(other).transaction(async (tx) => tx.label);
+      expect(label).toBe('primary');
+      expect(adapter.isSticky(other)).toBe(true);
+    });
+
+    it('should deduplicate reads within a request', async () => {
+      const db = adapter.getRequestClient(createMockContext());
+
+      await db.query('SELECT 1');
+      const second = await db.query('SELECT 1');
+
+      expect(second.fromCache).toBe(true);
+      expect(replicaA.calls.length + replicaB.calls.length).toBe(1);
+    });
+  });
+
+  describe('failover', () => {
+    it('should retry on another replica when one cannot be reached', async () => {
+      const warn = spyOn(console, 'warn').mockImplementation(() => {});
+      replicaA.failure = new ConnectionError('connection refused');
+
+      const results = [await adapter.query('SELECT 1'), await adapter.query('SELECT 2')];
+
+      expect(results.map((r) => (r.rows[0] as { from: string }).from)).toEqual(['replica-b', 'replica-b']);
+      expect(replicaA.calls).toEqual(['SELECT 1']);
+      expect(warn).toHaveBeenCalledTimes(1);
+      warn.mockRestore();
+    });
+
+    it('should not retry failing queries', async () => {
+      replicaA.failure = new QueryError('syntax error', 'SELEC 1');
+
+      await expect(adapter.query('SELEC 1')).rejects.toThrow('syntax error');
+      expect(replicaB.calls).toEqual([]);
+    });
+
+    it('should remove and re-add replicas on health checks', async () => {
+      const warn = spyOn(console, 'warn').mockImplementation(() => {});
+      replicaA.healthy = false;
+      replicaB.healthy = false;
+
+      const health = await adapter.healthCheck();
+      expect(health.healthy).toBe(true);
+      expect(health.metadata).toEqual({ replicas: 2, healthyReplicas: 0 });
+      expect(adapter.getReadAdapter()).toBe(primary);
+
+      replicaB.healthy = true;
+      await adapter.healthCheck();
+      expect(adapter.getReadAdapter()).toBe(replicaB);
+      warn.mockRestore();
+    });
+
+    it('should fail reads without healthy replicas when fallback is disabled', async () => {
+      const warn = spyOn(console, 'warn').mockImplementation(() => {});
+      const strict = createReplicatedAdapter({ primary, replicas: [replicaA], fallbackToPrimary: false, healthCheckInterval: 0 });
+      replicaA.failure = new Error('connect ECONNREFUSED 10.0.0.2:5432');
+
+      await expect(strict.query('SELECT 1')).rejects.toThrow(ConnectionError);
+      expect(primary.calls).toEqual([]);
+      warn.mockRestore();
+    });
+  });
+
+  it('should disconnect every adapter', async () => {
+    await adapter.disconnect();
+
+    expect([primary, replicaA, replicaB].every((a) => a.disconnected)).toBe(true);
+  });
+});
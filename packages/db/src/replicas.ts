@@ -0,0 +1,359 @@
+/**
+ * @ereo/db - Read Replicas
+ *
+ * Adapter wrapper that sends reads to read replicas and writes to the primary.
+ * Requests that wrote stay on the primary so they read their own writes,
+ * and replicas failing health checks are taken out of rotation.
+ */
+
+import type { AppContext } from '@ereo/core';
+import type { DatabaseAdapter, RequestScopedClient, Transaction } from './adapter';
+import {
+  dedupQuery,
+  clearDedupCache,
+  invalidateTables,
+  getRequestDedupStats,
+} from './dedup';
+import {
+  ConnectionError,
+  type QueryResult,
+  type MutationResult,
+  type DedupResult,
+  type DedupStats,
+  type TransactionOptions,
+  type HealthCheckResult,
+} from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Options for createReplicatedAdapter.
+ */
+export interface ReplicatedAdapterOptions<TSchema = unknown> {
+  /** Adapter for the primary database; receives all writes and transactions */
+  primary: DatabaseAdapter<TSchema>;
+  /** Adapters for the read replicas */
+  replicas: DatabaseAdapter<TSchema>[];
+  /**
+   * Adapter name.
+   * @default primary.name
+   */
+  name?: string;
+  /**
+   * Interval between replica health checks in milliseconds. 0 disables them.
+   * @default 30000
+   */
+  healthCheckInterval?: number;
+  /**
+   * Read from the primary when no replica is healthy. When false, reads fail
+   * with a ConnectionError instead.
+   * @default true
+   */
+  fallbackToPrimary?: boolean;
+}
+
+/**
+ * Request-scoped client of a replicated adapter.
+ *
+ * `client` is always the primary's client, and the adapter does not see
+ * writes made through it: call `invalidate()` after them, or write with
+ * `execute` and `transaction`, which keep the request on the primary.
+ */
+export interface ReplicatedRequestClient<TSchema> extends RequestScopedClient<TSchema> {
+  /** Run a write on the primary; later reads of the request go there too */
+  execute(sql: string, params?: unknown[]): Promise<MutationResult>;
+  /** Run a transaction on the primary; later reads of the request go there too */
+  transaction<T>(fn: (tx: TSchema) => Promise<T>, options?: TransactionOptions): Promise<T>;
+}
+
+/**
+ * Database adapter that routes reads to replicas and writes to the primary.
+ */
+export interface ReplicatedDatabaseAdapter<TSchema = unknown> extends DatabaseAdapter<TSchema> {
+  /** The primary adapter */
+  readonly primary: DatabaseAdapter<TSchema>;
+  /** All replica adapters, healthy or not */
+  readonly replicas: readonly DatabaseAdapter<TSchema>[];
+  /**
+   * Get the adapter the next read would go to.
+   * Returns the primary for requests that are sticky or when no replica is healthy.
+   */
+  getReadAdapter(context?: AppContext): DatabaseAdapter<TSchema>;
+  /** Send all further reads of the request to the primary */
+  stickToPrimary(context: AppContext): void;
+  /** Whether reads of the request go to the primary */
+  isSticky(context: AppContext): boolean;
+  getRequestClient(context: AppContext): ReplicatedRequestClient<TSchema>;
+}
+
+// ============================================================================
+// Replicated Adapter
+// ============================================================================
+
+/** Counter giving every replicated adapter its own sticky key */
+let adapterCount = 0;
+
+/**
+ * Whether an error means the database could not be reached,
+ * as opposed to a failing query.
+ */
+function isConnectionFailure(error: unknown): boolean {
+  if (error instanceof ConnectionError) {
+    return true;
+  }
+  if (!(error instanceof Error)) {
+    return false;
+  }
+
+  const message = error.message.toLowerCase();
+  return (
+    /econnrefused|econnreset|etimedout/.test(message) ||
+    (message.includes('connection') &&
+      /refused|reset|closed|timeout/.test(message))
+  );
+}
+
+/**
+ * Replica-aware adapter implementation.
+ */
+class ReplicatedAdapter<TSchema> implements ReplicatedDatabaseAdapter<TSchema> {
+  readonly name: string;
+  readonly edgeCompatible: boolean;
+  readonly primary: DatabaseAdapter<TSchema>;
+  readonly replicas: readonly DatabaseAdapter<TSchema>[];
+
+  private healthy: Set<DatabaseAdapter<TSchema>>;
+  private next = 0;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private readonly stickyKey = `__ereo_db_sticky:${++adapterCount}`;
+  private readonly fallbackToPrimary: boolean;
+
+  constructor(options: ReplicatedAdapterOptions<TSchema>) {
+    this.primary = options.primary;
+    this.replicas = [...options.replicas];
+    this.name = options.name ?? options.primary.name;
+    this.edgeCompatible = [options.primary, ...options.replicas].every((adapter) => adapter.edgeCompatible);
+    this.fallbackToPrimary = options.fallbackToPrimary ?? true;
+    this.healthy = new Set(this.replicas);
+
+    const interval = options.healthCheckInterval ?? 30000;
+    if (interval > 0 && this.replicas.length > 0) {
+      this.timer = setInterval(() => {
+        this.checkReplicas().catch(() => {});
+      }, interval);
+      // Don't keep the process alive just for health checks
+      if (typeof this.timer === 'object' && 'unref' in this.timer) {
+        this.timer.unref();
+      }
+    }
+  }
+
+  getClient(): TSchema {
+    return this.primary.getClient();
+  }
+
+  getRequestClient(context: AppContext): ReplicatedRequestClient<TSchema> {
+    const adapter = this;
+
+    // Results cached from replicas may predate a write
+    const wrote = () => {
+      adapter.stickToPrimary(context);
+      clearDedupCache(context);
+    };
+
+    return {
+      // Primary only: reads through it bypass the replicas
+      get client() {
+        return adapter.primary.getClient();
+      },
+
+      async execute(sql: string, params?: unknown[]): Promise<MutationResult> {
+        wrote();
+        return adapter.primary.execute(sql, params);
+      },
+
+      async transaction<T>(fn: (tx: TSchema) => Promise<T>, options?: TransactionOptions): Promise<T> {
+        wrote();
+        return adapter.primary.transaction(fn, options);
+      },
+
+      async query<T>(sql: string, params?: unknown[]): Promise<DedupResult<QueryResult<T>>> {
+        return dedupQuery(context, sql, params, () => adapter.read<T>(sql, params, context));
+      },
+
+      getDedupStats(): DedupStats {
+        return getRequestDedupStats(context);
+      },
+
+      // Both are called after mutations, so the request has written
+      clearDedup(): void {
+        wrote();
+      },
+
+      invalidate(tables?: string[]): void {
+        if (tables && adapter.isSticky(context)) {
+          invalidateTables(context, tables);
+        } else {
+          wrote();
+        }
+      },
+    };
+  }
+
+  async query<T = unknown>(sql: string, params?: unknown[]): Promise<QueryResult<T>> {
+    return this.read<T>(sql, params);
+  }
+
+  async execute(sql: string, params?: unknown[]): Promise<MutationResult> {
+    return this.primary.execute(sql, params);
+  }
+
+  async transaction<T>(
+    fn: (tx: TSchema) => Promise<T>,
+    options?: TransactionOptions
+  ): Promise<T> {
+    return this.primary.transaction(fn, options);
+  }
+
+  async beginTransaction(options?: TransactionOptions): Promise<Transaction<TSchema>> {
+    return this.primary.beginTransaction(options);
+  }
+
+  getReadAdapter(context?: AppContext): DatabaseAdapter<TSchema> {
+    if (context && this.isSticky(context)) {
+      return this.primary;
+    }
+
+    const healthy = this.replicas.filter((replica) => this.healthy.has(replica));
+    if (healthy.length === 0) {
+      if (!this.fallbackToPrimary && this.replicas.length > 0) {
+        throw new ConnectionError(`No healthy read replica for "${this.name}"`);
+      }
+      return this.primary;
+    }
+
+    return healthy[this.next++ % healthy.length];
+  }
+
+  stickToPrimary(context: AppContext): void {
+    context.set(this.stickyKey, true);
+  }
+
+  isSticky(context: AppContext): boolean {
+    return context.get<boolean>(this.stickyKey) === true;
+  }
+
+  async healthCheck(): Promise<HealthCheckResult> {
+    const start = Date.now();
+    const [primary] = await Promise.all([this.primary.healthCheck(), this.checkReplicas()]);
+
+    return {
+      ...primary,
+      latencyMs: Date.now() - start,
+      metadata: {
+        ...primary.metadata,
+        replicas: this.replicas.length,
+        healthyReplicas: this.healthy.size,
+      },
+    };
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await Promise.all([this.primary, ...this.replicas].map((adapter) => adapter.disconnect()));
+  }
+
+  /**
+   * Run a read on a replica. A replica that cannot be reached is taken out
+   * of rotation and the read is retried on the next one.
+   */
+  private async read<T>(sql: string, params?: unknown[], context?: AppContext): Promise<QueryResult<T>> {
+    for (;;) {
+      const target = this.getReadAdapter(context);
+      if (target === this.primary) {
+        return this.primary.query<T>(sql, params);
+      }
+
+      try {
+        return await target.query<T>(sql, params);
+      } catch (error) {
+        if (!isConnectionFailure(error)) {
+          throw error;
+        }
+        this.markUnhealthy(target, error instanceof Error ? error.message : String(error));
+      }
+    }
+  }
+
+  /**
+   * Health check every replica, updating the rotation.
+   */
+  private async checkReplicas(): Promise<void> {
+    await Promise.all(
+      this.replicas.map(async (replica) => {
+        const result = await replica.healthCheck().catch(
+          (error): HealthCheckResult => ({
+            healthy: false,
+            latencyMs: 0,
+            error: error instanceof Error ? error.message : String(error),
+          })
+        );
+
+        if (result.healthy) {
+          this.healthy.add(replica);
+        } else {
+          this.markUnhealthy(replica, result.error);
+        }
+      })
+    );
+  }
+
+  private markUnhealthy(replica: DatabaseAdapter<TSchema>, reason?: string): void {
+    if (this.healthy.delete(replica)) {
+      const index = this.replicas.indexOf(replica);
+      console.warn(
+        `[db:${this.name}] Read replica ${index} removed from rotation${reason ? `: ${reason}` : ''}`
+      );
+    }
+  }
+}
+
+// ============================================================================
+// Factory Function
+// ============================================================================
+
+/**
+ * Create an adapter that sends reads to read replicas and writes to the primary.
+ *
+ * - `query` goes to the healthy replicas in turn
+ * - `execute`, `transaction` and `beginTransaction` go to the primary
+ * - after a request writes (`withTransaction`, `db.invalidate()` or
+ *   `db.clearDedup()`), its reads go to the primary for the rest of the request
+ * - replicas failing a health check or a connection are taken out of rotation
+ *   and added back when a health check passes
+ *
+ * @param options - Primary, replicas and routing options
+ * @returns A database adapter
+ *
+ * @example
+ * const adapter = createReplicatedAdapter({
+ *   primary: createDrizzleAdapter({ driver: 'postgres-js', url: process.env.DATABASE_URL }),
+ *   replicas: [
+ *     createDrizzleAdapter({ driver: 'postgres-js', url: process.env.DATABASE_REPLICA_URL }),
+ *   ],
+ * });
+ *
+ * export default defineConfig({
+ *   plugins: [createDatabasePlugin(adapter)],
+ * });
+ */
+export function createReplicatedAdapter<TSchema = unknown>(
+  options: ReplicatedAdapterOptions<TSchema>
+): ReplicatedDatabaseAdapter<TSchema> {
+  return new ReplicatedAdapter(options);
+}
@@ -5,14 +5,14 @@
  * waterfall detection and optimization suggestions.
  */
 
-import type { DataPipelineVisualization, LoaderTiming } from './types';
+import type { DataPipelineVisualization, LoaderTiming, BatchTiming } from './types';
 
 /**
  * Generate HTML for the Data Pipeline visualization.
  * This is the flagship feature of EreoJS DevTools.
  */
 export function generateDataPipelineHTML(data: DataPipelineVisualization): string {
-  const { route, totalTime, loaders, efficiency, waterfalls, timestamp } = data;
+  const { route, totalTime, loaders, efficiency, waterfalls, batches = [], timestamp } = data;
 
   // Generate timeline bars
   const timelineHTML = loaders
@@ -20,6 +20,12 @@ export function generateDataPipelineHTML(data: DataPipelineVisualization): strin
     .map((loader) => generateLoaderBar(loader, totalTime))
     .join('\n');
 
+  // Generate batch loader bars
+  const batchesHTML = [...batches]
+    .sort((a, b) => a.start - b.start)
+    .map((batch) => generateBatchBar(batch, totalTime))
+    .join('\n');
+
   // Generate waterfall warnings
   const waterfallHTML = waterfalls
     .map((w) => `
@@ -68,6 +74,15 @@ export function generateDataPipelineHTML(data: DataPipelineVisualization): strin
         </div>
       </div>
 
+      ${batches.length > 0 ? `
+        <div class="timeline-container batch-section">
+          <h4>Batched Loads</h4>
+          <div class="timeline-body">
+            ${batchesHTML}
+          </div>
+        </div>
+      ` : ''}
+
       ${waterfalls.length > 0 ? `
         <div class="waterfall-section">
           <h4>Optimization Opportunities</h4>
@@ -122,6 +137,33 @@ function generateLoaderBar(loader: LoaderTiming, totalTime: number): string {
   `;
 }
 
+/**
+ * Generate HTML for a single batch loader call.
+ */
+function generateBatchBar(batch: BatchTiming, totalTime: number): string {
+  const startPercent = totalTime > 0 ? (batch.start / totalTime) * 100 : 0;
+  const widthPercent = totalTime > 0 ? (batch.duration / totalTime) * 100 : 100;
+  const keys = `${batch.size} key${batch.size === 1 ? '' : 's'}`;
+
+  return `
+    <div class="loader-row batch-row ${batch.error ? 'batch-error' : ''}">
+      <span class="loader-name" title="${escapeHtml(batch.loader)}">
+        ${escapeHtml(batch.loader)}
+      </span>
+      <div class="loader-bar-container">
+        <div class="loader-bar bar-batch"
+             style="left: ${startPercent}%; width: ${Math.max(widthPercent, 0.5)}%"
+             title="${escapeHtml(batch.loader)}: ${keys} in ${batch.duration.toFixed(1)}ms${batch.error ? ` (${escapeHtml(batch.error)})` : ''}">
+        </div>
+      </div>
+      <span class="loader-stats">
+        <span class="duration">${batch.duration.toFixed(1)}ms</span>
+        <span class="batch-badge">${keys}</span>
+      </span>
+    </div>
+  `;
+}
+
 /**
  * Get CSS class for efficiency score.
  */
@@ -390,6 +432,26 @@ export const DATA_PIPELINE_STYLES = `
     color: #10b981;
   }
 
+  /* Batched Loads */
+  .batch-section h4 {
+    margin: 0 0 0.75rem;
+    font-size: 0.875rem;
+    color: #94a3b8;
+  }
+
+  .bar-batch { background: linear-gradient(90deg, #06b6d4, #0891b2); }
+  .batch-error .bar-batch { background: linear-gradient(90deg, #ef4444, #dc2626); }
+
+  .batch-badge {
+    font-size: 0.625rem;
+    padding: 0.125rem 0.375rem;
+    background: #0e7490;
+    color: white;
+    border-radius: 2px;
+    font-weight: 600;
+    white-space: nowrap;
+  }
+
   /* Waterfall Warnings */
   .waterfall-section {
     margin-bottom: 1rem;
@@ -16,6 +16,7 @@ export type {
   DevToolsConfig,
   DataPipelineVisualization,
   LoaderTiming,
+  BatchTiming,
   IslandVisualization,
   CacheVisualization,
   CacheEntry,
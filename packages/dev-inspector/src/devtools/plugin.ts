@@ -165,6 +165,14 @@ export function createDevToolsPlugin(config: DevToolsConfig = {}): Plugin {
             })),
             efficiency: metrics.parallelEfficiency,
             waterfalls: metrics.waterfalls,
+            batches: (metrics.batches ?? []).map((b) => ({
+              loader: b.loader,
+              start: b.startTime,
+              end: b.endTime,
+              duration: b.duration,
+              size: b.size,
+              error: b.error,
+            })),
             timestamp: Date.now(),
           };
 
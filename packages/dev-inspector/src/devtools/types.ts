@@ -36,6 +36,8 @@ export interface DataPipelineVisualization {
   efficiency: number;
   /** Detected waterfalls */
   waterfalls: WaterfallInfo[];
+  /** Batch loader calls */
+  batches?: BatchTiming[];
   /** Timestamp of request */
   timestamp: number;
 }
@@ -62,6 +64,24 @@ export interface LoaderTiming {
   size?: number;
 }
 
+/**
+ * Batch loader call timing data.
+ */
+export interface BatchTiming {
+  /** Batch loader name */
+  loader: string;
+  /** Start time relative to request start (ms) */
+  start: number;
+  /** End time relative to request start (ms) */
+  end: number;
+  /** Duration (ms) */
+  duration: number;
+  /** Number of keys loaded */
+  size: number;
+  /** Error message if the batch failed */
+  error?: string;
+}
+
 /**
  * Island visualization data.
  */
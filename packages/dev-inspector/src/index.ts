@@ -34,6 +34,7 @@ export type {
   DevToolsPanelData,
   DataPipelineVisualization,
   LoaderTiming,
+  BatchTiming,
   IslandVisualization,
   CacheVisualization,
   CacheEntry,
@@ -5,6 +5,7 @@ import { render, screen, act, cleanup, fireEvent, waitFor } from '@testing-libra
 import { FormStore } from './store';
 import { ActionForm, useFormAction } from './action';
 import { required } from './validators';
+import { CsrfProvider } from '@ereo/client';
 
 afterEach(cleanup);
 
@@ -75,6 +76,34 @@ describe('ActionForm', () => {
     expect(formEl?.noValidate).toBe(true);
   });
 
+  test('renders the CSRF token for URL actions', () => {
+    const form = createStore();
+
+    render(
+      createElement(CsrfProvider, {
+        token: 'tok',
+        children: createElement(ActionForm, { form, action: '/api/submit', children: null } as any),
+      })
+    );
+
+    const input = document.querySelector('input[name="_csrf"]') as HTMLInputElement;
+    expect(input?.type).toBe('hidden');
+    expect(input?.value).toBe('tok');
+  });
+
+  test('does not render the CSRF token for actions on other origins', () => {
+    const form = createStore();
+
+    render(
+      createElement(CsrfProvider, {
+        token: 'tok',
+        children: createElement(ActionForm, { form, action: 'https://third-party.example/subscribe', children: null } as any),
+      })
+    );
+
+    expect(document.querySelector('input[name="_csrf"]')).toBeNull();
+  });
+
   test('does not set action attribute for function actions', () => {
     const form = createStore();
 
@@ -1,5 +1,6 @@
 import { createElement, useCallback, useRef, useEffect, useState } from 'react';
 import { batch } from '@ereo/state';
+import { CsrfInput, getCsrfHeaders, isSameOriginUrl } from '@ereo/client';
 import type { ReactNode, FormEvent, ReactElement } from 'react';
 import type {
   ActionResult,
@@ -172,8 +173,8 @@ export function ActionForm<T extends Record<string, any>>(
           const response = await fetch(action, {
             method: method.toUpperCase(),
             headers: isMultipart
-              ? undefined
-              : { 'Content-Type': 'application/json' },
+              ? getCsrfHeaders(action)
+              : { 'Content-Type': 'application/json', ...getCsrfHeaders(action) },
             body: isMultipart
               ? form.toFormData()
               : JSON.stringify(values),
@@ -242,6 +243,8 @@ export function ActionForm<T extends Record<string, any>>(
       onSubmit: handleSubmit,
       noValidate: true, // We handle validation ourselves
     },
+    // Actions verify the CSRF token of native form posts; other sites never get it
+    typeof action === 'string' && isSameOriginUrl(action) ? createElement(CsrfInput) : null,
     children
   );
 }
@@ -294,8 +297,8 @@ export function useFormAction<T, TResult = unknown>(
           const response = await fetch(opts.action, {
             method: (opts.method ?? 'POST').toUpperCase(),
             headers: isMultipart
-              ? undefined
-              : { 'Content-Type': 'application/json' },
+              ? getCsrfHeaders(opts.action)
+              : { 'Content-Type': 'application/json', ...getCsrfHeaders(opts.action) },
             body: isMultipart
               ? objectToFormData(values)
               : JSON.stringify(values),
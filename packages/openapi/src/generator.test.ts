@@ -0,0 +1,217 @@
+/**
+ * @ereo/openapi - Generator tests
+ */
+
+import { describe, it, expect, afterAll } from 'bun:test';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { Route } from '@ereo/core';
+import { generateOpenAPI, toOpenAPIPaths } from './generator';
+import { openapiPlugin } from './plugin';
+
+const parse = (v: unknown) => v;
+const string = { type: 'string' };
+const userSchema = {
+  type: 'object',
+  properties: { id: string, name: string },
+  required: ['id', 'name'],
+};
+
+/** Shape of an `@ereo/rpc` router definition */
+const router = {
+  _def: {
+    health: { _type: 'query', handler: parse },
+    users: {
+      get: {
+        _type: 'query',
+        // Zod 4 `z.object({ id: z.string() })`
+        inputSchema: {
+          _zod: { def: { type: 'object', shape: { id: { _zod: { def: { type: 'string' } } } } } },
+          parse,
+        },
+        outputSchema: userSchema,
+        meta: { summary: 'Get a user' },
+        handler: parse,
+      },
+      create: {
+        _type: 'mutation',
+        inputSchema: { type: 'object', properties: { name: string } },
+        meta: { tags: ['admin'], deprecated: true },
+        handler: parse,
+      },
+      onCreated: { _type: 'subscription', handler: parse },
+    },
+  },
+};
+
+describe('generateOpenAPI - RPC routers', () => {
+  const doc = generateOpenAPI({
+    info: { title: 'Shop', version: '2.0.0' },
+    routers: [{ router, endpoint: '/rpc' }],
+  });
+
+  it('emits an OpenAPI 3.1 document', () => {
+    expect(doc.openapi).toBe('3.1.0');
+    expect(doc.info).toEqual({ title: 'Shop', version: '2.0.0' });
+    expect(doc.components.schemas.RPCError).toBeDefined();
+  });
+
+  it('documents queries as GET with a JSON input parameter', () => {
+    const operation = doc.paths['/rpc/users.get'].get;
+    expect(operation.operationId).toBe('users.get');
+    expect(operation.summary).toBe('Get a user');
+    expect(operation.tags).toEqual(['users']);
+    expect(operation.parameters).toEqual([
+      {
+        name: 'input',
+        in: 'query',
+        description: 'JSON-encoded input',
+        required: true,
+        content: { 'application/json': { schema: expect.objectContaining({ required: ['id'] }) } },
+      },
+    ]);
+    const [plain, envelope] = (operation.responses['200'] as any).content['application/json'].schema.oneOf;
+    expect(plain.properties.data).toEqual(userSchema);
+    expect(envelope.properties.json).toEqual(plain);
+    expect(envelope.required).toEqual(['json', 'meta']);
+  });
+
+  it('documents mutations as POST with a request body', () => {
+    const operation = doc.paths['/rpc/users.create'].post;
+    expect(operation.tags).toEqual(['admin']);
+    expect(operation.deprecated).toBe(true);
+    expect(operation.requestBody).toEqual({
+      required: true,
+      content: { 'application/json': { schema: { type: 'object', properties: { name: string } } } },
+    });
+  });
+
+  it('skips subscriptions and leaves top-level procedures untagged', () => {
+    expect(doc.paths['/rpc/users.onCreated']).toBeUndefined();
+    expect(doc.paths['/rpc/health'].get.tags).toBeUndefined();
+    expect(doc.paths['/rpc/health'].get.parameters).toBeUndefined();
+  });
+});
+
+describe('generateOpenAPI - API routes', () => {
+  const routes: Route[] = [
+    {
+      id: 'api',
+      path: '/api',
+      file: 'api/_layout.tsx',
+      layout: true,
+      module: {},
+      children: [
+        {
+          id: 'api/users/[id]',
+          path: '/api/users/[id]',
+          file: 'api/users/[id].ts',
+          module: {
+            GET: () => new Response(),
+            DELETE: () => new Response(),
+            openapi: {
+              tags: ['users'],
+              GET: {
+                summary: 'Fetch a user',
+                query: { type: 'object', properties: { expand: string } },
+                responses: { 200: userSchema, 404: { type: 'object' } },
+              },
+            },
+          },
+        },
+        { id: 'about', path: '/about', file: 'about.tsx', module: { default: () => null } },
+      ],
+    },
+  ];
+  const doc = generateOpenAPI({ routes });
+
+  it('documents method handlers with path parameters', () => {
+    expect(Object.keys(doc.paths)).toEqual(['/api/users/{id}']);
+    expect(Object.keys(doc.paths['/api/users/{id}'])).toEqual(['get', 'delete']);
+
+    const operation = doc.paths['/api/users/{id}'].get;
+    expect(operation.operationId).toBe('getApiUsersById');
+    expect(operation.summary).toBe('Fetch a user');
+    expect(operation.tags).toEqual(['users']);
+    expect(operation.parameters).toEqual([
+      { name: 'id', in: 'path', required: true, schema: string },
+      { name: 'expand', in: 'query', required: false, schema: string },
+    ]);
+    expect(Object.keys(operation.responses)).toEqual(['200', '404']);
+  });
+
+  it('falls back to a generic response', () => {
+    const operation = doc.paths['/api/users/{id}'].delete;
+    expect(operation.operationId).toBe('deleteApiUsersById');
+    expect(operation.responses).toEqual({ '200': { description: 'Successful response' } });
+  });
+});
+
+describe('toOpenAPIPaths', () => {
+  it('converts dynamic segments to parameters', () => {
+    expect(toOpenAPIPaths('/blog/[slug]')).toEqual([{ path: '/blog/{slug}', params: ['slug'] }]);
+    expect(toOpenAPIPaths('/')).toEqual([{ path: '/', params: [] }]);
+  });
+
+  it('adds paths without optional and catch-all segments', () => {
+    expect(toOpenAPIPaths('/docs/[...path]')).toEqual([
+      { path: '/docs/{path}', params: ['path'] },
+      { path: '/docs', params: [] },
+    ]);
+    expect(toOpenAPIPaths('/[[lang]]/posts/[id]')).toEqual([
+      { path: '/{lang}/posts/{id}', params: ['lang', 'id'] },
+      { path: '/posts/{id}', params: ['id'] },
+    ]);
+  });
+
+  it('lets routes of their own document the shorter paths', () => {
+    const handler = () => new Response();
+    const doc = generateOpenAPI({
+      routes: [
+        { id: 'files', path: '/files/[[name]]', file: 'files/[[name]].ts', module: { GET: handler, openapi: { GET: { operationId: 'getFile' } } } },
+        { id: 'files/index', path: '/files', file: 'files/index.ts', module: { GET: handler, openapi: { GET: { summary: 'List files' } } } },
+      ],
+    });
+
+    expect(doc.paths['/files/{name}'].get.operationId).toBe('getFile');
+    expect(doc.paths['/files/{name}'].get.parameters).toEqual([{ name: 'name', in: 'path', required: true, schema: string }]);
+    expect(doc.paths['/files'].get.summary).toBe('List files');
+    expect(doc.paths['/files'].get.parameters).toBeUndefined();
+  });
+});
+
+describe('openapiPlugin', () => {
+  const root = mkdtempSync(join(tmpdir(), 'ereo-openapi-'));
+  mkdirSync(join(root, 'app/routes/api'), { recursive: true });
+  writeFileSync(
+    join(root, 'app/routes/api/posts.ts'),
+    `export const GET = () => Response.json([]);
+export const openapi = { GET: { summary: 'List posts' } };`
+  );
+
+  afterAll(() => rmSync(root, { recursive: true, force: true }));
+
+  it('serves the document from file routes and routers', async () => {
+    const plugin = openapiPlugin({ routers: [{ router }] });
+    await plugin.setup!({ root, mode: 'production', config: {} });
+
+    const next = () => Promise.resolve(new Response('next'));
+    const response = await plugin.runtimeMiddleware![0](
+      new Request('http://localhost/openapi.json'),
+      {} as any,
+      next
+    );
+    const doc = await response.json();
+
+    expect(doc.paths['/api/posts'].get.summary).toBe('List posts');
+    expect(doc.paths['/api/rpc/users.get'].get).toBeDefined();
+
+    const other = await plugin.runtimeMiddleware![0](new Request('http://localhost/other'), {} as any, next);
+    expect(await other.text()).toBe('next');
+  });
+
+  it('does not serve the document when path is false', () => {
+    expect(openapiPlugin({ path: false }).runtimeMiddleware).toBeUndefined();
+  });
+});
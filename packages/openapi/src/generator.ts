@@ -0,0 +1,348 @@
+/**
+ * @ereo/openapi - Document Generator
+ *
+ * Builds an OpenAPI 3.1 document from `@ereo/rpc` routers and from the
+ * method handlers (GET, POST, ...) of file-based API routes.
+ */
+
+import type { OpenAPIOperationConfig, Route, RouteModule, RouteOpenAPI } from '@ereo/core';
+import { parsePathSegments } from '@ereo/router';
+import { toJSONSchema, isOptionalSchema, type JSONSchema } from './json-schema';
+
+/** Document `info` object */
+export interface OpenAPIInfo {
+  title: string;
+  version: string;
+  description?: string;
+}
+
+/** Document `servers` entry */
+export interface OpenAPIServer {
+  url: string;
+  description?: string;
+}
+
+/** An `@ereo/rpc` router to document */
+export interface RPCRouterSource {
+  /** Router from `createRouter()` */
+  router: { _def: Record<string, unknown> };
+  /** Endpoint the router is mounted at (default: '/api/rpc') */
+  endpoint?: string;
+}
+
+export interface GenerateOpenAPIOptions {
+  /** Document info (default title: 'API', version: '1.0.0') */
+  info?: Partial<OpenAPIInfo>;
+  servers?: OpenAPIServer[];
+  /** RPC routers to document */
+  routers?: RPCRouterSource[];
+  /** File routes, with modules loaded. Routes exporting method handlers are documented. */
+  routes?: Route[];
+}
+
+/** An OpenAPI operation object */
+export interface OpenAPIOperation {
+  operationId: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  deprecated?: boolean;
+  parameters?: Array<Record<string, unknown>>;
+  requestBody?: Record<string, unknown>;
+  responses: Record<string, unknown>;
+}
+
+/** An OpenAPI 3.1 document */
+export interface OpenAPIDocument {
+  openapi: '3.1.0';
+  info: OpenAPIInfo;
+  servers?: OpenAPIServer[];
+  paths: Record<string, Record<string, OpenAPIOperation>>;
+  components: { schemas: Record<string, JSONSchema> };
+}
+
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS', 'HEAD'] as const;
+
+/** Error envelope of RPC responses */
+const RPC_ERROR_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    ok: { const: false },
+    error: {
+      type: 'object',
+      properties: {
+        code: { type: 'string' },
+        message: { type: 'string' },
+        details: {},
+      },
+      required: ['code', 'message'],
+    },
+  },
+  required: ['ok', 'error'],
+};
+
+/**
+ * Schema of a body written by `serializeData`: plain JSON, or a
+ * `{ json, meta }` envelope when it holds Dates, Maps and other typed values.
+ */
+function serializedSchema(schema: JSONSchema): JSONSchema {
+  return {
+    oneOf: [
+      schema,
+      {
+        type: 'object',
+        properties: {
+          json: schema,
+          meta: {
+            type: 'object',
+            description: 'Type of each revived value, by JSON Pointer into `json`',
+            additionalProperties: { type: 'string' },
+          },
+        },
+        required: ['json', 'meta'],
+      },
+    ],
+  };
+}
+
+/**
+ * Generate an OpenAPI 3.1 document.
+ *
+ * @example
+ * const doc = generateOpenAPI({
+ *   info: { title: 'Shop API', version: '2.0.0' },
+ *   routers: [{ router: api, endpoint: '/api/rpc' }],
+ *   routes: fileRouter.getRoutes(),
+ * });
+ */
+export function generateOpenAPI(options: GenerateOpenAPIOptions = {}): OpenAPIDocument {
+  const doc: OpenAPIDocument = {
+    openapi: '3.1.0',
+    info: { title: 'API', version: '1.0.0', ...options.info },
+    paths: {},
+    components: { schemas: {} },
+  };
+  if (options.servers?.length) {
+    doc.servers = options.servers;
+  }
+
+  for (const source of options.routers ?? []) {
+    addRPCRouter(doc, source);
+  }
+  // Routes are added before the shorter paths of their optional segments,
+  // so a route of its own always documents its path
+  const routes = flattenRoutes(options.routes ?? []);
+  for (const full of [true, false]) {
+    for (const route of routes) {
+      addAPIRoute(doc, route, full);
+    }
+  }
+
+  return doc;
+}
+
+// ============================================================================
+// RPC routers
+// ============================================================================
+
+interface ProcedureLike {
+  _type: 'query' | 'mutation' | 'subscription';
+  inputSchema?: unknown;
+  outputSchema?: unknown;
+  meta?: { summary?: string; description?: string; tags?: string[]; deprecated?: boolean };
+}
+
+function isProcedure(value: unknown): value is ProcedureLike {
+  return !!value && typeof value === 'object' && '_type' in value;
+}
+
+function addRPCRouter(doc: OpenAPIDocument, source: RPCRouterSource): void {
+  const endpoint = (source.endpoint ?? '/api/rpc').replace(/\/$/, '');
+  doc.components.schemas.RPCError = serializedSchema(RPC_ERROR_SCHEMA);
+
+  const visit = (def: Record<string, unknown>, path: string[]) => {
+    for (const [key, value] of Object.entries(def)) {
+      if (isProcedure(value)) {
+        addProcedure(doc, `${endpoint}/${[...path, key].join('.')}`, [...path, key], value);
+      } else if (value && typeof value === 'object') {
+        visit(value as Record<string, unknown>, [...path, key]);
+      }
+    }
+  };
+  visit(source.router._def, []);
+}
+
+function addProcedure(doc: OpenAPIDocument, url: string, path: string[], procedure: ProcedureLike): void {
+  // Subscriptions run over WebSocket, which OpenAPI cannot describe
+  if (procedure._type === 'subscription') return;
+
+  const meta = procedure.meta ?? {};
+  const operation: OpenAPIOperation = {
+    operationId: path.join('.'),
+    responses: {
+      '200': {
+        description: 'Successful response',
+        content: {
+          'application/json': {
+            schema: serializedSchema({
+              type: 'object',
+              properties: { ok: { const: true }, data: toJSONSchema(procedure.outputSchema) },
+              required: ['ok', 'data'],
+            }),
+          },
+        },
+      },
+      default: {
+        description: 'Error response',
+        content: { 'application/json': { schema: { $ref: '#/components/schemas/RPCError' } } },
+      },
+    },
+  };
+  if (meta.summary) operation.summary = meta.summary;
+  if (meta.description) operation.description = meta.description;
+  const tags = meta.tags ?? (path.length > 1 ? [path[0]] : undefined);
+  if (tags) operation.tags = tags;
+  if (meta.deprecated) operation.deprecated = true;
+
+  if (procedure._type === 'query') {
+    if (procedure.inputSchema) {
+      operation.parameters = [
+        {
+          name: 'input',
+          in: 'query',
+          description: 'JSON-encoded input',
+          required: !isOptionalSchema(procedure.inputSchema),
+          content: { 'application/json': { schema: toJSONSchema(procedure.inputSchema) } },
+        },
+      ];
+    }
+    (doc.paths[url] ??= {}).get = operation;
+  } else {
+    if (procedure.inputSchema) {
+      operation.requestBody = {
+        required: !isOptionalSchema(procedure.inputSchema),
+        content: { 'application/json': { schema: toJSONSchema(procedure.inputSchema) } },
+      };
+    }
+    (doc.paths[url] ??= {}).post = operation;
+  }
+}
+
+// ============================================================================
+// API routes
+// ============================================================================
+
+function flattenRoutes(routes: Route[]): Route[] {
+  return routes.flatMap((route) => [route, ...flattenRoutes(route.children ?? [])]);
+}
+
+/**
+ * Convert a route path (`/users/[id]`) to OpenAPI paths (`/users/{id}`).
+ * OpenAPI path parameters are always required, so optional (`[[lang]]`) and
+ * catch-all (`[...slug]`) segments, which may be absent, add a path without
+ * them. The path with every parameter comes first.
+ */
+export function toOpenAPIPaths(path: string): Array<{ path: string; params: string[] }> {
+  let variants = [{ segments: [] as string[], params: [] as string[] }];
+  for (const segment of parsePathSegments(path)) {
+    if (segment.type === 'static') {
+      variants = variants.map((variant) => ({ ...variant, segments: [...variant.segments, segment.raw] }));
+      continue;
+    }
+
+    const name = segment.paramName!;
+    const present = variants.map((variant) => ({
+      segments: [...variant.segments, `{${name}}`],
+      params: [...variant.params, name],
+    }));
+    variants = segment.type === 'dynamic' ? present : [...present, ...variants];
+  }
+  return variants.map((variant) => ({ path: `/${variant.segments.join('/')}`, params: variant.params }));
+}
+
+function addAPIRoute(doc: OpenAPIDocument, route: Route, full: boolean): void {
+  const module = route.module as RouteModule | undefined;
+  if (!module) return;
+
+  const methods = HTTP_METHODS.filter((method) => typeof module[method] === 'function');
+  if (methods.length === 0) return;
+
+  const [first, ...rest] = toOpenAPIPaths(route.path);
+  const spec: RouteOpenAPI = module.openapi ?? {};
+
+  for (const { path, params } of full ? [first] : rest) {
+    for (const method of methods) {
+      const operations = (doc.paths[path] ??= {});
+      const key = method.toLowerCase();
+      if (operations[key]) continue;
+
+      const config: OpenAPIOperationConfig = spec[method] ?? {};
+      const operation: OpenAPIOperation = {
+        operationId: full && config.operationId ? config.operationId : operationIdFor(method, path),
+        responses: responsesFor(config.responses),
+      };
+      if (config.summary) operation.summary = config.summary;
+      if (config.description) operation.description = config.description;
+      const tags = config.tags ?? spec.tags;
+      if (tags) operation.tags = tags;
+      if (config.deprecated) operation.deprecated = true;
+
+      const parameters = [
+        ...params.map((name) => ({ name, in: 'path', required: true, schema: { type: 'string' } })),
+        ...queryParameters(config.query),
+      ];
+      if (parameters.length > 0) operation.parameters = parameters;
+
+      if (config.body) {
+        operation.requestBody = {
+          required: !isOptionalSchema(config.body),
+          content: { 'application/json': { schema: toJSONSchema(config.body) } },
+        };
+      }
+
+      operations[key] = operation;
+    }
+  }
+}
+
+function queryParameters(schema: unknown): Array<Record<string, unknown>> {
+  if (!schema) return [];
+  const json = toJSONSchema(schema);
+  const properties = (json.properties ?? {}) as Record<string, JSONSchema>;
+  const required = (json.required ?? []) as string[];
+
+  return Object.entries(properties).map(([name, property]) => ({
+    name,
+    in: 'query',
+    required: required.includes(name),
+    schema: property,
+  }));
+}
+
+function responsesFor(responses: Record<number, unknown> | undefined): Record<string, unknown> {
+  if (!responses || Object.keys(responses).length === 0) {
+    return { '200': { description: 'Successful response' } };
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [status, schema] of Object.entries(responses)) {
+    result[status] = {
+      description: Number(status) < 400 ? 'Successful response' : 'Error response',
+      content: { 'application/json': { schema: toJSONSchema(schema) } },
+    };
+  }
+  return result;
+}
+
+/** `GET /users/{id}/posts` -> `getUsersByIdPosts` */
+function operationIdFor(method: string, path: string): string {
+  const words = path
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => {
+      const param = segment.match(/^\{(.+)\}$/);
+      const word = (param ? `by-${param[1]}` : segment).replace(/[^a-zA-Z0-9]+(.)?/g, (_, c: string = '') => c.toUpperCase());
+      return word.charAt(0).toUpperCase() + word.slice(1);
+    });
+  return method.toLowerCase() + (words.join('') || 'Root');
+}
@@ -0,0 +1,23 @@
+/**
+ * @ereo/openapi
+ *
+ * OpenAPI 3.1 document generation for EreoJS. Documents `@ereo/rpc`
+ * routers and the method handlers of API routes from their schemas,
+ * so the spec never drifts from the code.
+ */
+
+export { generateOpenAPI, toOpenAPIPaths } from './generator';
+export type {
+  GenerateOpenAPIOptions,
+  OpenAPIDocument,
+  OpenAPIInfo,
+  OpenAPIOperation,
+  OpenAPIServer,
+  RPCRouterSource,
+} from './generator';
+
+export { toJSONSchema, isOptionalSchema } from './json-schema';
+export type { JSONSchema } from './json-schema';
+
+export { openapiPlugin } from './plugin';
+export type { OpenAPIPlugin, OpenAPIPluginOptions } from './plugin';
@@ -0,0 +1,140 @@
+/**
+ * @ereo/openapi - JSON Schema conversion tests
+ *
+ * Zod is not a dependency, so schemas are built from the shape of
+ * Zod's internal definitions.
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { toJSONSchema, isOptionalSchema } from './json-schema';
+
+const parse = (v: unknown) => v;
+
+/** Zod 3 schema: `{ _def: { typeName, ... } }` */
+const z3 = (typeName: string, def: Record<string, unknown> = {}) => ({ _def: { typeName, ...def }, parse });
+
+/** Zod 4 schema: `{ _zod: { def: { type, ... } } }` */
+const z4 = (type: string, def: Record<string, unknown> = {}, description?: string) => ({
+  _zod: { def: { type, ...def } },
+  description,
+  parse,
+});
+
+describe('toJSONSchema - Zod 3', () => {
+  it('converts objects with required and optional properties', () => {
+    const schema = z3('ZodObject', {
+      shape: () => ({
+        email: z3('ZodString', { checks: [{ kind: 'email' }] }),
+        age: z3('ZodOptional', { innerType: z3('ZodNumber', { checks: [{ kind: 'int' }, { kind: 'min', value: 0, inclusive: true }] }) }),
+        role: z3('ZodEnum', { values: ['admin', 'user'] }),
+      }),
+    });
+
+    expect(toJSONSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        email: { type: 'string', format: 'email' },
+        age: { type: 'integer', minimum: 0 },
+        role: { type: 'string', enum: ['admin', 'user'] },
+      },
+      required: ['email', 'role'],
+    });
+  });
+
+  it('converts arrays, unions, nullables and defaults', () => {
+    expect(toJSONSchema(z3('ZodArray', { type: z3('ZodBoolean'), minLength: { value: 1 } }))).toEqual({
+      type: 'array',
+      items: { type: 'boolean' },
+      minItems: 1,
+    });
+    expect(toJSONSchema(z3('ZodUnion', { options: [z3('ZodString'), z3('ZodNumber')] }))).toEqual({
+      anyOf: [{ type: 'string' }, { type: 'number' }],
+    });
+    expect(toJSONSchema(z3('ZodNullable', { innerType: z3('ZodDate') }))).toEqual({
+      anyOf: [{ type: 'string', format: 'date-time' }, { type: 'null' }],
+    });
+    expect(toJSONSchema(z3('ZodDefault', { innerType: z3('ZodNumber'), defaultValue: () => 10 }))).toEqual({
+      type: 'number',
+      default: 10,
+    });
+  });
+
+  it('keeps descriptions and unwraps effects', () => {
+    const schema = z3('ZodEffects', { schema: z3('ZodString', { description: 'A slug' }) });
+    expect(toJSONSchema(schema)).toEqual({ type: 'string', description: 'A slug' });
+  });
+});
+
+describe('toJSONSchema - Zod 4', () => {
+  it('converts objects with required and optional properties', () => {
+    const schema = z4('object', {
+      shape: {
+        id: z4('string', { format: 'uuid' }),
+        limit: z4('optional', { innerType: z4('number', { format: 'safeint' }) }),
+        tags: z4('array', { element: z4('string') }),
+      },
+    }, 'Query');
+
+    expect(toJSONSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        limit: { type: 'integer' },
+        tags: { type: 'array', items: { type: 'string' } },
+      },
+      required: ['id', 'tags'],
+      description: 'Query',
+    });
+  });
+
+  it('converts literals, enums and string checks', () => {
+    expect(toJSONSchema(z4('literal', { values: ['draft'] }))).toEqual({ const: 'draft' });
+    expect(toJSONSchema(z4('enum', { entries: { a: 'a', b: 'b' } }))).toEqual({ enum: ['a', 'b'] });
+    const name = z4('string', {
+      checks: [
+        { _zod: { def: { check: 'min_length', minimum: 1 } } },
+        { _zod: { def: { check: 'max_length', maximum: 50 } } },
+      ],
+    });
+    expect(toJSONSchema(name)).toEqual({ type: 'string', minLength: 1, maxLength: 50 });
+  });
+});
+
+describe('toJSONSchema - other schemas', () => {
+  it('uses the Standard JSON Schema interface when available', () => {
+    const schema = {
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate: parse,
+        jsonSchema: {
+          input: (options: { target: string }) => ({
+            $schema: 'https://json-schema.org/draft/2020-12/schema',
+            type: 'string',
+            description: options.target,
+          }),
+        },
+      },
+    };
+    expect(toJSONSchema(schema)).toEqual({ type: 'string', description: 'draft-2020-12' });
+  });
+
+  it('passes JSON Schema through', () => {
+    const schema = { type: 'object', properties: { q: { type: 'string' } } };
+    expect(toJSONSchema(schema)).toBe(schema);
+  });
+
+  it('returns an empty schema for opaque validators', () => {
+    expect(toJSONSchema({ parse })).toEqual({});
+    expect(toJSONSchema(undefined)).toEqual({});
+  });
+});
+
+describe('isOptionalSchema', () => {
+  it('detects optional and defaulted schemas', () => {
+    expect(isOptionalSchema(z3('ZodOptional', { innerType: z3('ZodString') }))).toBe(true);
+    expect(isOptionalSchema(z4('default', { innerType: z4('string'), defaultValue: 'x' }))).toBe(true);
+    expect(isOptionalSchema(z4('string'))).toBe(false);
+    expect(isOptionalSchema({ type: 'string' })).toBe(false);
+  });
+});
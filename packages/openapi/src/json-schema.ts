@@ -0,0 +1,245 @@
+/**
+ * @ereo/openapi - JSON Schema Conversion
+ *
+ * Converts validation schemas to JSON Schema (draft 2020-12, as used by
+ * OpenAPI 3.1). Supports Standard JSON Schema, Zod 3 and Zod 4 schemas,
+ * and plain JSON Schema objects.
+ */
+
+/** A JSON Schema object */
+export type JSONSchema = Record<string, unknown>;
+
+const JSON_SCHEMA_KEYWORDS = ['type', '$ref', 'properties', 'items', 'anyOf', 'oneOf', 'allOf', 'enum', 'const'];
+
+/**
+ * Convert a validation schema to JSON Schema.
+ * Schemas that cannot be introspected (e.g. a bare `{ parse }` object) become `{}`, which accepts anything.
+ */
+export function toJSONSchema(schema: unknown): JSONSchema {
+  if (!schema || typeof schema !== 'object') return {};
+  const s = schema as Record<string, any>;
+
+  // Standard JSON Schema (https://standardschema.dev), e.g. Zod 4.2+, ArkType
+  const standard = s['~standard']?.jsonSchema;
+  if (typeof standard?.input === 'function') {
+    return stripDialect(standard.input({ target: 'draft-2020-12' }));
+  }
+
+  if (s._zod?.def) return fromZod4(s);
+  if (s._def?.typeName) return fromZod3(s);
+
+  // Already JSON Schema
+  if (typeof s.parse !== 'function' && JSON_SCHEMA_KEYWORDS.some((key) => key in s)) {
+    return s;
+  }
+
+  return {};
+}
+
+/**
+ * Whether a schema accepts `undefined`, i.e. its value may be omitted.
+ */
+export function isOptionalSchema(schema: unknown): boolean {
+  if (!schema || typeof schema !== 'object') return true;
+  const s = schema as Record<string, any>;
+  if (s._zod?.def) return ['optional', 'default'].includes(s._zod.def.type);
+  if (s._def?.typeName) return ['ZodOptional', 'ZodDefault'].includes(s._def.typeName);
+  return false;
+}
+
+function stripDialect(schema: JSONSchema): JSONSchema {
+  const { $schema: _dialect, ...rest } = schema;
+  return rest;
+}
+
+function withDescription(schema: JSONSchema, description: unknown): JSONSchema {
+  return typeof description === 'string' ? { ...schema, description } : schema;
+}
+
+function objectSchema(
+  shape: Record<string, unknown>,
+  convert: (schema: any) => JSONSchema,
+  isOptional: (schema: any) => boolean
+): JSONSchema {
+  const properties: Record<string, JSONSchema> = {};
+  const required: string[] = [];
+  for (const [key, value] of Object.entries(shape)) {
+    properties[key] = convert(value);
+    if (!isOptional(value)) required.push(key);
+  }
+  return required.length > 0
+    ? { type: 'object', properties, required }
+    : { type: 'object', properties };
+}
+
+// ============================================================================
+// Zod 3
+// ============================================================================
+
+function fromZod3(schema: any): JSONSchema {
+  const def = schema._def;
+  return withDescription(convertZod3(def), def.description);
+}
+
+function convertZod3(def: any): JSONSchema {
+  switch (def.typeName) {
+    case 'ZodString': {
+      const result: JSONSchema = { type: 'string' };
+      for (const check of def.checks ?? []) {
+        if (check.kind === 'min') result.minLength = check.value;
+        else if (check.kind === 'max') result.maxLength = check.value;
+        else if (check.kind === 'length') result.minLength = result.maxLength = check.value;
+        else if (check.kind === 'regex') result.pattern = check.regex.source;
+        else if (check.kind === 'email') result.format = 'email';
+        else if (check.kind === 'url') result.format = 'uri';
+        else if (check.kind === 'uuid') result.format = 'uuid';
+        else if (check.kind === 'datetime') result.format = 'date-time';
+        else if (check.kind === 'date') result.format = 'date';
+      }
+      return result;
+    }
+    case 'ZodNumber': {
+      const result: JSONSchema = { type: 'number' };
+      for (const check of def.checks ?? []) {
+        if (check.kind === 'int') result.type = 'integer';
+        else if (check.kind === 'min') result[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+        else if (check.kind === 'max') result[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+      }
+      return result;
+    }
+    case 'ZodBigInt':
+      return { type: 'integer', format: 'int64' };
+    case 'ZodBoolean':
+      return { type: 'boolean' };
+    case 'ZodDate':
+      return { type: 'string', format: 'date-time' };
+    case 'ZodNull':
+      return { type: 'null' };
+    case 'ZodLiteral':
+      return { const: def.value };
+    case 'ZodEnum':
+      return { type: 'string', enum: [...def.values] };
+    case 'ZodNativeEnum':
+      // Numeric enums map names back to values; keep the values only
+      return {
+        enum: Object.entries(def.values)
+          .filter(([key]) => Number.isNaN(Number(key)))
+          .map(([, value]) => value),
+      };
+    case 'ZodObject':
+      return objectSchema(
+        typeof def.shape === 'function' ? def.shape() : def.shape,
+        fromZod3,
+        isOptionalSchema
+      );
+    case 'ZodArray': {
+      const result: JSONSchema = { type: 'array', items: fromZod3(def.type) };
+      if (def.minLength) result.minItems = def.minLength.value;
+      if (def.maxLength) result.maxItems = def.maxLength.value;
+      return result;
+    }
+    case 'ZodTuple':
+      return { type: 'array', prefixItems: def.items.map(fromZod3) };
+    case 'ZodRecord':
+      return { type: 'object', additionalProperties: fromZod3(def.valueType) };
+    case 'ZodUnion':
+      return { anyOf: def.options.map(fromZod3) };
+    case 'ZodDiscriminatedUnion':
+      return { oneOf: [...(def.options.values?.() ?? def.options)].map(fromZod3) };
+    case 'ZodIntersection':
+      return { allOf: [fromZod3(def.left), fromZod3(def.right)] };
+    case 'ZodOptional':
+      return fromZod3(def.innerType);
+    case 'ZodNullable':
+      return { anyOf: [fromZod3(def.innerType), { type: 'null' }] };
+    case 'ZodDefault':
+      return { ...fromZod3(def.innerType), default: def.defaultValue() };
+    case 'ZodEffects':
+      return fromZod3(def.schema);
+    case 'ZodPipeline':
+      return fromZod3(def.in);
+    case 'ZodBranded':
+      return fromZod3(def.type);
+    case 'ZodReadonly':
+    case 'ZodCatch':
+      return fromZod3(def.innerType);
+    default:
+      // ZodAny, ZodUnknown, ZodLazy and anything newer
+      return {};
+  }
+}
+
+// ============================================================================
+// Zod 4
+// ============================================================================
+
+function fromZod4(schema: any): JSONSchema {
+  return withDescription(convertZod4(schema._zod.def), schema.description);
+}
+
+function convertZod4(def: any): JSONSchema {
+  switch (def.type) {
+    case 'string': {
+      const result: JSONSchema = { type: 'string' };
+      if (def.format) result.format = def.format === 'url' ? 'uri' : def.format === 'datetime' ? 'date-time' : def.format;
+      for (const check of def.checks ?? []) {
+        const c = check._zod?.def ?? {};
+        if (c.check === 'min_length') result.minLength = c.minimum;
+        else if (c.check === 'max_length') result.maxLength = c.maximum;
+        else if (c.check === 'string_format' && c.format === 'regex') result.pattern = c.pattern?.source;
+        else if (c.check === 'string_format') result.format = c.format === 'url' ? 'uri' : c.format === 'datetime' ? 'date-time' : c.format;
+      }
+      return result;
+    }
+    case 'number': {
+      const result: JSONSchema = { type: def.format === 'safeint' || def.format?.startsWith('int') ? 'integer' : 'number' };
+      for (const check of def.checks ?? []) {
+        const c = check._zod?.def ?? {};
+        if (c.check === 'number_format' && c.format?.includes('int')) result.type = 'integer';
+        else if (c.check === 'greater_than') result[c.inclusive ? 'minimum' : 'exclusiveMinimum'] = c.value;
+        else if (c.check === 'less_than') result[c.inclusive ? 'maximum' : 'exclusiveMaximum'] = c.value;
+      }
+      return result;
+    }
+    case 'bigint':
+      return { type: 'integer', format: 'int64' };
+    case 'boolean':
+      return { type: 'boolean' };
+    case 'date':
+      return { type: 'string', format: 'date-time' };
+    case 'null':
+      return { type: 'null' };
+    case 'literal':
+      return def.values.length === 1 ? { const: def.values[0] } : { enum: [...def.values] };
+    case 'enum':
+      return { enum: Object.values(def.entries) };
+    case 'object':
+      return objectSchema(def.shape, fromZod4, isOptionalSchema);
+    case 'array':
+      return { type: 'array', items: fromZod4(def.element) };
+    case 'tuple':
+      return { type: 'array', prefixItems: def.items.map(fromZod4) };
+    case 'record':
+      return { type: 'object', additionalProperties: fromZod4(def.valueType) };
+    case 'union':
+      return { anyOf: def.options.map(fromZod4) };
+    case 'intersection':
+      return { allOf: [fromZod4(def.left), fromZod4(def.right)] };
+    case 'optional':
+    case 'readonly':
+    case 'catch':
+      return fromZod4(def.innerType);
+    case 'nullable':
+      return { anyOf: [fromZod4(def.innerType), { type: 'null' }] };
+    case 'default':
+      return {
+        ...fromZod4(def.innerType),
+        default: typeof def.defaultValue === 'function' ? def.defaultValue() : def.defaultValue,
+      };
+    case 'pipe':
+      return fromZod4(def.in);
+    default:
+      // any, unknown, lazy, transform and anything newer
+      return {};
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * @ereo/openapi - Plugin
+ *
+ * Serves the generated OpenAPI document from the running app.
+ *
+ * Usage in ereo.config.ts:
+ *   import { openapiPlugin } from '@ereo/openapi';
+ *   import { api } from './app/api/router';
+ *
+ *   export default defineConfig({
+ *     plugins: [
+ *       openapiPlugin({
+ *         info: { title: 'Shop API', version: '2.0.0' },
+ *         routers: [{ router: api, endpoint: '/api/rpc' }],
+ *       }),
+ *     ],
+ *   });
+ */
+
+import { join } from 'node:path';
+import type { Plugin, PluginContext } from '@ereo/core';
+import { initFileRouter } from '@ereo/router';
+import { generateOpenAPI, type GenerateOpenAPIOptions, type OpenAPIDocument } from './generator';
+
+export interface OpenAPIPluginOptions extends Omit<GenerateOpenAPIOptions, 'routes'> {
+  /** Path the document is served at (default: '/openapi.json'). Set to false to not serve it. */
+  path?: string | false;
+  /** Document the method handlers of file-based API routes (default: true) */
+  routes?: boolean;
+  /** Routes directory, relative to the project root (default: the app's routesDir) */
+  routesDir?: string;
+}
+
+export interface OpenAPIPlugin extends Plugin {
+  /** Generate the document. Used by `ereo openapi`. */
+  generateDocument(): Promise<OpenAPIDocument>;
+}
+
+/**
+ * Create the OpenAPI plugin.
+ */
+export function openapiPlugin(options: OpenAPIPluginOptions = {}): OpenAPIPlugin {
+  const { path = '/openapi.json', routes: includeRoutes = true, routesDir, ...generateOptions } = options;
+
+  let context: PluginContext | null = null;
+  let cached: Promise<OpenAPIDocument> | null = null;
+
+  const generateDocument = async (): Promise<OpenAPIDocument> => {
+    let routes: GenerateOpenAPIOptions['routes'];
+    if (includeRoutes) {
+      const root = context?.root ?? process.cwd();
+      const fileRouter = await initFileRouter({
+        routesDir: join(root, routesDir ?? context?.config.routesDir ?? 'app/routes'),
+        watch: false,
+      });
+      await fileRouter.loadAllModules();
+      routes = fileRouter.getRoutes();
+    }
+
+    return generateOpenAPI({ ...generateOptions, routes });
+  };
+
+  const plugin: OpenAPIPlugin = {
+    name: '@ereo/openapi',
+
+    setup(ctx) {
+      context = ctx;
+    },
+
+    generateDocument,
+  };
+
+  if (path) {
+    plugin.runtimeMiddleware = [
+      async (request, _context, next) => {
+        if (request.method !== 'GET' || new URL(request.url).pathname !== path) {
+          return next();
+        }
+
+        // Regenerate on every request in development so the document follows code changes
+        if (!cached || context?.mode === 'development') {
+          cached = generateDocument();
+          cached.catch(() => (cached = null));
+        }
+
+        try {
+          return Response.json(await cached);
+        } catch (error) {
+          console.error('[openapi] Failed to generate document:', error);
+          return Response.json({ error: 'Failed to generate OpenAPI document' }, { status: 500 });
+        }
+      },
+    ];
+  }
+
+  return plugin;
+}
@@ -3,7 +3,8 @@
  */
 
 import { describe, it, expect, beforeEach, mock as bunMock, spyOn } from 'bun:test';
-import { createAuthPlugin, requireAuth, optionalAuth, requireRoles, getAuth, getSession, getUser } from './auth';
+import { createAuthPlugin, requireAuth, optionalAuth, requireRoles, getAuth, getSession, getUser, serializePermissions } from './auth';
+import { createPolicy } from './policy';
 import type { AuthContext, Session, User } from './auth';
 import { credentials, mock } from './providers/index';
 import type { AppContext } from '@ereo/core';
@@ -866,6 +867,69 @@ describe('createAuthPlugin - hasRole and hasAnyRole', () => {
   });
 });
 
+describe('createAuthPlugin - permissions', () => {
+  let middlewares: Array<(request: Request, ctx: any, next: () => any) => any>;
+  let authContext: AuthContext | null;
+  let mockCtx: any;
+  const testSecret = 'test-secret-key-12345';
+
+  beforeEach(() => {
+    middlewares = [];
+    authContext = null;
+    mockCtx = {
+      set: (key: string, value: any) => {
+        if (key === 'auth') authContext = value;
+      },
+      get: (key: string) => (key === 'auth' ? authContext : undefined),
+    };
+  });
+
+  async function signInWith(user: User, policy?: ReturnType<typeof createPolicy>) {
+    const plugin = createAuthPlugin({
+      secret: testSecret,
+      providers: [credentials({ authorize: async () => user })],
+      policy,
+    });
+    plugin.configureServer?.({ middlewares } as any);
+    await middlewares[0](new Request('http://localhost/test'), mockCtx, () => Promise.resolve(new Response('OK')));
+    await authContext!.signIn('credentials', {});
+  }
+
+  it('should resolve permissions through the policy', async () => {
+    const policy = createPolicy({
+      roles: {
+        viewer: { permissions: ['posts:read'] },
+        editor: { inherits: 'viewer', permissions: ['posts:edit'] },
+      },
+      rules: {
+        'posts:edit': (user, post: { authorId: string }) => post.authorId === user.id,
+      },
+    });
+    await signInWith({ id: 'user-123', roles: ['editor'] }, policy);
+
+    expect(authContext!.can('posts:read')).toBe(true);
+    expect(authContext!.can('posts:delete')).toBe(false);
+    expect(authContext!.can('posts:edit', { authorId: 'user-123' })).toBe(true);
+    expect(authContext!.can('posts:edit', { authorId: 'user-456' })).toBe(false);
+    expect(serializePermissions(mockCtx)).toEqual({
+      userId: 'user-123',
+      roles: ['editor'],
+      permissions: ['posts:edit', 'posts:read'],
+    });
+  });
+
+  it('should use user permissions without a policy', async () => {
+    await signInWith({ id: 'user-123', permissions: ['billing:read'] });
+
+    expect(authContext!.can('billing:read')).toBe(true);
+    expect(authContext!.getPermissions()).toEqual(['billing:read']);
+
+    await authContext!.signOut();
+    expect(authContext!.can('billing:read')).toBe(false);
+    expect(serializePermissions(mockCtx)).toEqual({ userId: null, roles: [], permissions: [] });
+  });
+});
+
 describe('createAuthPlugin - getUser and getToken', () => {
   let middlewares: Array<(request: Request, ctx: any, next: () => any) => any>;
   let authContext: AuthContext | null;
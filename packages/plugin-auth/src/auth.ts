@@ -6,6 +6,8 @@
  */
 
 import type { Plugin, RouteConfig, AppContext, MiddlewareHandler, NextFunction } from '@ereo/core';
+import { MemorySessionStore, generateSessionId, isSessionId, type SessionStoreAdapter } from './session-store';
+import { createPolicy, type Policy, type SerializedPermissions } from './policy';
 
 // ============================================================================
 // Type Definitions
@@ -21,6 +23,8 @@ export interface User {
   name?: string;
   /** User roles for RBAC */
   roles?: string[];
+  /** Permissions granted to the user directly, in addition to those of their roles */
+  permissions?: string[];
   /** Custom user data */
   [key: string]: unknown;
 }
@@ -90,6 +94,11 @@ export interface SessionConfig {
   secret: string;
   /** Session update age - refresh session if older than this (seconds) */
   updateAge?: number;
+  /**
+   * Store for `cookie`/`hybrid` sessions (default: in-memory).
+   * Use a persistent store so sessions survive restarts and are shared between processes.
+   */
+  store?: SessionStoreAdapter;
 }
 
 /** Auth plugin configuration */
@@ -126,6 +135,8 @@ export interface AuthConfig {
     path?: string;
     httpOnly?: boolean;
   };
+  /** Permission policy mapping roles to permissions (default: only `user.permissions`) */
+  policy?: Policy;
   /** Debug mode */
   debug?: boolean;
 }
@@ -146,6 +157,10 @@ export interface AuthContext {
   hasAnyRole: (roles: string[]) => boolean;
   /** Check if user has all of the roles */
   hasAllRoles: (roles: string[]) => boolean;
+  /** Check if user has a permission, and passes its rule for the resource if one is given */
+  can: (permission: string, resource?: unknown) => boolean;
+  /** Get every permission of the user */
+  getPermissions: () => string[];
   /** Get the current user */
   getUser: () => User | null;
   /** Get session token (JWT) */
@@ -154,6 +169,18 @@ export interface AuthContext {
   refreshSession: () => Promise<Session | null>;
   /** Get Set-Cookie header value for response */
   getCookieHeader: () => string | null;
+  /** List the stored sessions of a user (default: the current user) */
+  listSessions: (userId?: string) => Promise<Session[]>;
+  /**
+   * Revoke every stored session of a user (default: the current user).
+   * Revoking the current user's sessions also signs them out.
+   */
+  revokeSessions: (userId?: string) => Promise<number>;
+  /**
+   * Move the current session to a new ID, optionally applying changes.
+   * Call this when privileges change (e.g. new roles) to prevent session fixation.
+   */
+  rotateSession: (updates?: Partial<Omit<Session, 'sessionId' | 'userId'>>) => Promise<Session | null>;
 }
 
 // ============================================================================
@@ -273,116 +300,6 @@ async function verifyJWT(token: string, secret: string): Promise<JWTPayload | nu
   }
 }
 
-// ============================================================================
-// In-Memory Session Store
-// ============================================================================
-
-interface StoredSession {
-  session: Session;
-  createdAt: number;
-  lastAccessed: number;
-}
-
-class SessionStore {
-  private static readonly MAX_SESSIONS = 10_000;
-  private sessions: Map<string, StoredSession> = new Map();
-  private cleanupInterval: ReturnType<typeof setInterval> | null = null;
-
-  constructor(private maxAge: number) {
-    // Cleanup expired sessions every minute
-    this.cleanupInterval = setInterval(() => this.cleanup(), 60 * 1000);
-  }
-
-  /** Generate a unique session ID */
-  generateId(): string {
-    const array = new Uint8Array(32);
-    crypto.getRandomValues(array);
-    return base64UrlEncode(array);
-  }
-
-  /** Store a session */
-  set(sessionId: string, session: Session): void {
-    // Prevent unbounded growth (DoS protection)
-    if (this.sessions.size >= SessionStore.MAX_SESSIONS && !this.sessions.has(sessionId)) {
-      this.cleanup();
-      // If still at capacity after cleanup, evict oldest sessions
-      if (this.sessions.size >= SessionStore.MAX_SESSIONS) {
-        const entries = Array.from(this.sessions.entries());
-        entries.sort((a, b) => a[1].lastAccessed - b[1].lastAccessed);
-        const toEvict = Math.max(1, Math.floor(entries.length * 0.1));
-        for (let i = 0; i < toEvict; i++) {
-          this.sessions.delete(entries[i][0]);
-        }
-      }
-    }
-
-    this.sessions.set(sessionId, {
-      session,
-      createdAt: Date.now(),
-      lastAccessed: Date.now(),
-    });
-  }
-
-  /** Get a session */
-  get(sessionId: string): Session | null {
-    const stored = this.sessions.get(sessionId);
-    if (!stored) {
-      return null;
-    }
-
-    // Check if expired
-    if (Date.now() - stored.createdAt > this.maxAge * 1000) {
-      this.sessions.delete(sessionId);
-      return null;
-    }
-
-    // Update last accessed
-    stored.lastAccessed = Date.now();
-    return stored.session;
-  }
-
-  /** Delete a session */
-  delete(sessionId: string): boolean {
-    return this.sessions.delete(sessionId);
-  }
-
-  /** Update a session */
-  update(sessionId: string, session: Session): boolean {
-    const stored = this.sessions.get(sessionId);
-    if (!stored) {
-      return false;
-    }
-    stored.session = session;
-    stored.lastAccessed = Date.now();
-    return true;
-  }
-
-  /** Cleanup expired sessions */
-  private cleanup(): void {
-    const now = Date.now();
-    const entries = Array.from(this.sessions.entries());
-    for (const [id, stored] of entries) {
-      if (now - stored.createdAt > this.maxAge * 1000) {
-        this.sessions.delete(id);
-      }
-    }
-  }
-
-  /** Destroy the store */
-  destroy(): void {
-    if (this.cleanupInterval) {
-      clearInterval(this.cleanupInterval);
-      this.cleanupInterval = null;
-    }
-    this.sessions.clear();
-  }
-
-  /** Get all active session count */
-  get size(): number {
-    return this.sessions.size;
-  }
-}
-
 // ============================================================================
 // Cookie Utilities
 // ============================================================================
@@ -486,8 +403,13 @@ export function createAuthPlugin(config: AuthConfig): Plugin {
     path: config.cookie?.path ?? '/',
   };
 
-  // Create session store for in-memory sessions (used in hybrid mode)
-  const sessionStore = new SessionStore(sessionMaxAge);
+  // Session store for the cookie and hybrid strategies
+  const ownsSessionStore = !config.session?.store;
+  const sessionStore: SessionStoreAdapter = config.session?.store ?? new MemorySessionStore();
+  const usesSessionStore = sessionStrategy !== 'jwt';
+
+  // Without a policy, users only have the permissions on their session
+  const policy = config.policy ?? createPolicy({ roles: {} });
 
   // Debug logging
   const debug = config.debug ?? false;
@@ -503,7 +425,7 @@ export function createAuthPlugin(config: AuthConfig): Plugin {
   async function createSession(user: User, providerId: string): Promise<Session> {
     const now = new Date();
     const expiresAt = new Date(now.getTime() + sessionMaxAge * 1000);
-    const sessionId = sessionStore.generateId();
+    const sessionId = generateSessionId();
 
     let session: Session = {
       userId: user.id,
@@ -529,9 +451,9 @@ export function createAuthPlugin(config: AuthConfig): Plugin {
       session = await config.callbacks.onSessionCreated(session);
     }
 
-    // Store in memory for hybrid/cookie strategy
-    if (sessionStrategy !== 'jwt') {
-      sessionStore.set(sessionId, session);
+    // Store server-side for hybrid/cookie strategy
+    if (usesSessionStore) {
+      await sessionStore.set(sessionId, session, sessionMaxAge);
     }
 
     return session;
@@ -572,7 +494,7 @@ export function createAuthPlugin(config: AuthConfig): Plugin {
 
     // For hybrid strategy, check if session exists in store
     if (sessionStrategy === 'hybrid' && payload.sid) {
-      const storedSession = sessionStore.get(payload.sid);
+      const storedSession = isSessionId(payload.sid) ? await sessionStore.get(payload.sid) : null;
       if (!storedSession) {
         log('Session not found in store:', payload.sid);
         return null;
@@ -640,7 +562,7 @@ export function createAuthPlugin(config: AuthConfig): Plugin {
       if (sessionCookie) {
         // For cookie strategy, the cookie contains a session ID
         if (sessionStrategy === 'cookie') {
-          const session = sessionStore.get(sessionCookie);
+          const session = isSessionId(sessionCookie) ? await sessionStore.get(sessionCookie) : null;
           if (session) {
             log('Session extracted from cookie (session store)');
             return session;
@@ -724,14 +646,7 @@ export function createAuthPlugin(config: AuthConfig): Plugin {
             authContext.session = newSession;
 
             // Generate token and set cookie
-            const token = await createToken(newSession);
-            pendingCookieHeader = buildCookieHeader(cookieName,
-              sessionStrategy === 'cookie' ? newSession.sessionId! : token,
-              {
-                ...cookieOptions,
-                maxAge: sessionMaxAge,
-              }
-            );
+            await setSessionCookie(newSession);
 
             return newSession;
           },
@@ -745,7 +660,7 @@ export function createAuthPlugin(config: AuthConfig): Plugin {
 
               // Remove from session store
               if (authContext.session.sessionId) {
-                sessionStore.delete(authContext.session.sessionId);
+                await sessionStore.delete(authContext.session.sessionId);
               }
 
               // Set cookie to clear
@@ -769,6 +684,10 @@ export function createAuthPlugin(config: AuthConfig): Plugin {
               ? roles.every((role) => authContext.session!.roles!.includes(role))
               : false,
 
+          can: (permission, resource) => policy.can(authContext.getUser(), permission, resource),
+
+          getPermissions: () => policy.getPermissions(authContext.getUser()),
+
           getUser: () => {
             if (!authContext.session) return null;
             return {
@@ -804,19 +723,12 @@ export function createAuthPlugin(config: AuthConfig): Plugin {
               };
 
               // Update store
-              if (authContext.session.sessionId) {
-                sessionStore.update(authContext.session.sessionId, authContext.session);
+              if (usesSessionStore && authContext.session.sessionId) {
+                await sessionStore.set(authContext.session.sessionId, authContext.session, sessionMaxAge);
               }
 
               // Update cookie
-              const token = await createToken(authContext.session);
-              pendingCookieHeader = buildCookieHeader(cookieName,
-                sessionStrategy === 'cookie' ? authContext.session.sessionId! : token,
-                {
-                  ...cookieOptions,
-                  maxAge: sessionMaxAge,
-                }
-              );
+              await setSessionCookie(authContext.session);
 
               log('Session refreshed');
             }
@@ -825,8 +737,63 @@ export function createAuthPlugin(config: AuthConfig): Plugin {
           },
 
           getCookieHeader: () => pendingCookieHeader,
+
+          listSessions: async (userId) => {
+            const id = userId ?? authContext.session?.userId;
+            if (!id || !usesSessionStore) return [];
+            return sessionStore.listByUser(id);
+          },
+
+          revokeSessions: async (userId) => {
+            const id = userId ?? authContext.session?.userId;
+            if (!id || !usesSessionStore) return 0;
+
+            const count = await sessionStore.deleteByUser(id);
+            if (authContext.session?.userId === id) {
+              authContext.session = null;
+              pendingCookieHeader = buildClearCookieHeader(cookieName, {
+                domain: cookieOptions.domain,
+                path: cookieOptions.path,
+              });
+            }
+            log(`Revoked ${count} sessions for user:`, id);
+            return count;
+          },
+
+          rotateSession: async (updates) => {
+            if (!authContext.session) return null;
+
+            const previousId = authContext.session.sessionId;
+            const rotated: Session = {
+              ...authContext.session,
+              ...updates,
+              sessionId: generateSessionId(),
+            };
+
+            if (usesSessionStore) {
+              await sessionStore.set(rotated.sessionId!, rotated, sessionMaxAge);
+              if (previousId) {
+                await sessionStore.delete(previousId);
+              }
+            }
+
+            authContext.session = rotated;
+            await setSessionCookie(rotated);
+
+            log('Session rotated');
+            return rotated;
+          },
         };
 
+        /** Set the session cookie: the session ID for the cookie strategy, a JWT otherwise */
+        async function setSessionCookie(session: Session): Promise<void> {
+          const value = sessionStrategy === 'cookie' ? session.sessionId! : await createToken(session);
+          pendingCookieHeader = buildCookieHeader(cookieName, value, {
+            ...cookieOptions,
+            maxAge: sessionMaxAge,
+          });
+        }
+
         // Add auth to context
         ctx.set('auth', authContext);
         // Store config so OAuth helpers (getOAuthUrl, handleOAuthCallback) can access providers
@@ -853,8 +820,11 @@ export function createAuthPlugin(config: AuthConfig): Plugin {
     },
 
     destroy() {
-      // Clean up the session store's cleanup interval to allow clean process shutdown
-      sessionStore.destroy();
+      // Clean up the default store's cleanup interval to allow clean process shutdown.
+      // Stores passed in config are owned by the caller.
+      if (ownsSessionStore) {
+        sessionStore.destroy?.();
+      }
     },
   };
 }
@@ -976,6 +946,20 @@ export function getUser(context: AppContext): User | null {
   return auth?.getUser() ?? null;
 }
 
+/**
+ * Serialize the current user's permissions for the client.
+ * Return the result from a loader and pass it to `PermissionsProvider`.
+ */
+export function serializePermissions(context: AppContext): SerializedPermissions {
+  const auth = context.get('auth') as AuthContext | undefined;
+  const user = auth?.getUser() ?? null;
+  return {
+    userId: user?.id ?? null,
+    roles: user?.roles ?? [],
+    permissions: auth?.getPermissions() ?? [],
+  };
+}
+
 /**
  * Create a protected route handler that requires authentication.
  */
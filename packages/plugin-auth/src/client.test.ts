@@ -0,0 +1,56 @@
+/**
+ * @ereo/auth - Client permission tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { createElement } from 'react';
+import { renderToString } from 'react-dom/server.browser';
+import { PermissionsProvider, useCan, usePermissions } from './client';
+import { createPolicy } from './policy';
+
+const policy = createPolicy({
+  roles: { author: { permissions: ['posts:edit', 'comments:*'] } },
+  rules: {
+    'posts:edit': (user, post: { authorId: string }) => post.authorId === user.id,
+  },
+});
+
+function Check({ permission, resource }: { permission: string; resource?: unknown }) {
+  return createElement('span', null, String(useCan(permission, resource)));
+}
+
+function render(element: ReturnType<typeof createElement>, permissions = policy.serialize({ id: 'u1', roles: ['author'] })) {
+  return renderToString(createElement(PermissionsProvider, { permissions, rules: policy.rules }, element));
+}
+
+describe('useCan', () => {
+  it('should check serialized permissions', () => {
+    expect(render(createElement(Check, { permission: 'comments:delete' }))).toBe('<span>true</span>');
+    expect(render(createElement(Check, { permission: 'posts:delete' }))).toBe('<span>false</span>');
+  });
+
+  it('should run rules for resources', () => {
+    expect(render(createElement(Check, { permission: 'posts:edit', resource: { authorId: 'u1' } }))).toBe(
+      '<span>true</span>'
+    );
+    expect(render(createElement(Check, { permission: 'posts:edit', resource: { authorId: 'u2' } }))).toBe(
+      '<span>false</span>'
+    );
+  });
+
+  it('should deny everything without a provider or for anonymous visitors', () => {
+    expect(renderToString(createElement(Check, { permission: 'posts:edit' }))).toBe('<span>false</span>');
+    expect(render(createElement(Check, { permission: 'posts:edit' }), policy.serialize(null))).toBe(
+      '<span>false</span>'
+    );
+  });
+});
+
+describe('usePermissions', () => {
+  it('should return the serialized permissions', () => {
+    function List() {
+      return createElement('span', null, usePermissions().permissions.join(','));
+    }
+    expect(render(createElement(List))).toBe('<span>comments:*,posts:edit</span>');
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * @ereo/auth/client - Client-side permission checks
+ *
+ * Checks permissions in components against the permissions serialized by
+ * `serializePermissions` on the server. Hiding a button is only a hint to the
+ * user: the server still enforces every permission.
+ */
+
+import { createContext, createElement, useContext } from 'react';
+import type { ReactNode, ReactElement } from 'react';
+import { checkRule, matchPermission, type PolicyRule, type SerializedPermissions } from './policy';
+
+interface PermissionsContextValue {
+  permissions: SerializedPermissions;
+  rules: Readonly<Record<string, PolicyRule>>;
+}
+
+const ANONYMOUS: SerializedPermissions = { userId: null, roles: [], permissions: [] };
+
+const PermissionsContext = createContext<PermissionsContextValue>({ permissions: ANONYMOUS, rules: {} });
+
+/**
+ * Provide serialized permissions to `useCan`.
+ *
+ * Pass `rules` (e.g. `policy.rules` from a shared module) to run
+ * resource-scoped checks on the client too.
+ *
+ * @example
+ * ```tsx
+ * // routes/_layout.tsx
+ * export const loader = createLoader(({ context }) => ({
+ *   permissions: serializePermissions(context),
+ * }));
+ *
+ * export default function Layout({ children, loaderData }) {
+ *   return (
+ *     <PermissionsProvider permissions={loaderData.permissions} rules={policy.rules}>
+ *       {children}
+ *     </PermissionsProvider>
+ *   );
+ * }
+ * ```
+ */
+export function PermissionsProvider({
+  permissions,
+  rules,
+  children,
+}: {
+  permissions: SerializedPermissions | null | undefined;
+  rules?: Readonly<Record<string, PolicyRule>>;
+  children?: ReactNode;
+}): ReactElement {
+  return createElement(
+    PermissionsContext.Provider,
+    { value: { permissions: permissions ?? ANONYMOUS, rules: rules ?? {} } },
+    children
+  );
+}
+
+/**
+ * Get the serialized permissions of the current user.
+ */
+export function usePermissions(): SerializedPermissions {
+  return useContext(PermissionsContext).permissions;
+}
+
+/**
+ * Check whether the current user has a permission.
+ * With a resource, the permission's rule from `PermissionsProvider` must also pass.
+ *
+ * @example
+ * ```tsx
+ * function PostActions({ post }) {
+ *   const canEdit = useCan('posts:edit', post);
+ *   return canEdit ? <EditButton post={post} /> : null;
+ * }
+ * ```
+ */
+export function useCan(permission: string, resource?: unknown): boolean {
+  const { permissions, rules } = useContext(PermissionsContext);
+
+  if (permissions.userId === null || !matchPermission(permissions.permissions, permission)) {
+    return false;
+  }
+
+  const user = { id: permissions.userId, roles: permissions.roles, permissions: permissions.permissions };
+  return checkRule(rules, user, permission, resource);
+}
+
+export { matchPermission };
+export type { SerializedPermissions, PolicyRule };
@@ -5,7 +5,9 @@
  * - Multiple auth providers (credentials, OAuth)
  * - JWT-based session management
  * - Cookie-based session management
+ * - Pluggable session stores (memory, SQLite, cache adapter, Redis)
  * - Role-based access control (RBAC)
+ * - Permission policies with role inheritance and resource-scoped rules
  * - Protected routes middleware
  */
 
@@ -18,6 +20,7 @@ export {
   getAuth,
   getSession,
   getUser,
+  serializePermissions,
   withAuth,
   getOAuthUrl,
   handleOAuthCallback,
@@ -37,6 +40,40 @@ export type {
   OAuthCallbackResult,
 } from './auth';
 
+// Policies
+export { createPolicy, matchPermission } from './policy';
+
+export type {
+  Policy,
+  PolicyConfig,
+  PolicyRule,
+  RoleDefinition,
+  SerializedPermissions,
+} from './policy';
+
+// Session stores
+export {
+  MemorySessionStore,
+  SQLiteSessionStore,
+  CacheSessionStore,
+  RedisSessionStore,
+  createMemorySessionStore,
+  createSQLiteSessionStore,
+  createCacheSessionStore,
+  createRedisSessionStore,
+  generateSessionId,
+  isSessionId,
+} from './session-store';
+
+export type {
+  SessionStoreAdapter,
+  MemorySessionStoreOptions,
+  SQLiteSessionStoreOptions,
+  CacheSessionStoreOptions,
+  RedisCommandClient,
+  RedisSessionStoreOptions,
+} from './session-store';
+
 // Re-export AuthCheckResult from core so users can import from either package
 export type { AuthCheckResult } from '@ereo/core';
 
@@ -0,0 +1,85 @@
+/**
+ * @ereo/auth - Policy tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { createPolicy, matchPermission } from './policy';
+import type { User } from './auth';
+
+interface Post {
+  authorId: string;
+}
+
+const policy = createPolicy({
+  roles: {
+    viewer: { permissions: ['posts:read'] },
+    author: { inherits: 'viewer', permissions: ['posts:create', 'posts:edit'] },
+    moderator: { inherits: ['viewer'], permissions: ['comments:*'] },
+    admin: { inherits: ['author', 'moderator'], permissions: ['*'] },
+  },
+  rules: {
+    'posts:edit': (user, post: Post) => post.authorId === user.id || !!user.roles?.includes('admin'),
+  },
+});
+
+const author: User = { id: 'u1', roles: ['author'] };
+const admin: User = { id: 'u2', roles: ['admin'] };
+
+describe('matchPermission', () => {
+  it('should match exact permissions and wildcards', () => {
+    expect(matchPermission(['posts:read'], 'posts:read')).toBe(true);
+    expect(matchPermission(['posts:read'], 'posts:edit')).toBe(false);
+    expect(matchPermission(['*'], 'anything')).toBe(true);
+    expect(matchPermission(['comments:*'], 'comments:delete')).toBe(true);
+    expect(matchPermission(['comments:*'], 'commentsx:delete')).toBe(false);
+    expect(matchPermission([], 'posts:read')).toBe(false);
+  });
+});
+
+describe('createPolicy', () => {
+  it('should resolve permissions with inheritance', () => {
+    expect(policy.getPermissions(author)).toEqual(['posts:create', 'posts:edit', 'posts:read']);
+    expect(policy.getPermissions({ id: 'u3', roles: ['moderator'] })).toEqual(['comments:*', 'posts:read']);
+    expect(policy.getPermissions(null)).toEqual([]);
+  });
+
+  it('should add user permissions and ignore unknown roles', () => {
+    const user: User = { id: 'u3', roles: ['viewer', 'ghost'], permissions: ['reports:read'] };
+    expect(policy.getPermissions(user)).toEqual(['posts:read', 'reports:read']);
+  });
+
+  it('should check permissions', () => {
+    expect(policy.can(author, 'posts:create')).toBe(true);
+    expect(policy.can(author, 'comments:delete')).toBe(false);
+    expect(policy.can(admin, 'settings:write')).toBe(true);
+    expect(policy.can(null, 'posts:read')).toBe(false);
+    expect(policy.canAll(author, ['posts:read', 'posts:create'])).toBe(true);
+    expect(policy.canAll(author, ['posts:read', 'comments:delete'])).toBe(false);
+  });
+
+  it('should run resource-scoped rules', () => {
+    expect(policy.can(author, 'posts:edit', { authorId: 'u1' })).toBe(true);
+    expect(policy.can(author, 'posts:edit', { authorId: 'u9' })).toBe(false);
+    expect(policy.can(admin, 'posts:edit', { authorId: 'u9' })).toBe(true);
+    // Rules only narrow permissions the roles granted
+    expect(policy.can({ id: 'u1', roles: ['viewer'] }, 'posts:edit', { authorId: 'u1' })).toBe(false);
+  });
+
+  it('should serialize permissions', () => {
+    expect(policy.serialize(author)).toEqual({
+      userId: 'u1',
+      roles: ['author'],
+      permissions: ['posts:create', 'posts:edit', 'posts:read'],
+    });
+    expect(policy.serialize(null)).toEqual({ userId: null, roles: [], permissions: [] });
+  });
+
+  it('should reject unknown inherited roles and cycles', () => {
+    expect(() => createPolicy({ roles: { editor: { inherits: 'writer' } } })).toThrow(
+      'Role "editor" inherits unknown role "writer"'
+    );
+    expect(() => createPolicy({ roles: { a: { inherits: 'b' }, b: { inherits: 'a' } } })).toThrow(
+      'Role inheritance cycle: a -> b -> a'
+    );
+  });
+});
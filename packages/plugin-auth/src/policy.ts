@@ -0,0 +1,199 @@
+/**
+ * @ereo/auth - Policies
+ *
+ * Role-to-permission mapping with inheritance and resource-scoped rules.
+ * Policies are plain data and functions with no server-only imports, so the
+ * same policy can check permissions in loaders, RPC procedures and the browser.
+ */
+
+import type { User } from './auth';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/** Permissions of a role */
+export interface RoleDefinition {
+  /** Permissions granted by the role. `*` grants everything, `posts:*` every `posts:` permission. */
+  permissions?: string[];
+  /** Roles whose permissions this role also gets */
+  inherits?: string | string[];
+}
+
+/**
+ * Resource-scoped rule for a permission.
+ * Runs when a resource is passed to `can`, after the user's roles granted the permission.
+ */
+export type PolicyRule<TResource = any> = (user: User, resource: TResource) => boolean;
+
+/** Policy configuration */
+export interface PolicyConfig {
+  /** Roles and the permissions they grant */
+  roles: Record<string, RoleDefinition>;
+  /** Resource-scoped rules, by permission */
+  rules?: Record<string, PolicyRule>;
+}
+
+/** Permissions of a user, serialized for the client */
+export interface SerializedPermissions {
+  /** User ID, or null for anonymous visitors */
+  userId: string | null;
+  /** Roles of the user */
+  roles: string[];
+  /** Permissions granted by the roles and to the user directly */
+  permissions: string[];
+}
+
+/** Permission policy */
+export interface Policy {
+  /** Resource-scoped rules, by permission */
+  readonly rules: Readonly<Record<string, PolicyRule>>;
+  /** Get every permission the user has, from their roles (with inheritance) and `user.permissions` */
+  getPermissions(user: User | null | undefined): string[];
+  /**
+   * Check whether the user has a permission.
+   * With a resource, the permission's rule (if any) must also pass.
+   *
+   * @example
+   * policy.can(user, 'posts:edit', post);
+   */
+  can(user: User | null | undefined, permission: string, resource?: unknown): boolean;
+  /** Check whether the user has every one of the permissions */
+  canAll(user: User | null | undefined, permissions: string[]): boolean;
+  /** Serialize the user's permissions for `PermissionsProvider` on the client */
+  serialize(user: User | null | undefined): SerializedPermissions;
+}
+
+// ============================================================================
+// Permission Matching
+// ============================================================================
+
+/**
+ * Check a permission against a list of granted permissions.
+ * Supports `*` for every permission and `prefix:*` for every permission with that prefix.
+ */
+export function matchPermission(granted: readonly string[], permission: string): boolean {
+  for (const entry of granted) {
+    if (entry === permission || entry === '*') {
+      return true;
+    }
+    if (entry.endsWith(':*') && permission.startsWith(entry.slice(0, -1))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Run the rule of a permission for a resource.
+ * Permissions without a rule, and checks without a resource, pass.
+ */
+export function checkRule(
+  rules: Readonly<Record<string, PolicyRule>>,
+  user: User,
+  permission: string,
+  resource: unknown
+): boolean {
+  const rule = rules[permission];
+  return resource === undefined || !rule || rule(user, resource);
+}
+
+// ============================================================================
+// Policy
+// ============================================================================
+
+/**
+ * Resolve the permissions of every role, following `inherits`.
+ * Throws for unknown inherited roles and inheritance cycles.
+ */
+function resolveRoles(roles: Record<string, RoleDefinition>): Map<string, string[]> {
+  const resolved = new Map<string, string[]>();
+
+  function resolve(role: string, path: string[]): string[] {
+    const cached = resolved.get(role);
+    if (cached) return cached;
+
+    if (path.includes(role)) {
+      throw new Error(`[auth] Role inheritance cycle: ${[...path, role].join(' -> ')}`);
+    }
+
+    const definition = roles[role];
+    const permissions = new Set(definition.permissions ?? []);
+    const parents = typeof definition.inherits === 'string' ? [definition.inherits] : definition.inherits ?? [];
+
+    for (const parent of parents) {
+      if (!roles[parent]) {
+        throw new Error(`[auth] Role "${role}" inherits unknown role "${parent}"`);
+      }
+      for (const permission of resolve(parent, [...path, role])) {
+        permissions.add(permission);
+      }
+    }
+
+    const list = [...permissions];
+    resolved.set(role, list);
+    return list;
+  }
+
+  for (const role of Object.keys(roles)) {
+    resolve(role, []);
+  }
+
+  return resolved;
+}
+
+/**
+ * Create a permission policy.
+ *
+ * @example
+ * const policy = createPolicy({
+ *   roles: {
+ *     viewer: { permissions: ['posts:read'] },
+ *     author: { inherits: 'viewer', permissions: ['posts:create', 'posts:edit'] },
+ *     admin: { inherits: 'author', permissions: ['*'] },
+ *   },
+ *   rules: {
+ *     'posts:edit': (user, post: Post) => post.authorId === user.id || !!user.roles?.includes('admin'),
+ *   },
+ * });
+ *
+ * policy.can(user, 'posts:edit', post);
+ */
+export function createPolicy(config: PolicyConfig): Policy {
+  const rolePermissions = resolveRoles(config.roles);
+  const rules = config.rules ?? {};
+
+  function getPermissions(user: User | null | undefined): string[] {
+    if (!user) return [];
+
+    const permissions = new Set(user.permissions ?? []);
+    for (const role of user.roles ?? []) {
+      for (const permission of rolePermissions.get(role) ?? []) {
+        permissions.add(permission);
+      }
+    }
+    return [...permissions].sort();
+  }
+
+  function can(user: User | null | undefined, permission: string, resource?: unknown): boolean {
+    if (!user || !matchPermission(getPermissions(user), permission)) {
+      return false;
+    }
+    return checkRule(rules, user, permission, resource);
+  }
+
+  return {
+    rules,
+    getPermissions,
+    can,
+    canAll: (user, permissions) => {
+      const granted = getPermissions(user);
+      return !!user && permissions.every((permission) => matchPermission(granted, permission));
+    },
+    serialize: (user) => ({
+      userId: user?.id ?? null,
+      roles: user?.roles ?? [],
+      permissions: getPermissions(user),
+    }),
+  };
+}
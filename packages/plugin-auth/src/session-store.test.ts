@@ -0,0 +1,252 @@
+/**
+ * @ereo/auth - Session store tests
+ */
+
+import { describe, it, expect, afterEach } from 'bun:test';
+import { createCache } from '@ereo/core';
+import { createAuthPlugin } from './auth';
+import type { AuthContext, Session } from './auth';
+import { credentials } from './providers/index';
+import {
+  MemorySessionStore,
+  SQLiteSessionStore,
+  CacheSessionStore,
+  RedisSessionStore,
+  generateSessionId,
+  isSessionId,
+  type RedisCommandClient,
+  type SessionStoreAdapter,
+} from './session-store';
+
+/** In-process stand-in for the Redis commands the store uses */
+function createFakeRedis(): RedisCommandClient {
+  const strings = new Map<string, { value: string; expiresAt: number }>();
+  const sets = new Map<string, Set<string>>();
+  const read = (key: string) => {
+    const entry = strings.get(key);
+    if (entry && entry.expiresAt <= Date.now()) strings.delete(key);
+    return strings.get(key)?.value ?? null;
+  };
+
+  return {
+    async send(command, args) {
+      switch (command) {
+        case 'GET':
+          return read(args[0]);
+        case 'MGET':
+          return args.map(read);
+        case 'SET':
+          strings.set(args[0], { value: args[1], expiresAt: Date.now() + Number(args[3]) });
+          return 'OK';
+        case 'DEL':
+          return args.filter((key) => strings.delete(key) || sets.delete(key)).length;
+        case 'SADD':
+          sets.set(args[0], new Set([...(sets.get(args[0]) ?? []), ...args.slice(1)]));
+          return 1;
+        case 'SREM':
+          args.slice(1).forEach((member) => sets.get(args[0])?.delete(member));
+          return 1;
+        case 'SMEMBERS':
+          return [...(sets.get(args[0]) ?? [])];
+        case 'PEXPIRE':
+          return 1;
+        default:
+          throw new Error(`Unsupported command: ${command}`);
+      }
+    },
+  };
+}
+
+function session(userId: string, sessionId: string): Session {
+  return {
+    userId,
+    sessionId,
+    roles: ['user'],
+    expiresAt: new Date(Date.now() + 60_000),
+    issuedAt: new Date(),
+  };
+}
+
+const stores: Array<[string, () => SessionStoreAdapter]> = [
+  ['MemorySessionStore', () => new MemorySessionStore()],
+  ['SQLiteSessionStore', () => new SQLiteSessionStore()],
+  ['CacheSessionStore', () => new CacheSessionStore({ cache: createCache() })],
+  ['RedisSessionStore', () => new RedisSessionStore({ client: createFakeRedis() })],
+];
+
+for (const [name, create] of stores) {
+  describe(name, () => {
+    let store: SessionStoreAdapter;
+
+    afterEach(() => store?.destroy?.());
+
+    it('stores sessions with their dates', async () => {
+      store = create();
+      await store.set('a', session('user-1', 'a'), 60);
+
+      const stored = await store.get('a');
+      expect(stored?.userId).toBe('user-1');
+      expect(stored?.expiresAt).toBeInstanceOf(Date);
+      expect(await store.get('missing')).toBeNull();
+    });
+
+    it('deletes sessions', async () => {
+      store = create();
+      await store.set('a', session('user-1', 'a'), 60);
+
+      expect(await store.delete('a')).toBe(true);
+      expect(await store.get('a')).toBeNull();
+      expect(await store.delete('a')).toBe(false);
+    });
+
+    it('lists and deletes sessions by user', async () => {
+      store = create();
+      await store.set('a', session('user-1', 'a'), 60);
+      await store.set('b', session('user-1', 'b'), 60);
+      await store.set('c', session('user-2', 'c'), 60);
+
+      const listed = await store.listByUser('user-1');
+      expect(listed.map((s) => s.sessionId).sort()).toEqual(['a', 'b']);
+
+      expect(await store.deleteByUser('user-1')).toBe(2);
+      expect(await store.listByUser('user-1')).toEqual([]);
+      expect(await store.get('c')).not.toBeNull();
+    });
+
+    it('keeps session IDs apart from user IDs', async () => {
+      store = create();
+      await store.set('user:user-1', session('user-2', 'user:user-1'), 60);
+      await store.set('a', session('user-1', 'a'), 60);
+
+      expect((await store.get('user:user-1'))?.userId).toBe('user-2');
+      expect((await store.listByUser('user-1')).map((s) => s.sessionId)).toEqual(['a']);
+    });
+
+    it('expires sessions after maxAge', async () => {
+      store = create();
+      await store.set('a', session('user-1', 'a'), 0.01);
+      await new Promise((r) => setTimeout(r, 30));
+
+      expect(await store.get('a')).toBeNull();
+      expect(await store.listByUser('user-1')).toEqual([]);
+    });
+  });
+}
+
+describe('MemorySessionStore - capacity', () => {
+  it('evicts the least recently used sessions when full', async () => {
+    const store = new MemorySessionStore({ maxSessions: 10 });
+    for (let i = 0; i < 10; i++) {
+      await store.set(`s${i}`, session('user-1', `s${i}`), 60);
+    }
+    await store.set('new', session('user-1', 'new'), 60);
+
+    expect(store.size).toBe(10);
+    expect(await store.get('s0')).toBeNull();
+    expect(await store.get('new')).not.toBeNull();
+    store.destroy();
+  });
+});
+
+describe('generateSessionId', () => {
+  it('generates unique URL-safe IDs', () => {
+    const id = generateSessionId();
+    expect(id).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(generateSessionId()).not.toBe(id);
+  });
+
+  it('recognizes generated IDs only', () => {
+    expect(isSessionId(generateSessionId())).toBe(true);
+    expect(isSessionId('user:user-1')).toBe(false);
+    expect(isSessionId('a'.repeat(44))).toBe(false);
+  });
+});
+
+describe('createAuthPlugin - session store', () => {
+  const testSecret = 'test-secret-key-12345';
+
+  function setup(store: SessionStoreAdapter) {
+    const middlewares: Array<(request: Request, ctx: any, next: () => any) => any> = [];
+    const plugin = createAuthPlugin({
+      session: { strategy: 'cookie', secret: testSecret, store },
+      providers: [credentials({ authorize: async (creds) => ({ id: String(creds.id), roles: ['user'] }) })],
+    });
+    plugin.configureServer?.({ middlewares } as any);
+
+    return async (cookie?: string) => {
+      let auth: AuthContext | null = null;
+      const ctx = {
+        set: (key: string, value: any) => {
+          if (key === 'auth') auth = value;
+        },
+        get: () => undefined,
+      };
+      const request = new Request('http://localhost/', { headers: cookie ? { cookie } : {} });
+      await middlewares[0](request, ctx, () => Promise.resolve(new Response('OK')));
+      return auth! as AuthContext;
+    };
+  }
+
+  function cookieOf(auth: AuthContext): string {
+    return auth.getCookieHeader()!.split(';')[0];
+  }
+
+  it('shares sessions between plugin instances using the same store', async () => {
+    const store = new SQLiteSessionStore();
+    const first = setup(store);
+    const second = setup(store);
+
+    const auth = await first();
+    await auth.signIn('credentials', { id: 'user-1' });
+
+    const other = await second(cookieOf(auth));
+    expect(other.session?.userId).toBe('user-1');
+    store.destroy();
+  });
+
+  it('lists and revokes all sessions of a user', async () => {
+    const store = new MemorySessionStore();
+    const request = setup(store);
+
+    const laptop = await request();
+    await laptop.signIn('credentials', { id: 'user-1' });
+    const phone = await request();
+    await phone.signIn('credentials', { id: 'user-1' });
+
+    expect(await laptop.listSessions()).toHaveLength(2);
+    expect(await laptop.revokeSessions()).toBe(2);
+    expect(laptop.session).toBeNull();
+    expect(laptop.getCookieHeader()).toContain('Max-Age=0');
+    expect((await request(cookieOf(phone))).session).toBeNull();
+    store.destroy();
+  });
+
+  it('does not look up malformed session cookies', async () => {
+    const store = new MemorySessionStore();
+    const lookups: string[] = [];
+    const get = store.get.bind(store);
+    store.get = (sessionId) => {
+      lookups.push(sessionId);
+      return get(sessionId);
+    };
+
+    const auth = await setup(store)('ereo.session=user:user-1');
+    expect(auth.session).toBeNull();
+    expect(lookups).toEqual([]);
+    store.destroy();
+  });
+
+  it('rotates the session ID on privilege change', async () => {
+    const store = new MemorySessionStore();
+    const request = setup(store);
+
+    const auth = await request();
+    const original = await auth.signIn('credentials', { id: 'user-1' });
+    const rotated = await auth.rotateSession({ roles: ['user', 'admin'] });
+
+    expect(rotated?.sessionId).not.toBe(original.sessionId);
+    expect(await store.get(original.sessionId!)).toBeNull();
+    expect((await request(cookieOf(auth))).session?.roles).toEqual(['user', 'admin']);
+    store.destroy();
+  });
+});
@@ -0,0 +1,531 @@
+/**
+ * @ereo/auth - Session Stores
+ *
+ * Storage backends for the `cookie` and `hybrid` session strategies.
+ * The in-memory store is the default; SQLite, cache adapter and Redis
+ * stores keep sessions across restarts and share them between processes.
+ */
+
+import { Database } from 'bun:sqlite';
+import type { CacheAdapter } from '@ereo/core';
+import { serializeData, parseData } from '@ereo/core';
+import type { Session } from './auth';
+
+// ============================================================================
+// Adapter Interface
+// ============================================================================
+
+/**
+ * Storage backend for server-side sessions.
+ * Implement this interface to keep sessions in any database or cache.
+ */
+export interface SessionStoreAdapter {
+  /** Get a session, or null if it does not exist or has expired */
+  get(sessionId: string): Promise<Session | null>;
+  /** Store a session for `maxAge` seconds, replacing any existing one */
+  set(sessionId: string, session: Session, maxAge: number): Promise<void>;
+  /** Delete a session. Returns true if it existed. */
+  delete(sessionId: string): Promise<boolean>;
+  /** List the active sessions of a user */
+  listByUser(userId: string): Promise<Session[]>;
+  /** Delete every session of a user. Returns the number deleted. */
+  deleteByUser(userId: string): Promise<number>;
+  /** Release timers and connections */
+  destroy?(): void | Promise<void>;
+}
+
+/**
+ * Generate a random session ID (256 bits, base64url).
+ */
+export function generateSessionId(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Check that a value has the format of `generateSessionId()`.
+ * Session IDs read from requests are checked before they reach a store.
+ */
+export function isSessionId(value: string): boolean {
+  return /^[A-Za-z0-9_-]{43}$/.test(value);
+}
+
+// ============================================================================
+// Memory Store
+// ============================================================================
+
+/** Options for the in-memory session store */
+export interface MemorySessionStoreOptions {
+  /** Maximum number of sessions kept (default: 10000). The least recently used are evicted. */
+  maxSessions?: number;
+  /** Interval between expired-session sweeps in milliseconds (default: 60000) */
+  cleanupInterval?: number;
+}
+
+interface MemoryEntry {
+  session: Session;
+  expiresAt: number;
+  lastAccessed: number;
+}
+
+/**
+ * In-memory session store. Sessions are lost on restart and are not
+ * shared between processes.
+ */
+export class MemorySessionStore implements SessionStoreAdapter {
+  private sessions = new Map<string, MemoryEntry>();
+  private userIndex = new Map<string, Set<string>>();
+  private maxSessions: number;
+  private cleanupTimer: ReturnType<typeof setInterval> | null;
+
+  constructor(options: MemorySessionStoreOptions = {}) {
+    this.maxSessions = options.maxSessions ?? 10_000;
+    this.cleanupTimer = setInterval(() => this.cleanup(), options.cleanupInterval ?? 60 * 1000);
+  }
+
+  async get(sessionId: string): Promise<Session | null> {
+    const entry = this.sessions.get(sessionId);
+    if (!entry) return null;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.remove(sessionId);
+      return null;
+    }
+
+    entry.lastAccessed = Date.now();
+    return entry.session;
+  }
+
+  async set(sessionId: string, session: Session, maxAge: number): Promise<void> {
+    // Prevent unbounded growth (DoS protection)
+    if (this.sessions.size >= this.maxSessions && !this.sessions.has(sessionId)) {
+      this.cleanup();
+      // If still at capacity after cleanup, evict the least recently used 10%
+      if (this.sessions.size >= this.maxSessions) {
+        const entries = Array.from(this.sessions.entries());
+        entries.sort((a, b) => a[1].lastAccessed - b[1].lastAccessed);
+        const toEvict = Math.max(1, Math.floor(entries.length * 0.1));
+        for (let i = 0; i < toEvict; i++) {
+          this.remove(entries[i][0]);
+        }
+      }
+    }
+
+    const previous = this.sessions.get(sessionId);
+    if (previous && previous.session.userId !== session.userId) {
+      this.userIndex.get(previous.session.userId)?.delete(sessionId);
+    }
+
+    this.sessions.set(sessionId, {
+      session,
+      expiresAt: Date.now() + maxAge * 1000,
+      lastAccessed: Date.now(),
+    });
+
+    let ids = this.userIndex.get(session.userId);
+    if (!ids) {
+      ids = new Set();
+      this.userIndex.set(session.userId, ids);
+    }
+    ids.add(sessionId);
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    return this.remove(sessionId);
+  }
+
+  async listByUser(userId: string): Promise<Session[]> {
+    const sessions: Session[] = [];
+    for (const id of Array.from(this.userIndex.get(userId) ?? [])) {
+      const session = await this.get(id);
+      if (session) sessions.push(session);
+    }
+    return sessions;
+  }
+
+  async deleteByUser(userId: string): Promise<number> {
+    let count = 0;
+    for (const id of Array.from(this.userIndex.get(userId) ?? [])) {
+      if (this.remove(id)) count++;
+    }
+    return count;
+  }
+
+  destroy(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+    this.sessions.clear();
+    this.userIndex.clear();
+  }
+
+  /** Number of stored sessions, including expired ones not yet swept */
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  private remove(sessionId: string): boolean {
+    const entry = this.sessions.get(sessionId);
+    if (!entry) return false;
+
+    this.sessions.delete(sessionId);
+    const ids = this.userIndex.get(entry.session.userId);
+    ids?.delete(sessionId);
+    if (ids?.size === 0) {
+      this.userIndex.delete(entry.session.userId);
+    }
+    return true;
+  }
+
+  private cleanup(): void {
+    const now = Date.now();
+    for (const [id, entry] of Array.from(this.sessions.entries())) {
+      if (entry.expiresAt <= now) {
+        this.remove(id);
+      }
+    }
+  }
+}
+
+/**
+ * Create an in-memory session store.
+ */
+export function createMemorySessionStore(options?: MemorySessionStoreOptions): MemorySessionStore {
+  return new MemorySessionStore(options);
+}
+
+// ============================================================================
+// SQLite Store
+// ============================================================================
+
+/** Options for the SQLite session store */
+export interface SQLiteSessionStoreOptions {
+  /** A `bun:sqlite` database, or a file path to open (default: ':memory:') */
+  database?: Database | string;
+  /** Table name (default: 'ereo_sessions') */
+  tableName?: string;
+  /** Interval between expired-session sweeps in milliseconds (default: 60000) */
+  cleanupInterval?: number;
+}
+
+interface SessionRow {
+  data: string;
+}
+
+/**
+ * Session store backed by SQLite (`bun:sqlite`).
+ * Sessions survive restarts and are shared by processes using the same file.
+ */
+export class SQLiteSessionStore implements SessionStoreAdapter {
+  private db: Database;
+  private ownsDatabase: boolean;
+  private table: string;
+  private cleanupTimer: ReturnType<typeof setInterval> | null;
+
+  constructor(options: SQLiteSessionStoreOptions = {}) {
+    const table = options.tableName ?? 'ereo_sessions';
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+      throw new Error(`[auth] Invalid session table name: ${table}`);
+    }
+    this.table = table;
+
+    if (options.database instanceof Database) {
+      this.db = options.database;
+      this.ownsDatabase = false;
+    } else {
+      this.db = new Database(options.database ?? ':memory:', { create: true });
+      this.ownsDatabase = true;
+    }
+
+    this.db.run(
+      `CREATE TABLE IF NOT EXISTS ${table} (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        data TEXT NOT NULL,
+        expires_at INTEGER NOT NULL
+      )`
+    );
+    this.db.run(`CREATE INDEX IF NOT EXISTS ${table}_user_id ON ${table} (user_id)`);
+
+    this.cleanupTimer = setInterval(() => this.cleanup(), options.cleanupInterval ?? 60 * 1000);
+  }
+
+  async get(sessionId: string): Promise<Session | null> {
+    const row = this.db
+      .query<SessionRow, [string, number]>(`SELECT data FROM ${this.table} WHERE id = ? AND expires_at > ?`)
+      .get(sessionId, Date.now());
+    return row ? parseData<Session>(row.data) : null;
+  }
+
+  async set(sessionId: string, session: Session, maxAge: number): Promise<void> {
+    this.db
+      .query(`INSERT OR REPLACE INTO ${this.table} (id, user_id, data, expires_at) VALUES (?, ?, ?, ?)`)
+      .run(sessionId, session.userId, serializeData(session), Date.now() + maxAge * 1000);
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    return this.db.query(`DELETE FROM ${this.table} WHERE id = ?`).run(sessionId).changes > 0;
+  }
+
+  async listByUser(userId: string): Promise<Session[]> {
+    return this.db
+      .query<SessionRow, [string, number]>(`SELECT data FROM ${this.table} WHERE user_id = ? AND expires_at > ?`)
+      .all(userId, Date.now())
+      .map((row) => parseData<Session>(row.data));
+  }
+
+  async deleteByUser(userId: string): Promise<number> {
+    return this.db.query(`DELETE FROM ${this.table} WHERE user_id = ?`).run(userId).changes;
+  }
+
+  destroy(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+    if (this.ownsDatabase) {
+      this.db.close();
+    }
+  }
+
+  private cleanup(): void {
+    this.db.query(`DELETE FROM ${this.table} WHERE expires_at <= ?`).run(Date.now());
+  }
+}
+
+/**
+ * Create a SQLite session store.
+ *
+ * @example
+ * createAuthPlugin({
+ *   session: {
+ *     strategy: 'cookie',
+ *     secret: process.env.AUTH_SECRET!,
+ *     store: createSQLiteSessionStore({ database: './sessions.db' }),
+ *   },
+ * });
+ */
+export function createSQLiteSessionStore(options?: SQLiteSessionStoreOptions): SQLiteSessionStore {
+  return new SQLiteSessionStore(options);
+}
+
+// ============================================================================
+// Cache Adapter Store
+// ============================================================================
+
+/** Options for the cache adapter session store */
+export interface CacheSessionStoreOptions {
+  /** Any `@ereo/core` CacheAdapter */
+  cache: CacheAdapter;
+  /** Key prefix (default: 'ereo:session:') */
+  prefix?: string;
+}
+
+/**
+ * Session store backed by an `@ereo/core` CacheAdapter.
+ * Each user has an index entry listing their session IDs. Sessions and
+ * indexes are kept under distinct `sess:` and `user:` key prefixes.
+ */
+export class CacheSessionStore implements SessionStoreAdapter {
+  private cache: CacheAdapter;
+  private prefix: string;
+
+  constructor(options: CacheSessionStoreOptions) {
+    this.cache = options.cache;
+    this.prefix = options.prefix ?? 'ereo:session:';
+  }
+
+  async get(sessionId: string): Promise<Session | null> {
+    const data = await this.cache.get<string>(this.sessionKey(sessionId));
+    return data === undefined ? null : parseData<Session>(data);
+  }
+
+  async set(sessionId: string, session: Session, maxAge: number): Promise<void> {
+    await this.cache.set(this.sessionKey(sessionId), serializeData(session), { ttl: maxAge });
+
+    const ids = await this.userSessionIds(session.userId);
+    if (!ids.includes(sessionId)) ids.push(sessionId);
+    await this.cache.set(this.userKey(session.userId), ids, { ttl: maxAge });
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    const session = await this.get(sessionId);
+    const deleted = await this.cache.delete(this.sessionKey(sessionId));
+    if (session) {
+      const ids = (await this.userSessionIds(session.userId)).filter((id) => id !== sessionId);
+      await this.saveUserIndex(session.userId, ids);
+    }
+    return deleted;
+  }
+
+  async listByUser(userId: string): Promise<Session[]> {
+    const ids = await this.userSessionIds(userId);
+    const sessions: Session[] = [];
+    const active: string[] = [];
+    for (const id of ids) {
+      const session = await this.get(id);
+      if (session) {
+        sessions.push(session);
+        active.push(id);
+      }
+    }
+    // Drop IDs of sessions that expired
+    if (active.length !== ids.length) {
+      await this.saveUserIndex(userId, active);
+    }
+    return sessions;
+  }
+
+  async deleteByUser(userId: string): Promise<number> {
+    let count = 0;
+    for (const id of await this.userSessionIds(userId)) {
+      if (await this.cache.delete(this.sessionKey(id))) count++;
+    }
+    await this.cache.delete(this.userKey(userId));
+    return count;
+  }
+
+  private sessionKey(sessionId: string): string {
+    return `${this.prefix}sess:${sessionId}`;
+  }
+
+  private userKey(userId: string): string {
+    return `${this.prefix}user:${userId}`;
+  }
+
+  private async userSessionIds(userId: string): Promise<string[]> {
+    return (await this.cache.get<string[]>(this.userKey(userId))) ?? [];
+  }
+
+  private async saveUserIndex(userId: string, ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+      await this.cache.delete(this.userKey(userId));
+    } else {
+      await this.cache.set(this.userKey(userId), ids);
+    }
+  }
+}
+
+/**
+ * Create a session store backed by an `@ereo/core` CacheAdapter.
+ */
+export function createCacheSessionStore(options: CacheSessionStoreOptions): CacheSessionStore {
+  return new CacheSessionStore(options);
+}
+
+// ============================================================================
+// Redis Store
+// ============================================================================
+
+/**
+ * Minimal Redis client: sends a command and returns its reply.
+ * Bun's `RedisClient` implements this directly; other clients need a
+ * one-line wrapper (e.g. `{ send: (cmd, args) => ioredis.call(cmd, ...args) }`).
+ */
+export interface RedisCommandClient {
+  send(command: string, args: string[]): Promise<unknown>;
+}
+
+/** Options for the Redis session store */
+export interface RedisSessionStoreOptions {
+  /** Client speaking the Redis protocol (Redis, Valkey, KeyDB, Dragonfly, ...) */
+  client: RedisCommandClient;
+  /** Key prefix (default: 'ereo:session:') */
+  prefix?: string;
+}
+
+/**
+ * Session store for Redis-protocol servers.
+ * Sessions are string keys with an expiry (`<prefix>sess:<id>`); each user
+ * has a set of session IDs (`<prefix>user:<id>`).
+ */
+export class RedisSessionStore implements SessionStoreAdapter {
+  private client: RedisCommandClient;
+  private prefix: string;
+
+  constructor(options: RedisSessionStoreOptions) {
+    this.client = options.client;
+    this.prefix = options.prefix ?? 'ereo:session:';
+  }
+
+  async get(sessionId: string): Promise<Session | null> {
+    const data = await this.client.send('GET', [this.sessionKey(sessionId)]);
+    return typeof data === 'string' ? parseData<Session>(data) : null;
+  }
+
+  async set(sessionId: string, session: Session, maxAge: number): Promise<void> {
+    const ttl = String(Math.max(1, Math.ceil(maxAge * 1000)));
+    const userKey = this.userKey(session.userId);
+    await this.client.send('SET', [this.sessionKey(sessionId), serializeData(session), 'PX', ttl]);
+    await this.client.send('SADD', [userKey, sessionId]);
+    // The index lives as long as the newest session
+    await this.client.send('PEXPIRE', [userKey, ttl]);
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    const session = await this.get(sessionId);
+    const deleted = Number(await this.client.send('DEL', [this.sessionKey(sessionId)]));
+    if (session) {
+      await this.client.send('SREM', [this.userKey(session.userId), sessionId]);
+    }
+    return deleted > 0;
+  }
+
+  async listByUser(userId: string): Promise<Session[]> {
+    const ids = await this.userSessionIds(userId);
+    if (ids.length === 0) return [];
+
+    const values = (await this.client.send('MGET', ids.map((id) => this.sessionKey(id)))) as Array<string | null>;
+    const sessions: Session[] = [];
+    const expired: string[] = [];
+    values.forEach((value, index) => {
+      if (typeof value === 'string') {
+        sessions.push(parseData<Session>(value));
+      } else {
+        expired.push(ids[index]);
+      }
+    });
+
+    if (expired.length > 0) {
+      await this.client.send('SREM', [this.userKey(userId), ...expired]);
+    }
+    return sessions;
+  }
+
+  async deleteByUser(userId: string): Promise<number> {
+    const ids = await this.userSessionIds(userId);
+    const deleted = ids.length > 0 ? Number(await this.client.send('DEL', ids.map((id) => this.sessionKey(id)))) : 0;
+    await this.client.send('DEL', [this.userKey(userId)]);
+    return deleted;
+  }
+
+  private sessionKey(sessionId: string): string {
+    return `${this.prefix}sess:${sessionId}`;
+  }
+
+  private userKey(userId: string): string {
+    return `${this.prefix}user:${userId}`;
+  }
+
+  private async userSessionIds(userId: string): Promise<string[]> {
+    const ids = await this.client.send('SMEMBERS', [this.userKey(userId)]);
+    return Array.isArray(ids) ? (ids as string[]) : [];
+  }
+}
+
+/**
+ * Create a session store for a Redis-protocol server.
+ *
+ * @example
+ * import { RedisClient } from 'bun';
+ *
+ * const store = createRedisSessionStore({ client: new RedisClient(process.env.REDIS_URL) });
+ */
+export function createRedisSessionStore(options: RedisSessionStoreOptions): RedisSessionStore {
+  return new RedisSessionStore(options);
+}
@@ -7,23 +7,29 @@
 'use client';
 
 import React, { useState, useRef, useEffect, useMemo, forwardRef } from 'react';
-import type { ImageProps, StaticImageData, ImageLoaderParams } from './types';
+import type { ImageProps, StaticImageData, ImageLoaderParams, ImageTransformOptions } from './types';
+import { buildImageUrl } from './url';
 
 /**
  * Default image loader that generates URLs for the EreoJS image endpoint.
  */
-const defaultLoader = ({ src, width, quality }: ImageLoaderParams): string => {
-  const params = new URLSearchParams({
-    src,
-    w: width.toString(),
-  });
+const defaultLoader = (params: ImageLoaderParams): string => buildImageUrl(params);
 
-  if (quality) {
-    params.set('q', quality.toString());
-  }
+/**
+ * Transformations and preset passed to the loader for every width.
+ */
+type SrcsetTransform = Omit<ImageTransformOptions, 'dpr'> & { preset?: string };
 
-  return `/_ereo/image?${params.toString()}`;
-};
+/**
+ * Width / height ratio of the image, when the height is sent along with the width.
+ */
+function getCropRatio(
+  transform: SrcsetTransform,
+  width: number | undefined,
+  height: number | undefined
+): number | undefined {
+  return transform.fit && transform.fit !== 'inside' && width && height ? width / height : undefined;
+}
 
 /**
  * Default device sizes for srcset generation.
@@ -38,8 +44,17 @@ function generateSrcset(
   loader: (params: ImageLoaderParams) => string,
   width: number | undefined,
   quality: number | undefined,
-  sizes: string | undefined
+  sizes: string | undefined,
+  transform: SrcsetTransform = {},
+  cropRatio?: number
 ): string {
+  // Presets decide the width on the server, so only densities vary
+  if (transform.preset) {
+    return [1, 2]
+      .map((dpr) => `${loader({ src, width: width || 1200, quality, ...transform, dpr })} ${dpr}x`)
+      .join(', ');
+  }
+
   // Determine which widths to include
   let widths: number[];
 
@@ -59,7 +74,10 @@ function generateSrcset(
   }
 
   return widths
-    .map((w) => `${loader({ src, width: w, quality })} ${w}w`)
+    .map((w) => {
+      const height = cropRatio ? Math.round(w / cropRatio) : undefined;
+      return `${loader({ src, width: w, height, quality, ...transform })} ${w}w`;
+    })
     .join(', ');
 }
 
@@ -135,6 +153,14 @@ export const Image = forwardRef<HTMLImageElement, ImageProps>(function Image(
     decoding = 'async',
     loader = defaultLoader,
     unoptimized = false,
+    fit,
+    gravity,
+    focalPoint,
+    rotate,
+    flip,
+    dpr,
+    format,
+    preset,
     onLoad,
     onError,
     className,
@@ -159,6 +185,23 @@ export const Image = forwardRef<HTMLImageElement, ImageProps>(function Image(
   // Loading strategy
   const loading = propLoading ?? (priority ? 'eager' : 'lazy');
 
+  // Transformations applied to every width
+  const focalX = focalPoint?.x;
+  const focalY = focalPoint?.y;
+  const transform = useMemo<SrcsetTransform>(
+    () => ({
+      fit,
+      gravity,
+      focalPoint: focalX !== undefined && focalY !== undefined ? { x: focalX, y: focalY } : undefined,
+      rotate,
+      flip,
+      format,
+      preset,
+    }),
+    [fit, gravity, focalX, focalY, rotate, flip, format, preset]
+  );
+  const cropRatio = getCropRatio(transform, imgWidth, imgHeight);
+
   // Generate optimized src and srcset
   const optimizedSrc = useMemo(() => {
     if (unoptimized) {
@@ -166,15 +209,16 @@ export const Image = forwardRef<HTMLImageElement, ImageProps>(function Image(
     }
     // Use the loader to generate the primary src
     const targetWidth = imgWidth || 1200;
-    return loader({ src: imgSrc, width: targetWidth, quality });
-  }, [imgSrc, imgWidth, quality, loader, unoptimized]);
+    const height = cropRatio ? Math.round(targetWidth / cropRatio) : undefined;
+    return loader({ src: imgSrc, width: targetWidth, height, quality, dpr, ...transform });
+  }, [imgSrc, imgWidth, quality, loader, unoptimized, transform, cropRatio, dpr]);
 
   const srcSet = useMemo(() => {
     if (unoptimized) {
       return undefined;
     }
-    return generateSrcset(imgSrc, loader, imgWidth, quality, sizes);
-  }, [imgSrc, loader, imgWidth, quality, sizes, unoptimized]);
+    return generateSrcset(imgSrc, loader, imgWidth, quality, sizes, transform, cropRatio);
+  }, [imgSrc, loader, imgWidth, quality, sizes, unoptimized, transform, cropRatio]);
 
   // Handle load event
   const handleLoad = (event: React.SyntheticEvent<HTMLImageElement>) => {
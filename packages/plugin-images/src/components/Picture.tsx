@@ -7,23 +7,35 @@
 'use client';
 
 import React, { forwardRef, useState, useMemo } from 'react';
-import type { PictureProps, PictureSource, StaticImageData, ImageLoaderParams } from './types';
+import type {
+  PictureProps,
+  PictureSource,
+  StaticImageData,
+  ImageLoaderParams,
+  ImageTransformOptions,
+} from './types';
+import { buildImageUrl } from './url';
 
 /**
  * Default image loader for the EreoJS image endpoint.
  */
-const defaultLoader = ({ src, width, quality }: ImageLoaderParams): string => {
-  const params = new URLSearchParams({
-    src,
-    w: width.toString(),
-  });
-
-  if (quality) {
-    params.set('q', quality.toString());
-  }
+const defaultLoader = (params: ImageLoaderParams): string => buildImageUrl(params);
+
+/**
+ * Transformations and preset passed to the loader for every width.
+ */
+type SrcsetTransform = Omit<ImageTransformOptions, 'dpr'> & { preset?: string };
 
-  return `/_ereo/image?${params.toString()}`;
-};
+/**
+ * Width / height ratio of a source, when the height is sent along with the width.
+ */
+function getCropRatio(
+  transform: SrcsetTransform,
+  width: number | undefined,
+  height: number | undefined
+): number | undefined {
+  return transform.fit && transform.fit !== 'inside' && width && height ? width / height : undefined;
+}
 
 /**
  * Default device sizes for srcset generation.
@@ -37,8 +49,17 @@ function generateSrcset(
   src: string,
   loader: (params: ImageLoaderParams) => string,
   width: number | undefined,
-  quality: number | undefined
+  quality: number | undefined,
+  transform: SrcsetTransform = {},
+  cropRatio?: number
 ): string {
+  // Presets decide the width on the server, so only densities vary
+  if (transform.preset) {
+    return [1, 2]
+      .map((dpr) => `${loader({ src, width: width || 1200, quality, ...transform, dpr })} ${dpr}x`)
+      .join(', ');
+  }
+
   let widths: number[];
 
   if (width) {
@@ -53,7 +74,10 @@ function generateSrcset(
   }
 
   return widths
-    .map((w) => `${loader({ src, width: w, quality })} ${w}w`)
+    .map((w) => {
+      const height = cropRatio ? Math.round(w / cropRatio) : undefined;
+      return `${loader({ src, width: w, height, quality, ...transform })} ${w}w`;
+    })
     .join(', ');
 }
 
@@ -134,6 +158,14 @@ export const Picture = forwardRef<HTMLImageElement, PictureProps>(function Pictu
     decoding = 'async',
     loader = defaultLoader,
     unoptimized = false,
+    fit,
+    gravity,
+    focalPoint,
+    rotate,
+    flip,
+    dpr,
+    format,
+    preset,
     onLoad,
     onError,
     className,
@@ -162,11 +194,27 @@ export const Picture = forwardRef<HTMLImageElement, PictureProps>(function Pictu
   // Loading strategy
   const loading = propLoading ?? (priority ? 'eager' : 'lazy');
 
+  // Transformations applied to every source
+  const focalX = focalPoint?.x;
+  const focalY = focalPoint?.y;
+  const transform = useMemo<SrcsetTransform>(
+    () => ({
+      fit,
+      gravity,
+      focalPoint: focalX !== undefined && focalY !== undefined ? { x: focalX, y: focalY } : undefined,
+      rotate,
+      flip,
+      format,
+      preset,
+    }),
+    [fit, gravity, focalX, focalY, rotate, flip, format, preset]
+  );
+
   // Generate source elements
   const sourceElements = useMemo(() => {
     return sources.map((source, index) => {
       const srcString = getSrc(source.src);
-      const { width: sourceWidth } = getDimensions(
+      const { width: sourceWidth, height: sourceHeight } = getDimensions(
         source.src,
         source.width,
         source.height
@@ -174,7 +222,14 @@ export const Picture = forwardRef<HTMLImageElement, PictureProps>(function Pictu
 
       const srcSet = unoptimized
         ? srcString
-        : generateSrcset(srcString, loader, sourceWidth, quality);
+        : generateSrcset(
+            srcString,
+            loader,
+            sourceWidth,
+            quality,
+            transform,
+            getCropRatio(transform, sourceWidth, sourceHeight)
+          );
 
       return (
         <source
@@ -186,15 +241,22 @@ export const Picture = forwardRef<HTMLImageElement, PictureProps>(function Pictu
         />
       );
     });
-  }, [sources, loader, quality, sizes, unoptimized]);
+  }, [sources, loader, quality, sizes, unoptimized, transform]);
 
   // Generate fallback srcset
   const fallbackSrcSet = useMemo(() => {
     if (unoptimized || !fallbackSrc) {
       return undefined;
     }
-    return generateSrcset(fallbackSrc, loader, fallbackWidth, quality);
-  }, [fallbackSrc, loader, fallbackWidth, quality, unoptimized]);
+    return generateSrcset(
+      fallbackSrc,
+      loader,
+      fallbackWidth,
+      quality,
+      transform,
+      getCropRatio(transform, fallbackWidth, fallbackHeight)
+    );
+  }, [fallbackSrc, loader, fallbackWidth, fallbackHeight, quality, unoptimized, transform]);
 
   // Generate optimized fallback src
   const optimizedFallbackSrc = useMemo(() => {
@@ -202,8 +264,10 @@ export const Picture = forwardRef<HTMLImageElement, PictureProps>(function Pictu
       return fallbackSrc;
     }
     const targetWidth = fallbackWidth || 1200;
-    return loader({ src: fallbackSrc, width: targetWidth, quality });
-  }, [fallbackSrc, fallbackWidth, quality, loader, unoptimized]);
+    const ratio = getCropRatio(transform, fallbackWidth, fallbackHeight);
+    const height = ratio ? Math.round(targetWidth / ratio) : undefined;
+    return loader({ src: fallbackSrc, width: targetWidth, height, quality, dpr, ...transform });
+  }, [fallbackSrc, fallbackWidth, fallbackHeight, quality, loader, unoptimized, transform, dpr]);
 
   // Handle events
   const handleLoad = (event: React.SyntheticEvent<HTMLImageElement>) => {
@@ -6,6 +6,7 @@
 
 export { Image, default as ImageComponent } from './Image';
 export { Picture, default as PictureComponent } from './Picture';
+export { buildImageUrl } from './url';
 export type {
   ImageProps,
   PictureProps,
@@ -18,4 +19,10 @@ export type {
   ImageDecoding,
   ImageLoader,
   ImageLoaderParams,
+  ImageFit,
+  ImageGravity,
+  ImageFormat,
+  FocalPoint,
+  ImageTransformOptions,
+  ImagePreset,
 } from './types';
@@ -54,13 +54,89 @@ export type ImageLoading = 'lazy' | 'eager';
  */
 export type ImageDecoding = 'async' | 'sync' | 'auto';
 
+/**
+ * How the image is fitted into the requested width and height.
+ * - 'cover': Fill both dimensions, cropping the overflow
+ * - 'contain': Fit inside both dimensions, padding the rest (letterbox)
+ * - 'fill': Stretch to both dimensions, ignoring the aspect ratio
+ * - 'inside': Fit inside both dimensions, keeping the aspect ratio (default)
+ */
+export type ImageFit = 'cover' | 'contain' | 'fill' | 'inside';
+
+/**
+ * Part of the image kept when cropping with fit 'cover'.
+ * 'entropy' and 'attention' pick the most detailed or salient region.
+ */
+export type ImageGravity =
+  | 'center'
+  | 'north'
+  | 'northeast'
+  | 'east'
+  | 'southeast'
+  | 'south'
+  | 'southwest'
+  | 'west'
+  | 'northwest'
+  | 'entropy'
+  | 'attention';
+
+/**
+ * Point of the image (0-1 from the left and from the top) kept in the
+ * center of the crop with fit 'cover'.
+ */
+export interface FocalPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Image output format.
+ */
+export type ImageFormat = 'auto' | 'webp' | 'avif' | 'jpeg' | 'png';
+
+/**
+ * Transformations applied on top of resizing.
+ */
+export interface ImageTransformOptions {
+  /** How the image is fitted into width and height (default: 'inside', or 'cover' with gravity/focalPoint) */
+  fit?: ImageFit;
+  /** Crop gravity for fit 'cover' */
+  gravity?: ImageGravity;
+  /** Crop focal point for fit 'cover' (takes precedence over gravity) */
+  focalPoint?: FocalPoint;
+  /** Clockwise rotation in degrees */
+  rotate?: 0 | 90 | 180 | 270;
+  /** Mirror horizontally ('h'), vertically ('v') or both ('hv') */
+  flip?: 'h' | 'v' | 'hv';
+  /** Device pixel ratio; multiplies width and height (1, 1.5, 2 or 3) */
+  dpr?: number;
+  /** Output format (default: negotiated from the Accept header) */
+  format?: ImageFormat;
+}
+
+/**
+ * Named transformation, requested with `preset=<name>`.
+ */
+export interface ImagePreset extends ImageTransformOptions {
+  /** Target width */
+  width: number;
+  /** Target height */
+  height?: number;
+  /** Quality (1-100) */
+  quality?: number;
+}
+
 /**
  * Custom loader function for generating image URLs.
  */
-export interface ImageLoaderParams {
+export interface ImageLoaderParams extends ImageTransformOptions {
   src: string;
   width: number;
   quality?: number;
+  /** Target height, set when the image is cropped or fitted to both dimensions */
+  height?: number;
+  /** Named preset; the preset decides the size and transformations */
+  preset?: string;
 }
 
 export type ImageLoader = (params: ImageLoaderParams) => string;
@@ -145,6 +221,51 @@ export interface ImageProps extends Omit<ImgHTMLAttributes<HTMLImageElement>, 's
    */
   quality?: number;
 
+  /**
+   * How the optimized image is fitted into width and height.
+   * With a fit other than 'inside', the height is sent to the optimizer.
+   */
+  fit?: ImageFit;
+
+  /**
+   * Crop gravity for fit 'cover'.
+   */
+  gravity?: ImageGravity;
+
+  /**
+   * Crop focal point (0-1) for fit 'cover'.
+   *
+   * @example
+   * focalPoint={{ x: 0.7, y: 0.3 }}
+   */
+  focalPoint?: FocalPoint;
+
+  /**
+   * Clockwise rotation in degrees.
+   */
+  rotate?: 0 | 90 | 180 | 270;
+
+  /**
+   * Mirror the image horizontally ('h'), vertically ('v') or both ('hv').
+   */
+  flip?: 'h' | 'v' | 'hv';
+
+  /**
+   * Device pixel ratio of the main `src` (the srcset covers other densities).
+   */
+  dpr?: number;
+
+  /**
+   * Output format. Negotiated from the browser's Accept header by default.
+   */
+  format?: ImageFormat;
+
+  /**
+   * Named preset from the plugin's `presets` config.
+   * The preset decides size and transformations, and the srcset lists 1x and 2x.
+   */
+  preset?: string;
+
   /**
    * Mark as high priority (preload).
    * Use for above-the-fold images.
@@ -340,6 +461,28 @@ export interface ImagePluginConfig {
    * @default false
    */
   dangerouslyAllowAllRemote?: boolean;
+
+  /**
+   * Named transformations, requested with `?src=...&preset=<name>`.
+   *
+   * @example
+   * presets: { avatar: { width: 96, height: 96, fit: 'cover', gravity: 'attention' } }
+   */
+  presets?: Record<string, ImagePreset>;
+
+  /**
+   * Only serve preset requests, so clients cannot request arbitrary sizes.
+   * Signed URLs are still served when `signingSecret` is set.
+   * @default false
+   */
+  presetsOnly?: boolean;
+
+  /**
+   * Secret for HMAC-signed transform URLs (see `signImageUrl`).
+   * When set, requests that do not use a preset must carry a valid signature.
+   * @default '' (signing disabled)
+   */
+  signingSecret?: string;
 }
 
 /**
@@ -408,7 +551,7 @@ export interface ImageVariant {
 /**
  * Image optimization parameters (for runtime).
  */
-export interface ImageOptimizationParams {
+export interface ImageOptimizationParams extends ImageTransformOptions {
   /** Source image path or URL */
   src: string;
   /** Target width */
@@ -417,8 +560,6 @@ export interface ImageOptimizationParams {
   height?: number;
   /** Quality (1-100) */
   quality?: number;
-  /** Output format */
-  format?: 'auto' | 'webp' | 'avif' | 'jpeg' | 'png';
 }
 
 /**
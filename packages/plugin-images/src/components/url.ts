@@ -0,0 +1,52 @@
+/**
+ * @ereo/plugin-images - Image URLs
+ *
+ * Builds URLs for the image optimization endpoint. Shared by the components
+ * and the URL signing helpers, so it must stay free of server-only imports.
+ */
+
+import type { ImageLoaderParams } from './types';
+
+/**
+ * Default path of the image optimization endpoint.
+ */
+export const DEFAULT_IMAGE_PATH = '/_ereo/image';
+
+/**
+ * Build the query parameters for an image request.
+ *
+ * With a `preset`, only the preset, `dpr` and `format` are sent, since the
+ * preset decides everything else on the server.
+ */
+export function buildImageParams(params: ImageLoaderParams): URLSearchParams {
+  const search = new URLSearchParams({ src: params.src });
+
+  if (params.preset) {
+    search.set('preset', params.preset);
+  } else {
+    search.set('w', params.width.toString());
+    if (params.height) search.set('h', params.height.toString());
+    if (params.quality) search.set('q', params.quality.toString());
+    if (params.fit) search.set('fit', params.fit);
+    if (params.gravity) search.set('g', params.gravity);
+    if (params.focalPoint) search.set('fp', `${params.focalPoint.x},${params.focalPoint.y}`);
+    if (params.rotate) search.set('rot', params.rotate.toString());
+    if (params.flip) search.set('flip', params.flip);
+  }
+
+  if (params.dpr && params.dpr !== 1) search.set('dpr', params.dpr.toString());
+  if (params.format && params.format !== 'auto') search.set('f', params.format);
+
+  return search;
+}
+
+/**
+ * Build the URL of an optimized image.
+ *
+ * @example
+ * buildImageUrl({ src: '/hero.jpg', width: 800, height: 400, fit: 'cover', gravity: 'north' });
+ * // '/_ereo/image?src=%2Fhero.jpg&w=800&h=400&fit=cover&g=north'
+ */
+export function buildImageUrl(params: ImageLoaderParams, path: string = DEFAULT_IMAGE_PATH): string {
+  return `${path}?${buildImageParams(params).toString()}`;
+}
@@ -5,6 +5,7 @@
  */
 
 import type { ImagePluginConfig } from '../components/types';
+import { DEFAULT_IMAGE_PATH } from '../components/url';
 
 /**
  * Default device sizes for responsive srcset generation.
@@ -52,7 +53,7 @@ export const BLUR_WIDTH = 8;
 /**
  * URL path prefix for the image optimization endpoint.
  */
-export const IMAGE_PATH_PREFIX = '/_ereo/image';
+export const IMAGE_PATH_PREFIX = DEFAULT_IMAGE_PATH;
 
 /**
  * Cache directory for optimized images.
@@ -69,6 +70,44 @@ export const SUPPORTED_INPUT_FORMATS = ['jpeg', 'jpg', 'png', 'webp', 'avif', 'g
  */
 export const SUPPORTED_OUTPUT_FORMATS = ['webp', 'avif', 'jpeg', 'png'] as const;
 
+/**
+ * Supported fit modes.
+ */
+export const FIT_MODES = ['cover', 'contain', 'fill', 'inside'] as const;
+
+/**
+ * Supported crop gravities.
+ */
+export const GRAVITIES = [
+  'center',
+  'north',
+  'northeast',
+  'east',
+  'southeast',
+  'south',
+  'southwest',
+  'west',
+  'northwest',
+  'entropy',
+  'attention',
+] as const;
+
+/**
+ * Supported rotations in degrees.
+ */
+export const ROTATIONS = [0, 90, 180, 270] as const;
+
+/**
+ * Supported flip directions.
+ */
+export const FLIPS = ['h', 'v', 'hv'] as const;
+
+/**
+ * Supported device pixel ratios. A discrete set, so that each image has a
+ * bounded number of cached variants.
+ */
+export const DPR_VALUES = [1, 1.5, 2, 3] as const;
+
 /**
  * MIME types for image formats.
  */
@@ -117,6 +156,9 @@ export const DEFAULT_CONFIG: Required<ImagePluginConfig> = {
   maxDimension: MAX_DIMENSION,
   path: IMAGE_PATH_PREFIX,
   dangerouslyAllowAllRemote: false,
+  presets: {},
+  presetsOnly: false,
+  signingSecret: '',
 };
 
 /**
@@ -76,6 +76,27 @@ describe('validateConfig', () => {
       validateConfig({ sizes: { deviceSizes: 'bad' as any } })
     ).toThrow(ConfigValidationError);
   });
+  test('accepts valid presets', () => {
+    const result = validateConfig({
+      presets: { avatar: { width: 96, height: 96, fit: 'cover', gravity: 'attention' } },
+      presetsOnly: true,
+    });
+    expect(result.presets.avatar.width).toBe(96);
+    expect(result.presetsOnly).toBe(true);
+    expect(validateConfig({}).presets).toEqual({});
+  });
+
+  test('rejects invalid presets', () => {
+    expect(() => validateConfig({ presets: { big: { width: 99999 } } })).toThrow('presets.big.width');
+    expect(() => validateConfig({ presets: { odd: { width: 100, fit: 'crop' as any } } })).toThrow('presets.odd.fit');
+    expect(() =>
+      validateConfig({ presets: { off: { width: 100, focalPoint: { x: 2, y: 0 } } } })
+    ).toThrow('presets.off.focalPoint');
+  });
+
+  test('rejects non-string signingSecret', () => {
+    expect(() => validateConfig({ signingSecret: 42 as any })).toThrow(ConfigValidationError);
+  });
 });
 
 describe('matchesRemotePattern', () => {
@@ -5,7 +5,16 @@
  */
 
 import type { ImagePluginConfig, RemotePattern } from '../components/types';
-import { DEFAULT_CONFIG, MAX_DIMENSION, SUPPORTED_OUTPUT_FORMATS } from './defaults';
+import {
+  DEFAULT_CONFIG,
+  MAX_DIMENSION,
+  DPR_VALUES,
+  SUPPORTED_OUTPUT_FORMATS,
+  FIT_MODES,
+  GRAVITIES,
+  ROTATIONS,
+  FLIPS,
+} from './defaults';
 
 /**
  * Validation error with details.
@@ -172,6 +181,71 @@ function validateSizes(sizes: unknown): ImagePluginConfig['sizes'] {
   return result;
 }
 
+/**
+ * Validate a size preset.
+ */
+function validatePreset(name: string, preset: unknown, maxDimension: number): void {
+  const field = `presets.${name}`;
+
+  if (typeof preset !== 'object' || preset === null) {
+    throw new ConfigValidationError('preset must be an object', field, preset);
+  }
+
+  const p = preset as Record<string, unknown>;
+  const checkDimension = (key: 'width' | 'height') => {
+    const value = p[key];
+    if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0 || value > maxDimension) {
+      throw new ConfigValidationError(
+        `${key} must be a positive integer <= ${maxDimension}`,
+        `${field}.${key}`,
+        value
+      );
+    }
+  };
+  const checkOneOf = (key: string, allowed: readonly unknown[]) => {
+    if (p[key] !== undefined && !allowed.includes(p[key])) {
+      throw new ConfigValidationError(
+        `${key} must be one of ${allowed.map((value) => JSON.stringify(value)).join(', ')}`,
+        `${field}.${key}`,
+        p[key]
+      );
+    }
+  };
+
+  checkDimension('width');
+  if (p.height !== undefined) checkDimension('height');
+
+  if (p.quality !== undefined) {
+    if (typeof p.quality !== 'number' || p.quality < 1 || p.quality > 100) {
+      throw new ConfigValidationError('quality must be between 1 and 100', `${field}.quality`, p.quality);
+    }
+  }
+
+  checkOneOf('fit', FIT_MODES);
+  checkOneOf('gravity', GRAVITIES);
+  checkOneOf('rotate', ROTATIONS);
+  checkOneOf('flip', FLIPS);
+  checkOneOf('format', ['auto', ...SUPPORTED_OUTPUT_FORMATS]);
+
+  if (p.focalPoint !== undefined) {
+    const point = p.focalPoint as Record<string, unknown> | null;
+    const inRange = (value: unknown) => typeof value === 'number' && value >= 0 && value <= 1;
+    if (typeof point !== 'object' || point === null || !inRange(point.x) || !inRange(point.y)) {
+      throw new ConfigValidationError(
+        'focalPoint must be { x, y } with values between 0 and 1',
+        `${field}.focalPoint`,
+        p.focalPoint
+      );
+    }
+  }
+
+  if (p.dpr !== undefined) {
+    if (!DPR_VALUES.includes(p.dpr as any)) {
+      throw new ConfigValidationError(`dpr must be one of ${DPR_VALUES.join(', ')}`, `${field}.dpr`, p.dpr);
+    }
+  }
+}
+
 /**
  * Validate and normalize plugin configuration.
  */
@@ -235,6 +309,26 @@ export function validateConfig(config: ImagePluginConfig = {}): Required<ImagePl
     }
   }
 
+  // Validate presets
+  if (config.presets !== undefined) {
+    if (typeof config.presets !== 'object' || config.presets === null || Array.isArray(config.presets)) {
+      throw new ConfigValidationError('presets must be an object', 'presets', config.presets);
+    }
+    const maxDimension = config.maxDimension ?? DEFAULT_CONFIG.maxDimension;
+    for (const [name, preset] of Object.entries(config.presets)) {
+      validatePreset(name, preset, maxDimension);
+    }
+  }
+
+  if (config.presetsOnly !== undefined && typeof config.presetsOnly !== 'boolean') {
+    throw new ConfigValidationError('presetsOnly must be a boolean', 'presetsOnly', config.presetsOnly);
+  }
+
+  // Validate signing secret
+  if (config.signingSecret !== undefined && typeof config.signingSecret !== 'string') {
+    throw new ConfigValidationError('signingSecret must be a string', 'signingSecret', config.signingSecret);
+  }
+
   // Validate cache dir
   if (config.cacheDir !== undefined) {
     if (typeof config.cacheDir !== 'string') {
@@ -39,7 +39,7 @@
 export { imagesPlugin as default, imagesPlugin } from './plugin';
 
 // Component exports
-export { Image, Picture } from './components/index';
+export { Image, Picture, buildImageUrl } from './components/index';
 
 // Type exports
 export type {
@@ -54,6 +54,12 @@ export type {
   ImageDecoding,
   ImageLoader,
   ImageLoaderParams,
+  ImageFit,
+  ImageGravity,
+  ImageFormat,
+  FocalPoint,
+  ImageTransformOptions,
+  ImagePreset,
   ImagePluginConfig,
   RemotePattern,
   ImageManifestEntry,
@@ -84,6 +90,7 @@ export { createManifestManager, ImageManifestManager } from './build/manifest';
 // Runtime utilities
 export { createImageMiddleware, imageMiddleware } from './runtime/middleware';
 export { MemoryCache, DiskCache, TwoTierCache, generateCacheKey } from './runtime/cache';
+export { signImageUrl, verifyImageUrl } from './runtime/signing';
 
 // Configuration utilities
 export { validateConfig, matchesRemotePattern, ConfigValidationError } from './config/schema';
@@ -17,6 +17,7 @@ import { createSharpProcessor, type SharpProcessor, type ImageMetadata } from '.
 import { generateBlurPlaceholder, type BlurPlaceholderResult } from './blur';
 import { extractDominantColor, type ColorExtractionResult } from './color';
 import { validateConfig } from '../config/schema';
+import { getTransformKey } from '../runtime/cache';
 import { SUPPORTED_INPUT_FORMATS, FORMAT_EXTENSIONS, getAllSizes } from '../config/defaults';
 
 /**
@@ -334,7 +335,7 @@ export class ImageProcessor {
   ): string {
     const src = typeof input === 'string' ? input : 'buffer';
     const inputHash = typeof input === 'string' ? input : this.hashBuffer(input);
-    return `${inputHash}:${params.width}:${params.height || ''}:${params.quality || ''}:${params.format || ''}`;
+    return `${inputHash}:${params.width}:${params.height || ''}:${params.quality || ''}:${params.format || ''}${getTransformKey(params)}`;
   }
 
   /**
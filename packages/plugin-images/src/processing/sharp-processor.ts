@@ -5,7 +5,7 @@
  */
 
 import sharp from 'sharp';
-import type { ProcessedImage, ImageOptimizationParams } from '../components/types';
+import type { ProcessedImage, ImageOptimizationParams, FocalPoint } from '../components/types';
 import { FORMAT_MIME_TYPES, DEFAULT_QUALITY, MAX_DIMENSION } from '../config/defaults';
 
 /**
@@ -35,6 +35,47 @@ export interface ImageMetadata {
   orientation?: number;
 }
 
+/**
+ * Region to extract after resizing.
+ */
+interface CropRegion {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Compute a cover crop centered on a focal point: the size to resize to,
+ * and the region of the resized image to keep. Never enlarges the image.
+ */
+function getFocalCrop(
+  sourceWidth: number,
+  sourceHeight: number,
+  width: number,
+  height: number,
+  focalPoint: FocalPoint
+): { width: number; height: number; region: CropRegion } {
+  const scale = Math.min(1, Math.max(width / sourceWidth, height / sourceHeight));
+  const resizedWidth = Math.max(1, Math.round(sourceWidth * scale));
+  const resizedHeight = Math.max(1, Math.round(sourceHeight * scale));
+  const cropWidth = Math.min(width, resizedWidth);
+  const cropHeight = Math.min(height, resizedHeight);
+
+  const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max);
+
+  return {
+    width: resizedWidth,
+    height: resizedHeight,
+    region: {
+      left: clamp(Math.round(focalPoint.x * resizedWidth - cropWidth / 2), resizedWidth - cropWidth),
+      top: clamp(Math.round(focalPoint.y * resizedHeight - cropHeight / 2), resizedHeight - cropHeight),
+      width: cropWidth,
+      height: cropHeight,
+    },
+  };
+}
+
 /**
  * Sharp-based image processor.
  */
@@ -59,7 +100,9 @@ export class SharpProcessor {
     input: Buffer | string,
     params: ImageOptimizationParams
   ): Promise<ProcessedImage> {
-    const { width, height, quality = this.quality, format = 'auto' } = params;
+    const { quality = this.quality, format = 'auto', gravity, focalPoint, rotate, flip, dpr = 1 } = params;
+    const width = Math.round(params.width * dpr);
+    const height = params.height ? Math.round(params.height * dpr) : undefined;
 
     // Validate dimensions
     if (width > this.maxDimension) {
@@ -69,29 +112,61 @@ export class SharpProcessor {
       throw new Error(`Height ${height} exceeds maximum dimension ${this.maxDimension}`);
     }
 
+    // Determine output format
+    let outputFormat: keyof sharp.FormatEnum;
+    if (format === 'auto') {
+      // Use WebP as default, fallback to original format
+      outputFormat = 'webp';
+    } else {
+      outputFormat = format as keyof sharp.FormatEnum;
+    }
+
     // Create sharp instance
     let image = sharp(input);
 
     // Get metadata
     const metadata = await image.metadata();
 
-    // Resize
-    const resizeOptions: sharp.ResizeOptions = {
-      width,
-      height: height || undefined,
-      fit: 'inside',
-      withoutEnlargement: true,
-    };
+    // Rotate and flip first, so width and height apply to the output orientation
+    if (rotate) {
+      image = image.rotate(rotate);
+    }
+    if (flip?.includes('h')) {
+      image = image.flop();
+    }
+    if (flip?.includes('v')) {
+      image = image.flip();
+    }
 
-    image = image.resize(resizeOptions);
+    // Cropping to a gravity or focal point implies 'cover'
+    const fit = params.fit ?? (gravity || focalPoint ? 'cover' : 'inside');
+    const sideways = rotate === 90 || rotate === 270;
+    const sourceWidth = sideways ? metadata.height : metadata.width;
+    const sourceHeight = sideways ? metadata.width : metadata.height;
 
-    // Determine output format
-    let outputFormat: keyof sharp.FormatEnum;
-    if (format === 'auto') {
-      // Use WebP as default, fallback to original format
-      outputFormat = 'webp';
+    if (fit === 'cover' && focalPoint && height && sourceWidth && sourceHeight) {
+      // Resize so the image covers the target, then keep the region around the focal point
+      const crop = getFocalCrop(sourceWidth, sourceHeight, width, height, focalPoint);
+      image = image.resize({ width: crop.width, height: crop.height, fit: 'fill' }).extract(crop.region);
     } else {
-      outputFormat = format as keyof sharp.FormatEnum;
+      const resizeOptions: sharp.ResizeOptions = {
+        width,
+        height: height || undefined,
+        fit,
+        withoutEnlargement: true,
+      };
+
+      if (fit === 'cover' && gravity) {
+        resizeOptions.position =
+          gravity === 'entropy' || gravity === 'attention' ? sharp.strategy[gravity] : gravity;
+      }
+      if (fit === 'contain') {
+        // JPEG has no alpha channel, so pad it with white instead of black
+        resizeOptions.background =
+          outputFormat === 'jpeg' ? { r: 255, g: 255, b: 255, alpha: 1 } : { r: 0, g: 0, b: 0, alpha: 0 };
+      }
+
+      image = image.resize(resizeOptions);
     }
 
     // Apply format-specific options
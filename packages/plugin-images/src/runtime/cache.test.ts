@@ -107,4 +107,14 @@ describe('generateCacheKey', () => {
     const key2 = generateCacheKey({ src: '/img.png', width: 100, format: 'avif' });
     expect(key1).not.toBe(key2);
   });
+
+  test('includes transformations in key', () => {
+    const plain = generateCacheKey({ src: '/img.png', width: 100, height: 100 });
+    const cover = generateCacheKey({ src: '/img.png', width: 100, height: 100, fit: 'cover' });
+    const focal = generateCacheKey({ src: '/img.png', width: 100, height: 100, fit: 'cover', focalPoint: { x: 0.2, y: 0.8 } });
+    const retina = generateCacheKey({ src: '/img.png', width: 100, height: 100, dpr: 2 });
+
+    expect(new Set([plain, cover, focal, retina]).size).toBe(4);
+    expect(generateCacheKey({ src: '/img.png', width: 100, height: 100, dpr: 1 })).toBe(plain);
+  });
 });
@@ -10,6 +10,7 @@ import { join, dirname } from 'node:path';
 import { createHash } from 'node:crypto';
 
 import type { CacheAdapter, CacheSetOptions } from '@ereo/core';
+import type { ImageTransformOptions } from '../components/types';
 
 /**
  * Cached item with metadata.
@@ -484,6 +485,21 @@ export class TwoTierCache {
   }
 }
 
+/**
+ * Cache key suffix for transformations. Empty when there are none, so
+ * plain resizes keep their keys.
+ */
+export function getTransformKey(params: Omit<ImageTransformOptions, 'format'>): string {
+  let key = '';
+  if (params.fit) key += `:fit${params.fit}`;
+  if (params.gravity) key += `:g${params.gravity}`;
+  if (params.focalPoint) key += `:fp${params.focalPoint.x},${params.focalPoint.y}`;
+  if (params.rotate) key += `:rot${params.rotate}`;
+  if (params.flip) key += `:flip${params.flip}`;
+  if (params.dpr && params.dpr !== 1) key += `:dpr${params.dpr}`;
+  return key;
+}
+
 /**
  * Generate a cache key for image optimization parameters.
  */
@@ -493,8 +509,8 @@ export function generateCacheKey(params: {
   height?: number;
   quality?: number;
   format?: string;
-}): string {
-  return `${params.src}:w${params.width}:h${params.height || ''}:q${params.quality || ''}:f${params.format || ''}`;
+} & Omit<ImageTransformOptions, 'format'>): string {
+  return `${params.src}:w${params.width}:h${params.height || ''}:q${params.quality || ''}:f${params.format || ''}${getTransformKey(params)}`;
 }
 
 // ============================================================================
@@ -3,12 +3,22 @@
  *
  * Tests for request parsing, source validation, and path traversal prevention.
  * These tests exercise the middleware's exported factory without requiring
- * a full image processor setup.
+ * a full image processor setup. Transform requests (crops, presets and signed
+ * URLs) run through the real middleware against a generated image.
  */
 
-import { describe, expect, test } from 'bun:test';
+import { describe, expect, test, beforeAll, afterAll } from 'bun:test';
+import { mkdtemp, mkdir, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import sharp from 'sharp';
+import { createContext } from '@ereo/core';
+import type { ImagePluginConfig } from '../components/types';
+import { buildImageUrl } from '../components/url';
 import { IMAGE_PATH_PREFIX, MAX_DIMENSION } from '../config/defaults';
 import { matchesRemotePattern } from '../config/schema';
+import { createImageMiddleware } from './middleware';
+import { signImageUrl } from './signing';
 
 // We test the public-facing concerns of the middleware:
 // query param parsing (via HTTP), source allowlisting, and path traversal.
@@ -111,3 +121,116 @@ describe('query parameter validation', () => {
     expect(result).toEqual({ src: '/img.png', width: 800 });
   });
 });
+
+describe('transform requests', () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), 'ereo-images-'));
+    await mkdir(join(root, 'public'));
+
+    // 400x200 image: red left half, blue right half
+    const red = await sharp({ create: { width: 200, height: 200, channels: 3, background: '#ff0000' } })
+      .png()
+      .toBuffer();
+    const image = await sharp({ create: { width: 400, height: 200, channels: 3, background: '#0000ff' } })
+      .composite([{ input: red, left: 0, top: 0 }])
+      .png()
+      .toBuffer();
+    await writeFile(join(root, 'public', 'photo.png'), image);
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  async function request(path: string, config: ImagePluginConfig = {}) {
+    const handler = createImageMiddleware({ root, config, cache: false });
+    const req = new Request(`http://localhost${path}`);
+    return handler(req, createContext(req), async () => new Response('next'));
+  }
+
+  async function describeImage(response: Response) {
+    const buffer = Buffer.from(await response.arrayBuffer());
+    const { width, height } = await sharp(buffer).metadata();
+    const { dominant } = await sharp(buffer).stats();
+    return { width, height, color: dominant.r > dominant.b ? 'red' : 'blue' };
+  }
+
+  test('crops to both dimensions with gravity', async () => {
+    const response = await request(
+      buildImageUrl({ src: '/photo.png', width: 100, height: 100, fit: 'cover', gravity: 'east', format: 'png' })
+    );
+
+    expect(response.status).toBe(200);
+    expect(await describeImage(response)).toEqual({ width: 100, height: 100, color: 'blue' });
+  });
+
+  test('crops around a focal point', async () => {
+    const response = await request(
+      buildImageUrl({ src: '/photo.png', width: 100, height: 100, focalPoint: { x: 0.1, y: 0.5 }, format: 'png' })
+    );
+
+    expect(await describeImage(response)).toEqual({ width: 100, height: 100, color: 'red' });
+  });
+
+  test('rotates before resizing and applies the DPR', async () => {
+    const response = await request(
+      buildImageUrl({ src: '/photo.png', width: 50, height: 50, fit: 'cover', focalPoint: { x: 0.5, y: 0.1 }, rotate: 90, dpr: 2, format: 'png' })
+    );
+
+    // Rotated clockwise, the red half is on top
+    expect(await describeImage(response)).toEqual({ width: 100, height: 100, color: 'red' });
+  });
+
+  test('rejects invalid transformations', async () => {
+    for (const query of ['fit=crop', 'g=up', 'fp=2,0', 'rot=45', 'flip=x', 'dpr=9', 'dpr=2.0001', 'dpr=4']) {
+      const response = await request(`/_ereo/image?src=%2Fphoto.png&w=100&${query}`);
+      expect(response.status).toBe(400);
+    }
+
+    const tooLarge = await request(`/_ereo/image?src=%2Fphoto.png&w=${MAX_DIMENSION}&dpr=2`);
+    expect(tooLarge.status).toBe(400);
+  });
+
+  describe('presets', () => {
+    const config: ImagePluginConfig = {
+      presets: { thumb: { width: 40, height: 40, fit: 'cover', gravity: 'west', format: 'png' } },
+      presetsOnly: true,
+    };
+
+    test('serves presets with an optional DPR', async () => {
+      const response = await request(buildImageUrl({ src: '/photo.png', width: 0, preset: 'thumb', dpr: 2 }), config);
+      expect(await describeImage(response)).toEqual({ width: 80, height: 80, color: 'red' });
+    });
+
+    test('rejects unknown presets and overridden sizes', async () => {
+      expect((await request('/_ereo/image?src=%2Fphoto.png&preset=hero', config)).status).toBe(400);
+      expect((await request('/_ereo/image?src=%2Fphoto.png&preset=thumb&w=2000', config)).status).toBe(400);
+    });
+
+    test('rejects other sizes when presetsOnly is set', async () => {
+      const response = await request('/_ereo/image?src=%2Fphoto.png&w=100', config);
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('signed URLs', () => {
+    const config: ImagePluginConfig = { signingSecret: 'test-secret' };
+
+    test('serves signed URLs', async () => {
+      const url = signImageUrl(buildImageUrl({ src: '/photo.png', width: 100, format: 'png' }), 'test-secret');
+      const response = await request(url, config);
+
+      expect(response.status).toBe(200);
+      expect((await describeImage(response)).width).toBe(100);
+    });
+
+    test('rejects unsigned and tampered URLs', async () => {
+      const url = signImageUrl(buildImageUrl({ src: '/photo.png', width: 100 }), 'test-secret');
+
+      expect((await request(buildImageUrl({ src: '/photo.png', width: 100 }), config)).status).toBe(403);
+      expect((await request(url.replace('w=100', 'w=3000'), config)).status).toBe(403);
+    });
+  });
+});
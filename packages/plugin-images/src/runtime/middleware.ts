@@ -7,9 +7,14 @@
 import { readFile, stat } from 'node:fs/promises';
 import { join, extname, resolve, normalize } from 'node:path';
 import type { AppContext, MiddlewareHandler } from '@ereo/core';
-import type { ImagePluginConfig, ImageOptimizationParams } from '../components/types';
+import type {
+  ImagePluginConfig,
+  ImageOptimizationParams,
+  ImageTransformOptions,
+} from '../components/types';
 import { createImageProcessor, type ImageProcessor } from '../processing/processor';
 import { TwoTierCache, generateCacheKey } from './cache';
+import { verifyImageUrl, SIGNATURE_PARAM } from './signing';
 import { validateConfig, matchesRemotePattern } from '../config/schema';
 import {
   IMAGE_PATH_PREFIX,
@@ -18,6 +23,11 @@ import {
   DEFAULT_QUALITY,
   FORMAT_MIME_TYPES,
   SUPPORTED_OUTPUT_FORMATS,
+  FIT_MODES,
+  GRAVITIES,
+  ROTATIONS,
+  FLIPS,
+  DPR_VALUES,
 } from '../config/defaults';
 
 /**
@@ -34,6 +44,81 @@ export interface ImageMiddlewareOptions {
   cacheDir?: string;
 }
 
+/**
+ * Query parameters a preset request may set besides the preset itself.
+ */
+const PRESET_PARAMS = new Set(['src', 'preset', 'dpr', 'f', SIGNATURE_PARAM]);
+
+/**
+ * Parse the output format. Unknown formats are ignored.
+ */
+function parseFormat(format: string | null): ImageOptimizationParams['format'] {
+  if (format) {
+    const f = format.toLowerCase();
+    if (f === 'auto' || SUPPORTED_OUTPUT_FORMATS.includes(f as any)) {
+      return f as ImageOptimizationParams['format'];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parse the device pixel ratio. Returns null unless it is one of DPR_VALUES.
+ */
+function parseDpr(dpr: string | null): number | undefined | null {
+  if (!dpr) {
+    return undefined;
+  }
+  const value = Number(dpr);
+  return DPR_VALUES.includes(value as any) ? value : null;
+}
+
+/**
+ * Parse fit, gravity, focal point, rotation, flip and DPR.
+ * Returns null when any of them is invalid.
+ */
+function parseTransformParams(search: URLSearchParams): ImageTransformOptions | null {
+  const transform: ImageTransformOptions = {};
+
+  const fit = search.get('fit');
+  if (fit) {
+    if (!FIT_MODES.includes(fit as any)) return null;
+    transform.fit = fit as ImageTransformOptions['fit'];
+  }
+
+  const gravity = search.get('g');
+  if (gravity) {
+    if (!GRAVITIES.includes(gravity as any)) return null;
+    transform.gravity = gravity as ImageTransformOptions['gravity'];
+  }
+
+  const focalPoint = search.get('fp');
+  if (focalPoint) {
+    const [x, y] = focalPoint.split(',').map(Number);
+    if (!(x >= 0 && x <= 1 && y >= 0 && y <= 1)) return null;
+    transform.focalPoint = { x, y };
+  }
+
+  const rotate = search.get('rot');
+  if (rotate) {
+    const degrees = Number(rotate);
+    if (!ROTATIONS.includes(degrees as any)) return null;
+    if (degrees !== 0) transform.rotate = degrees as ImageTransformOptions['rotate'];
+  }
+
+  const flip = search.get('flip');
+  if (flip) {
+    if (!FLIPS.includes(flip as any)) return null;
+    transform.flip = flip as ImageTransformOptions['flip'];
+  }
+
+  const dpr = parseDpr(search.get('dpr'));
+  if (dpr === null) return null;
+  if (dpr !== undefined && dpr !== 1) transform.dpr = dpr;
+
+  return transform;
+}
+
 /**
  * Parse and validate query parameters.
  */
@@ -73,16 +158,73 @@ function parseQueryParams(url: URL): ImageOptimizationParams | null {
     }
   }
 
-  if (format) {
-    const f = format.toLowerCase();
-    if (f === 'auto' || SUPPORTED_OUTPUT_FORMATS.includes(f as any)) {
-      params.format = f as ImageOptimizationParams['format'];
+  const f = parseFormat(format);
+  if (f) {
+    params.format = f;
+  }
+
+  const transform = parseTransformParams(url.searchParams);
+  if (!transform) {
+    return null;
+  }
+
+  return { ...params, ...transform };
+}
+
+/**
+ * Build the parameters of a preset request. Only `dpr` and `f` may be
+ * set besides the preset, so clients cannot create new variants.
+ */
+function parsePresetParams(
+  url: URL,
+  config: Required<ImagePluginConfig>
+): ImageOptimizationParams | string {
+  const name = url.searchParams.get('preset')!;
+  const src = url.searchParams.get('src');
+
+  if (!src) {
+    return 'Invalid parameters. Required: src';
+  }
+  if (!Object.prototype.hasOwnProperty.call(config.presets, name)) {
+    return `Unknown preset "${name}"`;
+  }
+  for (const key of url.searchParams.keys()) {
+    if (!PRESET_PARAMS.has(key)) {
+      return `Parameter "${key}" cannot be used with a preset`;
     }
   }
 
+  const dpr = parseDpr(url.searchParams.get('dpr'));
+  if (dpr === null) {
+    return `Invalid parameters. dpr must be one of ${DPR_VALUES.join(', ')}`;
+  }
+
+  const params: ImageOptimizationParams = { src, ...config.presets[name] };
+  if (dpr !== undefined) {
+    params.dpr = dpr;
+  }
+  const format = parseFormat(url.searchParams.get('f'));
+  if (format) {
+    params.format = format;
+  }
+
   return params;
 }
 
+/**
+ * Check that the output size, including the DPR, stays within maxDimension.
+ */
+function isWithinMaxDimension(
+  params: ImageOptimizationParams,
+  config: Required<ImagePluginConfig>
+): boolean {
+  const dpr = params.dpr ?? 1;
+  return (
+    Math.round(params.width * dpr) <= config.maxDimension &&
+    (!params.height || Math.round(params.height * dpr) <= config.maxDimension)
+  );
+}
+
 /**
  * Determine best output format based on Accept header.
  */
@@ -182,10 +324,33 @@ export function createImageMiddleware(options: ImageMiddlewareOptions) {
       return new Response('Method not allowed', { status: 405 });
     }
 
-    // Parse query parameters
-    const params = parseQueryParams(url);
-    if (!params) {
-      return new Response('Invalid parameters. Required: src, w', { status: 400 });
+    // Parse query parameters. Presets are always allowed; other sizes and
+    // transformations need a signature when signing is enabled.
+    let params: ImageOptimizationParams | null;
+    if (url.searchParams.has('preset')) {
+      const parsed = parsePresetParams(url, config);
+      if (typeof parsed === 'string') {
+        return new Response(parsed, { status: 400 });
+      }
+      params = parsed;
+    } else {
+      if (config.signingSecret || config.presetsOnly) {
+        if (!config.signingSecret) {
+          return new Response('Only preset sizes are allowed', { status: 403 });
+        }
+        if (!verifyImageUrl(url, config.signingSecret)) {
+          return new Response('Invalid signature', { status: 403 });
+        }
+      }
+
+      params = parseQueryParams(url);
+      if (!params) {
+        return new Response('Invalid parameters. Required: src, w', { status: 400 });
+      }
+    }
+
+    if (!isWithinMaxDimension(params, config)) {
+      return new Response(`Requested size exceeds ${config.maxDimension}px`, { status: 400 });
     }
 
     // Check if source is allowed
@@ -0,0 +1,42 @@
+/**
+ * @ereo/plugin-images - Signed URL Tests
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { signImageUrl, verifyImageUrl } from './signing';
+
+const SECRET = 'test-secret';
+
+describe('signImageUrl', () => {
+  test('keeps relative URLs relative', () => {
+    const signed = signImageUrl('/_ereo/image?src=%2Fhero.jpg&w=800', SECRET);
+    expect(signed).toMatch(/^\/_ereo\/image\?src=%2Fhero\.jpg&w=800&s=[\w-]+$/);
+  });
+
+  test('signatures verify regardless of parameter order', () => {
+    const signed = signImageUrl('/_ereo/image?w=800&src=%2Fhero.jpg&fit=cover', SECRET);
+    const url = new URL(signed, 'http://localhost');
+    const reordered = new URL(
+      `/_ereo/image?src=%2Fhero.jpg&fit=cover&w=800&s=${url.searchParams.get('s')}`,
+      'http://localhost'
+    );
+
+    expect(verifyImageUrl(url, SECRET)).toBe(true);
+    expect(verifyImageUrl(reordered, SECRET)).toBe(true);
+  });
+
+  test('rejects tampered URLs, other secrets and missing signatures', () => {
+    const url = new URL(signImageUrl('/_ereo/image?src=%2Fhero.jpg&w=800', SECRET), 'http://localhost');
+
+    const tampered = new URL(url);
+    tampered.searchParams.set('w', '3840');
+
+    expect(verifyImageUrl(tampered, SECRET)).toBe(false);
+    expect(verifyImageUrl(url, 'other-secret')).toBe(false);
+    expect(verifyImageUrl(new URL('http://localhost/_ereo/image?src=%2Fhero.jpg&w=800'), SECRET)).toBe(false);
+  });
+
+  test('requires a secret', () => {
+    expect(() => signImageUrl('/_ereo/image?src=%2Fhero.jpg&w=800', '')).toThrow('non-empty secret');
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * @ereo/plugin-images - Signed URLs
+ *
+ * HMAC signatures for transform URLs. With a `signingSecret` configured,
+ * the middleware only serves arbitrary sizes and transformations for URLs
+ * signed on the server, so clients cannot request unbounded variants.
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+/**
+ * Query parameter holding the signature.
+ */
+export const SIGNATURE_PARAM = 's';
+
+/**
+ * Build the string that is signed: the path and the sorted query
+ * parameters, without the signature itself.
+ */
+function getSignaturePayload(url: URL): string {
+  const params = [...url.searchParams.entries()]
+    .filter(([key]) => key !== SIGNATURE_PARAM)
+    .sort(([a, aValue], [b, bValue]) => (a === b ? aValue.localeCompare(bValue) : a.localeCompare(b)));
+
+  return `${url.pathname}?${new URLSearchParams(params).toString()}`;
+}
+
+/**
+ * Compute the signature of an image URL.
+ */
+function computeSignature(url: URL, secret: string): string {
+  return createHmac('sha256', secret).update(getSignaturePayload(url)).digest('base64url');
+}
+
+/**
+ * Sign an image URL.
+ *
+ * Relative URLs stay relative. Parameter order does not matter, so the
+ * URL can come from `buildImageUrl` or a custom loader.
+ *
+ * @example
+ * // In a loader (server only)
+ * const hero = signImageUrl(
+ *   buildImageUrl({ src: '/hero.jpg', width: 1600, height: 600, fit: 'cover' }),
+ *   process.env.IMAGE_SIGNING_SECRET!
+ * );
+ */
+export function signImageUrl(url: string, secret: string): string {
+  if (!secret) {
+    throw new Error('signImageUrl requires a non-empty secret');
+  }
+
+  const isRelative = url.startsWith('/');
+  const parsed = new URL(url, 'http://localhost');
+  parsed.searchParams.delete(SIGNATURE_PARAM);
+  parsed.searchParams.set(SIGNATURE_PARAM, computeSignature(parsed, secret));
+
+  return isRelative ? `${parsed.pathname}${parsed.search}` : parsed.toString();
+}
+
+/**
+ * Check the signature of an image request URL.
+ */
+export function verifyImageUrl(url: URL, secret: string): boolean {
+  const signature = url.searchParams.get(SIGNATURE_PARAM);
+  if (!signature || !secret) {
+    return false;
+  }
+
+  const expected = Buffer.from(computeSignature(url, secret));
+  const actual = Buffer.from(signature);
+
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -228,5 +228,51 @@ describe('FileRouter - Route Config Integration', () => {
       const paths = await router.getPrerenderPaths();
       expect(paths).toEqual([]);
     });
+
+    it('should expand generateStaticParams into paths', async () => {
+      const routes: Route[] = [
+        {
+          id: '/blog/[slug]',
+          path: '/blog/[slug]',
+          file: '/test/routes/blog/[slug].tsx',
+          config: { render: { mode: 'ssg', prerender: { enabled: true, paths: ['/blog/a'] } } },
+          module: {
+            default: () => null,
+            generateStaticParams: async () => [{ slug: 'a' }, { slug: 'b' }],
+          },
+        },
+      ];
+
+      (router as any).routes = routes;
+
+      const paths = await router.getPrerenderPaths();
+      expect(paths).toEqual(['/blog/a', '/blog/b']);
+    });
+
+    it('should include nested SSG routes', async () => {
+      const routes: Route[] = [
+        {
+          id: '/docs/_layout',
+          path: '/docs',
+          file: '/test/routes/docs/_layout.tsx',
+          layout: true,
+          module: { default: () => null },
+          children: [
+            {
+              id: '/docs/[page]',
+              path: '/docs/[page]',
+              file: '/test/routes/docs/[page].tsx',
+              config: { render: { mode: 'ssg', prerender: { enabled: true, paths: ['/docs/intro'] } } },
+              module: { default: () => null },
+            },
+          ],
+        },
+      ];
+
+      (router as any).routes = routes;
+
+      const paths = await router.getPrerenderPaths();
+      expect(paths).toEqual(['/docs/intro']);
+    });
   });
 });
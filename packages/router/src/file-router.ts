@@ -10,7 +10,7 @@ import { join, relative, extname } from 'node:path';
 import type { Route, RouteConfig } from '@ereo/core';
 import type { FileRoute, RouterOptions, RouterEvents } from './types';
 import { buildRouteTree, RouteTree } from './route-tree';
-import { createMatcher, RouteMatcher } from './matcher';
+import { createMatcher, generatePath, RouteMatcher } from './matcher';
 import { parseRouteConfig, mergeRouteConfigs } from './route-config';
 
 /** Normalize Windows backslashes to forward slashes for URL paths */
@@ -425,8 +425,8 @@ export class FileRouter {
    * Only loads modules for routes that don't already have configs.
    */
   async getRoutesWithConfig(): Promise<Route[]> {
-    // Only load modules for routes without configs
-    const loadPromises = this.routes.map(async (route) => {
+    // Only load modules for routes without configs (nested routes included)
+    const loadPromises = this.flattenRoutes(this.routes).map(async (route) => {
       if (!route.config && !route.module) {
         await this.loadModule(route);
       }
@@ -435,11 +435,25 @@ export class FileRouter {
     return this.routes;
   }
 
+  /**
+   * Flatten the nested route list into a single array.
+   */
+  private flattenRoutes(routes: Route[]): Route[] {
+    const result: Route[] = [];
+    for (const route of routes) {
+      result.push(route);
+      if (route.children) {
+        result.push(...this.flattenRoutes(route.children));
+      }
+    }
+    return result;
+  }
+
   /**
    * Find routes by render mode.
    */
   async findRoutesByRenderMode(mode: 'ssg' | 'ssr' | 'csr' | 'json' | 'xml'): Promise<Route[]> {
-    const routes = await this.getRoutesWithConfig();
+    const routes = this.flattenRoutes(await this.getRoutesWithConfig());
     return routes.filter((r) => r.config?.render?.mode === mode);
   }
 
@@ -447,26 +461,47 @@ export class FileRouter {
    * Find routes that require authentication.
    */
   async findProtectedRoutes(): Promise<Route[]> {
-    const routes = await this.getRoutesWithConfig();
+    const routes = this.flattenRoutes(await this.getRoutesWithConfig());
     return routes.filter((r) => r.config?.auth?.required);
   }
 
   /**
    * Get all prerender paths from routes with SSG config.
+   * Paths come from `prerender.paths` (when enabled) and from the
+   * route module's `generateStaticParams` export.
    */
   async getPrerenderPaths(): Promise<string[]> {
     const routes = await this.findRoutesByRenderMode('ssg');
     const paths: string[] = [];
 
     for (const route of routes) {
-      const prerender = route.config?.render?.prerender;
-      if (prerender?.enabled && prerender.paths) {
-        if (Array.isArray(prerender.paths)) {
-          paths.push(...prerender.paths);
-        } else if (typeof prerender.paths === 'function') {
-          const result = await prerender.paths();
-          paths.push(...(Array.isArray(result) ? result : []));
-        }
+      paths.push(...(await this.getPrerenderPathsForRoute(route)));
+    }
+
+    return [...new Set(paths)];
+  }
+
+  /**
+   * Resolve the prerender paths declared by a single SSG route.
+   */
+  async getPrerenderPathsForRoute(route: Route): Promise<string[]> {
+    const paths: string[] = [];
+    const prerender = route.config?.render?.prerender;
+
+    if (prerender?.enabled && prerender.paths) {
+      if (Array.isArray(prerender.paths)) {
+        paths.push(...prerender.paths);
+      } else if (typeof prerender.paths === 'function') {
+        const result = await prerender.paths();
+        paths.push(...(Array.isArray(result) ? result : []));
+      }
+    }
+
+    const generateStaticParams = route.module?.generateStaticParams;
+    if (typeof generateStaticParams === 'function') {
+      const paramsList = await generateStaticParams();
+      for (const params of Array.isArray(paramsList) ? paramsList : []) {
+        paths.push(generatePath(route.path, params));
       }
     }
 
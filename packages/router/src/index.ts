@@ -43,6 +43,7 @@ export {
   parsePathSegments,
   calculateRouteScore,
   patternToRegex,
+  generatePath,
 } from './matcher';
 
 // Middleware Chain
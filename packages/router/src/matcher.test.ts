@@ -5,6 +5,7 @@ import {
   patternToRegex,
   RouteMatcher,
   createMatcher,
+  generatePath,
 } from './matcher';
 import type { Route } from '@ereo/core';
 
@@ -224,4 +225,94 @@ describe('@ereo/router - Matcher', () => {
       expect(match?.params.path).toEqual(['dir', 'name%2Fwith%2Fslashes']);
     });
   });
+
+  describe('generatePath', () => {
+    test('fills dynamic segments', () => {
+      expect(generatePath('/blog/[slug]', { slug: 'hello world' })).toBe('/blog/hello%20world');
+    });
+
+    test('expands catch-all segments', () => {
+      expect(generatePath('/docs/[...path]', { path: ['a', 'b'] })).toBe('/docs/a/b');
+      expect(generatePath('/docs/[...path]', {})).toBe('/docs');
+    });
+
+    test('drops unfilled optional segments', () => {
+      expect(generatePath('/shop/[[category]]', {})).toBe('/shop');
+      expect(generatePath('/shop/[[category]]', { category: 'shoes' })).toBe('/shop/shoes');
+    });
+
+    test('throws for missing required params', () => {
+      expect(() => generatePath('/users/[id]', {})).toThrow('Missing param "id"');
+    });
+
+    test('returns root for the index pattern', () => {
+      expect(generatePath('/')).toBe('/');
+    });
+  });
+
+  describe('regex parity', () => {
+    // Reference implementation: linear scan over score-sorted regexes
+    function linearMatch(routes: Route[], pathname: string) {
+      const compiled = routes
+        .map((route) => {
+          const segments = parsePathSegments(route.path);
+          return { route, segments, regex: patternToRegex(segments), score: calculateRouteScore(segments) };
+        })
+        .sort((a, b) => b.score - a.score);
+
+      for (const { route, segments, regex } of compiled) {
+        const match = pathname.match(regex);
+        if (!match) continue;
+        const params: Record<string, string | string[]> = {};
+        let index = 1;
+        for (const segment of segments) {
+          if (!segment.paramName) continue;
+          const value = match[index++];
+          if (segment.type === 'catchAll' && value) params[segment.paramName] = value.split('/');
+          else if (value !== undefined) params[segment.paramName] = value;
+        }
+        return { id: route.id, params };
+      }
+      return null;
+    }
+
+    const patterns = [
+      '/', '/about', '/blog', '/blog/[slug]', '/blog/new', '/blog/[slug]/edit',
+      '/blog/[[page]]', '/docs/[...path]', '/docs/api', '/[lang]/docs/[...path]',
+      '/[[lang]]/about', '/shop/[category]/[item]', '/shop/[...rest]', '/[...all]',
+      '/users/[id]', '/users/[userId]/posts', '/users/me', '/a/[b]/[[c]]', '/x/[...y]/z',
+    ];
+    const routes: Route[] = patterns.map((path) => ({ id: path, path, file: `${path}.tsx` }));
+
+    const words = ['', 'about', 'blog', 'new', 'edit', 'docs', 'api', 'en', 'shop', 'users', 'me', 'a', 'x', 'z', '42'];
+    let seed = 7;
+    const random = () => {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647;
+    };
+
+    test('matches the same route and params as the linear regex matcher', () => {
+      const matcher = createMatcher(routes);
+      for (let i = 0; i < 2000; i++) {
+        const depth = Math.floor(random() * 5);
+        const parts = Array.from({ length: depth }, () => words[1 + Math.floor(random() * (words.length - 1))]);
+        const pathname = '/' + parts.join('/') + (depth > 0 && random() < 0.2 ? '/' : '');
+
+        const expected = linearMatch(routes, pathname);
+        const actual = matcher.match(pathname);
+        expect(actual ? { id: actual.route.id, params: actual.params } : null).toEqual(expected);
+      }
+    });
+
+    test('keeps priority after adding and removing routes', () => {
+      const matcher = createMatcher(routes.filter((r) => r.id !== '/blog/new'));
+      expect(matcher.match('/blog/new')?.route.id).toBe('/blog/[slug]');
+
+      matcher.addRoute({ id: '/blog/new', path: '/blog/new', file: 'new.tsx' });
+      expect(matcher.match('/blog/new')?.route.id).toBe('/blog/new');
+
+      matcher.removeRoute('/blog/new');
+      expect(matcher.match('/blog/new')?.route.id).toBe('/blog/[slug]');
+    });
+  });
 });
@@ -3,6 +3,8 @@
  *
  * Matches URLs against route patterns and extracts parameters.
  * Supports dynamic segments, catch-all, and optional segments.
+ * Routes are compiled into a segment trie, so matching cost depends on
+ * path depth rather than on the number of routes.
  */
 
 import type { Route, RouteParams, RouteMatch } from '@ereo/core';
@@ -144,48 +146,228 @@ export function matchRoute(
   route: Route,
   segments: RouteSegment[]
 ): RouteMatch | null {
-  const regex = patternToRegex(segments);
-  const match = pathname.match(regex);
+  const root = createTrieNode();
+  insertIntoTrie(root, { route, segments, score: 0, rank: 0 });
+  const found = searchTrie(root, pathname);
 
-  if (!match) {
+  if (!found) {
     return null;
   }
 
-  // Extract parameters
+  return {
+    route,
+    params: found.params,
+    pathname,
+  };
+}
+
+// ============================================================================
+// Segment Trie
+// ============================================================================
+
+/**
+ * A route compiled for matching.
+ */
+interface CompiledRoute {
+  route: Route;
+  segments: RouteSegment[];
+  score: number;
+  /** Position in priority order (lower wins) */
+  rank: number;
+}
+
+/**
+ * Segment trie node. Each edge consumes one pattern segment.
+ */
+interface TrieNode {
+  static: Map<string, TrieNode>;
+  dynamic: TrieNode | null;
+  optional: TrieNode | null;
+  catchAll: TrieNode | null;
+  /** Routes whose pattern ends at this node */
+  routes: CompiledRoute[];
+  /** Lowest rank of any route in this subtree (for pruning) */
+  minRank: number;
+}
+
+function createTrieNode(): TrieNode {
+  return {
+    static: new Map(),
+    dynamic: null,
+    optional: null,
+    catchAll: null,
+    routes: [],
+    minRank: Infinity,
+  };
+}
+
+/**
+ * Insert a compiled route into the trie.
+ */
+function insertIntoTrie(root: TrieNode, entry: CompiledRoute): void {
+  let node = root;
+  node.minRank = Math.min(node.minRank, entry.rank);
+
+  for (const segment of entry.segments) {
+    let next: TrieNode | null | undefined;
+    switch (segment.type) {
+      case 'static':
+        next = node.static.get(segment.raw);
+        if (!next) {
+          next = createTrieNode();
+          node.static.set(segment.raw, next);
+        }
+        break;
+      case 'dynamic':
+        next = node.dynamic ??= createTrieNode();
+        break;
+      case 'optional':
+        next = node.optional ??= createTrieNode();
+        break;
+      case 'catchAll':
+        next = node.catchAll ??= createTrieNode();
+        break;
+    }
+    node = next;
+    node.minRank = Math.min(node.minRank, entry.rank);
+  }
+
+  node.routes.push(entry);
+}
+
+/**
+ * Find the highest-priority route matching a pathname.
+ *
+ * Mirrors the regex semantics of `patternToRegex`: optional segments try to
+ * consume before skipping, catch-alls are greedy, and one trailing slash is
+ * allowed. When several routes match, the lowest rank wins.
+ */
+function searchTrie(
+  root: TrieNode,
+  pathname: string
+): { entry: CompiledRoute; params: RouteParams } | null {
+  if (!pathname.startsWith('/')) {
+    return null;
+  }
+
+  // '/a/b/' → ['a', 'b', ''] — an empty token can only be a trailing slash
+  const tokens = pathname.slice(1).split('/');
+  const captures: Array<string | string[] | undefined> = [];
+  let best: CompiledRoute | null = null;
+  let bestParams: RouteParams = {};
+
+  const visit = (node: TrieNode, index: number, depth: number): void => {
+    // Nothing below can beat the current best
+    if (best && node.minRank >= best.rank) return;
+
+    const atEnd = index === tokens.length || (index === tokens.length - 1 && tokens[index] === '');
+    if (atEnd) {
+      for (const entry of node.routes) {
+        if (!best || entry.rank < best.rank) {
+          best = entry;
+          bestParams = buildParams(entry.segments, captures);
+        }
+      }
+    }
+
+    if (index < tokens.length) {
+      const token = tokens[index];
+      const staticChild = token !== '' ? node.static.get(token) : undefined;
+      if (staticChild) {
+        captures[depth] = undefined;
+        visit(staticChild, index + 1, depth + 1);
+      }
+      if (token !== '' && node.dynamic) {
+        captures[depth] = token;
+        visit(node.dynamic, index + 1, depth + 1);
+      }
+      if (token !== '' && node.optional) {
+        captures[depth] = token;
+        visit(node.optional, index + 1, depth + 1);
+      }
+    }
+
+    if (node.optional) {
+      captures[depth] = undefined;
+      visit(node.optional, index, depth + 1);
+    }
+
+    if (node.catchAll) {
+      // Greedy: longest run of segments first
+      for (let end = tokens.length; end > index; end--) {
+        if (end === index + 1 && tokens[index] === '') continue;
+        captures[depth] = tokens.slice(index, end);
+        visit(node.catchAll, end, depth + 1);
+      }
+      captures[depth] = undefined;
+      visit(node.catchAll, index, depth + 1);
+    }
+  };
+
+  visit(root, 0, 0);
+
+  return best ? { entry: best, params: bestParams } : null;
+}
+
+/**
+ * Build route params from the values captured for each segment.
+ */
+function buildParams(
+  segments: RouteSegment[],
+  captures: Array<string | string[] | undefined>
+): RouteParams {
   const params: RouteParams = {};
-  let paramIndex = 1;
-
-  for (const segment of segments) {
-    if (segment.paramName) {
-      const value = match[paramIndex];
-      if (segment.type === 'catchAll' && value) {
-        // Split catch-all into array
-        params[segment.paramName] = value.split('/');
-      } else if (value !== undefined) {
-        params[segment.paramName] = value;
+  for (let i = 0; i < segments.length; i++) {
+    const name = segments[i].paramName;
+    const value = captures[i];
+    if (name && value !== undefined) {
+      params[name] = value;
+    }
+  }
+  return params;
+}
+
+/**
+ * Build a concrete URL path from a route pattern and params.
+ * The inverse of matching: `generatePath('/blog/[slug]', { slug: 'hello' })` → `/blog/hello`.
+ * Unfilled optional and catch-all segments are dropped; a missing required param throws.
+ */
+export function generatePath(pattern: string, params: RouteParams = {}): string {
+  const parts: string[] = [];
+
+  for (const segment of parsePathSegments(pattern)) {
+    if (segment.type === 'static') {
+      parts.push(segment.raw);
+      continue;
+    }
+
+    const value = params[segment.paramName!];
+    if (value === undefined || (Array.isArray(value) && value.length === 0)) {
+      if (segment.type === 'dynamic') {
+        throw new Error(`Missing param "${segment.paramName}" for route ${pattern}`);
       }
-      paramIndex++;
+      continue;
+    }
+
+    if (segment.type === 'catchAll') {
+      const values = Array.isArray(value) ? value : String(value).split('/');
+      parts.push(...values.map((v) => encodeURIComponent(v)));
+    } else {
+      parts.push(encodeURIComponent(Array.isArray(value) ? value[0] : value));
     }
   }
 
-  return {
-    route,
-    params,
-    pathname,
-  };
+  return '/' + parts.join('/');
 }
 
 /**
  * Route matcher class.
- * Pre-compiles routes for efficient matching.
+ * Pre-compiles routes into a segment trie for efficient matching.
  */
 export class RouteMatcher {
-  private routes: Array<{
-    route: Route;
-    segments: RouteSegment[];
-    regex: RegExp;
-    score: number;
-  }> = [];
+  /** Compiled routes in priority order */
+  private routes: CompiledRoute[] = [];
+  private root: TrieNode = createTrieNode();
 
   constructor(routes: Route[]) {
     this.compileRoutes(routes);
@@ -203,11 +385,24 @@ export class RouteMatcher {
         return {
           route,
           segments,
-          regex: patternToRegex(segments),
           score: calculateRouteScore(segments),
+          rank: 0,
         };
       })
       .sort((a, b) => b.score - a.score);
+
+    this.buildTrie();
+  }
+
+  /**
+   * Rebuild the trie from the sorted route list.
+   */
+  private buildTrie(): void {
+    this.root = createTrieNode();
+    this.routes.forEach((entry, index) => {
+      entry.rank = index;
+      insertIntoTrie(this.root, entry);
+    });
   }
 
   /**
@@ -246,34 +441,16 @@ export class RouteMatcher {
     // Collapse consecutive slashes (e.g., //admin///users → /admin/users)
     normalizedPath = normalizedPath.replace(/\/{2,}/g, '/');
 
-    for (const { route, segments, regex } of this.routes) {
-      const match = normalizedPath.match(regex);
-
-      if (match) {
-        const params: RouteParams = {};
-        let paramIndex = 1;
-
-        for (const segment of segments) {
-          if (segment.paramName) {
-            const value = match[paramIndex];
-            if (segment.type === 'catchAll' && value) {
-              params[segment.paramName] = value.split('/');
-            } else if (value !== undefined) {
-              params[segment.paramName] = value;
-            }
-            paramIndex++;
-          }
-        }
-
-        return {
-          route,
-          params,
-          pathname: normalizedPath,
-        };
-      }
+    const found = searchTrie(this.root, normalizedPath);
+    if (!found) {
+      return null;
     }
 
-    return null;
+    return {
+      route: found.entry.route,
+      params: found.params,
+      pathname: normalizedPath,
+    };
   }
 
   /**
@@ -288,11 +465,11 @@ export class RouteMatcher {
    */
   addRoute(route: Route): void {
     const segments = parsePathSegments(route.path);
-    const entry = {
+    const entry: CompiledRoute = {
       route,
       segments,
-      regex: patternToRegex(segments),
       score: calculateRouteScore(segments),
+      rank: 0,
     };
 
     // Insert in sorted order
@@ -302,6 +479,7 @@ export class RouteMatcher {
     } else {
       this.routes.splice(insertIndex, 0, entry);
     }
+    this.buildTrie();
   }
 
   /**
@@ -311,6 +489,7 @@ export class RouteMatcher {
     const index = this.routes.findIndex((r) => r.route.id === routeId);
     if (index !== -1) {
       this.routes.splice(index, 1);
+      this.buildTrie();
       return true;
     }
     return false;
@@ -21,6 +21,10 @@ export type {
   SubscriptionStatus,
 } from './src/hooks';
 
+// Query Cache
+export { getQueryKey, getQueryData, setQueryData, invalidateQueries } from './src/query-cache';
+export type { QueryProcedure, QueryUpdater, QueryCacheAccess } from './src/query-cache';
+
 // Server Functions (isomorphic — works on both client and server)
 export { createServerFn, ServerFnError, SERVER_FN_BASE } from './src/server-fn';
 export type {
@@ -0,0 +1,208 @@
+/**
+ * Tests for batched HTTP calls
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { createRouter, errors, type RouterOptions } from '../router';
+import { createClient, RPCClientError } from '../client';
+import { procedure } from '../procedure';
+
+function createApi(options?: RouterOptions) {
+  const calls: string[] = [];
+  const router = createRouter(
+    {
+      health: procedure.query(() => {
+        calls.push('health');
+        return { status: 'ok' };
+      }),
+      users: {
+        get: procedure.query({ parse: (d: unknown) => d as { id: string } }, ({ input }) => {
+          calls.push(`users.get:${input.id}`);
+          if (input.id === 'missing') throw errors.notFound('User not found');
+          return { id: input.id, joined: new Date(0) };
+        }),
+        create: procedure.mutation({ parse: (d: unknown) => d as { name: string } }, ({ input }) => {
+          calls.push('users.create');
+          return { id: '3', name: input.name };
+        }),
+      },
+    },
+    options
+  );
+  return { router, calls };
+}
+
+function batchRequest(body: unknown): Request {
+  return new Request('http://localhost/api/rpc', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('router batch requests', () => {
+  test('runs every call and returns results in order', async () => {
+    const { router } = createApi();
+    const response = await router.handler(
+      batchRequest([
+        { path: ['health'], type: 'query' },
+        { path: ['users', 'get'], type: 'query', input: { id: 'missing' } },
+        { path: ['users', 'create'], type: 'mutation', input: { name: 'Ada' } },
+        { path: ['nope'], type: 'query' },
+      ]),
+      {}
+    );
+
+    expect(response.status).toBe(200);
+    const results = await response.json();
+    expect(results).toHaveLength(4);
+    expect(results[0]).toEqual({ ok: true, data: { status: 'ok' } });
+    expect(results[1]).toEqual({ ok: false, error: { code: 'NOT_FOUND', message: 'User not found' } });
+    expect(results[2]).toEqual({ ok: true, data: { id: '3', name: 'Ada' } });
+    expect(results[3].error.code).toBe('NOT_FOUND');
+  });
+
+  test('runs calls concurrently', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const router = createRouter({
+      slow: procedure.query(async () => {
+        maxRunning = Math.max(maxRunning, ++running);
+        await new Promise((r) => setTimeout(r, 5));
+        running--;
+        return null;
+      }),
+    });
+
+    await router.handler(batchRequest([{ path: ['slow'], type: 'query' }, { path: ['slow'], type: 'query' }]), {});
+    expect(maxRunning).toBe(2);
+  });
+
+  test('rejects batches over the limit', async () => {
+    const { router, calls } = createApi({ batch: { maxSize: 2 } });
+    const response = await router.handler(batchRequest(Array(3).fill({ path: ['health'], type: 'query' })), {});
+
+    expect(response.status).toBe(413);
+    expect((await response.json()).error.code).toBe('BATCH_TOO_LARGE');
+    expect(calls).toEqual([]);
+  });
+
+  test('rejects empty batches', async () => {
+    const { router } = createApi();
+    const response = await router.handler(batchRequest([]), {});
+    expect(response.status).toBe(400);
+  });
+
+  test('rejects batches when disabled', async () => {
+    const { router } = createApi({ batch: false });
+    const response = await router.handler(batchRequest([{ path: ['health'], type: 'query' }]), {});
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.code).toBe('BATCH_DISABLED');
+  });
+
+  test('reports malformed calls individually', async () => {
+    const { router } = createApi();
+    const response = await router.handler(batchRequest([null, { path: ['health'], type: 'query' }]), {});
+    const results = await response.json();
+
+    expect(results[0].error.code).toBe('PARSE_ERROR');
+    expect(results[1].ok).toBe(true);
+  });
+});
+
+describe('client batching', () => {
+  function setup(options?: RouterOptions, maxSize?: number) {
+    const { router, calls } = createApi(options);
+    const requests: Request[] = [];
+    const client = createClient<typeof router>({
+      httpEndpoint: 'http://localhost/api/rpc',
+      batch: maxSize ? { maxSize } : true,
+      fetch: (async (input: RequestInfo | URL, init?: RequestInit) => {
+        const request = new Request(input, init);
+        requests.push(request.clone());
+        return router.handler(request, {});
+      }) as typeof fetch,
+    });
+    return { client, requests, calls };
+  }
+
+  test('sends calls made in the same tick as one request', async () => {
+    const { client, requests } = setup();
+
+    const [health, user, created] = await Promise.all([
+      client.health.query(),
+      client.users.get.query({ id: '1' }),
+      client.users.create.mutate({ name: 'Ada' }),
+    ]);
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].method).toBe('POST');
+    expect(await requests[0].json()).toHaveLength(3);
+    expect(health).toEqual({ status: 'ok' });
+    expect(user.joined).toBeInstanceOf(Date);
+    expect(created.name).toBe('Ada');
+  });
+
+  test('rejects only the failing calls', async () => {
+    const { client } = setup();
+
+    const [ok, missing] = await Promise.allSettled([
+      client.users.get.query({ id: '1' }),
+      client.users.get.query({ id: 'missing' }),
+    ]);
+
+    expect(ok.status).toBe('fulfilled');
+    expect(missing.status).toBe('rejected');
+    const error = (missing as PromiseRejectedResult).reason;
+    expect(error).toBeInstanceOf(RPCClientError);
+    expect(error.code).toBe('NOT_FOUND');
+    expect(error.path).toBe('users.get');
+  });
+
+  test('deduplicates identical in-flight queries', async () => {
+    const { client, requests, calls } = setup();
+
+    const results = await Promise.all([
+      client.users.get.query({ id: '1' }),
+      client.users.get.query({ id: '1' }),
+      client.users.get.query({ id: '2' }),
+    ]);
+
+    expect(calls).toEqual(['users.get:1', 'users.get:2']);
+    expect(results[0]).toBe(results[1]);
+    expect(await requests[0].json()).toHaveLength(2);
+
+    // Settled queries are not reused
+    await client.users.get.query({ id: '1' });
+    expect(calls).toEqual(['users.get:1', 'users.get:2', 'users.get:1']);
+  });
+
+  test('does not deduplicate mutations', async () => {
+    const { client, calls } = setup();
+    await Promise.all([client.users.create.mutate({ name: 'Ada' }), client.users.create.mutate({ name: 'Ada' })]);
+    expect(calls).toEqual(['users.create', 'users.create']);
+  });
+
+  test('sends a lone call as a normal request', async () => {
+    const { client, requests } = setup();
+    await client.health.query();
+
+    expect(requests[0].method).toBe('GET');
+  });
+
+  test('splits batches at maxSize', async () => {
+    const { client, requests } = setup(undefined, 2);
+    await Promise.all(['1', '2', '3', '4', '5'].map((id) => client.users.get.query({ id })));
+
+    expect(requests).toHaveLength(3);
+  });
+
+  test('rejects every call when the server refuses the batch', async () => {
+    const { client } = setup({ batch: false });
+
+    const results = await Promise.allSettled([client.health.query(), client.users.get.query({ id: '1' })]);
+    expect(results.map((r) => r.status)).toEqual(['rejected', 'rejected']);
+    expect((results[0] as PromiseRejectedResult).reason.code).toBe('BATCH_DISABLED');
+  });
+});
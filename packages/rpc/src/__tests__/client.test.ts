@@ -183,6 +183,17 @@ describe('createClient', () => {
       expect(result).toEqual({ id: '1', name: 'John' });
     });
 
+    test('builds query URLs without a usable origin', async () => {
+      // Sandboxed iframes and file: pages report an opaque "null" origin
+      (globalThis as any).window = { location: { origin: 'null' } };
+
+      await createClient<TestRouter>('/api/rpc').health.query();
+      await createClient<TestRouter>('/api/rpc?v=2').health.query();
+
+      expect(mockFetch.mock.calls[0][0]).toBe('http://localhost/api/rpc?path=health');
+      expect(mockFetch.mock.calls[1][0]).toBe('http://localhost/api/rpc?v=2&path=health');
+    });
+
     test('throws error on failed query', async () => {
       mockFetch.mockImplementation(() =>
         Promise.resolve(new Response(JSON.stringify({
@@ -494,8 +505,8 @@ describe('createClient', () => {
   // ===========================================================================
 
   describe('subscriptions', () => {
-    test('fails subscribe when no wsEndpoint configured', () => {
-      const client = createClient<TestRouter>({ httpEndpoint: '/api/rpc' });
+    test('fails WebSocket subscribe when no wsEndpoint configured', () => {
+      const client = createClient<TestRouter>({ httpEndpoint: '/api/rpc', subscriptionTransport: 'websocket' });
 
       const errorSpy = mock(() => {});
 
@@ -6,6 +6,7 @@ import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
 import { createRouter, errors, RPCError } from '../router';
 import { procedure } from '../procedure';
 import { rpcPlugin } from '../plugin';
+import { createClient } from '../client';
 import type { BaseContext } from '../types';
 
 describe('integration: full RPC flow', () => {
@@ -319,6 +320,29 @@ describe('integration: full RPC flow', () => {
   });
 });
 
+describe('integration: rich data serialization', () => {
+  test('dates, maps, sets and bigints survive the HTTP round trip', async () => {
+    const createdAt = new Date('2024-01-01T00:00:00.000Z');
+    const api = createRouter({
+      report: procedure.query(() => ({
+        createdAt,
+        totals: new Map([['views', 10n]]),
+        tags: new Set(['a', 'b']),
+      })),
+    });
+
+    const client = createClient<typeof api>({
+      httpEndpoint: 'http://localhost/rpc',
+      fetch: ((input: RequestInfo | URL, init?: RequestInit) => api.handler(new Request(input, init), {})) as typeof fetch,
+    });
+
+    const report = await client.report.query();
+    expect(report.createdAt).toEqual(createdAt);
+    expect(report.totals.get('views')).toBe(10n);
+    expect(report.tags).toEqual(new Set(['a', 'b']));
+  });
+});
+
 describe('integration: subscription flow', () => {
   test('subscription yields values', async () => {
     const api = createRouter({
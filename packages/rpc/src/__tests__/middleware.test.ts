@@ -8,6 +8,7 @@ import {
   rateLimit,
   createAuthMiddleware,
   requireRoles,
+  requirePermission,
   validate,
   extend,
   timing,
@@ -331,6 +332,55 @@ describe('requireRoles middleware', () => {
   });
 });
 
+describe('requirePermission middleware', () => {
+  // App context with an auth context like the one @ereo/auth adds
+  const appContext = (permissions: string[]) => {
+    const auth = { can: (permission: string) => permissions.includes(permission) };
+    return { get: (key: string) => (key === 'auth' ? auth : undefined) };
+  };
+
+  test('allows user with every required permission', async () => {
+    const middleware = requirePermission(['posts:read', 'posts:write']);
+
+    const ctx = {
+      ctx: appContext(['posts:read', 'posts:write']),
+      request: new Request('http://localhost/test'),
+    };
+
+    const result = await runMiddleware(middleware, ctx);
+
+    expect(result.ok).toBe(true);
+  });
+
+  test('blocks user missing a permission', async () => {
+    const middleware = requirePermission('posts:write', { message: 'Writers only' });
+
+    const ctx = {
+      ctx: appContext(['posts:read']),
+      request: new Request('http://localhost/test'),
+    };
+
+    const result = await runMiddleware(middleware, ctx);
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe('FORBIDDEN');
+      expect(result.error.message).toBe('Writers only');
+    }
+  });
+
+  test('blocks when there is no auth context', async () => {
+    const middleware = requirePermission('posts:read');
+
+    const result = await runMiddleware(middleware, {
+      ctx: {},
+      request: new Request('http://localhost/test'),
+    });
+
+    expect(result.ok).toBe(false);
+  });
+});
+
 describe('validate middleware', () => {
   test('passes when validation succeeds', async () => {
     const middleware = validate(async (ctx) => ({ ok: true }));
@@ -75,6 +75,31 @@ describe('rpcPlugin', () => {
       expect(data.data).toEqual({ status: 'ok' });
     });
 
+    test('middleware handles procedures addressed by URL when enabled', async () => {
+      const router = createTestRouter();
+      const plugin = rpcPlugin({ router, endpoint: '/api/rpc', procedureUrls: true });
+      const middleware = plugin.runtimeMiddleware![0];
+
+      const request = new Request('http://localhost/api/rpc/users.list');
+      const next = mock(() => Promise.resolve(new Response('next')));
+
+      const response = await middleware(request, {}, next);
+      const data = await response.json();
+
+      expect(next).not.toHaveBeenCalled();
+      expect(data).toEqual({ ok: true, data: [] });
+    });
+
+    test('middleware does not serve procedure URLs by default', async () => {
+      const plugin = rpcPlugin({ router: createTestRouter(), endpoint: '/api/rpc' });
+      const next = mock(() => Promise.resolve(new Response('next')));
+
+      const response = await plugin.runtimeMiddleware![0](new Request('http://localhost/api/rpc/users.list'), {}, next);
+
+      expect(next).toHaveBeenCalledTimes(1);
+      expect(await response.text()).toBe('next');
+    });
+
     test('middleware passes through non-RPC requests', async () => {
       const router = createTestRouter();
       const plugin = rpcPlugin({ router, endpoint: '/api/rpc' });
@@ -6,6 +6,27 @@ import { describe, test, expect } from 'bun:test';
 import { procedure, query, mutation, subscription, executeMiddleware } from '../procedure';
 import type { BaseContext, MiddlewareResult } from '../types';
 
+describe('procedure documentation', () => {
+  test('output() and meta() attach documentation to procedures', () => {
+    const outputSchema = { parse: (v: unknown) => v as { id: string } };
+    const getUser = procedure
+      .output(outputSchema)
+      .meta({ summary: 'Get a user', tags: ['users'] })
+      .query(() => ({ id: '1' }));
+
+    expect(getUser.outputSchema).toBe(outputSchema);
+    expect(getUser.meta).toEqual({ summary: 'Get a user', tags: ['users'] });
+  });
+
+  test('documentation carries through use() and is not shared between builders', () => {
+    const documented = procedure.meta({ deprecated: true });
+    const authed = documented.use(async ({ ctx, next }) => next(ctx));
+
+    expect(authed.mutation(() => null).meta).toEqual({ deprecated: true });
+    expect(procedure.query(() => null).meta).toBeUndefined();
+  });
+});
+
 describe('procedure builder', () => {
   const mockRequest = new Request('http://localhost/test');
   const mockContext: BaseContext = {
@@ -0,0 +1,171 @@
+/**
+ * Tests for the query cache and optimistic mutations
+ */
+
+import { describe, test, expect, beforeEach, afterEach, mock } from 'bun:test';
+import { createElement } from 'react';
+import { renderToString } from 'react-dom/server.browser';
+import { createClient } from '../client';
+import { useMutation, type UseMutationOptions, type UseMutationResult } from '../hooks';
+import {
+  getQueryKey,
+  getQueryData,
+  setQueryData,
+  invalidateQueries,
+  registerQueryRefetch,
+  subscribeQuery,
+  clearQueryCache,
+} from '../query-cache';
+import type { Router } from '../types';
+
+type Post = { id: string; title: string };
+
+type TestRouter = Router<{
+  posts: {
+    list: { _type: 'query'; _ctx: any; _input: void; _output: Post[] };
+    get: { _type: 'query'; _ctx: any; _input: { id: string }; _output: Post };
+    create: { _type: 'mutation'; _ctx: any; _input: { title: string }; _output: Post };
+  };
+}>;
+
+const originalFetch = globalThis.fetch;
+
+function createTestClient() {
+  return createClient<TestRouter>({ httpEndpoint: 'http://localhost/api/rpc' });
+}
+
+/** Render useMutation and return its result, so mutateAsync can be called outside React */
+function renderMutation<TContext>(
+  options: UseMutationOptions<Post, { title: string }, TContext>
+): UseMutationResult<{ title: string }, Post> {
+  const rpc = createTestClient();
+  let result!: UseMutationResult<{ title: string }, Post>;
+  function Capture() {
+    result = useMutation(rpc.posts.create, options);
+    return null;
+  }
+  renderToString(createElement(Capture));
+  return result;
+}
+
+beforeEach(() => {
+  clearQueryCache();
+});
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+describe('query cache', () => {
+  test('keys client procedures by path and input', () => {
+    const rpc = createTestClient();
+
+    expect(getQueryKey(rpc.posts.list)).toBe('posts.list:');
+    expect(getQueryKey(rpc.posts.get, { id: '1' })).toBe('posts.get:{"id":"1"}');
+    expect(getQueryKey({ query: async () => null })).toBeUndefined();
+  });
+
+  test('setQueryData updates data and notifies readers', () => {
+    const rpc = createTestClient();
+    const listener = mock(() => {});
+    subscribeQuery('posts.list:', listener);
+
+    setQueryData(rpc.posts.list, [{ id: '1', title: 'First' }]);
+    setQueryData(rpc.posts.list, (posts = []) => [...posts, { id: '2', title: 'Second' }]);
+
+    expect(getQueryData(rpc.posts.list)).toHaveLength(2);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  test('invalidateQueries refetches every input or one input', async () => {
+    const rpc = createTestClient();
+    const first = mock(async () => {});
+    const second = mock(async () => {});
+    registerQueryRefetch(getQueryKey(rpc.posts.get, { id: '1' })!, first);
+    registerQueryRefetch(getQueryKey(rpc.posts.get, { id: '2' })!, second);
+
+    await invalidateQueries(rpc.posts.get);
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(1);
+
+    await invalidateQueries(rpc.posts.get, { id: '2' });
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('useMutation optimistic updates', () => {
+  const draft = { title: 'Draft' };
+  const existing: Post[] = [{ id: '1', title: 'First' }];
+
+  function optimisticOptions(onError = mock(() => {})): UseMutationOptions<Post, { title: string }, Post[] | undefined> {
+    const rpc = createTestClient();
+    return {
+      onMutate: (input, cache) => {
+        const previous = cache.getQueryData(rpc.posts.list);
+        cache.setQueryData(rpc.posts.list, (posts = []) => [...posts, { id: 'temp', ...input }]);
+        return previous;
+      },
+      onError,
+    };
+  }
+
+  test('applies onMutate updates before the mutation resolves', async () => {
+    const rpc = createTestClient();
+    setQueryData(rpc.posts.list, existing);
+    let respond!: (response: Response) => void;
+    globalThis.fetch = mock(() => new Promise<Response>((resolve) => { respond = resolve; })) as any;
+
+    const mutation = renderMutation(optimisticOptions());
+    const pending = mutation.mutateAsync(draft);
+    await Promise.resolve();
+
+    expect(getQueryData(rpc.posts.list)).toEqual([...existing, { id: 'temp', title: 'Draft' }]);
+
+    respond(Response.json({ ok: true, data: { id: '2', title: 'Draft' } }));
+    expect(await pending).toEqual({ id: '2', title: 'Draft' });
+  });
+
+  test('refetches touched queries after success', async () => {
+    const rpc = createTestClient();
+    setQueryData(rpc.posts.list, existing);
+    const refetch = mock(async () => {});
+    registerQueryRefetch(getQueryKey(rpc.posts.list)!, refetch);
+    globalThis.fetch = mock(async () => Response.json({ ok: true, data: { id: '2', title: 'Draft' } })) as any;
+
+    await renderMutation(optimisticOptions()).mutateAsync(draft);
+
+    expect(refetch).toHaveBeenCalledTimes(1);
+  });
+
+  test('rolls back cache updates when the mutation fails', async () => {
+    const rpc = createTestClient();
+    setQueryData(rpc.posts.list, existing);
+    globalThis.fetch = mock(async () =>
+      Response.json({ ok: false, error: { code: 'BAD_REQUEST', message: 'Title taken' } }, { status: 400 })
+    ) as any;
+    const onError = mock(() => {});
+
+    await expect(renderMutation(optimisticOptions(onError)).mutateAsync(draft)).rejects.toThrow('Title taken');
+
+    expect(getQueryData(rpc.posts.list)).toEqual(existing);
+    expect(onError).toHaveBeenCalledWith(expect.any(Error), draft, existing);
+  });
+
+  test('rolls back when onMutate throws', async () => {
+    const rpc = createTestClient();
+    setQueryData(rpc.posts.list, existing);
+    globalThis.fetch = mock(async () => Response.json({ ok: true, data: null })) as any;
+
+    const mutation = renderMutation({
+      onMutate: (_input, cache) => {
+        cache.setQueryData(rpc.posts.list, []);
+        throw new Error('Invalid draft');
+      },
+    });
+
+    await expect(mutation.mutateAsync(draft)).rejects.toThrow('Invalid draft');
+    expect(getQueryData(rpc.posts.list)).toEqual(existing);
+    expect(globalThis.fetch).not.toHaveBeenCalled();
+  });
+});
@@ -378,3 +378,53 @@ describe('error factories', () => {
     expect(error.status).toBe(400);
   });
 });
+
+describe('procedureHandler', () => {
+  const router = createRouter({
+    users: {
+      get: procedure.query({ parse: (d: unknown) => d as { id: string } }, ({ input }) => ({ id: input.id })),
+      create: procedure.mutation({ parse: (d: unknown) => d as { name: string } }, ({ input }) => ({ name: input.name })),
+    },
+  });
+
+  test('calls a query with input from the query string', async () => {
+    const input = encodeURIComponent(JSON.stringify({ id: '7' }));
+    const response = await router.procedureHandler(
+      new Request(`http://localhost/api/rpc/users.get?input=${input}`),
+      {},
+      ['users', 'get']
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ ok: true, data: { id: '7' } });
+  });
+
+  test('calls queries and mutations with the JSON body as input', async () => {
+    const post = (path: string[], body: unknown) =>
+      router.procedureHandler(
+        new Request(`http://localhost/api/rpc/${path.join('.')}`, { method: 'POST', body: JSON.stringify(body) }),
+        {},
+        path
+      );
+
+    expect(await (await post(['users', 'create'], { name: 'Ada' })).json()).toEqual({ ok: true, data: { name: 'Ada' } });
+    expect(await (await post(['users', 'get'], { id: '1' })).json()).toEqual({ ok: true, data: { id: '1' } });
+  });
+
+  test('rejects mutations over GET and malformed input', async () => {
+    const getMutation = await router.procedureHandler(
+      new Request('http://localhost/api/rpc/users.create'),
+      {},
+      ['users', 'create']
+    );
+    expect(getMutation.status).toBe(400);
+
+    const malformed = await router.procedureHandler(
+      new Request('http://localhost/api/rpc/users.get?input={'),
+      {},
+      ['users', 'get']
+    );
+    expect(malformed.status).toBe(400);
+    expect((await malformed.json()).error.code).toBe('PARSE_ERROR');
+  });
+});
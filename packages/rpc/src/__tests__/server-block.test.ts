@@ -9,6 +9,7 @@ import {
   buildCacheMiddleware,
   buildCorsMiddleware,
   buildAuthMiddleware,
+  buildPermissionMiddleware,
   compileConfigMiddleware,
   clearServerFnRateLimitStore,
   _resetIdCounter,
@@ -556,6 +557,41 @@ describe('buildAuthMiddleware', () => {
   });
 });
 
+// =============================================================================
+// buildPermissionMiddleware
+// =============================================================================
+
+describe('buildPermissionMiddleware', () => {
+  // App context with an auth context like the one @ereo/auth adds
+  const appContext = (permissions: string[]) => {
+    const auth = { can: (permission: string) => permissions.includes(permission) };
+    return { get: (key: string) => (key === 'auth' ? auth : undefined) };
+  };
+
+  test('allows request when every permission is granted', async () => {
+    const mw = buildPermissionMiddleware(['posts:create']);
+    const ctx = makeCtx({ appContext: appContext(['posts:create']) });
+
+    const result = await mw(ctx, async () => 'created');
+    expect(result).toBe('created');
+  });
+
+  test('throws FORBIDDEN when a permission is missing or there is no auth context', async () => {
+    const mw = buildPermissionMiddleware(['posts:create', 'posts:publish']);
+
+    for (const ctx of [makeCtx({ appContext: appContext(['posts:create']) }), makeCtx()]) {
+      try {
+        await mw(ctx, async () => 'fail');
+        expect.unreachable('should have thrown');
+      } catch (err) {
+        expect(err).toBeInstanceOf(ServerFnError);
+        expect((err as ServerFnError).code).toBe('FORBIDDEN');
+        expect((err as ServerFnError).statusCode).toBe(403);
+      }
+    }
+  });
+});
+
 // =============================================================================
 // compileConfigMiddleware
 // =============================================================================
@@ -591,6 +627,9 @@ describe('compileConfigMiddleware', () => {
 
     const mw3 = compileConfigMiddleware({ cors: { origins: '*' }, auth: { getUser: () => null } });
     expect(mw3.length).toBe(2);
+
+    const mw4 = compileConfigMiddleware({ permissions: ['posts:create'] });
+    expect(mw4.length).toBe(1);
   });
 });
 
@@ -871,6 +910,16 @@ describe('createServerBlock', () => {
     expect(api.createUser._id).toContain('createUser');
   });
 
+  test('prefixes function IDs with the block id', () => {
+    const api = createServerBlock({ id: 'routes/admin#api' }, {
+      getUsers: async () => [],
+      deleteUser: { handler: async () => true, id: 'delete-user' },
+    });
+
+    expect(api.getUsers._id).toBe('routes/admin#api.getUsers');
+    expect(api.deleteUser._id).toBe('delete-user');
+  });
+
   test('registers all functions in global registry', () => {
     createServerBlock({}, {
       fn1: async () => 'a',
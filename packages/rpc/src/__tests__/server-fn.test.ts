@@ -286,6 +286,33 @@ describe('createServerFn', () => {
     });
   });
 
+  describe('build-assigned ids', () => {
+    test('accepts a handler alone when the build passes the id', () => {
+      // The bundler rewrites createServerFn(handler) to createServerFn(id, handler)
+      const fn = (createServerFn as any)('routes/users#getUser', async (id: string) => id);
+      expect(fn._id).toBe('routes/users#getUser');
+      expect(getServerFn('routes/users#getUser')).toBeDefined();
+    });
+
+    test('accepts an options object after the build-assigned id', async () => {
+      const options = { handler: async (n: number) => n * 2 };
+      const fn = (createServerFn as any)('routes/math#double', options);
+
+      expect(fn._id).toBe('routes/math#double');
+      expect(await fn(21)).toBe(42);
+    });
+
+    test('prefers an explicit id in the options', () => {
+      const fn = (createServerFn as any)('routes/math#triple', { id: 'triple', handler: async () => 3 });
+      expect(fn._id).toBe('triple');
+    });
+
+    test('throws when no id was passed or assigned', () => {
+      expect(() => createServerFn(async () => 1)).toThrow('createServerFn: missing id');
+      expect(() => createServerFn({ handler: async () => 1 })).toThrow('createServerFn: missing id');
+    });
+  });
+
   describe('URL encoding', () => {
     test('encodes special characters in function ID', () => {
       const fn = createServerFn('my/special fn', async () => 'ok');
@@ -0,0 +1,229 @@
+/**
+ * Tests for subscriptions over Server-Sent Events
+ */
+
+import { describe, test, expect, mock } from 'bun:test';
+import { parseServerSentEvents, type ServerSentEvent } from '@ereo/core';
+import { createRouter, errors } from '../router';
+import { procedure, tracked } from '../procedure';
+import { createClient } from '../client';
+import type { Router, RouterDef } from '../types';
+
+const api = createRouter({
+  ticks: procedure.subscription(async function* ({ lastEventId }) {
+    const start = lastEventId ? Number(lastEventId) + 1 : 1;
+    for (let n = start; n <= 3; n++) {
+      yield tracked(String(n), { n });
+    }
+  }),
+  dates: procedure.subscription(async function* () {
+    yield new Date('2026-01-01T00:00:00.000Z');
+  }),
+  failing: procedure.subscription(async function* () {
+    yield 'first';
+    throw errors.forbidden('Not allowed');
+  }),
+  protected: procedure
+    .use(() => ({ ok: false, error: { code: 'UNAUTHORIZED', message: 'Login required' } }))
+    .subscription(async function* () {
+      yield 'secret';
+    }),
+  hello: procedure.query(() => 'hi'),
+});
+
+type Api = typeof api;
+
+function streamRequest(path: string, headers: Record<string, string> = {}): Request {
+  return new Request(`http://localhost/api/rpc?path=${path}`, {
+    headers: { Accept: 'text/event-stream', ...headers },
+  });
+}
+
+async function readEvents(response: Response): Promise<ServerSentEvent[]> {
+  const events: ServerSentEvent[] = [];
+  for await (const event of parseServerSentEvents(response.body!)) events.push(event);
+  return events;
+}
+
+/** Client whose fetch calls the router directly */
+function createTestClient(router: Router<RouterDef> = api as any, fetchSpy?: (request: Request) => void) {
+  return createClient<Api>({
+    httpEndpoint: 'http://localhost/api/rpc',
+    reconnect: { delayMs: 5, maxAttempts: 2 },
+    fetch: (async (url: string, { signal, ...init }: RequestInit) => {
+      // The DOM test environment swaps AbortController, which Request rejects
+      const request = new Request(url, init);
+      fetchSpy?.(request);
+      return router.handler(request, {});
+    }) as typeof fetch,
+  });
+}
+
+function collect(subscribe: (callbacks: any) => () => void) {
+  return new Promise<{ data: unknown[]; error?: Error }>((resolve) => {
+    const data: unknown[] = [];
+    subscribe({
+      onData: (value: unknown) => data.push(value),
+      onError: (error: Error) => resolve({ data, error }),
+      onComplete: () => resolve({ data }),
+    });
+  });
+}
+
+describe('SSE subscriptions - server', () => {
+  test('streams values with tracked ids and completes', async () => {
+    const response = await api.handler(streamRequest('ticks'), {});
+
+    expect(response.headers.get('Content-Type')).toContain('text/event-stream');
+    const events = await readEvents(response);
+
+    expect(events[0]).toEqual({ retry: 1000 });
+    expect(events.slice(1, 4).map((event) => [event.id, event.data])).toEqual([
+      ['1', '{"n":1}'],
+      ['2', '{"n":2}'],
+      ['3', '{"n":3}'],
+    ]);
+    expect(events[4].event).toBe('complete');
+  });
+
+  test('passes Last-Event-ID to the handler', async () => {
+    const response = await api.handler(streamRequest('ticks', { 'Last-Event-ID': '2' }), {});
+    const ids = (await readEvents(response)).filter((event) => event.data && !event.event).map((event) => event.id);
+
+    expect(ids).toEqual(['3']);
+  });
+
+  test('serves subscriptions addressed by URL', async () => {
+    const request = new Request('http://localhost/api/rpc/ticks', { headers: { Accept: 'text/event-stream' } });
+    const events = await readEvents(await api.procedureHandler(request, {}, ['ticks']));
+
+    expect(events.at(-1)?.event).toBe('complete');
+  });
+
+  test('sends errors thrown while streaming as an error event', async () => {
+    const events = await readEvents(await api.handler(streamRequest('failing'), {}));
+    const error = events.find((event) => event.event === 'error');
+
+    expect(JSON.parse(error!.data!)).toEqual({ code: 'FORBIDDEN', message: 'Not allowed' });
+  });
+
+  test('answers middleware and lookup errors with JSON', async () => {
+    const denied = await api.handler(streamRequest('protected'), {});
+    expect(denied.status).toBe(400);
+    expect((await denied.json()).error.code).toBe('UNAUTHORIZED');
+
+    const query = await api.handler(streamRequest('hello'), {});
+    expect((await query.json()).error.code).toBe('METHOD_MISMATCH');
+
+    const missing = await api.handler(streamRequest('nope'), {});
+    expect(missing.status).toBe(404);
+  });
+
+  test('can be disabled', async () => {
+    const router = createRouter(api._def, { sse: false });
+    const response = await router.handler(streamRequest('ticks'), {});
+
+    expect((await response.json()).error.code).toBe('METHOD_NOT_ALLOWED');
+  });
+});
+
+describe('SSE subscriptions - client', () => {
+  test('uses Server-Sent Events without a wsEndpoint', async () => {
+    const rpc = createTestClient();
+    const result = await collect((callbacks) => rpc.ticks.subscribe(callbacks));
+
+    expect(result).toEqual({ data: [{ n: 1 }, { n: 2 }, { n: 3 }] });
+  });
+
+  test('revives serialized values', async () => {
+    const rpc = createTestClient();
+    const result = await collect((callbacks) => rpc.dates.subscribe(callbacks));
+
+    expect(result.data[0]).toBeInstanceOf(Date);
+  });
+
+  test('reports stream and request errors', async () => {
+    const rpc = createTestClient();
+
+    const failing = await collect((callbacks) => rpc.failing.subscribe(callbacks));
+    expect(failing.data).toEqual(['first']);
+    expect(failing.error?.message).toBe('Not allowed');
+
+    const denied = await collect((callbacks) => (rpc as any).protected.subscribe(callbacks));
+    expect((denied.error as any)?.code).toBe('UNAUTHORIZED');
+  });
+
+  test('resumes from the last event id after the stream drops', async () => {
+    let calls = 0;
+    const seen: Array<string | null> = [];
+    const dropping = {
+      handler: async (request: Request) => {
+        seen.push(request.headers.get('Last-Event-ID'));
+        calls++;
+        // The first connection drops after one event
+        const body = calls === 1 ? 'id: 1\ndata: {"n":1}\n\n' : 'id: 2\ndata: {"n":2}\n\nevent: complete\ndata: \n\n';
+        return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+      },
+    };
+    const rpc = createTestClient(dropping as any);
+    const result = await collect((callbacks) => rpc.ticks.subscribe(callbacks));
+
+    expect(result.data).toEqual([{ n: 1 }, { n: 2 }]);
+    expect(seen).toEqual([null, '1']);
+  });
+
+  test('unsubscribe aborts the stream', async () => {
+    const rpc = createTestClient(createRouter({
+      forever: procedure.subscription(async function* () {
+        while (true) {
+          yield 'tick';
+          await new Promise((resolve) => setTimeout(resolve, 5));
+        }
+      }),
+    }) as any);
+
+    const onData = mock(() => {});
+    const unsubscribe = (rpc as any).forever.subscribe({ onData });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    unsubscribe();
+    const count = onData.mock.calls.length;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(count).toBeGreaterThan(0);
+    expect(onData.mock.calls.length).toBe(count);
+  });
+
+  test('falls back to Server-Sent Events when the WebSocket cannot open', async () => {
+    const OriginalWebSocket = globalThis.WebSocket;
+    class FailingWebSocket {
+      static OPEN = 1;
+      onopen: (() => void) | null = null;
+      onclose: (() => void) | null = null;
+      onerror: (() => void) | null = null;
+      onmessage: (() => void) | null = null;
+      constructor() {
+        setTimeout(() => this.onclose?.(), 1);
+      }
+      close() {}
+      send() {}
+    }
+    (globalThis as any).WebSocket = FailingWebSocket;
+    const errorSpy = mock(() => {});
+    const originalError = console.error;
+    console.error = errorSpy;
+
+    try {
+      const rpc = createClient<Api>({
+        httpEndpoint: 'http://localhost/api/rpc',
+        wsEndpoint: 'ws://localhost/api/rpc',
+        fetch: (async (url: string, { signal, ...init }: RequestInit) => api.handler(new Request(url, init), {})) as typeof fetch,
+      });
+      const result = await collect((callbacks) => rpc.ticks.subscribe(callbacks));
+
+      expect(result).toEqual({ data: [{ n: 1 }, { n: 2 }, { n: 3 }] });
+    } finally {
+      (globalThis as any).WebSocket = OriginalWebSocket;
+      console.error = originalError;
+    }
+  });
+});
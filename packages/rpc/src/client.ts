@@ -1,5 +1,6 @@
 /**
- * Client - typed proxy for calling RPC procedures with WebSocket subscriptions
+ * Client - typed proxy for calling RPC procedures with WebSocket or
+ * Server-Sent Events subscriptions
  *
  * Usage:
  *   import { createClient } from '@ereo/rpc/client';
@@ -14,7 +15,11 @@
  *   const user = await rpc.users.me.query();
  *   const post = await rpc.posts.create.mutate({ title: 'Hello' });
  *
- *   // Subscriptions with auto-reconnect
+ *   // Batch calls made in the same tick into one request
+ *   const batched = createClient<Api>({ httpEndpoint: '/api/rpc', batch: true });
+ *
+ *   // Subscriptions with auto-reconnect, over WebSocket when `wsEndpoint`
+ *   // is set and reachable, otherwise over Server-Sent Events
  *   const unsub = rpc.posts.onCreate.subscribe({
  *     onData: (post) => console.log('New post:', post),
  *     onError: (err) => console.error(err),
@@ -26,22 +31,32 @@ import type {
   RouterDef,
   InferClient,
   RPCResponse,
+  RPCErrorShape,
   WSClientMessage,
   WSServerMessage,
   SubscriptionCallbacks,
   Unsubscribe,
 } from './types';
+import { parseData, getTraceHeaders, parseServerSentEvents } from '@ereo/core';
+import { PROCEDURE_PATH } from './query-cache';
 
 export interface RPCClientOptions {
   /** HTTP endpoint for queries/mutations (e.g., '/api/rpc') */
   httpEndpoint: string;
   /** WebSocket endpoint for subscriptions (e.g., 'ws://localhost:3000/api/rpc') */
   wsEndpoint?: string;
+  /**
+   * Transport for subscriptions. `'auto'` uses WebSocket when `wsEndpoint` is
+   * set and falls back to Server-Sent Events on `httpEndpoint` when the
+   * socket can't be opened (e.g. behind proxies that block upgrades).
+   * (default: 'auto')
+   */
+  subscriptionTransport?: 'auto' | 'websocket' | 'sse';
   /** Custom fetch function */
   fetch?: typeof fetch;
   /** Custom headers */
   headers?: Record<string, string> | (() => Record<string, string>);
-  /** WebSocket reconnect options */
+  /** Subscription reconnect options (WebSocket and Server-Sent Events) */
   reconnect?: {
     enabled?: boolean;
     maxAttempts?: number;
@@ -54,12 +69,31 @@ export interface RPCClientOptions {
   heartbeatInterval?: number;
   /** Enable WebSocket heartbeat (default: true) */
   heartbeatEnabled?: boolean;
+  /**
+   * Send queries and mutations made in the same tick as one batch request,
+   * and share one request between identical in-flight queries.
+   * `maxSize` must not exceed the router's batch limit.
+   */
+  batch?: boolean | {
+    /** Maximum calls per batch request (default: 20) */
+    maxSize?: number;
+  };
+}
+
+interface BatchedCall {
+  path: string[];
+  type: 'query' | 'mutation';
+  input?: unknown;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
 }
 
 interface ActiveSubscription {
   path: string[];
   input?: unknown;
   callbacks: SubscriptionCallbacks<unknown>;
+  /** Id of the last tracked value, sent when resubscribing */
+  lastEventId?: string;
 }
 
 /**
@@ -85,6 +119,9 @@ export function createClient<T extends Router<RouterDef>>(
     enabled: options.heartbeatEnabled !== false,
     interval: options.heartbeatInterval ?? 30000,
   };
+  const batchOpts = options.batch
+    ? { maxSize: 20, ...(options.batch === true ? {} : options.batch) }
+    : null;
 
   // WebSocket state
   let ws: WebSocket | null = null;
@@ -99,12 +136,23 @@ export function createClient<T extends Router<RouterDef>>(
   // Promise-based queue for connection requests
   const connectionQueue: Array<{ resolve: () => void; reject: (err: Error) => void }> = [];
 
+  // Server-Sent Events state
+  const transport = options.subscriptionTransport ?? 'auto';
+  let sseFallback = false;
+  const sseSubscriptions = new Map<string, AbortController>();
+
+  // Batch state
+  let batchQueue: BatchedCall[] = [];
+  let batchTimer: ReturnType<typeof setTimeout> | null = null;
+  const inflightQueries = new Map<string, Promise<unknown>>();
+
   function getHeaders(): Record<string, string> {
     const base: Record<string, string> = { 'Content-Type': 'application/json', 'X-Ereo-RPC': '1' };
     const custom = typeof options.headers === 'function'
       ? options.headers()
       : options.headers;
-    return { ...base, ...custom };
+    // Trace context joins RPC calls to the caller's distributed trace
+    return { ...base, ...getTraceHeaders(), ...custom };
   }
 
   function generateId(): string {
@@ -141,11 +189,13 @@ export function createClient<T extends Router<RouterDef>>(
   function startConnection(initialResolve: () => void, initialReject: (err: Error) => void): void {
     // Queue the initial request
     connectionQueue.push({ resolve: initialResolve, reject: initialReject });
+    let opened = false;
 
     try {
       ws = new WebSocket(options.wsEndpoint!);
 
       ws.onopen = () => {
+        opened = true;
         wsConnecting = false;
         wsConnected = true;
         reconnectAttempts = 0;
@@ -162,20 +212,20 @@ export function createClient<T extends Router<RouterDef>>(
 
         // Resubscribe to existing subscriptions
         for (const [id, sub] of subscriptions) {
-          sendSubscribe(id, sub.path, sub.input);
+          sendSubscribe(id, sub);
         }
 
         // Process pending subscriptions
         while (pendingSubscriptions.length > 0) {
           const pending = pendingSubscriptions.shift()!;
           subscriptions.set(pending.id, pending.sub);
-          sendSubscribe(pending.id, pending.sub.path, pending.sub.input);
+          sendSubscribe(pending.id, pending.sub);
         }
       };
 
       ws.onmessage = (event) => {
         try {
-          const msg: WSServerMessage = JSON.parse(event.data);
+          const msg = parseData<WSServerMessage>(event.data);
 
           // Handle pong response
           if (msg.type === 'pong') {
@@ -199,6 +249,11 @@ export function createClient<T extends Router<RouterDef>>(
         wsConnected = false;
         ws = null;
 
+        // The socket never opened: move subscriptions to Server-Sent Events
+        if (!opened && transport === 'auto' && reconnectAttempts === 0) {
+          fallBackToSSE();
+        }
+
         // Reject all queued connection requests
         while (connectionQueue.length > 0) {
           const { reject } = connectionQueue.shift()!;
@@ -212,6 +267,7 @@ export function createClient<T extends Router<RouterDef>>(
       };
     } catch (error) {
       wsConnecting = false;
+      if (transport === 'auto') fallBackToSSE();
       // Reject all queued requests
       while (connectionQueue.length > 0) {
         const { reject } = connectionQueue.shift()!;
@@ -284,6 +340,7 @@ export function createClient<T extends Router<RouterDef>>(
 
     switch (msg.type) {
       case 'data':
+        if (msg.eventId !== undefined) sub.lastEventId = msg.eventId;
         sub.callbacks.onData(msg.data);
         break;
       case 'error':
@@ -296,10 +353,11 @@ export function createClient<T extends Router<RouterDef>>(
     }
   }
 
-  function sendSubscribe(id: string, path: string[], input?: unknown) {
+  function sendSubscribe(id: string, sub: ActiveSubscription) {
     if (!ws || ws.readyState !== WebSocket.OPEN) return;
 
-    const msg: WSClientMessage = { type: 'subscribe', id, path, input };
+    const msg: WSClientMessage = { type: 'subscribe', id, path: sub.path, input: sub.input };
+    if (sub.lastEventId !== undefined) msg.lastEventId = sub.lastEventId;
     ws.send(JSON.stringify(msg));
   }
 
@@ -310,62 +368,251 @@ export function createClient<T extends Router<RouterDef>>(
     ws.send(JSON.stringify(msg));
   }
 
+  // ==========================================================================
+  // Server-Sent Events
+  // ==========================================================================
+
+  function usesSSE(): boolean {
+    if (transport !== 'auto') return transport === 'sse';
+    return sseFallback || !options.wsEndpoint || typeof WebSocket === 'undefined';
+  }
+
+  function fallBackToSSE() {
+    if (sseFallback) return;
+    sseFallback = true;
+    for (const { id, sub } of pendingSubscriptions.splice(0)) {
+      subscribeSSE(id, sub);
+    }
+    for (const [id, sub] of subscriptions) {
+      subscribeSSE(id, sub);
+    }
+    subscriptions.clear();
+  }
+
+  function stopSSE(id: string) {
+    sseSubscriptions.get(id)?.abort();
+    sseSubscriptions.delete(id);
+  }
+
+  /**
+   * Run a subscription over an event stream, reconnecting with
+   * `Last-Event-ID` until it completes, fails or is unsubscribed.
+   */
+  function subscribeSSE(id: string, sub: ActiveSubscription) {
+    const controller = new AbortController();
+    sseSubscriptions.set(id, controller);
+    const pathName = sub.path.join('.');
+    let attempts = 0;
+    let retryDelay = reconnectOpts.delayMs;
+
+    const fail = (error: Error) => {
+      sseSubscriptions.delete(id);
+      sub.callbacks.onError?.(error);
+    };
+
+    const connect = async (): Promise<void> => {
+      const url = new URL(options.httpEndpoint, getBaseUrl());
+      url.searchParams.set('path', pathName);
+      if (sub.input !== undefined) url.searchParams.set('input', JSON.stringify(sub.input));
+
+      const headers: Record<string, string> = { ...getHeaders(), Accept: 'text/event-stream' };
+      delete headers['Content-Type'];
+      if (sub.lastEventId !== undefined) headers['Last-Event-ID'] = sub.lastEventId;
+
+      try {
+        const response = await fetchFn(url.toString(), { method: 'GET', headers, signal: controller.signal });
+
+        // Errors before the stream starts come back as JSON and are final
+        if (!response.ok || !response.body) {
+          const result = await parseHttpResponse(response, sub.path).catch((error) => error);
+          if (result instanceof Error) throw result;
+          unwrapResponse(result as RPCResponse, sub.path);
+          throw new RPCClientError(`Subscription ${pathName} failed (status ${response.status})`, 'SUBSCRIPTION_ERROR', pathName);
+        }
+
+        for await (const event of parseServerSentEvents(response.body)) {
+          // Custom fetch functions may ignore the signal
+          if (controller.signal.aborted) return;
+          if (event.retry !== undefined) retryDelay = event.retry;
+          if (event.data === undefined) continue;
+
+          if (event.event === 'complete') {
+            sseSubscriptions.delete(id);
+            sub.callbacks.onComplete?.();
+            return;
+          }
+          if (event.event === 'error') {
+            const error = JSON.parse(event.data) as RPCErrorShape;
+            fail(new RPCClientError(error.message, error.code, pathName));
+            return;
+          }
+
+          attempts = 0;
+          if (event.id !== undefined) sub.lastEventId = event.id;
+          sub.callbacks.onData(parseData(event.data));
+        }
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        if (error instanceof RPCClientError) {
+          fail(error);
+          return;
+        }
+        // Network errors fall through to reconnect
+      }
+
+      if (controller.signal.aborted) return;
+
+      // The stream dropped: reconnect like the WebSocket transport does
+      if (!reconnectOpts.enabled || attempts >= reconnectOpts.maxAttempts) {
+        fail(new Error('Connection lost'));
+        return;
+      }
+      const delay = Math.min(retryDelay * Math.pow(2, attempts), reconnectOpts.maxDelayMs);
+      attempts++;
+      const timer = setTimeout(connect, delay);
+      controller.signal.addEventListener('abort', () => clearTimeout(timer), { once: true });
+    };
+
+    connect();
+  }
+
+  // ==========================================================================
+  // HTTP calls
+  // ==========================================================================
+
+  async function sendQuery(path: string[], input?: unknown): Promise<unknown> {
+    // Use POST if configured, or if input is large/complex
+    const usePost = options.usePostForQueries ?? false;
+
+    if (usePost) {
+      // POST method for queries
+      const response = await fetchFn(options.httpEndpoint, {
+        method: 'POST',
+        headers: getHeaders(),
+        body: JSON.stringify({ path, type: 'query', input }),
+      });
+      return handleHttpResponse(response, path);
+    }
+
+    // GET method (default) - with URL length check
+    const url = new URL(options.httpEndpoint, getBaseUrl());
+    url.searchParams.set('path', path.join('.'));
+    if (input !== undefined) {
+      const inputStr = JSON.stringify(input);
+      // Warn if URL might be too long (roughly 2000 chars is safe)
+      if (inputStr.length > 1500) {
+        console.warn(
+          'RPC query input is large. Consider using usePostForQueries option to avoid URL length limits.'
+        );
+      }
+      url.searchParams.set('input', inputStr);
+    }
+
+    const response = await fetchFn(url.toString(), {
+      method: 'GET',
+      headers: getHeaders(),
+    });
+
+    return handleHttpResponse(response, path);
+  }
+
+  async function sendMutation(path: string[], input?: unknown): Promise<unknown> {
+    const response = await fetchFn(options.httpEndpoint, {
+      method: 'POST',
+      headers: getHeaders(),
+      body: JSON.stringify({ path, type: 'mutation', input }),
+    });
+
+    return handleHttpResponse(response, path);
+  }
+
+  function enqueueCall(path: string[], type: 'query' | 'mutation', input?: unknown): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      batchQueue.push({ path, type, input, resolve, reject });
+
+      if (batchQueue.length >= batchOpts!.maxSize) {
+        flushBatch();
+      } else if (!batchTimer) {
+        // Collect every call made in the current tick
+        batchTimer = setTimeout(flushBatch, 0);
+      }
+    });
+  }
+
+  function flushBatch() {
+    if (batchTimer) {
+      clearTimeout(batchTimer);
+      batchTimer = null;
+    }
+    const calls = batchQueue;
+    batchQueue = [];
+    if (calls.length > 0) {
+      void sendBatch(calls);
+    }
+  }
+
+  async function sendBatch(calls: BatchedCall[]): Promise<void> {
+    // A lone call keeps its normal request, so queries stay cacheable GETs
+    if (calls.length === 1) {
+      const [call] = calls;
+      const send = call.type === 'query' ? sendQuery : sendMutation;
+      return send(call.path, call.input).then(call.resolve, call.reject);
+    }
+
+    let results: unknown;
+    try {
+      const response = await fetchFn(options.httpEndpoint, {
+        method: 'POST',
+        headers: getHeaders(),
+        body: JSON.stringify(calls.map(({ path, type, input }) => ({ path, type, input }))),
+      });
+      results = await parseHttpResponse(response, ['batch']);
+    } catch (error) {
+      calls.forEach((call) => call.reject(error));
+      return;
+    }
+
+    calls.forEach((call, i) => {
+      try {
+        // A batch-level error (e.g. over the server's limit) applies to every call
+        const result = Array.isArray(results) ? results[i] : results;
+        call.resolve(unwrapResponse(result as RPCResponse, call.path));
+      } catch (error) {
+        call.reject(error);
+      }
+    });
+  }
+
   // ==========================================================================
   // Proxy creation
   // ==========================================================================
 
   function createProxy(path: string[]): unknown {
     return new Proxy(() => {}, {
-      get(_target, prop: string) {
+      get(_target, prop: string | symbol) {
+        // Lets the query cache key results by procedure
+        if (prop === PROCEDURE_PATH) return path;
+
         if (prop === 'query') {
-          return async (input?: unknown) => {
-            // Use POST if configured, or if input is large/complex
-            const usePost = options.usePostForQueries ?? false;
-
-            if (usePost) {
-              // POST method for queries
-              const response = await fetchFn(options.httpEndpoint, {
-                method: 'POST',
-                headers: getHeaders(),
-                body: JSON.stringify({ path, type: 'query', input }),
-              });
-              return handleHttpResponse(response, path);
-            } else {
-              // GET method (default) - with URL length check
-              const base = typeof window !== 'undefined' ? window.location.origin : 'http://localhost';
-              const url = new URL(options.httpEndpoint, base);
-              url.searchParams.set('path', path.join('.'));
-              if (input !== undefined) {
-                const inputStr = JSON.stringify(input);
-                // Warn if URL might be too long (roughly 2000 chars is safe)
-                if (inputStr.length > 1500) {
-                  console.warn(
-                    'RPC query input is large. Consider using usePostForQueries option to avoid URL length limits.'
-                  );
-                }
-                url.searchParams.set('input', inputStr);
-              }
+          return (input?: unknown) => {
+            if (!batchOpts) return sendQuery(path, input);
 
-              const response = await fetchFn(url.toString(), {
-                method: 'GET',
-                headers: getHeaders(),
-              });
+            // Identical queries in flight share one request
+            const key = `${path.join('.')}:${JSON.stringify(input) ?? ''}`;
+            const inflight = inflightQueries.get(key);
+            if (inflight) return inflight;
 
-              return handleHttpResponse(response, path);
-            }
+            const promise = enqueueCall(path, 'query', input).finally(() => {
+              inflightQueries.delete(key);
+            });
+            inflightQueries.set(key, promise);
+            return promise;
           };
         }
 
         if (prop === 'mutate') {
-          return async (input?: unknown) => {
-            const response = await fetchFn(options.httpEndpoint, {
-              method: 'POST',
-              headers: getHeaders(),
-              body: JSON.stringify({ path, type: 'mutation', input }),
-            });
-
-            return handleHttpResponse(response, path);
-          };
+          return (input?: unknown) =>
+            batchOpts ? enqueueCall(path, 'mutation', input) : sendMutation(path, input);
         }
 
         if (prop === 'subscribe') {
@@ -377,15 +624,22 @@ export function createClient<T extends Router<RouterDef>>(
             const id = generateId();
             const sub: ActiveSubscription = { path, input, callbacks };
 
+            if (usesSSE()) {
+              subscribeSSE(id, sub);
+              return () => stopSSE(id);
+            }
+
             // Start connection if needed
             if (!wsConnected && !wsConnecting) {
               pendingSubscriptions.push({ id, sub });
               connectWebSocket().catch((error) => {
+                // Moved to Server-Sent Events instead
+                if (sseSubscriptions.has(id)) return;
                 callbacks.onError?.(error instanceof Error ? error : new Error(String(error)));
               });
             } else if (wsConnected) {
               subscriptions.set(id, sub);
-              sendSubscribe(id, path, input);
+              sendSubscribe(id, sub);
             } else {
               // Connecting - queue it
               pendingSubscriptions.push({ id, sub });
@@ -393,6 +647,7 @@ export function createClient<T extends Router<RouterDef>>(
 
             // Return unsubscribe function
             return () => {
+              stopSSE(id);
               subscriptions.delete(id);
               // Also remove from pending queue (if still connecting)
               const pendingIdx = pendingSubscriptions.findIndex(p => p.id === id);
@@ -418,7 +673,7 @@ export function createClient<T extends Router<RouterDef>>(
         }
 
         // Continue building path
-        return createProxy([...path, prop]);
+        return createProxy([...path, prop as string]);
       },
     });
   }
@@ -427,9 +682,22 @@ export function createClient<T extends Router<RouterDef>>(
 }
 
 async function handleHttpResponse(response: Response, path: string[]): Promise<unknown> {
-  let result: RPCResponse;
+  return unwrapResponse(await parseHttpResponse(response, path) as RPCResponse, path);
+}
+
+/**
+ * Base URL for relative endpoints: the page's origin, or http://localhost
+ * outside browsers and for opaque origins ("null" in sandboxed frames and
+ * file: pages), which URLs can't be resolved against.
+ */
+function getBaseUrl(): string {
+  const origin = typeof window !== 'undefined' ? window.location?.origin : undefined;
+  return origin && /^https?:/.test(origin) ? origin : 'http://localhost';
+}
+
+async function parseHttpResponse(response: Response, path: string[]): Promise<unknown> {
   try {
-    result = await response.json();
+    return parseData(await response.text());
   } catch {
     throw new RPCClientError(
       `RPC call to ${path.join('.')} returned invalid JSON (status ${response.status})`,
@@ -437,8 +705,10 @@ async function handleHttpResponse(response: Response, path: string[]): Promise<u
       path.join('.')
     );
   }
+}
 
-  if (!result || !('ok' in result)) {
+function unwrapResponse(result: RPCResponse, path: string[]): unknown {
+  if (!result || typeof result !== 'object' || !('ok' in result)) {
     throw new RPCClientError(
       `RPC call to ${path.join('.')} returned unexpected response format`,
       'INVALID_RESPONSE',
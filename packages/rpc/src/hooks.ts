@@ -4,11 +4,23 @@
  * Usage:
  *   const { data, isLoading } = useQuery(rpc.users.me);
  *   const { mutate, isPending } = useMutation(rpc.posts.create);
+ *   const { mutate } = useMutation(rpc.posts.create, {
+ *     onMutate: (post, cache) => cache.setQueryData(rpc.posts.list, (posts = []) => [...posts, post]),
+ *   });
  *   const { data, status } = useSubscription(rpc.posts.onCreate);
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import type { SubscriptionCallbacks, Unsubscribe } from './types';
+import {
+  getQueryKey,
+  readQueryData,
+  writeQueryData,
+  subscribeQuery,
+  registerQueryRefetch,
+  createOptimisticUpdate,
+  type QueryCacheAccess,
+} from './query-cache';
 
 // =============================================================================
 // Query Hook
@@ -39,7 +51,13 @@ export function useQuery<TInput, TOutput>(
 ): UseQueryResult<TOutput> {
   const { input, enabled = true, refetchInterval } = options;
 
-  const [data, setData] = useState<TOutput | undefined>(undefined);
+  // Results of client procedures are shared through the query cache,
+  // so mutations can update them optimistically
+  const cacheKey = getQueryKey(procedure, input);
+
+  const [data, setData] = useState<TOutput | undefined>(() =>
+    cacheKey ? (readQueryData(cacheKey) as TOutput | undefined) : undefined
+  );
   const [error, setError] = useState<Error | undefined>(undefined);
   const [isLoading, setIsLoading] = useState(enabled);
 
@@ -64,17 +82,30 @@ export function useQuery<TInput, TOutput>(
     try {
       const result = await (procedureRef.current as any).query(inputRef.current);
       setData(result);
+      if (cacheKey) writeQueryData(cacheKey, result);
     } catch (err) {
       setError(err instanceof Error ? err : new Error(String(err)));
     } finally {
       setIsLoading(false);
     }
-  }, [enabled, inputKey]);
+  }, [enabled, inputKey, cacheKey]);
 
   useEffect(() => {
     fetchData();
   }, [fetchData]);
 
+  useEffect(() => {
+    if (!cacheKey) return;
+    const unsubscribe = subscribeQuery(cacheKey, () => {
+      setData(readQueryData(cacheKey) as TOutput | undefined);
+    });
+    const unregister = registerQueryRefetch(cacheKey, fetchData);
+    return () => {
+      unsubscribe();
+      unregister();
+    };
+  }, [cacheKey, fetchData]);
+
   useEffect(() => {
     if (!refetchInterval || !enabled) return;
     const interval = setInterval(fetchData, refetchInterval);
@@ -99,9 +130,16 @@ type MutationFn<TInput, TOutput> = TInput extends void
   ? { mutate: () => Promise<TOutput> }
   : { mutate: (input: TInput) => Promise<TOutput> };
 
-export interface UseMutationOptions<TOutput> {
-  onSuccess?: (data: TOutput) => void;
-  onError?: (error: Error) => void;
+export interface UseMutationOptions<TOutput, TInput = any, TContext = unknown> {
+  /**
+   * Runs before the mutation is sent. Cached query results written through
+   * `cache.setQueryData` show up in useQuery immediately, are restored if the
+   * mutation fails and are refetched once it succeeds. The return value is
+   * passed to the other callbacks as `context`.
+   */
+  onMutate?: (input: TInput, cache: QueryCacheAccess) => TContext | Promise<TContext>;
+  onSuccess?: (data: TOutput, input: TInput, context: TContext | undefined) => void;
+  onError?: (error: Error, input: TInput, context: TContext | undefined) => void;
   onSettled?: () => void;
 }
 
@@ -110,20 +148,23 @@ export interface UseMutationResult<TInput, TOutput> {
   mutateAsync: TInput extends void ? () => Promise<TOutput> : (input: TInput) => Promise<TOutput>;
   data: TOutput | undefined;
   error: Error | undefined;
+  /** Input of the pending mutation, for rendering it optimistically */
+  variables: TInput | undefined;
   isPending: boolean;
   isError: boolean;
   isSuccess: boolean;
   reset: () => void;
 }
 
-export function useMutation<TInput, TOutput>(
+export function useMutation<TInput, TOutput, TContext = unknown>(
   procedure: MutationFn<TInput, TOutput>,
-  options: UseMutationOptions<TOutput> = {}
+  options: UseMutationOptions<TOutput, TInput, TContext> = {}
 ): UseMutationResult<TInput, TOutput> {
-  const { onSuccess, onError, onSettled } = options;
+  const { onMutate, onSuccess, onError, onSettled } = options;
 
   const [data, setData] = useState<TOutput | undefined>(undefined);
   const [error, setError] = useState<Error | undefined>(undefined);
+  const [variables, setVariables] = useState<TInput | undefined>(undefined);
   const [isPending, setIsPending] = useState(false);
   const [isSuccess, setIsSuccess] = useState(false);
 
@@ -131,6 +172,8 @@ export function useMutation<TInput, TOutput>(
   // The RPC client uses Proxy objects that create new references on each property access.
   const procedureRef = useRef(procedure);
   procedureRef.current = procedure;
+  const onMutateRef = useRef(onMutate);
+  onMutateRef.current = onMutate;
   const onSuccessRef = useRef(onSuccess);
   onSuccessRef.current = onSuccess;
   const onErrorRef = useRef(onError);
@@ -143,20 +186,31 @@ export function useMutation<TInput, TOutput>(
       setIsPending(true);
       setError(undefined);
       setIsSuccess(false);
+      setVariables(input);
+
+      const optimistic = createOptimisticUpdate();
+      let context: TContext | undefined;
 
       try {
+        if (onMutateRef.current) {
+          context = await onMutateRef.current(input as TInput, optimistic);
+        }
         const result = await (procedureRef.current as any).mutate(input);
         setData(result);
         setIsSuccess(true);
-        onSuccessRef.current?.(result);
+        onSuccessRef.current?.(result, input as TInput, context);
+        // Replace optimistic cache entries with server data
+        optimistic.reconcile().catch(() => {});
         return result;
       } catch (err) {
         const error = err instanceof Error ? err : new Error(String(err));
+        optimistic.rollback();
         setError(error);
-        onErrorRef.current?.(error);
+        onErrorRef.current?.(error, input as TInput, context);
         throw error;
       } finally {
         setIsPending(false);
+        setVariables(undefined);
         onSettledRef.current?.();
       }
     },
@@ -173,6 +227,7 @@ export function useMutation<TInput, TOutput>(
   const reset = useCallback(() => {
     setData(undefined);
     setError(undefined);
+    setVariables(undefined);
     setIsPending(false);
     setIsSuccess(false);
   }, []);
@@ -182,6 +237,7 @@ export function useMutation<TInput, TOutput>(
     mutateAsync: mutateAsync as any,
     data,
     error,
+    variables,
     isPending,
     isError: error !== undefined,
     isSuccess,
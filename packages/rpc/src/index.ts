@@ -5,7 +5,7 @@
  */
 
 // Procedure builder (main API)
-export { procedure, executeMiddleware } from './procedure';
+export { procedure, executeMiddleware, tracked } from './procedure';
 export type { ProcedureBuilder } from './procedure';
 
 // Legacy procedure builders (deprecated but kept for compatibility)
@@ -13,7 +13,7 @@ export { query, mutation, subscription } from './procedure';
 
 // Router
 export { createRouter, RPCError, errors } from './router';
-export type { Router, BunWebSocketHandler } from './router';
+export type { Router, RouterOptions, SSEOptions, BunWebSocketHandler } from './router';
 
 // Plugin
 export { rpcPlugin } from './plugin';
@@ -41,6 +41,7 @@ export {
   clearRateLimitStore,
   createAuthMiddleware,
   requireRoles,
+  requirePermission,
   validate,
   extend,
   timing,
@@ -85,6 +86,7 @@ export {
   buildCacheMiddleware,
   buildCorsMiddleware,
   buildAuthMiddleware,
+  buildPermissionMiddleware,
   compileConfigMiddleware,
   clearServerFnRateLimitStore,
 } from './server-block';
@@ -112,11 +114,13 @@ export type {
 
   // Procedures
   ProcedureType,
+  ProcedureMeta,
   ProcedureDef,
   QueryProcedure,
   MutationProcedure,
   SubscriptionProcedure,
   SubscriptionYield,
+  SubscriptionResumeArgs,
   AnyProcedure,
 
   // Router
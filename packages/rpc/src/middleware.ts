@@ -272,6 +272,53 @@ export function requireRoles<TContext extends BaseContext & { user: { role?: str
   };
 }
 
+/** Auth context that can check permissions, e.g. the one added by @ereo/auth */
+interface PermissionChecker {
+  can: (permission: string) => boolean;
+}
+
+/**
+ * Check permissions against the auth context of an application context.
+ * Denies when there is no auth context or it cannot check permissions.
+ * @internal Shared by procedure and server function middleware
+ */
+export function hasPermissions(appContext: unknown, permissions: string[]): boolean {
+  const auth = (appContext as { get?: (key: string) => unknown } | null | undefined)?.get?.('auth') as
+    | PermissionChecker
+    | undefined;
+  if (typeof auth?.can !== 'function') {
+    return false;
+  }
+  return permissions.every((permission) => auth.can(permission));
+}
+
+/**
+ * Require permissions, checked with the `auth` context of the request
+ * (`can` from @ereo/auth, resolved through its policy). All permissions must be granted.
+ *
+ * Usage:
+ *   const canPublish = requirePermission('posts:publish');
+ *   const publishProcedure = procedure.use(canPublish);
+ */
+export function requirePermission<TContext extends BaseContext>(
+  permissions: string | string[],
+  options: { message?: string } = {}
+): MiddlewareFn<TContext, TContext> {
+  const { message = 'Insufficient permissions' } = options;
+  const required = Array.isArray(permissions) ? permissions : [permissions];
+
+  return async ({ ctx, next }) => {
+    if (!hasPermissions(ctx.ctx, required)) {
+      return {
+        ok: false,
+        error: { code: 'FORBIDDEN', message },
+      };
+    }
+
+    return next(ctx);
+  };
+}
+
 // =============================================================================
 // Validation Middleware
 // =============================================================================
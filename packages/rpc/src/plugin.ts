@@ -40,6 +40,11 @@ export interface RPCPluginOptions<T extends RouterDef = RouterDef> {
   router: Router<T>;
   /** Endpoint path for HTTP and WebSocket (default: '/api/rpc') */
   endpoint?: string;
+  /**
+   * Also serve each query and mutation at its own URL, `{endpoint}/{path}`
+   * (default: false). These are the URLs `@ereo/openapi` documents.
+   */
+  procedureUrls?: boolean;
 }
 
 export interface RPCPluginResult extends RPCPlugin {
@@ -54,7 +59,7 @@ export interface RPCPluginResult extends RPCPlugin {
 export function rpcPlugin<T extends RouterDef>(
   options: RPCPluginOptions<T>
 ): RPCPluginResult {
-  const { router, endpoint = '/api/rpc' } = options;
+  const { router, endpoint = '/api/rpc', procedureUrls = false } = options;
 
   const rpcMiddleware = async (
     request: Request,
@@ -82,6 +87,12 @@ export function rpcPlugin<T extends RouterDef>(
       return router.handler(request, context);
     }
 
+    // One procedure addressed by URL, e.g. /api/rpc/users.get
+    if (procedureUrls && router.procedureHandler && url.pathname.startsWith(`${endpoint}/`)) {
+      const path = url.pathname.slice(endpoint.length + 1).split('.');
+      return router.procedureHandler(request, context, path);
+    }
+
     return next();
   };
 
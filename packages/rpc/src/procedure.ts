@@ -26,6 +26,7 @@
 
 import type {
   Schema,
+  ProcedureMeta,
   BaseContext,
   MiddlewareFn,
   MiddlewareDef,
@@ -34,6 +35,7 @@ import type {
   MutationProcedure,
   SubscriptionProcedure,
   SubscriptionYield,
+  SubscriptionResumeArgs,
 } from './types';
 
 /**
@@ -47,6 +49,17 @@ export interface ProcedureBuilder<TContext extends BaseContext> {
     middleware: MiddlewareFn<TContext, TNewContext>
   ): ProcedureBuilder<TNewContext>;
 
+  /**
+   * Describe the result with a schema, for generated API documentation.
+   * The handler's return value is not validated against it.
+   */
+  output(schema: unknown): ProcedureBuilder<TContext>;
+
+  /**
+   * Add a summary, description and tags for generated API documentation
+   */
+  meta(meta: ProcedureMeta): ProcedureBuilder<TContext>;
+
   /**
    * Create a query procedure (no input)
    */
@@ -81,7 +94,7 @@ export interface ProcedureBuilder<TContext extends BaseContext> {
    * Create a subscription procedure (no input)
    */
   subscription<TOutput>(
-    handler: (ctx: TContext) => SubscriptionYield<TOutput>
+    handler: (ctx: TContext & SubscriptionResumeArgs) => SubscriptionYield<TOutput>
   ): SubscriptionProcedure<TContext, void, TOutput>;
 
   /**
@@ -89,15 +102,22 @@ export interface ProcedureBuilder<TContext extends BaseContext> {
    */
   subscription<TInput, TOutput>(
     schema: Schema<TInput>,
-    handler: (ctx: TContext & { input: TInput }) => SubscriptionYield<TOutput>
+    handler: (ctx: TContext & { input: TInput } & SubscriptionResumeArgs) => SubscriptionYield<TOutput>
   ): SubscriptionProcedure<TContext, TInput, TOutput>;
 }
 
+/** Documentation carried from the builder onto procedures */
+interface ProcedureDocs {
+  outputSchema?: unknown;
+  meta?: ProcedureMeta;
+}
+
 /**
  * Create a procedure builder with accumulated middleware
  */
 function createProcedureBuilder<TContext extends BaseContext>(
-  middlewares: MiddlewareDef<any, any>[] = []
+  middlewares: MiddlewareDef<any, any>[] = [],
+  docs: ProcedureDocs = {}
 ): ProcedureBuilder<TContext> {
   return {
     use<TNewContext extends BaseContext>(
@@ -106,7 +126,15 @@ function createProcedureBuilder<TContext extends BaseContext>(
       return createProcedureBuilder<TNewContext>([
         ...middlewares,
         { fn: middleware },
-      ]);
+      ], docs);
+    },
+
+    output(schema: unknown): ProcedureBuilder<TContext> {
+      return createProcedureBuilder<TContext>(middlewares, { ...docs, outputSchema: schema });
+    },
+
+    meta(meta: ProcedureMeta): ProcedureBuilder<TContext> {
+      return createProcedureBuilder<TContext>(middlewares, { ...docs, meta: { ...docs.meta, ...meta } });
     },
 
     query<TInput = void, TOutput = unknown>(
@@ -120,6 +148,7 @@ function createProcedureBuilder<TContext extends BaseContext>(
           _input: undefined as unknown as TInput,
           _output: undefined as unknown as Awaited<TOutput>,
           middlewares: [...middlewares],
+          ...docs,
           handler: schemaOrHandler as any,
         };
       }
@@ -130,6 +159,7 @@ function createProcedureBuilder<TContext extends BaseContext>(
         _input: undefined as unknown as TInput,
         _output: undefined as unknown as Awaited<TOutput>,
         middlewares: [...middlewares],
+        ...docs,
         inputSchema: schemaOrHandler,
         handler: maybeHandler as any,
       };
@@ -146,6 +176,7 @@ function createProcedureBuilder<TContext extends BaseContext>(
           _input: undefined as unknown as TInput,
           _output: undefined as unknown as Awaited<TOutput>,
           middlewares: [...middlewares],
+          ...docs,
           handler: schemaOrHandler as any,
         };
       }
@@ -156,6 +187,7 @@ function createProcedureBuilder<TContext extends BaseContext>(
         _input: undefined as unknown as TInput,
         _output: undefined as unknown as Awaited<TOutput>,
         middlewares: [...middlewares],
+        ...docs,
         inputSchema: schemaOrHandler,
         handler: maybeHandler as any,
       };
@@ -172,6 +204,7 @@ function createProcedureBuilder<TContext extends BaseContext>(
           _input: undefined as unknown as TInput,
           _output: undefined as unknown as TOutput,
           middlewares: [...middlewares],
+          ...docs,
           handler: schemaOrHandler as any,
         };
       }
@@ -182,6 +215,7 @@ function createProcedureBuilder<TContext extends BaseContext>(
         _input: undefined as unknown as TInput,
         _output: undefined as unknown as TOutput,
         middlewares: [...middlewares],
+        ...docs,
         inputSchema: schemaOrHandler,
         handler: maybeHandler as any,
       };
@@ -320,3 +354,44 @@ export function subscription<TInput, TOutput>(
   }
   return procedure.subscription(schemaOrHandler, maybeHandler as any) as any;
 }
+
+// =============================================================================
+// Tracked subscription values
+// =============================================================================
+
+const TRACKED = Symbol.for('ereo.rpc.tracked');
+
+interface TrackedValue {
+  [TRACKED]: true;
+  id: string;
+  data: unknown;
+}
+
+/**
+ * Give a subscription value an event id. Clients that reconnect send back
+ * the id of the last value they received as `lastEventId`, so the
+ * subscription can resume where it left off:
+ *
+ *   onMessage: procedure.subscription(async function* ({ lastEventId }) {
+ *     for await (const message of messagesSince(lastEventId)) {
+ *       yield tracked(message.id, message);
+ *     }
+ *   }),
+ *
+ * Clients receive `data` unchanged.
+ */
+export function tracked<T>(id: string, data: T): T {
+  const value: TrackedValue = { [TRACKED]: true, id: String(id), data };
+  return value as unknown as T;
+}
+
+/**
+ * Split a yielded subscription value into its event id and data
+ * @internal
+ */
+export function untrack(value: unknown): { id?: string; data: unknown } {
+  if (value !== null && typeof value === 'object' && (value as TrackedValue)[TRACKED] === true) {
+    return { id: (value as TrackedValue).id, data: (value as TrackedValue).data };
+  }
+  return { data: value };
+}
@@ -0,0 +1,203 @@
+/**
+ * Query cache - shared useQuery results that mutations can update
+ *
+ * Usage:
+ *   const posts = getQueryData(rpc.posts.list);
+ *   setQueryData(rpc.posts.list, (posts = []) => [...posts, draft]);
+ *   await invalidateQueries(rpc.posts.list);
+ *
+ * Entries are keyed by procedure path and serialized input, the same key the
+ * client uses to share in-flight queries.
+ */
+
+/** Symbol the client proxy answers with the procedure's path */
+export const PROCEDURE_PATH = Symbol.for('ereo.rpc.path');
+
+/** Anything with a query method, typically a client procedure like `rpc.posts.list` */
+export type QueryProcedure<TOutput = unknown> = { query: (...args: any[]) => Promise<TOutput> };
+
+/** New data, or a function of the cached data */
+export type QueryUpdater<TOutput> = TOutput | undefined | ((previous: TOutput | undefined) => TOutput | undefined);
+
+/** Cache access handed to useMutation's onMutate */
+export interface QueryCacheAccess {
+  getQueryData<TOutput>(procedure: QueryProcedure<TOutput>, input?: unknown): TOutput | undefined;
+  setQueryData<TOutput>(procedure: QueryProcedure<TOutput>, updater: QueryUpdater<TOutput>, input?: unknown): void;
+}
+
+interface CacheEntry {
+  data: unknown;
+  hasData: boolean;
+  listeners: Set<() => void>;
+  refetchers: Set<() => Promise<void>>;
+}
+
+const entries = new Map<string, CacheEntry>();
+
+function getEntry(key: string): CacheEntry {
+  let entry = entries.get(key);
+  if (!entry) {
+    entry = { data: undefined, hasData: false, listeners: new Set(), refetchers: new Set() };
+    entries.set(key, entry);
+  }
+  return entry;
+}
+
+/** Drop empty entries nothing reads from or refetches */
+function releaseEntry(key: string): void {
+  const entry = entries.get(key);
+  if (entry && !entry.hasData && entry.listeners.size === 0 && entry.refetchers.size === 0) {
+    entries.delete(key);
+  }
+}
+
+function getPath(procedure: unknown): string[] | undefined {
+  if (procedure == null) return undefined;
+  const path = (procedure as Record<symbol, unknown>)[PROCEDURE_PATH];
+  return Array.isArray(path) ? path : undefined;
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Cache key of a procedure call, or undefined when the procedure does not
+ * come from an RPC client (such as a hand-written mock).
+ */
+export function getQueryKey(procedure: unknown, input?: unknown): string | undefined {
+  const path = getPath(procedure);
+  return path ? `${path.join('.')}:${JSON.stringify(input) ?? ''}` : undefined;
+}
+
+/** Cached result of a query */
+export function getQueryData<TOutput>(
+  procedure: QueryProcedure<TOutput>,
+  input?: unknown
+): TOutput | undefined {
+  const key = getQueryKey(procedure, input);
+  return key ? (entries.get(key)?.data as TOutput | undefined) : undefined;
+}
+
+/**
+ * Replace or update a cached query result. Every useQuery reading the same
+ * procedure and input re-renders with the new data.
+ */
+export function setQueryData<TOutput>(
+  procedure: QueryProcedure<TOutput>,
+  updater: QueryUpdater<TOutput>,
+  input?: unknown
+): void {
+  const key = getQueryKey(procedure, input);
+  if (!key) return;
+
+  const entry = getEntry(key);
+  const data =
+    typeof updater === 'function'
+      ? (updater as (previous: TOutput | undefined) => TOutput | undefined)(entry.data as TOutput | undefined)
+      : updater;
+
+  writeQueryData(key, data, data !== undefined);
+}
+
+/**
+ * Refetch mounted queries of a procedure: the call with `input` when given,
+ * otherwise every call of the procedure.
+ */
+export async function invalidateQueries(procedure: QueryProcedure, input?: unknown): Promise<void> {
+  const path = getPath(procedure);
+  if (!path) return;
+
+  const exact = arguments.length > 1 ? getQueryKey(procedure, input) : undefined;
+  const prefix = `${path.join('.')}:`;
+  const keys = [...entries.keys()].filter((key) => (exact ? key === exact : key.startsWith(prefix)));
+
+  await refetchKeys(keys);
+}
+
+// =============================================================================
+// Hook internals
+// =============================================================================
+
+/** @internal Store data under a key and notify its readers */
+export function writeQueryData(key: string, data: unknown, hasData = true): void {
+  const entry = getEntry(key);
+  entry.data = data;
+  entry.hasData = hasData;
+  for (const listener of [...entry.listeners]) listener();
+  releaseEntry(key);
+}
+
+/** @internal Read the data stored under a key */
+export function readQueryData(key: string): unknown {
+  return entries.get(key)?.data;
+}
+
+/** @internal Listen for data changes under a key */
+export function subscribeQuery(key: string, listener: () => void): () => void {
+  getEntry(key).listeners.add(listener);
+  return () => {
+    entries.get(key)?.listeners.delete(listener);
+    releaseEntry(key);
+  };
+}
+
+/** @internal Register how a mounted query refetches */
+export function registerQueryRefetch(key: string, refetch: () => Promise<void>): () => void {
+  getEntry(key).refetchers.add(refetch);
+  return () => {
+    entries.get(key)?.refetchers.delete(refetch);
+    releaseEntry(key);
+  };
+}
+
+async function refetchKeys(keys: Iterable<string>): Promise<void> {
+  const refetches: Promise<void>[] = [];
+  for (const key of keys) {
+    for (const refetch of entries.get(key)?.refetchers ?? []) refetches.push(refetch());
+  }
+  await Promise.all(refetches);
+}
+
+/**
+ * @internal Cache access for one mutation. Entries it writes are snapshotted
+ * first, so a failed mutation can restore them and a successful one can
+ * refetch them from the server.
+ */
+export function createOptimisticUpdate(): QueryCacheAccess & {
+  rollback(): void;
+  reconcile(): Promise<void>;
+} {
+  const snapshots = new Map<string, { data: unknown; hasData: boolean }>();
+
+  return {
+    getQueryData,
+
+    setQueryData(procedure, updater, input) {
+      const key = getQueryKey(procedure, input);
+      if (key && !snapshots.has(key)) {
+        const entry = entries.get(key);
+        snapshots.set(key, { data: entry?.data, hasData: entry?.hasData ?? false });
+      }
+      setQueryData(procedure, updater, input);
+    },
+
+    rollback() {
+      for (const [key, snapshot] of snapshots) {
+        writeQueryData(key, snapshot.data, snapshot.hasData);
+      }
+      snapshots.clear();
+    },
+
+    reconcile() {
+      const keys = [...snapshots.keys()];
+      snapshots.clear();
+      return refetchKeys(keys);
+    },
+  };
+}
+
+/** Clear the whole cache (for testing) */
+export function clearQueryCache(): void {
+  entries.clear();
+}
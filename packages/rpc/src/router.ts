@@ -1,5 +1,6 @@
 /**
- * Router - combines procedures into a typed API with HTTP and WebSocket support
+ * Router - combines procedures into a typed API with HTTP, WebSocket and
+ * Server-Sent Events support
  *
  * Usage:
  *   export const api = createRouter({
@@ -28,7 +29,9 @@ import type {
   WSConnectionData,
   SubscriptionProcedure,
 } from './types';
-import { executeMiddleware } from './procedure';
+import { serializeData, createEventStream, EVENT_STREAM_HEADERS } from '@ereo/core';
+import type { ServerSentEvent } from '@ereo/core';
+import { executeMiddleware, untrack } from './procedure';
 
 /** Bun WebSocket handler type */
 export interface BunWebSocketHandler<T> {
@@ -53,19 +56,60 @@ interface BunServerWebSocket<T> {
 
 export interface Router<T extends RouterDef> {
   _def: T;
-  /** HTTP request handler for queries and mutations */
+  /**
+   * HTTP request handler for queries and mutations, and for subscriptions
+   * over Server-Sent Events (GET with `Accept: text/event-stream`)
+   */
   handler: (request: Request, ctx: any) => Promise<Response>;
+  /**
+   * HTTP handler for one procedure addressed by URL (e.g. `/api/rpc/users.get`),
+   * served by `rpcPlugin` with `procedureUrls`. GET calls a query with `input`
+   * from the query string; POST calls a query or mutation with the JSON body
+   * as input.
+   */
+  procedureHandler: (request: Request, ctx: any, path: string[]) => Promise<Response>;
   /** WebSocket handlers for Bun.serve() */
   websocket: BunWebSocketHandler<WSConnectionData>;
 }
 
+export interface RouterOptions {
+  /**
+   * Batched HTTP calls: a POST whose body is an array of requests.
+   * Pass false to reject batches. (default: { maxSize: 20 })
+   */
+  batch?: false | {
+    /** Maximum calls per batch request (default: 20) */
+    maxSize?: number;
+  };
+  /**
+   * Subscriptions over Server-Sent Events, for clients that can't open a
+   * WebSocket. Pass false to serve subscriptions over WebSocket only.
+   */
+  sse?: false | SSEOptions;
+}
+
+/** Server-Sent Events options for subscriptions */
+export interface SSEOptions {
+  /** Interval of keep-alive comments in milliseconds, or false to disable (default: 15000) */
+  heartbeat?: number | false;
+  /** Reconnect delay sent to clients in milliseconds (default: 1000) */
+  retry?: number;
+}
+
+/** Result of one procedure call over HTTP */
+interface CallResult {
+  body: RPCResponse;
+  status: number;
+}
+
 /**
  * Create a router from procedure definitions
  */
-export function createRouter<T extends RouterDef>(def: T): Router<T> {
+export function createRouter<T extends RouterDef>(def: T, options: RouterOptions = {}): Router<T> {
   return {
     _def: def,
-    handler: createHttpHandler(def),
+    handler: createHttpHandler(def, options),
+    procedureHandler: createProcedureHandler(def, options),
     websocket: createWebSocketHandler(def),
   };
 }
@@ -73,22 +117,25 @@ export function createRouter<T extends RouterDef>(def: T): Router<T> {
 /**
  * Create HTTP handler for queries and mutations
  */
-function createHttpHandler(def: RouterDef) {
+function createHttpHandler(def: RouterDef, options: RouterOptions) {
+  const maxBatchSize = options.batch === false ? 0 : options.batch?.maxSize ?? 20;
+  const sseOptions = options.sse === false ? null : options.sse ?? {};
+
   return async (request: Request, ctx: any): Promise<Response> => {
-    let rpcRequest: RPCRequest;
+    let body: RPCRequest | RPCRequest[];
 
     try {
       if (request.method === 'GET') {
         const url = new URL(request.url);
         const path = url.searchParams.get('path')?.split('.') ?? [];
         const inputRaw = url.searchParams.get('input');
-        rpcRequest = {
+        body = {
           path,
           type: 'query',
           input: inputRaw ? JSON.parse(inputRaw) : undefined,
         };
       } else {
-        rpcRequest = await request.json();
+        body = await request.json();
       }
     } catch {
       return jsonResponse({
@@ -97,71 +144,242 @@ function createHttpHandler(def: RouterDef) {
       }, 400);
     }
 
-    const procedure = resolveProcedure(def, rpcRequest.path);
-    if (!procedure) {
+    if (!Array.isArray(body)) {
+      if (sseOptions && request.method === 'GET' && acceptsEventStream(request)) {
+        return streamSubscription(def, body.path, body.input, ctx, request, sseOptions);
+      }
+      const result = await executeCall(def, body, ctx, request);
+      return jsonResponse(result.body, result.status);
+    }
+
+    if (maxBatchSize === 0) {
       return jsonResponse({
         ok: false,
-        error: { code: 'NOT_FOUND', message: `Procedure not found: ${rpcRequest.path.join('.')}` },
-      }, 404);
+        error: { code: 'BATCH_DISABLED', message: 'Batch requests are not enabled' },
+      }, 400);
     }
 
-    if (procedure._type === 'subscription') {
+    if (body.length === 0 || body.length > maxBatchSize) {
       return jsonResponse({
         ok: false,
-        error: { code: 'METHOD_NOT_ALLOWED', message: 'Subscriptions must use WebSocket' },
-      }, 400);
+        error: {
+          code: 'BATCH_TOO_LARGE',
+          message: `Batch must contain between 1 and ${maxBatchSize} calls`,
+        },
+      }, body.length === 0 ? 400 : 413);
     }
 
-    if (procedure._type !== rpcRequest.type) {
+    // Calls run concurrently; each gets its own result or error
+    const results = await Promise.all(body.map((call) => executeCall(def, call, ctx, request)));
+    return new Response(serializeData(results.map((result) => result.body)), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  };
+}
+
+/**
+ * Create HTTP handler for procedures addressed by URL path
+ */
+function createProcedureHandler(def: RouterDef, options: RouterOptions) {
+  const sseOptions = options.sse === false ? null : options.sse ?? {};
+
+  return async (request: Request, ctx: any, path: string[]): Promise<Response> => {
+    let input: unknown;
+    let type: RPCRequest['type'] = 'query';
+
+    try {
+      if (request.method === 'GET') {
+        const inputRaw = new URL(request.url).searchParams.get('input');
+        input = inputRaw ? JSON.parse(inputRaw) : undefined;
+      } else {
+        const text = await request.text();
+        input = text ? JSON.parse(text) : undefined;
+        // POST may call queries as well as mutations
+        const procedure = resolveProcedure(def, path);
+        if (procedure?._type === 'mutation') type = 'mutation';
+      }
+    } catch {
       return jsonResponse({
         ok: false,
-        error: { code: 'METHOD_MISMATCH', message: `Expected ${procedure._type}, got ${rpcRequest.type}` },
+        error: { code: 'PARSE_ERROR', message: 'Invalid RPC request' },
       }, 400);
     }
 
-    // Validate input before running middleware+handler chain
-    let input = rpcRequest.input;
-    if (procedure.inputSchema) {
-      try {
-        input = procedure.inputSchema.parse(rpcRequest.input);
-      } catch (error) {
-        // Sanitize error details before sending to client
-        const sanitizedError = sanitizeValidationError(error);
-        return jsonResponse({
-          ok: false,
-          error: { code: 'VALIDATION_ERROR', message: 'Input validation failed', details: sanitizedError },
-        }, 400);
-      }
+    if (sseOptions && request.method === 'GET' && acceptsEventStream(request)) {
+      return streamSubscription(def, path, input, ctx, request, sseOptions);
+    }
+
+    const result = await executeCall(def, { path, type, input }, ctx, request);
+    return jsonResponse(result.body, result.status);
+  };
+}
+
+function acceptsEventStream(request: Request): boolean {
+  return request.headers.get('Accept')?.includes('text/event-stream') ?? false;
+}
+
+/**
+ * Run a subscription as a Server-Sent Events response.
+ *
+ * Values are sent as `message` events with serialized data, and `tracked()`
+ * values carry their id so a reconnecting client's `Last-Event-ID` reaches the
+ * handler as `lastEventId`. The stream ends with a `complete` or `error` event.
+ * Errors before the first value (unknown procedure, middleware, validation)
+ * are answered with a JSON error response instead.
+ */
+async function streamSubscription(
+  def: RouterDef,
+  path: string[],
+  input: unknown,
+  ctx: any,
+  request: Request,
+  options: SSEOptions
+): Promise<Response> {
+  const procedure = resolveProcedure(def, path);
+  if (!procedure) {
+    const result = failure('NOT_FOUND', `Procedure not found: ${path.join('.')}`, 404);
+    return jsonResponse(result.body, result.status);
+  }
+
+  if (procedure._type !== 'subscription') {
+    const result = failure('METHOD_MISMATCH', 'Procedure is not a subscription', 400);
+    return jsonResponse(result.body, result.status);
+  }
+
+  const middlewareResult = await executeMiddleware(procedure.middlewares, { ctx, request });
+  if (!middlewareResult.ok) {
+    return jsonResponse({ ok: false, error: middlewareResult.error }, 400);
+  }
+
+  let validatedInput = input;
+  if (procedure.inputSchema) {
+    try {
+      validatedInput = procedure.inputSchema.parse(input);
+    } catch (error) {
+      return jsonResponse({
+        ok: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Input validation failed',
+          details: sanitizeValidationError(error),
+        },
+      }, 400);
     }
+  }
 
-    // Execute middleware chain with handler nested inside (onion model).
-    // This allows middleware like catchErrors to catch handler errors.
-    const baseContext: BaseContext = { ctx, request };
+  const sub = procedure as SubscriptionProcedure<any, any, any>;
+  let generator: AsyncGenerator<unknown, void, unknown>;
+  try {
+    generator = sub.handler({
+      ...middlewareResult.ctx,
+      input: validatedInput,
+      lastEventId: request.headers.get('Last-Event-ID') ?? undefined,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to start subscription';
+    const result = failure('SUBSCRIPTION_ERROR', message, 500);
+    return jsonResponse(result.body, result.status);
+  }
 
+  async function* events(): AsyncGenerator<ServerSentEvent> {
     try {
-      const result = await executeMiddleware(
-        procedure.middlewares,
-        baseContext,
-        (mwCtx) => procedure.handler({ ...mwCtx, input })
-      );
-
-      if (!result.ok) {
-        return jsonResponse({ ok: false, error: result.error }, 400);
+      for await (const value of generator) {
+        const { id, data } = untrack(value);
+        yield { id, data: serializeData(data) };
       }
+      yield { event: 'complete' };
+    } catch (error) {
+      const shape = error instanceof RPCError
+        ? { code: error.code, message: error.message }
+        : { code: 'SUBSCRIPTION_ERROR', message: error instanceof Error ? error.message : 'Subscription error' };
+      yield { event: 'error', data: JSON.stringify(shape) };
+    }
+  }
 
-      return jsonResponse({ ok: true, data: result.data });
+  const body = createEventStream(events(), {
+    heartbeat: options.heartbeat,
+    retry: options.retry ?? 1000,
+    signal: request.signal,
+  });
+  return new Response(body, { headers: EVENT_STREAM_HEADERS });
+}
+
+/**
+ * Run one query or mutation
+ */
+async function executeCall(
+  def: RouterDef,
+  rpcRequest: RPCRequest,
+  ctx: any,
+  request: Request
+): Promise<CallResult> {
+  if (!rpcRequest || typeof rpcRequest !== 'object' || !Array.isArray(rpcRequest.path)) {
+    return failure('PARSE_ERROR', 'Invalid RPC request', 400);
+  }
+
+  const procedure = resolveProcedure(def, rpcRequest.path);
+  if (!procedure) {
+    return failure('NOT_FOUND', `Procedure not found: ${rpcRequest.path.join('.')}`, 404);
+  }
+
+  if (procedure._type === 'subscription') {
+    return failure(
+      'METHOD_NOT_ALLOWED',
+      'Subscriptions must use WebSocket or Server-Sent Events (Accept: text/event-stream)',
+      400
+    );
+  }
+
+  if (procedure._type !== rpcRequest.type) {
+    return failure('METHOD_MISMATCH', `Expected ${procedure._type}, got ${rpcRequest.type}`, 400);
+  }
+
+  // Validate input before running middleware+handler chain
+  let input = rpcRequest.input;
+  if (procedure.inputSchema) {
+    try {
+      input = procedure.inputSchema.parse(rpcRequest.input);
     } catch (error) {
-      if (error instanceof RPCError) {
-        return jsonResponse({ ok: false, error: { code: error.code, message: error.message } }, error.status);
-      }
+      // Sanitize error details before sending to client
+      const sanitizedError = sanitizeValidationError(error);
+      return {
+        body: {
+          ok: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Input validation failed', details: sanitizedError },
+        },
+        status: 400,
+      };
+    }
+  }
 
-      console.error(`RPC error [${rpcRequest.path.join('.')}]:`, error);
-      return jsonResponse({
-        ok: false,
-        error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' },
-      }, 500);
+  // Execute middleware chain with handler nested inside (onion model).
+  // This allows middleware like catchErrors to catch handler errors.
+  const baseContext: BaseContext = { ctx, request };
+
+  try {
+    const result = await executeMiddleware(
+      procedure.middlewares,
+      baseContext,
+      (mwCtx) => procedure.handler({ ...mwCtx, input })
+    );
+
+    if (!result.ok) {
+      return { body: { ok: false, error: result.error }, status: 400 };
     }
-  };
+
+    return { body: { ok: true, data: result.data }, status: 200 };
+  } catch (error) {
+    if (error instanceof RPCError) {
+      return failure(error.code, error.message, error.status);
+    }
+
+    console.error(`RPC error [${rpcRequest.path.join('.')}]:`, error);
+    return failure('INTERNAL_ERROR', 'An unexpected error occurred', 500);
+  }
+}
+
+function failure(code: string, message: string, status: number): CallResult {
+  return { body: { ok: false, error: { code, message } }, status };
 }
 
 /**
@@ -214,9 +432,9 @@ function createWebSocketHandler(def: RouterDef): BunWebSocketHandler<WSConnectio
 async function handleSubscribe(
   ws: BunServerWebSocket<WSConnectionData>,
   def: RouterDef,
-  msg: { type: 'subscribe'; id: string; path: string[]; input?: unknown }
+  msg: Extract<WSClientMessage, { type: 'subscribe' }>
 ) {
-  const { id, path, input } = msg;
+  const { id, path, input, lastEventId } = msg;
 
   // Check for duplicate subscription ID
   if (ws.data.subscriptions.has(id)) {
@@ -271,7 +489,11 @@ async function handleSubscribe(
   const sub = procedure as SubscriptionProcedure<any, any, any>;
 
   try {
-    const generator = sub.handler({ ...middlewareResult.ctx, input: validatedInput });
+    const generator = sub.handler({
+      ...middlewareResult.ctx,
+      input: validatedInput,
+      lastEventId: typeof lastEventId === 'string' ? lastEventId : undefined,
+    });
 
     // Async iteration with abort support
     (async () => {
@@ -280,8 +502,11 @@ async function handleSubscribe(
           if (controller.signal.aborted) break;
 
           try {
-            const msg: WSServerMessage = { type: 'data', id, data: value };
-            ws.send(JSON.stringify(msg));
+            const { id: eventId, data } = untrack(value);
+            const msg: WSServerMessage = eventId === undefined
+              ? { type: 'data', id, data }
+              : { type: 'data', id, data, eventId };
+            ws.send(serializeData(msg));
           } catch {
             // WebSocket closed between abort check and send — treat as aborted
             break;
@@ -382,7 +607,7 @@ function resolveProcedure(def: RouterDef, path: string[]): AnyProcedure | null {
 }
 
 function jsonResponse(data: RPCResponse, status = 200): Response {
-  return new Response(JSON.stringify(data), {
+  return new Response(serializeData(data), {
     status,
     headers: { 'Content-Type': 'application/json' },
   });
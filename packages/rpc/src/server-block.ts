@@ -1,7 +1,7 @@
 /**
  * server$ and createServerBlock — Higher-level wrappers around createServerFn
  *
- * Adds declarative config (rate limiting, CORS, auth, caching) that compiles
+ * Adds declarative config (rate limiting, CORS, auth, permissions, caching) that compiles
  * down to ServerFnMiddleware arrays.
  *
  * Usage:
@@ -31,6 +31,7 @@ import {
   type ServerFnContext,
   type ServerFnMiddleware,
 } from './server-fn';
+import { hasPermissions } from './middleware';
 import type { Schema } from './types';
 
 // =============================================================================
@@ -86,13 +87,19 @@ export interface ServerFnConfig {
   cors?: ServerFnCorsConfig;
   /** Authentication configuration */
   auth?: ServerFnAuthConfig;
+  /** Permissions the caller must all have, checked with the request's auth context */
+  permissions?: string[];
   /** Additional middleware to run after config-generated middleware */
   middleware?: ServerFnMiddleware[];
   /** Input validation schema */
   input?: Schema<any>;
   /** Skip default middleware (marks function as publicly accessible) */
   allowPublic?: boolean;
-  /** Explicit ID override (default: auto-generated) */
+  /**
+   * Explicit ID override. The @ereo/bundler build assigns one from the module
+   * path and variable name; otherwise a counter-based id is generated.
+   * On a createServerBlock config, the prefix of the block's function ids.
+   */
   id?: string;
 }
 
@@ -285,13 +292,35 @@ export function buildAuthMiddleware(config: ServerFnAuthConfig): ServerFnMiddlew
   };
 }
 
+// =============================================================================
+// buildPermissionMiddleware
+// =============================================================================
+
+/**
+ * Require permissions, checked with the `auth` context of the application
+ * context (`can` from @ereo/auth). Throws FORBIDDEN (403) unless all are granted.
+ */
+export function buildPermissionMiddleware(
+  permissions: string[],
+  options: { message?: string } = {}
+): ServerFnMiddleware {
+  const message = options.message ?? 'Insufficient permissions';
+
+  return async (ctx: ServerFnContext, next: () => Promise<unknown>): Promise<unknown> => {
+    if (!hasPermissions(ctx.appContext, permissions)) {
+      throw new ServerFnError('FORBIDDEN', message, { statusCode: 403 });
+    }
+    return next();
+  };
+}
+
 // =============================================================================
 // compileConfigMiddleware — config → ordered middleware array
 // =============================================================================
 
 /**
  * Convert a declarative ServerFnConfig into an ordered array of middleware.
- * Order: CORS → rate limit → auth → cache → user middleware
+ * Order: CORS → rate limit → auth → permissions → cache → user middleware
  */
 export function compileConfigMiddleware(config: ServerFnConfig): ServerFnMiddleware[] {
   const middleware: ServerFnMiddleware[] = [];
@@ -308,6 +337,10 @@ export function compileConfigMiddleware(config: ServerFnConfig): ServerFnMiddlew
     middleware.push(buildAuthMiddleware(config.auth));
   }
 
+  if (config.permissions?.length) {
+    middleware.push(buildPermissionMiddleware(config.permissions));
+  }
+
   if (config.cache) {
     middleware.push(buildCacheMiddleware(config.cache));
   }
@@ -320,7 +353,7 @@ export function compileConfigMiddleware(config: ServerFnConfig): ServerFnMiddlew
 }
 
 // =============================================================================
-// ID Generation (Phase 1: counter-based)
+// ID Generation (fallback when the build assigned no id)
 // =============================================================================
 
 let idCounter = 0;
@@ -397,6 +430,7 @@ type BlockResult<T extends BlockFnMap> = {
  * Create a group of server functions with shared config.
  * Per-function overrides replace (not merge) the block-level config for that key.
  * Middleware arrays are concatenated: block middleware runs first.
+ * With an `id` on the block config, function ids are `<id>.<key>`.
  *
  * @example
  * ```ts
@@ -440,6 +474,7 @@ export function createServerBlock<T extends BlockFnMap>(
       cache: blockConfig.cache,
       cors: blockConfig.cors,
       auth: blockConfig.auth,
+      permissions: blockConfig.permissions,
       method: blockConfig.method,
       input: blockConfig.input,
       allowPublic: blockConfig.allowPublic,
@@ -448,6 +483,7 @@ export function createServerBlock<T extends BlockFnMap>(
       ...('cache' in fnOverrides ? { cache: fnOverrides.cache } : {}),
       ...('cors' in fnOverrides ? { cors: fnOverrides.cors } : {}),
       ...('auth' in fnOverrides ? { auth: fnOverrides.auth } : {}),
+      ...('permissions' in fnOverrides ? { permissions: fnOverrides.permissions } : {}),
       ...('method' in fnOverrides ? { method: fnOverrides.method } : {}),
       ...('input' in fnOverrides ? { input: fnOverrides.input } : {}),
       ...('allowPublic' in fnOverrides ? { allowPublic: fnOverrides.allowPublic } : {}),
@@ -456,8 +492,8 @@ export function createServerBlock<T extends BlockFnMap>(
         ...(blockConfig.middleware ?? []),
         ...(fnOverrides.middleware ?? []),
       ],
-      // ID: explicit per-fn id, or auto-generated from name
-      id: fnOverrides.id ?? generateId(name),
+      // ID: explicit per-fn id, the block id plus the name, or auto-generated from name
+      id: fnOverrides.id ?? (blockConfig.id ? `${blockConfig.id}.${name}` : generateId(name)),
     };
 
     const compiledMiddleware = compileConfigMiddleware(mergedConfig);
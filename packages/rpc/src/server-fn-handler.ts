@@ -17,6 +17,7 @@
  *   const response = await handler(request, appContext);
  */
 
+import { serializeData } from '@ereo/core';
 import {
   getServerFn,
   SERVER_FN_BASE,
@@ -299,7 +300,7 @@ export function createServerFnHandler(
 // =============================================================================
 
 function jsonResponse(data: unknown, status: number): Response {
-  return new Response(JSON.stringify(data), {
+  return new Response(serializeData(data), {
     status,
     headers: { 'Content-Type': 'application/json' },
   });
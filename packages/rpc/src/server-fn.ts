@@ -12,6 +12,9 @@
  *     return db.users.findUnique({ where: { id } });
  *   });
  *
+ *   // Built with @ereo/bundler, the id can be omitted (assigned from module path + name)
+ *   export const getPost = createServerFn(async (id: string) => db.posts.find(id));
+ *
  *   // Call from anywhere
  *   const user = await getUser('123');
  *
@@ -27,6 +30,7 @@
  */
 
 import type { Schema, BaseContext, RPCErrorShape } from './types';
+import { parseData } from '@ereo/core';
 
 // =============================================================================
 // Types
@@ -60,8 +64,8 @@ export type ServerFnMiddleware = (
 
 /** Options for createServerFn with full configuration */
 export interface ServerFnOptions<TInput, TOutput> {
-  /** Unique function identifier */
-  id: string;
+  /** Unique function identifier (assigned by the @ereo/bundler build when omitted) */
+  id?: string;
   /** Input validation schema (zod-compatible) */
   input?: Schema<TInput>;
   /** Middleware to run before the handler */
@@ -223,7 +227,9 @@ export function _createClientProxy<TInput, TOutput>(id: string): ServerFn<TInput
       body: JSON.stringify({ input }),
     });
 
-    const result = await response.json();
+    const result = parseData<
+      { ok: true; data: TOutput } | { ok: false; error: ServerFnErrorShape }
+    >(await response.text());
 
     if (!result.ok) {
       const error = new ServerFnError(
@@ -237,7 +243,7 @@ export function _createClientProxy<TInput, TOutput>(id: string): ServerFn<TInput
       throw error;
     }
 
-    return result.data as TOutput;
+    return result.data;
   };
 
   Object.defineProperties(fn, {
@@ -272,6 +278,21 @@ export function createServerFn<TInput = void, TOutput = unknown>(
   handler: (input: TInput, ctx: ServerFnContext) => Promise<TOutput> | TOutput
 ): ServerFn<TInput, TOutput>;
 
+/**
+ * Create a server function with just a handler.
+ * The @ereo/bundler build assigns the id from the module path and variable name.
+ *
+ * @example
+ * ```ts
+ * export const getUser = createServerFn(async (id: string, ctx) => {
+ *   return db.users.findUnique({ where: { id } });
+ * });
+ * ```
+ */
+export function createServerFn<TInput = void, TOutput = unknown>(
+  handler: (input: TInput, ctx: ServerFnContext) => Promise<TOutput> | TOutput
+): ServerFn<TInput, TOutput>;
+
 /**
  * Create a server function with full options (validation, middleware).
  *
@@ -292,24 +313,41 @@ export function createServerFn<TInput, TOutput>(
 ): ServerFn<TInput, TOutput>;
 
 export function createServerFn<TInput, TOutput>(
-  idOrOptions: string | ServerFnOptions<TInput, TOutput>,
-  maybeHandler?: (input: TInput, ctx: ServerFnContext) => Promise<TOutput> | TOutput
+  idOrOptions:
+    | string
+    | ServerFnOptions<TInput, TOutput>
+    | ((input: TInput, ctx: ServerFnContext) => Promise<TOutput> | TOutput),
+  maybeHandler?:
+    | ((input: TInput, ctx: ServerFnContext) => Promise<TOutput> | TOutput)
+    | ServerFnOptions<TInput, TOutput>
 ): ServerFn<TInput, TOutput> {
-  let id: string;
+  let id: string | undefined;
   let handler: (input: TInput, ctx: ServerFnContext) => Promise<TOutput> | TOutput;
   let middleware: ServerFnMiddleware[] = [];
   let inputSchema: Schema<TInput> | undefined;
   let allowPublic: boolean | undefined;
 
-  if (typeof idOrOptions === 'string') {
+  // The build passes its assigned id first, before a handler or an options object
+  const options = typeof idOrOptions === 'object' ? idOrOptions : typeof maybeHandler === 'object' ? maybeHandler : undefined;
+
+  if (options) {
+    id = options.id ?? (typeof idOrOptions === 'string' ? idOrOptions : undefined);
+    handler = options.handler;
+    middleware = options.middleware ?? [];
+    inputSchema = options.input;
+    allowPublic = options.allowPublic;
+  } else if (typeof idOrOptions === 'string') {
     id = idOrOptions;
-    handler = maybeHandler!;
+    handler = maybeHandler as (input: TInput, ctx: ServerFnContext) => Promise<TOutput> | TOutput;
   } else {
-    id = idOrOptions.id;
-    handler = idOrOptions.handler;
-    middleware = idOrOptions.middleware ?? [];
-    inputSchema = idOrOptions.input;
-    allowPublic = idOrOptions.allowPublic;
+    handler = idOrOptions as (input: TInput, ctx: ServerFnContext) => Promise<TOutput> | TOutput;
+  }
+
+  if (!id) {
+    throw new Error(
+      'createServerFn: missing id. Pass an id, or declare the function as `const name = createServerFn(...)` ' +
+        'in a module built by @ereo/bundler so the id is assigned automatically.'
+    );
   }
 
   if (isServer) {
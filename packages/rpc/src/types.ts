@@ -55,6 +55,14 @@ export interface MiddlewareDef<TContextIn, TContextOut> {
 
 export type ProcedureType = 'query' | 'mutation' | 'subscription';
 
+/** Descriptive metadata, used for generated API documentation */
+export interface ProcedureMeta {
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  deprecated?: boolean;
+}
+
 /** Base procedure definition */
 export interface ProcedureDef<TContext, TInput, TOutput> {
   _type: ProcedureType;
@@ -63,6 +71,9 @@ export interface ProcedureDef<TContext, TInput, TOutput> {
   _output: TOutput;
   middlewares: MiddlewareDef<any, any>[];
   inputSchema?: Schema<TInput>;
+  /** Schema of the result, for documentation (not validated) */
+  outputSchema?: unknown;
+  meta?: ProcedureMeta;
   handler: (args: TContext & { input: TInput }) => TOutput | Promise<TOutput>;
 }
 
@@ -87,7 +98,16 @@ export interface SubscriptionProcedure<TContext, TInput, TOutput> {
   _output: TOutput;
   middlewares: MiddlewareDef<any, any>[];
   inputSchema?: Schema<TInput>;
-  handler: (args: TContext & { input: TInput }) => SubscriptionYield<TOutput>;
+  /** Schema of each emitted value, for documentation (not validated) */
+  outputSchema?: unknown;
+  meta?: ProcedureMeta;
+  handler: (args: TContext & { input: TInput } & SubscriptionResumeArgs) => SubscriptionYield<TOutput>;
+}
+
+/** Passed to subscription handlers when a client resumes */
+export interface SubscriptionResumeArgs {
+  /** Id of the last `tracked()` value the client received before reconnecting */
+  lastEventId?: string;
 }
 
 export type AnyProcedure =
@@ -108,6 +128,7 @@ export type RouterDef = {
 export interface Router<T extends RouterDef> {
   _def: T;
   handler: (request: Request, ctx: any) => Promise<Response>;
+  procedureHandler?: (request: Request, ctx: any, path: string[]) => Promise<Response>;
   websocket: any;
 }
 
@@ -157,12 +178,12 @@ export interface RPCRequest {
 
 /** WebSocket message types */
 export type WSClientMessage =
-  | { type: 'subscribe'; id: string; path: string[]; input?: unknown }
+  | { type: 'subscribe'; id: string; path: string[]; input?: unknown; lastEventId?: string }
   | { type: 'unsubscribe'; id: string }
   | { type: 'ping' };
 
 export type WSServerMessage =
-  | { type: 'data'; id: string; data: unknown }
+  | { type: 'data'; id: string; data: unknown; eventId?: string }
   | { type: 'error'; id: string; error: RPCErrorShape }
   | { type: 'complete'; id: string }
   | { type: 'pong' };
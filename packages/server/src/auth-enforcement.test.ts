@@ -9,6 +9,7 @@ import type { AuthConfig, AppContext } from '@ereo/core';
 function mockContext(auth?: {
   isAuthenticated: () => boolean;
   hasAnyRole: (roles: string[]) => boolean;
+  can?: (permission: string) => boolean;
 }): AppContext {
   const store = new Map<string, unknown>();
   if (auth) store.set('auth', auth);
@@ -30,6 +31,14 @@ function authedContext(roles: string[] = []) {
   });
 }
 
+function permittedContext(permissions: string[]) {
+  return mockContext({
+    isAuthenticated: () => true,
+    hasAnyRole: () => false,
+    can: (permission) => permissions.includes(permission),
+  });
+}
+
 function unauthContext() {
   return mockContext({
     isAuthenticated: () => false,
@@ -583,18 +592,45 @@ describe('enforceAuthConfig — edge cases', () => {
     ).rejects.toThrow('DB connection failed');
   });
 
-  test('permissions field is ignored by runtime (no enforcement)', async () => {
-    // permissions is declared in AuthConfig but not enforced statically —
-    // users must use check() to enforce permissions
+  test('permissions: allows when user has every permission', async () => {
     const result = await enforceAuthConfig(
-      { permissions: ['posts.write'] },
+      { permissions: ['posts:read', 'posts:write'] },
       GET(),
-      authedContext(),
+      permittedContext(['posts:read', 'posts:write']),
       {},
     );
     expect(result).toBeNull();
   });
 
+  test('permissions: denies when user lacks one of them', async () => {
+    const result = await enforceAuthConfig(
+      { permissions: ['posts:read', 'posts:write'], redirect: '/login' },
+      GET(),
+      permittedContext(['posts:read']),
+      {},
+    );
+    expect(result).not.toBeNull();
+    expect(result!.status).toBe(303);
+  });
+
+  test('permissions: denies when auth context cannot check permissions', async () => {
+    // Auth middleware without permission support must not silently allow access
+    const result = await enforceAuthConfig(
+      { permissions: ['posts:write'] },
+      GET(),
+      authedContext(),
+      {},
+    );
+    expect(result).not.toBeNull();
+    expect(result!.status).toBe(403);
+  });
+
+  test('permissions: denies unauthenticated user', async () => {
+    const result = await enforceAuthConfig({ permissions: ['posts:read'] }, GET(), unauthContext(), {});
+    expect(result).not.toBeNull();
+    expect(result!.status).toBe(403);
+  });
+
   test('check with {allowed: true} alongside static roles passes', async () => {
     // User has the role AND check returns allowed
     const result = await enforceAuthConfig(
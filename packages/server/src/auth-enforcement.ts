@@ -2,8 +2,8 @@
  * @ereo/server - Auth Config Enforcement
  *
  * Runtime enforcement of route-level AuthConfig.
- * Evaluates static checks (required, roles) and custom check functions
- * before loaders/actions execute.
+ * Evaluates static checks (required, roles, permissions) and custom check
+ * functions before loaders/actions execute.
  */
 
 import type { AuthConfig, AuthCheckResult, AppContext } from '@ereo/core';
@@ -60,7 +60,11 @@ export async function enforceAuthConfig(
   context: AppContext,
   params: Record<string, string | string[] | undefined>,
 ): Promise<Response | null> {
-  const authCtx = context.get<{ isAuthenticated: () => boolean; hasAnyRole: (roles: string[]) => boolean }>('auth');
+  const authCtx = context.get<{
+    isAuthenticated: () => boolean;
+    hasAnyRole: (roles: string[]) => boolean;
+    can?: (permission: string) => boolean;
+  }>('auth');
 
   // Static: required authentication
   if (authConfig.required && !authCtx?.isAuthenticated()) {
@@ -74,6 +78,18 @@ export async function enforceAuthConfig(
     }
   }
 
+  // Static: required permissions (all of them). Auth contexts without
+  // permission support deny, so declared permissions are never skipped.
+  if (authConfig.permissions?.length) {
+    if (
+      !authCtx?.isAuthenticated() ||
+      !authCtx.can ||
+      !authConfig.permissions.every((permission) => authCtx.can!(permission))
+    ) {
+      return resolveAuthDenial(authConfig, request);
+    }
+  }
+
   // Custom check function
   if (authConfig.check) {
     const result = await authConfig.check({ request, context, params });
@@ -1,7 +1,8 @@
 import { describe, expect, test, beforeEach, afterEach, mock } from 'bun:test';
 import { BunServer, createServer, serve, type ServerRenderMode } from './bun-server';
-import { EreoApp, type RenderMode as CoreRenderMode } from '@ereo/core';
+import { EreoApp, parseData, reviveData, type RenderMode as CoreRenderMode } from '@ereo/core';
 import { createElement } from 'react';
+import { defineStore, getStore, useDefinedStore, useStoreKey } from '@ereo/state';
 
 describe('@ereo/server - BunServer', () => {
   let server: BunServer;
@@ -4013,3 +4014,132 @@ describe('@ereo/server - JSON response matches data', () => {
     expect(json.matches[2].handle.breadcrumb).toBe('Product');
   });
 });
+
+describe('@ereo/server - Rich data serialization', () => {
+  const publishedAt = new Date('2024-05-01T00:00:00.000Z');
+
+  function setup() {
+    const route = {
+      id: '/posts/[id]',
+      path: '/posts/[id]',
+      file: '/app/routes/posts/[id].tsx',
+      module: {
+        default: ({ loaderData }: any) => createElement('p', null, loaderData.title),
+        loader: async () => ({
+          title: 'Hello',
+          publishedAt,
+          tags: new Set(['news']),
+          related: Promise.resolve([1n]),
+        }),
+        action: async () => ({ savedAt: publishedAt }),
+      },
+    };
+    const server = new BunServer({ logging: false, renderMode: 'string' });
+    server.setRouter({
+      match: (pathname: string) => ({ route, params: { id: '1' }, pathname }),
+      loadModule: async () => {},
+    } as any);
+    return server;
+  }
+
+  test('JSON navigation responses revive rich types', async () => {
+    const server = setup();
+    const response = await server.handle(
+      new Request('http://localhost/posts/1', { headers: { Accept: 'application/json' } })
+    );
+    const payload = parseData<any>(await response.text());
+
+    expect(payload.data.publishedAt).toEqual(publishedAt);
+    expect(payload.data.tags).toEqual(new Set(['news']));
+    expect(await payload.data.related).toEqual([1n]);
+    expect(payload.matches[0].data.publishedAt).toEqual(publishedAt);
+    expect(payload.params).toEqual({ id: '1' });
+  });
+
+  test('JSON action responses revive rich types', async () => {
+    const server = setup();
+    const response = await server.handle(
+      new Request('http://localhost/posts/1', { method: 'POST', headers: { Accept: 'application/json' } })
+    );
+    expect(parseData<any>(await response.text()).savedAt).toEqual(publishedAt);
+  });
+
+  test('the hydration payload revives rich types', async () => {
+    const server = setup();
+    const html = await (await server.handle(new Request('http://localhost/posts/1'))).text();
+    const literal = html.match(/window\.__EREO_DATA__=(.*?)<\/script>/)![1];
+
+    const data = reviveData<any>(JSON.parse(literal));
+
+    expect(data.publishedAt).toEqual(publishedAt);
+    expect(await data.related).toEqual([1n]);
+  });
+});
+
+describe('@ereo/server - Request-scoped stores', () => {
+  const userStore = defineStore('user', () => ({ name: 'guest', since: null as Date | null }));
+  const since = new Date('2024-05-01T00:00:00.000Z');
+
+  function Greeting() {
+    const name = useStoreKey(useDefinedStore(userStore), 'name');
+    return createElement('p', null, `Hello ${name}`);
+  }
+
+  function setup(layouts: unknown[] = []) {
+    const route = {
+      id: '/',
+      path: '/',
+      file: '/app/routes/index.tsx',
+      module: {
+        default: Greeting,
+        loader: async ({ request, context }: any) => {
+          const name = new URL(request.url).searchParams.get('name');
+          if (name) {
+            const store = getStore(userStore, context);
+            store.set('name', name);
+            store.set('since', since);
+          }
+          return null;
+        },
+      },
+    };
+    const server = new BunServer({ logging: false, renderMode: 'string' });
+    server.setRouter({
+      match: (pathname: string) => ({ route, params: {}, pathname, layouts }),
+      loadModule: async () => {},
+    } as any);
+    return server;
+  }
+
+  test('embeds the state of the request stores', async () => {
+    const server = setup();
+    const html = await (await server.handle(new Request('http://localhost/?name=Ada'))).text();
+
+    const literal = html.match(/window\.__EREO_STATE__=(.*?)<\/script>/)![1];
+    expect(reviveData<any>(JSON.parse(literal))).toEqual({ user: { name: 'Ada', since } });
+  });
+
+  test('does not share state between requests', async () => {
+    const server = setup();
+    await server.handle(new Request('http://localhost/?name=Ada'));
+    const html = await (await server.handle(new Request('http://localhost/'))).text();
+
+    expect(html).not.toContain('__EREO_STATE__');
+  });
+
+  test('provides the request stores to layouts', async () => {
+    const layout = {
+      id: '_layout',
+      path: '/',
+      file: '/app/routes/_layout.tsx',
+      layout: true,
+      module: {
+        default: ({ children }: any) => createElement('div', null, createElement('header', null, createElement(Greeting)), children),
+      },
+    };
+    const server = setup([layout]);
+    const html = await (await server.handle(new Request('http://localhost/?name=Ada'))).text();
+
+    expect(html).toContain('<header><p>Hello Ada</p></header>');
+  });
+});
@@ -6,8 +6,8 @@
  */
 
 import type { Server } from 'bun';
-import type { FrameworkConfig, RouteMatch, Route, RouteModule, MetaDescriptor, MiddlewareHandler, HeadersFunction, MethodHandlerFunction } from '@ereo/core';
-import { createContext, RequestContext, EreoApp, NotFoundError } from '@ereo/core';
+import type { FrameworkConfig, RouteMatch, Route, RouteModule, MetaDescriptor, MiddlewareHandler, HeadersFunction, MethodHandlerFunction, PrerenderConfig, I18nConfig, CookieConfig, CsrfConfig, LinkDescriptor } from '@ereo/core';
+import { createContext, RequestContext, EreoApp, NotFoundError, resolveLocale, getLocaleAlternates, isCsrfToken, CSRF_COOKIE } from '@ereo/core';
 import { FileRouter, createFileRouter, matchWithLayouts, type MatchResult } from '@ereo/router';
 import {
   MiddlewareChain,
@@ -18,10 +18,24 @@ import {
 } from './middleware';
 import { serveStatic, type StaticOptions } from './static';
 import { createShell, createResponse, renderToString, type ShellTemplate } from './streaming';
-import { serializeLoaderData, hasDeferredData, resolveAllDeferred } from '@ereo/data';
+import { serializeLoaderData, serializeLoaderDataAsync, hasDeferredData, resolveAllDeferred, onRevalidate } from '@ereo/data';
 import { createElement, type ReactElement, type ComponentType, type ReactNode } from 'react';
-import { OutletProvider, EreoProvider } from '@ereo/client';
+import { OutletProvider, EreoProvider, I18nProvider, CsrfProvider } from '@ereo/client';
+import { StoreProvider, getRequestStores, getStateScript } from '@ereo/state';
 import { enforceAuthConfig } from './auth-enforcement';
+import { verifyCsrf } from './csrf';
+import { ResponseCache, createResponseCache, type ResponseCacheOptions } from './response-cache';
+import { acceptsDeferredStream, createDeferredStreamResponse } from './deferred-stream';
+import { localeDetection, loadRouteMessages, getI18nScript, type I18nPayload } from './i18n';
+import {
+  PrerenderStore,
+  createPrerenderStore,
+  getPrerenderConfig,
+  normalizePrerenderPath,
+  renderPrerenderPage,
+  resolvePrerenderTags,
+  type PrerenderStoreOptions,
+} from './prerender';
 
 /**
  * Type for the streaming renderer result.
@@ -139,6 +153,19 @@ export interface ServerOptions {
   clientEntry?: string;
   /** Default shell template */
   shell?: ShellTemplate;
+  /** Serve pre-rendered SSG pages (written by `ereo build`) with ISR regeneration */
+  prerender?: PrerenderStoreOptions;
+  /**
+   * Cache responses of routes with `cache.edge` config.
+   * Defaults to enabled outside development.
+   */
+  responseCache?: boolean | ResponseCacheOptions;
+  /** Internationalized routing: locale prefixes or domains, detection and route messages */
+  i18n?: I18nConfig;
+  /** Secrets for signed and encrypted cookies (`context.cookies.setSigned`, sessions) */
+  cookies?: CookieConfig;
+  /** CSRF protection of route actions (default: enabled) */
+  csrf?: boolean | CsrfConfig;
   /** Enable request tracing (dev only). Pass a Tracer instance or true for auto-creation. */
   trace?: boolean | {
     tracer: unknown;
@@ -182,6 +209,11 @@ export class BunServer {
     wsConfig: any;
   }> = [];
   private fetchHandler: ((request: Request, server: Server<unknown>) => Promise<Response | undefined>) | null = null;
+  private prerenderStore: PrerenderStore | null = null;
+  private responseCache: ResponseCache | null = null;
+  /** Internal render requests that must bypass the prerender store */
+  private prerenderRequests = new WeakSet<Request>();
+  private unsubscribeRevalidate: (() => void) | null = null;
 
   constructor(options: ServerOptions = {}) {
     this.options = {
@@ -201,6 +233,30 @@ export class BunServer {
     if (options.static) {
       this.staticHandler = serveStatic(options.static);
     }
+
+    if (options.prerender) {
+      this.prerenderStore = createPrerenderStore(options.prerender);
+    }
+
+    const responseCache = this.options.responseCache ?? !this.options.development;
+    if (responseCache) {
+      this.responseCache = createResponseCache(typeof responseCache === 'object' ? responseCache : {});
+    }
+
+    this.subscribeRevalidation();
+  }
+
+  /**
+   * Invalidate pre-rendered pages and cached responses on revalidateTag/revalidatePath.
+   */
+  private subscribeRevalidation(): void {
+    if ((!this.prerenderStore && !this.responseCache) || this.unsubscribeRevalidate) return;
+    this.unsubscribeRevalidate = onRevalidate(async (event) => {
+      await Promise.all([
+        this.prerenderStore?.invalidate(event),
+        this.responseCache?.invalidate(event),
+      ]);
+    });
   }
 
   /**
@@ -228,6 +284,11 @@ export class BunServer {
       const securityOptions = typeof this.options.security === 'object' ? this.options.security : {};
       this.middleware.use(securityHeaders(securityOptions));
     }
+
+    // Locale detection and redirects
+    if (this.options.i18n) {
+      this.middleware.use(localeDetection(this.options.i18n));
+    }
   }
 
   /**
@@ -279,6 +340,27 @@ export class BunServer {
     return `<script>window.__EREO_TRACE_ID__="${safeTraceId}"</script>`;
   }
 
+  /**
+   * Get the locale and route messages of a request, when i18n is configured.
+   */
+  private async getI18nPayload(match: MatchResult, context: RequestContext): Promise<I18nPayload | null> {
+    const config = this.options.i18n;
+    if (!config) return null;
+
+    const locale = context.get<string>('locale') ?? config.defaultLocale;
+    const messages = await loadRouteMessages([...(match.layouts || []), match.route], locale);
+    return { locale, messages, config };
+  }
+
+  /**
+   * Build `hreflang` alternate links for a page, when i18n is configured.
+   */
+  private getLocaleLinks(request: Request): LinkDescriptor[] {
+    if (!this.options.i18n) return [];
+    const url = new URL(request.url);
+    return getLocaleAlternates(url.pathname, this.options.i18n, url.origin);
+  }
+
   /**
    * Register a WebSocket upgrade handler for a specific path.
    * Plugins can use this to add WebSocket support alongside HMR.
@@ -287,11 +369,23 @@ export class BunServer {
     this.wsUpgradeHandlers.push({ path, upgrader, wsConfig });
   }
 
+  /**
+   * Handle a request without a listening server (pre-rendering, tests).
+   */
+  handle(request: Request): Promise<Response> {
+    return this.handleRequest(request);
+  }
+
   /**
    * Handle incoming request.
    */
   private async handleRequest(request: Request, wsType?: string): Promise<Response> {
-    const context = createContext(request);
+    const context = createContext(request, {
+      cookieSecrets: this.options.cookies?.secrets,
+      // Behind a TLS-terminating proxy, requests reach the server over HTTP
+      csrfSecure: (typeof this.options.csrf === 'object' ? this.options.csrf.secure : undefined) ??
+        (this.options.development ? undefined : true),
+    });
 
     // Make the Bun server available to route handlers for WebSocket upgrades.
     // If wsType is provided, wrap the server to inject _wsType automatically.
@@ -339,7 +433,9 @@ export class BunServer {
         // Use router for matching and BunServer for rendering
         // This ensures we get full HTML SSR instead of JSON from EreoApp
         if (this.router) {
-          const pathname = new URL(request.url).pathname;
+          // Routes are matched without the locale prefix
+          const url = new URL(request.url);
+          const pathname = this.options.i18n ? resolveLocale(url, this.options.i18n).pathname : url.pathname;
 
           // Check if router has getRoutes (FileRouter) or is a simple mock
           if (typeof this.router.getRoutes === 'function') {
@@ -553,9 +649,43 @@ export class BunServer {
       await module.beforeLoad({ request, params: match.params, context });
     }
 
+    // --- CSRF Token (sent with pages, read back by forms) ---
+    let issuesCsrfToken = false;
+    if (
+      (httpMethod === 'GET' || httpMethod === 'HEAD') &&
+      this.options.csrf !== false &&
+      !this.prerenderRequests.has(request)
+    ) {
+      issuesCsrfToken = !isCsrfToken(context.cookies.get(CSRF_COOKIE));
+      context.csrfToken();
+    }
+
+    // --- Pre-rendered Pages (SSG/ISR) ---
+    if (
+      (httpMethod === 'GET' || httpMethod === 'HEAD') &&
+      this.prerenderStore &&
+      !this.prerenderRequests.has(request)
+    ) {
+      const prerendered = await this.servePrerendered(request, match, context);
+      if (prerendered) {
+        const response = this.applyRouteHeaders(prerendered, this.buildRouteHeaders(match));
+        return issuesCsrfToken ? this.keepFromSharedCaches(response) : response;
+      }
+    }
+
     // Handle actions (POST, PUT, DELETE, PATCH)
     if (httpMethod !== 'GET' && httpMethod !== 'HEAD') {
       if (module.action) {
+        // --- CSRF Protection (RouteConfig.csrf opts out) ---
+        const csrf = this.options.csrf ?? true;
+        const routeCsrf = match.route.config?.csrf ?? module.config?.csrf;
+        if (csrf !== false && routeCsrf !== false) {
+          const denied = await verifyCsrf(request, context, csrf === true ? {} : csrf, {
+            sharedPage: this.isSharedPage(match),
+          });
+          if (denied) return denied;
+        }
+
         const result = await module.action({
           request,
           params: match.params,
@@ -571,7 +701,7 @@ export class BunServer {
 
         // Fetch/AJAX requests get JSON
         if (request.headers.get('Accept')?.includes('application/json')) {
-          const actionResponse = new Response(JSON.stringify(result), {
+          const actionResponse = new Response(await serializeLoaderDataAsync(result), {
             headers: { 'Content-Type': 'application/json' },
           });
           const routeHeaders = this.buildRouteHeaders(match);
@@ -610,8 +740,30 @@ export class BunServer {
       return new Response('Method Not Allowed', { status: 405 });
     }
 
+    // --- Response Cache (RouteConfig.cache.edge) ---
+    const cacheConfig = match.route.config?.cache || module.config?.cache;
+    if (this.responseCache && cacheConfig?.edge && !this.prerenderRequests.has(request)) {
+      const response = await this.responseCache.handle(request, match.params, cacheConfig, () =>
+        this.renderRoute(request, match, context)
+      );
+      return issuesCsrfToken ? this.keepFromSharedCaches(response) : response;
+    }
+
+    return this.renderRoute(request, match, context);
+  }
+
+  /**
+   * Run loaders and render the matched route as HTML or JSON (GET/HEAD).
+   */
+  private async renderRoute(
+    request: Request,
+    match: MatchResult,
+    context: RequestContext
+  ): Promise<Response> {
+    const module = match.route.module!;
+    const layouts = match.layouts || [];
+
     // Run all loaders in parallel: route loader + layout loaders
-    // (layouts already declared above for beforeLoad guards)
     const loaderArgs = { request, params: match.params, context };
     const inst = this.traceInstrumentors;
     const activeSpan = inst?.getActiveSpan(context);
@@ -693,25 +845,14 @@ export class BunServer {
 
     // JSON request (client-side navigation)
     if (request.headers.get('Accept')?.includes('application/json')) {
-      // Resolve any deferred data before JSON serialization
-      const resolvedLoaderData = loaderData === undefined
-        ? null
-        : (hasDeferredData(loaderData)
-          ? await resolveAllDeferred(loaderData)
-          : loaderData);
-
       const jsonPayload: Record<string, unknown> = {
-        data: resolvedLoaderData,
+        data: loaderData === undefined ? null : loaderData,
         params: match.params,
       };
 
       // Include layout data if any layouts have loaders
       if (layoutLoaderData.size > 0) {
-        const layoutDataObj: Record<string, unknown> = {};
-        for (const [id, data] of layoutLoaderData) {
-          layoutDataObj[id] = hasDeferredData(data) ? await resolveAllDeferred(data) : data;
-        }
-        jsonPayload.layoutData = layoutDataObj;
+        jsonPayload.layoutData = Object.fromEntries(layoutLoaderData);
       }
 
       // Include link descriptors for client-side link management
@@ -720,16 +861,31 @@ export class BunServer {
       const layoutLinksList = (match.layouts || []).flatMap(
         (layout: any) => layout.module?.links ? layout.module.links() : []
       );
-      const allLinks = [...layoutLinksList, ...routeLinks];
+      const allLinks = [...layoutLinksList, ...routeLinks, ...this.getLocaleLinks(request)];
       if (allLinks.length > 0) {
         jsonPayload.links = allLinks;
       }
 
+      // Include the locale and route messages for useTranslation
+      const i18n = await this.getI18nPayload(match, context);
+      if (i18n) {
+        jsonPayload.i18n = { locale: i18n.locale, messages: i18n.messages };
+      }
+
       // Include route matches for useMatches (handle metadata, etc.)
       const matchesData = this.buildMatchesData(match, loaderData, layoutLoaderData);
       jsonPayload.matches = matchesData;
 
-      const jsonResponse = new Response(JSON.stringify(jsonPayload), {
+      // Clients that accept a stream get deferred values as they settle
+      if (acceptsDeferredStream(request) && hasDeferredData(jsonPayload)) {
+        const streamResponse = createDeferredStreamResponse(jsonPayload, {
+          exposeErrors: this.options.development,
+        });
+        return this.applyRouteHeaders(streamResponse, routeHeaders);
+      }
+
+      // Deferred data is resolved and rich types are encoded for the client
+      const jsonResponse = new Response(await serializeLoaderDataAsync(jsonPayload), {
         headers: { 'Content-Type': 'application/json' },
       });
       return this.applyRouteHeaders(jsonResponse, routeHeaders);
@@ -753,6 +909,111 @@ export class BunServer {
     return this.applyRouteHeaders(htmlResponse, routeHeaders);
   }
 
+  /**
+   * Serve a pre-rendered page, regenerating it in the background once stale.
+   * Returns null when the request should be rendered dynamically instead.
+   */
+  private async servePrerendered(
+    request: Request,
+    match: MatchResult,
+    context: RequestContext
+  ): Promise<Response | null> {
+    const config = getPrerenderConfig(match.route);
+    const store = this.prerenderStore;
+    if (!config || !store) return null;
+
+    const pathname = normalizePrerenderPath(match.pathname);
+    const kind = request.headers.get('Accept')?.includes('application/json') ? 'json' : 'html';
+    const page = await store.get(pathname);
+
+    if (page && !page.invalidated) {
+      const body = await store.read(page, kind);
+      if (body !== null) {
+        const stale = store.isStale(page);
+        if (stale) {
+          // Serve the stale page while a fresh one renders
+          this.regeneratePrerendered(pathname, match, config);
+        }
+        return this.createPrerenderedResponse(body, kind, stale ? 'STALE' : 'HIT');
+      }
+    }
+
+    // Known (invalidated) pages always re-render; unknown params follow the fallback policy
+    const fallback = page ? 'blocking' : config.fallback ?? 'blocking';
+    if (fallback === '404') {
+      const notFound = new Response('Not Found', { status: 404 });
+      const errorRoute = await this.findErrorBoundary(match);
+      return errorRoute
+        ? this.renderErrorBoundaryPage(request, match, context, notFound, errorRoute)
+        : notFound;
+    }
+    if (fallback === 'static') {
+      return null;
+    }
+
+    if (!(await this.regeneratePrerendered(pathname, match, config))) {
+      return null;
+    }
+    const fresh = await store.get(pathname);
+    const body = fresh ? await store.read(fresh, kind) : null;
+    return body === null ? null : this.createPrerenderedResponse(body, kind, 'MISS');
+  }
+
+  /**
+   * Render a page for the prerender store, bypassing the store itself.
+   */
+  private regeneratePrerendered(
+    pathname: string,
+    match: MatchResult,
+    config: PrerenderConfig
+  ): Promise<boolean> {
+    const meta = {
+      path: pathname,
+      routeId: match.route.id,
+      tags: resolvePrerenderTags(config, match.params),
+      revalidate: config.revalidate,
+    };
+
+    return this.prerenderStore!.regenerate(meta, () =>
+      renderPrerenderPage((renderRequest) => {
+        this.prerenderRequests.add(renderRequest);
+        return this.handleRequest(renderRequest);
+      }, pathname)
+    );
+  }
+
+  /**
+   * Create a response for a pre-rendered page.
+   */
+  private createPrerenderedResponse(
+    body: string,
+    kind: 'html' | 'json',
+    cacheStatus: 'HIT' | 'STALE' | 'MISS'
+  ): Response {
+    return new Response(body, {
+      headers: {
+        'Content-Type': kind === 'json' ? 'application/json' : 'text/html; charset=utf-8',
+        'X-Ereo-Cache': cacheStatus,
+      },
+    });
+  }
+
+  /**
+   * Mark a shared page private when it issues the visitor's CSRF token
+   * cookie, so CDNs and proxies don't hand that cookie to other visitors.
+   * Later requests carry the cookie and get the shared version.
+   */
+  private keepFromSharedCaches(response: Response): Response {
+    const headers = new Headers(response.headers);
+    headers.set('Cache-Control', 'private, no-store');
+    headers.delete('CDN-Cache-Control');
+    return new Response(response.body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    });
+  }
+
   /**
    * Render a full HTML page with the route component and layouts.
    */
@@ -764,7 +1025,10 @@ export class BunServer {
     layoutLoaderData: Map<string, unknown> = new Map(),
     actionData?: unknown
   ): Promise<Response> {
-    const traceScript = this.getTraceIdScript(context);
+    const i18n = await this.getI18nPayload(match, context);
+    // Stores filled by middleware and loaders are handed to the client
+    const stores = getRequestStores(context);
+    const traceScript = this.getTraceIdScript(context) + (i18n ? getI18nScript(i18n) : '') + getStateScript(stores);
     const module = match.route.module;
     if (!module?.default) {
       // No component to render, return a minimal HTML page with just the data
@@ -781,7 +1045,7 @@ export class BunServer {
     const layoutLinks = (match.layouts || []).flatMap(
       (layout) => layout.module?.links ? layout.module.links() : []
     );
-    const allLinks = [...layoutLinks, ...routeLinks];
+    const allLinks = [...layoutLinks, ...routeLinks, ...this.getLocaleLinks(request)];
 
     // Build the shell template (only used if no root layout provides html/head/body)
     const shell: ShellTemplate = {
@@ -830,6 +1094,21 @@ export class BunServer {
       }
     }
 
+    // Provide the locale and messages so useTranslation works during SSR,
+    // in layouts as well as the page
+    if (i18n) {
+      element = createElement(I18nProvider, { ...i18n, children: element });
+    }
+
+    // Token for forms posting to actions, in layouts as well as the page
+    const csrfToken = this.getPageCsrfToken(request, match, context);
+    if (csrfToken) {
+      element = createElement(CsrfProvider, { token: csrfToken, children: element });
+    }
+
+    // Request-scoped stores for useDefinedStore, in layouts and the page
+    element = createElement(StoreProvider, { registry: stores, children: element });
+
     // Combine all loader data for hydration script
     // Include layout data so the client can access it
     const allLoaderData = layoutLoaderData.size > 0
@@ -858,6 +1137,27 @@ export class BunServer {
     }
   }
 
+  /**
+   * CSRF token to render into a page. Pages shared by all visitors
+   * (pre-rendered or edge-cached) get none; their forms read the token
+   * cookie once hydrated.
+   */
+  private getPageCsrfToken(request: Request, match: MatchResult, context: RequestContext): string | undefined {
+    if (this.options.csrf === false || this.prerenderRequests.has(request)) {
+      return undefined;
+    }
+    return this.isSharedPage(match) ? undefined : context.csrfToken();
+  }
+
+  /**
+   * Check whether the route's pages are shared by all visitors: served from
+   * the prerender store or the response cache.
+   */
+  private isSharedPage(match: MatchResult): boolean {
+    const cacheConfig = match.route.config?.cache || match.route.module?.config?.cache;
+    return Boolean((this.prerenderStore && getPrerenderConfig(match.route)) || (this.responseCache && cacheConfig?.edge));
+  }
+
   /**
    * Render page using React 18 streaming SSR.
    * Uses renderToReadableStream for Bun environments with native Web Streams API.
@@ -936,13 +1236,13 @@ export class BunServer {
                   // Clear the streaming abort timeout — React finished normally.
                   // The deferred resolution gets its own independent timeout below.
                   clearTimeout(timeoutId);
-                  let resolvedData: unknown;
+                  let serializedData: string;
                   let deferredTimeoutId: ReturnType<typeof setTimeout> | undefined;
                   try {
                     // Race against a timeout so a hanging deferred can't stall the stream forever.
-                    resolvedData = await Promise.race([
-                      resolveAllDeferred(loaderData),
-                      new Promise((_, reject) => {
+                    serializedData = await Promise.race([
+                      serializeLoaderDataAsync(loaderData),
+                      new Promise<never>((_, reject) => {
                         deferredTimeoutId = setTimeout(() => reject(new Error('Deferred data resolution timed out')), STREAM_TIMEOUT);
                       }),
                     ]);
@@ -950,9 +1250,9 @@ export class BunServer {
                   } catch (error) {
                     clearTimeout(deferredTimeoutId);
                     console.error('Deferred data resolution failed:', error);
-                    resolvedData = null;
+                    serializedData = serializeLoaderData(null);
                   }
-                  const loaderScript = `${traceScript}<script>window.__EREO_DATA__=${serializeLoaderData(resolvedData)}</script>`;
+                  const loaderScript = `${traceScript}<script>window.__EREO_DATA__=${serializedData}</script>`;
                   const resolvedTail = `</div>\n    ${loaderScript}\n</body>\n</html>`;
                   controller.enqueue(encoder.encode(resolvedTail));
                 } else {
@@ -1109,13 +1409,13 @@ export class BunServer {
               // Clear the streaming abort timeout — React finished normally.
               // The deferred resolution gets its own independent timeout below.
               clearTimeout(timeoutId);
-              let resolvedData: unknown;
+              let serializedData: string;
               let deferredTimeoutId: ReturnType<typeof setTimeout> | undefined;
               try {
                 // Race against a timeout so a hanging deferred can't stall the stream forever.
-                resolvedData = await Promise.race([
-                  resolveAllDeferred(loaderData),
-                  new Promise((_, reject) => {
+                serializedData = await Promise.race([
+                  serializeLoaderDataAsync(loaderData),
+                  new Promise<never>((_, reject) => {
                     deferredTimeoutId = setTimeout(() => reject(new Error('Deferred data resolution timed out')), STREAM_TIMEOUT);
                   }),
                 ]);
@@ -1123,11 +1423,11 @@ export class BunServer {
               } catch (error) {
                 clearTimeout(deferredTimeoutId);
                 console.error('Deferred data resolution failed:', error);
-                resolvedData = null;
+                serializedData = serializeLoaderData(null);
               }
               // Always emit __EREO_DATA__ (even null) so the client has a consistent contract.
               controller.enqueue(encoder.encode(
-                `${traceScript}<script>window.__EREO_DATA__=${serializeLoaderData(resolvedData)}</script>`
+                `${traceScript}<script>window.__EREO_DATA__=${serializedData}</script>`
               ));
             } else if (loaderScript) {
               controller.enqueue(loaderScript);
@@ -1202,9 +1502,11 @@ export class BunServer {
       const { renderToString: reactRenderToString } = await import('react-dom/server');
 
       // String mode doesn't support Suspense streaming — resolve deferred data upfront
-      const resolvedData = hasDeferredData(loaderData)
-        ? await resolveAllDeferred(loaderData)
-        : loaderData;
+      const serializedData = loaderData === undefined
+        ? undefined
+        : (hasDeferredData(loaderData)
+          ? await serializeLoaderDataAsync(loaderData)
+          : serializeLoaderData(loaderData));
 
       let html = reactRenderToString(element);
 
@@ -1216,8 +1518,8 @@ export class BunServer {
       }
 
       // Inject loader data and client script before closing body tag
-      const loaderScript = resolvedData !== undefined
-        ? `${traceScript}<script>window.__EREO_DATA__=${serializeLoaderData(resolvedData)}</script>`
+      const loaderScript = serializedData !== undefined
+        ? `${traceScript}<script>window.__EREO_DATA__=${serializedData}</script>`
         : traceScript;
       const clientScript = `<script type="module" src="${this.options.clientEntry}"></script>`;
       if (html.includes('</body>')) {
@@ -1247,12 +1549,8 @@ export class BunServer {
    */
   private async renderMinimalPage(match: RouteMatch, loaderData: unknown, traceScript: string = ''): Promise<Response> {
     // Resolve any deferred data before serialization
-    const resolvedData = hasDeferredData(loaderData)
-      ? await resolveAllDeferred(loaderData)
-      : loaderData;
-
-    const serializedData = serializeLoaderData({
-      loaderData: resolvedData,
+    const serializedData = await serializeLoaderDataAsync({
+      loaderData,
       params: match.params,
     });
 
@@ -1783,6 +2081,7 @@ export class BunServer {
   async start(): Promise<Server<unknown>> {
     const { port, hostname, tls, websocket } = this.options;
     const upgradeHandlers = this.wsUpgradeHandlers;
+    this.subscribeRevalidation();
 
     // Always build a unified multiplexed WebSocket handler.
     // This routes events to HMR, plugin, or route-level handlers based on ws.data._wsType.
@@ -1895,6 +2194,10 @@ export class BunServer {
    * Stop the server.
    */
   stop(): void {
+    if (this.unsubscribeRevalidate) {
+      this.unsubscribeRevalidate();
+      this.unsubscribeRevalidate = null;
+    }
     if (this.server) {
       this.server.stop();
       this.server = null;
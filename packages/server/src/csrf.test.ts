@@ -0,0 +1,244 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { createElement } from 'react';
+import { CsrfInput } from '@ereo/client';
+import { createContext, generateCsrfToken, CSRF_COOKIE } from '@ereo/core';
+import { verifyCsrf } from './csrf';
+import { BunServer, createServer } from './bun-server';
+
+const token = generateCsrfToken();
+
+function post(headers: Record<string, string> = {}, body?: BodyInit): Request {
+  return new Request('http://localhost/posts', { method: 'POST', headers, body });
+}
+
+async function verify(request: Request, trustedOrigins?: string[]) {
+  return verifyCsrf(request, createContext(request), { trustedOrigins });
+}
+
+describe('@ereo/server - CSRF', () => {
+  describe('verifyCsrf', () => {
+    test('allows same-origin requests without cookies', async () => {
+      expect(await verify(post({ Origin: 'http://localhost' }))).toBeNull();
+      expect(await verify(post({ 'Sec-Fetch-Site': 'same-origin' }))).toBeNull();
+      expect(await verify(post())).toBeNull();
+    });
+
+    test('rejects other origins unless trusted', async () => {
+      const denied = await verify(post({ Origin: 'https://evil.example' }));
+      expect(denied?.status).toBe(403);
+
+      expect(await verify(post({ 'Sec-Fetch-Site': 'cross-site' }))).not.toBeNull();
+      expect(await verify(post({ Origin: 'https://admin.example' }), ['https://admin.example'])).toBeNull();
+    });
+
+    test('accepts same-origin requests behind a TLS-terminating proxy', async () => {
+      const proxied = (headers: Record<string, string>) =>
+        new Request('http://127.0.0.1:3000/posts', { method: 'POST', headers: { Host: 'shop.example', ...headers } });
+
+      expect(await verify(proxied({ Origin: 'https://shop.example' }))).toBeNull();
+      expect(await verify(proxied({ Origin: 'https://shop.example', 'Sec-Fetch-Site': 'same-origin' }))).toBeNull();
+      expect(await verify(proxied({ Origin: 'https://evil.example' }))).not.toBeNull();
+      expect(await verify(proxied({ Origin: 'https://shop.example', 'Sec-Fetch-Site': 'cross-site' }))).not.toBeNull();
+    });
+
+    test('requires the token when the request carries cookies', async () => {
+      const cookie = `${CSRF_COOKIE}=${token}; session=abc`;
+
+      const missing = await verify(post({ Cookie: cookie }));
+      expect(missing?.status).toBe(403);
+      expect(await missing?.text()).toBe('Invalid CSRF token');
+
+      expect(await verify(post({ Cookie: cookie, 'X-CSRF-Token': token }))).toBeNull();
+      expect(await verify(post({ Cookie: 'session=abc', 'X-CSRF-Token': token }))).not.toBeNull();
+    });
+
+    test('reads the token from form posts without consuming the body', async () => {
+      const request = post(
+        { Cookie: `${CSRF_COOKIE}=${token}`, 'Content-Type': 'application/x-www-form-urlencoded' },
+        new URLSearchParams({ _csrf: token, title: 'Hello' })
+      );
+
+      expect(await verify(request)).toBeNull();
+      expect((await request.formData()).get('title')).toBe('Hello');
+    });
+  });
+
+  describe('BunServer', () => {
+    let server: BunServer;
+
+    afterEach(() => {
+      server?.stop();
+    });
+
+    function createCsrfServer(port: number, config?: { csrf: boolean }) {
+      server = createServer({ port, logging: false });
+      server.setRouter({
+        match: (pathname: string) => ({
+          route: {
+            id: pathname,
+            path: pathname,
+            file: `${pathname}.tsx`,
+            config,
+            module: {
+              loader: async () => ({ ok: true }),
+              action: async () => ({ saved: true }),
+            },
+          },
+          params: {},
+          pathname,
+        }),
+        loadModule: async () => {},
+      } as any);
+      return server.start();
+    }
+
+    test('issues the token cookie with pages and checks it on actions', async () => {
+      await createCsrfServer(4890);
+
+      const page = await fetch('http://localhost:4890/posts', { headers: { Accept: 'application/json' } });
+      const setCookie = page.headers.get('Set-Cookie')!;
+      expect(setCookie).toContain(`${CSRF_COOKIE}=`);
+      const issued = setCookie.split(';')[0].split('=')[1];
+
+      const headers = { Accept: 'application/json', Cookie: `${CSRF_COOKIE}=${issued}` };
+      const denied = await fetch('http://localhost:4890/posts', { method: 'POST', headers });
+      expect(denied.status).toBe(403);
+
+      const allowed = await fetch('http://localhost:4890/posts', {
+        method: 'POST',
+        headers: { ...headers, 'X-CSRF-Token': issued },
+      });
+      expect(await allowed.json()).toEqual({ saved: true });
+    });
+
+    test('issues a Secure token cookie outside development', async () => {
+      const issue = async (options: { development: boolean; csrf?: { secure: boolean } }) => {
+        server = createServer({ logging: false, ...options });
+        server.setRouter({
+          match: (pathname: string) => ({
+            route: { id: pathname, path: pathname, file: `${pathname}.tsx`, module: { loader: async () => ({}) } },
+            params: {},
+            pathname,
+          }),
+          loadModule: async () => {},
+        } as any);
+        // Plain HTTP, as behind a TLS-terminating proxy
+        const request = new Request('http://127.0.0.1:3000/posts', { headers: { Accept: 'application/json' } });
+        return (await server.handle(request)).headers.get('Set-Cookie');
+      };
+
+      expect(await issue({ development: false })).toContain('; Secure');
+      expect(await issue({ development: true })).not.toContain('Secure');
+      expect(await issue({ development: false, csrf: { secure: false } })).not.toContain('Secure');
+    });
+
+    test('provides the token to layouts', async () => {
+      server = createServer({ logging: false, renderMode: 'string' });
+      server.setRouter({
+        match: (pathname: string) => ({
+          route: { id: pathname, path: pathname, file: `${pathname}.tsx`, module: { default: () => null } },
+          params: {},
+          pathname,
+          layouts: [
+            {
+              id: '_layout',
+              path: '/',
+              file: '/app/routes/_layout.tsx',
+              layout: true,
+              module: { default: ({ children }: any) => createElement('form', null, createElement(CsrfInput), children) },
+            },
+          ],
+        }),
+        loadModule: async () => {},
+      } as any);
+
+      const response = await server.handle(new Request('http://localhost/posts'));
+      const issued = response.headers.get('Set-Cookie')!.split(';')[0].split('=')[1];
+      expect(await response.text()).toContain(`name="_csrf" value="${issued}"`);
+    });
+
+    test('keeps pages that issue the token out of shared caches', async () => {
+      server = createServer({ logging: false, renderMode: 'string', responseCache: true });
+      server.setRouter({
+        match: (pathname: string) => ({
+          route: {
+            id: pathname,
+            path: pathname,
+            file: `${pathname}.tsx`,
+            config: { cache: { edge: { maxAge: 60 } } },
+            module: { default: () => createElement('p', null, 'Posts') },
+          },
+          params: {},
+          pathname,
+        }),
+        loadModule: async () => {},
+      } as any);
+
+      const first = await server.handle(new Request('http://localhost/posts'));
+      expect(first.headers.get('Set-Cookie')).toContain(`${CSRF_COOKIE}=`);
+      expect(first.headers.get('Cache-Control')).toBe('private, no-store');
+      expect(first.headers.has('CDN-Cache-Control')).toBe(false);
+
+      const returning = await server.handle(
+        new Request('http://localhost/posts', { headers: { Cookie: `${CSRF_COOKIE}=${token}` } })
+      );
+      expect(returning.headers.get('Set-Cookie')).toBeNull();
+      expect(returning.headers.get('Cache-Control')).toContain('s-maxage=60');
+    });
+
+    test('accepts native form posts from pre-rendered pages without a token', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'ereo-csrf-'));
+      server = createServer({ logging: false, renderMode: 'string', prerender: { dir } });
+      server.setRouter({
+        match: (pathname: string) => ({
+          route: {
+            id: pathname,
+            path: pathname,
+            file: `${pathname}.tsx`,
+            config: { render: { mode: 'ssg' } },
+            module: { default: () => null, action: async () => ({ saved: true }) },
+          },
+          params: {},
+          pathname,
+        }),
+        loadModule: async () => {},
+      } as any);
+
+      // Sent before hydration: the hidden field is still empty
+      const submit = (headers: Record<string, string>, csrf = '') =>
+        server.handle(
+          new Request('http://localhost/newsletter', {
+            method: 'POST',
+            headers: {
+              Cookie: `${CSRF_COOKIE}=${token}; session=abc`,
+              'Content-Type': 'application/x-www-form-urlencoded',
+              ...headers,
+            },
+            body: new URLSearchParams({ _csrf: csrf, email: 'ada@example.com' }),
+          })
+        );
+
+      try {
+        expect((await submit({ Origin: 'http://localhost' })).status).toBe(200);
+        expect((await submit({ 'Sec-Fetch-Site': 'same-origin' })).status).toBe(200);
+        expect((await submit({})).status).toBe(403);
+        expect((await submit({ Origin: 'http://localhost' }, 'forged')).status).toBe(403);
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    test('skips routes that opt out', async () => {
+      await createCsrfServer(4891, { csrf: false });
+
+      const response = await fetch('http://localhost:4891/webhook', {
+        method: 'POST',
+        headers: { Accept: 'application/json', Origin: 'https://payments.example' },
+      });
+      expect(response.status).toBe(200);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * @ereo/server - CSRF Protection
+ *
+ * Verification of route actions against cross-site request forgery.
+ * Browsers name the submitting site in `Origin` and `Sec-Fetch-Site`;
+ * requests that carry cookies must also send back the token cookie's
+ * value (see `context.csrfToken()`), as the `_csrf` field of form posts or
+ * the `X-CSRF-Token` header of fetch submissions.
+ */
+
+import type { AppContext, CsrfConfig } from '@ereo/core';
+import { CSRF_COOKIE, CSRF_FIELD, CSRF_HEADER, verifyCsrfToken } from '@ereo/core';
+
+function forbidden(message: string): Response {
+  return new Response(message, { status: 403 });
+}
+
+/**
+ * Where a request was sent from: the app itself or a trusted origin, another
+ * site, or unknown when the browser sends neither `Origin` nor
+ * `Sec-Fetch-Site` (older browsers and non-browser clients).
+ */
+type RequestOrigin = 'same-origin' | 'cross-origin' | 'unknown';
+
+function getRequestOrigin(request: Request, config: CsrfConfig): RequestOrigin {
+  // Fetch Metadata names the initiator, whatever proxies sit in between.
+  // 'none' means the user started the request, e.g. from the address bar.
+  const site = request.headers.get('Sec-Fetch-Site');
+  if (site === 'same-origin' || site === 'none') {
+    return 'same-origin';
+  }
+
+  const origin = request.headers.get('Origin');
+  if (origin === null) {
+    return site === null ? 'unknown' : 'cross-origin';
+  }
+  if (config.trustedOrigins?.includes(origin)) {
+    return 'same-origin';
+  }
+  if (site !== null) {
+    return 'cross-origin';
+  }
+
+  // Compare with the Host header rather than the request URL, whose protocol
+  // is the internal one behind a TLS-terminating proxy
+  const host = request.headers.get('Host') ?? new URL(request.url).host;
+  try {
+    return new URL(origin).host === host.toLowerCase() ? 'same-origin' : 'cross-origin';
+  } catch {
+    return 'cross-origin';
+  }
+}
+
+/**
+ * Read the token sent with the request: the header, or the form field of
+ * form posts.
+ */
+async function getSubmittedToken(request: Request): Promise<string | null> {
+  const header = request.headers.get(CSRF_HEADER);
+  if (header) return header;
+
+  const contentType = request.headers.get('Content-Type') || '';
+  if (
+    !contentType.includes('application/x-www-form-urlencoded') &&
+    !contentType.includes('multipart/form-data')
+  ) {
+    return null;
+  }
+
+  try {
+    // Clone so the action can still read the body
+    const field = (await request.clone().formData()).get(CSRF_FIELD);
+    return typeof field === 'string' ? field : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Options for verifying an action request.
+ */
+export interface VerifyCsrfOptions {
+  /**
+   * The route's pages are shared by all visitors (pre-rendered or
+   * edge-cached) and rendered without a token, so native form posts sent
+   * before hydration carry none. Such posts are accepted when the browser
+   * names the app's origin.
+   */
+  sharedPage?: boolean;
+}
+
+/**
+ * Verify a route action request before it runs.
+ * Returns a 403 Response if the request is rejected, or null if it may proceed.
+ */
+export async function verifyCsrf(
+  request: Request,
+  context: AppContext,
+  config: CsrfConfig = {},
+  options: VerifyCsrfOptions = {}
+): Promise<Response | null> {
+  const origin = getRequestOrigin(request, config);
+  if (origin === 'cross-origin') {
+    return forbidden('Cross-site action request rejected');
+  }
+
+  // Requests without cookies carry no credentials to abuse
+  if (!request.headers.get('Cookie')) {
+    return null;
+  }
+
+  const submitted = await getSubmittedToken(request);
+  if (!submitted && options.sharedPage && origin === 'same-origin') {
+    return null;
+  }
+
+  const expected = context.cookies?.get(CSRF_COOKIE);
+  if (!verifyCsrfToken(expected, submitted)) {
+    return forbidden('Invalid CSRF token');
+  }
+
+  return null;
+}
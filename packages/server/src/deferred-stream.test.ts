@@ -0,0 +1,133 @@
+import { describe, expect, test } from 'bun:test';
+import { createElement } from 'react';
+import { parseData } from '@ereo/core';
+import { defer } from '@ereo/data';
+import { BunServer } from './bun-server';
+import {
+  DEFERRED_STREAM_CONTENT_TYPE,
+  createDeferredStreamResponse,
+  extractDeferred,
+} from './deferred-stream';
+
+async function readFrames(response: Response): Promise<any[]> {
+  const text = await response.text();
+  return text.trim().split('\n').map((line) => parseData(line));
+}
+
+function quietly<T>(fn: () => Promise<T>): Promise<T> {
+  const error = console.error;
+  console.error = () => {};
+  return fn().finally(() => {
+    console.error = error;
+  });
+}
+
+describe('@ereo/server - extractDeferred', () => {
+  test('replaces deferred values and promises with ids', () => {
+    const comments = defer(Promise.resolve(['a']));
+    const views = Promise.resolve(1);
+    const { payload, deferred, promises } = extractDeferred({
+      data: { title: 'Post', comments, views, at: new Date(0) },
+      matches: [{ data: { comments } }],
+    });
+
+    expect(payload).toEqual({
+      data: { title: 'Post', comments: null, views: null, at: new Date(0) },
+      matches: [{ data: { comments: null } }],
+    });
+    expect(deferred).toEqual({ '/data/comments': 0, '/data/views': 1, '/matches/0/data/comments': 0 });
+    expect(promises).toEqual([comments.promise, views]);
+  });
+});
+
+describe('@ereo/server - createDeferredStreamResponse', () => {
+  test('sends the payload first and each value as it settles', async () => {
+    let resolveSlow!: (value: Date) => void;
+    const slow = new Promise<Date>((resolve) => {
+      resolveSlow = resolve;
+    });
+    const response = createDeferredStreamResponse({ fast: Promise.resolve(1n), slow, title: 'x' });
+    expect(response.headers.get('Content-Type')).toBe(DEFERRED_STREAM_CONTENT_TYPE);
+
+    setTimeout(() => resolveSlow(new Date(0)), 5);
+    const frames = await readFrames(response);
+
+    expect(frames[0]).toEqual({
+      type: 'payload',
+      payload: { fast: null, slow: null, title: 'x' },
+      deferred: { '/fast': 0, '/slow': 1 },
+    });
+    expect(frames[1]).toEqual({ type: 'resolve', id: 0, value: 1n });
+    expect(frames[2]).toEqual({ type: 'resolve', id: 1, value: new Date(0) });
+  });
+
+  test('hides rejection messages unless exposeErrors is set', async () => {
+    const [hidden] = await quietly(() =>
+      readFrames(createDeferredStreamResponse({ a: Promise.reject(new Error('secret')) })).then((f) => f.slice(1))
+    );
+    expect(hidden.type).toBe('reject');
+    expect(hidden.error.message).toBe('Deferred data failed to load');
+
+    const [exposed] = await quietly(() =>
+      readFrames(
+        createDeferredStreamResponse({ a: Promise.reject(new Error('secret')) }, { exposeErrors: true })
+      ).then((f) => f.slice(1))
+    );
+    expect(exposed.error.message).toBe('secret');
+  });
+
+  test('rejects values that do not settle before the timeout', async () => {
+    const frames = await quietly(() =>
+      readFrames(createDeferredStreamResponse({ never: new Promise(() => {}) }, { timeout: 5, exposeErrors: true }))
+    );
+    expect(frames[1]).toMatchObject({ type: 'reject', id: 0 });
+    expect(frames[1].error.message).toContain('timed out');
+  });
+});
+
+describe('@ereo/server - BunServer deferred navigation', () => {
+  function setup() {
+    const route = {
+      id: '/posts/[id]',
+      path: '/posts/[id]',
+      file: '/app/routes/posts/[id].tsx',
+      module: {
+        default: ({ loaderData }: any) => createElement('p', null, loaderData.title),
+        loader: async () => ({
+          title: 'Hello',
+          comments: defer(new Promise((resolve) => setTimeout(() => resolve(['first']), 5))),
+        }),
+      },
+    };
+    const server = new BunServer({ logging: false, renderMode: 'string' });
+    server.setRouter({
+      match: (pathname: string) => ({ route, params: { id: '1' }, pathname }),
+      loadModule: async () => {},
+    } as any);
+    return server;
+  }
+
+  test('streams deferred data to clients that accept it', async () => {
+    const server = setup();
+    const response = await server.handle(
+      new Request('http://localhost/posts/1', {
+        headers: { Accept: `${DEFERRED_STREAM_CONTENT_TYPE}, application/json` },
+      })
+    );
+    expect(response.headers.get('Content-Type')).toBe(DEFERRED_STREAM_CONTENT_TYPE);
+
+    const [first, ...rest] = await readFrames(response);
+    expect(first.payload.data).toEqual({ title: 'Hello', comments: null });
+    expect(first.deferred).toEqual({ '/data/comments': 0, '/matches/0/data/comments': 0 });
+    expect(rest).toEqual([{ type: 'resolve', id: 0, value: ['first'] }]);
+  });
+
+  test('resolves deferred data for plain JSON clients', async () => {
+    const server = setup();
+    const response = await server.handle(
+      new Request('http://localhost/posts/1', { headers: { Accept: 'application/json' } })
+    );
+    expect(response.headers.get('Content-Type')).toBe('application/json');
+    expect(parseData<any>(await response.text()).data).toEqual({ title: 'Hello', comments: ['first'] });
+  });
+});
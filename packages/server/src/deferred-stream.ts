@@ -0,0 +1,155 @@
+/**
+ * @ereo/server - Deferred Data Streaming
+ *
+ * Streams loader data for client-side navigation as newline-delimited JSON.
+ * The first frame carries the navigation payload with every deferred value
+ * left out; each deferred value follows in its own frame as it settles.
+ */
+
+import { serializeData } from '@ereo/core';
+import { isDeferred, serializeLoaderDataAsync } from '@ereo/data';
+
+/** Content type of a deferred data stream */
+export const DEFERRED_STREAM_CONTENT_TYPE = 'application/x-ndjson';
+
+/**
+ * A frame of a deferred data stream. Each frame is one line of `serializeData` output.
+ */
+export type DeferredStreamFrame =
+  | {
+      type: 'payload';
+      /** The navigation payload, with deferred values set to null */
+      payload: unknown;
+      /** JSON pointer paths of deferred values, mapped to their ids */
+      deferred: Record<string, number>;
+    }
+  | { type: 'resolve'; id: number; value: unknown }
+  | { type: 'reject'; id: number; error: Error };
+
+/**
+ * Options for streaming deferred data.
+ */
+export interface DeferredStreamOptions {
+  /** Reject values that have not settled after this many milliseconds (default: 10000) */
+  timeout?: number;
+  /** Send rejection messages to the client (default: false, a generic message is sent) */
+  exposeErrors?: boolean;
+  /** Extra response headers */
+  headers?: HeadersInit;
+}
+
+/**
+ * Check whether a request accepts a deferred data stream.
+ */
+export function acceptsDeferredStream(request: Request): boolean {
+  return request.headers.get('Accept')?.includes(DEFERRED_STREAM_CONTENT_TYPE) ?? false;
+}
+
+function isPlainObject(value: object): boolean {
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Split a payload into its immediate part and its deferred promises.
+ * The same deferred value reachable from several paths gets a single id.
+ */
+export function extractDeferred(payload: unknown): {
+  payload: unknown;
+  deferred: Record<string, number>;
+  promises: Promise<unknown>[];
+} {
+  const deferred: Record<string, number> = {};
+  const promises: Promise<unknown>[] = [];
+  const ids = new Map<object, number>();
+
+  const walk = (value: unknown, path: string): unknown => {
+    if (value === null || typeof value !== 'object') return value;
+
+    if (isDeferred(value) || value instanceof Promise) {
+      let id = ids.get(value);
+      if (id === undefined) {
+        id = promises.length;
+        ids.set(value, id);
+        promises.push(isDeferred(value) ? value.promise : (value as Promise<unknown>));
+      }
+      deferred[path] = id;
+      return null;
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item, index) => walk(item, `${path}/${index}`));
+    }
+
+    if (!isPlainObject(value)) return value;
+
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = walk(item, `${path}/${key.replace(/~/g, '~0').replace(/\//g, '~1')}`);
+    }
+    return result;
+  };
+
+  return { payload: walk(payload, ''), deferred, promises };
+}
+
+/**
+ * Create a streaming response for a navigation payload containing deferred data.
+ */
+export function createDeferredStreamResponse(
+  payload: unknown,
+  options: DeferredStreamOptions = {}
+): Response {
+  const { timeout = 10000, exposeErrors = false } = options;
+  const extracted = extractDeferred(payload);
+  const encoder = new TextEncoder();
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (frame: DeferredStreamFrame | string) => {
+        const line = typeof frame === 'string' ? frame : serializeData(frame);
+        controller.enqueue(encoder.encode(`${line}\n`));
+      };
+
+      const toClientError = (error: unknown): Error => {
+        if (exposeErrors && error instanceof Error) return error;
+        return new Error(exposeErrors ? String(error) : 'Deferred data failed to load');
+      };
+
+      send({ type: 'payload', payload: extracted.payload, deferred: extracted.deferred });
+
+      const timedOut = new Promise<never>((_, reject) => {
+        timeoutId = setTimeout(() => reject(new Error('Deferred data resolution timed out')), timeout);
+      });
+      // Values may settle after the timeout; never leave it unhandled
+      timedOut.catch(() => {});
+
+      Promise.all(
+        extracted.promises.map(async (promise, id) => {
+          try {
+            const value = await Promise.race([promise, timedOut]);
+            // Deferred values and promises nested in the value are resolved too
+            send(await serializeLoaderDataAsync({ type: 'resolve', id, value }));
+          } catch (error) {
+            console.error('Deferred data resolution failed:', error);
+            send({ type: 'reject', id, error: toClientError(error) });
+          }
+        })
+      )
+        .then(() => controller.close())
+        .catch(() => {
+          // The client went away mid-stream
+        })
+        .finally(() => clearTimeout(timeoutId));
+    },
+    cancel() {
+      clearTimeout(timeoutId);
+    },
+  });
+
+  const headers = new Headers(options.headers);
+  headers.set('Content-Type', DEFERRED_STREAM_CONTENT_TYPE);
+
+  return new Response(stream, { headers });
+}
@@ -0,0 +1,108 @@
+/**
+ * @ereo/server - Content Encoding
+ *
+ * Accept-Encoding negotiation shared by static file serving
+ * (precompressed files) and the compress() middleware.
+ */
+
+/**
+ * Supported content encodings.
+ */
+export type ContentEncoding = 'br' | 'zstd' | 'gzip';
+
+/**
+ * File extensions of precompressed siblings, by encoding.
+ */
+export const ENCODING_EXTENSIONS: Record<ContentEncoding, string> = {
+  br: '.br',
+  zstd: '.zst',
+  gzip: '.gz',
+};
+
+/**
+ * Parse an Accept-Encoding header into encoding → quality.
+ */
+function parseAcceptEncoding(header: string): Map<string, number> {
+  const accepted = new Map<string, number>();
+
+  for (const part of header.split(',')) {
+    const [name, ...params] = part.trim().toLowerCase().split(';');
+    if (!name) continue;
+
+    let quality = 1;
+    for (const param of params) {
+      const [key, value] = param.trim().split('=');
+      if (key === 'q') {
+        const q = Number(value);
+        quality = Number.isFinite(q) ? q : 0;
+      }
+    }
+
+    accepted.set(name === 'x-gzip' ? 'gzip' : name, quality);
+  }
+
+  return accepted;
+}
+
+/**
+ * Pick the encoding to respond with.
+ *
+ * Returns the available encoding the client gives the highest quality,
+ * preferring earlier entries of `available` on ties, or null when the
+ * client accepts none of them.
+ *
+ * @example
+ * negotiateEncoding('gzip, br;q=0.9', ['br', 'gzip']); // 'gzip'
+ * negotiateEncoding('gzip, br', ['br', 'gzip']);       // 'br'
+ */
+export function negotiateEncoding<E extends ContentEncoding>(
+  acceptEncoding: string | null,
+  available: readonly E[]
+): E | null {
+  if (!acceptEncoding) {
+    return null;
+  }
+
+  const accepted = parseAcceptEncoding(acceptEncoding);
+  let best: E | null = null;
+  let bestQuality = 0;
+
+  for (const encoding of available) {
+    const quality = accepted.get(encoding) ?? accepted.get('*') ?? 0;
+    if (quality > bestQuality) {
+      best = encoding;
+      bestQuality = quality;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Whether a content type benefits from compression.
+ */
+export function isCompressible(contentType: string): boolean {
+  const type = contentType.split(';')[0].trim().toLowerCase();
+  return (
+    type.startsWith('text/') ||
+    type === 'application/json' ||
+    type === 'application/javascript' ||
+    type === 'application/xml' ||
+    type === 'application/wasm' ||
+    type === 'image/svg+xml' ||
+    type.endsWith('+json') ||
+    type.endsWith('+xml')
+  );
+}
+
+/**
+ * Add a value to the Vary header, keeping the values already there.
+ */
+export function appendVary(headers: Headers, value: string): void {
+  const current = headers.get('Vary');
+  if (!current) {
+    headers.set('Vary', value);
+  } else if (!current.split(',').some((v) => v.trim().toLowerCase() === value.toLowerCase())) {
+    headers.set('Vary', `${current}, ${value}`);
+  }
+}
@@ -0,0 +1,234 @@
+import { describe, expect, test, afterEach } from 'bun:test';
+import { createElement } from 'react';
+import { createContext, type I18nConfig, type Route } from '@ereo/core';
+import { useLocale } from '@ereo/client';
+import { localeDetection, detectLocale, mergeMessages, loadRouteMessages, getI18nScript } from './i18n';
+import { createServer, type BunServer } from './bun-server';
+
+const config: I18nConfig = { locales: ['en', 'fr', 'de'], defaultLocale: 'en' };
+
+function pageRequest(url: string, headers: Record<string, string> = {}): Request {
+  return new Request(url, { headers: { Accept: 'text/html', ...headers } });
+}
+
+async function run(request: Request, i18n: I18nConfig = config) {
+  const context = createContext(request);
+  let reached = false;
+  const response = await localeDetection(i18n)(request, context, async () => {
+    reached = true;
+    return new Response('ok');
+  });
+  return { response, context, reached };
+}
+
+describe('@ereo/server - i18n', () => {
+  describe('detectLocale', () => {
+    test('prefers the locale cookie over Accept-Language', () => {
+      const request = pageRequest('http://localhost/', {
+        Cookie: 'ereo-locale=de',
+        'Accept-Language': 'fr',
+      });
+      expect(detectLocale(request, createContext(request), config)).toBe('de');
+    });
+
+    test('falls back to the default locale', () => {
+      const request = pageRequest('http://localhost/', { 'Accept-Language': 'ja' });
+      expect(detectLocale(request, createContext(request), config)).toBe('en');
+    });
+  });
+
+  describe('localeDetection', () => {
+    test('sets the locale of prefixed URLs and remembers it', async () => {
+      const { response, context, reached } = await run(pageRequest('http://localhost/fr/about'));
+
+      expect(reached).toBe(true);
+      expect(context.get('locale')).toBe('fr');
+      expect(context.applyToResponse(response).headers.get('Set-Cookie')).toContain('ereo-locale=fr');
+    });
+
+    test('redirects unprefixed page requests to the detected locale', async () => {
+      const { response, reached } = await run(
+        pageRequest('http://localhost/about?tab=1', { 'Accept-Language': 'fr-CA, en;q=0.5' })
+      );
+
+      expect(reached).toBe(false);
+      expect(response.status).toBe(302);
+      expect(response.headers.get('Location')).toBe('/fr/about?tab=1');
+      expect(response.headers.get('Vary')).toBe('Accept-Language, Cookie');
+    });
+
+    test('serves the default locale without a redirect', async () => {
+      const { response, context } = await run(pageRequest('http://localhost/about', { 'Accept-Language': 'en' }));
+
+      expect(response.status).toBe(200);
+      expect(context.get('locale')).toBe('en');
+    });
+
+    test('redirects the default locale prefix to the canonical URL', async () => {
+      const { response, context } = await run(pageRequest('http://localhost/en/about'));
+
+      expect(response.status).toBe(302);
+      expect(response.headers.get('Location')).toBe('/about');
+      // The cookie is set so that the unprefixed URL keeps the chosen locale
+      expect(context.cookies.get('ereo-locale')).toBe('en');
+    });
+
+    test('never redirects to another host', async () => {
+      for (const url of ['http://localhost/en//evil.com', 'http://localhost/en/%5Cevil.com', 'http://localhost/en/\\evil.com']) {
+        const { response } = await run(pageRequest(url));
+        const location = response.headers.get('Location')!;
+
+        expect(new URL(location, 'http://localhost').host).toBe('localhost');
+        expect(location).toMatch(/^\/[^/\\]/);
+      }
+    });
+
+    test('does not redirect data requests', async () => {
+      const request = new Request('http://localhost/about', {
+        headers: { Accept: 'application/json', 'Accept-Language': 'fr' },
+      });
+      const { response, context } = await run(request);
+
+      expect(response.status).toBe(200);
+      expect(context.get('locale')).toBe('en');
+    });
+
+    test('does not detect when detection is disabled', async () => {
+      const { response } = await run(
+        pageRequest('http://localhost/about', { 'Accept-Language': 'fr' }),
+        { ...config, detect: false }
+      );
+      expect(response.status).toBe(200);
+    });
+
+    test('uses the locale of a locale domain', async () => {
+      const { response, context } = await run(pageRequest('http://example.fr/about'), {
+        ...config,
+        domains: [{ domain: 'example.fr', locale: 'fr' }],
+      });
+
+      expect(response.status).toBe(200);
+      expect(context.get('locale')).toBe('fr');
+    });
+  });
+
+  describe('messages', () => {
+    test('mergeMessages merges namespaces', () => {
+      expect(mergeMessages({ nav: { home: 'Home', about: 'About' } }, { nav: { about: 'About us' }, title: 'Hi' })).toEqual({
+        nav: { home: 'Home', about: 'About us' },
+        title: 'Hi',
+      });
+    });
+
+    test('loadRouteMessages loads and merges route and layout messages', async () => {
+      const routes = [
+        { id: '_layout', path: '/', file: '', module: { messages: () => ({ nav: { home: 'Accueil' } }) } },
+        { id: 'about', path: '/about', file: '', module: { messages: async ({ locale }: { locale: string }) => ({ default: { title: `About (${locale})` } }) } },
+        { id: 'plain', path: '/plain', file: '', module: {} },
+      ] as unknown as Route[];
+
+      expect(await loadRouteMessages(routes, 'fr')).toEqual({
+        nav: { home: 'Accueil' },
+        title: 'About (fr)',
+      });
+    });
+
+    test('getI18nScript escapes markup in messages', () => {
+      const script = getI18nScript({ locale: 'en', messages: { x: '</script><script>alert(1)' }, config });
+      expect(script).not.toContain('</script><script>');
+      expect(script).toContain('window.__EREO_I18N__=');
+    });
+  });
+
+  describe('BunServer with i18n', () => {
+    let server: BunServer;
+
+    afterEach(() => {
+      server?.stop();
+    });
+
+    function createI18nServer(port: number) {
+      server = createServer({ port, logging: false, i18n: config });
+      server.setRouter({
+        match: (pathname: string) =>
+          pathname === '/about'
+            ? {
+                route: {
+                  id: '/about',
+                  path: '/about',
+                  file: '/about.tsx',
+                  module: {
+                    loader: async () => ({ ok: true }),
+                    messages: ({ locale }: { locale: string }) => ({ title: locale === 'fr' ? 'À propos' : 'About' }),
+                  },
+                },
+                params: {},
+                pathname,
+              }
+            : null,
+        loadModule: async () => {},
+      } as any);
+      return server.start();
+    }
+
+    test('matches prefixed URLs and sends messages and alternates with loader data', async () => {
+      await createI18nServer(4880);
+
+      const response = await fetch('http://localhost:4880/fr/about', {
+        headers: { Accept: 'application/json' },
+      });
+
+      expect(response.status).toBe(200);
+      const json = await response.json();
+      expect(json.data).toEqual({ ok: true });
+      expect(json.i18n).toEqual({ locale: 'fr', messages: { title: 'À propos' } });
+      expect(json.links).toContainEqual({
+        rel: 'alternate',
+        hreflang: 'fr',
+        href: 'http://localhost:4880/fr/about',
+      });
+      expect(json.links).toContainEqual({
+        rel: 'alternate',
+        hreflang: 'x-default',
+        href: 'http://localhost:4880/about',
+      });
+    });
+
+    test('embeds the locale state in rendered pages', async () => {
+      await createI18nServer(4881);
+
+      const response = await fetch('http://localhost:4881/fr/about', {
+        headers: { Accept: 'text/html' },
+      });
+
+      expect(response.status).toBe(200);
+      const html = await response.text();
+      expect(html).toContain('window.__EREO_I18N__=');
+      expect(html).toContain('"locale":"fr"');
+    });
+
+    test('provides the locale to layouts', async () => {
+      server = createServer({ logging: false, i18n: config, renderMode: 'string' });
+      server.setRouter({
+        match: (pathname: string) => ({
+          route: { id: '/about', path: '/about', file: '/about.tsx', module: { default: () => createElement('p', null, 'page') } },
+          params: {},
+          pathname,
+          layouts: [
+            {
+              id: '_layout',
+              path: '/',
+              file: '/_layout.tsx',
+              layout: true,
+              module: { default: ({ children }: any) => createElement('main', { lang: useLocale() }, children) },
+            },
+          ],
+        }),
+        loadModule: async () => {},
+      } as any);
+
+      const response = await server.handle(new Request('http://localhost/fr/about', { headers: { Accept: 'text/html' } }));
+      expect(await response.text()).toContain('<main lang="fr"><p>page</p></main>');
+    });
+  });
+});
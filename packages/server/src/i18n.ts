@@ -0,0 +1,143 @@
+/**
+ * @ereo/server - Internationalization
+ *
+ * Locale detection for locale-prefixed routing, and loading of the
+ * per-route message bundles that are delivered with loader data.
+ */
+
+import type { AppContext, I18nConfig, Messages, MiddlewareHandler, Route } from '@ereo/core';
+import { DEFAULT_LOCALE_COOKIE, resolveLocale, localizePath, parseAcceptLanguage, matchLocale } from '@ereo/core';
+
+/** One year, in seconds */
+const LOCALE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+/**
+ * The locale state sent to the client (`window.__EREO_I18N__` and the
+ * `i18n` field of navigation responses).
+ */
+export interface I18nPayload {
+  locale: string;
+  messages: Messages;
+  config: I18nConfig;
+}
+
+function localeCookieName(config: I18nConfig): string | null {
+  return config.cookie === false ? null : config.cookie ?? DEFAULT_LOCALE_COOKIE;
+}
+
+/** Browser page loads, as opposed to data requests and API calls */
+function isPageRequest(request: Request): boolean {
+  return (
+    (request.method === 'GET' || request.method === 'HEAD') &&
+    (request.headers.get('Accept')?.includes('text/html') ?? false)
+  );
+}
+
+/**
+ * Pick the locale for a request that names none: the locale cookie,
+ * then `Accept-Language`, then the default locale.
+ */
+export function detectLocale(request: Request, context: AppContext, config: I18nConfig): string {
+  const cookieName = localeCookieName(config);
+  const cookie = cookieName ? context.cookies?.get(cookieName) : undefined;
+  const requested = [
+    ...(cookie ? [cookie] : []),
+    ...parseAcceptLanguage(request.headers.get('Accept-Language')),
+  ];
+  return matchLocale(requested, config.locales) ?? config.defaultLocale;
+}
+
+/**
+ * Locale detection middleware. Added automatically when the server has an
+ * `i18n` config.
+ *
+ * - Sets the request locale (`context.get('locale')`) from the URL prefix or domain
+ * - Redirects unprefixed page requests to the locale from the cookie or `Accept-Language`
+ * - Redirects non-canonical URLs (`/en/about` when `en` is unprefixed) to their canonical form
+ * - Remembers the locale of prefixed URLs in a cookie
+ */
+export function localeDetection(config: I18nConfig): MiddlewareHandler {
+  const cookieName = localeCookieName(config);
+
+  return async (request, context, next) => {
+    const url = new URL(request.url);
+    const resolved = resolveLocale(url, config);
+    const pageRequest = isPageRequest(request);
+
+    const rememberLocale = (locale: string) => {
+      if (cookieName && context.cookies && context.cookies.get(cookieName) !== locale) {
+        context.cookies.set(cookieName, locale, {
+          path: '/',
+          maxAge: LOCALE_COOKIE_MAX_AGE,
+          httpOnly: false,
+          sameSite: 'Lax',
+        });
+      }
+    };
+
+    let target: string | null = null;
+    if (resolved.source === 'path') {
+      rememberLocale(resolved.locale);
+      target = localizePath(url.pathname, resolved.locale, config, url.host);
+    } else if (resolved.source === 'default' && pageRequest && config.detect !== false) {
+      target = localizePath(url.pathname, detectLocale(request, context, config), config, url.host);
+    }
+
+    // `/en//evil.com` must not redirect to the protocol-relative `//evil.com`
+    if (target) {
+      target = target.replace(/^[/\\]+/, '/');
+    }
+
+    if (pageRequest && target && target !== url.pathname) {
+      return new Response(null, {
+        status: 302,
+        headers: { Location: target + url.search, Vary: 'Accept-Language, Cookie' },
+      });
+    }
+
+    context.set('locale', resolved.locale);
+    return next();
+  };
+}
+
+function isMessages(value: unknown): value is Messages {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Merge message bundles. Later bundles win; namespaces are merged.
+ */
+export function mergeMessages(...bundles: Messages[]): Messages {
+  const result: Messages = {};
+  for (const bundle of bundles) {
+    for (const [key, value] of Object.entries(bundle)) {
+      const existing = result[key];
+      result[key] = isMessages(existing) && isMessages(value) ? mergeMessages(existing, value) : value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Load and merge the messages of a matched route and its layouts
+ * (outermost layout first, so the route's own messages win).
+ */
+export async function loadRouteMessages(routes: Route[], locale: string): Promise<Messages> {
+  const bundles = await Promise.all(
+    routes.map(async (route) => {
+      const loaded = await route.module?.messages?.({ locale });
+      // Support `import('./fr.json')`, which resolves to a module
+      return isMessages(loaded) && isMessages(loaded.default) ? loaded.default : (loaded as Messages | undefined);
+    })
+  );
+  return mergeMessages(...bundles.filter(isMessages));
+}
+
+/**
+ * Render the script that hands the locale state to the client.
+ */
+export function getI18nScript(payload: I18nPayload): string {
+  // Escape `<` so messages cannot close the script element
+  const json = JSON.stringify(payload).replace(/</g, '\\u003c');
+  return `<script>window.__EREO_I18N__=${json}</script>`;
+}
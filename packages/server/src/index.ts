@@ -28,6 +28,7 @@ export type {
   MiddlewareDefinition,
   CorsOptions,
   SecurityHeadersOptions,
+  CompressOptions,
   RateLimitOptions,
 } from './middleware';
 
@@ -47,6 +48,9 @@ export {
   resolveCheckResult,
 } from './auth-enforcement';
 
+// CSRF Protection
+export { verifyCsrf } from './csrf';
+
 // Static Files
 export {
   serveStatic,
@@ -56,6 +60,11 @@ export {
 
 export type { StaticOptions } from './static';
 
+// Content Encoding
+export { negotiateEncoding } from './encoding';
+
+export type { ContentEncoding } from './encoding';
+
 // Streaming
 export {
   createShell,
@@ -69,3 +78,57 @@ export type {
   ShellTemplate,
   RenderResult,
 } from './streaming';
+
+// Deferred Data Streaming
+export {
+  DEFERRED_STREAM_CONTENT_TYPE,
+  acceptsDeferredStream,
+  extractDeferred,
+  createDeferredStreamResponse,
+} from './deferred-stream';
+
+export type {
+  DeferredStreamFrame,
+  DeferredStreamOptions,
+} from './deferred-stream';
+
+// Static Generation (SSG/ISR)
+export {
+  prerender,
+  collectPrerenderTargets,
+  renderPrerenderPage,
+  PrerenderStore,
+  createPrerenderStore,
+  getPrerenderConfig,
+  isPrerenderRoute,
+  resolvePrerenderTags,
+  normalizePrerenderPath,
+  prerenderFilePath,
+  PRERENDER_MANIFEST,
+} from './prerender';
+
+export type {
+  PrerenderedPage,
+  PrerenderManifest,
+  PrerenderTarget,
+  RenderedPage,
+  PrerenderRequestHandler,
+  PrerenderOptions,
+  PrerenderResult,
+  PrerenderStoreOptions,
+  PrerenderPageMeta,
+} from './prerender';
+
+// Response Cache
+export {
+  ResponseCache,
+  createResponseCache,
+  buildCacheControlHeaders,
+  getPathCacheTag,
+} from './response-cache';
+
+export type {
+  CachedResponseEntry,
+  ResponseCacheOptions,
+  ResponseCacheStatus,
+} from './response-cache';
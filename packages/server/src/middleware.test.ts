@@ -1,4 +1,5 @@
 import { describe, expect, test, beforeEach } from 'bun:test';
+import zlib from 'node:zlib';
 import {
   MiddlewareChain,
   createMiddlewareChain,
@@ -367,6 +368,30 @@ describe('@ereo/server - Middleware', () => {
 
       expect(response.headers.get('Content-Encoding')).toBeNull();
     });
+
+    test('weakens the ETag and drops Accept-Ranges of compressed bodies', async () => {
+      const middleware = compress({ threshold: 0 });
+      const respond = (acceptEncoding: string, etag = '"abc123"') => {
+        const request = new Request('http://localhost:3000/app.js', {
+          headers: { 'Accept-Encoding': acceptEncoding },
+        });
+        return middleware(request, createContext(request), async () =>
+          new Response('console.log(1)', {
+            headers: { 'Content-Type': 'text/javascript', ETag: etag, 'Accept-Ranges': 'bytes' },
+          })
+        );
+      };
+
+      const compressed = await respond('gzip');
+      expect(compressed.headers.get('ETag')).toBe('W/"abc123"');
+      expect(compressed.headers.get('Accept-Ranges')).toBeNull();
+
+      expect((await respond('gzip', 'W/"abc123"')).headers.get('ETag')).toBe('W/"abc123"');
+
+      const identity = await respond('identity');
+      expect(identity.headers.get('ETag')).toBe('"abc123"');
+      expect(identity.headers.get('Accept-Ranges')).toBe('bytes');
+    });
   });
 
   describe('rateLimit middleware', () => {
@@ -1023,7 +1048,7 @@ describe('@ereo/server - Middleware', () => {
       });
       const context = createContext(request);
 
-      const body = 'Hello World - a string to compress';
+      const body = 'Hello World - a string to compress. '.repeat(40);
       const response = await middleware(request, context, async () => {
         return new Response(body, {
           headers: {
@@ -1056,7 +1081,7 @@ describe('@ereo/server - Middleware', () => {
     test('does not compress when Accept-Encoding has only deflate', async () => {
       const middleware = compress();
       const request = new Request('http://localhost:3000/', {
-        headers: { 'Accept-Encoding': 'deflate, br' },
+        headers: { 'Accept-Encoding': 'deflate' },
       });
       const context = createContext(request);
 
@@ -1069,6 +1094,97 @@ describe('@ereo/server - Middleware', () => {
       // gzip not accepted, should not compress
       expect(response.headers.get('Content-Encoding')).toBeNull();
     });
+
+    test('prefers Brotli and honors quality values', async () => {
+      const middleware = compress();
+      const respond = async () => new Response('Hello', { headers: { 'Content-Type': 'text/plain' } });
+
+      const brRequest = new Request('http://localhost:3000/', {
+        headers: { 'Accept-Encoding': 'gzip, deflate, br' },
+      });
+      const brResponse = await middleware(brRequest, createContext(brRequest), respond);
+      expect(brResponse.headers.get('Content-Encoding')).toBe('br');
+      expect(brResponse.headers.get('Vary')).toBe('Accept-Encoding');
+      expect(zlib.brotliDecompressSync(Buffer.from(await brResponse.arrayBuffer())).toString()).toBe('Hello');
+
+      const gzipRequest = new Request('http://localhost:3000/', {
+        headers: { 'Accept-Encoding': 'br;q=0.5, gzip' },
+      });
+      const gzipResponse = await middleware(gzipRequest, createContext(gzipRequest), respond);
+      expect(gzipResponse.headers.get('Content-Encoding')).toBe('gzip');
+      expect(zlib.gunzipSync(Buffer.from(await gzipResponse.arrayBuffer())).toString()).toBe('Hello');
+    });
+
+    test('skips bodies below the threshold', async () => {
+      const middleware = compress({ threshold: 100 });
+      const request = new Request('http://localhost:3000/', {
+        headers: { 'Accept-Encoding': 'gzip' },
+      });
+
+      const response = await middleware(request, createContext(request), async () => {
+        return new Response('tiny', {
+          headers: { 'Content-Type': 'text/plain', 'Content-Length': '4' },
+        });
+      });
+
+      expect(response.headers.get('Content-Encoding')).toBeNull();
+    });
+
+    test('skips encoded, partial, no-transform and event-stream responses', async () => {
+      const middleware = compress();
+      const request = new Request('http://localhost:3000/', {
+        headers: { 'Accept-Encoding': 'gzip, br' },
+      });
+
+      const responses = [
+        new Response('x', { headers: { 'Content-Type': 'text/plain', 'Content-Encoding': 'gzip' } }),
+        new Response('x', { status: 206, headers: { 'Content-Type': 'text/plain' } }),
+        new Response('x', { headers: { 'Content-Type': 'text/plain', 'Cache-Control': 'no-transform' } }),
+        new Response('data: x\n\n', { headers: { 'Content-Type': 'text/event-stream' } }),
+      ];
+
+      for (const original of responses) {
+        const response = await middleware(request, createContext(request), async () => original);
+        expect(response).toBe(original);
+      }
+    });
+
+    test('flushes every chunk of streamed responses', async () => {
+      const middleware = compress();
+      const request = new Request('http://localhost:3000/', {
+        headers: { 'Accept-Encoding': 'gzip' },
+      });
+
+      let release!: () => void;
+      const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          controller.enqueue(new TextEncoder().encode('<html><body>shell'));
+          await new Promise<void>((resolve) => (release = resolve));
+          controller.enqueue(new TextEncoder().encode('late content</body></html>'));
+          controller.close();
+        },
+      });
+
+      const response = await middleware(request, createContext(request), async () => {
+        return new Response(body, { headers: { 'Content-Type': 'text/html' } });
+      });
+
+      // The shell arrives compressed before the rest of the stream exists
+      const reader = response.body!.getReader();
+      const chunks: Uint8Array[] = [];
+      let received = 0;
+      while (received < 20) {
+        const { value } = await reader.read();
+        chunks.push(value!);
+        received += value!.length;
+      }
+      expect(zlib.gunzipSync(Buffer.concat(chunks), { finishFlush: zlib.constants.Z_SYNC_FLUSH }).toString()).toBe(
+        '<html><body>shell'
+      );
+
+      release();
+      while (!(await reader.read()).done);
+    });
   });
 
   // ============================================================================
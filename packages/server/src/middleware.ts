@@ -11,8 +11,11 @@
  * TypedMiddlewareHandler is fully compatible with MiddlewareHandler.
  */
 
+import { Duplex } from 'node:stream';
+import zlib from 'node:zlib';
 import type { MiddlewareHandler, NextFunction, AppContext } from '@ereo/core';
 import { createContext, RequestContext } from '@ereo/core';
+import { negotiateEncoding, isCompressible, appendVary, type ContentEncoding } from './encoding';
 
 /**
  * Middleware definition with optional path matching.
@@ -289,32 +292,115 @@ export function securityHeaders(options: SecurityHeadersOptions = {}): Middlewar
 }
 
 /**
- * Compression middleware (uses Bun's built-in compression).
+ * Compression middleware options.
  */
-export function compress(): MiddlewareHandler {
+export interface CompressOptions {
+  /** Encodings to use, in order of preference (default: ['br', 'gzip']) */
+  encodings?: ContentEncoding[];
+  /** Minimum body size in bytes to compress, when the size is known (default: 1024) */
+  threshold?: number;
+}
+
+/**
+ * Create a compression stream. Streamed bodies are flushed after every
+ * chunk, so streamed HTML and deferred data reach the client right away.
+ */
+function createCompressionStream(
+  encoding: ContentEncoding,
+  flushChunks: boolean
+): ReadableWritablePair {
+  const { constants } = zlib;
+  let stream: Duplex;
+
+  switch (encoding) {
+    case 'br':
+      stream = zlib.createBrotliCompress({
+        // The default quality (11) is meant for build-time compression
+        params: { [constants.BROTLI_PARAM_QUALITY]: 4 },
+        flush: flushChunks ? constants.BROTLI_OPERATION_FLUSH : constants.BROTLI_OPERATION_PROCESS,
+      });
+      break;
+    case 'zstd':
+      stream = zlib.createZstdCompress({
+        flush: flushChunks ? constants.ZSTD_e_flush : constants.ZSTD_e_continue,
+      });
+      break;
+    default:
+      stream = zlib.createGzip({
+        flush: flushChunks ? constants.Z_SYNC_FLUSH : constants.Z_NO_FLUSH,
+      });
+  }
+
+  // node:stream/web and DOM stream types differ only nominally
+  return Duplex.toWeb(stream) as unknown as ReadableWritablePair;
+}
+
+/**
+ * Compression middleware.
+ *
+ * Compresses text-based responses with Brotli or gzip, whichever the client
+ * prefers. Skips responses that are already encoded, partial (206), marked
+ * `Cache-Control: no-transform`, Server-Sent Events, or smaller than the
+ * threshold.
+ *
+ * @example
+ * server.use(compress());
+ * server.use(compress({ encodings: ['zstd', 'br', 'gzip'], threshold: 2048 }));
+ */
+export function compress(options: CompressOptions = {}): MiddlewareHandler {
+  const { encodings = ['br', 'gzip'], threshold = 1024 } = options;
+
   return async (request, context, next) => {
     const response = await next();
-
-    // Check if client accepts compression
-    const acceptEncoding = request.headers.get('Accept-Encoding') || '';
     const contentType = response.headers.get('Content-Type') || '';
 
     // Only compress text-based content
-    const shouldCompress =
-      (contentType.includes('text/') ||
-        contentType.includes('application/json') ||
-        contentType.includes('application/javascript')) &&
-      acceptEncoding.includes('gzip');
+    if (
+      !response.body ||
+      request.method === 'HEAD' ||
+      response.status === 204 ||
+      response.status === 206 ||
+      response.status === 304 ||
+      response.headers.has('Content-Encoding') ||
+      !isCompressible(contentType) ||
+      contentType.includes('text/event-stream') ||
+      /\bno-transform\b/.test(response.headers.get('Cache-Control') || '')
+    ) {
+      return response;
+    }
 
-    if (!shouldCompress || !response.body) {
+    const contentLength = response.headers.get('Content-Length');
+    if (contentLength !== null && Number(contentLength) < threshold) {
       return response;
     }
 
+    // Check if client accepts compression
+    const encoding = negotiateEncoding(request.headers.get('Accept-Encoding'), encodings);
+
     const headers = new Headers(response.headers);
-    headers.set('Content-Encoding', 'gzip');
+    appendVary(headers, 'Accept-Encoding');
+
+    if (!encoding) {
+      return new Response(response.body, {
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+      });
+    }
+
+    headers.set('Content-Encoding', encoding);
     headers.delete('Content-Length');
+    // The compressed body is another representation: it can't share a strong
+    // validator with the original, and byte ranges would address the original
+    const etag = headers.get('ETag');
+    if (etag && !etag.startsWith('W/')) {
+      headers.set('ETag', `W/${etag}`);
+    }
+    headers.delete('Accept-Ranges');
 
-    const compressed = response.body.pipeThrough(new CompressionStream('gzip'));
+    const compressed = response.body.pipeThrough(
+      createCompressionStream(encoding, contentLength === null)
+    );
 
     return new Response(compressed, {
       status: response.status,
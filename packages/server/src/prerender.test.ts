@@ -0,0 +1,296 @@
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, rm, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { createElement } from 'react';
+import type { Route, PrerenderConfig } from '@ereo/core';
+import { revalidateTag, revalidatePath } from '@ereo/data';
+import { BunServer } from './bun-server';
+import {
+  PrerenderStore,
+  prerender,
+  prerenderFilePath,
+  normalizePrerenderPath,
+  resolvePrerenderTags,
+  PRERENDER_MANIFEST,
+} from './prerender';
+
+function createBlogRoute(prerenderConfig: PrerenderConfig, onLoad: () => void = () => {}): Route {
+  return {
+    id: '/blog/[slug]',
+    path: '/blog/[slug]',
+    file: '/app/routes/blog/[slug].tsx',
+    config: { render: { mode: 'ssg', prerender: prerenderConfig } },
+    module: {
+      default: ({ loaderData }: any) => createElement('h1', null, loaderData.title),
+      loader: async ({ params }: any) => {
+        onLoad();
+        return { title: `Post ${params.slug}` };
+      },
+    },
+  };
+}
+
+function createMockRouter(route: Route) {
+  return {
+    match: (pathname: string) => {
+      const slug = pathname.match(/^\/blog\/([^/]+)\/?$/)?.[1];
+      return slug ? { route, params: { slug }, pathname } : null;
+    },
+    loadModule: async () => {},
+  };
+}
+
+const json = { headers: { Accept: 'application/json' } };
+
+describe('@ereo/server - prerender helpers', () => {
+  test('maps pathnames to index files', () => {
+    expect(prerenderFilePath('/', 'html')).toBe('index.html');
+    expect(prerenderFilePath('/blog/hello', 'html')).toBe('blog/hello/index.html');
+    expect(prerenderFilePath('/blog/hello/', 'json')).toBe('blog/hello/index.json');
+  });
+
+  test('rejects path traversal', () => {
+    expect(() => prerenderFilePath('/blog/../../etc', 'html')).toThrow();
+  });
+
+  test('normalizes trailing slashes', () => {
+    expect(normalizePrerenderPath('/about/')).toBe('/about');
+    expect(normalizePrerenderPath('/')).toBe('/');
+  });
+
+  test('resolves static and param-based tags', () => {
+    expect(resolvePrerenderTags({ enabled: true, tags: ['posts'] }, {})).toEqual(['posts']);
+    expect(
+      resolvePrerenderTags({ enabled: true, tags: (p) => [`post:${p.slug}`] }, { slug: 'a' })
+    ).toEqual(['post:a']);
+    expect(resolvePrerenderTags(null, {})).toEqual([]);
+  });
+});
+
+describe('@ereo/server - PrerenderStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'ereo-prerender-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('writes pages and persists the manifest', async () => {
+    const store = new PrerenderStore({ dir });
+    await store.write(
+      { path: '/blog/a', routeId: '/blog/[slug]', tags: ['posts'], revalidate: 60 },
+      { html: '<h1>A</h1>', data: '{"data":1}' }
+    );
+    await store.flush();
+
+    const reloaded = new PrerenderStore({ dir });
+    const page = await reloaded.get('/blog/a/');
+    expect(page?.tags).toEqual(['posts']);
+    expect(await reloaded.read(page!, 'html')).toBe('<h1>A</h1>');
+    expect(await reloaded.read(page!, 'json')).toBe('{"data":1}');
+  });
+
+  test('detects stale pages from the revalidate period', async () => {
+    const store = new PrerenderStore({ dir });
+    const page = await store.write(
+      { path: '/a', routeId: '/a', tags: [], revalidate: 10 },
+      { html: '', data: '' }
+    );
+    expect(store.isStale(page, page.generatedAt + 5_000)).toBe(false);
+    expect(store.isStale(page, page.generatedAt + 11_000)).toBe(true);
+    expect(store.isStale({ ...page, revalidate: undefined }, Infinity)).toBe(false);
+    await store.flush();
+  });
+
+  test('invalidates pages by tag and path', async () => {
+    const store = new PrerenderStore({ dir });
+    await store.write({ path: '/a', routeId: '/a', tags: ['x'] }, { html: '', data: '' });
+    await store.write({ path: '/b', routeId: '/b', tags: [] }, { html: '', data: '' });
+
+    expect(await store.invalidate({ tags: ['x'], paths: [] })).toEqual(['/a']);
+    expect(await store.invalidate({ tags: [], paths: ['/b/'] })).toEqual(['/b']);
+    expect((await store.get('/a'))?.invalidated).toBe(true);
+    await store.flush();
+  });
+
+  test('deduplicates concurrent regenerations', async () => {
+    const store = new PrerenderStore({ dir });
+    let renders = 0;
+    const render = async () => {
+      renders++;
+      return { html: 'x', data: '{}' };
+    };
+    const meta = { path: '/a', routeId: '/a', tags: [] };
+
+    const results = await Promise.all([store.regenerate(meta, render), store.regenerate(meta, render)]);
+    expect(results).toEqual([true, true]);
+    expect(renders).toBe(1);
+    await store.flush();
+  });
+
+  test('keeps the previous page when regeneration fails', async () => {
+    const store = new PrerenderStore({ dir });
+    const meta = { path: '/a', routeId: '/a', tags: [] };
+    await store.write(meta, { html: 'old', data: '{}' });
+
+    const ok = await store.regenerate(meta, async () => {
+      throw new Error('boom');
+    });
+    expect(ok).toBe(false);
+    expect(await store.read((await store.get('/a'))!, 'html')).toBe('old');
+    await store.flush();
+  });
+});
+
+describe('@ereo/server - prerender()', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'ereo-prerender-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('renders HTML and loader JSON for every path', async () => {
+    const route = createBlogRoute({ enabled: true, paths: ['/blog/a', '/blog/b'], tags: ['posts'] });
+    const server = new BunServer({ logging: false, renderMode: 'string' });
+    const mockRouter = createMockRouter(route);
+    server.setRouter(mockRouter as any);
+
+    const router = {
+      ...mockRouter,
+      findRoutesByRenderMode: async () => [route],
+      getPrerenderPathsForRoute: async () => ['/blog/a', '/blog/b', '/blog/missing/extra'],
+    };
+
+    const result = await prerender({ router: router as any, handle: (r) => server.handle(r), outDir: dir });
+
+    expect(result.pages.map((p) => p.path).sort()).toEqual(['/blog/a', '/blog/b']);
+    expect(result.errors).toHaveLength(1);
+    expect(await readFile(join(dir, 'blog/a/index.html'), 'utf-8')).toContain('Post a');
+    expect(JSON.parse(await readFile(join(dir, 'blog/b/index.json'), 'utf-8')).data).toEqual({ title: 'Post b' });
+
+    const manifest = JSON.parse(await readFile(join(dir, PRERENDER_MANIFEST), 'utf-8'));
+    expect(manifest.pages['/blog/a'].tags).toEqual(['posts']);
+  });
+});
+
+describe('@ereo/server - serving prerendered pages', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'ereo-prerender-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function setup(config: PrerenderConfig) {
+    let loads = 0;
+    const route = createBlogRoute(config, () => loads++);
+    const server = new BunServer({ logging: false, renderMode: 'string', prerender: { dir } });
+    server.setRouter(createMockRouter(route) as any);
+    return { server, route, loads: () => loads };
+  }
+
+  test('serves stored pages without running the loader', async () => {
+    const store = new PrerenderStore({ dir });
+    await store.write({ path: '/blog/a', routeId: '/blog/[slug]', tags: [] }, { html: '<p>cached</p>', data: '{"data":"cached"}' });
+    await store.flush();
+
+    const { server, loads } = await setup({ enabled: true });
+
+    const html = await server.handle(new Request('http://localhost/blog/a'));
+    expect(html.headers.get('X-Ereo-Cache')).toBe('HIT');
+    expect(await html.text()).toBe('<p>cached</p>');
+
+    const data = await server.handle(new Request('http://localhost/blog/a', json));
+    expect(await data.json()).toEqual({ data: 'cached' });
+    expect(loads()).toBe(0);
+    server.stop();
+  });
+
+  test('renders and stores unknown paths with blocking fallback', async () => {
+    const { server, loads } = await setup({ enabled: true, fallback: 'blocking' });
+
+    const first = await server.handle(new Request('http://localhost/blog/new'));
+    expect(first.headers.get('X-Ereo-Cache')).toBe('MISS');
+    expect(await first.text()).toContain('Post new');
+
+    const second = await server.handle(new Request('http://localhost/blog/new'));
+    expect(second.headers.get('X-Ereo-Cache')).toBe('HIT');
+    // One render for HTML, one for JSON
+    expect(loads()).toBe(2);
+    server.stop();
+  });
+
+  test('returns 404 for unknown paths with 404 fallback', async () => {
+    const { server, loads } = await setup({ enabled: true, fallback: '404' });
+
+    const response = await server.handle(new Request('http://localhost/blog/unknown'));
+    expect(response.status).toBe(404);
+    expect(loads()).toBe(0);
+    server.stop();
+  });
+
+  test('renders without storing with static fallback', async () => {
+    const { server } = await setup({ enabled: true, fallback: 'static' });
+
+    const response = await server.handle(new Request('http://localhost/blog/x'));
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-Ereo-Cache')).toBeNull();
+    expect(await new PrerenderStore({ dir }).get('/blog/x')).toBeUndefined();
+    server.stop();
+  });
+
+  test('serves stale pages and regenerates in the background', async () => {
+    const store = new PrerenderStore({ dir });
+    const page = await store.write(
+      { path: '/blog/a', routeId: '/blog/[slug]', tags: [], revalidate: 1 },
+      { html: '<p>old</p>', data: '{}' }
+    );
+    page.generatedAt -= 5_000;
+    // Another write persists the backdated manifest
+    await store.write({ path: '/other', routeId: '/other', tags: [] }, { html: '', data: '' });
+    await store.flush();
+
+    const { server } = await setup({ enabled: true, revalidate: 1 });
+
+    const stale = await server.handle(new Request('http://localhost/blog/a'));
+    expect(stale.headers.get('X-Ereo-Cache')).toBe('STALE');
+    expect(await stale.text()).toBe('<p>old</p>');
+
+    // Wait for the background render to land
+    for (let i = 0; i < 50; i++) {
+      const html = await readFile(join(dir, 'blog/a/index.html'), 'utf-8');
+      if (html.includes('Post a')) break;
+      await new Promise((r) => setTimeout(r, 10));
+    }
+
+    const fresh = await server.handle(new Request('http://localhost/blog/a'));
+    expect(fresh.headers.get('X-Ereo-Cache')).toBe('HIT');
+    expect(await fresh.text()).toContain('Post a');
+    server.stop();
+  });
+
+  test('re-renders pages invalidated by revalidateTag and revalidatePath', async () => {
+    const { server } = await setup({ enabled: true, tags: (params) => [`post:${params.slug}`] });
+
+    await server.handle(new Request('http://localhost/blog/a'));
+    expect((await server.handle(new Request('http://localhost/blog/a'))).headers.get('X-Ereo-Cache')).toBe('HIT');
+
+    await revalidateTag('post:a');
+    expect((await server.handle(new Request('http://localhost/blog/a'))).headers.get('X-Ereo-Cache')).toBe('MISS');
+
+    await revalidatePath('/blog/a');
+    expect((await server.handle(new Request('http://localhost/blog/a'))).headers.get('X-Ereo-Cache')).toBe('MISS');
+    server.stop();
+  });
+});
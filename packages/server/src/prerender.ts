@@ -0,0 +1,422 @@
+/**
+ * @ereo/server - Static Generation (SSG) and Incremental Regeneration (ISR)
+ *
+ * Pre-renders `render.mode: 'ssg'` routes to HTML + loader JSON at build time,
+ * then serves those files in production, regenerating them in the background
+ * once `prerender.revalidate` seconds have passed.
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join, dirname } from 'node:path';
+import type { Route, RouteParams, PrerenderConfig } from '@ereo/core';
+import type { FileRouter } from '@ereo/router';
+import type { RevalidationEvent } from '@ereo/data';
+
+/**
+ * A single pre-rendered page.
+ */
+export interface PrerenderedPage {
+  /** URL pathname (e.g. '/blog/hello') */
+  path: string;
+  /** ID of the route that rendered the page */
+  routeId: string;
+  /** HTML file, relative to the prerender directory */
+  html: string;
+  /** Loader JSON file, relative to the prerender directory */
+  data: string;
+  /** Cache tags for on-demand invalidation */
+  tags: string[];
+  /** Revalidation period in seconds (undefined = never stale) */
+  revalidate?: number;
+  /** When the page was rendered (ms since epoch) */
+  generatedAt: number;
+  /** Set by revalidateTag/revalidatePath — the next request re-renders */
+  invalidated?: boolean;
+}
+
+/**
+ * Manifest written next to the pre-rendered files.
+ */
+export interface PrerenderManifest {
+  version: 1;
+  pages: Record<string, PrerenderedPage>;
+}
+
+/**
+ * A path to pre-render together with the route that owns it.
+ */
+export interface PrerenderTarget {
+  path: string;
+  route: Route;
+  params: RouteParams;
+}
+
+/**
+ * Rendered output for one path.
+ */
+export interface RenderedPage {
+  html: string;
+  data: string;
+}
+
+/**
+ * Request handler used to render pages (e.g. `BunServer.handle`).
+ */
+export type PrerenderRequestHandler = (request: Request) => Promise<Response>;
+
+/** Manifest file name inside the prerender directory */
+export const PRERENDER_MANIFEST = 'manifest.json';
+
+/** Origin used for synthetic render requests */
+const RENDER_ORIGIN = 'http://localhost';
+
+/**
+ * Get the SSG prerender config of a route, or null if the route is not SSG.
+ */
+export function getPrerenderConfig(route: Route): PrerenderConfig | null {
+  const render = route.config?.render || route.module?.config?.render;
+  if (render?.mode !== 'ssg') return null;
+  return render.prerender ?? { enabled: true };
+}
+
+/**
+ * Check whether a route renders in SSG mode.
+ */
+export function isPrerenderRoute(route: Route): boolean {
+  return getPrerenderConfig(route) !== null;
+}
+
+/**
+ * Resolve the cache tags of a prerendered page.
+ */
+export function resolvePrerenderTags(config: PrerenderConfig | null, params: RouteParams): string[] {
+  if (!config?.tags) return [];
+  return typeof config.tags === 'function' ? config.tags(params) : [...config.tags];
+}
+
+/**
+ * Normalize a pathname for use as a prerender key.
+ */
+export function normalizePrerenderPath(pathname: string): string {
+  if (pathname === '' || pathname === '/') return '/';
+  return pathname.endsWith('/') ? pathname.slice(0, -1) : pathname;
+}
+
+/**
+ * Map a pathname to its file inside the prerender directory.
+ * '/' → 'index.html', '/blog/a' → 'blog/a/index.html'.
+ */
+export function prerenderFilePath(pathname: string, kind: 'html' | 'json'): string {
+  const normalized = normalizePrerenderPath(pathname);
+  const segments = normalized.split('/').filter(Boolean).map((segment) => {
+    if (segment === '..' || segment === '.') {
+      throw new Error(`Invalid prerender path: ${pathname}`);
+    }
+    return segment;
+  });
+  return [...segments, `index.${kind}`].join('/');
+}
+
+/**
+ * Collect every path to pre-render.
+ * Uses `prerender.paths` and `generateStaticParams`; an SSG route without
+ * dynamic segments that declares neither is pre-rendered at its own path.
+ */
+export async function collectPrerenderTargets(router: FileRouter): Promise<PrerenderTarget[]> {
+  const routes = await router.findRoutesByRenderMode('ssg');
+  const targets: PrerenderTarget[] = [];
+  const seen = new Set<string>();
+
+  for (const route of routes) {
+    if (route.layout && !route.index) continue;
+    // Make sure generateStaticParams is available
+    if (!route.module) await router.loadModule(route);
+
+    if (getPrerenderConfig(route)?.enabled === false) continue;
+
+    let paths = await router.getPrerenderPathsForRoute(route);
+    if (paths.length === 0 && !route.path.includes('[')) {
+      paths = [route.path];
+    }
+
+    for (const rawPath of paths) {
+      const path = normalizePrerenderPath(rawPath);
+      if (seen.has(path)) continue;
+      seen.add(path);
+      const match = router.match(path);
+      targets.push({ path, route, params: match?.params ?? {} });
+    }
+  }
+
+  return targets;
+}
+
+/**
+ * Render one path to HTML and loader JSON through the given request handler.
+ * Throws when either response is not a 200 (redirects, errors, 404s).
+ */
+export async function renderPrerenderPage(
+  handle: PrerenderRequestHandler,
+  pathname: string
+): Promise<RenderedPage> {
+  const url = new URL(pathname, RENDER_ORIGIN);
+  const [htmlResponse, dataResponse] = await Promise.all([
+    handle(new Request(url, { headers: { Accept: 'text/html' } })),
+    handle(new Request(url, { headers: { Accept: 'application/json' } })),
+  ]);
+
+  if (htmlResponse.status !== 200) {
+    throw new Error(`Prerender of ${pathname} returned status ${htmlResponse.status}`);
+  }
+  if (dataResponse.status !== 200) {
+    throw new Error(`Prerender data of ${pathname} returned status ${dataResponse.status}`);
+  }
+
+  const [html, data] = await Promise.all([htmlResponse.text(), dataResponse.text()]);
+  return { html, data };
+}
+
+/**
+ * Prerender options.
+ */
+export interface PrerenderOptions {
+  /** Router with route modules available for import */
+  router: FileRouter;
+  /** Handler that renders a request (e.g. `server.handle.bind(server)`) */
+  handle: PrerenderRequestHandler;
+  /** Output directory for the pre-rendered files */
+  outDir: string;
+  /** Number of pages rendered in parallel (default: 4) */
+  concurrency?: number;
+}
+
+/**
+ * Prerender result.
+ */
+export interface PrerenderResult {
+  pages: PrerenderedPage[];
+  errors: string[];
+}
+
+/**
+ * Pre-render every SSG path and write HTML, loader JSON and the manifest to `outDir`.
+ */
+export async function prerender(options: PrerenderOptions): Promise<PrerenderResult> {
+  const { router, handle, outDir, concurrency = 4 } = options;
+  const store = new PrerenderStore({ dir: outDir });
+  const targets = await collectPrerenderTargets(router);
+  const pages: PrerenderedPage[] = [];
+  const errors: string[] = [];
+
+  let index = 0;
+  const worker = async () => {
+    while (index < targets.length) {
+      const target = targets[index++];
+      const config = getPrerenderConfig(target.route);
+      try {
+        const rendered = await renderPrerenderPage(handle, target.path);
+        pages.push(await store.write({
+          path: target.path,
+          routeId: target.route.id,
+          tags: resolvePrerenderTags(config, target.params),
+          revalidate: config?.revalidate,
+        }, rendered));
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, concurrency) }, worker));
+  await store.flush();
+
+  return { pages, errors };
+}
+
+/**
+ * Prerender store options.
+ */
+export interface PrerenderStoreOptions {
+  /** Directory holding the pre-rendered files and manifest */
+  dir: string;
+}
+
+/**
+ * Page metadata accepted by PrerenderStore.write().
+ */
+export type PrerenderPageMeta = Pick<PrerenderedPage, 'path' | 'routeId' | 'tags' | 'revalidate'>;
+
+/**
+ * Reads and writes pre-rendered pages on disk.
+ * Keeps the manifest in memory and deduplicates concurrent regenerations.
+ */
+export class PrerenderStore {
+  private readonly dir: string;
+  private manifest: PrerenderManifest = { version: 1, pages: {} };
+  private loading: Promise<void> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+  private regenerating = new Map<string, Promise<boolean>>();
+
+  constructor(options: PrerenderStoreOptions) {
+    this.dir = options.dir;
+  }
+
+  /**
+   * Load the manifest from disk (once).
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          const content = await readFile(join(this.dir, PRERENDER_MANIFEST), 'utf-8');
+          const parsed = JSON.parse(content) as PrerenderManifest;
+          if (parsed && parsed.version === 1 && parsed.pages) {
+            this.manifest = parsed;
+          }
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            console.error('Failed to load prerender manifest:', error);
+          }
+        }
+      })();
+    }
+    return this.loading;
+  }
+
+  /**
+   * Get a pre-rendered page by pathname.
+   */
+  async get(pathname: string): Promise<PrerenderedPage | undefined> {
+    await this.load();
+    return this.manifest.pages[normalizePrerenderPath(pathname)];
+  }
+
+  /**
+   * Get all pre-rendered pages.
+   */
+  async getPages(): Promise<PrerenderedPage[]> {
+    await this.load();
+    return Object.values(this.manifest.pages);
+  }
+
+  /**
+   * Check whether a page is past its revalidation period.
+   */
+  isStale(page: PrerenderedPage, now: number = Date.now()): boolean {
+    if (page.revalidate === undefined) return false;
+    return now - page.generatedAt > page.revalidate * 1000;
+  }
+
+  /**
+   * Read the HTML or JSON file of a page. Returns null if the file is missing.
+   */
+  async read(page: PrerenderedPage, kind: 'html' | 'json'): Promise<string | null> {
+    try {
+      return await readFile(join(this.dir, kind === 'html' ? page.html : page.data), 'utf-8');
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Write a rendered page and record it in the manifest.
+   */
+  async write(meta: PrerenderPageMeta, rendered: RenderedPage): Promise<PrerenderedPage> {
+    await this.load();
+    const path = normalizePrerenderPath(meta.path);
+    const page: PrerenderedPage = {
+      ...meta,
+      path,
+      html: prerenderFilePath(path, 'html'),
+      data: prerenderFilePath(path, 'json'),
+      generatedAt: Date.now(),
+    };
+
+    const htmlFile = join(this.dir, page.html);
+    await mkdir(dirname(htmlFile), { recursive: true });
+    await Promise.all([
+      writeFile(htmlFile, rendered.html),
+      writeFile(join(this.dir, page.data), rendered.data),
+    ]);
+
+    this.manifest.pages[path] = page;
+    this.scheduleSave();
+    return page;
+  }
+
+  /**
+   * Re-render a page. Concurrent calls for the same path share one render.
+   * Resolves to false (keeping the previous files) if rendering fails.
+   */
+  regenerate(
+    meta: PrerenderPageMeta,
+    render: () => Promise<RenderedPage>
+  ): Promise<boolean> {
+    const path = normalizePrerenderPath(meta.path);
+    const existing = this.regenerating.get(path);
+    if (existing) return existing;
+
+    const promise = (async () => {
+      try {
+        await this.write(meta, await render());
+        return true;
+      } catch (error) {
+        console.error(`Failed to regenerate prerendered page: ${path}`, error);
+        return false;
+      } finally {
+        this.regenerating.delete(path);
+      }
+    })();
+
+    this.regenerating.set(path, promise);
+    return promise;
+  }
+
+  /**
+   * Mark pages matching a revalidation event as invalidated.
+   * Returns the invalidated paths.
+   */
+  async invalidate(event: RevalidationEvent): Promise<string[]> {
+    await this.load();
+    const paths = new Set(event.paths.map(normalizePrerenderPath));
+    const invalidated: string[] = [];
+
+    for (const page of Object.values(this.manifest.pages)) {
+      const matches = event.all
+        || paths.has(page.path)
+        || page.tags.some((tag) => event.tags.includes(tag));
+      if (matches && !page.invalidated) {
+        page.invalidated = true;
+        invalidated.push(page.path);
+      }
+    }
+
+    if (invalidated.length > 0) this.scheduleSave();
+    return invalidated;
+  }
+
+  /**
+   * Wait for pending manifest writes.
+   */
+  flush(): Promise<void> {
+    return this.saving;
+  }
+
+  private scheduleSave(): void {
+    this.saving = this.saving.then(async () => {
+      try {
+        await mkdir(this.dir, { recursive: true });
+        await writeFile(join(this.dir, PRERENDER_MANIFEST), JSON.stringify(this.manifest, null, 2));
+      } catch (error) {
+        console.error('Failed to write prerender manifest:', error);
+      }
+    });
+  }
+}
+
+/**
+ * Create a prerender store.
+ */
+export function createPrerenderStore(options: PrerenderStoreOptions): PrerenderStore {
+  return new PrerenderStore(options);
+}
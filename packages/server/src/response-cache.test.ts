@@ -0,0 +1,250 @@
+import { describe, expect, test } from 'bun:test';
+import { createElement } from 'react';
+import type { Route, RouteCacheConfig } from '@ereo/core';
+import { createTaggedCache } from '@ereo/core';
+import { revalidateTag, revalidatePath } from '@ereo/data';
+import { BunServer } from './bun-server';
+import { ResponseCache, buildCacheControlHeaders } from './response-cache';
+
+const edgeConfig: RouteCacheConfig = {
+  edge: { maxAge: 60, staleWhileRevalidate: 300 },
+};
+
+function counter(body = 'page') {
+  let renders = 0;
+  return {
+    render: async () => {
+      renders++;
+      return new Response(`${body} ${renders}`, { headers: { 'Content-Type': 'text/html' } });
+    },
+    count: () => renders,
+  };
+}
+
+describe('@ereo/server - buildCacheControlHeaders', () => {
+  test('emits edge and CDN headers', () => {
+    const headers = buildCacheControlHeaders({
+      edge: { maxAge: 60, staleWhileRevalidate: 30, vary: ['Accept-Language'] },
+    });
+    expect(headers.get('CDN-Cache-Control')).toBe('public, max-age=60, stale-while-revalidate=30');
+    expect(headers.get('Cache-Control')).toBe('public, max-age=0, s-maxage=60, stale-while-revalidate=30');
+    expect(headers.get('Vary')).toBe('Accept-Language');
+  });
+
+  test('browser config controls Cache-Control', () => {
+    const headers = buildCacheControlHeaders({
+      edge: { maxAge: 60 },
+      browser: { maxAge: 10, private: true },
+    });
+    expect(headers.get('Cache-Control')).toBe('private, max-age=10');
+    expect(headers.get('CDN-Cache-Control')).toBe('public, max-age=60');
+  });
+});
+
+describe('@ereo/server - ResponseCache', () => {
+  test('caches responses until maxAge', async () => {
+    const cache = new ResponseCache();
+    const { render, count } = counter();
+    const request = () => new Request('http://localhost/posts');
+
+    const first = await cache.handle(request(), {}, edgeConfig, render);
+    expect(first.headers.get('X-Ereo-Cache')).toBe('MISS');
+    expect(first.headers.get('CDN-Cache-Control')).toContain('max-age=60');
+
+    const second = await cache.handle(request(), {}, edgeConfig, render);
+    expect(second.headers.get('X-Ereo-Cache')).toBe('HIT');
+    expect(await second.text()).toBe('page 1');
+    expect(count()).toBe(1);
+  });
+
+  test('keys on vary headers and response format', async () => {
+    const cache = new ResponseCache();
+    const config: RouteCacheConfig = { edge: { maxAge: 60, vary: ['Accept-Language'] } };
+    const { render, count } = counter();
+
+    await cache.handle(new Request('http://localhost/', { headers: { 'Accept-Language': 'en' } }), {}, config, render);
+    await cache.handle(new Request('http://localhost/', { headers: { 'Accept-Language': 'fr' } }), {}, config, render);
+    await cache.handle(new Request('http://localhost/', { headers: { 'Accept-Language': 'en', Accept: 'application/json' } }), {}, config, render);
+    await cache.handle(new Request('http://localhost/', { headers: { 'Accept-Language': 'en' } }), {}, config, render);
+
+    expect(count()).toBe(3);
+  });
+
+  test('uses keyGenerator when provided', () => {
+    const cache = new ResponseCache();
+    const key = cache.resolveKey(
+      new Request('http://localhost/posts?page=2'),
+      { id: '1' },
+      { edge: { maxAge: 60, keyGenerator: ({ params }) => `post-${params.id}` } }
+    );
+    expect(key).toBe('response:post-1|html');
+  });
+
+  test('bypasses requests with credentials unless the key covers them', async () => {
+    const cache = new ResponseCache();
+    const { render, count } = counter();
+    const request = (headers: Record<string, string>) => new Request('http://localhost/', { headers });
+
+    await cache.handle(request({ Cookie: 'session=alice' }), {}, edgeConfig, render);
+    await cache.handle(request({ Cookie: 'session=bob' }), {}, edgeConfig, render);
+    await cache.handle(request({ Authorization: 'Bearer alice' }), {}, edgeConfig, render);
+    expect(count()).toBe(3);
+
+    const anonymous = await cache.handle(request({ Cookie: 'ereo-csrf=abc' }), {}, edgeConfig, render);
+    expect(anonymous.headers.get('X-Ereo-Cache')).toBe('MISS');
+
+    const varied: RouteCacheConfig = { edge: { maxAge: 60, vary: ['Cookie'] } };
+    await cache.handle(request({ Cookie: 'session=alice' }), {}, varied, render);
+    const hit = await cache.handle(request({ Cookie: 'session=alice' }), {}, varied, render);
+    expect(hit.headers.get('X-Ereo-Cache')).toBe('HIT');
+  });
+
+  test('serves stale entries with a single background refresh', async () => {
+    const store = createTaggedCache();
+    const cache = new ResponseCache({ store });
+    const config: RouteCacheConfig = { edge: { maxAge: 1, staleWhileRevalidate: 60 } };
+    const { render, count } = counter();
+
+    await cache.handle(new Request('http://localhost/'), {}, config, render);
+    const key = cache.resolveKey(new Request('http://localhost/'), {}, config);
+    const entry = await store.get<any>(key);
+    entry.createdAt -= 5_000;
+
+    const [a, b] = await Promise.all([
+      cache.handle(new Request('http://localhost/'), {}, config, render),
+      cache.handle(new Request('http://localhost/'), {}, config, render),
+    ]);
+    expect(a.headers.get('X-Ereo-Cache')).toBe('STALE');
+    expect(b.headers.get('X-Ereo-Cache')).toBe('STALE');
+    expect(await a.text()).toBe('page 1');
+
+    await new Promise((r) => setTimeout(r, 10));
+    expect(count()).toBe(2);
+
+    const fresh = await cache.handle(new Request('http://localhost/'), {}, config, render);
+    expect(fresh.headers.get('X-Ereo-Cache')).toBe('HIT');
+    expect(await fresh.text()).toBe('page 2');
+  });
+
+  test('does not cache errors or responses that set cookies', async () => {
+    const cache = new ResponseCache();
+    let renders = 0;
+    const withCookie = async () => {
+      renders++;
+      return new Response('x', { headers: { 'Set-Cookie': 'a=1' } });
+    };
+    const failing = async () => {
+      renders++;
+      return new Response('err', { status: 500 });
+    };
+
+    await cache.handle(new Request('http://localhost/a'), {}, edgeConfig, withCookie);
+    await cache.handle(new Request('http://localhost/a'), {}, edgeConfig, withCookie);
+    const error = await cache.handle(new Request('http://localhost/b'), {}, edgeConfig, failing);
+    await cache.handle(new Request('http://localhost/b'), {}, edgeConfig, failing);
+
+    expect(renders).toBe(4);
+    expect(error.headers.get('X-Ereo-Cache')).toBeNull();
+  });
+
+  test('passes deferred data streams through', async () => {
+    const cache = new ResponseCache();
+    let renders = 0;
+    const stream = async () => {
+      renders++;
+      return new Response('{}\n', { headers: { 'Content-Type': 'application/x-ndjson' } });
+    };
+    const request = () => new Request('http://localhost/', { headers: { Accept: 'application/x-ndjson, application/json' } });
+
+    await cache.handle(request(), {}, edgeConfig, stream);
+    const second = await cache.handle(request(), {}, edgeConfig, stream);
+
+    expect(renders).toBe(2);
+    expect(second.headers.get('X-Ereo-Cache')).toBeNull();
+    expect(cache.resolveKey(request(), {}, edgeConfig)).toBe('response:/|ndjson');
+  });
+
+  test('invalidates by data tags and path', async () => {
+    const cache = new ResponseCache();
+    const config: RouteCacheConfig = {
+      edge: { maxAge: 60 },
+      data: { tags: (params) => [`post:${params.id}`] },
+    };
+    const { render, count } = counter();
+    const request = () => new Request('http://localhost/posts/1');
+
+    await cache.handle(request(), { id: '1' }, config, render);
+    await cache.invalidate({ tags: ['post:1'], paths: [] });
+    await cache.handle(request(), { id: '1' }, config, render);
+    await cache.invalidate({ tags: [], paths: ['/posts/1/'] });
+    await cache.handle(request(), { id: '1' }, config, render);
+    await cache.invalidate({ tags: [], paths: [], all: true });
+    await cache.handle(request(), { id: '1' }, config, render);
+
+    expect(count()).toBe(4);
+  });
+});
+
+describe('@ereo/server - BunServer response cache', () => {
+  function setup(cache: RouteCacheConfig) {
+    let loads = 0;
+    const route: Route = {
+      id: '/posts/[id]',
+      path: '/posts/[id]',
+      file: '/app/routes/posts/[id].tsx',
+      config: { cache },
+      module: {
+        default: ({ loaderData }: any) => createElement('p', null, loaderData.title),
+        loader: async ({ params }: any) => {
+          loads++;
+          return { title: `Post ${params.id}` };
+        },
+      },
+    };
+    const server = new BunServer({ logging: false, renderMode: 'string', responseCache: true });
+    server.setRouter({
+      match: (pathname: string) => {
+        const id = pathname.match(/^\/posts\/([^/]+)$/)?.[1];
+        return id ? { route, params: { id }, pathname } : null;
+      },
+      loadModule: async () => {},
+    } as any);
+    return { server, loads: () => loads };
+  }
+
+  test('caches HTML and JSON responses separately', async () => {
+    const { server, loads } = setup({ edge: { maxAge: 60 } });
+
+    const html = await server.handle(new Request('http://localhost/posts/1'));
+    expect(html.headers.get('X-Ereo-Cache')).toBe('MISS');
+    expect(await html.text()).toContain('Post 1');
+
+    const cached = await server.handle(new Request('http://localhost/posts/1'));
+    expect(cached.headers.get('X-Ereo-Cache')).toBe('HIT');
+
+    const data = await server.handle(new Request('http://localhost/posts/1', { headers: { Accept: 'application/json' } }));
+    expect(data.headers.get('X-Ereo-Cache')).toBe('MISS');
+    expect((await data.json()).data).toEqual({ title: 'Post 1' });
+
+    expect(loads()).toBe(2);
+    server.stop();
+  });
+
+  test('is purged by revalidateTag and revalidatePath', async () => {
+    const { server, loads } = setup({ edge: { maxAge: 60 }, data: { tags: ['posts'] } });
+
+    await server.handle(new Request('http://localhost/posts/2'));
+    await revalidateTag('posts');
+    await server.handle(new Request('http://localhost/posts/2'));
+    await revalidatePath('/posts/2');
+    await server.handle(new Request('http://localhost/posts/2'));
+
+    expect(loads()).toBe(3);
+    server.stop();
+  });
+
+  test('is disabled in development by default', async () => {
+    const server = new BunServer({ logging: false, development: true });
+    expect((server as any).responseCache).toBeNull();
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * @ereo/server - Response Cache
+ *
+ * Full-page and loader-data response caching driven by `RouteConfig.cache`.
+ * Entries are keyed on the route's key generator plus its `vary` headers,
+ * served stale-while-revalidate, and purged through revalidateTag/revalidatePath.
+ * Requests with credentials bypass it unless the key covers them.
+ */
+
+import type { RouteCacheConfig, RouteParams, TaggedCache } from '@ereo/core';
+import { CSRF_COOKIE, createTaggedCache } from '@ereo/core';
+import type { RevalidationEvent } from '@ereo/data';
+import { normalizePrerenderPath } from './prerender';
+import { DEFERRED_STREAM_CONTENT_TYPE } from './deferred-stream';
+
+/**
+ * A cached response, stored as plain data so any TaggedCache can hold it.
+ */
+export interface CachedResponseEntry {
+  body: string;
+  status: number;
+  statusText: string;
+  headers: Array<[string, string]>;
+  /** When the response was rendered (ms since epoch) */
+  createdAt: number;
+}
+
+/**
+ * Response cache options.
+ */
+export interface ResponseCacheOptions {
+  /** Cache store (default: in-memory tagged cache) */
+  store?: TaggedCache;
+  /** Maximum entries for the default in-memory store (default: 1000) */
+  maxEntries?: number;
+}
+
+/** Cache status reported in the X-Ereo-Cache header */
+export type ResponseCacheStatus = 'HIT' | 'STALE' | 'MISS';
+
+/** Tag prefix used to purge entries by path */
+const PATH_TAG_PREFIX = 'ereo:path:';
+
+/**
+ * Get the implicit tag attached to every entry for a pathname.
+ */
+export function getPathCacheTag(pathname: string): string {
+  return PATH_TAG_PREFIX + normalizePrerenderPath(pathname);
+}
+
+/**
+ * Build Cache-Control and CDN-Cache-Control headers for a route cache config.
+ */
+export function buildCacheControlHeaders(config: RouteCacheConfig): Headers {
+  const headers = new Headers();
+  const edge = config.edge;
+
+  if (edge) {
+    const swr = edge.staleWhileRevalidate ? `, stale-while-revalidate=${edge.staleWhileRevalidate}` : '';
+    headers.set('CDN-Cache-Control', `public, max-age=${edge.maxAge}${swr}`);
+    if (!config.browser) {
+      headers.set('Cache-Control', `public, max-age=0, s-maxage=${edge.maxAge}${swr}`);
+    }
+    if (edge.vary && edge.vary.length > 0) {
+      headers.set('Vary', edge.vary.join(', '));
+    }
+  }
+
+  if (config.browser) {
+    const scope = config.browser.private ? 'private' : 'public';
+    headers.set('Cache-Control', `${scope}, max-age=${config.browser.maxAge}`);
+  }
+
+  return headers;
+}
+
+/**
+ * Server-side response cache for routes with `cache.edge` config.
+ */
+export class ResponseCache {
+  readonly store: TaggedCache;
+  private refreshing = new Map<string, Promise<void>>();
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.store = options.store ?? createTaggedCache({ maxSize: options.maxEntries ?? 1000 });
+  }
+
+  /**
+   * Resolve the cache key for a request.
+   * Uses `edge.keyGenerator`, then `data.key`, then the URL; the response
+   * format (HTML or JSON) and each `vary` header are always part of the key.
+   */
+  resolveKey(request: Request, params: RouteParams, config: RouteCacheConfig): string {
+    const url = new URL(request.url);
+    let base: string;
+    if (config.edge?.keyGenerator) {
+      base = config.edge.keyGenerator({ request, params });
+    } else if (config.data?.key) {
+      base = typeof config.data.key === 'function' ? config.data.key(params) : config.data.key;
+    } else {
+      base = url.pathname + url.search;
+    }
+
+    const accept = request.headers.get('Accept') ?? '';
+    const format = accept.includes(DEFERRED_STREAM_CONTENT_TYPE)
+      ? 'ndjson'
+      : accept.includes('application/json')
+        ? 'json'
+        : 'html';
+    const vary = (config.edge?.vary ?? [])
+      .map((name) => `${name.toLowerCase()}=${request.headers.get(name) ?? ''}`)
+      .join('&');
+
+    return `response:${base}|${format}${vary ? `|${vary}` : ''}`;
+  }
+
+  /**
+   * Check whether a request may share cached responses with other visitors.
+   * Requests with `Authorization` or cookies (other than the CSRF token
+   * cookie) may render personalized pages, so they bypass the cache unless
+   * `edge.keyGenerator` or `edge.vary` accounts for them.
+   */
+  isCacheable(request: Request, config: RouteCacheConfig): boolean {
+    if (config.edge?.keyGenerator) return true;
+
+    const vary = new Set((config.edge?.vary ?? []).map((name) => name.toLowerCase()));
+    if (request.headers.has('Authorization') && !vary.has('authorization')) {
+      return false;
+    }
+
+    const cookie = request.headers.get('Cookie');
+    if (cookie && !vary.has('cookie')) {
+      return cookie
+        .split(';')
+        .every((pair) => !pair.trim() || pair.split('=')[0].trim() === CSRF_COOKIE);
+    }
+
+    return true;
+  }
+
+  /**
+   * Resolve the tags of an entry: `data.tags` plus an implicit path tag.
+   */
+  resolveTags(request: Request, params: RouteParams, config: RouteCacheConfig): string[] {
+    const tags = config.data?.tags;
+    const resolved = typeof tags === 'function' ? tags(params) : [...(tags ?? [])];
+    resolved.push(getPathCacheTag(new URL(request.url).pathname));
+    return resolved;
+  }
+
+  /**
+   * Serve a request from the cache, rendering on a miss.
+   * Stale entries are served while a single background render refreshes them.
+   */
+  async handle(
+    request: Request,
+    params: RouteParams,
+    config: RouteCacheConfig,
+    render: () => Promise<Response>
+  ): Promise<Response> {
+    const edge = config.edge;
+    if (!edge || !this.isCacheable(request, config)) return render();
+
+    const key = this.resolveKey(request, params, config);
+    const tags = this.resolveTags(request, params, config);
+    const entry = await this.store.get<CachedResponseEntry>(key);
+
+    if (entry) {
+      const age = (Date.now() - entry.createdAt) / 1000;
+      if (age < edge.maxAge) {
+        return this.toResponse(entry, config, 'HIT');
+      }
+      if (age < edge.maxAge + (edge.staleWhileRevalidate ?? 0)) {
+        this.refresh(key, tags, config, render);
+        return this.toResponse(entry, config, 'STALE');
+      }
+    }
+
+    const response = await render();
+    const saved = await this.save(key, tags, config, response);
+    return saved ? this.toResponse(saved, config, 'MISS') : response;
+  }
+
+  /**
+   * Purge entries matching a revalidation event.
+   */
+  async invalidate(event: RevalidationEvent): Promise<void> {
+    if (event.all) {
+      await this.store.clear();
+      return;
+    }
+    await this.store.invalidateTags([...event.tags, ...event.paths.map(getPathCacheTag)]);
+  }
+
+  /**
+   * Re-render an entry in the background. Concurrent calls share one render.
+   */
+  private refresh(
+    key: string,
+    tags: string[],
+    config: RouteCacheConfig,
+    render: () => Promise<Response>
+  ): void {
+    if (this.refreshing.has(key)) return;
+
+    const promise = (async () => {
+      try {
+        await this.save(key, tags, config, await render());
+      } catch (error) {
+        console.error(`Failed to refresh cached response: ${key}`, error);
+      } finally {
+        this.refreshing.delete(key);
+      }
+    })();
+
+    this.refreshing.set(key, promise);
+  }
+
+  /**
+   * Store a response. Only successful responses without cookies are cached.
+   * Returns the stored entry, or null if the response is not cacheable.
+   */
+  private async save(
+    key: string,
+    tags: string[],
+    config: RouteCacheConfig,
+    response: Response
+  ): Promise<CachedResponseEntry | null> {
+    const edge = config.edge!;
+    const ttl = edge.maxAge + (edge.staleWhileRevalidate ?? 0);
+    if (response.status !== 200 || response.headers.has('Set-Cookie') || ttl <= 0) {
+      return null;
+    }
+    // Deferred data streams are not buffered; the stream is passed through
+    if (response.headers.get('Content-Type')?.includes(DEFERRED_STREAM_CONTENT_TYPE)) {
+      return null;
+    }
+
+    const entry: CachedResponseEntry = {
+      body: await response.text(),
+      status: response.status,
+      statusText: response.statusText,
+      headers: [...response.headers],
+      createdAt: Date.now(),
+    };
+
+    await this.store.set(key, entry, { ttl, tags });
+    return entry;
+  }
+
+  /**
+   * Create a response from an entry, adding cache headers the route did not set.
+   */
+  private toResponse(
+    entry: CachedResponseEntry,
+    config: RouteCacheConfig,
+    status: ResponseCacheStatus
+  ): Response {
+    const headers = new Headers(entry.headers);
+    buildCacheControlHeaders(config).forEach((value, name) => {
+      if (!headers.has(name)) headers.set(name, value);
+    });
+    headers.set('Age', String(Math.floor((Date.now() - entry.createdAt) / 1000)));
+    headers.set('X-Ereo-Cache', status);
+
+    return new Response(entry.body, {
+      status: entry.status,
+      statusText: entry.statusText,
+      headers,
+    });
+  }
+}
+
+/**
+ * Create a response cache.
+ */
+export function createResponseCache(options?: ResponseCacheOptions): ResponseCache {
+  return new ResponseCache(options);
+}
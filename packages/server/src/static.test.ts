@@ -1,6 +1,7 @@
 import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
 import { join } from 'node:path';
 import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { gzipSync, brotliCompressSync } from 'node:zlib';
 import { serveStatic, staticMiddleware, getMimeType } from './static';
 
 const TEST_DIR = join(import.meta.dir, '__test_static__');
@@ -363,6 +364,133 @@ describe('@ereo/server - Static', () => {
     });
   });
 
+  describe('range requests', () => {
+    const get = (headers: Record<string, string>) =>
+      serveStatic({ root: TEST_DIR })(new Request('http://localhost:3000/test.txt', { headers }));
+
+    test('advertises byte ranges', async () => {
+      const response = await get({});
+      expect(response!.headers.get('Accept-Ranges')).toBe('bytes');
+    });
+
+    test('serves a single range', async () => {
+      const response = await get({ Range: 'bytes=0-4' });
+
+      expect(response!.status).toBe(206);
+      expect(response!.headers.get('Content-Range')).toBe('bytes 0-4/11');
+      expect(response!.headers.get('Content-Length')).toBe('5');
+      expect(await response!.text()).toBe('Hello');
+    });
+
+    test('serves open-ended and suffix ranges', async () => {
+      const openEnded = await get({ Range: 'bytes=6-' });
+      expect(await openEnded!.text()).toBe('World');
+
+      const suffix = await get({ Range: 'bytes=-3' });
+      expect(suffix!.headers.get('Content-Range')).toBe('bytes 8-10/11');
+      expect(await suffix!.text()).toBe('rld');
+
+      const pastEnd = await get({ Range: 'bytes=6-100' });
+      expect(pastEnd!.headers.get('Content-Range')).toBe('bytes 6-10/11');
+    });
+
+    test('serves multiple ranges as multipart/byteranges', async () => {
+      const response = await get({ Range: 'bytes=0-1, 6-7' });
+
+      expect(response!.status).toBe(206);
+      const contentType = response!.headers.get('Content-Type')!;
+      expect(contentType).toStartWith('multipart/byteranges; boundary=');
+
+      const boundary = contentType.split('boundary=')[1];
+      const body = await response!.text();
+      expect(body).toBe(
+        `--${boundary}\r\nContent-Type: text/plain; charset=utf-8\r\nContent-Range: bytes 0-1/11\r\n\r\nHe\r\n` +
+          `--${boundary}\r\nContent-Type: text/plain; charset=utf-8\r\nContent-Range: bytes 6-7/11\r\n\r\nWo\r\n` +
+          `--${boundary}--\r\n`
+      );
+      expect(response!.headers.get('Content-Length')).toBe(String(new TextEncoder().encode(body).length));
+    });
+
+    test('merges overlapping ranges', async () => {
+      const response = await get({ Range: 'bytes=0-3, 2-4' });
+
+      expect(response!.headers.get('Content-Range')).toBe('bytes 0-4/11');
+      expect(await response!.text()).toBe('Hello');
+    });
+
+    test('returns 416 for unsatisfiable ranges', async () => {
+      const response = await get({ Range: 'bytes=20-30' });
+
+      expect(response!.status).toBe(416);
+      expect(response!.headers.get('Content-Range')).toBe('bytes */11');
+    });
+
+    test('ignores malformed ranges', async () => {
+      for (const range of ['bytes=5-2', 'items=0-1', 'bytes=a-b']) {
+        const response = await get({ Range: range });
+        expect(response!.status).toBe(200);
+      }
+    });
+
+    test('honors If-Range', async () => {
+      const full = await get({});
+      const etag = full!.headers.get('ETag')!;
+      const lastModified = full!.headers.get('Last-Modified')!;
+
+      expect((await get({ Range: 'bytes=0-4', 'If-Range': etag }))!.status).toBe(206);
+      expect((await get({ Range: 'bytes=0-4', 'If-Range': lastModified }))!.status).toBe(206);
+      expect((await get({ Range: 'bytes=0-4', 'If-Range': '"stale"' }))!.status).toBe(200);
+    });
+  });
+
+  describe('precompressed files', () => {
+    const script = 'console.log("precompressed");'.repeat(10);
+
+    beforeEach(async () => {
+      await writeFile(join(TEST_DIR, 'app.js'), script);
+      await writeFile(join(TEST_DIR, 'app.js.br'), brotliCompressSync(script));
+      await writeFile(join(TEST_DIR, 'app.js.gz'), gzipSync(script));
+    });
+
+    const get = (headers: Record<string, string>, options: { precompressed?: boolean } = {}) =>
+      serveStatic({ root: TEST_DIR, ...options })(new Request('http://localhost:3000/app.js', { headers }));
+
+    test('serves the Brotli sibling when accepted', async () => {
+      const response = await get({ 'Accept-Encoding': 'gzip, deflate, br' });
+
+      expect(response!.headers.get('Content-Encoding')).toBe('br');
+      expect(response!.headers.get('Content-Type')).toBe('text/javascript; charset=utf-8');
+      expect(response!.headers.get('Vary')).toBe('Accept-Encoding');
+      expect(Number(response!.headers.get('Content-Length'))).toBeLessThan(script.length);
+    });
+
+    test('falls back to gzip and to the original file', async () => {
+      const gzip = await get({ 'Accept-Encoding': 'gzip' });
+      expect(gzip!.headers.get('Content-Encoding')).toBe('gzip');
+
+      const identity = await get({});
+      expect(identity!.headers.get('Content-Encoding')).toBeNull();
+      expect(identity!.headers.get('Vary')).toBe('Accept-Encoding');
+      expect(await identity!.text()).toBe(script);
+    });
+
+    test('uses a different ETag per encoding', async () => {
+      const br = await get({ 'Accept-Encoding': 'br' });
+      const identity = await get({});
+      expect(br!.headers.get('ETag')).not.toBe(identity!.headers.get('ETag'));
+    });
+
+    test('serves the original file for range requests and when disabled', async () => {
+      const ranged = await get({ 'Accept-Encoding': 'br', Range: 'bytes=0-6' });
+      expect(ranged!.status).toBe(206);
+      expect(ranged!.headers.get('Content-Encoding')).toBeNull();
+      expect(await ranged!.text()).toBe('console');
+
+      const disabled = await get({ 'Accept-Encoding': 'br' }, { precompressed: false });
+      expect(disabled!.headers.get('Content-Encoding')).toBeNull();
+    });
+  });
+
   describe('staticMiddleware', () => {
     test('creates middleware from static options', () => {
       const middleware = staticMiddleware({ root: TEST_DIR });
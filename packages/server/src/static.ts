@@ -1,11 +1,20 @@
 /**
  * @ereo/server - Static File Serving
  *
- * Efficient static file serving with caching support.
+ * Efficient static file serving with caching support, range requests
+ * and precompressed files.
  */
 
 import { stat } from 'node:fs/promises';
+import type { Stats } from 'node:fs';
 import { join, extname, resolve, normalize } from 'node:path';
+import {
+  negotiateEncoding,
+  isCompressible,
+  appendVary,
+  ENCODING_EXTENSIONS,
+  type ContentEncoding,
+} from './encoding';
 
 /**
  * MIME types for common file extensions.
@@ -69,6 +78,29 @@ export interface StaticOptions {
   fallback?: string;
   /** Enable format negotiation for images based on Accept header */
   negotiateImageFormat?: boolean;
+  /**
+   * Serve precompressed `.br`, `.zst` or `.gz` siblings of text-based files
+   * when the client accepts them (default: true)
+   */
+  precompressed?: boolean;
+}
+
+/**
+ * Precompressed siblings to look for, in order of preference.
+ */
+const PRECOMPRESSED_ENCODINGS: ContentEncoding[] = ['br', 'zstd', 'gzip'];
+
+/**
+ * Maximum number of ranges in a Range header before it is ignored.
+ */
+const MAX_RANGES = 20;
+
+/**
+ * Inclusive byte range.
+ */
+interface ByteRange {
+  start: number;
+  end: number;
 }
 
 /**
@@ -125,6 +157,172 @@ async function findOptimizedVariant(
   return null;
 }
 
+/**
+ * Find the precompressed sibling of a file to serve for an Accept-Encoding header.
+ */
+async function findPrecompressedVariant(
+  filepath: string,
+  acceptEncoding: string | null
+): Promise<{ path: string; stats: Stats; encoding: ContentEncoding } | null> {
+  let candidates = PRECOMPRESSED_ENCODINGS;
+
+  while (candidates.length > 0) {
+    const encoding = negotiateEncoding(acceptEncoding, candidates);
+    if (!encoding) {
+      return null;
+    }
+
+    const path = filepath + ENCODING_EXTENSIONS[encoding];
+    try {
+      const stats = await stat(path);
+      if (stats.isFile()) {
+        return { path, stats, encoding };
+      }
+    } catch {
+      // No sibling for this encoding
+    }
+
+    candidates = candidates.filter((candidate) => candidate !== encoding);
+  }
+
+  return null;
+}
+
+/**
+ * Parse a Range header.
+ *
+ * Returns the ranges to send (sorted, with overlapping ranges merged),
+ * 'unsatisfiable' when none of them overlaps the file, or null when the
+ * header should be ignored and the whole file sent.
+ */
+function parseRange(header: string, size: number): ByteRange[] | 'unsatisfiable' | null {
+  const match = /^bytes=(.+)$/i.exec(header.trim());
+  if (!match) {
+    return null;
+  }
+
+  const specs = match[1].split(',');
+  if (specs.length > MAX_RANGES) {
+    return null;
+  }
+
+  const ranges: ByteRange[] = [];
+  for (const spec of specs) {
+    const parts = /^(\d*)-(\d*)$/.exec(spec.trim());
+    if (!parts || (parts[1] === '' && parts[2] === '')) {
+      return null;
+    }
+
+    let start: number;
+    let end: number;
+    if (parts[1] === '') {
+      // Suffix range: the last N bytes
+      const length = Number(parts[2]);
+      if (length === 0) continue;
+      start = Math.max(0, size - length);
+      end = size - 1;
+    } else {
+      start = Number(parts[1]);
+      end = parts[2] === '' ? size - 1 : Math.min(Number(parts[2]), size - 1);
+      if (parts[2] !== '' && Number(parts[2]) < start) {
+        return null;
+      }
+    }
+
+    if (start < size) {
+      ranges.push({ start, end });
+    }
+  }
+
+  if (ranges.length === 0) {
+    return 'unsatisfiable';
+  }
+
+  ranges.sort((a, b) => a.start - b.start);
+  const merged: ByteRange[] = [ranges[0]];
+  for (const range of ranges.slice(1)) {
+    const last = merged[merged.length - 1];
+    if (range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push(range);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Check an If-Range header: ranges are only sent if the file is unchanged.
+ */
+function isRangeFresh(ifRange: string | null, etag: string, lastModified: string): boolean {
+  if (!ifRange) {
+    return true;
+  }
+  if (ifRange.startsWith('"') || ifRange.startsWith('W/')) {
+    // Weak validators never match
+    return ifRange === etag;
+  }
+  return Date.parse(ifRange) === Date.parse(lastModified);
+}
+
+/**
+ * Create a 206 response for one or more byte ranges of a file.
+ */
+function createRangeResponse(
+  file: Blob,
+  ranges: ByteRange[],
+  size: number,
+  contentType: string,
+  headers: Headers
+): Response {
+  if (ranges.length === 1) {
+    const [{ start, end }] = ranges;
+    headers.set('Content-Range', `bytes ${start}-${end}/${size}`);
+    headers.set('Content-Length', (end - start + 1).toString());
+    return new Response(file.slice(start, end + 1), { status: 206, headers });
+  }
+
+  const boundary = `ereo-${crypto.randomUUID()}`;
+  const encoder = new TextEncoder();
+  const partHeaders = ranges.map(({ start, end }) =>
+    encoder.encode(
+      `--${boundary}\r\nContent-Type: ${contentType}\r\nContent-Range: bytes ${start}-${end}/${size}\r\n\r\n`
+    )
+  );
+  const lineBreak = encoder.encode('\r\n');
+  const closing = encoder.encode(`--${boundary}--\r\n`);
+
+  let length = closing.length;
+  ranges.forEach(({ start, end }, i) => {
+    length += partHeaders[i].length + (end - start + 1) + lineBreak.length;
+  });
+
+  // Stream the parts one after another instead of reading every range into memory
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        for (let i = 0; i < ranges.length; i++) {
+          controller.enqueue(partHeaders[i]);
+          const reader = file.slice(ranges[i].start, ranges[i].end + 1).stream().getReader();
+          for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+            controller.enqueue(chunk.value);
+          }
+          controller.enqueue(lineBreak);
+        }
+        controller.enqueue(closing);
+        controller.close();
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+  });
+
+  headers.set('Content-Type', `multipart/byteranges; boundary=${boundary}`);
+  headers.set('Content-Length', length.toString());
+  return new Response(body, { status: 206, headers });
+}
+
 /**
  * Create a static file handler.
  */
@@ -138,6 +336,7 @@ export function serveStatic(options: StaticOptions): (request: Request) => Promi
     listing = false,
     fallback,
     negotiateImageFormat = true,
+    precompressed = true,
   } = options;
 
   return async (request: Request): Promise<Response | null> => {
@@ -201,12 +400,34 @@ export function serveStatic(options: StaticOptions): (request: Request) => Promi
         }
       }
 
+      // Content type of the file itself, also when a compressed sibling is sent
+      const contentType = getMimeType(filepath);
+      const rangeHeader = request.method === 'GET' ? request.headers.get('Range') : null;
+
+      // Serve a precompressed sibling if the client accepts it. Range
+      // requests always get the uncompressed file.
+      const compressible = precompressed && isCompressible(contentType);
+      let encoding: ContentEncoding | null = null;
+      if (compressible && !rangeHeader) {
+        const variant = await findPrecompressedVariant(filepath, request.headers.get('Accept-Encoding'));
+        if (variant) {
+          filepath = variant.path;
+          stats = variant.stats;
+          encoding = variant.encoding;
+        }
+      }
+
       // Build response
       const file = Bun.file(filepath);
       const headers = new Headers();
 
       // Content type
-      headers.set('Content-Type', getMimeType(filepath));
+      headers.set('Content-Type', contentType);
+      if (encoding) {
+        headers.set('Content-Encoding', encoding);
+      } else {
+        headers.set('Accept-Ranges', 'bytes');
+      }
 
       // Content length
       headers.set('Content-Length', stats.size.toString());
@@ -231,6 +452,9 @@ export function serveStatic(options: StaticOptions): (request: Request) => Promi
       if (negotiateImageFormat && NEGOTIABLE_IMAGE_EXTENSIONS.includes(requestedExt)) {
         headers.set('Vary', 'Accept');
       }
+      if (compressible) {
+        appendVary(headers, 'Accept-Encoding');
+      }
 
       // Handle conditional requests
       const ifNoneMatch = request.headers.get('If-None-Match');
@@ -251,6 +475,19 @@ export function serveStatic(options: StaticOptions): (request: Request) => Promi
         return new Response(null, { status: 200, headers });
       }
 
+      // Handle range requests
+      if (rangeHeader && isRangeFresh(request.headers.get('If-Range'), etag, headers.get('Last-Modified')!)) {
+        const ranges = parseRange(rangeHeader, stats.size);
+        if (ranges === 'unsatisfiable') {
+          headers.set('Content-Range', `bytes */${stats.size}`);
+          headers.delete('Content-Length');
+          return new Response(null, { status: 416, headers });
+        }
+        if (ranges) {
+          return createRangeResponse(file, ranges, stats.size, contentType, headers);
+        }
+      }
+
       return new Response(file, { status: 200, headers });
     } catch (error) {
       // File not found
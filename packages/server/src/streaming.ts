@@ -6,7 +6,7 @@
 
 import type { ReactElement } from 'react';
 import type { Route, RouteMatch, AppContext, LoaderFunction, LinkDescriptor } from '@ereo/core';
-import { serializeLoaderData, hasDeferredData, resolveAllDeferred } from '@ereo/data';
+import { serializeLoaderData, serializeLoaderDataAsync, hasDeferredData, resolveAllDeferred } from '@ereo/data';
 
 /**
  * Render options.
@@ -207,19 +207,19 @@ export async function renderToStream(
                 // React stream complete — resolve deferred data if needed.
                 // React's stream already included the $RC scripts and client entry.
                 if (hasDeferred) {
-                  let resolvedData: unknown;
+                  let serializedData: string;
                   try {
-                    resolvedData = await Promise.race([
-                      resolveAllDeferred(loaderData),
-                      new Promise<null>((_, rejectTimeout) =>
+                    serializedData = await Promise.race([
+                      serializeLoaderDataAsync(loaderData),
+                      new Promise<never>((_, rejectTimeout) =>
                         setTimeout(() => rejectTimeout(new Error('Deferred data resolution timed out')), DEFERRED_TIMEOUT_MS)
                       ),
                     ]);
                   } catch (error) {
                     console.error('Deferred data resolution failed:', error);
-                    resolvedData = null;
+                    serializedData = serializeLoaderData(null);
                   }
-                  const loaderScript = `<script>window.__EREO_DATA__=${serializeLoaderData(resolvedData)}</script>`;
+                  const loaderScript = `<script>window.__EREO_DATA__=${serializedData}</script>`;
                   const resolvedTail = `</div>\n    ${loaderScript}\n</body>\n</html>`;
                   controller.enqueue(encoder.encode(resolvedTail));
                 } else {
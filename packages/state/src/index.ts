@@ -8,12 +8,50 @@ export {
   signal,
   atom,
   computed,
+  effect,
+  untracked,
   batch,
   createStore,
 } from './signals';
 
+export type { EffectFn } from './signals';
+
+export {
+  defineStore,
+  StoreRegistry,
+  getRequestStores,
+  getClientStores,
+  clearClientStores,
+  getStore,
+  getStateScript,
+} from './ssr';
+
+export type {
+  StoreState,
+  StoreDefinition,
+  StoreDefinitionOptions,
+  StoreRegistryOptions,
+} from './ssr';
+
+export {
+  persistStore,
+  createIndexedDBStorage,
+} from './persist';
+
+export type {
+  PersistStorage,
+  PersistMigration,
+  PersistOptions,
+  PersistHandle,
+  IndexedDBStorageOptions,
+} from './persist';
+
 export {
   useSignal,
   useStoreKey,
   useStore,
+  useDefinedStore,
+  StoreProvider,
 } from './react';
+
+export type { StoreProviderProps } from './react';
@@ -0,0 +1,158 @@
+/**
+ * @ereo/state - Persistence Tests
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { serializeData, parseData } from '@ereo/core';
+import { createStore } from './signals';
+import { persistStore, type PersistStorage } from './persist';
+
+function memoryStorage(initial: Record<string, string> = {}): PersistStorage & { data: Map<string, string> } {
+  const data = new Map(Object.entries(initial));
+  return {
+    data,
+    getItem: async (key) => data.get(key) ?? null,
+    setItem: async (key, value) => {
+      data.set(key, value);
+    },
+    removeItem: async (key) => {
+      data.delete(key);
+    },
+  };
+}
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+describe('persistStore', () => {
+  test('restores saved state', async () => {
+    const storage = memoryStorage({ prefs: serializeData({ version: 0, state: { theme: 'dark' } }) });
+    const store = createStore({ theme: 'light', fontSize: 14 });
+
+    const handle = persistStore(store, { key: 'prefs', storage, sync: false });
+    await handle.ready;
+
+    expect(store.getSnapshot()).toEqual({ theme: 'dark', fontSize: 14 });
+    handle.dispose();
+  });
+
+  test('saves changes once per tick, keeping rich values', async () => {
+    const storage = memoryStorage();
+    let writes = 0;
+    const setItem = storage.setItem;
+    storage.setItem = (key, value) => {
+      writes++;
+      return setItem(key, value);
+    };
+    const store = createStore({ count: 0, updatedAt: new Date(0) });
+    const handle = persistStore(store, { key: 'counter', storage, sync: false });
+    await handle.ready;
+
+    store.set('count', 1);
+    store.set('count', 2);
+    store.set('updatedAt', new Date(1000));
+    await tick();
+
+    expect(writes).toBe(1);
+    expect(parseData(storage.data.get('counter')!)).toEqual({
+      version: 0,
+      state: { count: 2, updatedAt: new Date(1000) },
+    });
+    handle.dispose();
+  });
+
+  test('only persists the selected keys', async () => {
+    const storage = memoryStorage({ ui: serializeData({ version: 0, state: { open: true, token: 'x' } }) });
+    const store = createStore({ open: false, token: '' });
+    const handle = persistStore(store, { key: 'ui', storage, keys: ['open'], sync: false });
+    await handle.ready;
+
+    expect(store.getSnapshot()).toEqual({ open: true, token: '' });
+
+    store.set('token', 'secret');
+    await tick();
+    expect(parseData(storage.data.get('ui')!)).toEqual({ version: 0, state: { open: true } });
+    handle.dispose();
+  });
+
+  test('migrates state saved by older versions', async () => {
+    const storage = memoryStorage({ prefs: serializeData({ version: 1, state: { size: '12' } }) });
+    const store = createStore({ fontSize: 14 });
+
+    const handle = persistStore(store, {
+      key: 'prefs',
+      storage,
+      version: 3,
+      migrations: {
+        2: (state) => ({ fontSize: state.size }),
+        3: (state) => ({ fontSize: Number(state.fontSize) }),
+      },
+      sync: false,
+    });
+    await handle.ready;
+
+    expect(store.get('fontSize').get()).toBe(12);
+    expect(parseData(storage.data.get('prefs')!)).toEqual({ version: 3, state: { fontSize: 12 } });
+    handle.dispose();
+  });
+
+  test('ignores state saved by newer versions and malformed state', async () => {
+    const newer = memoryStorage({ prefs: serializeData({ version: 5, state: { theme: 'dark' } }) });
+    const malformed = memoryStorage({ prefs: 'not json' });
+
+    for (const storage of [newer, malformed]) {
+      const store = createStore({ theme: 'light' });
+      const handle = persistStore(store, { key: 'prefs', storage, version: 1, sync: false });
+      await handle.ready;
+      expect(store.get('theme').get()).toBe('light');
+      handle.dispose();
+    }
+  });
+
+  test('clear removes the saved state and dispose stops saving', async () => {
+    const storage = memoryStorage();
+    const store = createStore({ count: 0 });
+    const handle = persistStore(store, { key: 'counter', storage, sync: false });
+    await handle.ready;
+
+    store.set('count', 1);
+    await tick();
+    await handle.clear();
+    expect(storage.data.has('counter')).toBe(false);
+
+    handle.dispose();
+    store.set('count', 2);
+    await tick();
+    expect(storage.data.has('counter')).toBe(false);
+  });
+
+  test('syncs changes to other instances with the same key', async () => {
+    const storage = memoryStorage();
+    const first = createStore({ theme: 'light' });
+    const second = createStore({ theme: 'light' });
+    const a = persistStore(first, { key: 'synced', storage });
+    const b = persistStore(second, { key: 'synced', storage });
+    await Promise.all([a.ready, b.ready]);
+
+    first.set('theme', 'dark');
+    await tick();
+
+    expect(second.get('theme').get()).toBe('dark');
+    a.dispose();
+    b.dispose();
+  });
+
+  test('does nothing when the storage is unavailable', async () => {
+    const original = globalThis.sessionStorage;
+    Object.defineProperty(globalThis, 'sessionStorage', { value: undefined, configurable: true, writable: true });
+    try {
+      const store = createStore({ count: 0 });
+      const handle = persistStore(store, { key: 'counter', storage: 'session' });
+      await handle.ready;
+      store.set('count', 1);
+      expect(store.get('count').get()).toBe(1);
+      handle.dispose();
+    } finally {
+      Object.defineProperty(globalThis, 'sessionStorage', { value: original, configurable: true, writable: true });
+    }
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * @ereo/state - Persistence
+ *
+ * Save a store in the browser and restore it on the next visit. Saved
+ * state carries a version so migrations can upgrade what an older release
+ * saved, and changes are synced to other tabs through a BroadcastChannel.
+ */
+
+import { serializeData, parseData } from '@ereo/core';
+import { batch, type Store } from './signals';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Where persisted state is kept. Methods may be sync (Web Storage)
+ * or async (IndexedDB, remote storage).
+ */
+export interface PersistStorage {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+}
+
+/** Upgrades persisted state from the previous version */
+export type PersistMigration = (state: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Options for `persistStore`.
+ */
+export interface PersistOptions<T extends Record<string, unknown>> {
+  /** Storage key */
+  key: string;
+  /** Where to keep the state (default: 'local') */
+  storage?: 'local' | 'session' | 'indexeddb' | PersistStorage;
+  /** Version of the persisted shape (default: 0) */
+  version?: number;
+  /**
+   * Migrations keyed by the version they upgrade to. State saved at
+   * version 1 is passed through `migrations[2]`, then `migrations[3]`, and so on.
+   */
+  migrations?: Record<number, PersistMigration>;
+  /** Keys to persist (default: all keys) */
+  keys?: (keyof T & string)[];
+  /** Sync changes with other tabs (default: true) */
+  sync?: boolean;
+}
+
+/**
+ * A persisted store.
+ */
+export interface PersistHandle {
+  /** Resolves once saved state has been restored */
+  readonly ready: Promise<void>;
+  /** Remove the saved state */
+  clear(): Promise<void>;
+  /** Stop saving and syncing */
+  dispose(): void;
+}
+
+/** Stored envelope */
+interface PersistedState {
+  version: number;
+  state: Record<string, unknown>;
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+/** Options for the IndexedDB storage */
+export interface IndexedDBStorageOptions {
+  /** Database name (default: 'ereo-state') */
+  dbName?: string;
+  /** Object store name (default: 'stores') */
+  storeName?: string;
+}
+
+/**
+ * Keep persisted state in IndexedDB. Use it for state that is too large
+ * for localStorage.
+ */
+export function createIndexedDBStorage(options: IndexedDBStorageOptions = {}): PersistStorage {
+  const { dbName = 'ereo-state', storeName = 'stores' } = options;
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = (): Promise<IDBDatabase> =>
+    (database ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(dbName, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(storeName);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }));
+
+  const run = async <R>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> => {
+    const db = await open();
+    return new Promise((resolve, reject) => {
+      const request = fn(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    async getItem(key) {
+      const value = await run('readonly', (store) => store.get(key));
+      return typeof value === 'string' ? value : null;
+    },
+    async setItem(key, value) {
+      await run('readwrite', (store) => store.put(value, key));
+    },
+    async removeItem(key) {
+      await run('readwrite', (store) => store.delete(key));
+    },
+  };
+}
+
+function resolveStorage(storage: PersistOptions<Record<string, unknown>>['storage'] = 'local'): PersistStorage | null {
+  if (typeof storage === 'object') return storage;
+  try {
+    if (storage === 'local') return globalThis.localStorage ?? null;
+    if (storage === 'session') return globalThis.sessionStorage ?? null;
+    return typeof indexedDB === 'undefined' ? null : createIndexedDBStorage();
+  } catch {
+    // Web Storage throws when access is denied (e.g. sandboxed iframes)
+    return null;
+  }
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+/**
+ * Restore a store from storage and save it on every change.
+ * Without the storage (e.g. on the server), nothing is persisted.
+ *
+ * @example
+ * ```typescript
+ * const settings = createStore({ theme: 'light', fontSize: 14 });
+ *
+ * persistStore(settings, {
+ *   key: 'settings',
+ *   version: 2,
+ *   migrations: {
+ *     2: (state) => ({ ...state, fontSize: Number(state.fontSize) }),
+ *   },
+ * });
+ * ```
+ */
+export function persistStore<T extends Record<string, unknown>>(
+  store: Store<T>,
+  options: PersistOptions<T>
+): PersistHandle {
+  const { key, version = 0, migrations = {}, keys, sync = true } = options;
+  const storage = resolveStorage(options.storage);
+  if (!storage) {
+    return { ready: Promise.resolve(), clear: async () => {}, dispose: () => {} };
+  }
+
+  const channel =
+    sync && typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(`ereo-state:${key}`) : null;
+  let applying = false;
+  let saveScheduled = false;
+  let disposed = false;
+
+  const pick = (): Record<string, unknown> => {
+    const snapshot = store.getSnapshot();
+    if (!keys) return snapshot;
+    const picked: Record<string, unknown> = {};
+    for (const name of keys) {
+      if (name in snapshot) picked[name] = snapshot[name];
+    }
+    return picked;
+  };
+
+  const apply = (state: Record<string, unknown>): void => {
+    applying = true;
+    try {
+      batch(() => {
+        for (const [name, value] of Object.entries(state)) {
+          if (!keys || keys.includes(name)) store.set(name as keyof T, value as T[keyof T]);
+        }
+      });
+    } finally {
+      applying = false;
+    }
+  };
+
+  const save = async (): Promise<void> => {
+    saveScheduled = false;
+    if (disposed) return;
+    const raw = serializeData({ version, state: pick() } satisfies PersistedState);
+    try {
+      await storage.setItem(key, raw);
+    } catch (error) {
+      console.error(`[@ereo/state] Failed to persist store "${key}":`, error);
+    }
+    channel?.postMessage(raw);
+  };
+
+  const decode = (raw: string): PersistedState | null => {
+    try {
+      const parsed = parseData<PersistedState>(raw);
+      return parsed && typeof parsed.version === 'number' && parsed.state && typeof parsed.state === 'object'
+        ? parsed
+        : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const restore = async (): Promise<void> => {
+    let raw: string | null;
+    try {
+      raw = await storage.getItem(key);
+    } catch (error) {
+      console.error(`[@ereo/state] Failed to restore store "${key}":`, error);
+      return;
+    }
+    const persisted = raw === null ? null : decode(raw);
+    // State saved by a newer release cannot be downgraded
+    if (!persisted || persisted.version > version || disposed) return;
+
+    let state = persisted.state;
+    try {
+      for (let next = persisted.version + 1; next <= version; next++) {
+        const migrate = migrations[next];
+        if (migrate) state = migrate(state);
+      }
+    } catch (error) {
+      console.error(`[@ereo/state] Failed to migrate store "${key}":`, error);
+      return;
+    }
+    apply(state);
+    if (persisted.version !== version) await save();
+  };
+
+  const unsubscribe = store.subscribe(() => {
+    if (applying || saveScheduled) return;
+    // Coalesce the changes of one tick into a single write
+    saveScheduled = true;
+    queueMicrotask(() => void save());
+  });
+
+  if (channel) {
+    channel.onmessage = (event: MessageEvent) => {
+      const persisted = typeof event.data === 'string' ? decode(event.data) : null;
+      if (persisted && persisted.version === version) apply(persisted.state);
+    };
+  }
+
+  return {
+    ready: restore(),
+    async clear() {
+      await storage.removeItem(key);
+    },
+    dispose() {
+      disposed = true;
+      unsubscribe();
+      channel?.close();
+    },
+  };
+}
@@ -7,7 +7,7 @@
  */
 
 import { describe, expect, test } from 'bun:test';
-import { signal, computed, batch, createStore, Signal } from './signals';
+import { signal, computed, effect, batch, createStore, Signal } from './signals';
 import type { Store } from './signals';
 
 // ---------------------------------------------------------------------------
@@ -937,3 +937,47 @@ describe('signal lifecycle', () => {
     expect(source.get()).toBe(5);
   });
 });
+
+// ===========================================================================
+// Auto-tracked computed and selectors
+// ===========================================================================
+
+describe('useSignal with auto-tracked computed', () => {
+  test('getSnapshot is stable until a dependency changes', () => {
+    const items = signal([1, 2, 3]);
+    const evens = computed(() => items.get().filter((n) => n % 2 === 0));
+    let notified = 0;
+    const unsub = evens.subscribe(() => notified++);
+
+    const first = evens.get();
+    expect(evens.get()).toBe(first);
+
+    items.set([2, 4]);
+    expect(notified).toBe(1);
+    expect(evens.get()).not.toBe(first);
+    expect(evens.get()).toEqual([2, 4]);
+    unsub();
+  });
+
+  test('store selector works as a signal for useSignal', () => {
+    const store = createStore({ count: 1, name: 'test' });
+    const doubled = store.select((state) => state.count * 2);
+    expect(simulateUseSignal(doubled)).toBe(2);
+
+    store.set('count', 5);
+    expect(simulateUseSignal(doubled)).toBe(10);
+  });
+
+  test('reading a computed inside an effect tracks it', () => {
+    const a = signal(1);
+    const doubled = computed(() => a.get() * 2);
+    const seen: number[] = [];
+    const stop = effect(() => {
+      seen.push(simulateUseSignal(doubled));
+    });
+
+    a.set(2);
+    expect(seen).toEqual([2, 4]);
+    stop();
+  });
+});
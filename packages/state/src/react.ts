@@ -4,8 +4,10 @@
  * useSyncExternalStore wrappers for signals to ensure React Compiler compatibility.
  */
 
-import { useSyncExternalStore, useCallback, useRef } from 'react';
+import { createContext, createElement, useContext, useSyncExternalStore, useCallback, useRef } from 'react';
+import type { ReactNode, ReactElement } from 'react';
 import type { Signal, Store } from './signals';
+import { getClientStores, type StoreDefinition, type StoreRegistry, type StoreState } from './ssr';
 
 /**
  * Hook to use a signal value with React's useSyncExternalStore.
@@ -89,3 +91,41 @@ export function useStore<T extends Record<string, unknown>>(store: Store<T>): T
     }
   );
 }
+
+const StoreRegistryContext = createContext<StoreRegistry | null>(null);
+
+/**
+ * Props for StoreProvider.
+ */
+export interface StoreProviderProps {
+  registry: StoreRegistry;
+  children?: ReactNode;
+}
+
+/**
+ * Provide the store registry that `useDefinedStore` reads from.
+ * The server wraps every page in it with the request's registry;
+ * without it, the browser's registry is used.
+ */
+export function StoreProvider({ registry, children }: StoreProviderProps): ReactElement {
+  return createElement(StoreRegistryContext.Provider, { value: registry }, children);
+}
+
+/**
+ * Hook to get the instance of a defined store: the request's instance
+ * during server rendering, the browser's instance after hydration.
+ *
+ * @example
+ * ```tsx
+ * const cartStore = defineStore('cart', () => ({ items: [] as CartItem[] }));
+ *
+ * function CartBadge() {
+ *   const items = useStoreKey(useDefinedStore(cartStore), 'items');
+ *   return <span>{items.length}</span>;
+ * }
+ * ```
+ */
+export function useDefinedStore<T extends StoreState>(definition: StoreDefinition<T>): Store<T> {
+  const registry = useContext(StoreRegistryContext);
+  return (registry ?? getClientStores()).get(definition);
+}
@@ -3,7 +3,7 @@
  */
 
 import { describe, expect, test } from 'bun:test';
-import { Signal, signal, computed, atom, batch, Store, createStore, _scheduleBatchNotification } from './signals';
+import { Signal, signal, computed, effect, untracked, atom, batch, Store, createStore, _scheduleBatchNotification } from './signals';
 
 describe('Signal', () => {
   test('creates signal with initial value', () => {
@@ -1960,3 +1960,364 @@ describe('_scheduleBatchNotification edge cases', () => {
     expect(calls).toEqual(['a', 'b', 'c']);
   });
 });
+
+// ===========================================================================
+// Auto-tracked computed
+// ===========================================================================
+
+describe('auto-tracked computed', () => {
+  test('tracks the signals it reads', () => {
+    const first = signal('Ada');
+    const last = signal('Lovelace');
+    const fullName = computed(() => `${first.get()} ${last.get()}`);
+
+    expect(fullName.get()).toBe('Ada Lovelace');
+    last.set('Byron');
+    expect(fullName.get()).toBe('Ada Byron');
+  });
+
+  test('is lazy and evaluates at most once per change', () => {
+    const a = signal(1);
+    let runs = 0;
+    const doubled = computed(() => {
+      runs++;
+      return a.get() * 2;
+    });
+
+    expect(runs).toBe(0);
+    expect(doubled.get()).toBe(2);
+    expect(doubled.get()).toBe(2);
+    expect(runs).toBe(1);
+
+    a.set(2);
+    a.set(3);
+    expect(runs).toBe(1);
+    expect(doubled.get()).toBe(6);
+    expect(runs).toBe(2);
+  });
+
+  test('only tracks the branch that was read', () => {
+    const flag = signal(true);
+    const a = signal(1);
+    const b = signal(2);
+    let runs = 0;
+    const result = computed(() => {
+      runs++;
+      return flag.get() ? a.get() : b.get();
+    });
+    result.subscribe(() => {});
+    expect(runs).toBe(1);
+
+    b.set(20);
+    expect(runs).toBe(1);
+
+    flag.set(false);
+    expect(result.get()).toBe(20);
+    a.set(10);
+    expect(runs).toBe(2);
+  });
+
+  test('diamond notifies subscribers once with consistent values', () => {
+    const a = signal(1);
+    const b = computed(() => a.get() * 2);
+    const c = computed(() => a.get() * 3);
+    let runs = 0;
+    const d = computed(() => {
+      runs++;
+      return b.get() + c.get();
+    });
+    const values: number[] = [];
+    d.subscribe((v) => values.push(v));
+    runs = 0;
+
+    a.set(2);
+
+    expect(values).toEqual([10]);
+    expect(runs).toBe(1);
+  });
+
+  test('does not notify when the result is unchanged', () => {
+    const a = signal(5);
+    const clamped = computed(() => Math.min(a.get(), 10));
+    const values: number[] = [];
+    clamped.subscribe((v) => values.push(v));
+
+    a.set(15);
+    a.set(20);
+    expect(values).toEqual([10]);
+  });
+
+  test('updates once per batch', () => {
+    const a = signal(1);
+    const b = signal(2);
+    const sum = computed(() => a.get() + b.get());
+    const values: number[] = [];
+    sum.subscribe((v) => values.push(v));
+
+    batch(() => {
+      a.set(10);
+      b.set(20);
+      expect(sum.get()).toBe(30);
+    });
+
+    expect(values).toEqual([30]);
+  });
+
+  test('reads of untracked signals are not dependencies', () => {
+    const a = signal(1);
+    const b = signal(1);
+    let runs = 0;
+    const result = computed(() => {
+      runs++;
+      return a.get() + untracked(() => b.get()) + b.peek();
+    });
+    result.subscribe(() => {});
+
+    b.set(5);
+    expect(runs).toBe(1);
+    expect(result.get()).toBe(3);
+  });
+
+  test('rethrows errors until a source changes', () => {
+    const a = signal(1);
+    const inverse = computed(() => {
+      if (a.get() === 0) throw new Error('div by zero');
+      return 1 / a.get();
+    });
+
+    a.set(0);
+    expect(() => inverse.get()).toThrow('div by zero');
+    a.set(4);
+    expect(inverse.get()).toBe(0.25);
+  });
+
+  test('detects cycles', () => {
+    const a = signal(0);
+    const b: Signal<number> = computed(() => (a.get() ? b.get() : 0));
+
+    expect(b.get()).toBe(0);
+    a.set(1);
+    expect(() => b.get()).toThrow('Cycle detected');
+  });
+
+  test('cannot be set', () => {
+    const c = computed(() => 1);
+    expect(() => c.set(2)).toThrow('Cannot set a computed signal');
+  });
+
+  test('unlinks from sources when the last subscriber leaves', () => {
+    const a = signal(1);
+    const doubled = computed(() => a.get() * 2);
+    const unsubscribe = doubled.subscribe(() => {});
+    expect(a._observers.size).toBe(1);
+
+    unsubscribe();
+    expect(a._observers.size).toBe(0);
+    a.set(2);
+    expect(doubled.get()).toBe(4);
+  });
+
+  test('dispose keeps the last value', () => {
+    const a = signal(1);
+    const doubled = computed(() => a.get() * 2);
+    expect(doubled.get()).toBe(2);
+
+    doubled.dispose();
+    a.set(5);
+    expect(doubled.get()).toBe(2);
+  });
+});
+
+// ===========================================================================
+// effect
+// ===========================================================================
+
+describe('effect', () => {
+  test('runs immediately and on change', () => {
+    const count = signal(0);
+    const seen: number[] = [];
+    effect(() => {
+      seen.push(count.get());
+    });
+
+    count.set(1);
+    count.set(2);
+    expect(seen).toEqual([0, 1, 2]);
+  });
+
+  test('runs once per batch', () => {
+    const a = signal(0);
+    const b = signal(0);
+    const seen: string[] = [];
+    effect(() => {
+      seen.push(`${a.get()},${b.get()}`);
+    });
+
+    batch(() => {
+      a.set(1);
+      b.set(2);
+    });
+    expect(seen).toEqual(['0,0', '1,2']);
+  });
+
+  test('never sees a glitch through computeds', () => {
+    const a = signal(1);
+    const b = computed(() => a.get() + 1);
+    const c = computed(() => a.get() * 10);
+    const seen: [number, number, number][] = [];
+    effect(() => {
+      seen.push([a.get(), b.get(), c.get()]);
+    });
+
+    a.set(2);
+    expect(seen).toEqual([
+      [1, 2, 10],
+      [2, 3, 20],
+    ]);
+  });
+
+  test('skips runs when a computed dependency is unchanged', () => {
+    const a = signal(1);
+    const isPositive = computed(() => a.get() > 0);
+    let runs = 0;
+    effect(() => {
+      isPositive.get();
+      runs++;
+    });
+
+    a.set(2);
+    a.set(3);
+    expect(runs).toBe(1);
+    a.set(-1);
+    expect(runs).toBe(2);
+  });
+
+  test('runs cleanup before the next run and on dispose', () => {
+    const id = signal(1);
+    const log: string[] = [];
+    const stop = effect(() => {
+      const current = id.get();
+      log.push(`start ${current}`);
+      return () => log.push(`stop ${current}`);
+    });
+
+    id.set(2);
+    stop();
+    id.set(3);
+
+    expect(log).toEqual(['start 1', 'stop 1', 'start 2', 'stop 2']);
+  });
+
+  test('dispose unlinks the effect from its sources', () => {
+    const a = signal(0);
+    const doubled = computed(() => a.get() * 2);
+    const stop = effect(() => {
+      doubled.get();
+    });
+    expect(a._observers.size).toBe(1);
+
+    stop();
+    expect(a._observers.size).toBe(0);
+    expect(doubled._observers.size).toBe(0);
+  });
+
+  test('does not re-trigger itself when writing a dependency', () => {
+    const count = signal(0);
+    let runs = 0;
+    effect(() => {
+      runs++;
+      count.set(count.get() + 1);
+    });
+
+    expect(runs).toBe(1);
+    expect(count.get()).toBe(1);
+  });
+
+  test('isolates errors', () => {
+    const a = signal(0);
+    const errors: unknown[] = [];
+    const origError = console.error;
+    console.error = (...args: unknown[]) => errors.push(args[1]);
+
+    const seen: number[] = [];
+    effect(() => {
+      if (a.get() === 1) throw new Error('effect crash');
+    });
+    effect(() => {
+      seen.push(a.get());
+    });
+    a.set(1);
+
+    console.error = origError;
+    expect(errors.length).toBe(1);
+    expect(seen).toEqual([0, 1]);
+  });
+
+  test('subscriber reads are not tracked by a running effect', () => {
+    const a = signal(0);
+    const b = signal(0);
+    a.subscribe(() => b.get());
+    let runs = 0;
+    effect(() => {
+      runs++;
+      a.set(a.peek() + 1);
+    });
+
+    b.set(1);
+    expect(runs).toBe(1);
+  });
+});
+
+// ===========================================================================
+// Store selectors
+// ===========================================================================
+
+describe('Store.select', () => {
+  test('derives a value from the store', () => {
+    const store = createStore({ items: [1, 2, 3], filter: 'all' });
+    const count = store.select((state) => state.items.length);
+
+    expect(count.get()).toBe(3);
+    store.set('items', [1]);
+    expect(count.get()).toBe(1);
+  });
+
+  test('only notifies when the keys it reads change', () => {
+    const store = createStore({ count: 0, name: 'a' });
+    let runs = 0;
+    const doubled = store.select((state) => {
+      runs++;
+      return state.count * 2;
+    });
+    const values: number[] = [];
+    doubled.subscribe((v) => values.push(v));
+
+    store.set('name', 'b');
+    store.set('count', 2);
+
+    expect(values).toEqual([4]);
+    expect(runs).toBe(2);
+  });
+
+  test('sees keys added after creation', () => {
+    const store = createStore<Record<string, number>>({ a: 1 });
+    const keys = store.select((state) => Object.keys(state).join(','));
+    keys.subscribe(() => {});
+
+    store.set('b', 2);
+    expect(keys.get()).toBe('a,b');
+  });
+
+  test('works with effects', () => {
+    const store = createStore({ user: 'ada', theme: 'dark' });
+    const user = store.select((state) => state.user.toUpperCase());
+    const seen: string[] = [];
+    effect(() => {
+      seen.push(user.get());
+    });
+
+    store.set('theme', 'light');
+    store.set('user', 'grace');
+    expect(seen).toEqual(['ADA', 'GRACE']);
+  });
+});
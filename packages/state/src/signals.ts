@@ -1,22 +1,46 @@
 /**
  * @ereo/state - Signals and reactivity system
  *
- * Fine-grained reactivity for state management.
+ * Fine-grained reactivity for state management. Reading a signal inside
+ * an auto-tracked `computed` or an `effect` records it as a dependency.
+ * Computeds are lazy and only re-evaluate when a dependency changed;
+ * effects run after every change has been propagated, so they never see
+ * a mix of old and new values.
  */
 
 /** Subscriber function */
 type Subscriber<T> = (value: T) => void;
 
+/**
+ * A node that reads signals: an auto-tracked computed or an effect.
+ * @internal
+ */
+export interface ReactiveObserver {
+  /** Record a signal read while the observer runs */
+  _track(source: Signal<unknown>): void;
+  /** A source changed, so the observer may be stale */
+  _markStale(): void;
+}
+
+/** Observer whose reads are being tracked */
+let activeObserver: ReactiveObserver | null = null;
+/** Incremented on every signal change, lets unwatched computeds skip checks */
+let globalVersion = 0;
+
 /** Signal with reactive value */
 export class Signal<T> {
-  private _value: T;
-  private _subscribers: Set<Subscriber<T>> = new Set();
+  protected _value: T;
+  protected _subscribers: Set<Subscriber<T>> = new Set();
   /** Stable reference for batch deduplication */
   private readonly _boundFire: () => void;
   /** Cleanup functions for upstream subscriptions (from map/computed) */
   _disposers: (() => void)[] = [];
   /** Whether this signal has been disposed */
-  private _disposed = false;
+  protected _disposed = false;
+  /** Incremented whenever the value changes */
+  _version = 0;
+  /** Computeds and effects that read this signal */
+  _observers: Set<ReactiveObserver> = new Set();
 
   constructor(initialValue: T) {
     this._value = initialValue;
@@ -25,15 +49,33 @@ export class Signal<T> {
 
   /** Get current value (subscribes in reactive context) */
   get(): T {
+    if (activeObserver) activeObserver._track(this as Signal<unknown>);
     return this._value;
   }
 
+  /** Get current value without subscribing in reactive context */
+  peek(): T {
+    return untracked(() => this.get());
+  }
+
   /** Set new value (notifies subscribers) */
   set(value: T): void {
-    if (!Object.is(this._value, value)) {
-      this._value = value;
+    if (Object.is(this._value, value)) return;
+    this._value = value;
+    this._version++;
+    globalVersion++;
+
+    if (this._observers.size === 0) {
       this._notify();
+      return;
     }
+    // Mark the whole graph first; effects and subscribers run when the batch ends
+    batch(() => {
+      for (const observer of this._observers) {
+        observer._markStale();
+      }
+      this._notify();
+    });
   }
 
   /** Update value with function */
@@ -65,6 +107,17 @@ export class Signal<T> {
     this._subscribers.clear();
   }
 
+  /** Bring the value up to date (only computeds can be out of date) */
+  _refresh(): void {}
+
+  _addObserver(observer: ReactiveObserver): void {
+    this._observers.add(observer);
+  }
+
+  _removeObserver(observer: ReactiveObserver): void {
+    this._observers.delete(observer);
+  }
+
   private _notify(): void {
     if (this._disposed) return;
     const deferred = _scheduleBatchNotification(this._boundFire);
@@ -73,14 +126,291 @@ export class Signal<T> {
     }
   }
 
-  private _fireSubscribers(): void {
-    for (const subscriber of this._subscribers) {
-      try {
-        subscriber(this._value);
-      } catch (e) {
-        // Isolate subscriber errors so one failing subscriber doesn't block others
-        console.error('Signal subscriber error:', e);
+  protected _fireSubscribers(): void {
+    // Reads in subscribers must not become dependencies of a running computed or effect
+    const prevObserver = activeObserver;
+    activeObserver = null;
+    try {
+      for (const subscriber of this._subscribers) {
+        try {
+          subscriber(this._value);
+        } catch (e) {
+          // Isolate subscriber errors so one failing subscriber doesn't block others
+          console.error('Signal subscriber error:', e);
+        }
       }
+    } finally {
+      activeObserver = prevObserver;
+    }
+  }
+}
+
+/** Link an observer to the sources it started reading and unlink it from the ones it stopped reading */
+function relink(
+  observer: ReactiveObserver,
+  prev: Map<Signal<unknown>, number>,
+  next: Map<Signal<unknown>, number>
+): void {
+  for (const source of next.keys()) {
+    if (!prev.has(source)) source._addObserver(observer);
+  }
+  for (const source of prev.keys()) {
+    if (!next.has(source)) source._removeObserver(observer);
+  }
+}
+
+/** Whether any source changed since it was read. Brings computed sources up to date first. */
+function sourcesChanged(sources: Map<Signal<unknown>, number>): boolean {
+  for (const [source, version] of sources) {
+    source._refresh();
+    if (source._version !== version) return true;
+  }
+  return false;
+}
+
+/**
+ * Auto-tracked computed signal.
+ *
+ * Evaluated lazily on read. While it has subscribers or is read by an
+ * effect it is linked into its sources and marked stale on change;
+ * otherwise it checks its sources' versions when read.
+ */
+class Computed<T> extends Signal<T> implements ReactiveObserver {
+  private readonly _fn: () => T;
+  private _sources: Map<Signal<unknown>, number> = new Map();
+  private _nextSources: Map<Signal<unknown>, number> | null = null;
+  private _evaluated = false;
+  private _running = false;
+  /** Linked computeds: a source changed since the last evaluation */
+  private _stale = true;
+  /** Unlinked computeds: globalVersion when last known up to date */
+  private _checkedAt = -1;
+  /** Registered as an observer of its sources */
+  private _linked = false;
+  private _hasError = false;
+  private _error: unknown;
+  /** Version subscribers were last notified of */
+  private _notifiedVersion = -1;
+  private readonly _boundNotifySubscribers: () => void;
+
+  constructor(fn: () => T) {
+    super(undefined as T);
+    this._fn = fn;
+    this._boundNotifySubscribers = this._notifySubscribers.bind(this);
+  }
+
+  get(): T {
+    this._refresh();
+    if (activeObserver) activeObserver._track(this as Signal<unknown>);
+    if (this._hasError) throw this._error;
+    return this._value;
+  }
+
+  set(): void {
+    throw new Error('Cannot set a computed signal');
+  }
+
+  subscribe(subscriber: Subscriber<T>): () => void {
+    const unsubscribe = super.subscribe(subscriber);
+    if (this._subscribers.size === 1) {
+      this._updateLink();
+      this._notifiedVersion = this._version;
+    }
+    return () => {
+      unsubscribe();
+      this._updateLink();
+    };
+  }
+
+  dispose(): void {
+    super.dispose();
+    this._updateLink();
+  }
+
+  _track(source: Signal<unknown>): void {
+    this._nextSources?.set(source, source._version);
+  }
+
+  _markStale(): void {
+    if (this._stale) return;
+    this._stale = true;
+    for (const observer of this._observers) {
+      observer._markStale();
+    }
+    if (this._subscribers.size > 0) {
+      _scheduleBatchNotification(this._boundNotifySubscribers);
+    }
+  }
+
+  _refresh(): void {
+    if (this._running) {
+      throw new Error('Cycle detected in computed signal');
+    }
+    if (this._disposed) return;
+    if (this._evaluated && (this._linked ? !this._stale : this._checkedAt === globalVersion)) return;
+
+    if (this._evaluated && !sourcesChanged(this._sources)) {
+      this._stale = false;
+      this._checkedAt = globalVersion;
+      return;
+    }
+    this._evaluate();
+  }
+
+  _addObserver(observer: ReactiveObserver): void {
+    super._addObserver(observer);
+    this._updateLink();
+  }
+
+  _removeObserver(observer: ReactiveObserver): void {
+    super._removeObserver(observer);
+    this._updateLink();
+  }
+
+  private _evaluate(): void {
+    const prevObserver = activeObserver;
+    activeObserver = this;
+    this._nextSources = new Map();
+    this._running = true;
+    try {
+      const value = this._fn();
+      if (!this._evaluated || this._hasError || !Object.is(this._value, value)) {
+        this._value = value;
+        this._version++;
+      }
+      this._hasError = false;
+    } catch (e) {
+      // Keep the error so every read rethrows it until a source changes
+      this._error = e;
+      this._hasError = true;
+      this._version++;
+    } finally {
+      activeObserver = prevObserver;
+      this._running = false;
+      const next = this._nextSources!;
+      this._nextSources = null;
+      if (this._linked) relink(this, this._sources, next);
+      this._sources = next;
+    }
+    this._evaluated = true;
+    this._stale = false;
+    this._checkedAt = globalVersion;
+  }
+
+  /** Link while anything watches this computed so changes are pushed to it */
+  private _updateLink(): void {
+    const watched = !this._disposed && (this._subscribers.size > 0 || this._observers.size > 0);
+    if (watched === this._linked) return;
+
+    if (watched) {
+      this._refresh();
+      this._linked = true;
+      this._stale = false;
+      for (const source of this._sources.keys()) {
+        source._addObserver(this);
+      }
+    } else {
+      this._linked = false;
+      for (const source of this._sources.keys()) {
+        source._removeObserver(this);
+      }
+    }
+  }
+
+  private _notifySubscribers(): void {
+    this._refresh();
+    if (this._version === this._notifiedVersion) return;
+    this._notifiedVersion = this._version;
+    if (this._hasError) {
+      console.error('Computed signal error:', this._error);
+      return;
+    }
+    this._fireSubscribers();
+  }
+}
+
+/** Effect function; may return a cleanup function */
+export type EffectFn = () => void | (() => void);
+
+/** Side effect that re-runs when the signals it read change */
+class Effect implements ReactiveObserver {
+  private readonly _fn: EffectFn;
+  private _sources: Map<Signal<unknown>, number> = new Map();
+  private _nextSources: Map<Signal<unknown>, number> | null = null;
+  private _cleanup: (() => void) | undefined;
+  private _stale = false;
+  private _running = false;
+  private _disposed = false;
+  private readonly _boundRun: () => void;
+
+  constructor(fn: EffectFn) {
+    this._fn = fn;
+    this._boundRun = this._run.bind(this);
+  }
+
+  _track(source: Signal<unknown>): void {
+    this._nextSources?.set(source, source._version);
+  }
+
+  _markStale(): void {
+    // Writes an effect makes to its own dependencies do not re-trigger it
+    if (this._stale || this._running || this._disposed) return;
+    this._stale = true;
+    if (!_scheduleBatchNotification(this._boundRun)) {
+      this._run();
+    }
+  }
+
+  /** Run the effect and track what it reads */
+  _execute(): void {
+    this._runCleanup();
+
+    const prevObserver = activeObserver;
+    activeObserver = this;
+    this._nextSources = new Map();
+    this._running = true;
+    try {
+      const cleanup = this._fn();
+      if (typeof cleanup === 'function') this._cleanup = cleanup;
+    } catch (e) {
+      console.error('Effect error:', e);
+    } finally {
+      activeObserver = prevObserver;
+      this._running = false;
+      const next = this._nextSources!;
+      this._nextSources = null;
+      relink(this, this._sources, next);
+      this._sources = next;
+    }
+  }
+
+  _dispose(): void {
+    if (this._disposed) return;
+    this._disposed = true;
+    this._runCleanup();
+    for (const source of this._sources.keys()) {
+      source._removeObserver(this);
+    }
+    this._sources.clear();
+  }
+
+  private _run(): void {
+    if (this._disposed || !this._stale) return;
+    this._stale = false;
+    // A computed source may have re-evaluated to the same value
+    if (sourcesChanged(this._sources)) {
+      this._execute();
+    }
+  }
+
+  private _runCleanup(): void {
+    const cleanup = this._cleanup;
+    this._cleanup = undefined;
+    if (!cleanup) return;
+    try {
+      untracked(cleanup);
+    } catch (e) {
+      console.error('Effect cleanup error:', e);
     }
   }
 }
@@ -90,9 +420,26 @@ export function signal<T>(initialValue: T): Signal<T> {
   return new Signal(initialValue);
 }
 
-/** Create a computed signal */
-export function computed<T>(fn: () => T, deps: Signal<unknown>[]): Signal<T> {
-  const c = new Signal(fn());
+/**
+ * Create a computed signal.
+ *
+ * Without `deps`, the signals read by `fn` are tracked automatically and
+ * the value is evaluated lazily, at most once per change. With `deps`,
+ * the value is recomputed eagerly whenever one of them notifies.
+ *
+ * @example
+ * ```typescript
+ * const firstName = signal('Ada');
+ * const lastName = signal('Lovelace');
+ * const fullName = computed(() => `${firstName.get()} ${lastName.get()}`);
+ * ```
+ */
+export function computed<T>(fn: () => T, deps?: Signal<unknown>[]): Signal<T> {
+  if (!deps) {
+    return new Computed(fn);
+  }
+
+  const c = new Signal(untracked(fn));
 
   const update = (): void => {
     c.set(fn());
@@ -107,6 +454,38 @@ export function computed<T>(fn: () => T, deps: Signal<unknown>[]): Signal<T> {
   return c;
 }
 
+/**
+ * Run a side effect now and again whenever a signal it read changes.
+ * The function may return a cleanup function, which runs before the next
+ * run and on dispose. Effects run once per batch, after every computed
+ * they depend on is up to date.
+ *
+ * @returns Function that stops the effect
+ *
+ * @example
+ * ```typescript
+ * const stop = effect(() => {
+ *   document.title = `${count.get()} items`;
+ * });
+ * ```
+ */
+export function effect(fn: EffectFn): () => void {
+  const instance = new Effect(fn);
+  instance._execute();
+  return () => instance._dispose();
+}
+
+/** Run a function without tracking the signals it reads */
+export function untracked<T>(fn: () => T): T {
+  const prevObserver = activeObserver;
+  activeObserver = null;
+  try {
+    return fn();
+  } finally {
+    activeObserver = prevObserver;
+  }
+}
+
 /** Atom (alias for signal) */
 export function atom<T>(initialValue: T): Signal<T> {
   return signal(initialValue);
@@ -158,6 +537,8 @@ export class Store<T extends Record<string, unknown>> {
   private _listeners: Set<() => void> = new Set();
   /** Internal signal subscriptions that forward to _listeners */
   private _internalUnsubs: (() => void)[] = [];
+  /** Changes when a key is added, so selectors see new keys */
+  private _keys = signal(0);
 
   constructor(initialState: T) {
     for (const [key, value] of Object.entries(initialState)) {
@@ -198,10 +579,32 @@ export class Store<T extends Record<string, unknown>> {
       const newSignal = signal(value);
       this._state.set(key as string, newSignal);
       this._subscribeToSignal(newSignal);
+      this._keys.update((n) => n + 1);
       this._notifyListeners();
     }
   }
 
+  /**
+   * Derive a signal from the store. Only the keys the selector reads are
+   * tracked, and subscribers are only notified when the result changes.
+   *
+   * @example
+   * ```typescript
+   * const cart = createStore({ items: [] as Item[], coupon: null as string | null });
+   * const itemCount = cart.select((state) => state.items.length);
+   * ```
+   */
+  select<U>(selector: (state: Readonly<T>) => U): Signal<U> {
+    return computed(() => {
+      this._keys.get();
+      const state = {} as T;
+      for (const [key, sig] of this._state) {
+        Object.defineProperty(state, key, { get: () => sig.get(), enumerable: true });
+      }
+      return selector(state);
+    });
+  }
+
   /** Subscribe to any change in the store (value changes or new keys) */
   subscribe(listener: () => void): () => void {
     this._listeners.add(listener);
@@ -0,0 +1,107 @@
+/**
+ * @ereo/state - Server Rendering Tests
+ */
+
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import { createContext, reviveData } from '@ereo/core';
+import {
+  defineStore,
+  StoreRegistry,
+  getRequestStores,
+  getClientStores,
+  clearClientStores,
+  getStore,
+  getStateScript,
+} from './ssr';
+
+const counterStore = defineStore('counter', () => ({ count: 0, label: 'clicks' }));
+
+function requestContext() {
+  return createContext(new Request('http://localhost/'));
+}
+
+describe('StoreRegistry', () => {
+  test('creates one instance per definition', () => {
+    const registry = new StoreRegistry();
+    const store = registry.get(counterStore);
+
+    expect(registry.get(counterStore)).toBe(store);
+    expect(registry.has(counterStore)).toBe(true);
+    expect(store.get('count').get()).toBe(0);
+  });
+
+  test('starts stores from the given state', () => {
+    const registry = new StoreRegistry({ initialState: { counter: { count: 5 } } });
+    expect(registry.get(counterStore).getSnapshot()).toEqual({ count: 5, label: 'clicks' });
+  });
+
+  test('getState returns snapshots of created stores', () => {
+    const registry = new StoreRegistry();
+    expect(registry.getState()).toEqual({});
+
+    registry.get(counterStore).set('count', 3);
+    expect(registry.getState()).toEqual({ counter: { count: 3, label: 'clicks' } });
+  });
+});
+
+describe('request stores', () => {
+  test('each request gets its own instances', () => {
+    const first = requestContext();
+    const second = requestContext();
+
+    getStore(counterStore, first).set('count', 1);
+
+    expect(getStore(counterStore, first).get('count').get()).toBe(1);
+    expect(getStore(counterStore, second).get('count').get()).toBe(0);
+    expect(getRequestStores(first)).toBe(getRequestStores(first));
+  });
+
+  test('getStateScript embeds rich values safely', () => {
+    const registry = new StoreRegistry();
+    const store = registry.get(defineStore('profile', () => ({ bio: '', joined: new Date(0) })));
+    store.set('bio', '</script><script>alert(1)</script>');
+
+    const script = getStateScript(registry);
+    expect(script.startsWith('<script>window.__EREO_STATE__=')).toBe(true);
+    expect(script.match(/<\/script>/g)!.length).toBe(1);
+
+    const literal = script.slice('<script>window.__EREO_STATE__='.length, -'</script>'.length);
+    expect(reviveData(JSON.parse(literal))).toEqual({
+      profile: { bio: '</script><script>alert(1)</script>', joined: new Date(0) },
+    });
+  });
+
+  test('getStateScript is empty without stores', () => {
+    expect(getStateScript(new StoreRegistry())).toBe('');
+  });
+});
+
+describe('client stores', () => {
+  const hadWindow = typeof window !== 'undefined';
+  const win = (hadWindow ? window : {}) as { __EREO_STATE__?: unknown };
+
+  beforeEach(() => {
+    if (!hadWindow) (globalThis as any).window = win;
+    clearClientStores();
+  });
+
+  afterEach(() => {
+    delete win.__EREO_STATE__;
+    clearClientStores();
+    if (!hadWindow) delete (globalThis as any).window;
+  });
+
+  test('start from the state embedded by the server', () => {
+    const server = new StoreRegistry();
+    server.get(counterStore).set('count', 7);
+    const script = getStateScript(server);
+    win.__EREO_STATE__ = JSON.parse(script.slice('<script>window.__EREO_STATE__='.length, -'</script>'.length));
+
+    expect(getStore(counterStore).getSnapshot()).toEqual({ count: 7, label: 'clicks' });
+    expect(getClientStores().get(counterStore)).toBe(getStore(counterStore));
+  });
+
+  test('use the initial state without embedded state', () => {
+    expect(getStore(counterStore).get('count').get()).toBe(0);
+  });
+});
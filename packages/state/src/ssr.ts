@@ -0,0 +1,193 @@
+/**
+ * @ereo/state - Server Rendering
+ *
+ * Request-scoped stores. A store created at module level is shared by
+ * every request the server handles; a store created from a definition
+ * lives in a registry instead: one per request on the server, one per
+ * page in the browser. The server embeds the state of the request's
+ * registry in the HTML (`window.__EREO_STATE__`) and the browser
+ * registry starts from it, before any island hydrates.
+ */
+
+import { serializeData, reviveData, type AppContext } from '@ereo/core';
+import { Store } from './signals';
+import { persistStore, type PersistOptions } from './persist';
+
+// ============================================================================
+// Definitions
+// ============================================================================
+
+/** State of a store */
+export type StoreState = Record<string, unknown>;
+
+/**
+ * Options for `defineStore`.
+ */
+export interface StoreDefinitionOptions<T extends StoreState> {
+  /** Persist the store in the browser (default key: `ereo:<id>`) */
+  persist?: Omit<PersistOptions<T>, 'key'> & { key?: string };
+}
+
+/**
+ * A store blueprint. Each registry creates its own instance from it.
+ */
+export interface StoreDefinition<T extends StoreState> {
+  /** Unique ID, used as the key of the embedded state */
+  readonly id: string;
+  /** Create the initial state of a new instance */
+  readonly initialState: () => T;
+  readonly options: StoreDefinitionOptions<T>;
+}
+
+/**
+ * Define a store whose instances are scoped to a request on the server.
+ *
+ * @example
+ * ```typescript
+ * export const cartStore = defineStore('cart', () => ({ items: [] as CartItem[] }));
+ *
+ * // In a loader
+ * export async function loader({ context }: LoaderArgs) {
+ *   getStore(cartStore, context).set('items', await getCart(context));
+ *   return null;
+ * }
+ *
+ * // In a component or island
+ * const items = useStoreKey(useDefinedStore(cartStore), 'items');
+ * ```
+ */
+export function defineStore<T extends StoreState>(
+  id: string,
+  initialState: () => T,
+  options: StoreDefinitionOptions<T> = {}
+): StoreDefinition<T> {
+  return { id, initialState, options };
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+/** Options for a store registry */
+export interface StoreRegistryOptions {
+  /** State to start stores from, keyed by store ID */
+  initialState?: Record<string, StoreState>;
+  /** Apply the `persist` option of definitions (browser registry only) */
+  persist?: boolean;
+}
+
+/**
+ * Holds one instance of each defined store.
+ */
+export class StoreRegistry {
+  private _stores: Map<string, Store<any>> = new Map();
+  private _persisted: (() => void)[] = [];
+  private readonly _initialState: Record<string, StoreState>;
+  private readonly _persist: boolean;
+
+  constructor(options: StoreRegistryOptions = {}) {
+    this._initialState = options.initialState ?? {};
+    this._persist = options.persist ?? false;
+  }
+
+  /** Get the instance of a store, creating it on first use */
+  get<T extends StoreState>(definition: StoreDefinition<T>): Store<T> {
+    const existing = this._stores.get(definition.id);
+    if (existing) return existing as Store<T>;
+
+    const store = new Store<T>({ ...definition.initialState(), ...this._initialState[definition.id] } as T);
+    this._stores.set(definition.id, store);
+
+    const persist = definition.options.persist;
+    if (this._persist && persist) {
+      this._persisted.push(persistStore(store, { key: `ereo:${definition.id}`, ...persist }).dispose);
+    }
+    return store;
+  }
+
+  /** Check if an instance of a store has been created */
+  has(definition: StoreDefinition<StoreState>): boolean {
+    return this._stores.has(definition.id);
+  }
+
+  /** Snapshots of every created store, keyed by store ID */
+  getState(): Record<string, StoreState> {
+    const state: Record<string, StoreState> = {};
+    for (const [id, store] of this._stores) {
+      state[id] = store.getSnapshot();
+    }
+    return state;
+  }
+
+  /** Dispose every store and stop persisting */
+  dispose(): void {
+    for (const stop of this._persisted) stop();
+    for (const store of this._stores.values()) store.dispose();
+    this._persisted = [];
+    this._stores.clear();
+  }
+}
+
+// ============================================================================
+// Server and browser registries
+// ============================================================================
+
+const CONTEXT_KEY = 'ereo:state';
+
+/**
+ * Get the store registry of a request, creating it on first use.
+ */
+export function getRequestStores(context: AppContext): StoreRegistry {
+  let registry = context.get<StoreRegistry>(CONTEXT_KEY);
+  if (!registry) {
+    registry = new StoreRegistry();
+    context.set(CONTEXT_KEY, registry);
+  }
+  return registry;
+}
+
+let clientStores: StoreRegistry | null = null;
+
+/**
+ * Get the browser's store registry. Stores start from the state the
+ * server embedded in the page.
+ */
+export function getClientStores(): StoreRegistry {
+  if (typeof window === 'undefined') {
+    throw new Error('getClientStores is only available in the browser; on the server use getRequestStores(context)');
+  }
+  if (!clientStores) {
+    const raw = (window as unknown as { __EREO_STATE__?: unknown }).__EREO_STATE__;
+    clientStores = new StoreRegistry({
+      initialState: raw === undefined ? {} : reviveData<Record<string, StoreState>>(raw),
+      persist: true,
+    });
+  }
+  return clientStores;
+}
+
+/**
+ * Dispose the browser's store registry (useful for testing)
+ */
+export function clearClientStores(): void {
+  clientStores?.dispose();
+  clientStores = null;
+}
+
+/**
+ * Get the instance of a store: the request's instance when a context is
+ * given, the browser's instance otherwise.
+ */
+export function getStore<T extends StoreState>(definition: StoreDefinition<T>, context?: AppContext): Store<T> {
+  return (context ? getRequestStores(context) : getClientStores()).get(definition);
+}
+
+/**
+ * Render the script that hands the state of a registry to the browser.
+ * Returns an empty string when no store was created.
+ */
+export function getStateScript(registry: StoreRegistry): string {
+  const state = registry.getState();
+  if (Object.keys(state).length === 0) return '';
+  return `<script>window.__EREO_STATE__=${serializeData(state)}</script>`;
+}
@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'bun:test';
 import { createTracer } from '../tracer';
-import { traceLoader, recordLoaderMetrics, traceCacheOperation } from '../instrumentors/data';
+import { traceLoader, recordLoaderMetrics, recordBatchMetrics, traceCacheOperation } from '../instrumentors/data';
 import { traceRPCCall, recordRPCValidation } from '../instrumentors/rpc';
 import { traceAuthCheck } from '../instrumentors/auth';
 import { traceError, withErrorCapture } from '../instrumentors/errors';
@@ -71,6 +71,24 @@ describe('Data instrumentor', () => {
     expect(trace.spans.size).toBe(4);
   });
 
+  it('recordBatchMetrics creates a span per batch', () => {
+    const tracer = createTracer();
+    const root = tracer.startTrace('test', 'request');
+
+    recordBatchMetrics(root, [
+      { loader: 'users', size: 50, duration: 4.2 },
+      { loader: 'posts', size: 3, duration: 1.5, error: 'connection lost' },
+    ]);
+
+    root.end();
+    const trace = tracer.getTraces()[0];
+    const spans = Array.from(trace.spans.values());
+    const users = spans.find(s => s.name === 'batch:users');
+    expect(users!.layer).toBe('data');
+    expect(users!.attributes['batch.size']).toBe(50);
+    expect(spans.find(s => s.name === 'batch:posts')!.attributes['error.message']).toBe('connection lost');
+  });
+
   it('traceCacheOperation adds events', () => {
     const tracer = createTracer();
     const root = tracer.startTrace('test', 'request');
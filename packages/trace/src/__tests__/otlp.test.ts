@@ -0,0 +1,198 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import { createTracer } from '../tracer';
+import { createOTLPExporter, toOTLPRequest, type OTLPExportRequest } from '../otlp';
+import { BatchTraceProcessor } from '../exporter';
+import type { TraceData, TraceExporter } from '../types';
+
+/** Local stand-in for an OTLP/HTTP collector */
+function startStubCollector(status = 200) {
+  const requests: Array<{ body: OTLPExportRequest; headers: Headers }> = [];
+  const server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      requests.push({ body: await request.json(), headers: request.headers });
+      return new Response('{}', { status });
+    },
+  });
+  return { url: `http://localhost:${server.port}/v1/traces`, requests, stop: () => server.stop(true) };
+}
+
+// Other suites swap the global fetch and AbortSignal (e.g. for happy-dom),
+// so talk to the stub collector with Bun's own fetch
+const fetch: typeof globalThis.fetch = (input, init) => Bun.fetch(input, { ...init, signal: undefined });
+
+function memoryExporter() {
+  const batches: TraceData[][] = [];
+  const exporter: TraceExporter = {
+    async export(traces) {
+      batches.push(traces);
+    },
+  };
+  return { exporter, batches };
+}
+
+describe('createOTLPExporter', () => {
+  let collector: ReturnType<typeof startStubCollector> | null = null;
+
+  afterEach(() => {
+    collector?.stop();
+    collector = null;
+  });
+
+  it('sends traces to the collector as OTLP/JSON', async () => {
+    collector = startStubCollector();
+    const tracer = createTracer({
+      exporters: [createOTLPExporter({ url: collector.url, serviceName: 'shop', headers: { 'x-api-key': 'k' }, fetch })],
+    });
+
+    const root = tracer.startTrace('GET /cart', 'request', {}, {
+      parent: { traceId: '4bf92f3577b34da6a3ce929d0e0e4736', spanId: '00f067aa0ba902b7', sampled: true },
+    });
+    const child = root.child('loader:cart', 'data');
+    child.setAttribute('cache.hit', false);
+    child.setAttribute('rows', 3);
+    child.error(new Error('db down'));
+    child.end();
+    root.end();
+    await tracer.flush();
+
+    expect(collector.requests).toHaveLength(1);
+    const { body, headers } = collector.requests[0];
+    expect(headers.get('x-api-key')).toBe('k');
+
+    const resource = body.resourceSpans[0].resource.attributes;
+    expect(resource).toContainEqual({ key: 'service.name', value: { stringValue: 'shop' } });
+
+    const spans = body.resourceSpans[0].scopeSpans[0].spans;
+    const rootSpan = spans.find((s) => s.spanId === root.id)!;
+    const childSpan = spans.find((s) => s.spanId === child.id)!;
+
+    expect(rootSpan.traceId).toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+    expect(rootSpan.parentSpanId).toBe('00f067aa0ba902b7');
+    expect(rootSpan.kind).toBe(2);
+    expect(childSpan.parentSpanId).toBe(root.id);
+    expect(childSpan.status).toEqual({ code: 2, message: 'db down' });
+    expect(childSpan.attributes).toContainEqual({ key: 'cache.hit', value: { boolValue: false } });
+    expect(childSpan.attributes).toContainEqual({ key: 'rows', value: { intValue: '3' } });
+    expect(BigInt(rootSpan.endTimeUnixNano)).toBeGreaterThanOrEqual(BigInt(rootSpan.startTimeUnixNano));
+    expect(Number(BigInt(rootSpan.startTimeUnixNano) / 1_000_000n)).toBeGreaterThan(Date.now() - 60_000);
+  });
+
+  it('rejects when the collector fails', async () => {
+    collector = startStubCollector(503);
+    const exporter = createOTLPExporter({ url: collector.url, fetch });
+    const tracer = createTracer();
+    tracer.startTrace('GET /', 'request').end();
+
+    await expect(exporter.export(tracer.getTraces())).rejects.toThrow('503');
+  });
+});
+
+describe('toOTLPRequest', () => {
+  it('encodes every span of every trace', () => {
+    const tracer = createTracer();
+    const a = tracer.startTrace('a', 'request');
+    a.child('a1', 'data').end();
+    a.end();
+    tracer.startTrace('b', 'custom').end();
+
+    const request = toOTLPRequest(tracer.getTraces(), { 'service.name': 'x' });
+    expect(request.resourceSpans[0].scopeSpans[0].spans).toHaveLength(3);
+  });
+});
+
+describe('Tracer sampling', () => {
+  it('exports nothing when the ratio is 0', async () => {
+    const { exporter, batches } = memoryExporter();
+    const tracer = createTracer({ exporters: [exporter], sampling: { ratio: 0 } });
+
+    tracer.startTrace('GET /', 'request').end();
+    await tracer.flush();
+
+    expect(tracer.getTraces()).toHaveLength(1);
+    expect(batches).toHaveLength(0);
+  });
+
+  it('lets the tail sampler keep traces the head dropped', async () => {
+    const { exporter, batches } = memoryExporter();
+    const tracer = createTracer({
+      exporters: [exporter],
+      sampling: {
+        ratio: 0,
+        tail: (trace, sampled) => sampled || Array.from(trace.spans.values()).some((s) => s.status === 'error'),
+      },
+    });
+
+    tracer.startTrace('ok', 'request').end();
+    const failed = tracer.startTrace('failed', 'request');
+    failed.error(new Error('boom'));
+    failed.end();
+    await tracer.flush();
+
+    expect(batches.flat().map((t) => t.id)).toEqual([failed.traceId]);
+  });
+
+  it('can ignore the caller sampling decision', () => {
+    const tracer = createTracer({ sampling: { parentBased: false } });
+    const span = tracer.startTrace('GET /', 'request', {}, {
+      parent: { traceId: '4bf92f3577b34da6a3ce929d0e0e4736', spanId: '00f067aa0ba902b7', sampled: false },
+    });
+    expect(tracer.isSampled(span.traceId)).toBe(true);
+  });
+});
+
+describe('BatchTraceProcessor', () => {
+  function trace(id: string): TraceData {
+    return { id, rootSpanId: id, startTime: 0, endTime: 0, duration: 0, spans: new Map(), metadata: { origin: 'server' } };
+  }
+
+  it('exports full batches immediately and the rest after the delay', async () => {
+    const { exporter, batches } = memoryExporter();
+    const processor = new BatchTraceProcessor(exporter, { maxBatchSize: 2, scheduledDelay: 10 });
+
+    processor.add(trace('1'));
+    processor.add(trace('2'));
+    processor.add(trace('3'));
+    await Promise.resolve();
+    expect(batches.map((b) => b.length)).toEqual([2]);
+
+    await new Promise((r) => setTimeout(r, 30));
+    expect(batches.map((b) => b.length)).toEqual([2, 1]);
+  });
+
+  it('drops traces when the queue is full', async () => {
+    const { exporter, batches } = memoryExporter();
+    const processor = new BatchTraceProcessor(exporter, { maxQueueSize: 1, scheduledDelay: 60_000 });
+    const warn = console.warn;
+    console.warn = () => {};
+
+    processor.add(trace('1'));
+    processor.add(trace('2'));
+    console.warn = warn;
+    await processor.shutdown();
+
+    expect(batches.flat().map((t) => t.id)).toEqual(['1']);
+  });
+
+  it('logs failed exports and keeps going', async () => {
+    let calls = 0;
+    const processor = new BatchTraceProcessor(
+      {
+        async export() {
+          calls++;
+          throw new Error('offline');
+        },
+      },
+      { maxBatchSize: 1 },
+    );
+    const error = console.error;
+    console.error = () => {};
+
+    processor.add(trace('1'));
+    processor.add(trace('2'));
+    await processor.flush();
+    console.error = error;
+
+    expect(calls).toBe(2);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import { getTraceHeaders } from '@ereo/core';
+import type { AppContext } from '@ereo/core';
+import { createTracer } from '../tracer';
+import { traceMiddleware } from '../instrumentors/request';
+import {
+  parseTraceparent,
+  formatTraceparent,
+  extractTraceContext,
+  disableTracePropagation,
+} from '../propagation';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const SPAN_ID = '00f067aa0ba902b7';
+
+function createMockContext(): AppContext {
+  const store = new Map<string, unknown>();
+  return {
+    cache: { set() {}, get: () => undefined, getTags: () => [], addTags() {} },
+    get<T>(key: string): T | undefined { return store.get(key) as T | undefined; },
+    set<T>(key: string, value: T): void { store.set(key, value); },
+    responseHeaders: new Headers(),
+    url: new URL('http://localhost/'),
+    env: {},
+  };
+}
+
+describe('traceparent', () => {
+  it('parses valid headers', () => {
+    expect(parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-01`)).toEqual({
+      traceId: TRACE_ID,
+      spanId: SPAN_ID,
+      sampled: true,
+    });
+    expect(parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-00`)?.sampled).toBe(false);
+  });
+
+  it('rejects malformed and invalid headers', () => {
+    expect(parseTraceparent(null)).toBeNull();
+    expect(parseTraceparent('garbage')).toBeNull();
+    expect(parseTraceparent(`ff-${TRACE_ID}-${SPAN_ID}-01`)).toBeNull();
+    expect(parseTraceparent(`00-${'0'.repeat(32)}-${SPAN_ID}-01`)).toBeNull();
+    expect(parseTraceparent(`00-${TRACE_ID}-${'0'.repeat(16)}-01`)).toBeNull();
+    expect(parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-01-extra`)).toBeNull();
+  });
+
+  it('accepts trailing fields from future versions', () => {
+    expect(parseTraceparent(`01-${TRACE_ID}-${SPAN_ID}-01-extra`)?.traceId).toBe(TRACE_ID);
+  });
+
+  it('formats headers', () => {
+    expect(formatTraceparent({ traceId: TRACE_ID, spanId: SPAN_ID, sampled: true })).toBe(
+      `00-${TRACE_ID}-${SPAN_ID}-01`,
+    );
+  });
+
+  it('extracts tracestate along with traceparent', () => {
+    const headers = new Headers({ traceparent: `00-${TRACE_ID}-${SPAN_ID}-01`, tracestate: 'vendor=abc' });
+    expect(extractTraceContext(headers)?.traceState).toBe('vendor=abc');
+    expect(extractTraceContext(new Headers({ tracestate: 'vendor=abc' }))).toBeNull();
+  });
+});
+
+describe('traceMiddleware - trace context', () => {
+  afterEach(() => disableTracePropagation());
+
+  it('continues an inbound trace and propagates it to outbound calls', async () => {
+    const tracer = createTracer();
+    const mw = traceMiddleware(tracer);
+    let outbound: Record<string, string> | undefined;
+
+    const request = new Request('http://localhost/orders', {
+      headers: { traceparent: `00-${TRACE_ID}-${SPAN_ID}-01`, tracestate: 'vendor=abc' },
+    });
+    await mw(request, createMockContext(), async () => {
+      await Promise.resolve();
+      outbound = getTraceHeaders();
+      return new Response('OK');
+    });
+
+    const [trace] = tracer.getTraces();
+    expect(trace.id).not.toBe(TRACE_ID);
+    expect(trace.metadata.parentTraceId).toBe(TRACE_ID);
+    expect(trace.metadata.parentSpanId).toBe(SPAN_ID);
+    expect(trace.metadata.sampled).toBe(true);
+    expect(outbound).toEqual({
+      traceparent: `00-${TRACE_ID}-${trace.rootSpanId}-01`,
+      tracestate: 'vendor=abc',
+    });
+    expect(getTraceHeaders()).toBeUndefined();
+  });
+
+  it('follows the caller sampling decision', async () => {
+    const tracer = createTracer();
+    const mw = traceMiddleware(tracer);
+
+    const request = new Request('http://localhost/', { headers: { traceparent: `00-${TRACE_ID}-${SPAN_ID}-00` } });
+    await mw(request, createMockContext(), async () => new Response('OK'));
+
+    expect(tracer.isSampled(tracer.getTraces()[0].id)).toBe(false);
+  });
+
+  it('keeps concurrent requests of the same remote trace apart', async () => {
+    const tracer = createTracer();
+    const mw = traceMiddleware(tracer);
+    const request = () =>
+      new Request('http://localhost/', { headers: { traceparent: `00-${TRACE_ID}-${SPAN_ID}-01` } });
+
+    let release!: () => void;
+    const slow = mw(request(), createMockContext(), async () => {
+      await new Promise<void>((resolve) => (release = resolve));
+      return new Response('slow');
+    });
+    await mw(request(), createMockContext(), async () => new Response('fast'));
+    release();
+    await slow;
+
+    const traces = tracer.getTraces();
+    expect(traces).toHaveLength(2);
+    expect(traces[0].id).not.toBe(traces[1].id);
+    for (const trace of traces) {
+      expect(trace.metadata.parentTraceId).toBe(TRACE_ID);
+      expect(trace.spans.size).toBe(1);
+    }
+  });
+
+  it('ignores trace headers when propagation is off', async () => {
+    const tracer = createTracer();
+    const mw = traceMiddleware(tracer, { propagate: false });
+    let outbound: Record<string, string> | undefined;
+
+    const request = new Request('http://localhost/', { headers: { traceparent: `00-${TRACE_ID}-${SPAN_ID}-01` } });
+    await mw(request, createMockContext(), async () => {
+      outbound = getTraceHeaders();
+      return new Response('OK');
+    });
+
+    expect(tracer.getTraces()[0].metadata.parentTraceId).toBeUndefined();
+    expect(outbound).toBeUndefined();
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * @ereo/trace - Trace Export
+ *
+ * Queues completed traces and hands them to an exporter in batches,
+ * off the request path. A failed export is logged and its batch dropped.
+ */
+
+import type { TraceBatchConfig, TraceData, TraceExporter } from './types';
+
+/**
+ * Batches traces for one exporter.
+ */
+export class BatchTraceProcessor {
+  private queue: TraceData[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private exporting: Promise<void> = Promise.resolve();
+  private dropped = 0;
+  private maxBatchSize: number;
+  private maxQueueSize: number;
+  private scheduledDelay: number;
+
+  constructor(
+    private exporter: TraceExporter,
+    config: TraceBatchConfig = {},
+  ) {
+    this.maxBatchSize = config.maxBatchSize ?? 64;
+    this.maxQueueSize = config.maxQueueSize ?? 1024;
+    this.scheduledDelay = config.scheduledDelay ?? 5000;
+  }
+
+  /** Queue a completed trace */
+  add(trace: TraceData): void {
+    if (this.queue.length >= this.maxQueueSize) {
+      // Warn once per overflow, not once per trace
+      if (this.dropped++ === 0) {
+        console.warn(`[trace] Export queue full (${this.maxQueueSize}), dropping traces`);
+      }
+      return;
+    }
+    this.dropped = 0;
+    this.queue.push(trace);
+
+    if (this.queue.length >= this.maxBatchSize) {
+      void this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => void this.flush(), this.scheduledDelay);
+      // Pending exports must not keep the process alive
+      if (typeof this.timer === 'object' && 'unref' in this.timer) this.timer.unref();
+    }
+  }
+
+  /** Export every queued trace */
+  flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    // Exports run one at a time, in queue order
+    this.exporting = this.exporting.then(async () => {
+      while (this.queue.length > 0) {
+        const batch = this.queue.splice(0, this.maxBatchSize);
+        try {
+          await this.exporter.export(batch);
+        } catch (err) {
+          console.error(`[trace] Failed to export ${batch.length} traces:`, err);
+        }
+      }
+    });
+    return this.exporting;
+  }
+
+  /** Flush, then shut down the exporter */
+  async shutdown(): Promise<void> {
+    await this.flush();
+    await this.exporter.shutdown?.();
+  }
+}
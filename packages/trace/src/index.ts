@@ -36,6 +36,26 @@ export {
   type SerializedTraceStreamEvent,
 } from './transport';
 
+// Export (OTLP) and W3C trace context propagation
+export { BatchTraceProcessor } from './exporter';
+export {
+  createOTLPExporter,
+  toOTLPRequest,
+  type OTLPExporterOptions,
+  type OTLPExportRequest,
+  type OTLPSpan,
+} from './otlp';
+export {
+  parseTraceparent,
+  formatTraceparent,
+  extractTraceContext,
+  traceContextHeaders,
+  runWithTraceContext,
+  getCurrentTraceContext,
+  enableTracePropagation,
+  disableTracePropagation,
+} from './propagation';
+
 // Collector
 export { createCollector, TraceCollector } from './collector';
 
@@ -50,8 +70,10 @@ export {
   recordRouteMatch,
   traceLoader,
   recordLoaderMetrics,
+  recordBatchMetrics,
   traceCacheOperation,
   type LoaderTraceInfo,
+  type BatchTraceInfo,
   traceFormSubmit,
   recordFormValidation,
   recordSignalUpdate,
@@ -86,4 +108,9 @@ export type {
   Tracer,
   TraceStreamEvent,
   TracerConfig,
+  TraceContext,
+  StartTraceOptions,
+  TraceExporter,
+  TraceBatchConfig,
+  TraceSamplingConfig,
 } from './types';
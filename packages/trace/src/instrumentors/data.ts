@@ -1,9 +1,9 @@
 /**
  * @ereo/trace - Data / Caching Instrumentor (Layer 3)
  *
- * Creates child span per loader in pipeline.
- * Records: loader key, duration, cacheHit, source, waitingFor.
- * Leverages existing PipelineMetrics/LoaderMetrics.
+ * Creates child span per loader in pipeline and per batch loader call.
+ * Records: loader key, duration, cacheHit, source, waitingFor, batch size.
+ * Leverages existing PipelineMetrics/LoaderMetrics/BatchMetrics.
  */
 
 import type { Span } from '../types';
@@ -18,6 +18,14 @@ export interface LoaderTraceInfo {
   error?: string;
 }
 
+/** Batch loader call info for tracing */
+export interface BatchTraceInfo {
+  loader: string;
+  size: number;
+  duration: number;
+  error?: string;
+}
+
 /**
  * Trace a single loader execution.
  */
@@ -81,6 +89,27 @@ export function recordLoaderMetrics(
   }
 }
 
+/**
+ * Record batch loader calls from getBatchMetrics() or PipelineMetrics.batches onto the trace.
+ * Call after the loaders have finished.
+ */
+export function recordBatchMetrics(
+  parentSpan: Span,
+  batches: BatchTraceInfo[],
+): void {
+  for (const batch of batches) {
+    const span = parentSpan.child(`batch:${batch.loader}`, 'data');
+    span.setAttribute('batch.loader', batch.loader);
+    span.setAttribute('batch.size', batch.size);
+    span.setAttribute('batch.duration_ms', batch.duration);
+
+    if (batch.error) {
+      span.setAttribute('error.message', batch.error);
+    }
+    span.end();
+  }
+}
+
 /**
  * Trace a cache operation (hit/miss/set).
  */
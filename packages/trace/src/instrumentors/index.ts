@@ -4,7 +4,7 @@
 
 export { traceMiddleware, type TraceMiddlewareOptions } from './request';
 export { traceRouteMatch, recordRouteMatch } from './routing';
-export { traceLoader, recordLoaderMetrics, traceCacheOperation, type LoaderTraceInfo } from './data';
+export { traceLoader, recordLoaderMetrics, recordBatchMetrics, traceCacheOperation, type LoaderTraceInfo, type BatchTraceInfo } from './data';
 export { traceFormSubmit, recordFormValidation } from './forms';
 export { recordSignalUpdate, recordSignalBatch } from './signals';
 export { traceRPCCall, recordRPCValidation } from './rpc';
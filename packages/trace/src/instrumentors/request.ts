@@ -3,6 +3,8 @@
  *
  * Middleware that creates the root trace span wrapping the entire request.
  * Records: method, pathname, headers, statusCode, total duration.
+ * Continues distributed traces from an inbound W3C `traceparent` header, and
+ * makes the request's trace context current for outbound calls.
  *
  * Must be inserted as FIRST middleware in BunServer.setupMiddleware().
  */
@@ -10,12 +12,18 @@
 import type { MiddlewareHandler } from '@ereo/core';
 import type { Tracer } from '../types';
 import { setTracer, setActiveSpan } from '../context';
+import { enableTracePropagation, extractTraceContext, runWithTraceContext } from '../propagation';
 
 export interface TraceMiddlewareOptions {
   /** Paths to exclude from tracing (e.g., static assets) */
   exclude?: string[];
   /** Whether to record request headers */
   recordHeaders?: boolean;
+  /**
+   * Read inbound `traceparent`/`tracestate` headers and send them on outbound
+   * `fetchData`, `@ereo/rpc` and `@ereo/client-sdk` requests (default: true)
+   */
+  propagate?: boolean;
 }
 
 /**
@@ -25,7 +33,11 @@ export interface TraceMiddlewareOptions {
  * @param options - Configuration options
  */
 export function traceMiddleware(tracer: Tracer, options: TraceMiddlewareOptions = {}): MiddlewareHandler {
-  const { exclude = ['/_ereo/', '/__ereo/', '/favicon.ico'], recordHeaders = false } = options;
+  const { exclude = ['/_ereo/', '/__ereo/', '/favicon.ico'], recordHeaders = false, propagate = true } = options;
+
+  if (propagate) {
+    enableTracePropagation();
+  }
 
   return async (request, context, next) => {
     const url = new URL(request.url);
@@ -37,12 +49,20 @@ export function traceMiddleware(tracer: Tracer, options: TraceMiddlewareOptions
       }
     }
 
+    // Continue the caller's distributed trace, if any
+    const parent = propagate ? extractTraceContext(request.headers) : null;
+
     // Create root trace span
-    const rootSpan = tracer.startTrace(`${request.method} ${url.pathname}`, 'request', {
-      origin: 'server',
-      method: request.method,
-      pathname: url.pathname,
-    });
+    const rootSpan = tracer.startTrace(
+      `${request.method} ${url.pathname}`,
+      'request',
+      {
+        origin: 'server',
+        method: request.method,
+        pathname: url.pathname,
+      },
+      { parent },
+    );
 
     rootSpan.setAttribute('http.method', request.method);
     rootSpan.setAttribute('http.pathname', url.pathname);
@@ -70,7 +90,17 @@ export function traceMiddleware(tracer: Tracer, options: TraceMiddlewareOptions
 
     let response: Response;
     try {
-      response = await next();
+      response = propagate
+        ? await runWithTraceContext(
+            {
+              traceId: parent?.traceId ?? rootSpan.traceId,
+              spanId: rootSpan.id,
+              sampled: tracer.isSampled(rootSpan.traceId),
+              traceState: parent?.traceState,
+            },
+            next,
+          )
+        : await next();
     } catch (err) {
       rootSpan.error(err);
       rootSpan.setAttribute('http.status_code', 500);
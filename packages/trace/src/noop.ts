@@ -46,6 +46,11 @@ class NoopTracer implements Tracer {
     return () => {};
   }
   mergeClientSpans(): void {}
+  isSampled(): boolean {
+    return false;
+  }
+  async flush(): Promise<void> {}
+  async shutdown(): Promise<void> {}
 }
 
 /** Singleton no-op tracer instance */
@@ -106,6 +111,7 @@ export function traceRouteMatch<T>(_span: any, fn: () => T): T { return fn(); }
 export function recordRouteMatch(): void {}
 export function traceLoader<T>(_span: any, _key: string, fn: () => T | Promise<T>): T | Promise<T> { return fn(); }
 export function recordLoaderMetrics(): void {}
+export function recordBatchMetrics(): void {}
 export function traceCacheOperation(): void {}
 export function traceFormSubmit<T>(_span: any, _formName: string, fn: () => T | Promise<T>, _attrs?: any): T | Promise<T> { return fn(); }
 export function recordFormValidation(): void {}
@@ -123,6 +129,18 @@ export function traceBuild(_tracer: any, _buildName?: string): Span { return NOO
 export function traceError(): void {}
 export function withErrorCapture<T>(_span: any, _phase: string, fn: () => T | Promise<T>): T | Promise<T> { return fn(); }
 
+// Export and propagation — no-ops
+export function createOTLPExporter() { return { async export() {} }; }
+export function toOTLPRequest(): any { return { resourceSpans: [] }; }
+export function parseTraceparent(): null { return null; }
+export function formatTraceparent(): string { return ''; }
+export function extractTraceContext(): null { return null; }
+export function traceContextHeaders(): Record<string, string> { return {}; }
+export function runWithTraceContext<T>(_context: any, fn: () => T): T { return fn(); }
+export function getCurrentTraceContext(): undefined { return undefined; }
+export function enableTracePropagation(): void {}
+export function disableTracePropagation(): void {}
+
 // Serialization — passthrough
 export function serializeTrace(trace: any): any { return trace; }
 export function deserializeTrace(data: any): any { return data; }
@@ -0,0 +1,178 @@
+/**
+ * @ereo/trace - OTLP Exporter
+ *
+ * Sends traces to an OpenTelemetry collector over OTLP/HTTP with JSON
+ * encoding (`POST /v1/traces`). Works with the OpenTelemetry Collector,
+ * Jaeger, Grafana Tempo, Honeycomb and other OTLP endpoints.
+ */
+
+import type { SpanData, TraceData, TraceExporter } from './types';
+
+/** Options for the OTLP exporter */
+export interface OTLPExporterOptions {
+  /** Collector traces endpoint (default: OTEL_EXPORTER_OTLP_TRACES_ENDPOINT, or http://localhost:4318/v1/traces) */
+  url?: string;
+  /** Extra request headers, e.g. an API key */
+  headers?: Record<string, string>;
+  /** `service.name` resource attribute (default: OTEL_SERVICE_NAME, or 'ereo-app') */
+  serviceName?: string;
+  /** Extra resource attributes, e.g. `deployment.environment` */
+  resourceAttributes?: Record<string, string | number | boolean>;
+  /** Request timeout in ms (default: 10000) */
+  timeout?: number;
+  /** Custom fetch implementation */
+  fetch?: typeof fetch;
+}
+
+type OTLPAnyValue =
+  | { stringValue: string }
+  | { boolValue: boolean }
+  | { intValue: string }
+  | { doubleValue: number };
+
+interface OTLPKeyValue {
+  key: string;
+  value: OTLPAnyValue;
+}
+
+/** An OTLP span in JSON encoding */
+export interface OTLPSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  traceState?: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OTLPKeyValue[];
+  events: Array<{ timeUnixNano: string; name: string; attributes: OTLPKeyValue[] }>;
+  status: { code: number; message?: string };
+}
+
+/** OTLP ExportTraceServiceRequest in JSON encoding */
+export interface OTLPExportRequest {
+  resourceSpans: Array<{
+    resource: { attributes: OTLPKeyValue[] };
+    scopeSpans: Array<{
+      scope: { name: string };
+      spans: OTLPSpan[];
+    }>;
+  }>;
+}
+
+const SPAN_KIND_INTERNAL = 1;
+const SPAN_KIND_SERVER = 2;
+const STATUS_CODE_UNSET = 0;
+const STATUS_CODE_ERROR = 2;
+
+function toAnyValue(value: string | number | boolean): OTLPAnyValue {
+  if (typeof value === 'string') return { stringValue: value };
+  if (typeof value === 'boolean') return { boolValue: value };
+  return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+}
+
+function toAttributes(attributes: Record<string, string | number | boolean> | undefined): OTLPKeyValue[] {
+  return Object.entries(attributes ?? {}).map(([key, value]) => ({ key, value: toAnyValue(value) }));
+}
+
+/** Convert a `performance.now()` timestamp to Unix nanoseconds */
+function toUnixNano(time: number): string {
+  const micros = Math.round((performance.timeOrigin + time) * 1000);
+  return (BigInt(micros) * 1000n).toString();
+}
+
+function toOTLPSpan(span: SpanData, trace: TraceData): OTLPSpan {
+  const isRoot = span.id === trace.rootSpanId;
+  const parentSpanId = span.parentId ?? (isRoot ? trace.metadata.parentSpanId : undefined);
+
+  const otlpSpan: OTLPSpan = {
+    traceId: trace.metadata.parentTraceId ?? span.traceId,
+    spanId: span.id,
+    name: span.name,
+    kind: isRoot && span.layer === 'request' ? SPAN_KIND_SERVER : SPAN_KIND_INTERNAL,
+    startTimeUnixNano: toUnixNano(span.startTime),
+    endTimeUnixNano: toUnixNano(span.endTime),
+    attributes: [{ key: 'ereo.layer', value: { stringValue: span.layer } }, ...toAttributes(span.attributes)],
+    events: span.events.map((event) => ({
+      timeUnixNano: toUnixNano(event.time),
+      name: event.name,
+      attributes: toAttributes(event.attributes),
+    })),
+    status:
+      span.status === 'ok'
+        ? { code: STATUS_CODE_UNSET }
+        : {
+            code: STATUS_CODE_ERROR,
+            message: String(span.attributes['error.message'] ?? span.status),
+          },
+  };
+
+  if (parentSpanId) otlpSpan.parentSpanId = parentSpanId;
+  if (isRoot && trace.metadata.traceState) otlpSpan.traceState = trace.metadata.traceState;
+  return otlpSpan;
+}
+
+/**
+ * Convert traces to an OTLP/JSON export request.
+ */
+export function toOTLPRequest(
+  traces: TraceData[],
+  resourceAttributes: Record<string, string | number | boolean>,
+): OTLPExportRequest {
+  return {
+    resourceSpans: [
+      {
+        resource: { attributes: toAttributes(resourceAttributes) },
+        scopeSpans: [
+          {
+            scope: { name: '@ereo/trace' },
+            spans: traces.flatMap((trace) =>
+              Array.from(trace.spans.values()).map((span) => toOTLPSpan(span, trace)),
+            ),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Create an exporter that sends traces to an OTLP/HTTP collector.
+ *
+ * @example
+ * const tracer = createTracer({
+ *   exporters: [createOTLPExporter({ url: 'http://collector:4318/v1/traces', serviceName: 'web' })],
+ *   // Export 10% of traces, plus every trace slower than a second
+ *   sampling: { ratio: 0.1, tail: (trace, sampled) => sampled || trace.duration > 1000 },
+ * });
+ */
+export function createOTLPExporter(options: OTLPExporterOptions = {}): TraceExporter {
+  const env = typeof process !== 'undefined' ? process.env : {};
+  const url = options.url ?? env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT ?? 'http://localhost:4318/v1/traces';
+  const timeout = options.timeout ?? 10000;
+  const fetchFn = options.fetch ?? fetch;
+  const resource = {
+    'service.name': options.serviceName ?? env.OTEL_SERVICE_NAME ?? 'ereo-app',
+    'telemetry.sdk.name': '@ereo/trace',
+    'telemetry.sdk.language': 'javascript',
+    ...options.resourceAttributes,
+  };
+
+  return {
+    async export(traces) {
+      if (traces.length === 0) return;
+
+      const response = await fetchFn(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...options.headers },
+        body: JSON.stringify(toOTLPRequest(traces, resource)),
+        signal: AbortSignal.timeout(timeout),
+      });
+
+      if (!response.ok) {
+        throw new Error(`OTLP export failed: ${response.status} ${response.statusText}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * @ereo/trace - W3C Trace Context Propagation
+ *
+ * Parses inbound `traceparent`/`tracestate` headers and injects them into
+ * outbound requests made while a traced request is being handled.
+ * See https://www.w3.org/TR/trace-context/
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { setTraceHeadersProvider } from '@ereo/core';
+import type { TraceContext } from './types';
+
+const TRACEPARENT = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+const INVALID_TRACE_ID = '0'.repeat(32);
+const INVALID_SPAN_ID = '0'.repeat(16);
+
+/**
+ * Parse a `traceparent` header. Returns null for malformed or invalid values.
+ */
+export function parseTraceparent(value: string | null | undefined): Omit<TraceContext, 'traceState'> | null {
+  if (!value) return null;
+  const match = TRACEPARENT.exec(value.trim().toLowerCase());
+  if (!match) return null;
+
+  const [, version, traceId, spanId, flags, rest] = match;
+  // Version ff is forbidden; version 00 has no trailing fields
+  if (version === 'ff' || (version === '00' && rest)) return null;
+  if (traceId === INVALID_TRACE_ID || spanId === INVALID_SPAN_ID) return null;
+
+  return { traceId, spanId, sampled: (parseInt(flags, 16) & 1) === 1 };
+}
+
+/**
+ * Format a `traceparent` header.
+ */
+export function formatTraceparent(context: Pick<TraceContext, 'traceId' | 'spanId' | 'sampled'>): string {
+  return `00-${context.traceId}-${context.spanId}-${context.sampled ? '01' : '00'}`;
+}
+
+/**
+ * Read the trace context from request headers.
+ */
+export function extractTraceContext(headers: Headers): TraceContext | null {
+  const parent = parseTraceparent(headers.get('traceparent'));
+  if (!parent) return null;
+
+  const traceState = headers.get('tracestate') ?? undefined;
+  return traceState ? { ...parent, traceState } : parent;
+}
+
+/**
+ * Build the headers that carry a trace context.
+ */
+export function traceContextHeaders(context: TraceContext): Record<string, string> {
+  const headers: Record<string, string> = { traceparent: formatTraceparent(context) };
+  if (context.traceState) {
+    headers.tracestate = context.traceState;
+  }
+  return headers;
+}
+
+// ============================================================================
+// Current context
+// ============================================================================
+
+const contextStorage = new AsyncLocalStorage<TraceContext>();
+
+/**
+ * Run a function with a trace context as the current one.
+ * Outbound requests made inside it carry the context.
+ */
+export function runWithTraceContext<T>(context: TraceContext, fn: () => T): T {
+  return contextStorage.run(context, fn);
+}
+
+/**
+ * Get the trace context of the code that is running, if any.
+ */
+export function getCurrentTraceContext(): TraceContext | undefined {
+  return contextStorage.getStore();
+}
+
+/**
+ * Send the current trace context with outbound requests made by
+ * `fetchData`, `@ereo/rpc` clients and `@ereo/client-sdk`.
+ * Called by `traceMiddleware` unless `propagate` is false.
+ */
+export function enableTracePropagation(): void {
+  setTraceHeadersProvider(() => {
+    const context = contextStorage.getStore();
+    return context ? traceContextHeaders(context) : undefined;
+  });
+}
+
+/**
+ * Stop sending trace context with outbound requests.
+ */
+export function disableTracePropagation(): void {
+  setTraceHeadersProvider(null);
+}
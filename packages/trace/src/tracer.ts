@@ -2,7 +2,8 @@
  * @ereo/trace - Core Tracer
  *
  * Creates and manages traces + spans. Stores completed traces in a ring buffer.
- * Emits events for live streaming to CLI/DevTools.
+ * Emits events for live streaming to CLI/DevTools, and hands sampled traces
+ * to the configured exporters.
  */
 
 import type {
@@ -11,15 +12,18 @@ import type {
   SpanEvent,
   SpanId,
   SpanLayer,
+  StartTraceOptions,
   TraceData,
   TraceId,
   TraceMetadata,
   TraceStreamEvent,
   Tracer,
   TracerConfig,
+  TraceSamplingConfig,
 } from './types';
 import { SpanImpl, generateTraceId } from './span';
 import { RingBuffer } from './ring-buffer';
+import { BatchTraceProcessor } from './exporter';
 
 /** Active trace being recorded */
 interface ActiveTrace {
@@ -45,7 +49,9 @@ export class TracerImpl implements Tracer {
   private activeTraces = new Map<TraceId, ActiveTrace>();
   private spanStacks = new Map<TraceId, SpanImpl[]>();
   private subscribers = new Set<(event: TraceStreamEvent) => void>();
-  private config: Required<TracerConfig>;
+  private config: Required<Omit<TracerConfig, 'exporters' | 'sampling' | 'batch'>>;
+  private sampling: TraceSamplingConfig;
+  private processors: BatchTraceProcessor[];
 
   constructor(config: TracerConfig = {}) {
     this.config = {
@@ -54,10 +60,19 @@ export class TracerImpl implements Tracer {
       layers: config.layers ?? [],
       minDuration: config.minDuration ?? 0,
     };
+    this.sampling = config.sampling ?? {};
+    this.processors = (config.exporters ?? []).map((exporter) => new BatchTraceProcessor(exporter, config.batch));
     this.traces = new RingBuffer<TraceData>(this.config.maxTraces);
   }
 
-  startTrace(name: string, layer: SpanLayer, metadata?: Partial<TraceMetadata>): Span {
+  startTrace(
+    name: string,
+    layer: SpanLayer,
+    metadata?: Partial<TraceMetadata>,
+    options?: StartTraceOptions,
+  ): Span {
+    const parent = options?.parent;
+    // Always a local ID: concurrent requests may continue the same remote trace
     const traceId = generateTraceId();
     const span = this.createSpan(traceId, null, name, layer);
 
@@ -69,10 +84,17 @@ export class TracerImpl implements Tracer {
       metadata: {
         origin: 'server',
         ...metadata,
+        sampled: this.shouldSample(parent?.sampled),
       },
       activeSpanCount: 1,
     };
 
+    if (parent) {
+      activeTrace.metadata.parentTraceId = parent.traceId;
+      activeTrace.metadata.parentSpanId = parent.spanId;
+      if (parent.traceState) activeTrace.metadata.traceState = parent.traceState;
+    }
+
     this.activeTraces.set(traceId, activeTrace);
     this.spanStacks.set(traceId, [span]);
 
@@ -161,6 +183,47 @@ export class TracerImpl implements Tracer {
     }
   }
 
+  isSampled(traceId: TraceId): boolean {
+    const trace = this.activeTraces.get(traceId) ?? this.traces.get(traceId);
+    return trace?.metadata.sampled ?? false;
+  }
+
+  async flush(): Promise<void> {
+    await Promise.all(this.processors.map((processor) => processor.flush()));
+  }
+
+  async shutdown(): Promise<void> {
+    await Promise.all(this.processors.map((processor) => processor.shutdown()));
+  }
+
+  /** Head sampling: follow the caller's decision, or sample by ratio */
+  private shouldSample(parentSampled: boolean | undefined): boolean {
+    if (parentSampled !== undefined && this.sampling.parentBased !== false) {
+      return parentSampled;
+    }
+    const ratio = this.sampling.ratio ?? 1;
+    return ratio >= 1 || Math.random() < ratio;
+  }
+
+  /** Hand a completed trace to the exporters if it is sampled */
+  private exportTrace(trace: TraceData): void {
+    if (this.processors.length === 0) return;
+
+    const headSampled = trace.metadata.sampled ?? true;
+    let sampled = headSampled;
+    if (this.sampling.tail) {
+      try {
+        sampled = this.sampling.tail(trace, headSampled);
+      } catch {
+        // A broken sampler must not break tracing; keep the head decision
+      }
+    }
+
+    if (sampled) {
+      for (const processor of this.processors) processor.add(trace);
+    }
+  }
+
   /** Find the active span from the most recently started trace's stack */
   private findActiveSpan(): SpanImpl | null {
     let latest: SpanImpl | null = null;
@@ -255,6 +318,7 @@ export class TracerImpl implements Tracer {
 
     this.traces.push(traceData);
     this.emit({ type: 'trace:end', trace: traceData });
+    this.exportTrace(traceData);
   }
 
   private buildTraceData(active: ActiveTrace): TraceData {
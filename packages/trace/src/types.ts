@@ -61,6 +61,14 @@ export interface TraceMetadata {
   pathname?: string;
   statusCode?: number;
   routePattern?: string;
+  /** Trace of the remote caller, from an inbound `traceparent` (used when exporting and propagating) */
+  parentTraceId?: TraceId;
+  /** Span of the remote caller, from an inbound `traceparent` */
+  parentSpanId?: SpanId;
+  /** Inbound `tracestate` header */
+  traceState?: string;
+  /** Head sampling decision: whether the trace is sent to exporters */
+  sampled?: boolean;
 }
 
 /** A complete trace with all its spans */
@@ -92,10 +100,28 @@ export interface Span {
   child(name: string, layer: SpanLayer): Span;
 }
 
+/** W3C trace context carried between services */
+export interface TraceContext {
+  /** 32-char hex trace ID */
+  traceId: TraceId;
+  /** 16-char hex ID of the calling span */
+  spanId: SpanId;
+  /** Whether the caller sampled the trace */
+  sampled: boolean;
+  /** Vendor-specific `tracestate` header, passed through unchanged */
+  traceState?: string;
+}
+
+/** Options for starting a trace */
+export interface StartTraceOptions {
+  /** Continue a distributed trace started by another service */
+  parent?: TraceContext | null;
+}
+
 /** Tracer interface for creating and managing traces */
 export interface Tracer {
   /** Start a new trace with a root span */
-  startTrace(name: string, layer: SpanLayer, metadata?: Partial<TraceMetadata>): Span;
+  startTrace(name: string, layer: SpanLayer, metadata?: Partial<TraceMetadata>, options?: StartTraceOptions): Span;
   /** Start a new span as a child of the current active span */
   startSpan(name: string, layer: SpanLayer): Span;
   /** Get the currently active span, if any */
@@ -110,6 +136,43 @@ export interface Tracer {
   subscribe(cb: (event: TraceStreamEvent) => void): () => void;
   /** Merge client-side spans into an existing completed trace */
   mergeClientSpans(traceId: TraceId, spans: SpanData[]): void;
+  /** Whether a trace was head-sampled for export */
+  isSampled(traceId: TraceId): boolean;
+  /** Export all queued traces now */
+  flush(): Promise<void>;
+  /** Flush queued traces and shut down exporters */
+  shutdown(): Promise<void>;
+}
+
+/** Receives completed traces, e.g. to send them to a collector */
+export interface TraceExporter {
+  /** Export a batch of completed traces. Rejections are logged and the batch dropped. */
+  export(traces: TraceData[]): Promise<void>;
+  /** Release resources. Called once by Tracer.shutdown(). */
+  shutdown?(): Promise<void>;
+}
+
+/** Batching of exported traces */
+export interface TraceBatchConfig {
+  /** Maximum traces per export call (default: 64) */
+  maxBatchSize?: number;
+  /** Maximum traces waiting for export; newer traces are dropped when full (default: 1024) */
+  maxQueueSize?: number;
+  /** Delay before exporting a partial batch, in ms (default: 5000) */
+  scheduledDelay?: number;
+}
+
+/** Which traces are sent to exporters */
+export interface TraceSamplingConfig {
+  /** Fraction of new traces to export, from 0 to 1 (default: 1) */
+  ratio?: number;
+  /** Follow the sampled flag of an inbound `traceparent` (default: true) */
+  parentBased?: boolean;
+  /**
+   * Decide once a trace completes, e.g. to keep every error or slow trace.
+   * Receives the head decision and returns whether to export.
+   */
+  tail?: (trace: TraceData, headSampled: boolean) => boolean;
 }
 
 /** Events emitted by the tracer for live streaming */
@@ -130,4 +193,10 @@ export interface TracerConfig {
   layers?: SpanLayer[];
   /** Minimum duration (ms) to record (default: 0) */
   minDuration?: number;
+  /** Exporters that receive completed traces, e.g. createOTLPExporter() */
+  exporters?: TraceExporter[];
+  /** Sampling of exported traces (local storage keeps every trace) */
+  sampling?: TraceSamplingConfig;
+  /** Batching of exported traces */
+  batch?: TraceBatchConfig;
 }